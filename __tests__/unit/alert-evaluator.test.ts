@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isAlertConditionMet,
+  getAlertDecision,
+  getPositionPnlPercent,
+  getPortfolioValueUsd
+} from '../../server/alert-evaluator';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Alert Evaluator', () => {
+  it('should match price, PnL and portfolio thresholds inclusively', () => {
+    expect(isAlertConditionMet('price_above', 1.5, 1.5)).toBe(true);
+    expect(isAlertConditionMet('price_above', 1.5, 1.49)).toBe(false);
+    expect(isAlertConditionMet('price_below', 1.5, 1.2)).toBe(true);
+    expect(isAlertConditionMet('portfolio_below', 500, 500.01)).toBe(false);
+
+    // Signed PnL thresholds pick the direction
+    expect(isAlertConditionMet('position_pnl', 50, 62)).toBe(true);
+    expect(isAlertConditionMet('position_pnl', 50, -62)).toBe(false);
+    expect(isAlertConditionMet('position_pnl', -20, -25)).toBe(true);
+    expect(isAlertConditionMet('position_pnl', -20, 10)).toBe(false);
+  });
+
+  it('should fire once per crossing and re-arm when the condition clears', () => {
+    const now = new Date(10 * HOUR);
+    const armed = { armed: true, cooldownMinutes: 0, lastTriggeredAt: null };
+    const fired = { armed: false, cooldownMinutes: 0, lastTriggeredAt: now };
+
+    expect(getAlertDecision(armed, true, now)).toBe('fire');
+    expect(getAlertDecision(fired, true, now)).toBe('none');
+    expect(getAlertDecision(fired, false, now)).toBe('rearm');
+    expect(getAlertDecision(armed, false, now)).toBe('none');
+  });
+
+  it('should hold a re-armed alert until its cooldown has passed', () => {
+    const lastTriggeredAt = new Date(10 * HOUR);
+    const alert = { armed: true, cooldownMinutes: 60, lastTriggeredAt };
+
+    expect(getAlertDecision(alert, true, new Date(10.5 * HOUR))).toBe('none');
+    expect(getAlertDecision(alert, true, new Date(11 * HOUR))).toBe('fire');
+  });
+
+  it('should compute position PnL from the average entry price', () => {
+    expect(getPositionPnlPercent(0.002, 0.003)).toBeCloseTo(50);
+    expect(getPositionPnlPercent(0.002, 0.0015)).toBeCloseTo(-25);
+    expect(getPositionPnlPercent(null, 0.003)).toBeNull();
+  });
+
+  it('should value the portfolio and refuse partial totals', () => {
+    const prices = new Map<string, number | null>([['bonk', 0.00002], ['wif', null]]);
+
+    expect(getPortfolioValueUsd(2, 150, [{ mint: 'bonk', amount: 1000000 }], prices)).toBeCloseTo(320);
+    expect(getPortfolioValueUsd(2, 150, [{ mint: 'wif', amount: 0 }], prices)).toBe(300);
+    expect(getPortfolioValueUsd(2, 150, [{ mint: 'wif', amount: 10 }], prices)).toBeNull();
+  });
+});
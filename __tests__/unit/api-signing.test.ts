@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCanonicalRequest,
+  generateApiKey,
+  hashApiKey,
+  normalizeScopes,
+  signRequest,
+  verifyRequestSignature,
+  SIGNATURE_MAX_SKEW_MS
+} from '../../server/api-signing';
+
+const NOW = 1_715_346_000_000;
+
+function signedParts(secret: string, overrides: Partial<Parameters<typeof buildCanonicalRequest>[0]> = {}) {
+  const parts = {
+    timestamp: String(NOW),
+    nonce: '9f2c4e7a1b3d5f60',
+    method: 'POST',
+    path: '/api/v1/swap/quote',
+    body: Buffer.from('{"tokenAddress":"abc","amount":"0.1","type":"buy"}'),
+    ...overrides
+  };
+  return { parts, signature: signRequest(secret, buildCanonicalRequest(parts)) };
+}
+
+describe('API Signing', () => {
+  it('should issue keys whose hash and prefix match the key', () => {
+    const material = generateApiKey();
+
+    expect(material.key.startsWith(`${material.keyPrefix}_`)).toBe(true);
+    expect(material.keyPrefix).toMatch(/^anv_[0-9a-f]{8}$/);
+    expect(material.keyHash).toBe(hashApiKey(material.key));
+    expect(material.keyHash).not.toContain(material.key);
+    expect(generateApiKey().secret).not.toBe(material.secret);
+  });
+
+  it('should always include read and reject unknown scopes', () => {
+    expect(normalizeScopes(undefined)).toEqual(['read']);
+    expect(normalizeScopes(['withdraw', 'trade', 'trade'])).toEqual(['read', 'trade', 'withdraw']);
+    expect(normalizeScopes(['admin'])).toBeNull();
+    expect(normalizeScopes('trade')).toBeNull();
+  });
+
+  it('should accept a correctly signed request', () => {
+    const { parts, signature } = signedParts('secret');
+
+    expect(verifyRequestSignature('secret', parts, signature, NOW + 1000)).toBeNull();
+  });
+
+  it('should reject tampered requests and wrong secrets', () => {
+    const { parts, signature } = signedParts('secret');
+
+    expect(verifyRequestSignature('other', parts, signature, NOW)).toBe('Invalid signature');
+    expect(verifyRequestSignature('secret', { ...parts, body: Buffer.from('{}') }, signature, NOW)).toBe('Invalid signature');
+    expect(verifyRequestSignature('secret', { ...parts, path: '/api/v1/swap' }, signature, NOW)).toBe('Invalid signature');
+    expect(verifyRequestSignature('secret', parts, 'not-hex', NOW)).toBe('Invalid signature');
+  });
+
+  it('should reject stale timestamps and malformed nonces', () => {
+    const { parts, signature } = signedParts('secret');
+    expect(verifyRequestSignature('secret', parts, signature, NOW + SIGNATURE_MAX_SKEW_MS + 1)).toMatch(/timestamp/);
+
+    const shortNonce = signedParts('secret', { nonce: 'abc' });
+    expect(verifyRequestSignature('secret', shortNonce.parts, shortNonce.signature, NOW)).toMatch(/Nonce/);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  checkTransferAmount,
+  estimateBridgeTransfer,
+  getTransferLimits,
+  MIN_TRANSFER_SOL
+} from '../../server/bridge-estimate';
+import { MockBridgeProvider, MockIntermediateChain } from '../../server/mock-bridge-provider';
+
+function createRoute() {
+  const provider = new MockBridgeProvider();
+  provider.rates.set('sol->trx', 600);
+  provider.rates.set('trx->sol', 1 / 612); // 2% spread over the round trip
+  return { provider, intermediate: new MockIntermediateChain() };
+}
+
+describe('Bridge Estimates', () => {
+  it('should chain both hops and charge the spread to withdrawals', async () => {
+    const route = createRoute();
+    const limits = await getTransferLimits(route);
+
+    const estimate = await estimateBridgeTransfer(route, 'withdrawal', 2, 150, limits);
+
+    expect(estimate.intermediateAmount).toBe('1200.000000000');
+    expect(estimate.intermediateTicker).toBe('TRX');
+    expect(estimate.bridgeOutputSol).toBe('1.960784314');
+    expect(estimate.receiveSol).toBe('1.960784314');
+    expect(estimate.spreadSol).toBe('0.039215686');
+    expect(estimate.spreadUsd).toBe('5.88');
+    expect(estimate.spreadPercent).toBe('1.96');
+    expect(estimate.feePaidBy).toBe('user');
+    expect(estimate.etaMinutes).toEqual({ min: 2, max: 4 });
+  });
+
+  it('should credit deposits in full because the platform absorbs the spread', async () => {
+    const route = createRoute();
+    const estimate = await estimateBridgeTransfer(route, 'deposit', 2, 150, await getTransferLimits(route));
+
+    expect(estimate.receiveSol).toBe('2.000000000');
+    expect(estimate.receiveUsd).toBe('300.00');
+    expect(estimate.spreadSol).toBe('0.039215686');
+    expect(estimate.feePaidBy).toBe('platform');
+  });
+
+  it('should combine provider ranges of both hops in SOL', async () => {
+    const route = createRoute();
+    route.provider.ranges.set('sol->trx', { min: '0.02', max: '500' });
+    route.provider.ranges.set('trx->sol', { min: '60', max: '120000' }); // 0.1 - 200 SOL at 600 TRX/SOL
+
+    const limits = await getTransferLimits(route);
+
+    expect(limits).toEqual({ minSol: 0.1, maxSol: 200 });
+    expect(checkTransferAmount('deposit', 0.09, limits)).toBe('Minimum deposit is 0.1 SOL');
+    expect(checkTransferAmount('withdrawal', 250, limits)).toBe('Maximum withdrawal is 200 SOL');
+    expect(checkTransferAmount('deposit', 1, limits)).toBeNull();
+  });
+
+  it('should never go below the platform minimum and allow open-ended maximums', async () => {
+    const limits = await getTransferLimits(createRoute());
+
+    expect(limits).toEqual({ minSol: MIN_TRANSFER_SOL, maxSol: null });
+    expect(checkTransferAmount('deposit', 10000, limits)).toBeNull();
+  });
+
+  it('should cache limits per route for ten minutes', async () => {
+    const route = createRoute();
+    const getRange = vi.spyOn(route.provider, 'getRange');
+    let now = 0;
+
+    await getTransferLimits(route, () => now);
+    now += 9 * 60 * 1000;
+    await getTransferLimits(route, () => now);
+    expect(getRange).toHaveBeenCalledTimes(2); // One call per hop
+
+    now += 2 * 60 * 1000;
+    await getTransferLimits(route, () => now);
+    expect(getRange).toHaveBeenCalledTimes(4);
+  });
+});
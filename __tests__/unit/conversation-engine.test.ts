@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ConversationEngine,
+  DEFAULT_CONVERSATION_TIMEOUT_MS,
+  type ConversationStore,
+  type StoredConversation
+} from '../../server/telegram/conversation-engine';
+
+type TestSteps = {
+  withdraw: {
+    amount: {};
+    address: { amount: string };
+  };
+  custom_buy: {
+    amount: { tokenMint: string };
+  };
+};
+
+interface FakeContext {
+  replies: string[];
+}
+
+// JSON round trip like the telegram_conversations payload column
+class MemoryConversationStore implements ConversationStore {
+  rows = new Map<string, string>();
+
+  async get(userId: string) {
+    const row = this.rows.get(userId);
+    if (!row) {
+      return null;
+    }
+    const parsed = JSON.parse(row);
+    return { ...parsed, expiresAt: new Date(parsed.expiresAt) } as StoredConversation;
+  }
+
+  async save(userId: string, conversation: StoredConversation) {
+    this.rows.set(userId, JSON.stringify(conversation));
+  }
+
+  async delete(userId: string) {
+    this.rows.delete(userId);
+  }
+}
+
+function createEngine() {
+  const store = new MemoryConversationStore();
+  const clock = { now: 0 };
+  const engine = new ConversationEngine<TestSteps, FakeContext>(store, () => clock.now);
+
+  engine.register('withdraw', 'amount', {
+    accepts: /^\d+\.?\d*$/,
+    handle: async (ctx, input) => {
+      ctx.replies.push(`amount ${input}`);
+      await engine.start('user-1', 'withdraw', 'address', { amount: input });
+    },
+  });
+  engine.register('withdraw', 'address', {
+    accepts: /^[1-9A-HJ-NP-Za-km-z]{32,44}$/,
+    timeoutMs: 60 * 1000,
+    handle: async (ctx, input, { amount }) => {
+      ctx.replies.push(`withdraw ${amount} to ${input}`);
+      await engine.end('user-1');
+    },
+  });
+
+  return { engine, store, clock };
+}
+
+const ADDRESS = '8vN3QkGpHzJzv4Xk1t7yKpFq2x9m5Wb3Lr6Ud8Ec4Tsa';
+
+describe('Conversation Engine', () => {
+  it('should walk a flow step by step and carry the payload', async () => {
+    const { engine, store } = createEngine();
+    const ctx: FakeContext = { replies: [] };
+
+    await engine.start('user-1', 'withdraw', 'amount', {});
+    expect(await engine.dispatch(ctx, 'user-1', '0.5')).toBe('handled');
+    expect(await engine.get('user-1')).toMatchObject({ flow: 'withdraw', step: 'address', payload: { amount: '0.5' } });
+
+    expect(await engine.dispatch(ctx, 'user-1', ADDRESS)).toBe('handled');
+    expect(ctx.replies).toEqual(['amount 0.5', `withdraw 0.5 to ${ADDRESS}`]);
+    expect(store.rows.size).toBe(0);
+  });
+
+  it('should resume from the store after a restart', async () => {
+    const { engine, store, clock } = createEngine();
+    await engine.start('user-1', 'withdraw', 'address', { amount: '2' });
+
+    const restarted = new ConversationEngine<TestSteps, FakeContext>(store, () => clock.now);
+    const handle = vi.fn(async () => {});
+    restarted.register('withdraw', 'address', { handle });
+
+    expect(await restarted.dispatch({ replies: [] }, 'user-1', ADDRESS)).toBe('handled');
+    expect(handle).toHaveBeenCalledWith({ replies: [] }, ADDRESS, { amount: '2' });
+  });
+
+  it('should leave unmatched input to other handlers without ending the step', async () => {
+    const { engine } = createEngine();
+    await engine.start('user-1', 'withdraw', 'amount', {});
+
+    expect(await engine.dispatch({ replies: [] }, 'user-1', ADDRESS)).toBe('unmatched');
+    expect(await engine.get('user-1')).toMatchObject({ step: 'amount' });
+    expect(await engine.dispatch({ replies: [] }, 'user-2', '1')).toBe('none');
+  });
+
+  it('should expire steps after their timeout', async () => {
+    const { engine, store, clock } = createEngine();
+
+    await engine.start('user-1', 'withdraw', 'amount', {});
+    clock.now += DEFAULT_CONVERSATION_TIMEOUT_MS - 1;
+    expect(await engine.get('user-1')).not.toBeNull();
+
+    await engine.start('user-1', 'withdraw', 'address', { amount: '1' }); // Per-step timeout: 1 minute
+    clock.now += 60 * 1000;
+    expect(await engine.get('user-1')).toBeNull();
+
+    expect(await engine.dispatch({ replies: [] }, 'user-1', ADDRESS)).toBe('expired');
+    expect(store.rows.size).toBe(0);
+  });
+
+  it('should cancel and return the active conversation', async () => {
+    const { engine } = createEngine();
+    await engine.start('user-1', 'withdraw', 'address', { amount: '3' });
+
+    expect(await engine.end('user-1')).toMatchObject({ flow: 'withdraw', step: 'address', payload: { amount: '3' } });
+    expect(await engine.end('user-1')).toBeNull();
+  });
+
+  it('should end the conversation when a handler throws', async () => {
+    const { engine, store } = createEngine();
+    engine.register('custom_buy', 'amount', {
+      handle: async () => {
+        throw new Error('Swap service down');
+      },
+    });
+    await engine.start('user-1', 'custom_buy', 'amount', { tokenMint: 'mint' });
+
+    await expect(engine.dispatch({ replies: [] }, 'user-1', '0.1')).rejects.toThrow('Swap service down');
+    expect(store.rows.size).toBe(0);
+  });
+
+  it('should reject unknown and duplicate steps', async () => {
+    const { engine, store } = createEngine();
+
+    await expect(engine.start('user-1', 'custom_buy', 'amount', { tokenMint: 'mint' }))
+      .rejects.toThrow('Unknown conversation step: custom_buy:amount');
+    expect(() => engine.register('withdraw', 'amount', { handle: async () => {} }))
+      .toThrow('Conversation step already registered: withdraw:amount');
+
+    // State left behind by a removed step is dropped
+    await store.save('user-1', { flow: 'legacy', step: 'gone', payload: {}, expiresAt: new Date(60000) });
+    expect(await engine.dispatch({ replies: [] }, 'user-1', '1')).toBe('none');
+    expect(store.rows.size).toBe(0);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getLeaderTradeFraction,
+  planCopyTrade,
+  MIN_COPY_BUY_SOL,
+  type CopyFollowLimits
+} from '../../server/copy-trade-sizing';
+
+const MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+function createFollow(overrides: Partial<CopyFollowLimits> = {}): CopyFollowLimits {
+  return {
+    maxSolPerTrade: '10',
+    totalCapSol: null,
+    spentSol: '0',
+    blacklist: [],
+    ...overrides,
+  };
+}
+
+describe('Copy-Trade Sizing', () => {
+  it('should spend the same share of the follower balance as the leader', () => {
+    // Leader spent 2 of 10 SOL (8 left after the trade)
+    const trade = { type: 'buy' as const, tokenMint: MINT, solSpent: 2, leaderSolBalance: 8 };
+
+    expect(getLeaderTradeFraction(trade)).toBe(0.2);
+    expect(planCopyTrade(trade, createFollow(), { solBalance: 3, tokenBalance: '0' }))
+      .toEqual({ action: 'buy', solAmount: '0.6' });
+  });
+
+  it('should bound buys by max SOL per trade and the remaining cap', () => {
+    const trade = { type: 'buy' as const, tokenMint: MINT, solSpent: 5, leaderSolBalance: 5 };
+    const follower = { solBalance: 20, tokenBalance: '0' };
+
+    expect(planCopyTrade(trade, createFollow({ maxSolPerTrade: '1.5' }), follower))
+      .toEqual({ action: 'buy', solAmount: '1.5' });
+    expect(planCopyTrade(trade, createFollow({ totalCapSol: '4', spentSol: '3.25' }), follower))
+      .toEqual({ action: 'buy', solAmount: '0.75' });
+    expect(planCopyTrade(trade, createFollow({ totalCapSol: '4', spentSol: '4' }), follower))
+      .toEqual({ action: 'skip', reason: 'Follow cap reached' });
+  });
+
+  it('should skip buys too small to execute', () => {
+    const trade = { type: 'buy' as const, tokenMint: MINT, solSpent: 0.01, leaderSolBalance: 99.99 };
+
+    expect(planCopyTrade(trade, createFollow(), { solBalance: 1, tokenBalance: '0' }))
+      .toEqual({ action: 'skip', reason: `Mirrored buy below ${MIN_COPY_BUY_SOL} SOL` });
+  });
+
+  it('should sell the same share of the position and everything on a full exit', () => {
+    const partial = { type: 'sell' as const, tokenMint: MINT, tokensSold: 250, leaderTokenBalance: 750 };
+    const exit = { type: 'sell' as const, tokenMint: MINT, tokensSold: 1000, leaderTokenBalance: 0 };
+    const follower = { solBalance: 1, tokenBalance: '123.456789123' };
+
+    expect(planCopyTrade(partial, createFollow(), follower)).toEqual({ action: 'sell', tokenAmount: '30.86419728' });
+    expect(planCopyTrade(exit, createFollow(), follower)).toEqual({ action: 'sell', tokenAmount: '123.456789123' });
+    expect(planCopyTrade(partial, createFollow(), { solBalance: 1, tokenBalance: '0' }))
+      .toEqual({ action: 'skip', reason: 'No position to sell' });
+  });
+
+  it('should never mirror blacklisted tokens', () => {
+    const follow = createFollow({ blacklist: [MINT] });
+
+    expect(planCopyTrade({ type: 'buy', tokenMint: MINT, solSpent: 1, leaderSolBalance: 1 }, follow, { solBalance: 5, tokenBalance: '0' }))
+      .toEqual({ action: 'skip', reason: 'Token is blacklisted' });
+    expect(planCopyTrade({ type: 'sell', tokenMint: MINT, tokensSold: 1, leaderTokenBalance: 0 }, follow, { solBalance: 5, tokenBalance: '10' }))
+      .toEqual({ action: 'skip', reason: 'Token is blacklisted' });
+  });
+});
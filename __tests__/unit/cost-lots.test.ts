@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  replayLots,
+  getHoldingTerm,
+  summarizeDisposals,
+  buildDisposalsCsv,
+  type LotTrade
+} from '../../server/cost-lots';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function trade(id: string, type: 'buy' | 'sell', amount: number, priceUsd: number, day: number): LotTrade {
+  return { transactionId: id, type, mint: 'bonk', tokenSymbol: 'BONK', amount, priceUsd, timestamp: new Date(day * DAY) };
+}
+
+// Two buys at $1 and $3, then a sell of 150 tokens at $4
+const trades = [
+  trade('b1', 'buy', 100, 1, 0),
+  trade('b2', 'buy', 100, 3, 10),
+  trade('s1', 'sell', 150, 4, 20),
+];
+
+describe('Cost Lots', () => {
+  it('should match the oldest lots first under FIFO', () => {
+    const { lots, disposals } = replayLots(trades, 'fifo');
+
+    expect(disposals.map(d => [d.lotTransactionId, d.amount])).toEqual([['b1', 100], ['b2', 50]]);
+    expect(disposals[0].gainUsd).toBeCloseTo(300);
+    expect(disposals[1].gainUsd).toBeCloseTo(50);
+    expect(lots[1].remainingAmount).toBeCloseTo(50);
+    expect(lots[1].remainingCostUsd).toBeCloseTo(150);
+  });
+
+  it('should match the newest lots first under LIFO', () => {
+    const { lots, disposals } = replayLots(trades, 'lifo');
+
+    expect(disposals.map(d => [d.lotTransactionId, d.amount])).toEqual([['b2', 100], ['b1', 50]]);
+    expect(summarizeDisposals(disposals).shortTermGainUsd).toBeCloseTo(250);
+    expect(lots[0].remainingCostUsd).toBeCloseTo(50);
+  });
+
+  it('should pool lots at their average cost', () => {
+    const { lots, disposals } = replayLots(trades, 'average');
+
+    const costBasis = disposals.reduce((sum, d) => sum + d.costBasisUsd, 0);
+    expect(costBasis).toBeCloseTo(300); // 150 tokens x $2 average
+    expect(lots[1].remainingCostUsd).toBeCloseTo(100);
+  });
+
+  it('should split gains by holding term and flag sells without a recorded buy', () => {
+    const { disposals } = replayLots([
+      trade('b1', 'buy', 10, 1, 0),
+      trade('b2', 'buy', 10, 1, 400),
+      trade('s1', 'sell', 25, 2, 500),
+    ], 'fifo');
+
+    expect(disposals.map(d => d.term)).toEqual(['long', 'short', 'unknown']);
+
+    const summary = summarizeDisposals(disposals);
+    expect(summary.longTermGainUsd).toBeCloseTo(10);
+    expect(summary.shortTermGainUsd).toBeCloseTo(10);
+    expect(summary.unknownTermGainUsd).toBeCloseTo(10);
+  });
+
+  it('should treat exactly one year as short-term', () => {
+    const acquiredAt = new Date(Date.UTC(2024, 2, 1));
+    expect(getHoldingTerm(acquiredAt, new Date(Date.UTC(2025, 2, 1)))).toBe('short');
+    expect(getHoldingTerm(acquiredAt, new Date(Date.UTC(2025, 2, 2)))).toBe('long');
+  });
+
+  it('should escape CSV fields and neutralize formulas', () => {
+    const csv = buildDisposalsCsv([{
+      disposedAt: new Date(Date.UTC(2025, 0, 2)),
+      acquiredAt: null,
+      tokenSymbol: '=HYPERLINK("x")',
+      mint: 'bonk',
+      amount: '1.000000000',
+      proceedsUsd: '2.000000',
+      costBasisUsd: '0.000000',
+      gainUsd: '-2.000000',
+      term: 'unknown',
+      method: 'fifo',
+      txhash: 'ANVSEL1'
+    }]);
+
+    const [header, row] = csv.trim().split('\n');
+    expect(header.split(',')[0]).toBe('date_sold');
+    expect(row).toBe('2025-01-02T00:00:00.000Z,,"\'=HYPERLINK(""x"")",bonk,1.000000000,2.000000,0.000000,-2.000000,unknown,fifo,ANVSEL1');
+
+    // Leading tab and carriage return also start formulas in some spreadsheets
+    const symbolField = (tokenSymbol: string) => buildDisposalsCsv([{
+      disposedAt: new Date(Date.UTC(2025, 0, 2)), acquiredAt: null, tokenSymbol, mint: 'bonk', amount: '1.000000000',
+      proceedsUsd: '2.000000', costBasisUsd: '0.000000', gainUsd: '-2.000000', term: 'unknown', method: 'fifo', txhash: 'ANVSEL1'
+    }]).split('\n')[1].split(',')[2];
+    expect(symbolField('\t=1+1')).toBe("'\t=1+1");
+    expect(symbolField('\r=1+1')).toBe('"\'\r=1+1"');
+  });
+});
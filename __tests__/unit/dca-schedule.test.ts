@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDcaRunDecision,
+  getNextDcaRunAt,
+  isDcaScheduleFinished
+} from '../../server/dca-schedule';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('DCA Schedule', () => {
+  const now = new Date(100 * HOUR);
+  const due = { status: 'active' as const, solAmount: '0.1', nextRunAt: new Date(99 * HOUR) };
+
+  it('should buy when due and funded, skip when underfunded and defer behind a pending buy', () => {
+    expect(getDcaRunDecision(due, { solBalance: 0.1, hasPendingBuy: false }, now)).toBe('buy');
+    expect(getDcaRunDecision(due, { solBalance: 0.05, hasPendingBuy: false }, now)).toBe('skip');
+    expect(getDcaRunDecision(due, { solBalance: 1, hasPendingBuy: true }, now)).toBe('defer');
+  });
+
+  it('should wait when not due or not active', () => {
+    const funded = { solBalance: 1, hasPendingBuy: false };
+
+    expect(getDcaRunDecision({ ...due, nextRunAt: new Date(101 * HOUR) }, funded, now)).toBe('wait');
+    expect(getDcaRunDecision({ ...due, status: 'paused' }, funded, now)).toBe('wait');
+    expect(getDcaRunDecision({ ...due, status: 'completed' }, funded, now)).toBe('wait');
+  });
+
+  it('should keep the cadence on time and drop runs missed during downtime', () => {
+    // On-time run: next is one interval after the previous slot
+    expect(getNextDcaRunAt(new Date(99.99 * HOUR), 1, now).getTime()).toBe(100.99 * HOUR);
+    // Missed several runs: next is one interval from now, not a backlog of buys
+    expect(getNextDcaRunAt(new Date(50 * HOUR), 6, now).getTime()).toBe(106 * HOUR);
+  });
+
+  it('should finish after K executed buys or never when open-ended', () => {
+    expect(isDcaScheduleFinished(9, 10)).toBe(false);
+    expect(isDcaScheduleFinished(10, 10)).toBe(true);
+    expect(isDcaScheduleFinished(500, null)).toBe(false);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { getLimitOrderPrice, isLimitOrderTriggered } from '../../server/limit-order-trigger';
+
+describe('Limit Order Trigger', () => {
+  it('should fire buys at or below the target and sells at or above it', () => {
+    expect(isLimitOrderTriggered('buy', 1.5, 1.5)).toBe(true);
+    expect(isLimitOrderTriggered('buy', 1.5, 1.2)).toBe(true);
+    expect(isLimitOrderTriggered('buy', 1.5, 1.6)).toBe(false);
+
+    expect(isLimitOrderTriggered('sell', 2, 2)).toBe(true);
+    expect(isLimitOrderTriggered('sell', 2, 2.5)).toBe(true);
+    expect(isLimitOrderTriggered('sell', 2, 1.9)).toBe(false);
+  });
+
+  it('should never fire on a missing or invalid price', () => {
+    expect(isLimitOrderTriggered('buy', 1, 0)).toBe(false);
+    expect(isLimitOrderTriggered('buy', 1, -1)).toBe(false);
+    expect(isLimitOrderTriggered('buy', 1, NaN)).toBe(false);
+    expect(isLimitOrderTriggered('sell', 1, Infinity)).toBe(false);
+  });
+
+  it('should convert SOL-denominated orders with the SOL price', () => {
+    expect(getLimitOrderPrice('usd', 3, 150)).toBe(3);
+    expect(getLimitOrderPrice('sol', 3, 150)).toBe(0.02);
+    expect(isLimitOrderTriggered('buy', 0.025, getLimitOrderPrice('sol', 3, 150))).toBe(true);
+
+    // No SOL price: the converted price is Infinity and a sell order must not fire
+    const withoutSolPrice = getLimitOrderPrice('sol', 3, 0);
+    expect(withoutSolPrice).toBe(Infinity);
+    expect(isLimitOrderTriggered('sell', 0.01, withoutSolPrice)).toBe(false);
+    expect(isLimitOrderTriggered('buy', 0.01, withoutSolPrice)).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCandleOpenTime,
+  mergeCandleSample,
+  getFinestIntervalCovering,
+  fillCandleGaps,
+  isCandleInterval
+} from '../../server/ohlc';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+describe('OHLC Candles', () => {
+  it('should align candles to their interval in UTC', () => {
+    const at = new Date(Date.UTC(2025, 4, 10, 13, 47, 31));
+
+    expect(getCandleOpenTime(at, '1m').toISOString()).toBe('2025-05-10T13:47:00.000Z');
+    expect(getCandleOpenTime(at, '5m').toISOString()).toBe('2025-05-10T13:45:00.000Z');
+    expect(getCandleOpenTime(at, '1h').toISOString()).toBe('2025-05-10T13:00:00.000Z');
+    expect(getCandleOpenTime(at, '1d').toISOString()).toBe('2025-05-10T00:00:00.000Z');
+  });
+
+  it('should merge samples into open/high/low/close', () => {
+    const openTime = new Date(0);
+    let candle = mergeCandleSample(null, openTime, 2);
+    candle = mergeCandleSample(candle, openTime, 5);
+    candle = mergeCandleSample(candle, openTime, 1);
+    candle = mergeCandleSample(candle, openTime, 3);
+
+    expect(candle).toEqual({ openTime, open: 2, high: 5, low: 1, close: 3, samples: 4 });
+  });
+
+  it('should pick the finest interval still retained for a point in time', () => {
+    const now = new Date(1000 * DAY);
+
+    expect(getFinestIntervalCovering(new Date(now.getTime() - 10 * MINUTE), now)).toBe('1m');
+    expect(getFinestIntervalCovering(new Date(now.getTime() - 5 * DAY), now)).toBe('5m');
+    expect(getFinestIntervalCovering(new Date(now.getTime() - 60 * DAY), now)).toBe('1h');
+    expect(getFinestIntervalCovering(new Date(now.getTime() - 400 * DAY), now)).toBe('1d');
+    expect(getFinestIntervalCovering(new Date(now.getTime() - 6 * 365 * DAY), now)).toBeNull();
+  });
+
+  it('should fill missing periods with flat candles at the previous close', () => {
+    const candle = (minute: number, close: number) => ({
+      openTime: new Date(minute * MINUTE), open: close, high: close, low: close, close, samples: 1
+    });
+
+    const filled = fillCandleGaps([candle(0, 1), candle(3, 4)], '1m');
+
+    expect(filled.map(c => c.openTime.getTime() / MINUTE)).toEqual([0, 1, 2, 3]);
+    expect(filled.map(c => c.close)).toEqual([1, 1, 1, 4]);
+    expect(filled[1].samples).toBe(0);
+  });
+
+  it('should accept only known intervals', () => {
+    expect(isCandleInterval('5m')).toBe(true);
+    expect(isCandleInterval('15m')).toBe(false);
+    expect(isCandleInterval('constructor')).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { z } from 'zod';
+import { apiRoutes, apiV1Routes } from '../../server/api-contract';
+import { buildOpenApiDocument, toOpenApiPath, zodToJsonSchema } from '../../server/openapi';
+import { API_CLIENT_PATH, generateApiClient } from '../../server/api-client-generator';
+
+const ROOT = resolve(__dirname, '../..');
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+describe('OpenAPI', () => {
+  it('should convert zod schemas to OpenAPI 3.0 schema objects', () => {
+    const schema = z.object({
+      id: z.string().min(1),
+      count: z.number().int().min(0),
+      kind: z.enum(['buy', 'sell']),
+      note: z.string().nullable(),
+      amount: z.union([z.number(), z.string()]).optional(),
+    });
+
+    expect(zodToJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'string', minLength: 1 },
+        count: { type: 'integer', minimum: 0 },
+        kind: { type: 'string', enum: ['buy', 'sell'] },
+        note: { type: 'string', nullable: true },
+        amount: { anyOf: [{ type: 'number' }, { type: 'string' }] },
+      },
+      required: ['id', 'count', 'kind', 'note'],
+    });
+    expect(() => zodToJsonSchema(z.bigint())).toThrow(/Unsupported zod type/);
+  });
+
+  it('should register and validate every contract route in server/routes.ts', () => {
+    const source = readFileSync(resolve(ROOT, 'server/routes.ts'), 'utf8');
+
+    for (const [operationId, route] of Object.entries(apiRoutes)) {
+      const registration = new RegExp(
+        `app\\.${route.method}\\("${escapeRegExp(route.path)}",[^\\n]*validateRequest\\(apiRoutes\\.${operationId}\\)`
+      );
+      expect(source, `${route.method.toUpperCase()} ${route.path}`).toMatch(registration);
+    }
+  });
+
+  it('should document web and v1 operations with their auth and errors', () => {
+    const document = buildOpenApiDocument();
+
+    const portfolio = document.paths['/api/portfolio'].get;
+    expect(portfolio.security).toEqual([{ session: [] }]);
+    expect(Object.keys(portfolio.responses)).toEqual(['200', '400', '401', 'default']);
+
+    const depositStatus = document.paths['/api/deposit/status/{depositId}'].get;
+    expect(depositStatus.parameters?.[0]).toMatchObject({ name: 'depositId', in: 'path', required: true });
+
+    for (const v1Route of apiV1Routes) {
+      const operation = document.paths[toOpenApiPath(v1Route.path)][v1Route.method];
+      const envelope = operation.responses['200'].content?.['application/json'].schema as { properties: Record<string, unknown> };
+
+      expect(operation.security).toEqual([{ apiKey: [] }]);
+      expect(Object.keys(envelope.properties)).toEqual(['apiVersion', 'success', 'data', 'error']);
+    }
+  });
+
+  it('should keep the generated API client in sync with the contract', () => {
+    const committed = readFileSync(resolve(ROOT, API_CLIENT_PATH), 'utf8');
+
+    // Regenerate with `npx tsx server/generate-api-client.ts`
+    expect(committed).toBe(generateApiClient(buildOpenApiDocument()));
+  });
+});
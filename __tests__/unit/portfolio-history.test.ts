@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import {
+  downsampleSeries,
+  scaleSparkline,
+  isPortfolioHistoryRange
+} from '../../server/portfolio-history';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+function point(minutes: number, value: number) {
+  return { timestamp: new Date(minutes * MINUTE), value };
+}
+
+describe('Portfolio History', () => {
+  it('should keep the last point of each bucket', () => {
+    const points = [point(0, 1), point(15, 2), point(45, 3), point(60, 4), point(75, 5), point(180, 6)];
+
+    expect(downsampleSeries(points, HOUR).map(p => p.value)).toEqual([3, 5, 6]);
+    expect(downsampleSeries([], HOUR)).toEqual([]);
+  });
+
+  it('should accept only known ranges', () => {
+    expect(isPortfolioHistoryRange('7d')).toBe(true);
+    expect(isPortfolioHistoryRange('1y')).toBe(true);
+    expect(isPortfolioHistoryRange('5y')).toBe(false);
+    expect(isPortfolioHistoryRange('toString')).toBe(false);
+    expect(isPortfolioHistoryRange(undefined)).toBe(false);
+  });
+
+  it('should fit a sparkline into its box with the maximum at the top', () => {
+    const box = { x: 10, y: 20, width: 100, height: 50 };
+
+    expect(scaleSparkline([100, 150, 200], box)).toEqual([
+      { x: 10, y: 70 },
+      { x: 60, y: 45 },
+      { x: 110, y: 20 },
+    ]);
+    // Flat series is drawn through the middle
+    expect(scaleSparkline([5, 5], box).map(p => p.y)).toEqual([45, 45]);
+  });
+});
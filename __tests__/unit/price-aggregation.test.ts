@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  median,
+  aggregatePriceQuotes,
+  assessAggregatedPrice,
+  selectUsablePrice,
+  PriceUnavailableError,
+  MAX_FALLBACK_PRICE_AGE_MS,
+  MAX_PRICE_STALENESS_MS
+} from '../../server/price-aggregation';
+
+const NOW = 1_700_000_000_000;
+
+function quote(source: string, price: number | null, ageMs = 0) {
+  return { source, price, observedAt: NOW - ageMs };
+}
+
+describe('Price Aggregation', () => {
+  it('should take the median of odd and even sized sets', () => {
+    expect(median([3, 1, 2])).toBe(2);
+    expect(median([4, 1, 2, 3])).toBe(2.5);
+    expect(median([])).toBeNull();
+  });
+
+  it('should reject a quote outside the deviation band', () => {
+    const aggregated = aggregatePriceQuotes([
+      quote('coingecko', 150),
+      quote('jupiter', 151),
+      quote('dexscreener', 0.15) // Decimals mix-up
+    ]);
+
+    expect(aggregated.price).toBe(150.5);
+    expect(aggregated.confidence).toBeCloseTo(2 / 3);
+    expect(aggregated.sources.map(s => s.accepted)).toEqual([true, true, false]);
+  });
+
+  it('should count failed sources against confidence', () => {
+    const aggregated = assessAggregatedPrice(aggregatePriceQuotes([
+      quote('jupiter', 0.002),
+      quote('dexscreener', null)
+    ]), NOW);
+
+    expect(aggregated.price).toBe(0.002);
+    expect(aggregated.confidence).toBe(0.5);
+    expect(aggregated.uncertain).toBe(false);
+  });
+
+  it('should be uncertain when two sources disagree', () => {
+    const aggregated = assessAggregatedPrice(aggregatePriceQuotes([
+      quote('jupiter', 1),
+      quote('dexscreener', 2)
+    ]), NOW);
+
+    expect(aggregated.price).toBeNull();
+    expect(aggregated.confidence).toBe(0);
+    expect(aggregated.uncertain).toBe(true);
+  });
+
+  it('should be uncertain when the accepted quotes are stale', () => {
+    const aggregated = aggregatePriceQuotes([
+      quote('coingecko', 150, MAX_PRICE_STALENESS_MS + 1000),
+      quote('jupiter', 150, 1000)
+    ]);
+
+    expect(assessAggregatedPrice(aggregated, NOW).stalenessMs).toBe(MAX_PRICE_STALENESS_MS + 1000);
+    expect(assessAggregatedPrice(aggregated, NOW).uncertain).toBe(true);
+    expect(assessAggregatedPrice(aggregated, NOW - 2000).uncertain).toBe(false);
+  });
+
+  it('should flag a low-confidence SOL price instead of inventing one', () => {
+    // Jupiter and CoinGecko down - Dexscreener alone is a third of the sources
+    const lowConfidence = assessAggregatedPrice(aggregatePriceQuotes([
+      quote('jupiter', null),
+      quote('dexscreener', 142),
+      quote('coingecko', null)
+    ]), NOW);
+
+    expect(lowConfidence.price).toBe(142);
+    expect(lowConfidence.uncertain).toBe(true);
+    expect(() => selectUsablePrice(lowConfidence, null, 'SOL', NOW)).toThrow(PriceUnavailableError);
+
+    const missing = assessAggregatedPrice(aggregatePriceQuotes([quote('jupiter', null), quote('dexscreener', null)]), NOW);
+    expect(missing.uncertain).toBe(true);
+    expect(() => selectUsablePrice(missing, null, 'SOL', NOW)).toThrow('SOL price unavailable');
+  });
+
+  it('should serve the last confident price only through short outages', () => {
+    const missing = assessAggregatedPrice(aggregatePriceQuotes([quote('jupiter', null)]), NOW);
+    const certain = assessAggregatedPrice(aggregatePriceQuotes([quote('jupiter', 151), quote('dexscreener', 149)]), NOW);
+
+    expect(selectUsablePrice(certain, { price: 120, observedAt: NOW - 1000 }, 'SOL', NOW)).toBe(150);
+    expect(selectUsablePrice(missing, { price: 148, observedAt: NOW - MAX_FALLBACK_PRICE_AGE_MS }, 'SOL', NOW)).toBe(148);
+    expect(() => selectUsablePrice(missing, { price: 148, observedAt: NOW - MAX_FALLBACK_PRICE_AGE_MS - 1 }, 'SOL', NOW))
+      .toThrow(PriceUnavailableError);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { checkPriceImpact, getQuoteOptions, WEB_QUOTE_DEFAULT_SETTINGS } from '../../server/quote-options';
+import type { TradingPreferences } from '../../server/trading-settings';
+
+const settings: TradingPreferences = {
+  slippageBps: 200,
+  maxPriceImpactPct: "15",
+  priorityFeeTier: 'auto',
+  antiMev: true,
+  costBasisMethod: 'fifo',
+  blockHighRiskBuys: false,
+};
+
+describe('Quote Options', () => {
+  it('should translate preferences into Jupiter quote options', () => {
+    expect(getQuoteOptions(settings)).toEqual({ slippageBps: 200, onlyDirectRoutes: true });
+    expect(getQuoteOptions({ ...settings, slippageBps: 50, antiMev: false, priorityFeeTier: 'fast' }))
+      .toEqual({ slippageBps: 50, onlyDirectRoutes: false, priorityFeeLamports: 100000 });
+    expect(getQuoteOptions({ ...settings, priorityFeeTier: 'turbo' }).priorityFeeLamports).toBe(1000000);
+  });
+
+  it('should reject quotes above the price impact limit in either direction', () => {
+    expect(checkPriceImpact("15", settings)).toBeNull();
+    expect(checkPriceImpact("0.3", settings)).toBeNull();
+    expect(checkPriceImpact("15.5", settings)).toMatch(/Price impact 15.50% exceeds your maximum of 15%/);
+    expect(checkPriceImpact("-20", settings)).toMatch(/Price impact 20.00%/);
+  });
+
+  it('should keep web quotes without saved settings on 0.5% slippage, multi-hop routes and no impact limit', () => {
+    expect(getQuoteOptions(WEB_QUOTE_DEFAULT_SETTINGS)).toEqual({ slippageBps: 50, onlyDirectRoutes: false });
+    expect(checkPriceImpact("45", WEB_QUOTE_DEFAULT_SETTINGS)).toBeNull();
+    expect(checkPriceImpact("99.9", WEB_QUOTE_DEFAULT_SETTINGS)).toBeNull();
+  });
+
+  it('should let unparseable price impact through', () => {
+    expect(checkPriceImpact("", settings)).toBeNull();
+    expect(checkPriceImpact("n/a", settings)).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { ApiError } from '../../shared/api-client';
+import {
+  createAnovexSdk,
+  toV1Path,
+  AnovexAuthError,
+  AnovexServerError,
+  AnovexTimeoutError,
+  AnovexValidationError
+} from '../../shared/sdk';
+import { verifyRequestSignature } from '../../server/api-signing';
+
+const BASE_URL = 'http://anovex.test';
+const NO_DELAY = { retries: 2, baseDelayMs: 1, maxDelayMs: 10 };
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * fetch that answers from a list of [status, body] responses and records each request
+ */
+function fakeFetch(responses: Array<[number, unknown]>) {
+  const requests: RecordedRequest[] = [];
+  const fetchFn = (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    requests.push({
+      url: String(input),
+      method: init.method ?? 'GET',
+      headers: (init.headers ?? {}) as Record<string, string>,
+      body: typeof init.body === 'string' ? init.body : ''
+    });
+    const [status, body] = responses[Math.min(requests.length, responses.length) - 1];
+    return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+  }) as typeof fetch;
+  return { fetchFn, requests };
+}
+
+const depositStatus = (status: string) => ({
+  success: true,
+  depositId: 'dep-1',
+  status,
+  solAmount: '1',
+  solReceived: null,
+  technicalSteps: []
+});
+
+describe('Anovex SDK', () => {
+  it('should map error responses to SDK error classes', async () => {
+    const issues = [{ path: 'body.solAmount', message: 'Required' }];
+    const { fetchFn } = fakeFetch([
+      [400, { success: false, error: 'Validation error: Required at "body.solAmount"', issues }],
+      [401, { success: false, error: 'Not authenticated' }]
+    ]);
+    const sdk = createAnovexSdk({ baseUrl: BASE_URL, fetch: fetchFn, retry: NO_DELAY });
+
+    const validation = await sdk.deposit.initiate('').catch(error => error);
+    expect(validation).toBeInstanceOf(AnovexValidationError);
+    expect(validation).toBeInstanceOf(ApiError);
+    expect(validation.issues).toEqual(issues);
+    expect(validation.message).toBe('Validation error: Required at "body.solAmount"');
+
+    const auth = await sdk.wallet.balance().catch(error => error);
+    expect(auth).toBeInstanceOf(AnovexAuthError);
+    expect(auth.code).toBe('unauthorized');
+  });
+
+  it('should retry reads on 503 but not repeat writes', async () => {
+    const reads = fakeFetch([[503, { success: false, error: 'Unavailable' }], [200, { success: true, transactions: [] }]]);
+    const readSdk = createAnovexSdk({ baseUrl: BASE_URL, fetch: reads.fetchFn, retry: NO_DELAY });
+
+    await expect(readSdk.explorer.transactions()).resolves.toEqual({ success: true, transactions: [] });
+    expect(reads.requests).toHaveLength(2);
+
+    const writes = fakeFetch([[503, { success: false, error: 'Unavailable' }]]);
+    const writeSdk = createAnovexSdk({ baseUrl: BASE_URL, fetch: writes.fetchFn, retry: NO_DELAY });
+
+    await expect(writeSdk.swap.execute({ tokenAddress: 'mint', amount: '1', type: 'buy', quote: { inputAmount: 1, outputAmount: '2', priceImpactPct: '0' } }))
+      .rejects.toBeInstanceOf(AnovexServerError);
+    expect(writes.requests).toHaveLength(1);
+  });
+
+  it('should sign developer API requests and unwrap the v1 envelope', async () => {
+    const credentials = { key: 'anv_12345678_key', secret: 'test-secret' };
+    const { fetchFn, requests } = fakeFetch([
+      [200, { apiVersion: 'v1', success: true, data: { quote: { outputAmount: '42' } }, error: null }],
+      [403, { apiVersion: 'v1', success: false, data: null, error: { code: 'forbidden', message: "API key is missing the 'trade' scope" } }]
+    ]);
+    const sdk = createAnovexSdk({ baseUrl: BASE_URL, fetch: fetchFn, apiKey: credentials, retry: NO_DELAY });
+
+    await expect(sdk.swap.quote({ tokenAddress: 'mint', amount: '0.1', type: 'buy' }))
+      .resolves.toEqual({ success: true, quote: { outputAmount: '42' } });
+
+    const [request] = requests;
+    expect(request.url).toBe(`${BASE_URL}/api/v1/swap/quote`);
+    expect(request.headers['X-Api-Key']).toBe(credentials.key);
+    expect(verifyRequestSignature(credentials.secret, {
+      timestamp: request.headers['X-Api-Timestamp'],
+      nonce: request.headers['X-Api-Nonce'],
+      method: 'POST',
+      path: '/api/v1/swap/quote',
+      body: request.body
+    }, request.headers['X-Api-Signature'])).toBeNull();
+
+    await expect(sdk.swap.execute({ tokenAddress: 'mint', amount: '1', type: 'buy', quote: { inputAmount: 1, outputAmount: '2', priceImpactPct: '0' } }))
+      .rejects.toMatchObject({ status: 403, code: 'forbidden', message: "API key is missing the 'trade' scope" });
+
+    expect(toV1Path('GET', '/api/deposit/status/dep-1')).toBe('/api/v1/deposits/dep-1');
+    await expect(sdk.wallet.balance()).rejects.toThrow(/not available with an API key/);
+  });
+
+  it('should poll a deposit until it settles', async () => {
+    const { fetchFn, requests } = fakeFetch([
+      [200, depositStatus('waiting_step1')],
+      [502, { success: false, error: 'Bad gateway' }],
+      [200, depositStatus('waiting_step2')],
+      [200, depositStatus('finished')]
+    ]);
+    const sdk = createAnovexSdk({ baseUrl: BASE_URL, fetch: fetchFn, retry: { ...NO_DELAY, retries: 0 } });
+    const updates: string[] = [];
+
+    const settled = await sdk.deposit.waitForCompletion('dep-1', { intervalMs: 1, onUpdate: response => updates.push(response.status) });
+
+    expect(settled.status).toBe('finished');
+    expect(updates).toEqual(['waiting_step1', 'waiting_step2', 'finished']);
+    expect(requests.every(request => request.url === `${BASE_URL}/api/deposit/status/dep-1`)).toBe(true);
+
+    const pending = fakeFetch([[200, depositStatus('waiting_step1')]]);
+    const pendingSdk = createAnovexSdk({ baseUrl: BASE_URL, fetch: pending.fetchFn });
+    await expect(pendingSdk.deposit.waitForCompletion('dep-1', { intervalMs: 5, timeoutMs: 20 }))
+      .rejects.toBeInstanceOf(AnovexTimeoutError);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { getOpeningBalance, negateAmount } from '../../server/sol-ledger-opening';
+
+const LEDGER_STARTED_AT = new Date('2026-03-01T00:00:00Z');
+const PRE_LEDGER = new Date('2026-01-15T00:00:00Z');
+const POST_LEDGER = new Date('2026-03-02T00:00:00Z');
+
+describe('SOL Ledger Opening Balances', () => {
+  it('should open a pre-ledger wallet at its full balance', () => {
+    expect(getOpeningBalance({ createdAt: PRE_LEDGER, storedBalance: '5.000000000', walletLegsTotal: '0' }, LEDGER_STARTED_AT))
+      .toBe('5.000000000');
+    // Nothing posted yet - every wallet predates the ledger
+    expect(getOpeningBalance({ createdAt: POST_LEDGER, storedBalance: '5.000000000', walletLegsTotal: '0' }, null))
+      .toBe('5.000000000');
+  });
+
+  it('should open a pre-ledger wallet whose first movement posted before the opening pass', () => {
+    // 5 SOL before the ledger, then a 1.25 SOL deposit posted through the ledger
+    expect(getOpeningBalance({ createdAt: PRE_LEDGER, storedBalance: '6.250000000', walletLegsTotal: '1.250000000' }, LEDGER_STARTED_AT))
+      .toBe('5.000000000');
+    // ...or a 4.5 SOL swap buy paid from the pre-ledger balance
+    expect(getOpeningBalance({ createdAt: PRE_LEDGER, storedBalance: '0.500000000', walletLegsTotal: '-4.500000000' }, LEDGER_STARTED_AT))
+      .toBe('5.000000000');
+  });
+
+  it('should open explained pre-ledger wallets at zero so they are only opened once', () => {
+    expect(getOpeningBalance({ createdAt: PRE_LEDGER, storedBalance: '1.000000001', walletLegsTotal: '1.000000001' }, LEDGER_STARTED_AT))
+      .toBe('0.000000000');
+  });
+
+  it('should never open wallets created after the ledger started', () => {
+    // A mismatch here is drift for the reconciliation report, not an opening balance
+    expect(getOpeningBalance({ createdAt: POST_LEDGER, storedBalance: '3.000000000', walletLegsTotal: '2.000000000' }, LEDGER_STARTED_AT))
+      .toBeNull();
+    expect(getOpeningBalance({ createdAt: LEDGER_STARTED_AT, storedBalance: '0', walletLegsTotal: '0' }, LEDGER_STARTED_AT))
+      .toBeNull();
+  });
+
+  it('should balance the journal legs exactly', () => {
+    expect(getOpeningBalance({ createdAt: PRE_LEDGER, storedBalance: '0.000000001', walletLegsTotal: '0.1' }, LEDGER_STARTED_AT))
+      .toBe('-0.099999999');
+    expect(negateAmount('5.000000000')).toBe('-5.000000000');
+    expect(negateAmount('-0.099999999')).toBe('0.099999999');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildSolvencyReport,
+  fetchOnChainHoldings,
+  type ChainBalanceReader
+} from '../../server/solvency';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const BONK_MINT = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const WIF_MINT = 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm';
+
+// Fake reader backed by fixed per-address balances
+class FakeBalanceReader implements ChainBalanceReader {
+  sol = new Map<string, number>();
+  tokens = new Map<string, Array<{ mint: string; amount: number }>>();
+
+  async getSolBalance(address: string) {
+    return this.sol.get(address) ?? 0;
+  }
+
+  async getTokenBalances(address: string) {
+    return this.tokens.get(address) ?? [];
+  }
+}
+
+describe('Solvency Reconciliation', () => {
+  it('should sum holdings across system wallets and merge wrapped SOL', async () => {
+    const reader = new FakeBalanceReader();
+    reader.sol.set('walletA', 10);
+    reader.sol.set('walletB', 2.5);
+    reader.tokens.set('walletA', [{ mint: BONK_MINT, amount: 1000 }, { mint: SOL_MINT, amount: 1.5 }]);
+    reader.tokens.set('walletB', [{ mint: BONK_MINT, amount: 500 }]);
+
+    const holdings = await fetchOnChainHoldings(reader, ['walletA', 'walletB']);
+
+    expect(holdings.get(SOL_MINT)).toBe(14);
+    expect(holdings.get(BONK_MINT)).toBe(1500);
+  });
+
+  it('should flag deficits and mark the pool under-collateralized', () => {
+    const report = buildSolvencyReport({
+      liabilities: [
+        { mint: SOL_MINT, symbol: 'SOL', amount: 12 },
+        { mint: BONK_MINT, symbol: 'BONK', amount: 2000 },
+      ],
+      onChain: new Map([[SOL_MINT, 14], [BONK_MINT, 1500]]),
+      systemWallets: ['walletA'],
+      now: new Date('2026-01-01T00:00:00Z'),
+    });
+
+    expect(report.generatedAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(report.underCollateralized).toBe(true);
+    expect(report.deficitCount).toBe(1);
+    expect(report.entries.map(entry => [entry.symbol, entry.status, entry.difference])).toEqual([
+      ['BONK', 'deficit', -500],
+      ['SOL', 'surplus', 2],
+    ]);
+  });
+
+  it('should treat differences within tolerance as balanced', () => {
+    const report = buildSolvencyReport({
+      liabilities: [{ mint: SOL_MINT, symbol: 'SOL', amount: 100 }],
+      onChain: new Map([[SOL_MINT, 99.95]]), // 0.05% short, under the 0.1% default
+      systemWallets: ['walletA'],
+    });
+
+    expect(report.entries[0].status).toBe('balanced');
+    expect(report.underCollateralized).toBe(false);
+  });
+
+  it('should report liabilities with nothing on-chain as a deficit', () => {
+    const report = buildSolvencyReport({
+      liabilities: [{ mint: WIF_MINT, symbol: 'WIF', amount: 3 }],
+      onChain: new Map(),
+      systemWallets: ['walletA'],
+    });
+
+    expect(report.entries).toEqual([
+      { mint: WIF_MINT, symbol: 'WIF', liabilities: 3, onChain: 0, difference: -3, status: 'deficit' },
+    ]);
+  });
+
+  it('should report untracked on-chain mints as surplus', () => {
+    const report = buildSolvencyReport({
+      liabilities: [{ mint: SOL_MINT, symbol: 'SOL', amount: 1 }],
+      onChain: new Map([[SOL_MINT, 1], [WIF_MINT, 42], [BONK_MINT, 0]]),
+      systemWallets: ['walletA'],
+    });
+
+    expect(report.underCollateralized).toBe(false);
+    expect(report.entries).toHaveLength(2);
+    expect(report.entries[0]).toMatchObject({ mint: WIF_MINT, symbol: 'UNKNOWN', status: 'surplus', difference: 42 });
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { applyPriceTicks, formatStreamEvent, getChangedPrices } from '../../shared/stream-events';
+import type { GetWalletBalanceResponse } from '../../shared/api-client';
+
+const balance: GetWalletBalanceResponse = {
+  success: true,
+  sol: { amount: '2.000000000', priceUsd: '150.00', totalUsd: '300.00' },
+  tokens: [
+    { mint: 'mint-a', symbol: 'AAA', amount: '100.000000000', priceUsd: '0.500000', totalUsd: '50.00' },
+    { mint: 'mint-b', symbol: 'BBB', amount: '10.000000000', priceUsd: '2.000000', totalUsd: '20.00' }
+  ],
+  totalUsd: '370.00'
+};
+
+describe('Wallet stream events', () => {
+  it('should frame events for Server-Sent Events', () => {
+    const frame = formatStreamEvent({ type: 'deposit', data: { depositId: 'dep-1', previousStatus: 'waiting_step1', status: 'waiting_step2' } });
+
+    expect(frame).toBe('event: deposit\ndata: {"depositId":"dep-1","previousStatus":"waiting_step1","status":"waiting_step2"}\n\n');
+    expect(formatStreamEvent({ type: 'ready', data: { connectedAt: 'multi\nline' } }).split('\n')).toHaveLength(4);
+  });
+
+  it('should only report prices that moved', () => {
+    const previous = new Map([['mint-a', 1], ['mint-b', 2]]);
+    const next = new Map([['mint-a', 1.0001], ['mint-b', 2.1], ['mint-c', 3]]);
+
+    expect(getChangedPrices(previous, next)).toEqual({ 'mint-b': 2.1, 'mint-c': 3 });
+    expect(getChangedPrices(previous, previous)).toEqual({});
+  });
+
+  it('should reprice the cached balance from a price tick', () => {
+    const repriced = applyPriceTicks(balance, { solPriceUsd: 160, prices: { 'mint-a': 0.6 } });
+
+    expect(repriced.sol).toEqual({ amount: '2.000000000', priceUsd: '160.00', totalUsd: '320.00' });
+    expect(repriced.tokens[0]).toMatchObject({ priceUsd: '0.600000', totalUsd: '60.00' });
+    expect(repriced.tokens[1]).toBe(balance.tokens[1]);
+    expect(repriced.totalUsd).toBe('400.00');
+
+    expect(applyPriceTicks(balance, { solPriceUsd: null, prices: {} }).totalUsd).toBe('370.00');
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  acquireLease,
+  createWorkerId,
+  decideRecoveryAction,
+  LeaseLostError,
+  LEASE_DURATION_MS,
+  HEARTBEAT_INTERVAL_MS,
+  DROPPED_TX_THRESHOLD_MS,
+  type SwapJobLeaseStore
+} from '../../server/swap-job-lease';
+
+// In-memory stand-in for the swap_jobs lease columns, mirroring the SQL compare-and-set semantics
+class InMemoryLeaseStore implements SwapJobLeaseStore {
+  jobs = new Map<string, { status: 'pending' | 'processing'; workerId: string | null; leaseExpiresAt: number | null }>();
+  partitioned = new Set<string>(); // Workers whose DB calls fail (network partition / paused process)
+
+  addJob(id: string) {
+    this.jobs.set(id, { status: 'pending', workerId: null, leaseExpiresAt: null });
+  }
+
+  async claim(jobId: string, workerId: string, leaseMs: number) {
+    this.assertReachable(workerId);
+    const job = this.jobs.get(jobId)!;
+    const claimable = job.status === 'pending' ||
+      (job.status === 'processing' && job.leaseExpiresAt !== null && job.leaseExpiresAt < Date.now());
+    if (!claimable) return false;
+    job.status = 'processing';
+    job.workerId = workerId;
+    job.leaseExpiresAt = Date.now() + leaseMs;
+    return true;
+  }
+
+  async renew(jobId: string, workerId: string, leaseMs: number) {
+    this.assertReachable(workerId);
+    const job = this.jobs.get(jobId)!;
+    if (job.status !== 'processing' || job.workerId !== workerId) return false;
+    job.leaseExpiresAt = Date.now() + leaseMs;
+    return true;
+  }
+
+  async release(jobId: string, workerId: string) {
+    this.assertReachable(workerId);
+    const job = this.jobs.get(jobId)!;
+    if (job.status === 'processing' && job.workerId === workerId) {
+      job.leaseExpiresAt = Date.now();
+    }
+  }
+
+  private assertReachable(workerId: string) {
+    if (this.partitioned.has(workerId)) {
+      throw new Error('connection terminated');
+    }
+  }
+}
+
+describe('Swap Job Leases', () => {
+  let store: InMemoryLeaseStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    store = new InMemoryLeaseStore();
+    store.addJob('job-1');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('Claiming', () => {
+    it('should let only one of two concurrent workers claim a job', async () => {
+      const [a, b] = await Promise.all([
+        acquireLease(store, 'job-1', 'worker-a'),
+        acquireLease(store, 'job-1', 'worker-b'),
+      ]);
+
+      expect([a, b].filter(Boolean)).toHaveLength(1);
+      a?.stop();
+      b?.stop();
+    });
+
+    it('should generate distinct worker ids', () => {
+      expect(createWorkerId()).not.toBe(createWorkerId());
+    });
+  });
+
+  describe('Crashed workers', () => {
+    it('should not reclaim a crashed worker\'s job before the lease expires', async () => {
+      const a = await acquireLease(store, 'job-1', 'worker-a');
+      a!.stop(); // Worker A crashes: no more heartbeats
+
+      await vi.advanceTimersByTimeAsync(LEASE_DURATION_MS - 1000);
+      expect(await acquireLease(store, 'job-1', 'worker-b')).toBeNull();
+    });
+
+    it('should let another worker reclaim the job once the lease expires', async () => {
+      const a = await acquireLease(store, 'job-1', 'worker-a');
+      a!.stop();
+
+      await vi.advanceTimersByTimeAsync(LEASE_DURATION_MS + 1000);
+      const b = await acquireLease(store, 'job-1', 'worker-b');
+
+      expect(b).not.toBeNull();
+      expect(store.jobs.get('job-1')!.workerId).toBe('worker-b');
+      b!.stop();
+    });
+
+    it('should mark a zombie worker\'s lease as lost after takeover', async () => {
+      const a = await acquireLease(store, 'job-1', 'worker-a');
+
+      // Worker A is partitioned from the DB long enough for its lease to expire
+      store.partitioned.add('worker-a');
+      await vi.advanceTimersByTimeAsync(LEASE_DURATION_MS + 1000);
+      expect(() => a!.assertHeld()).toThrow(LeaseLostError);
+
+      const b = await acquireLease(store, 'job-1', 'worker-b');
+      expect(b).not.toBeNull();
+
+      // Worker A comes back: its next heartbeat must discover the takeover
+      store.partitioned.delete('worker-a');
+      await vi.advanceTimersByTimeAsync(HEARTBEAT_INTERVAL_MS);
+      expect(a!.lost).toBe(true);
+      expect(b!.lost).toBe(false);
+
+      a!.stop();
+      b!.stop();
+    });
+  });
+
+  describe('Heartbeats', () => {
+    it('should keep a slow but healthy worker\'s lease alive', async () => {
+      const a = await acquireLease(store, 'job-1', 'worker-a');
+
+      // Simulate a 3x lease-duration swap with heartbeats running
+      await vi.advanceTimersByTimeAsync(LEASE_DURATION_MS * 3);
+
+      expect(a!.lost).toBe(false);
+      expect(() => a!.assertHeld()).not.toThrow();
+      expect(await acquireLease(store, 'job-1', 'worker-b')).toBeNull();
+      a!.stop();
+    });
+
+    it('should tolerate transient heartbeat failures within the lease window', async () => {
+      const a = await acquireLease(store, 'job-1', 'worker-a');
+
+      store.partitioned.add('worker-a');
+      await vi.advanceTimersByTimeAsync(HEARTBEAT_INTERVAL_MS * 2);
+      store.partitioned.delete('worker-a');
+      await vi.advanceTimersByTimeAsync(HEARTBEAT_INTERVAL_MS);
+
+      expect(a!.lost).toBe(false);
+      a!.stop();
+    });
+
+    it('should allow immediate reclaim after release', async () => {
+      const a = await acquireLease(store, 'job-1', 'worker-a');
+      await store.release('job-1', 'worker-a');
+      a!.stop();
+
+      await vi.advanceTimersByTimeAsync(1);
+      const b = await acquireLease(store, 'job-1', 'worker-b');
+      expect(b).not.toBeNull();
+      b!.stop();
+    });
+  });
+
+  describe('Recovery of jobs with chainTxhash', () => {
+    it('should settle confirmed transactions', () => {
+      expect(decideRecoveryAction('confirmed', 0)).toBe('settle');
+    });
+
+    it('should roll back transactions that failed on-chain', () => {
+      expect(decideRecoveryAction('failed', 0)).toBe('rollback');
+    });
+
+    it('should retry unknown transactions until they are considered dropped', () => {
+      expect(decideRecoveryAction('unknown', 60_000)).toBe('retry');
+      expect(decideRecoveryAction('unknown', DROPPED_TX_THRESHOLD_MS)).toBe('rollback');
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { Keypair, PublicKey, SystemProgram, TransactionMessage, VersionedTransaction } from '@solana/web3.js';
+import {
+  simulateSwapTransaction,
+  toRawAmount,
+  applySlippage,
+  type SimulationAccount,
+  type SimulationResult,
+  type SwapSimulationRpc
+} from '../../server/swap-simulation';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+
+const taker = Keypair.generate().publicKey;
+const mint = Keypair.generate().publicKey;
+const [takerTokenAccount] = PublicKey.findProgramAddressSync(
+  [taker.toBuffer(), new PublicKey(TOKEN_PROGRAM_ID).toBuffer(), mint.toBuffer()],
+  ASSOCIATED_TOKEN_PROGRAM_ID
+);
+
+// Unsigned v0 transaction paid by the taker, standing in for a Jupiter Ultra order
+function buildTransaction(): string {
+  const message = new TransactionMessage({
+    payerKey: taker,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+    instructions: [SystemProgram.transfer({ fromPubkey: taker, toPubkey: Keypair.generate().publicKey, lamports: 1 })],
+  }).compileToV0Message();
+  return Buffer.from(new VersionedTransaction(message).serialize()).toString('base64');
+}
+
+function tokenAccount(amount: bigint): SimulationAccount {
+  const data = Buffer.alloc(165);
+  data.writeBigUInt64LE(amount, 64);
+  return { lamports: 2039280, owner: TOKEN_PROGRAM_ID, data };
+}
+
+// Fake RPC: accounts hold pre-simulation state, simulation returns the configured result
+class FakeSimulationRpc implements SwapSimulationRpc {
+  accounts = new Map<string, SimulationAccount>();
+  simulation: SimulationResult = { err: null, logs: [], accounts: [] };
+  fee = 5000;
+  simulatedAddresses: string[] = [];
+
+  async simulateTransaction(_tx: VersionedTransaction, addresses: string[]) {
+    this.simulatedAddresses = addresses;
+    return this.simulation;
+  }
+
+  async getAccount(address: string) {
+    return this.accounts.get(address) ?? null;
+  }
+
+  async getFeeForMessage() {
+    return this.fee;
+  }
+}
+
+describe('Swap Simulation', () => {
+  describe('Amount helpers', () => {
+    it('should convert UI amounts to raw units without float rounding', () => {
+      expect(toRawAmount('1.5', 6)).toBe(BigInt(1500000));
+      expect(toRawAmount('0.123456789', 9)).toBe(BigInt(123456789));
+      expect(toRawAmount('2', 0)).toBe(BigInt(2));
+      expect(toRawAmount('1.1234567', 6)).toBe(BigInt(1123456)); // Truncates extra digits
+    });
+
+    it('should apply slippage rounding down', () => {
+      expect(applySlippage(BigInt(1000000), 50)).toBe(BigInt(995000));
+      expect(applySlippage(BigInt(999), 100)).toBe(BigInt(989));
+    });
+  });
+
+  describe('BUY (token output)', () => {
+    function buyParams(rpc: FakeSimulationRpc) {
+      return {
+        transaction: buildTransaction(),
+        taker: taker.toBase58(),
+        outputMint: mint.toBase58(),
+        expectedOutAmount: '100',
+        outputDecimals: 6,
+        slippageBps: 100,
+        rpc,
+      };
+    }
+
+    it('should pass when the simulated token delta is within slippage', async () => {
+      const rpc = new FakeSimulationRpc();
+      rpc.accounts.set(mint.toBase58(), { lamports: 1, owner: TOKEN_PROGRAM_ID, data: Buffer.alloc(82) });
+      rpc.accounts.set(takerTokenAccount.toBase58(), tokenAccount(BigInt(5000000)));
+      rpc.simulation = { err: null, logs: [], accounts: [tokenAccount(BigInt(5000000 + 99500000))] };
+
+      const result = await simulateSwapTransaction(buyParams(rpc));
+
+      expect(rpc.simulatedAddresses).toEqual([takerTokenAccount.toBase58()]);
+      expect(result).toEqual({ kind: 'ok', simulatedOut: BigInt(99500000), minOut: BigInt(99000000) });
+    });
+
+    it('should fail when the simulated output is below the slippage bound', async () => {
+      const rpc = new FakeSimulationRpc();
+      rpc.accounts.set(mint.toBase58(), { lamports: 1, owner: TOKEN_PROGRAM_ID, data: Buffer.alloc(82) });
+      rpc.simulation = { err: null, logs: [], accounts: [tokenAccount(BigInt(90000000))] }; // ATA created by the swap
+
+      const result = await simulateSwapTransaction(buyParams(rpc));
+
+      expect(result.kind).toBe('error');
+      if (result.kind === 'error') {
+        expect(result.reason).toContain('below minimum');
+        expect(result.reason).toContain('90.000000');
+      }
+    });
+
+    it('should surface the simulation error and last log line', async () => {
+      const rpc = new FakeSimulationRpc();
+      rpc.accounts.set(mint.toBase58(), { lamports: 1, owner: TOKEN_PROGRAM_ID, data: Buffer.alloc(82) });
+      rpc.simulation = {
+        err: { InstructionError: [2, { Custom: 6001 }] },
+        logs: ['Program log: Instruction: Route', 'Program log: Error: Slippage tolerance exceeded'],
+        accounts: [null],
+      };
+
+      const result = await simulateSwapTransaction(buyParams(rpc));
+
+      expect(result.kind).toBe('error');
+      if (result.kind === 'error') {
+        expect(result.reason).toContain('Swap simulation failed');
+        expect(result.reason).toContain('Custom');
+        expect(result.reason).toContain('Slippage tolerance exceeded');
+      }
+    });
+
+    it('should fail when the output mint does not exist', async () => {
+      const result = await simulateSwapTransaction(buyParams(new FakeSimulationRpc()));
+      expect(result).toEqual({ kind: 'error', reason: `Output mint ${mint.toBase58()} not found on-chain` });
+    });
+  });
+
+  describe('SELL (SOL output)', () => {
+    it('should add back the network fee paid by the taker', async () => {
+      const rpc = new FakeSimulationRpc();
+      rpc.accounts.set(taker.toBase58(), { lamports: 1000000000, owner: SystemProgram.programId.toBase58(), data: Buffer.alloc(0) });
+      // Received 0.5 SOL but paid 5000 lamports in fees
+      rpc.simulation = {
+        err: null,
+        logs: [],
+        accounts: [{ lamports: 1000000000 + 500000000 - 5000, owner: SystemProgram.programId.toBase58(), data: Buffer.alloc(0) }],
+      };
+
+      const result = await simulateSwapTransaction({
+        transaction: buildTransaction(),
+        taker: taker.toBase58(),
+        outputMint: SOL_MINT,
+        expectedOutAmount: '0.5',
+        outputDecimals: 9,
+        slippageBps: 0,
+        rpc,
+      });
+
+      expect(result).toEqual({ kind: 'ok', simulatedOut: BigInt(500000000), minOut: BigInt(500000000) });
+    });
+  });
+
+  it('should reject malformed transactions', async () => {
+    const result = await simulateSwapTransaction({
+      transaction: 'bm90LWEtdHJhbnNhY3Rpb24=',
+      taker: taker.toBase58(),
+      outputMint: SOL_MINT,
+      expectedOutAmount: '1',
+      outputDecimals: 9,
+      slippageBps: 50,
+      rpc: new FakeSimulationRpc(),
+    });
+
+    expect(result.kind).toBe('error');
+  });
+});
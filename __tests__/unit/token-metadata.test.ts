@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseMintAccount,
+  isMetadataRefreshDue,
+  isValidMintAddress,
+  METADATA_REFRESH_MS,
+  UNRESOLVED_METADATA_REFRESH_MS
+} from '../../server/token-metadata';
+
+const AUTHORITY = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+
+describe('Token Metadata', () => {
+  it('should parse a classic SPL mint', () => {
+    const info = parseMintAccount({
+      program: 'spl-token',
+      parsed: { type: 'mint', info: { decimals: 6, mintAuthority: null, freezeAuthority: null, supply: '1000' } }
+    });
+
+    expect(info).toEqual({
+      tokenProgram: 'spl-token',
+      decimals: 6,
+      mintAuthority: null,
+      freezeAuthority: null,
+      transferFeeBps: null,
+      extensions: [],
+      flags: [],
+    });
+  });
+
+  it('should flag Token-2022 transfer fees, delegates and freeze authority', () => {
+    const info = parseMintAccount({
+      program: 'spl-token-2022',
+      parsed: {
+        type: 'mint',
+        info: {
+          decimals: 9,
+          mintAuthority: AUTHORITY,
+          freezeAuthority: AUTHORITY,
+          extensions: [
+            {
+              extension: 'transferFeeConfig',
+              state: {
+                olderTransferFee: { transferFeeBasisPoints: 100 },
+                newerTransferFee: { transferFeeBasisPoints: 250 }
+              }
+            },
+            { extension: 'permanentDelegate', state: { delegate: AUTHORITY } },
+            { extension: 'metadataPointer', state: {} }
+          ]
+        }
+      }
+    });
+
+    expect(info?.tokenProgram).toBe('spl-token-2022');
+    expect(info?.transferFeeBps).toBe(250);
+    expect(info?.extensions).toEqual(['transferFeeConfig', 'permanentDelegate', 'metadataPointer']);
+    expect(info?.flags).toEqual(['freeze_authority', 'transfer_fee', 'permanent_delegate']);
+  });
+
+  it('should reject non-mint accounts and invalid decimals', () => {
+    expect(parseMintAccount(null)).toBeNull();
+    expect(parseMintAccount({ program: 'spl-token', parsed: { type: 'account', info: {} } })).toBeNull();
+    expect(parseMintAccount({ program: 'spl-token', parsed: { type: 'mint', info: { decimals: '9' } } })).toBeNull();
+  });
+
+  it('should refresh unresolved symbols and unread mint accounts sooner than resolved ones', () => {
+    const now = new Date(10 * METADATA_REFRESH_MS);
+    const age = (ms: number) => new Date(now.getTime() - ms);
+
+    expect(isMetadataRefreshDue({ symbol: 'BONK', refreshedAt: null }, now)).toBe(true);
+    expect(isMetadataRefreshDue({ symbol: 'BONK', refreshedAt: age(UNRESOLVED_METADATA_REFRESH_MS) }, now)).toBe(false);
+    expect(isMetadataRefreshDue({ symbol: 'BONK', refreshedAt: age(METADATA_REFRESH_MS) }, now)).toBe(true);
+    expect(isMetadataRefreshDue({ symbol: 'UNKNOWN', refreshedAt: age(UNRESOLVED_METADATA_REFRESH_MS) }, now)).toBe(true);
+    expect(isMetadataRefreshDue({ symbol: 'BONK', refreshedAt: age(UNRESOLVED_METADATA_REFRESH_MS), mintAccountReadAt: null }, now)).toBe(true);
+  });
+
+  it('should accept only base58 mint addresses', () => {
+    expect(isValidMintAddress('DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263')).toBe(true);
+    expect(isValidMintAddress('DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB26O')).toBe(false); // "O" is not base58
+    expect(isValidMintAddress('short')).toBe(false);
+    expect(isValidMintAddress(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  evaluateTokenRisk,
+  getRiskFindings,
+  getRiskLevel,
+  type TokenRiskInputs
+} from '../../server/token-risk';
+
+const NOW = new Date('2025-06-01T00:00:00Z');
+const DAY = 24 * 60 * 60 * 1000;
+const AUTHORITY = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+
+function inputs(overrides: Partial<TokenRiskInputs> = {}): TokenRiskInputs {
+  return {
+    mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+    mintAuthority: null,
+    freezeAuthority: null,
+    flags: [],
+    topHolderShare: 0.2,
+    liquidityUsd: 2_000_000,
+    pairCreatedAt: new Date(NOW.getTime() - 365 * DAY),
+    roundTripLossPct: 0.5,
+    sellQuoteFailed: false,
+    ...overrides
+  };
+}
+
+describe('Token Risk', () => {
+  it('should score an established token as low risk', () => {
+    const report = evaluateTokenRisk(inputs(), NOW);
+
+    expect(report.score).toBe(0);
+    expect(report.level).toBe('low');
+    expect(report.checks.every(c => c.status === 'pass')).toBe(true);
+  });
+
+  it('should score a fresh, thin, freezable token as high risk', () => {
+    const report = evaluateTokenRisk(inputs({
+      mintAuthority: AUTHORITY,
+      freezeAuthority: AUTHORITY,
+      topHolderShare: 0.9,
+      liquidityUsd: 3_000,
+      pairCreatedAt: new Date(NOW.getTime() - 2 * 60 * 60 * 1000)
+    }), NOW);
+
+    expect(report.score).toBe(100); // Capped
+    expect(report.level).toBe('high');
+    expect(getRiskFindings(report).map(c => c.id)).toEqual([
+      'freeze_authority', 'liquidity', 'holder_concentration', 'mint_authority', 'token_age'
+    ]);
+  });
+
+  it('should fail tokens that cannot be sold or tax sells', () => {
+    const honeypot = evaluateTokenRisk(inputs({ sellQuoteFailed: true, roundTripLossPct: null }), NOW);
+    expect(honeypot.level).toBe('high');
+
+    const taxed = evaluateTokenRisk(inputs({ roundTripLossPct: 12 }), NOW);
+    expect(taxed.checks.find(c => c.id === 'sell_tax')?.status).toBe('fail');
+    expect(taxed.level).toBe('medium');
+  });
+
+  it('should penalize Token-2022 extensions that restrict holders', () => {
+    const report = evaluateTokenRisk(inputs({ flags: ['permanent_delegate', 'transfer_fee'] }), NOW);
+    const extensions = report.checks.find(c => c.id === 'token_extensions');
+
+    expect(extensions?.status).toBe('fail');
+    expect(extensions?.penalty).toBe(50);
+    expect(report.level).toBe('high');
+  });
+
+  it('should mark missing data as unknown with a small penalty', () => {
+    const report = evaluateTokenRisk(inputs({
+      mintAuthority: undefined,
+      freezeAuthority: undefined,
+      flags: undefined,
+      topHolderShare: null,
+      roundTripLossPct: null
+    }), NOW);
+
+    expect(report.checks.filter(c => c.status === 'unknown').map(c => c.id)).toEqual([
+      'mint_authority', 'freeze_authority', 'token_extensions', 'holder_concentration', 'sell_tax'
+    ]);
+    expect(report.score).toBe(20);
+    expect(getRiskLevel(report.score)).toBe('medium');
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { getClosedPositionAction, getTpSlThreshold, isTpSlTriggered } from '../../server/tp-sl-trigger';
+
+describe('TP/SL Trigger', () => {
+  it('should resolve absolute and entry-relative thresholds', () => {
+    expect(getTpSlThreshold({ kind: 'take_profit', triggerType: 'price', triggerValue: '2.5' }, null)).toBe(2.5);
+    expect(getTpSlThreshold({ kind: 'take_profit', triggerType: 'percent', triggerValue: '50' }, 2)).toBeCloseTo(3);
+    expect(getTpSlThreshold({ kind: 'stop_loss', triggerType: 'percent', triggerValue: '25' }, 2)).toBeCloseTo(1.5);
+  });
+
+  it('should have no threshold without a usable value or entry price', () => {
+    expect(getTpSlThreshold({ kind: 'take_profit', triggerType: 'percent', triggerValue: '50' }, null)).toBeNull();
+    expect(getTpSlThreshold({ kind: 'stop_loss', triggerType: 'percent', triggerValue: '10' }, 0)).toBeNull();
+    expect(getTpSlThreshold({ kind: 'stop_loss', triggerType: 'price', triggerValue: '0' }, 2)).toBeNull();
+    expect(getTpSlThreshold({ kind: 'stop_loss', triggerType: 'price', triggerValue: 'abc' }, 2)).toBeNull();
+  });
+
+  it('should fire take-profit at or above and stop-loss at or below the threshold', () => {
+    expect(isTpSlTriggered('take_profit', 3, 3)).toBe(true);
+    expect(isTpSlTriggered('take_profit', 3, 3.1)).toBe(true);
+    expect(isTpSlTriggered('take_profit', 3, 2.9)).toBe(false);
+
+    expect(isTpSlTriggered('stop_loss', 1.5, 1.5)).toBe(true);
+    expect(isTpSlTriggered('stop_loss', 1.5, 1.2)).toBe(true);
+    expect(isTpSlTriggered('stop_loss', 1.5, 1.6)).toBe(false);
+
+    expect(isTpSlTriggered('stop_loss', 1.5, 0)).toBe(false);
+    expect(isTpSlTriggered('take_profit', 3, Infinity)).toBe(false);
+  });
+
+  it('should cancel rules on closed positions unless a pending sell may be restored', () => {
+    expect(getClosedPositionAction('10', false)).toBe('keep');
+    expect(getClosedPositionAction('10', true)).toBe('keep');
+    expect(getClosedPositionAction('0', true)).toBe('wait');
+    expect(getClosedPositionAction('0', false)).toBe('cancel');
+    expect(getClosedPositionAction(null, false)).toBe('cancel');
+  });
+});
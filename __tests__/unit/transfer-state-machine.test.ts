@@ -0,0 +1,413 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  canTransition,
+  depositStep,
+  getRetryDelay,
+  runTransferStep,
+  withdrawalStep,
+  InvalidTransitionError,
+  STALE_SEND_LOCK_MS,
+  TRANSFER_TRANSITIONS,
+  type DepositTransfer,
+  type TransferFlowDeps,
+  type TransferState,
+  type TransferStatus,
+  type TransferStore,
+  type TransferUpdates,
+  type WithdrawalSendLock,
+  type WithdrawalTransfer
+} from '../../server/transfer-state-machine';
+import { createSolToIntermediateExchange } from '../../server/bridge-provider';
+import { MockBridgeProvider, MockIntermediateChain } from '../../server/mock-bridge-provider';
+
+const START = new Date('2026-01-01T00:00:00Z').getTime();
+
+// In-memory store: records are mutated in place, as if reloaded from the DB on the next cycle
+class MemoryStore<T extends TransferState> implements TransferStore<T> {
+  history: Array<{ from: TransferStatus; to: TransferStatus; reason: string }> = [];
+  conflict = false;
+  failSideEffectsFor: TransferStatus | null = null;
+
+  async transition(record: T, to: TransferStatus, reason: string, updates: TransferUpdates) {
+    if (this.conflict) {
+      return false;
+    }
+    if (to === this.failSideEffectsFor) {
+      throw new Error('Ledger write failed'); // Rolled back with the status change
+    }
+    this.history.push({ from: record.status, to, reason });
+    Object.assign(record, updates, { status: to });
+    return true;
+  }
+
+  async update(record: T, updates: TransferUpdates) {
+    Object.assign(record, updates);
+  }
+}
+
+// step1TxId lock over a single in-memory withdrawal
+function createSendLock(withdrawal: WithdrawalTransfer): WithdrawalSendLock {
+  return {
+    async acquire() {
+      if (withdrawal.step1TxId) {
+        return false;
+      }
+      withdrawal.step1TxId = 'PROCESSING';
+      return true;
+    },
+    async releaseStale() {
+      if (withdrawal.step1TxId !== 'PROCESSING') {
+        return false;
+      }
+      withdrawal.step1TxId = null;
+      return true;
+    },
+    async release() {
+      if (withdrawal.step1TxId === 'PROCESSING') {
+        withdrawal.step1TxId = null;
+      }
+    },
+    async complete(_id, txId) {
+      withdrawal.step1TxId = txId;
+    },
+  };
+}
+
+type DepositRow = DepositTransfer & { trxAmount?: string; solReceived?: string; lastError?: string | null };
+type WithdrawalRow = WithdrawalTransfer & { trxAmount?: string; step2TxTo?: string | null };
+
+function makeDeposit(overrides: Partial<DepositRow> = {}): DepositRow {
+  return {
+    id: 'dep-1',
+    status: 'waiting_step1',
+    attempts: 0,
+    nextAttemptAt: null,
+    step1ExchangeId: null,
+    step2ExchangeId: null,
+    solAmount: '1',
+    ...overrides,
+  };
+}
+
+function makeWithdrawal(overrides: Partial<WithdrawalRow> = {}): WithdrawalRow {
+  return {
+    id: 'wd-1',
+    status: 'waiting_step1',
+    attempts: 0,
+    nextAttemptAt: null,
+    step1ExchangeId: null,
+    step2ExchangeId: null,
+    step1TxId: null,
+    destinationAddress: 'user_sol_address',
+    solDeducted: '1',
+    solSent: null,
+    updatedAt: new Date(START),
+    ...overrides,
+  };
+}
+
+function createHarness(withdrawal?: WithdrawalTransfer) {
+  const provider = new MockBridgeProvider();
+  const intermediate = new MockIntermediateChain();
+  const clock = { now: START };
+  const solSends: Array<{ toAddress: string; amount: number }> = [];
+
+  const deps: TransferFlowDeps = {
+    route: { provider, intermediate },
+    poolAddress: 'pool_address',
+    async sendSol(toAddress, amount) {
+      solSends.push({ toAddress, amount });
+      return `sol_tx_${solSends.length}`;
+    },
+    sendLock: createSendLock(withdrawal ?? makeWithdrawal()),
+    now: () => clock.now,
+  };
+
+  return { provider, intermediate, clock, solSends, deps };
+}
+
+describe('Transfer State Machine', () => {
+  describe('Transitions', () => {
+    it('should only allow forward moves out of pending statuses', () => {
+      expect(canTransition('waiting_step1', 'waiting_step2')).toBe(true);
+      expect(canTransition('waiting_step2', 'finished')).toBe(true);
+      expect(canTransition('waiting_step1', 'dead_letter')).toBe(true);
+      expect(canTransition('waiting_step1', 'finished')).toBe(false);
+      expect(canTransition('waiting_step2', 'waiting_step1')).toBe(false);
+    });
+
+    it('should treat terminal statuses as final and dead_letter as requeue-only', () => {
+      for (const status of ['finished', 'failed', 'refunded', 'expired'] as const) {
+        expect(TRANSFER_TRANSITIONS[status]).toEqual([]);
+      }
+      expect(TRANSFER_TRANSITIONS.dead_letter).toEqual(['waiting_step1', 'waiting_step2']);
+    });
+
+    it('should double the retry delay up to the cap', () => {
+      expect(getRetryDelay(1)).toBe(15000);
+      expect(getRetryDelay(2)).toBe(30000);
+      expect(getRetryDelay(7)).toBe(15 * 60 * 1000);
+    });
+  });
+
+  describe('runTransferStep', () => {
+    it('should reject transitions outside the table without persisting', async () => {
+      const store = new MemoryStore<DepositRow>();
+      const deposit = makeDeposit();
+
+      await expect(runTransferStep(deposit, async () => ({ kind: 'advance', to: 'finished', reason: 'skip ahead' }), store))
+        .rejects.toBeInstanceOf(InvalidTransitionError);
+      expect(deposit.status).toBe('waiting_step1');
+      expect(store.history).toEqual([]);
+    });
+
+    it('should report a conflict when the status changed concurrently', async () => {
+      const store = new MemoryStore<DepositRow>();
+      store.conflict = true;
+
+      const result = await runTransferStep(
+        makeDeposit(),
+        async () => ({ kind: 'advance', to: 'waiting_step2', reason: 'test' }),
+        store
+      );
+
+      expect(result).toEqual({ kind: 'conflict' });
+    });
+
+    it('should skip terminal transfers without running the step', async () => {
+      const step = vi.fn();
+      const result = await runTransferStep(makeDeposit({ status: 'finished' }), step, new MemoryStore());
+
+      expect(result).toEqual({ kind: 'skipped', reason: 'terminal' });
+      expect(step).not.toHaveBeenCalled();
+    });
+
+    it('should back off after errors and reset attempts once the bridge answers', async () => {
+      const { deps, clock } = createHarness();
+      const store = new MemoryStore<DepositRow>();
+      const deposit = makeDeposit({ step1ExchangeId: 'unknown_exchange' });
+      const step = (record: DepositRow) => depositStep(record, deps, store);
+      const options = { now: () => clock.now };
+
+      const first = await runTransferStep(deposit, step, store, options);
+      expect(first).toMatchObject({ kind: 'retry_scheduled', attempts: 1, error: 'Exchange not found' });
+      expect(deposit.nextAttemptAt).toEqual(new Date(START + 15000));
+      expect(deposit.lastError).toBe('Exchange not found');
+
+      expect(await runTransferStep(deposit, step, store, options)).toEqual({ kind: 'skipped', reason: 'backoff' });
+
+      clock.now += 15000;
+      const second = await runTransferStep(deposit, step, store, options);
+      expect(second).toMatchObject({ kind: 'retry_scheduled', attempts: 2 });
+      expect(deposit.nextAttemptAt).toEqual(new Date(clock.now + 30000));
+
+      // Exchange shows up on the provider - a successful poll clears the retry bookkeeping
+      const exchange = await createSolToIntermediateExchange(deps.route, '1', 'relay_address');
+      deposit.step1ExchangeId = exchange.id;
+      clock.now += 30000;
+
+      expect(await runTransferStep(deposit, step, store, options)).toEqual({ kind: 'waiting' });
+      expect(deposit.attempts).toBe(0);
+      expect(deposit.nextAttemptAt).toBeNull();
+      expect(deposit.lastError).toBeNull();
+    });
+
+    it('should dead-letter a transfer once retries are exhausted', async () => {
+      const { deps, clock } = createHarness();
+      const store = new MemoryStore<DepositRow>();
+      const deposit = makeDeposit({ status: 'waiting_step2', step2ExchangeId: 'unknown_exchange' });
+      const step = (record: DepositRow) => depositStep(record, deps, store);
+      const options = { now: () => clock.now, policy: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 5000 } };
+
+      const results = [];
+      for (let i = 0; i < 3; i++) {
+        results.push(await runTransferStep(deposit, step, store, options));
+        clock.now += 5000;
+      }
+
+      expect(results.map(result => result.kind)).toEqual(['retry_scheduled', 'retry_scheduled', 'transitioned']);
+      expect(deposit.status).toBe('dead_letter');
+      expect(deposit.attempts).toBe(3);
+      expect(store.history).toEqual([{
+        from: 'waiting_step2',
+        to: 'dead_letter',
+        reason: 'Retries exhausted after 3 attempts: Exchange not found',
+      }]);
+
+      expect(await runTransferStep(deposit, step, store, options)).toEqual({ kind: 'skipped', reason: 'terminal' });
+    });
+
+    it('should retry and dead-letter transitions whose side effects fail', async () => {
+      const store = new MemoryStore<DepositRow>();
+      store.failSideEffectsFor = 'finished';
+      const clock = { now: START };
+      const deposit = makeDeposit({ status: 'waiting_step2' });
+      const step = async () => ({ kind: 'advance' as const, to: 'finished' as const, reason: 'Step 2 finished' });
+      const options = { now: () => clock.now, policy: { maxAttempts: 2, baseDelayMs: 1000, maxDelayMs: 5000 } };
+
+      const first = await runTransferStep(deposit, step, store, options);
+      expect(first).toMatchObject({ kind: 'retry_scheduled', attempts: 1, error: 'Transition to finished failed: Ledger write failed' });
+      expect(deposit.status).toBe('waiting_step2');
+      expect(deposit.nextAttemptAt).toEqual(new Date(START + 1000));
+
+      clock.now += 1000;
+      expect(await runTransferStep(deposit, step, store, options)).toEqual({ kind: 'transitioned', to: 'dead_letter' });
+      expect(store.history).toEqual([{
+        from: 'waiting_step2',
+        to: 'dead_letter',
+        reason: 'Retries exhausted after 2 attempts: Transition to finished failed: Ledger write failed',
+      }]);
+    });
+  });
+
+  describe('Deposits', () => {
+    it('should move a deposit through both hops and record the history', async () => {
+      const { deps, provider, intermediate } = createHarness();
+      const store = new MemoryStore<DepositRow>();
+      const step1 = await createSolToIntermediateExchange(deps.route, '1', 'relay_address');
+      const deposit = makeDeposit({ step1ExchangeId: step1.id });
+      const step = (record: DepositRow) => depositStep(record, deps, store);
+
+      expect(await runTransferStep(deposit, step, store)).toEqual({ kind: 'waiting' });
+
+      provider.setStatus(step1.id, 'finished');
+      expect(await runTransferStep(deposit, step, store)).toEqual({ kind: 'transitioned', to: 'waiting_step2' });
+      expect(deposit.trxAmount).toBe('600.000000000');
+      expect(intermediate.sent).toHaveLength(1);
+
+      const step2 = provider.exchanges.get(deposit.step2ExchangeId!)!;
+      expect(step2.addressTo).toBe('pool_address');
+      expect(intermediate.sent[0]).toMatchObject({ toAddress: step2.depositAddress, amount: 600 });
+
+      expect(await runTransferStep(deposit, step, store)).toEqual({ kind: 'waiting' });
+
+      provider.setStatus(step2.id, 'finished');
+      expect(await runTransferStep(deposit, step, store)).toEqual({ kind: 'transitioned', to: 'finished' });
+      expect(deposit.solReceived).toBe('1.000000000');
+      expect(store.history.map(entry => `${entry.from}→${entry.to}`)).toEqual([
+        'waiting_step1→waiting_step2',
+        'waiting_step2→finished',
+      ]);
+    });
+
+    it('should recover a deposit without a Step 1 exchange once the relay is funded', async () => {
+      const { deps, intermediate } = createHarness();
+      const store = new MemoryStore<DepositRow>();
+      const deposit = makeDeposit();
+      const step = (record: DepositRow) => depositStep(record, deps, store);
+
+      intermediate.relayBalance = 5;
+      expect(await runTransferStep(deposit, step, store)).toEqual({ kind: 'waiting' });
+      expect(intermediate.sent).toHaveLength(0);
+
+      intermediate.relayBalance = 25;
+      expect(await runTransferStep(deposit, step, store)).toEqual({ kind: 'transitioned', to: 'waiting_step2' });
+      expect(deposit.trxAmount).toBe('25');
+      expect(intermediate.sent[0].amount).toBe(25);
+    });
+
+    it.each(['failed', 'refunded', 'expired'] as const)('should map a %s bridge exchange onto the transfer', async (status) => {
+      const { deps, provider } = createHarness();
+      const store = new MemoryStore<DepositRow>();
+      const step1 = await createSolToIntermediateExchange(deps.route, '1', 'relay_address');
+      const deposit = makeDeposit({ step1ExchangeId: step1.id });
+
+      provider.setStatus(step1.id, status);
+      const result = await runTransferStep(deposit, record => depositStep(record, deps, store), store);
+
+      expect(result).toEqual({ kind: 'transitioned', to: status });
+      expect(store.history[0].reason).toBe(`Step 1 exchange ${step1.id} ${status}`);
+    });
+
+    it('should reuse the saved Step 2 exchange when funding it failed', async () => {
+      const { deps, provider, intermediate, clock } = createHarness();
+      const store = new MemoryStore<DepositRow>();
+      const step1 = await createSolToIntermediateExchange(deps.route, '1', 'relay_address');
+      const deposit = makeDeposit({ step1ExchangeId: step1.id });
+      const step = (record: DepositRow) => depositStep(record, deps, store);
+      const options = { now: () => clock.now };
+
+      provider.setStatus(step1.id, 'finished');
+      vi.spyOn(intermediate, 'sendFromRelay').mockRejectedValueOnce(new Error('TRON node unavailable'));
+
+      expect(await runTransferStep(deposit, step, store, options))
+        .toMatchObject({ kind: 'retry_scheduled', error: 'TRON node unavailable' });
+      const savedExchangeId = deposit.step2ExchangeId;
+      expect(savedExchangeId).not.toBeNull();
+
+      clock.now += 15000;
+      expect(await runTransferStep(deposit, step, store, options)).toEqual({ kind: 'transitioned', to: 'waiting_step2' });
+      expect(deposit.step2ExchangeId).toBe(savedExchangeId);
+      expect(provider.exchanges.size).toBe(2);
+      expect(intermediate.sent).toHaveLength(1);
+    });
+  });
+
+  describe('Withdrawals', () => {
+    it('should send Step 1 SOL once and finish after both hops', async () => {
+      const withdrawal = makeWithdrawal();
+      const { deps, provider, intermediate, solSends } = createHarness(withdrawal);
+      const store = new MemoryStore<WithdrawalRow>();
+      const step1 = await createSolToIntermediateExchange(deps.route, '1', 'relay_address');
+      withdrawal.step1ExchangeId = step1.id;
+      const step = (record: WithdrawalRow) => withdrawalStep(record, deps, store);
+
+      expect(await runTransferStep(withdrawal, step, store)).toEqual({ kind: 'waiting' });
+      expect(solSends).toEqual([{ toAddress: step1.depositAddress, amount: 1 }]);
+      expect(withdrawal.step1TxId).toBe('sol_tx_1');
+
+      // Provider has not seen the input yet - must not send again
+      expect(await runTransferStep(withdrawal, step, store)).toEqual({ kind: 'waiting' });
+      expect(solSends).toHaveLength(1);
+
+      provider.setStatus(step1.id, 'finished');
+      expect(await runTransferStep(withdrawal, step, store)).toEqual({ kind: 'transitioned', to: 'waiting_step2' });
+      expect(withdrawal.solSent).toBe('1.000000000');
+
+      const step2 = provider.exchanges.get(withdrawal.step2ExchangeId!)!;
+      expect(step2.addressTo).toBe('user_sol_address');
+      expect(intermediate.sent[0]).toMatchObject({ toAddress: step2.depositAddress, amount: 600 });
+
+      provider.setStatus(step2.id, 'finished', { amountTo: '0.98', txTo: 'user_payout_tx' });
+      expect(await runTransferStep(withdrawal, step, store)).toEqual({ kind: 'transitioned', to: 'finished' });
+      expect(withdrawal.solSent).toBe('0.98');
+      expect(withdrawal.step2TxTo).toBe('user_payout_tx');
+    });
+
+    it('should only take over a send lock once it is stale', async () => {
+      const withdrawal = makeWithdrawal({ step1TxId: 'PROCESSING' });
+      const { deps, clock, solSends } = createHarness(withdrawal);
+      const store = new MemoryStore<WithdrawalRow>();
+      const step1 = await createSolToIntermediateExchange(deps.route, '1', 'relay_address');
+      withdrawal.step1ExchangeId = step1.id;
+      const step = (record: WithdrawalRow) => withdrawalStep(record, deps, store);
+      const options = { now: () => clock.now };
+
+      clock.now = START + 30000;
+      await runTransferStep(withdrawal, step, store, options);
+      expect(solSends).toHaveLength(0);
+      expect(withdrawal.step1TxId).toBe('PROCESSING');
+
+      clock.now = START + STALE_SEND_LOCK_MS + 1;
+      await runTransferStep(withdrawal, step, store, options);
+      expect(solSends).toHaveLength(1);
+      expect(withdrawal.step1TxId).toBe('sol_tx_1');
+    });
+
+    it('should release the send lock and retry when the SOL send fails', async () => {
+      const withdrawal = makeWithdrawal();
+      const { deps } = createHarness(withdrawal);
+      const store = new MemoryStore<WithdrawalRow>();
+      const step1 = await createSolToIntermediateExchange(deps.route, '1', 'relay_address');
+      withdrawal.step1ExchangeId = step1.id;
+      deps.sendSol = async () => {
+        throw new Error('Blockhash expired');
+      };
+
+      const result = await runTransferStep(withdrawal, record => withdrawalStep(record, deps, store), store);
+
+      expect(result).toMatchObject({ kind: 'retry_scheduled', attempts: 1, error: 'Blockhash expired' });
+      expect(withdrawal.step1TxId).toBeNull();
+    });
+  });
+});
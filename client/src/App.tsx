@@ -4,6 +4,7 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useEffect } from "react";
+import { sdk } from "@shared/sdk";
 import Landing from "@/pages/Landing";
 import Links from "@/pages/Links";
 import About from "@/pages/About";
@@ -41,19 +42,13 @@ function TradeRoot() {
   useEffect(() => {
     console.log('[TradeRoot] Checking authentication...');
     // Check authentication and redirect accordingly
-    fetch('/api/wallet/balance', { credentials: 'include' })
-      .then(res => {
-        console.log('[TradeRoot] Auth check response:', res.status, res.ok);
-        if (res.ok) {
-          console.log('[TradeRoot] Authenticated - redirecting to /dashboard');
-          setLocation('/dashboard');
-        } else {
-          console.log('[TradeRoot] Not authenticated - redirecting to /login');
-          setLocation('/login');
-        }
+    sdk.wallet.balance()
+      .then(() => {
+        console.log('[TradeRoot] Authenticated - redirecting to /dashboard');
+        setLocation('/dashboard');
       })
       .catch(err => {
-        console.log('[TradeRoot] Auth check error:', err);
+        console.log('[TradeRoot] Not authenticated - redirecting to /login:', err.message);
         setLocation('/login');
       });
   }, [setLocation]);
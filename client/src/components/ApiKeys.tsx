@@ -0,0 +1,184 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Code, Copy, Trash2 } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { sdk } from "@shared/sdk";
+import type { CreateApiKeyBody } from "@shared/api-client";
+
+type ApiKeyScope = NonNullable<CreateApiKeyBody['scopes']>[number];
+
+interface IssuedCredentials {
+  key: string;
+  secret: string;
+}
+
+const OPTIONAL_SCOPES: { scope: ApiKeyScope; label: string }[] = [
+  { scope: 'trade', label: "Trade (execute swaps)" },
+  { scope: 'withdraw', label: "Withdraw (move SOL out)" },
+];
+
+/**
+ * Developer API keys: issue (credentials shown once), list and revoke
+ */
+export function ApiKeys() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([]);
+  const [issued, setIssued] = useState<IssuedCredentials | null>(null);
+
+  const { data } = useQuery({
+    queryKey: ['/api/api-keys'],
+    queryFn: () => sdk.api.listApiKeys(),
+  });
+
+  const activeKeys = (data?.apiKeys || []).filter(key => !key.revokedAt);
+
+  const createMutation = useMutation({
+    mutationFn: () => sdk.api.createApiKey({ body: { name: name.trim(), scopes } }),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-keys'] });
+      setIssued({ key: data.key, secret: data.secret });
+      setName("");
+      setScopes([]);
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to create API key",
+      });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (keyId: string) => sdk.api.revokeApiKey({ params: { keyId } }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/api-keys'] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to revoke API key",
+      });
+    }
+  });
+
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(s => s !== scope));
+  };
+
+  const copy = (value: string) => {
+    navigator.clipboard.writeText(value);
+    toast({ title: "Copied", description: "Copied to clipboard" });
+  };
+
+  return (
+    <Card className="border-purple-500/20 bg-black/80 backdrop-blur-xl" data-testid="card-api-keys">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <Code className="w-5 h-5 text-purple-400" />
+          API Keys
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          Keys for the developer API (/api/v1). Every key can read; trading and withdrawals must be granted
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          <Input
+            placeholder="Key name (e.g. trading bot)"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={50}
+            className="bg-black/50 border-purple-500/20 text-white"
+            data-testid="input-api-key-name"
+          />
+          <div className="flex flex-wrap gap-4">
+            {OPTIONAL_SCOPES.map(({ scope, label }) => (
+              <div key={scope} className="flex items-center gap-2">
+                <Checkbox
+                  id={`scope-${scope}`}
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  data-testid={`checkbox-scope-${scope}`}
+                />
+                <Label htmlFor={`scope-${scope}`} className="text-sm text-gray-300">{label}</Label>
+              </div>
+            ))}
+          </div>
+          <Button
+            variant="outline"
+            className="w-full border-purple-500/30 text-purple-300 hover:bg-purple-950/20"
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || createMutation.isPending}
+            data-testid="button-create-api-key"
+          >
+            {createMutation.isPending ? "Creating..." : "Create API Key"}
+          </Button>
+        </div>
+
+        {issued && (
+          <div className="space-y-2 p-3 rounded-lg border border-yellow-500/30 bg-yellow-500/5" data-testid="api-key-issued">
+            <p className="text-xs text-yellow-400">Copy both values now - they will not be shown again</p>
+            {([['Key', issued.key], ['Secret', issued.secret]] as const).map(([label, value]) => (
+              <div key={label} className="flex items-center gap-2">
+                <span className="text-xs text-gray-400 w-12">{label}</span>
+                <code className="flex-1 text-xs text-white break-all">{value}</code>
+                <Button variant="ghost" size="sm" onClick={() => copy(value)} data-testid={`button-copy-api-${label.toLowerCase()}`}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="ghost" size="sm" className="text-gray-400" onClick={() => setIssued(null)} data-testid="button-dismiss-api-key">
+              Done
+            </Button>
+          </div>
+        )}
+
+        {activeKeys.length > 0 && (
+          <div className="space-y-2 pt-4 border-t border-purple-500/20">
+            {activeKeys.map((apiKey) => (
+              <div
+                key={apiKey.id}
+                className="flex items-center justify-between p-3 rounded-lg bg-black/30 border border-purple-500/20"
+                data-testid={`api-key-${apiKey.id}`}
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-white">{apiKey.name}</span>
+                    <code className="text-xs text-gray-500">{apiKey.keyPrefix}…</code>
+                  </div>
+                  <div className="flex items-center gap-1 mt-1">
+                    {apiKey.scopes.map(scope => (
+                      <Badge key={scope} variant="secondary" className="text-xs">{scope}</Badge>
+                    ))}
+                    <span className="text-xs text-gray-500 ml-1">
+                      {apiKey.rateLimitPerMinute}/min · {apiKey.lastUsedAt ? `last used ${new Date(apiKey.lastUsedAt).toLocaleString()}` : "never used"}
+                    </span>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => revokeMutation.mutate(apiKey.id)}
+                  disabled={revokeMutation.isPending}
+                  data-testid={`button-revoke-api-key-${apiKey.id}`}
+                >
+                  <Trash2 className="w-4 h-4 text-red-400" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
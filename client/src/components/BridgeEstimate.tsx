@@ -0,0 +1,83 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Clock, Info } from "lucide-react";
+import { sdk } from "@shared/sdk";
+
+interface BridgeEstimateProps {
+  kind: 'deposit' | 'withdraw';
+  amount: string;
+}
+
+/**
+ * Live quote for a deposit/withdrawal amount: what arrives, relay fees and ETA
+ */
+export function BridgeEstimate({ kind, amount }: BridgeEstimateProps) {
+  const [debouncedAmount, setDebouncedAmount] = useState(amount.trim());
+
+  // Wait for typing to pause - every quote hits the relay network twice
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedAmount(amount.trim()), 500);
+    return () => clearTimeout(timer);
+  }, [amount]);
+
+  const numAmount = parseFloat(debouncedAmount);
+  const enabled = !isNaN(numAmount) && numAmount > 0;
+
+  const { data, error, isFetching } = useQuery({
+    queryKey: [`/api/${kind}/estimate`, debouncedAmount],
+    queryFn: () => kind === 'deposit'
+      ? sdk.deposit.estimate(debouncedAmount)
+      : sdk.withdraw.estimate(debouncedAmount),
+    enabled,
+    staleTime: 30000,
+  });
+
+  if (!enabled) {
+    return null;
+  }
+
+  if (isFetching && !data) {
+    return (
+      <div className="bg-purple-900/10 border border-purple-500/20 rounded-lg p-4 text-sm text-gray-400" data-testid={`estimate-${kind}-loading`}>
+        Fetching relay quote...
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="bg-red-900/10 border border-red-500/20 rounded-lg p-4 text-sm text-red-400" data-testid={`estimate-${kind}-error`}>
+        {error?.message || "Quote unavailable"}
+      </div>
+    );
+  }
+
+  const { estimate } = data;
+
+  return (
+    <div className="bg-purple-900/10 border border-purple-500/20 rounded-lg p-4 space-y-2 text-sm" data-testid={`estimate-${kind}`}>
+      <div className="flex items-center justify-between">
+        <span className="text-gray-400">{kind === 'deposit' ? 'Credited to vault' : 'You receive (est.)'}</span>
+        <span className="text-white font-semibold" data-testid={`estimate-${kind}-receive`}>
+          {parseFloat(estimate.receiveSol).toFixed(4)} SOL
+          <span className="text-gray-500 font-normal"> ≈ ${estimate.receiveUsd}</span>
+        </span>
+      </div>
+      <div className="flex items-center justify-between">
+        <span className="text-gray-400">Relay fees</span>
+        <span className={estimate.feePaidBy === 'platform' ? 'text-green-400' : 'text-white'} data-testid={`estimate-${kind}-fees`}>
+          {parseFloat(estimate.spreadSol).toFixed(4)} SOL (${estimate.spreadUsd}, {estimate.spreadPercent}%)
+          {estimate.feePaidBy === 'platform' && ' - covered by platform'}
+        </span>
+      </div>
+      <div className="flex items-center justify-between">
+        <span className="text-gray-400 flex items-center gap-1"><Clock className="w-3 h-3" />Estimated time</span>
+        <span className="text-white">{estimate.etaMinutes.min}-{estimate.etaMinutes.max} min</span>
+      </div>
+      <p className="text-xs text-gray-500 flex items-center gap-1">
+        <Info className="w-3 h-3" />
+        Limits: {estimate.limits.minSol} - {estimate.limits.maxSol ?? '∞'} SOL. Floating rate, final amount may vary.
+      </p>
+    </div>
+  );
+}
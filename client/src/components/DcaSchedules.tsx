@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { CalendarClock, Pause, Play, Trash2 } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { sdk } from "@shared/sdk";
+
+/**
+ * Recurring buy schedules: create, pause/resume and delete (also available via the Telegram /dca command)
+ */
+export function DcaSchedules() {
+  const { toast } = useToast();
+  const [tokenAddress, setTokenAddress] = useState("");
+  const [solAmount, setSolAmount] = useState("");
+  const [intervalHours, setIntervalHours] = useState("24");
+  const [totalIterations, setTotalIterations] = useState("");
+
+  const { data } = useQuery({
+    queryKey: ['/api/dca'],
+    queryFn: () => sdk.api.listDcaSchedules(),
+  });
+
+  const schedules = data?.schedules || [];
+
+  const createMutation = useMutation({
+    mutationFn: () => sdk.api.createDcaSchedule({
+      body: {
+        tokenAddress: tokenAddress.trim(),
+        solAmount,
+        intervalHours: parseInt(intervalHours, 10),
+        totalIterations: totalIterations ? parseInt(totalIterations, 10) : undefined
+      }
+    }),
+    onSuccess: (data) => {
+      if (data.success) {
+        queryClient.invalidateQueries({ queryKey: ['/api/dca'] });
+        setTokenAddress("");
+        setSolAmount("");
+        setTotalIterations("");
+        toast({
+          title: "Success",
+          description: `Recurring buy of ${data.schedule.tokenSymbol} created`,
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to create schedule",
+      });
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, action }: { id: string; action: 'pause' | 'resume' | 'delete' }) => {
+      const params = { scheduleId: id };
+      if (action === 'delete') return sdk.api.deleteDcaSchedule({ params });
+      return action === 'pause' ? sdk.api.pauseDcaSchedule({ params }) : sdk.api.resumeDcaSchedule({ params });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/dca'] });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update schedule",
+      });
+    }
+  });
+
+  return (
+    <Card className="border-purple-500/20 bg-black/80 backdrop-blur-xl" data-testid="card-dca">
+      <CardHeader>
+        <CardTitle className="text-white flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-purple-400" />
+          Recurring Buys (DCA)
+        </CardTitle>
+        <CardDescription className="text-gray-400">
+          Spend a fixed SOL amount on a token every few hours. Runs are skipped when your balance is too low
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <Input
+            placeholder="Token address"
+            value={tokenAddress}
+            onChange={(e) => setTokenAddress(e.target.value)}
+            className="md:col-span-4 bg-black/50 border-purple-500/20 text-white"
+            data-testid="input-dca-token"
+          />
+          <Input
+            type="number"
+            step="any"
+            placeholder="SOL per buy"
+            value={solAmount}
+            onChange={(e) => setSolAmount(e.target.value)}
+            className="bg-black/50 border-purple-500/20 text-white"
+            data-testid="input-dca-amount"
+          />
+          <Input
+            type="number"
+            step="1"
+            min="1"
+            placeholder="Every N hours"
+            value={intervalHours}
+            onChange={(e) => setIntervalHours(e.target.value)}
+            className="bg-black/50 border-purple-500/20 text-white"
+            data-testid="input-dca-interval"
+          />
+          <Input
+            type="number"
+            step="1"
+            min="1"
+            placeholder="Buys (empty = until cancelled)"
+            value={totalIterations}
+            onChange={(e) => setTotalIterations(e.target.value)}
+            className="bg-black/50 border-purple-500/20 text-white"
+            data-testid="input-dca-iterations"
+          />
+          <Button
+            variant="outline"
+            className="border-purple-500/30 text-purple-300 hover:bg-purple-950/20"
+            onClick={() => createMutation.mutate()}
+            disabled={!tokenAddress.trim() || !solAmount || !intervalHours || createMutation.isPending}
+            data-testid="button-create-dca"
+          >
+            {createMutation.isPending ? "Creating..." : "Create"}
+          </Button>
+        </div>
+
+        {schedules.length > 0 && (
+          <div className="space-y-3">
+            {schedules.map((schedule) => (
+              <div
+                key={schedule.id}
+                className="flex items-center justify-between p-3 rounded-lg border border-purple-500/10 bg-purple-900/5"
+                data-testid={`dca-${schedule.id}`}
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-white font-medium">
+                      {parseFloat(schedule.solAmount)} SOL → {schedule.tokenSymbol}
+                    </span>
+                    <Badge variant="secondary" className="text-xs capitalize">{schedule.status}</Badge>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Every {schedule.intervalHours}h · {schedule.completedIterations}
+                    {schedule.totalIterations ? `/${schedule.totalIterations}` : ''} buys
+                    {schedule.skippedIterations > 0 && ` · ${schedule.skippedIterations} skipped`}
+                    {schedule.status === 'active' && ` · next ${new Date(schedule.nextRunAt).toLocaleString()}`}
+                  </p>
+                  {schedule.lastError && (
+                    <p className="text-xs text-yellow-500">{schedule.lastError}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-1">
+                  {schedule.status !== 'completed' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateMutation.mutate({ id: schedule.id, action: schedule.status === 'active' ? 'pause' : 'resume' })}
+                      disabled={updateMutation.isPending}
+                      data-testid={`button-toggle-dca-${schedule.id}`}
+                    >
+                      {schedule.status === 'active' ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateMutation.mutate({ id: schedule.id, action: 'delete' })}
+                    disabled={updateMutation.isPending}
+                    data-testid={`button-delete-dca-${schedule.id}`}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-400" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
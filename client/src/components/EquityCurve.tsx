@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { LineChart } from "lucide-react";
+import { sdk } from "@shared/sdk";
+import type { GetPortfolioHistoryQuery } from "@shared/api-client";
+
+type HistoryRange = NonNullable<GetPortfolioHistoryQuery['range']>;
+
+const RANGES: HistoryRange[] = ['24h', '7d', '30d', '90d', '1y'];
+
+/**
+ * Portfolio value over time, from the 15-minute portfolio snapshots
+ */
+export function EquityCurve() {
+  const [range, setRange] = useState<HistoryRange>('7d');
+
+  const { data, isLoading } = useQuery({
+    queryKey: [`/api/portfolio/history?range=${range}`],
+    queryFn: () => sdk.portfolio.history({ range }),
+  });
+
+  const points = (data?.points || []).map(point => ({
+    time: new Date(point.timestamp).getTime(),
+    value: parseFloat(point.totalValueUsd),
+  }));
+
+  const first = points[0]?.value ?? 0;
+  const last = points[points.length - 1]?.value ?? 0;
+  const change = last - first;
+  const changePercent = first > 0 ? (change / first) * 100 : 0;
+  const lineColor = change >= 0 ? "#10b981" : "#ef4444";
+
+  const formatTime = (time: number) => range === '24h'
+    ? new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : new Date(time).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+  return (
+    <Card className="border-purple-500/20 bg-black/80 backdrop-blur-xl" data-testid="card-equity-curve">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="text-white flex items-center gap-2">
+            <LineChart className="w-5 h-5 text-purple-400" />
+            Portfolio Value
+          </CardTitle>
+          <CardDescription className="text-gray-400">
+            {points.length >= 2 ? (
+              <span className={change >= 0 ? 'text-green-400' : 'text-red-400'} data-testid="text-equity-change">
+                {change >= 0 ? '+' : '-'}${Math.abs(change).toFixed(2)} ({changePercent >= 0 ? '+' : ''}{changePercent.toFixed(2)}%)
+              </span>
+            ) : (
+              "Snapshots are taken every 15 minutes"
+            )}
+          </CardDescription>
+        </div>
+        <div className="flex gap-1">
+          {RANGES.map(option => (
+            <Button
+              key={option}
+              variant={option === range ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setRange(option)}
+              data-testid={`button-range-${option}`}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-64 flex items-center justify-center text-gray-500">Loading...</div>
+        ) : points.length < 2 ? (
+          <div className="h-64 flex items-center justify-center text-gray-500">Not enough history yet</div>
+        ) : (
+          <div className="h-64" data-testid="chart-equity-curve">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={points}>
+                <defs>
+                  <linearGradient id="equityFill" x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="0%" stopColor={lineColor} stopOpacity={0.3} />
+                    <stop offset="100%" stopColor={lineColor} stopOpacity={0} />
+                  </linearGradient>
+                </defs>
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickFormatter={formatTime}
+                  stroke="#6b7280"
+                  fontSize={12}
+                />
+                <YAxis
+                  domain={['auto', 'auto']}
+                  tickFormatter={(value: number) => `$${value.toFixed(0)}`}
+                  stroke="#6b7280"
+                  fontSize={12}
+                  width={60}
+                />
+                <Tooltip
+                  contentStyle={{ background: '#0a0015', border: '1px solid rgba(168, 85, 247, 0.3)' }}
+                  labelFormatter={(time: number) => new Date(time).toLocaleString()}
+                  formatter={(value: number) => [`$${value.toFixed(2)}`, 'Value']}
+                />
+                <Area type="monotone" dataKey="value" stroke={lineColor} strokeWidth={2} fill="url(#equityFill)" />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
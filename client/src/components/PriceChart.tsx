@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { sdk } from "@shared/sdk";
+import type { GetPriceCandlesResponse } from "@shared/api-client";
+
+type CandleInterval = GetPriceCandlesResponse['interval'];
+
+const INTERVALS: CandleInterval[] = ['1m', '5m', '1h', '1d'];
+
+// Token prices span many orders of magnitude (memecoins trade at fractions of a cent)
+function formatPrice(price: number): string {
+  if (price >= 1) return `$${price.toFixed(2)}`;
+  if (price >= 0.01) return `$${price.toFixed(4)}`;
+  return `$${price.toPrecision(3)}`;
+}
+
+/**
+ * Price history of a token from the persisted OHLC candles (tokens are tracked once held or traded)
+ */
+export function PriceChart({ mint, symbol }: { mint: string; symbol: string }) {
+  const [interval, setChartInterval] = useState<CandleInterval>('5m');
+
+  const { data, isLoading } = useQuery({
+    queryKey: [`/api/prices/${mint}/candles?interval=${interval}&limit=200`],
+    queryFn: () => sdk.api.getPriceCandles({ params: { mint }, query: { interval, limit: 200 } }),
+    enabled: mint.length >= 32,
+  });
+
+  const points = (data?.candles || []).map(candle => ({
+    time: new Date(candle.openTime).getTime(),
+    close: candle.close,
+  }));
+
+  const first = points[0]?.close ?? 0;
+  const last = points[points.length - 1]?.close ?? 0;
+  const lineColor = last >= first ? "#10b981" : "#ef4444";
+
+  const formatTime = (time: number) => interval === '1d'
+    ? new Date(time).toLocaleDateString([], { month: 'short', day: 'numeric' })
+    : new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="bg-purple-900/10 border border-purple-500/20 rounded-lg p-4 space-y-3" data-testid="price-chart">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-gray-400">
+          {symbol} Price {points.length > 0 && <span className="text-white font-medium ml-1">{formatPrice(last)}</span>}
+        </div>
+        <div className="flex gap-1">
+          {INTERVALS.map(option => (
+            <Button
+              key={option}
+              variant={option === interval ? "secondary" : "ghost"}
+              size="sm"
+              className="h-7 px-2"
+              onClick={() => setChartInterval(option)}
+              data-testid={`button-interval-${option}`}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="h-40 flex items-center justify-center text-gray-500 text-sm">Loading...</div>
+      ) : points.length < 2 ? (
+        <div className="h-40 flex items-center justify-center text-gray-500 text-sm">
+          No price history yet - tokens are tracked once held or traded
+        </div>
+      ) : (
+        <div className="h-40">
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={points}>
+              <defs>
+                <linearGradient id="priceFill" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="0%" stopColor={lineColor} stopOpacity={0.3} />
+                  <stop offset="100%" stopColor={lineColor} stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <XAxis
+                dataKey="time"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatTime}
+                stroke="#6b7280"
+                fontSize={11}
+              />
+              <YAxis domain={['auto', 'auto']} tickFormatter={formatPrice} stroke="#6b7280" fontSize={11} width={70} />
+              <Tooltip
+                contentStyle={{ background: '#0a0015', border: '1px solid rgba(168, 85, 247, 0.3)' }}
+                labelFormatter={(time: number) => new Date(time).toLocaleString()}
+                formatter={(value: number) => [formatPrice(value), 'Close']}
+              />
+              <Area type="monotone" dataKey="close" stroke={lineColor} strokeWidth={2} fill="url(#priceFill)" />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+}
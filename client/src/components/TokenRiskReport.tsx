@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { ShieldAlert, ShieldCheck, ShieldQuestion } from "lucide-react";
+import { sdk } from "@shared/sdk";
+import type { GetTokenRiskResponse } from "@shared/api-client";
+
+type RiskLevel = GetTokenRiskResponse['report']['level'];
+type RiskCheckStatus = GetTokenRiskResponse['report']['checks'][number]['status'];
+
+const LEVEL_STYLES: Record<RiskLevel, { label: string; className: string }> = {
+  low: { label: "Low risk", className: "text-green-400 border-green-500/30 bg-green-500/10" },
+  medium: { label: "Medium risk", className: "text-yellow-400 border-yellow-500/30 bg-yellow-500/10" },
+  high: { label: "High risk", className: "text-red-400 border-red-500/30 bg-red-500/10" },
+};
+
+const STATUS_COLORS: Record<RiskCheckStatus, string> = {
+  pass: "text-green-400",
+  warn: "text-yellow-400",
+  fail: "text-red-400",
+  unknown: "text-gray-500",
+};
+
+/**
+ * Token safety report (risk score and per-check findings) shown before a buy
+ */
+export function TokenRiskReport({ mint }: { mint: string }) {
+  const { data, isLoading, isError } = useQuery({
+    queryKey: [`/api/tokens/${mint}/risk`],
+    queryFn: () => sdk.api.getTokenRisk({ params: { mint } }),
+    enabled: mint.length >= 32,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const report = data?.report;
+
+  if (isLoading) {
+    return (
+      <div className="border border-purple-500/20 rounded-lg p-4 text-sm text-gray-500" data-testid="token-risk-loading">
+        Scanning token...
+      </div>
+    );
+  }
+
+  if (isError || !report) {
+    return (
+      <div className="border border-purple-500/20 rounded-lg p-4 text-sm text-gray-500 flex items-center gap-2" data-testid="token-risk-unavailable">
+        <ShieldQuestion className="w-4 h-4" />
+        Risk scan unavailable
+      </div>
+    );
+  }
+
+  const style = LEVEL_STYLES[report.level];
+  const Icon = report.level === 'low' ? ShieldCheck : ShieldAlert;
+
+  return (
+    <div className={`border rounded-lg p-4 space-y-2 ${style.className}`} data-testid="token-risk-report">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 font-medium">
+          <Icon className="w-4 h-4" />
+          {style.label}
+        </div>
+        <div className="text-sm" data-testid="text-risk-score">{report.score}/100</div>
+      </div>
+      <ul className="space-y-1 text-xs">
+        {report.checks.map(check => (
+          <li key={check.id} className="flex justify-between gap-4" data-testid={`risk-check-${check.id}`}>
+            <span className="text-gray-300">{check.detail}</span>
+            <span className={`uppercase ${STATUS_COLORS[check.status]}`}>{check.status}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
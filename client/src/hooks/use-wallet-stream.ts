@@ -0,0 +1,14 @@
+import { useEffect, useRef } from "react";
+import { subscribeWalletStream } from "@/lib/wallet-stream";
+import type { WalletStreamEvent } from "@shared/stream-events";
+
+/**
+ * Keep the page's queries live from the wallet stream while mounted
+ * (cache updates happen for every subscriber; onEvent is for page-specific reactions)
+ */
+export function useWalletStream(onEvent?: (event: WalletStreamEvent) => void) {
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => subscribeWalletStream((event) => onEventRef.current?.(event)), []);
+}
@@ -0,0 +1,182 @@
+import { queryClient } from "@/lib/queryClient";
+import { AnovexAuthError, AnovexNotFoundError, TRANSFER_TERMINAL_STATUSES } from "@shared/sdk";
+import type { GetWalletBalanceResponse } from "@shared/api-client";
+import {
+  applyPriceTicks,
+  WALLET_STREAM_EVENT_TYPES,
+  WALLET_STREAM_PATH,
+  type WalletStreamEvent
+} from "@shared/stream-events";
+
+/**
+ * Wallet stream client - one EventSource shared by every subscriber on the page
+ *
+ * The connection opens with the first subscriber and closes with the last. Every event
+ * first updates the react-query cache (so pages showing balances, transactions, deposit
+ * history, DCA schedules and charts stay current without polling), then reaches the subscribers.
+ * EventSource reconnects by itself; a 401 closes it for good (logged out).
+ */
+
+type StreamListener = (event: WalletStreamEvent) => void;
+
+const listeners = new Set<StreamListener>();
+let source: EventSource | null = null;
+let hasConnected = false;
+
+const CANDLE_REFRESH_MS = 60 * 1000; // Shortest candle interval
+
+// Queries keyed by URL with a query string (price candles, portfolio history)
+function invalidateMatchingQueries(pattern: RegExp, minAgeMs: number = 0) {
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const key = query.queryKey[0];
+      return typeof key === 'string'
+        && pattern.test(key)
+        && Date.now() - query.state.dataUpdatedAt >= minAgeMs;
+    }
+  });
+}
+
+function updateQueryCache(event: WalletStreamEvent) {
+  switch (event.type) {
+    case 'ready':
+      // Reconnected - catch up on whatever changed while disconnected
+      if (hasConnected) {
+        queryClient.invalidateQueries({ queryKey: ['/api/wallet/balance'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/explorer/transactions'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/deposit/history'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/dca'] });
+        invalidateMatchingQueries(/^\/api\/portfolio\/history\?/);
+      }
+      hasConnected = true;
+      break;
+    case 'balance':
+      queryClient.invalidateQueries({ queryKey: ['/api/wallet/balance'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/explorer/transactions'] });
+      break;
+    case 'prices':
+      queryClient.setQueryData<GetWalletBalanceResponse>(['/api/wallet/balance'], (balance) =>
+        balance ? applyPriceTicks(balance, event.data) : balance
+      );
+      // Candles close at most once a minute - ticks refresh open charts at that pace
+      invalidateMatchingQueries(/^\/api\/prices\/[^/]+\/candles\?/, CANDLE_REFRESH_MS);
+      break;
+    case 'swap':
+      queryClient.invalidateQueries({ queryKey: ['/api/explorer/transactions'] });
+      break;
+    case 'deposit':
+      queryClient.invalidateQueries({ queryKey: ['/api/deposit/history'] });
+      break;
+    case 'withdrawal':
+      break;
+    case 'dca':
+      queryClient.invalidateQueries({ queryKey: ['/api/dca'] });
+      break;
+    case 'portfolio':
+      invalidateMatchingQueries(/^\/api\/portfolio\/history\?/);
+      break;
+  }
+}
+
+function connect() {
+  const eventSource = new EventSource(WALLET_STREAM_PATH, { withCredentials: true });
+
+  for (const type of WALLET_STREAM_EVENT_TYPES) {
+    eventSource.addEventListener(type, (message) => {
+      const event = { type, data: JSON.parse((message as MessageEvent<string>).data) } as WalletStreamEvent;
+      updateQueryCache(event);
+      for (const listener of Array.from(listeners)) {
+        listener(event);
+      }
+    });
+  }
+
+  eventSource.onerror = () => {
+    if (eventSource.readyState === EventSource.CLOSED && source === eventSource) {
+      source = null; // Not reconnecting (401) - the next subscriber tries again
+      hasConnected = false;
+    }
+  };
+
+  source = eventSource;
+}
+
+/**
+ * Receive the active wallet's stream events
+ * @returns unsubscribe
+ */
+export function subscribeWalletStream(listener: StreamListener): () => void {
+  listeners.add(listener);
+  if (!source) {
+    connect();
+  }
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && source) {
+      source.close();
+      source = null;
+      hasConnected = false;
+    }
+  };
+}
+
+/**
+ * Follow a deposit or withdrawal until it settles: its status is fetched now, on every
+ * stream event for it and after reconnects (no interval polling)
+ * Failed fetches wait for the next event, except auth/not-found errors which reject
+ */
+export function waitForTransfer<T>(
+  kind: 'deposit' | 'withdrawal',
+  id: string,
+  options: {
+    load: () => Promise<T>;
+    getStatus: (value: T) => string;
+    signal: AbortSignal;
+    onUpdate?: (value: T) => void;
+  }
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    let done = false;
+
+    const finish = (settle: () => void) => {
+      done = true;
+      unsubscribe();
+      settle();
+    };
+
+    const refresh = async () => {
+      try {
+        const value = await options.load();
+        if (done || options.signal.aborted) return;
+
+        options.onUpdate?.(value);
+        if ((TRANSFER_TERMINAL_STATUSES as readonly string[]).includes(options.getStatus(value))) {
+          finish(() => resolve(value));
+        }
+      } catch (error) {
+        if (done || options.signal.aborted) return;
+
+        if (error instanceof AnovexAuthError || error instanceof AnovexNotFoundError) {
+          finish(() => reject(error));
+          return;
+        }
+        console.error(`Failed to refresh ${kind} ${id}:`, error);
+      }
+    };
+
+    const unsubscribe = subscribeWalletStream((event) => {
+      if (event.type === 'ready'
+        || (kind === 'deposit' && event.type === 'deposit' && event.data.depositId === id)
+        || (kind === 'withdrawal' && event.type === 'withdrawal' && event.data.withdrawalId === id)) {
+        refresh();
+      }
+    });
+
+    options.signal.addEventListener('abort', () => {
+      if (!done) finish(() => reject(options.signal.reason));
+    }, { once: true });
+
+    refresh();
+  });
+}
@@ -3,6 +3,19 @@ import { RiTwitterXFill } from "react-icons/ri";
 import { Link } from "wouter";
 import anovexLogo from "@assets/anovex-logo.png";
 
+const ENDPOINTS: { method: 'GET' | 'POST'; path: string; scope: string; description: string }[] = [
+  { method: 'GET', path: '/api/v1/portfolio', scope: 'read', description: 'Holdings, PnL summary and recent trades' },
+  { method: 'POST', path: '/api/v1/swap/quote', scope: 'read', description: 'Quote a buy or sell (tokenAddress, amount, type)' },
+  { method: 'POST', path: '/api/v1/swap', scope: 'trade', description: 'Execute a quoted swap' },
+  { method: 'GET', path: '/api/v1/deposits/:depositId', scope: 'read', description: 'Deposit status' },
+  { method: 'GET', path: '/api/v1/withdrawals/:withdrawId', scope: 'read', description: 'Withdrawal status' },
+  { method: 'POST', path: '/api/v1/withdrawals', scope: 'withdraw', description: 'Withdraw SOL to an external address' },
+  { method: 'GET', path: '/api/v1/explorer/transactions', scope: 'read', description: 'Recent network transactions' },
+  { method: 'GET', path: '/api/v1/explorer/stats', scope: 'read', description: 'Network statistics' },
+  { method: 'GET', path: '/api/v1/explorer/tx/:hash', scope: 'read', description: 'Transaction detail by ANX hash' },
+  { method: 'GET', path: '/api/v1/explorer/wallet/:anvAddress', scope: 'read', description: 'Transaction history of an ANV address' },
+];
+
 export default function Api() {
   return (
     <div className="min-h-screen bg-bg-1 relative">
@@ -71,10 +84,24 @@ export default function Api() {
             <div className="glassmorphism p-8 rounded-lg space-y-6 border border-primary/20">
               <div className="flex items-center gap-3">
                 <Code className="w-6 h-6 text-primary" />
-                <h2 className="text-2xl font-semibold text-white">Coming Soon</h2>
+                <h2 className="text-2xl font-semibold text-white">Getting Started</h2>
               </div>
               <p className="text-muted-foreground">
-                The Anovex API is currently in development. We're building a comprehensive REST API that will allow developers to integrate anonymous trading capabilities into their own applications.
+                Create an API key under Settings → API Keys. Each key gets a key and a signing secret, shown once. Every key can read; trading and withdrawals must be granted when the key is created.
+              </p>
+              <p className="text-muted-foreground">
+                Sign every request with HMAC-SHA256 over the canonical request below, using the signing secret. Nonces are single-use and timestamps must be within 5 minutes of server time.
+              </p>
+              <pre className="bg-black/40 rounded-md p-4 text-xs text-muted-foreground overflow-x-auto" data-testid="text-signing-example">
+{`X-Api-Key:       anv_1a2b3c4d_...
+X-Api-Timestamp: 1715346000000          (Unix ms)
+X-Api-Nonce:     9f2c4e7a1b3d5f60       (16-64 chars, unique per key)
+X-Api-Signature: hex(HMAC-SHA256(secret,
+  timestamp + "\n" + nonce + "\n" + METHOD + "\n" +
+  path_with_query + "\n" + hex(SHA-256(raw_body))))`}
+              </pre>
+              <p className="text-muted-foreground">
+                Responses use a versioned envelope: <code className="text-white">{`{ apiVersion, success, data, error }`}</code>. Keys are limited to 60 requests per minute by default.
               </p>
             </div>
 
@@ -87,7 +114,7 @@ export default function Api() {
                   <div className="space-y-2 flex-1">
                     <h3 className="text-xl font-semibold text-white">API Key Authentication</h3>
                     <p className="text-muted-foreground">
-                      Secure your API access with key-based authentication. Generate, rotate, and manage API keys through your dashboard. Rate limiting and usage monitoring included.
+                      Scoped keys (read, trade, withdraw) managed from your dashboard. Keys are hashed at rest, every request is HMAC-signed with a single-use nonce, and each key has its own rate limit.
                     </p>
                   </div>
                 </div>
@@ -109,54 +136,27 @@ export default function Api() {
             </div>
 
             <div className="glassmorphism p-8 rounded-lg space-y-6">
-              <h2 className="text-2xl font-semibold text-white">Planned Endpoints</h2>
+              <h2 className="text-2xl font-semibold text-white">Endpoints</h2>
               <div className="space-y-4 font-mono text-sm">
-                <div className="space-y-2">
-                  <div className="flex items-center gap-3">
-                    <span className="px-2 py-1 bg-green-500/20 text-green-400 rounded text-xs font-medium">POST</span>
-                    <span className="text-muted-foreground">/api/v1/wallets/create</span>
-                  </div>
-                  <p className="text-muted-foreground text-xs pl-14">Create a new anonymous ANV wallet</p>
-                </div>
-                
-                <div className="space-y-2">
-                  <div className="flex items-center gap-3">
-                    <span className="px-2 py-1 bg-blue-500/20 text-blue-400 rounded text-xs font-medium">GET</span>
-                    <span className="text-muted-foreground">/api/v1/wallets/:address/balance</span>
+                {ENDPOINTS.map((endpoint) => (
+                  <div key={`${endpoint.method} ${endpoint.path}`} className="space-y-2">
+                    <div className="flex items-center gap-3">
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${endpoint.method === 'GET' ? 'bg-blue-500/20 text-blue-400' : 'bg-green-500/20 text-green-400'}`}>
+                        {endpoint.method}
+                      </span>
+                      <span className="text-muted-foreground">{endpoint.path}</span>
+                      <span className="text-xs text-primary">{endpoint.scope}</span>
+                    </div>
+                    <p className="text-muted-foreground text-xs pl-14">{endpoint.description}</p>
                   </div>
-                  <p className="text-muted-foreground text-xs pl-14">Get wallet balance and holdings</p>
-                </div>
-                
-                <div className="space-y-2">
-                  <div className="flex items-center gap-3">
-                    <span className="px-2 py-1 bg-green-500/20 text-green-400 rounded text-xs font-medium">POST</span>
-                    <span className="text-muted-foreground">/api/v1/swap</span>
-                  </div>
-                  <p className="text-muted-foreground text-xs pl-14">Execute anonymous token swap</p>
-                </div>
-                
-                <div className="space-y-2">
-                  <div className="flex items-center gap-3">
-                    <span className="px-2 py-1 bg-blue-500/20 text-blue-400 rounded text-xs font-medium">GET</span>
-                    <span className="text-muted-foreground">/api/v1/transactions/:id</span>
-                  </div>
-                  <p className="text-muted-foreground text-xs pl-14">Get transaction status and details</p>
-                </div>
-                
-                <div className="space-y-2">
-                  <div className="flex items-center gap-3">
-                    <span className="px-2 py-1 bg-blue-500/20 text-blue-400 rounded text-xs font-medium">GET</span>
-                    <span className="text-muted-foreground">/api/v1/tokens/:address/price</span>
-                  </div>
-                  <p className="text-muted-foreground text-xs pl-14">Get real-time token price data</p>
-                </div>
+                ))}
               </div>
             </div>
 
             <div className="glassmorphism p-8 rounded-lg space-y-4">
               <h3 className="text-xl font-semibold text-white">Stay Updated</h3>
               <p className="text-muted-foreground">
-                Join our GitHub to get notified when the API launches. We'll release comprehensive documentation, SDKs for popular languages, and example applications to help you get started.
+                Follow our GitHub for API changes, SDKs and example applications. Breaking changes will ship under a new version prefix; /api/v1 stays stable.
               </p>
               <a 
                 href="https://github.com/anovexdev"
@@ -172,7 +172,7 @@ export default function Api() {
 
             <div className="text-center pt-8">
               <p className="text-sm text-muted-foreground">
-                For early API access inquiries, contact us on Telegram.
+                For API questions, contact us on Telegram.
               </p>
             </div>
           </div>
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { Copy, Download, Eye, EyeOff } from "lucide-react";
+import { sdk } from "@shared/sdk";
 import anovexLogo from "@assets/file_00000000967071fa82ee6d0e14c9e5cc_1763224947806.png";
 
 export default function CreateWallet() {
@@ -17,16 +18,7 @@ export default function CreateWallet() {
   const handleCreateWallet = async () => {
     setIsCreating(true);
     try {
-      const response = await fetch('/api/wallet/create', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to create wallet');
-      }
-
-      const data = await response.json();
+      const data = await sdk.wallet.create();
       setPrivateKey(data.privateKey);
       
       toast({
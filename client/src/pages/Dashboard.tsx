@@ -7,64 +7,39 @@ import { Link, useLocation } from "wouter";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import DashboardLayout from "@/components/DashboardLayout";
-
-interface TokenHolding {
-  mint: string;
-  symbol: string;
-  amount: string;
-  priceUsd: string;
-  totalUsd: string;
-}
-
-interface BalanceResponse {
-  sol: {
-    amount: string;
-    priceUsd: string;
-    totalUsd: string;
-  };
-  tokens: TokenHolding[];
-  totalUsd: string;
-}
-
-interface Transaction {
-  txhash: string;
-  type: string;
-  tokenSymbol: string;
-  amount: string;
-  priceUsd: string;
-  timestamp: string;
-  status: string;
-}
-
-interface WalletAddressResponse {
-  success: boolean;
-  address: string;
-  walletId: string;
-}
+import { DcaSchedules } from "@/components/DcaSchedules";
+import { EquityCurve } from "@/components/EquityCurve";
+import { useWalletStream } from "@/hooks/use-wallet-stream";
+import { sdk } from "@shared/sdk";
 
 export default function Dashboard() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [copied, setCopied] = useState(false);
   
-  const { data: balance, isLoading, error } = useQuery<BalanceResponse>({
+  const { data: balance, isLoading, error } = useQuery({
     queryKey: ['/api/wallet/balance'],
+    queryFn: () => sdk.wallet.balance(),
   });
 
-  const { data: walletAddress } = useQuery<WalletAddressResponse>({
+  const { data: walletAddress } = useQuery({
     queryKey: ['/api/wallet/address'],
+    queryFn: () => sdk.wallet.address(),
   });
 
-  const { data: transactionsData } = useQuery<{ success: boolean; transactions: Transaction[] }>({
+  const { data: transactionsData } = useQuery({
     queryKey: ['/api/explorer/transactions'],
-    refetchInterval: 5000, // Auto-refresh every 5 seconds
+    queryFn: () => sdk.explorer.transactions(),
   });
 
-  const { data: depositHistoryData } = useQuery<{ success: boolean; deposits: any[] }>({
+  const { data: depositHistoryData } = useQuery({
     queryKey: ['/api/deposit/history'],
-    refetchInterval: 5000, // Auto-refresh every 5 seconds
+    queryFn: () => sdk.deposit.history(),
   });
 
+  // Balance, transactions and deposit history refresh when the wallet stream reports a change
+  useWalletStream();
+
   const recentDeposits = depositHistoryData?.deposits?.slice(0, 3) || [];
   const recentTransactions = transactionsData?.transactions?.slice(0, 5) || [];
   
@@ -79,6 +54,8 @@ export default function Dashboard() {
       case 'refunded':
       case 'expired':
         return <Badge className="bg-red-600 text-white"><XCircle className="w-3 h-3 mr-1" />Failed</Badge>;
+      case 'dead_letter':
+        return <Badge className="bg-orange-600 text-white"><Clock className="w-3 h-3 mr-1" />Under Review</Badge>;
       default:
         return <Badge variant="secondary">{status}</Badge>;
     }
@@ -300,6 +277,9 @@ export default function Dashboard() {
           </CardContent>
         </Card>
 
+        {/* Equity Curve */}
+        <EquityCurve />
+
         {/* Quick Actions */}
         <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6">
           <Link href="/deposit">
@@ -455,6 +435,10 @@ export default function Dashboard() {
                         <p className="text-red-400 text-sm">
                           {deposit.status}
                         </p>
+                      ) : deposit.status === 'dead_letter' ? (
+                        <p className="text-orange-400 text-sm">
+                          Under Review
+                        </p>
                       ) : (
                         <p className="text-gray-400 text-sm">
                           In Progress
@@ -468,6 +452,9 @@ export default function Dashboard() {
           </Card>
         )}
 
+        {/* Recurring Buys */}
+        <DcaSchedules />
+
         {/* Recent Activity */}
         <Card className="border-purple-500/20 bg-black/80 backdrop-blur-xl" data-testid="card-recent-activity">
           <CardHeader>
@@ -522,7 +509,7 @@ export default function Dashboard() {
                         {parseFloat(tx.amount).toFixed(4)} {tx.tokenSymbol || 'SOL'}
                       </p>
                       <p className="text-xs text-gray-500">
-                        ${parseFloat(tx.priceUsd).toFixed(2)}
+                        ${parseFloat(tx.usdValue).toFixed(2)}
                       </p>
                     </div>
                   </div>
@@ -3,45 +3,25 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { waitForTransfer } from "@/lib/wallet-stream";
 import { ArrowLeft, TrendingUp, Copy, CheckCircle2, Clock } from "lucide-react";
 import { Link } from "wouter";
 import DashboardLayout from "@/components/DashboardLayout";
+import { BridgeEstimate } from "@/components/BridgeEstimate";
+import { sdk, AnovexAuthError } from "@shared/sdk";
+import type { GetDepositStatusResponse, InitiateDepositResponse } from "@shared/api-client";
 
-interface DepositResponse {
-  success: boolean;
-  deposit?: {
-    id: number;
-    status: string;
-    usdAmount: string;
-    solAmount: string;
-    step1DepositAddress: string;
-    step1ExchangeId: string;
-  };
-  error?: string;
-}
-
-interface DepositStatusResponse {
-  success: boolean;
-  depositId: number;
-  status: string;
-  solAmount: string;
-  solReceived: string | null;
-  technicalSteps: Array<{
-    step: number;
-    status: string;
-    label: string;
-    description: string;
-  }>;
-}
+// Deposits resumed from the history have no USD quote
+type ActiveDeposit = Omit<InitiateDepositResponse['deposit'], 'technicalSteps' | 'usdAmount'> & { usdAmount?: string };
 
 export default function Deposit() {
   const { toast } = useToast();
   const [amount, setAmount] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
-  const [depositData, setDepositData] = useState<DepositResponse['deposit'] | null>(null);
+  const [depositData, setDepositData] = useState<ActiveDeposit | null>(null);
   const [depositStatus, setDepositStatus] = useState<string | null>(null);
-  const [technicalSteps, setTechnicalSteps] = useState<DepositStatusResponse['technicalSteps'] | null>(null);
+  const [technicalSteps, setTechnicalSteps] = useState<GetDepositStatusResponse['technicalSteps'] | null>(null);
   const [copied, setCopied] = useState(false);
   const hasShownToastRef = useRef(false);
   const [isLoadingActiveDeposit, setIsLoadingActiveDeposit] = useState(true);
@@ -49,25 +29,18 @@ export default function Deposit() {
   useEffect(() => {
     const loadActiveDeposit = async () => {
       try {
-        const res = await fetch('/api/deposit/history', { credentials: 'include' });
-        if (!res.ok) {
-          setIsLoadingActiveDeposit(false);
-          return;
-        }
-        
-        const data = await res.json();
-        if (data.success && data.deposits && data.deposits.length > 0) {
-          const terminalStates = ['finished', 'failed', 'refunded', 'expired'];
-          const activeDeposit = data.deposits.find((d: any) => !terminalStates.includes(d.status));
+        const data = await sdk.deposit.history();
+        if (data.deposits.length > 0) {
+          const terminalStates = ['finished', 'failed', 'refunded', 'expired', 'dead_letter'];
+          const activeDeposit = data.deposits.find(d => !terminalStates.includes(d.status));
           
           if (activeDeposit) {
             setDepositData({
               id: activeDeposit.id,
               status: activeDeposit.status,
-              usdAmount: activeDeposit.usdAmount,
-              solAmount: activeDeposit.solAmount,
-              step1DepositAddress: activeDeposit.step1DepositAddress,
-              step1ExchangeId: activeDeposit.step1ExchangeId,
+              solAmount: activeDeposit.solAmount ?? '',
+              step1DepositAddress: activeDeposit.step1DepositAddress ?? '',
+              step1ExchangeId: activeDeposit.step1ExchangeId ?? '',
             });
             setDepositStatus(activeDeposit.status);
           }
@@ -99,19 +72,14 @@ export default function Deposit() {
     hasShownToastRef.current = false; // Reset toast guard for new deposit
     
     try {
-      const res = await apiRequest('POST', '/api/deposit/initiate', { solAmount: trimmedAmount });
-      const response = await res.json() as DepositResponse;
+      const response = await sdk.deposit.initiate(trimmedAmount);
 
-      if (response.success && response.deposit) {
-        setDepositData(response.deposit);
-        setDepositStatus(response.deposit.status);
-        toast({
-          title: "Funding Address Created",
-          description: "Send SOL to the address below to fund your wallet",
-        });
-      } else {
-        throw new Error(response.error || "Failed to create deposit");
-      }
+      setDepositData(response.deposit);
+      setDepositStatus(response.deposit.status);
+      toast({
+        title: "Funding Address Created",
+        description: "Send SOL to the address below to fund your wallet",
+      });
     } catch (error: any) {
       toast({
         title: "Error",
@@ -136,21 +104,51 @@ export default function Deposit() {
   };
 
   useEffect(() => {
-    const terminalStates = ['finished', 'failed', 'refunded', 'expired'];
-    if (!depositData || !depositStatus || terminalStates.includes(depositStatus)) {
+    const terminalStates = ['finished', 'failed', 'refunded', 'expired', 'dead_letter'];
+    if (!depositData || terminalStates.includes(depositData.status)) {
       return;
     }
 
-    let aborted = false;
-    
-    const interval = setInterval(async () => {
-      if (aborted) return;
+    const controller = new AbortController();
 
-      try {
-        const url = `/api/deposit/status/${depositData.id}`;
-        const res = await fetch(url, { credentials: 'include' });
-        
-        if (res.status === 401) {
+    waitForTransfer('deposit', depositData.id, {
+      load: () => sdk.deposit.status(depositData.id),
+      getStatus: (response) => response.status,
+      signal: controller.signal,
+      onUpdate: (response) => {
+        setDepositStatus(response.status);
+        setTechnicalSteps(response.technicalSteps || null);
+      },
+    })
+      .then((response) => {
+        if (hasShownToastRef.current) return;
+        hasShownToastRef.current = true;
+
+        if (response.status === 'finished') {
+          queryClient.invalidateQueries({ queryKey: ['/api/wallet/balance'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/explorer/transactions'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/deposit/history'] });
+          toast({
+            title: "Privacy Protocol Complete!",
+            description: `${response.solReceived || response.solAmount} SOL anonymously credited to your vault`,
+          });
+        } else if (response.status === 'dead_letter') {
+          toast({
+            title: "Deposit Under Review",
+            description: "Your deposit needs manual review. Our team will resolve it - no action is needed.",
+          });
+        } else {
+          toast({
+            title: "Transaction Failed",
+            description: "Privacy relay network encountered an error. Please try again.",
+            variant: "destructive",
+          });
+        }
+      })
+      .catch((error) => {
+        if (controller.signal.aborted) return;
+
+        if (error instanceof AnovexAuthError) {
           if (!hasShownToastRef.current) {
             hasShownToastRef.current = true;
             toast({
@@ -161,50 +159,11 @@ export default function Deposit() {
           }
           return;
         }
-        
-        if (!res.ok) {
-          throw new Error(`Status check failed: ${res.status}`);
-        }
-        
-        const response = await res.json() as DepositStatusResponse;
-
-        if (aborted) return;
-
-        if (response.success) {
-          const newStatus = response.status;
-          setDepositStatus(newStatus);
-          setTechnicalSteps(response.technicalSteps || null);
-          
-          if (newStatus === 'finished' && !hasShownToastRef.current) {
-            hasShownToastRef.current = true;
-            queryClient.invalidateQueries({ queryKey: ['/api/wallet/balance'] });
-            queryClient.invalidateQueries({ queryKey: ['/api/explorer/transactions'] });
-            queryClient.invalidateQueries({ queryKey: ['/api/deposit/history'] });
-            toast({
-              title: "Privacy Protocol Complete!",
-              description: `${response.solReceived || response.solAmount} SOL anonymously credited to your vault`,
-            });
-          } else if ((newStatus === 'failed' || newStatus === 'refunded' || newStatus === 'expired') && !hasShownToastRef.current) {
-            hasShownToastRef.current = true;
-            toast({
-              title: "Transaction Failed",
-              description: "Privacy relay network encountered an error. Please try again.",
-              variant: "destructive",
-            });
-          }
-        }
-      } catch (error: any) {
-        if (!aborted) {
-          console.error("Status check error:", error);
-        }
-      }
-    }, 5000);
+        console.error("Status check error:", error);
+      });
 
-    return () => {
-      aborted = true;
-      clearInterval(interval);
-    };
-  }, [depositData, depositStatus, toast]);
+    return () => controller.abort();
+  }, [depositData, toast]);
 
   return (
     <DashboardLayout>
@@ -257,6 +216,8 @@ export default function Deposit() {
                   </p>
                 </div>
 
+                <BridgeEstimate kind="deposit" amount={amount} />
+
                 <Button
                   onClick={handleDeposit}
                   disabled={isProcessing || !amount.trim() || isNaN(parseFloat(amount.trim())) || parseFloat(amount.trim()) < 0.05}
@@ -312,7 +273,9 @@ export default function Deposit() {
                   <div className="space-y-2">
                     <div className="text-sm text-gray-400">
                       Amount: <span className="text-white font-semibold">{depositData.solAmount} SOL</span>
-                      <span className="text-gray-500 ml-2">(≈ ${depositData.usdAmount} USD)</span>
+                      {depositData.usdAmount && (
+                        <span className="text-gray-500 ml-2">(≈ ${depositData.usdAmount} USD)</span>
+                      )}
                     </div>
                     <a
                       href={`https://solscan.io/account/${depositData.step1DepositAddress}`}
@@ -390,7 +353,7 @@ export default function Deposit() {
                 </div>
 
                 <div className="flex gap-2">
-                  {depositStatus === 'finished' || depositStatus === 'failed' || depositStatus === 'refunded' || depositStatus === 'expired' ? (
+                  {depositStatus === 'finished' || depositStatus === 'failed' || depositStatus === 'refunded' || depositStatus === 'expired' || depositStatus === 'dead_letter' ? (
                     <Button
                       onClick={() => {
                         setDepositData(null);
@@ -8,49 +8,9 @@ import { Link } from "wouter";
 import { useExplorerPaths } from "@/hooks/use-explorer-paths";
 import { useToast } from "@/hooks/use-toast";
 import { StatCard } from "@/components/StatCard";
+import { sdk } from "@shared/sdk";
 import anovexLogo from "@assets/file_00000000967071fa82ee6d0e14c9e5cc_1763224947806.png";
 
-interface Transaction {
-  txhash: string;
-  category: string;
-  type: string;
-  tokenSymbol: string;
-  amount: string;
-  usdValue: string;
-  solValue: string;
-  status: string;
-  timestamp: string;
-  wallet: string;
-  blockNumber: string;
-  instructions: string;
-}
-
-interface ExplorerResponse {
-  success: boolean;
-  transactions: Transaction[];
-  pagination: {
-    page: number;
-    limit: number;
-    totalCount: number;
-    totalPages: number;
-  };
-}
-
-interface StatsResponse {
-  success: boolean;
-  stats: {
-    totalTransactions: number;
-    completedTransactions: number;
-    uniqueWallets: number;
-    allTimeVolume: string;
-    volume24h: string;
-    avgTransactionValue: string;
-    transactions24h: number;
-    networkStatus: "Online" | "Offline";
-    networkActivity: number;
-  };
-}
-
 export default function ExplorerHome() {
   const [page, setPage] = useState(1);
   const [copiedHash, setCopiedHash] = useState<string | null>(null);
@@ -65,17 +25,9 @@ export default function ExplorerHome() {
   };
 
   // Fetch statistics
-  const { data: statsData, error: statsError } = useQuery<StatsResponse>({
+  const { data: statsData, error: statsError } = useQuery({
     queryKey: ["/api/explorer/stats"],
-    queryFn: async () => {
-      const res = await fetch("/api/explorer/stats", {
-        credentials: "include",
-      });
-      if (!res.ok) {
-        throw new Error(`Failed to fetch stats: ${res.statusText}`);
-      }
-      return res.json();
-    },
+    queryFn: () => sdk.explorer.stats(),
     refetchInterval: 10000, // Refresh every 10 seconds
   });
 
@@ -97,21 +49,9 @@ export default function ExplorerHome() {
   };
 
   // Fetch transactions with 10 items per page
-  const { data, isLoading } = useQuery<ExplorerResponse>({
+  const { data, isLoading } = useQuery({
     queryKey: ["/api/explorer/transactions", page],
-    queryFn: async () => {
-      const params = new URLSearchParams({
-        page: page.toString(),
-        limit: "10",
-      });
-      const res = await fetch(`/api/explorer/transactions?${params}`, {
-        credentials: "include",
-      });
-      if (!res.ok) {
-        throw new Error(`Failed to fetch transactions: ${res.statusText}`);
-      }
-      return res.json();
-    },
+    queryFn: () => sdk.explorer.transactions({ page, limit: 10 }),
   });
 
   const transactions = data?.transactions || [];
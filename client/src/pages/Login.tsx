@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { Shield } from "lucide-react";
+import { sdk } from "@shared/sdk";
 import anovexLogo from "@assets/file_00000000967071fa82ee6d0e14c9e5cc_1763224947806.png";
 
 export default function Login() {
@@ -16,18 +17,13 @@ export default function Login() {
 
   // Check if already authenticated on mount
   useEffect(() => {
-    fetch('/api/wallet/balance', { credentials: 'include' })
-      .then(res => {
-        if (res.ok) {
-          // Already authenticated, redirect to dashboard
-          setLocation('/dashboard');
-        } else {
-          // Not authenticated, stay on login page
-          setIsCheckingAuth(false);
-        }
+    sdk.wallet.balance()
+      .then(() => {
+        // Already authenticated, redirect to dashboard
+        setLocation('/dashboard');
       })
       .catch(() => {
-        // Error checking auth, stay on login page
+        // Not authenticated (or error checking auth), stay on login page
         setIsCheckingAuth(false);
       });
   }, [setLocation]);
@@ -64,19 +60,8 @@ export default function Login() {
         return;
       }
 
-      // Login request (MUST include credentials for session cookie!)
-      const response = await fetch('/api/wallet/login', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ privateKey }),
-        credentials: 'include', // CRITICAL: Required to save/send session cookies!
-      });
-
-      if (!response.ok) {
-        throw new Error('Invalid private key');
-      }
-
-      const data = await response.json();
+      // Login request (the client sends credentials, required for the session cookie)
+      await sdk.wallet.login(privateKey);
       
       // Redirect to dashboard without toast (silent login)
       setLocation('/dashboard');
@@ -5,7 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Label } from "@/components/ui/label";
 import { Coins, TrendingUp, Sparkles, Calculator, Wallet } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { sdk } from "@shared/sdk";
 
 interface RewardsData {
   anvTokenBalance: string;
@@ -142,27 +142,20 @@ export default function Points() {
     setErrorMessage(null);
     
     try {
-      const response = await apiRequest("POST", "/api/panv/calculate-rewards", {
-        solAddress,
-        anvWalletAddress
-      });
-
-      const result = await response.json();
+      const result = await sdk.api.calculatePanvRewards({ body: { solAddress, anvWalletAddress } });
 
-      if (result.success) {
-        if (result.eligible) {
-          setRewardsData(result.data);
-          setIsEligible(true);
-          toast({
-            title: "Rewards Calculated!",
-            description: `You've earned ${parseFloat(result.data.totalPanvEarned).toFixed(2)} pANV`
-          });
-        } else {
-          setIsEligible(false);
-          setErrorMessage(result.message || "Not eligible for pANV rewards");
-        }
+      if (result.eligible) {
+        // Eligible results carry the full calculation
+        const rewards = result.data as RewardsData;
+        setRewardsData(rewards);
+        setIsEligible(true);
+        toast({
+          title: "Rewards Calculated!",
+          description: `You've earned ${parseFloat(rewards.totalPanvEarned).toFixed(2)} pANV`
+        });
       } else {
-        throw new Error(result.error || "Failed to calculate rewards");
+        setIsEligible(false);
+        setErrorMessage(result.message || "Not eligible for pANV rewards");
       }
     } catch (error: any) {
       toast({
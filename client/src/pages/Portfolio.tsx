@@ -5,47 +5,12 @@ import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
 import DashboardLayout from "@/components/DashboardLayout";
-
-interface PortfolioSummary {
-  totalPnl: string;
-  unrealizedPnl: string;
-  realizedPnl: string;
-  totalTrades: number;
-  winRate: string;
-  totalValue: string;
-}
-
-interface Holding {
-  mint: string;
-  symbol: string;
-  amount: string;
-  entryPrice: string;
-  currentPrice: string;
-  costBasis: string;
-  currentValue: string;
-  unrealizedPnl: string;
-  pnlPercent: string;
-}
-
-interface Trade {
-  txhash: string;
-  type: string;
-  tokenSymbol: string;
-  amount: string;
-  priceUsd: string;
-  timestamp: string;
-}
-
-interface PortfolioData {
-  success: boolean;
-  summary: PortfolioSummary;
-  holdings: Holding[];
-  recentTrades: Trade[];
-}
+import { sdk } from "@shared/sdk";
 
 export default function Portfolio() {
-  const { data, isLoading } = useQuery<PortfolioData>({
+  const { data, isLoading } = useQuery({
     queryKey: ['/api/portfolio'],
+    queryFn: () => sdk.portfolio.get(),
     refetchInterval: 10000
   });
 
@@ -91,6 +56,11 @@ export default function Portfolio() {
                   ${summary?.totalPnl || "0.00"}
                 </div>
               )}
+              {!!summary?.uncertainPrices && (
+                <div className="text-xs text-yellow-400 mt-2" data-testid="text-uncertain-prices">
+                  {summary.uncertainPrices} price{summary.uncertainPrices === 1 ? '' : 's'} uncertain - using last confident price
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -156,12 +126,25 @@ export default function Portfolio() {
                         </td>
                         <td className="text-right py-3 px-4 text-white">{parseFloat(holding.amount).toFixed(4)}</td>
                         <td className="text-right py-3 px-4 text-gray-400">${parseFloat(holding.entryPrice).toFixed(6)}</td>
-                        <td className="text-right py-3 px-4 text-white">${parseFloat(holding.currentPrice).toFixed(6)}</td>
-                        <td className="text-right py-3 px-4 text-white">${holding.currentValue}</td>
-                        <td className={`text-right py-3 px-4 font-medium ${pnlColor(holding.unrealizedPnl)}`}>
-                          <div>{parseFloat(holding.unrealizedPnl) >= 0 ? '+' : ''}${holding.unrealizedPnl}</div>
-                          <div className="text-xs">({parseFloat(holding.pnlPercent) >= 0 ? '+' : ''}{holding.pnlPercent}%)</div>
+                        <td className="text-right py-3 px-4 text-white">
+                          {holding.priceUncertain ? (
+                            <>
+                              <div className="text-gray-500">${parseFloat(holding.currentPrice).toFixed(6)}</div>
+                              <div className="text-xs text-yellow-400" data-testid={`text-price-uncertain-${holding.symbol}`}>Price uncertain</div>
+                            </>
+                          ) : (
+                            <>${parseFloat(holding.currentPrice).toFixed(6)}</>
+                          )}
                         </td>
+                        <td className="text-right py-3 px-4 text-white">${holding.currentValue}</td>
+                        {holding.priceUncertain ? (
+                          <td className="text-right py-3 px-4 text-gray-500">—</td>
+                        ) : (
+                          <td className={`text-right py-3 px-4 font-medium ${pnlColor(holding.unrealizedPnl)}`}>
+                            <div>{parseFloat(holding.unrealizedPnl) >= 0 ? '+' : ''}${holding.unrealizedPnl}</div>
+                            <div className="text-xs">({parseFloat(holding.pnlPercent) >= 0 ? '+' : ''}{holding.pnlPercent}%)</div>
+                          </td>
+                        )}
                       </tr>
                     ))}
                   </tbody>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,6 +6,14 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import { 
@@ -18,17 +26,41 @@ import {
   Eye,
   EyeOff,
   AlertTriangle,
-  CheckCircle2
+  CheckCircle2,
+  SlidersHorizontal,
+  Bell,
+  Receipt,
+  X
 } from "lucide-react";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
 import DashboardLayout from "@/components/DashboardLayout";
+import { ApiKeys } from "@/components/ApiKeys";
+import { sdk } from "@shared/sdk";
+import type { CreateAlertBody, GetTradingSettingsResponse, ListAlertsResponse } from "@shared/api-client";
 
-interface WalletInfo {
-  id: string;
-  walletAddress: string;
-  isActive: boolean;
-  walletName: string | null;
-  createdAt: string;
+type TradingSettings = GetTradingSettingsResponse['settings'];
+
+type AlertKind = CreateAlertBody['kind'];
+
+const ALERT_KIND_LABELS: Record<AlertKind, string> = {
+  price_above: "Price above (USD)",
+  price_below: "Price below (USD)",
+  position_pnl: "Position PnL crosses (%)",
+  portfolio_below: "Portfolio value below (USD)",
+};
+
+function describeAlert(alert: ListAlertsResponse['alerts'][number]): string {
+  const threshold = parseFloat(alert.threshold);
+  switch (alert.kind) {
+    case 'price_above':
+      return `${alert.tokenSymbol} above $${threshold}`;
+    case 'price_below':
+      return `${alert.tokenSymbol} below $${threshold}`;
+    case 'position_pnl':
+      return `${alert.tokenSymbol} PnL ${threshold > 0 ? '+' : ''}${threshold}%`;
+    case 'portfolio_below':
+      return `Portfolio below $${threshold}`;
+  }
 }
 
 export default function Settings() {
@@ -45,9 +77,62 @@ export default function Settings() {
   // Import Wallet states
   const [importKey, setImportKey] = useState("");
   
+  // Trading Settings states
+  const [slippagePct, setSlippagePct] = useState("");
+  const [maxPriceImpact, setMaxPriceImpact] = useState("");
+  const [priorityFeeTier, setPriorityFeeTier] = useState<TradingSettings['priorityFeeTier']>('auto');
+  const [antiMev, setAntiMev] = useState(true);
+  const [blockHighRiskBuys, setBlockHighRiskBuys] = useState(false);
+
+  // Tax reporting state
+  const [taxYear, setTaxYear] = useState(new Date().getUTCFullYear().toString());
+  
+  // Alerts states
+  const [alertKind, setAlertKind] = useState<AlertKind>('price_above');
+  const [alertMint, setAlertMint] = useState("");
+  const [alertThreshold, setAlertThreshold] = useState("");
+  const [alertCooldown, setAlertCooldown] = useState("60");
+  
+  // Fetch trading settings
+  const { data: tradingData } = useQuery({
+    queryKey: ['/api/settings/trading'],
+    queryFn: () => sdk.api.getTradingSettings(),
+  });
+
+  useEffect(() => {
+    if (tradingData?.settings) {
+      setSlippagePct((tradingData.settings.slippageBps / 100).toString());
+      setMaxPriceImpact(parseFloat(tradingData.settings.maxPriceImpactPct).toString());
+      setPriorityFeeTier(tradingData.settings.priorityFeeTier);
+      setAntiMev(tradingData.settings.antiMev);
+      setBlockHighRiskBuys(tradingData.settings.blockHighRiskBuys);
+    }
+  }, [tradingData]);
+
+  // Fetch realized gains for the selected tax year
+  const { data: taxSummaryData } = useQuery({
+    queryKey: [`/api/tax/summary?year=${taxYear}`],
+    queryFn: () => sdk.api.getRealizedGains({ query: { year: Number(taxYear) } }),
+  });
+
+  // Fetch alerts and their delivery log
+  const { data: alertsData } = useQuery({
+    queryKey: ['/api/alerts?status=active'],
+    queryFn: () => sdk.api.listAlerts({ query: { status: 'active' } }),
+  });
+
+  const { data: deliveriesData } = useQuery({
+    queryKey: ['/api/alerts/deliveries'],
+    queryFn: () => sdk.api.listAlertDeliveries(),
+  });
+
+  const activeAlerts = alertsData?.alerts || [];
+  const deliveries = deliveriesData?.deliveries || [];
+
   // Fetch all wallets
-  const { data: walletsData, isLoading } = useQuery<{ success: boolean; wallets: WalletInfo[] }>({
+  const { data: walletsData, isLoading } = useQuery({
     queryKey: ['/api/wallet/list'],
+    queryFn: () => sdk.wallet.list(),
   });
 
   const wallets = walletsData?.wallets || [];
@@ -55,23 +140,17 @@ export default function Settings() {
 
   // Export Private Key mutation
   const exportKeyMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest('GET', '/api/wallet/export-key');
-      const data = await res.json();
-      return data;
-    },
+    mutationFn: () => sdk.wallet.exportKey(),
     onSuccess: (data) => {
-      if (data.success) {
-        setRevealedKey(data.privateKey);
-        setShowExportWarning(false);
-        
-        // Auto-hide after 30 seconds
-        setTimeout(() => {
-          setRevealedKey(null);
-          setKeyVisible(false);
-          setAcceptedRisks(false);
-        }, 30000);
-      }
+      setRevealedKey(data.privateKey);
+      setShowExportWarning(false);
+      
+      // Auto-hide after 30 seconds
+      setTimeout(() => {
+        setRevealedKey(null);
+        setKeyVisible(false);
+        setAcceptedRisks(false);
+      }, 30000);
     },
     onError: () => {
       toast({
@@ -84,19 +163,13 @@ export default function Settings() {
 
   // Create New Wallet mutation
   const createWalletMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest('POST', '/api/wallet/create');
-      const data = await res.json();
-      return data;
-    },
-    onSuccess: (data) => {
-      if (data.success) {
-        queryClient.invalidateQueries({ queryKey: ['/api/wallet/list'] });
-        toast({
-          title: "Success",
-          description: "New wallet created successfully",
-        });
-      }
+    mutationFn: () => sdk.wallet.create(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/wallet/list'] });
+      toast({
+        title: "Success",
+        description: "New wallet created successfully",
+      });
     },
     onError: () => {
       toast({
@@ -109,20 +182,14 @@ export default function Settings() {
 
   // Import Wallet mutation
   const importWalletMutation = useMutation({
-    mutationFn: async (privateKey: string) => {
-      const res = await apiRequest('POST', '/api/wallet/import', { privateKey });
-      const data = await res.json();
-      return data;
-    },
-    onSuccess: (data) => {
-      if (data.success) {
-        queryClient.invalidateQueries({ queryKey: ['/api/wallet/list'] });
-        setImportKey("");
-        toast({
-          title: "Success",
-          description: "Wallet imported successfully",
-        });
-      }
+    mutationFn: (privateKey: string) => sdk.wallet.import(privateKey),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/wallet/list'] });
+      setImportKey("");
+      toast({
+        title: "Success",
+        description: "Wallet imported successfully",
+      });
     },
     onError: () => {
       toast({
@@ -135,11 +202,7 @@ export default function Settings() {
 
   // Switch Wallet mutation
   const switchWalletMutation = useMutation({
-    mutationFn: async (walletId: string) => {
-      const res = await apiRequest('POST', '/api/wallet/switch', { walletId });
-      const data = await res.json();
-      return data;
-    },
+    mutationFn: (walletId: string) => sdk.wallet.switch(walletId),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/wallet/list'] });
       queryClient.invalidateQueries({ queryKey: ['/api/wallet/balance'] });
@@ -157,23 +220,107 @@ export default function Settings() {
     }
   });
 
+  // Save Trading Settings mutation
+  const saveTradingMutation = useMutation({
+    mutationFn: () => sdk.api.updateTradingSettings({
+      body: {
+        slippageBps: Math.round(parseFloat(slippagePct) * 100),
+        maxPriceImpactPct: maxPriceImpact,
+        priorityFeeTier,
+        antiMev,
+        blockHighRiskBuys
+      }
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/trading'] });
+      toast({
+        title: "Success",
+        description: "Trading settings saved",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save trading settings",
+      });
+    }
+  });
+
+  // Save Cost Basis Method mutation (lots are re-matched server-side)
+  const saveCostBasisMutation = useMutation({
+    mutationFn: (costBasisMethod: TradingSettings['costBasisMethod']) =>
+      sdk.api.updateTradingSettings({ body: { costBasisMethod } }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/settings/trading'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tax/summary?year=${taxYear}`] });
+      toast({
+        title: "Success",
+        description: "Cost basis method saved",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save cost basis method",
+      });
+    }
+  });
+
+  // Create Alert mutation
+  const createAlertMutation = useMutation({
+    mutationFn: () => sdk.api.createAlert({
+      body: {
+        kind: alertKind,
+        mint: alertKind === 'portfolio_below' ? undefined : alertMint.trim(),
+        threshold: alertThreshold,
+        cooldownMinutes: parseInt(alertCooldown, 10)
+      }
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts?status=active'] });
+      setAlertMint("");
+      setAlertThreshold("");
+      toast({
+        title: "Success",
+        description: "Alert created",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to create alert",
+      });
+    }
+  });
+
+  // Cancel Alert mutation
+  const cancelAlertMutation = useMutation({
+    mutationFn: (alertId: string) => sdk.api.cancelAlert({ params: { alertId } }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts?status=active'] });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to cancel alert",
+      });
+    }
+  });
+
   const handleLogout = async () => {
     try {
-      const response = await fetch('/api/wallet/logout', { 
-        method: 'POST', 
-        credentials: 'include' 
-      });
+      await sdk.wallet.logout();
       
-      if (response.ok) {
-        queryClient.clear();
-        setLocation('/login');
-        toast({
-          title: "Success",
-          description: "Logged out successfully",
-        });
-      } else {
-        throw new Error('Logout failed');
-      }
+      queryClient.clear();
+      setLocation('/login');
+      toast({
+        title: "Success",
+        description: "Logged out successfully",
+      });
     } catch (error) {
       toast({
         variant: "destructive",
@@ -207,7 +354,7 @@ export default function Settings() {
         {/* Header */}
         <div>
           <h1 className="text-4xl font-bold text-white glow-text">Settings</h1>
-          <p className="text-gray-400 mt-2">Manage your wallets and security settings</p>
+          <p className="text-gray-400 mt-2">Manage your wallets, trading preferences and security settings</p>
         </div>
 
         {/* Wallet Management Section */}
@@ -425,7 +572,7 @@ export default function Settings() {
                         <div className={`w-3 h-3 rounded-full ${wallet.isActive ? "bg-green-400" : "bg-gray-600"}`} />
                         <div>
                           <code className="text-sm text-purple-300 font-mono">
-                            {shortenAddress(wallet.walletAddress)}
+                            {shortenAddress(wallet.walletAddress ?? "")}
                           </code>
                           <p className="text-xs text-gray-500 mt-1">
                             Created {new Date(wallet.createdAt).toLocaleDateString()}
@@ -446,6 +593,328 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Trading Settings Section */}
+        <Card className="border-purple-500/20 bg-black/80 backdrop-blur-xl" data-testid="card-trading-settings">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              <SlidersHorizontal className="w-5 h-5 text-purple-400" />
+              Trading Settings
+            </CardTitle>
+            <CardDescription className="text-gray-400">
+              Applied to every swap from this wallet (web, Telegram, limit orders and TP/SL)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="slippage" className="text-white text-sm font-semibold">Slippage Tolerance (%)</Label>
+                <Input
+                  id="slippage"
+                  type="number"
+                  step="0.1"
+                  min="0.1"
+                  max="50"
+                  value={slippagePct}
+                  onChange={(e) => setSlippagePct(e.target.value)}
+                  className="bg-black/50 border-purple-500/20 text-white"
+                  data-testid="input-slippage"
+                />
+                <p className="text-xs text-gray-500">Raise for low-liquidity memecoins (e.g. 5-15%)</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="max-price-impact" className="text-white text-sm font-semibold">Max Price Impact (%)</Label>
+                <Input
+                  id="max-price-impact"
+                  type="number"
+                  step="0.5"
+                  min="0.1"
+                  max="100"
+                  value={maxPriceImpact}
+                  onChange={(e) => setMaxPriceImpact(e.target.value)}
+                  className="bg-black/50 border-purple-500/20 text-white"
+                  data-testid="input-max-price-impact"
+                />
+                <p className="text-xs text-gray-500">Quotes above this impact are rejected</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-white text-sm font-semibold">Priority Fee</Label>
+                <Select value={priorityFeeTier} onValueChange={(value) => setPriorityFeeTier(value as TradingSettings['priorityFeeTier'])}>
+                  <SelectTrigger className="bg-black/50 border-purple-500/20 text-white" data-testid="select-priority-fee">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Auto</SelectItem>
+                    <SelectItem value="fast">Fast (up to 0.0001 SOL)</SelectItem>
+                    <SelectItem value="turbo">Turbo (up to 0.001 SOL)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="anti-mev" className="text-white text-sm font-semibold">Anti-MEV Mode</Label>
+                <div className="flex items-center gap-3 h-9">
+                  <Switch
+                    id="anti-mev"
+                    checked={antiMev}
+                    onCheckedChange={setAntiMev}
+                    data-testid="switch-anti-mev"
+                  />
+                  <span className="text-sm text-gray-400">Direct routes only (smaller sandwich surface)</span>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="block-high-risk" className="text-white text-sm font-semibold">Block High-Risk Buys</Label>
+                <div className="flex items-center gap-3 h-9">
+                  <Switch
+                    id="block-high-risk"
+                    checked={blockHighRiskBuys}
+                    onCheckedChange={setBlockHighRiskBuys}
+                    data-testid="switch-block-high-risk"
+                  />
+                  <span className="text-sm text-gray-400">Reject tokens with a risk score of 50 or more</span>
+                </div>
+              </div>
+            </div>
+
+            <Button
+              variant="outline"
+              className="w-full border-purple-500/30 text-purple-300 hover:bg-purple-950/20"
+              onClick={() => saveTradingMutation.mutate()}
+              disabled={!slippagePct || !maxPriceImpact || saveTradingMutation.isPending}
+              data-testid="button-save-trading-settings"
+            >
+              {saveTradingMutation.isPending ? "Saving..." : "Save Trading Settings"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Tax Reporting Section */}
+        <Card className="border-purple-500/20 bg-black/80 backdrop-blur-xl" data-testid="card-tax-reporting">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              <Receipt className="w-5 h-5 text-purple-400" />
+              Tax Reporting
+            </CardTitle>
+            <CardDescription className="text-gray-400">
+              Realized gains per lot, split into short-term and long-term (held more than one year)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-white text-sm font-semibold">Cost Basis Method</Label>
+                <Select
+                  value={tradingData?.settings.costBasisMethod ?? 'fifo'}
+                  onValueChange={(value) => saveCostBasisMutation.mutate(value as TradingSettings['costBasisMethod'])}
+                  disabled={saveCostBasisMutation.isPending}
+                >
+                  <SelectTrigger className="bg-black/50 border-purple-500/20 text-white" data-testid="select-cost-basis-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fifo">FIFO (first in, first out)</SelectItem>
+                    <SelectItem value="lifo">LIFO (last in, first out)</SelectItem>
+                    <SelectItem value="average">Average cost</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="tax-year" className="text-white text-sm font-semibold">Tax Year</Label>
+                <Input
+                  id="tax-year"
+                  type="number"
+                  step="1"
+                  min="2000"
+                  max="2100"
+                  value={taxYear}
+                  onChange={(e) => setTaxYear(e.target.value)}
+                  className="bg-black/50 border-purple-500/20 text-white"
+                  data-testid="input-tax-year"
+                />
+              </div>
+            </div>
+
+            {taxSummaryData?.summary && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm" data-testid="tax-summary">
+                <div>
+                  <p className="text-gray-500">Proceeds</p>
+                  <p className="text-white">${taxSummaryData.summary.proceedsUsd}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Cost Basis</p>
+                  <p className="text-white">${taxSummaryData.summary.costBasisUsd}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Short-Term Gain</p>
+                  <p className={parseFloat(taxSummaryData.summary.shortTermGainUsd) >= 0 ? 'text-green-400' : 'text-red-400'}>
+                    ${taxSummaryData.summary.shortTermGainUsd}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Long-Term Gain</p>
+                  <p className={parseFloat(taxSummaryData.summary.longTermGainUsd) >= 0 ? 'text-green-400' : 'text-red-400'}>
+                    ${taxSummaryData.summary.longTermGainUsd}
+                  </p>
+                </div>
+                {parseFloat(taxSummaryData.summary.unknownTermGainUsd) !== 0 && (
+                  <p className="col-span-full text-xs text-yellow-500">
+                    ${taxSummaryData.summary.unknownTermGainUsd} of gains come from tokens sold without a recorded buy (unknown basis)
+                  </p>
+                )}
+              </div>
+            )}
+
+            <Button
+              variant="outline"
+              className="w-full border-purple-500/30 text-purple-300 hover:bg-purple-950/20"
+              asChild
+              data-testid="button-export-tax-csv"
+            >
+              <a href={`/api/tax/export.csv?year=${taxYear}`} download>
+                <Download className="w-4 h-4 mr-2" />
+                Export Disposals (CSV)
+              </a>
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Alerts Section */}
+        <Card className="border-purple-500/20 bg-black/80 backdrop-blur-xl" data-testid="card-alerts">
+          <CardHeader>
+            <CardTitle className="text-white flex items-center gap-2">
+              <Bell className="w-5 h-5 text-purple-400" />
+              Alerts
+            </CardTitle>
+            <CardDescription className="text-gray-400">
+              Get a Telegram message when a token or your portfolio moves (also available via the Telegram /alerts command)
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-white text-sm font-semibold">Alert Type</Label>
+                <Select value={alertKind} onValueChange={(value) => setAlertKind(value as AlertKind)}>
+                  <SelectTrigger className="bg-black/50 border-purple-500/20 text-white" data-testid="select-alert-kind">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(ALERT_KIND_LABELS) as AlertKind[]).map((kind) => (
+                      <SelectItem key={kind} value={kind}>{ALERT_KIND_LABELS[kind]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {alertKind !== 'portfolio_below' && (
+                <div className="space-y-2">
+                  <Label htmlFor="alert-mint" className="text-white text-sm font-semibold">Token Address</Label>
+                  <Input
+                    id="alert-mint"
+                    type="text"
+                    placeholder="Token contract address"
+                    value={alertMint}
+                    onChange={(e) => setAlertMint(e.target.value)}
+                    className="bg-black/50 border-purple-500/20 text-white"
+                    data-testid="input-alert-mint"
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="alert-threshold" className="text-white text-sm font-semibold">
+                  {alertKind === 'position_pnl' ? 'PnL (%)' : 'Threshold (USD)'}
+                </Label>
+                <Input
+                  id="alert-threshold"
+                  type="number"
+                  step="any"
+                  placeholder={alertKind === 'position_pnl' ? 'e.g. 50 or -20' : 'e.g. 0.0042'}
+                  value={alertThreshold}
+                  onChange={(e) => setAlertThreshold(e.target.value)}
+                  className="bg-black/50 border-purple-500/20 text-white"
+                  data-testid="input-alert-threshold"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="alert-cooldown" className="text-white text-sm font-semibold">Cooldown (minutes)</Label>
+                <Input
+                  id="alert-cooldown"
+                  type="number"
+                  step="1"
+                  min="0"
+                  value={alertCooldown}
+                  onChange={(e) => setAlertCooldown(e.target.value)}
+                  className="bg-black/50 border-purple-500/20 text-white"
+                  data-testid="input-alert-cooldown"
+                />
+                <p className="text-xs text-gray-500">Minimum time before the same alert fires again</p>
+              </div>
+            </div>
+
+            <Button
+              variant="outline"
+              className="w-full border-purple-500/30 text-purple-300 hover:bg-purple-950/20"
+              onClick={() => createAlertMutation.mutate()}
+              disabled={!alertThreshold || (alertKind !== 'portfolio_below' && !alertMint.trim()) || createAlertMutation.isPending}
+              data-testid="button-create-alert"
+            >
+              {createAlertMutation.isPending ? "Creating..." : "Create Alert"}
+            </Button>
+
+            {activeAlerts.length > 0 && (
+              <div className="space-y-2 pt-4 border-t border-purple-500/20">
+                <Label className="text-white text-sm font-semibold">Active Alerts ({activeAlerts.length})</Label>
+                {activeAlerts.map((alert) => (
+                  <div
+                    key={alert.id}
+                    className="flex items-center justify-between p-3 rounded-lg bg-black/30 border border-purple-500/20"
+                    data-testid={`alert-${alert.id}`}
+                  >
+                    <div>
+                      <p className="text-sm text-white">{describeAlert(alert)}</p>
+                      <p className="text-xs text-gray-500">
+                        {alert.armed ? "Watching" : "Fired - waiting for reset"} · {alert.cooldownMinutes} min cooldown
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => cancelAlertMutation.mutate(alert.id)}
+                      disabled={cancelAlertMutation.isPending}
+                      data-testid={`button-cancel-alert-${alert.id}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {deliveries.length > 0 && (
+              <div className="space-y-2 pt-4 border-t border-purple-500/20">
+                <Label className="text-white text-sm font-semibold">Recent Notifications</Label>
+                {deliveries.slice(0, 10).map((delivery) => (
+                  <div key={delivery.id} className="flex items-center justify-between text-xs" data-testid={`alert-delivery-${delivery.id}`}>
+                    <span className="text-gray-400 truncate mr-2">
+                      {new Date(delivery.createdAt).toLocaleString()} - {delivery.message.split("\n").filter(Boolean)[1] || delivery.message}
+                    </span>
+                    <Badge className={delivery.status === 'sent' ? "bg-green-600 text-white" : "bg-yellow-600 text-white"}>
+                      {delivery.status === 'sent' ? "Sent" : delivery.status === 'undelivered' ? "No Telegram" : "Failed"}
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <ApiKeys />
+
         {/* Account Section */}
         <Card className="border-purple-500/20 bg-black/80 backdrop-blur-xl" data-testid="card-account">
           <CardHeader>
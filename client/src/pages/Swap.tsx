@@ -7,18 +7,13 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft, Activity, TrendingUp, TrendingDown, ExternalLink } from "lucide-react";
 import { Link, useLocation } from "wouter";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
 import DashboardLayout from "@/components/DashboardLayout";
-
-interface QuoteResponse {
-  success: boolean;
-  quote: {
-    inputAmount: string;
-    outputAmount: string;
-    priceImpactPct: string;
-  };
-  cost?: string;
-}
+import { PriceChart } from "@/components/PriceChart";
+import { TokenRiskReport } from "@/components/TokenRiskReport";
+import { useWalletStream } from "@/hooks/use-wallet-stream";
+import { sdk } from "@shared/sdk";
+import type { GetSwapQuoteResponse } from "@shared/api-client";
 
 export default function Swap() {
   const { toast } = useToast();
@@ -28,23 +23,25 @@ export default function Swap() {
   const [tokenSymbol, setTokenSymbol] = useState("USDC");
   const [tokenLogo, setTokenLogo] = useState<string | null>("https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet/EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v/logo.png");
   const [amount, setAmount] = useState("");
-  const [quote, setQuote] = useState<QuoteResponse['quote'] | null>(null);
+  const [quote, setQuote] = useState<GetSwapQuoteResponse['quote'] | null>(null);
   const [cost, setCost] = useState<string | null>(null);
   const [isFetchingSymbol, setIsFetchingSymbol] = useState(false);
 
-  const { data: balance } = useQuery<{ 
-    sol: { amount: string }; 
-    totalUsd: string;
-    tokens: Array<{
-      mint: string;
-      symbol: string;
-      amount: string;
-      priceUsd: string;
-      totalUsd: string;
-      logoURI?: string;
-    }>;
-  }>({
+  const { data: balance } = useQuery({
     queryKey: ['/api/wallet/balance'],
+    queryFn: () => sdk.wallet.balance(),
+  });
+
+  // Live balance and prices; background swaps (orders, DCA, Telegram) are announced as they settle
+  useWalletStream((event) => {
+    if (event.type === 'swap' && (event.data.swap.status === 'completed' || event.data.swap.status === 'failed')) {
+      const { swap } = event.data;
+      toast({
+        title: swap.status === 'completed' ? "Swap Completed" : "Swap Failed",
+        description: `${swap.type === 'buy' ? 'Buy' : 'Sell'} ${swap.tokenSymbol || 'token'}${swap.failureReason ? ` - ${swap.failureReason}` : ''}`,
+        variant: swap.status === 'failed' ? "destructive" : undefined,
+      });
+    }
   });
 
   // Auto-fetch token symbol AND logo when contract address changes
@@ -83,24 +80,14 @@ export default function Swap() {
   }, [tokenAddress]);
 
   const quoteMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest('POST', '/api/swap/quote', {
-        type,
-        tokenAddress,
-        amount
-      });
-      const data = await res.json() as QuoteResponse;
-      return data;
-    },
+    mutationFn: () => sdk.swap.quote({ type, tokenAddress, amount }),
     onSuccess: (data) => {
-      if (data.success && data.quote) {
-        setQuote(data.quote);
-        if (data.cost) setCost(data.cost);
-        toast({
-          title: "Quote Retrieved",
-          description: `Estimated ${type === 'buy' ? 'purchase' : 'sale'}: ${parseFloat(data.quote.outputAmount).toFixed(6)} ${type === 'buy' ? tokenSymbol : 'SOL'}`,
-        });
-      }
+      setQuote(data.quote);
+      setCost(data.cost);
+      toast({
+        title: "Quote Retrieved",
+        description: `Estimated ${type === 'buy' ? 'purchase' : 'sale'}: ${parseFloat(data.quote.outputAmount).toFixed(6)} ${type === 'buy' ? tokenSymbol : 'SOL'}`,
+      });
     },
     onError: (error: any) => {
       toast({
@@ -112,56 +99,41 @@ export default function Swap() {
   });
 
   const executeMutation = useMutation({
-    mutationFn: async () => {
-      const res = await apiRequest('POST', '/api/swap/execute', {
-        type,
-        tokenAddress,
-        tokenSymbol,
-        amount,
-        quote
-      });
-      const data = await res.json() as {
-        success: boolean;
-        txhash: string;
-        newBalance: string;
-        message: string;
-        blockchainTx?: string;
-      };
-      return data;
+    mutationFn: () => {
+      if (!quote) throw new Error("Please get a quote first");
+      return sdk.swap.execute({ type, tokenAddress, tokenSymbol, amount, quote });
     },
     onSuccess: (data) => {
-      if (data.success) {
-        toast({
-          title: "Swap Successful!",
-          description: (
-            <div className="space-y-2">
-              <p>{data.message}</p>
-              {data.blockchainTx && (
-                <a 
-                  href={data.blockchainTx} 
-                  target="_blank" 
-                  rel="noopener noreferrer"
-                  className="text-purple-400 hover:text-purple-300 flex items-center gap-1 text-sm"
-                >
-                  View Transaction <ExternalLink className="w-3 h-3" />
-                </a>
-              )}
-            </div>
-          ),
-          duration: 8000,
-        });
-        
-        // Reset form
-        setAmount("");
-        setQuote(null);
-        setCost(null);
-        
-        // Invalidate balance cache to reflect updated balance
-        queryClient.invalidateQueries({ queryKey: ['/api/wallet/balance'] });
-        
-        // Navigate to explorer after brief delay
-        setTimeout(() => navigate('/explorer'), 2000);
-      }
+      toast({
+        title: "Swap Successful!",
+        description: (
+          <div className="space-y-2">
+            <p>{data.message}</p>
+            {data.blockchainTx && (
+              <a 
+                href={data.blockchainTx} 
+                target="_blank" 
+                rel="noopener noreferrer"
+                className="text-purple-400 hover:text-purple-300 flex items-center gap-1 text-sm"
+              >
+                View Transaction <ExternalLink className="w-3 h-3" />
+              </a>
+            )}
+          </div>
+        ),
+        duration: 8000,
+      });
+      
+      // Reset form
+      setAmount("");
+      setQuote(null);
+      setCost(null);
+      
+      // Invalidate balance cache to reflect updated balance
+      queryClient.invalidateQueries({ queryKey: ['/api/wallet/balance'] });
+      
+      // Navigate to explorer after brief delay
+      setTimeout(() => navigate('/explorer'), 2000);
     },
     onError: (error: any) => {
       toast({
@@ -360,6 +332,16 @@ export default function Swap() {
               </div>
             )}
 
+            {/* Price History */}
+            {tokenAddress && tokenAddress.length >= 32 && tokenSymbol && (
+              <PriceChart mint={tokenAddress} symbol={tokenSymbol} />
+            )}
+
+            {/* Token Safety (before buys) */}
+            {type === 'buy' && tokenAddress && tokenAddress.length >= 32 && (
+              <TokenRiskReport mint={tokenAddress} />
+            )}
+
             {/* Amount */}
             <div className="space-y-2">
               <Label htmlFor="amount" className="text-gray-400">
@@ -430,7 +412,7 @@ export default function Swap() {
                   <div className="flex justify-between">
                     <span className="text-gray-400">You {type === 'buy' ? 'pay' : 'send'}:</span>
                     <span className="text-white font-mono">
-                      {parseFloat(quote.inputAmount).toFixed(6)} {type === 'buy' ? 'SOL' : tokenSymbol}
+                      {Number(quote.inputAmount).toFixed(6)} {type === 'buy' ? 'SOL' : tokenSymbol}
                     </span>
                   </div>
                   <div className="flex justify-between">
@@ -449,6 +431,17 @@ export default function Swap() {
                     <span className="text-gray-400">Price impact:</span>
                     <span className="text-yellow-400">{quote.priceImpactPct}%</span>
                   </div>
+                  {quote.slippageBps !== undefined && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-400">Max slippage:</span>
+                      <span className="text-white">
+                        {quote.slippageBps / 100}%{" "}
+                        <Link href="/settings" className="text-purple-400 hover:underline text-xs" data-testid="link-trading-settings">
+                          (change)
+                        </Link>
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
             )}
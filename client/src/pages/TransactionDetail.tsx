@@ -7,31 +7,11 @@ import { ArrowLeft, ExternalLink, Copy, CheckCircle2 } from "lucide-react";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useExplorerPaths } from "@/hooks/use-explorer-paths";
+import { sdk } from "@shared/sdk";
 
-interface TransactionDetailType {
-  txhash: string;
-  chainTxhash: string | null;
-  category: string;
-  type: string;
-  tokenAddress: string | null;
-  tokenSymbol: string;
-  amount: string;
-  priceUsd: string;
-  usdValue: string;
-  solValue: string;
-  costBasisAtSale: string | null;
-  realizedPnl: string | null;
-  status: string;
-  timestamp: string;
-  wallet: string;
-  blockNumber: string;
-  instructions: string;
-}
-
-interface TransactionResponse {
-  success: boolean;
-  transaction: TransactionDetailType;
-  error?: string;
+// Token prices span many orders of magnitude (memecoins trade at fractions of a cent)
+function formatUsdPrice(price: number): string {
+  return price >= 0.01 ? `$${price.toFixed(4)}` : `$${price.toPrecision(3)}`;
 }
 
 export default function TransactionDetail() {
@@ -41,11 +21,22 @@ export default function TransactionDetail() {
   const { toast } = useToast();
   const [copied, setCopied] = useState<string | null>(null);
 
-  const { data, isLoading, error} = useQuery<TransactionResponse>({
+  const { data, isLoading, error} = useQuery({
     queryKey: [`/api/explorer/tx/${params?.hash}`],
+    queryFn: () => sdk.explorer.transaction(params!.hash),
     enabled: !!params?.hash,
   });
 
+  const trade = data?.transaction;
+  const isTrade = !!trade && (trade.type === 'buy' || trade.type === 'sell') && !!trade.tokenAddress;
+
+  // Market price when the trade happened vs now (from the price history store)
+  const { data: priceData } = useQuery({
+    queryKey: [`/api/prices/${trade?.tokenAddress}/at?time=${encodeURIComponent(trade?.timestamp ?? '')}`],
+    queryFn: () => sdk.api.getPriceAt({ params: { mint: trade!.tokenAddress! }, query: { time: trade!.timestamp } }),
+    enabled: isTrade,
+  });
+
   const copyToClipboard = (text: string, label: string) => {
     navigator.clipboard.writeText(text);
     setCopied(label);
@@ -90,7 +81,7 @@ export default function TransactionDetail() {
     );
   }
 
-  if (error || !data?.success) {
+  if (error || !data) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5 flex items-center justify-center">
         <Card className="p-8 max-w-md">
@@ -111,6 +102,10 @@ export default function TransactionDetail() {
 
   const tx = data.transaction;
 
+  // Prefer the market candle at trade time, fall back to the execution price
+  const priceAtTrade = priceData?.priceAt ?? (parseFloat(tx.priceUsd ?? "") || null);
+  const priceNow = priceData?.priceNow ?? null;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
       {/* Header */}
@@ -223,6 +218,22 @@ export default function TransactionDetail() {
                 </span>
               </div>
             )}
+            {isTrade && priceAtTrade !== null && (
+              <div className="flex justify-between items-center py-3 border-b border-border/40">
+                <span className="text-muted-foreground">Price at Trade vs Now</span>
+                <span className="font-medium" data-testid="text-price-vs-now">
+                  {formatUsdPrice(priceAtTrade)}
+                  {priceNow !== null && (
+                    <>
+                      {' → '}{formatUsdPrice(priceNow)}
+                      <span className={`ml-2 ${priceNow >= priceAtTrade ? 'text-green-400' : 'text-red-400'}`}>
+                        ({priceNow >= priceAtTrade ? '+' : ''}{(((priceNow - priceAtTrade) / priceAtTrade) * 100).toFixed(2)}%)
+                      </span>
+                    </>
+                  )}
+                </span>
+              </div>
+            )}
             <div className="flex justify-between items-center py-3">
               <span className="text-muted-foreground">Timestamp</span>
               <span className="font-medium">{new Date(tx.timestamp).toLocaleString()}</span>
@@ -14,45 +14,26 @@ import {
 import { ArrowLeft, ChevronLeft, ChevronRight, Copy, CheckCircle2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useExplorerPaths } from "@/hooks/use-explorer-paths";
+import { sdk } from "@shared/sdk";
+import type { GetExplorerWalletQuery } from "@shared/api-client";
 
-interface Transaction {
-  txhash: string;
-  category: string;
-  type: string;
-  tokenSymbol: string;
-  amount: string;
-  usdValue: string;
-  status: string;
-  timestamp: string;
-}
-
-interface WalletResponse {
-  success: boolean;
-  wallet: {
-    anvAddress: string;
-    createdAt: string;
-  };
-  transactions: Transaction[];
-  pagination: {
-    page: number;
-    limit: number;
-    totalCount: number;
-    totalPages: number;
-  };
-  error?: string;
-}
+type TypeFilter = NonNullable<GetExplorerWalletQuery['type']> | "";
 
 export default function WalletHistory() {
   const paths = useExplorerPaths();
   const routePattern = paths.isPathBased ? "/explorer/wallet/:anvAddress" : "/wallet/:anvAddress";
   const [, params] = useRoute(routePattern);
   const [page, setPage] = useState(1);
-  const [typeFilter, setTypeFilter] = useState<string>("");
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>("");
   const { toast } = useToast();
   const [copied, setCopied] = useState(false);
 
-  const { data, isLoading, error } = useQuery<WalletResponse>({
+  const { data, isLoading, error } = useQuery({
     queryKey: [`/api/explorer/wallet/${params?.anvAddress}`, { page, type: typeFilter }],
+    queryFn: () => sdk.api.getExplorerWallet({
+      params: { anvAddress: params!.anvAddress },
+      query: { page, type: typeFilter || undefined },
+    }),
     enabled: !!params?.anvAddress,
   });
 
@@ -104,7 +85,7 @@ export default function WalletHistory() {
     );
   }
 
-  if (error || !data?.success) {
+  if (error || !data) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5 flex items-center justify-center">
         <Card className="p-8 max-w-md">
@@ -162,7 +143,7 @@ export default function WalletHistory() {
 
         {/* Type Filter */}
         <Card className="p-4 mb-6 border-border/40 bg-card/50 backdrop-blur-sm">
-          <Select value={typeFilter} onValueChange={setTypeFilter}>
+          <Select value={typeFilter} onValueChange={value => setTypeFilter(value as TypeFilter)}>
             <SelectTrigger data-testid="select-type-filter">
               <SelectValue placeholder="All Transaction Types" />
             </SelectTrigger>
@@ -3,41 +3,18 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { waitForTransfer } from "@/lib/wallet-stream";
+import { useWalletStream } from "@/hooks/use-wallet-stream";
 import { ArrowLeft, Send, CheckCircle2, Clock, ExternalLink } from "lucide-react";
 import { Link } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import DashboardLayout from "@/components/DashboardLayout";
+import { BridgeEstimate } from "@/components/BridgeEstimate";
+import { sdk } from "@shared/sdk";
+import type { GetWithdrawalStatusResponse } from "@shared/api-client";
 
-interface WithdrawResponse {
-  success: boolean;
-  withdrawal?: {
-    id: string;
-    status: string;
-    solDeducted: string;
-    step1DepositAddress: string;
-    step1ExchangeId: string;
-  };
-  error?: string;
-}
-
-interface WithdrawStatusResponse {
-  success: boolean;
-  withdrawal: {
-    id: string;
-    status: string;
-    destinationAddress: string;
-    solDeducted: string;
-    solSent: string | null;
-    step2TxTo: string | null;
-  };
-  technicalSteps: Array<{
-    step: number;
-    status: string;
-    label: string;
-    description: string;
-  }>;
-}
+type ActiveWithdrawal = Pick<GetWithdrawalStatusResponse['withdrawal'], 'id' | 'status' | 'solDeducted'>;
 
 const WITHDRAWAL_STORAGE_KEY = 'anovex_active_withdrawal';
 
@@ -46,23 +23,22 @@ export default function Withdraw() {
   const [address, setAddress] = useState("");
   const [amount, setAmount] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
-  const [withdrawalData, setWithdrawalData] = useState<WithdrawResponse['withdrawal'] | null>(null);
+  const [withdrawalData, setWithdrawalData] = useState<ActiveWithdrawal | null>(null);
   const [withdrawalStatus, setWithdrawalStatus] = useState<string | null>(null);
-  const [technicalSteps, setTechnicalSteps] = useState<WithdrawStatusResponse['technicalSteps'] | null>(null);
+  const [technicalSteps, setTechnicalSteps] = useState<GetWithdrawalStatusResponse['technicalSteps'] | null>(null);
   const [step2TxTo, setStep2TxTo] = useState<string | null>(null);
   const hasShownToastRef = useRef(false);
   const [isLoadingPending, setIsLoadingPending] = useState(true);
 
   // Get balance for max amount
-  const { data: balanceData } = useQuery<{ 
-    success: boolean; 
-    sol: { amount: string; priceUsd: string; totalUsd: string }; 
-    tokens: any[];
-    totalUsd: string;
-  }>({
+  const { data: balanceData } = useQuery({
     queryKey: ['/api/wallet/balance'],
+    queryFn: () => sdk.wallet.balance(),
   });
 
+  // Keeps the balance (and max amount) current
+  useWalletStream();
+
   const currentBalance = parseFloat(balanceData?.sol?.amount || "0");
 
   // Auto-resume pending withdrawal on mount
@@ -76,36 +52,26 @@ export default function Withdraw() {
         }
 
         // Fetch withdrawal status
-        const res = await fetch(`/api/withdraw/status/${savedWithdrawalId}`, {
-          credentials: 'include'
-        });
-        const response = await res.json() as WithdrawStatusResponse;
-
-        if (response.success && response.withdrawal) {
-          const status = response.withdrawal.status;
-          
-          // If still pending, resume tracking
-          if (status === 'waiting_step1' || status === 'waiting_step2') {
-            setWithdrawalData({
-              id: response.withdrawal.id,
-              status: status,
-              solDeducted: response.withdrawal.solDeducted,
-              step1DepositAddress: '',
-              step1ExchangeId: ''
-            });
-            setAddress(response.withdrawal.destinationAddress);
-            setWithdrawalStatus(status);
-            setTechnicalSteps(response.technicalSteps || null);
-            setStep2TxTo(response.withdrawal.step2TxTo || null);
-          } else {
-            // Terminal state - clear localStorage
-            localStorage.removeItem(WITHDRAWAL_STORAGE_KEY);
-          }
+        const response = await sdk.withdraw.status(savedWithdrawalId);
+        const status = response.withdrawal.status;
+        
+        // If still pending, resume tracking
+        if (status === 'waiting_step1' || status === 'waiting_step2') {
+          setWithdrawalData({
+            id: response.withdrawal.id,
+            status: status,
+            solDeducted: response.withdrawal.solDeducted,
+          });
+          setAddress(response.withdrawal.destinationAddress);
+          setWithdrawalStatus(status);
+          setTechnicalSteps(response.technicalSteps || null);
+          setStep2TxTo(response.withdrawal.step2TxTo || null);
         } else {
-          // Invalid withdrawal - clear localStorage
+          // Terminal state - clear localStorage
           localStorage.removeItem(WITHDRAWAL_STORAGE_KEY);
         }
       } catch (error: any) {
+        // Unknown or foreign withdrawal - clear localStorage
         console.error("Failed to check pending withdrawal:", error);
         localStorage.removeItem(WITHDRAWAL_STORAGE_KEY);
       } finally {
@@ -152,26 +118,18 @@ export default function Withdraw() {
     hasShownToastRef.current = false;
     
     try {
-      const res = await apiRequest('POST', '/api/withdraw/initiate', {
-        destinationAddress: trimmedAddress,
-        solAmount: trimmedAmount
+      const response = await sdk.withdraw.initiate({ destinationAddress: trimmedAddress, solAmount: trimmedAmount });
+
+      setWithdrawalData(response.withdrawal);
+      setWithdrawalStatus(response.withdrawal.status);
+      
+      // Save to localStorage for persistence across refresh
+      localStorage.setItem(WITHDRAWAL_STORAGE_KEY, response.withdrawal.id);
+      
+      toast({
+        title: "Withdrawal Initiated",
+        description: `${trimmedAmount} SOL withdrawal in progress`,
       });
-      const response = await res.json() as WithdrawResponse;
-
-      if (response.success && response.withdrawal) {
-        setWithdrawalData(response.withdrawal);
-        setWithdrawalStatus(response.withdrawal.status);
-        
-        // Save to localStorage for persistence across refresh
-        localStorage.setItem(WITHDRAWAL_STORAGE_KEY, response.withdrawal.id);
-        
-        toast({
-          title: "Withdrawal Initiated",
-          description: `${trimmedAmount} SOL withdrawal in progress`,
-        });
-      } else {
-        throw new Error(response.error || "Failed to initiate withdrawal");
-      }
     } catch (error: any) {
       toast({
         title: "Error",
@@ -183,62 +141,57 @@ export default function Withdraw() {
     }
   };
 
-  // Status polling
+  // Status updates from the wallet stream
   useEffect(() => {
-    const terminalStates = ['finished', 'failed', 'refunded', 'expired'];
-    if (!withdrawalData || !withdrawalStatus || terminalStates.includes(withdrawalStatus)) {
+    const terminalStates = ['finished', 'failed', 'refunded', 'expired', 'dead_letter'];
+    if (!withdrawalData || terminalStates.includes(withdrawalData.status)) {
       return;
     }
 
-    let aborted = false;
-    
-    const interval = setInterval(async () => {
-      if (aborted) return;
-
-      try {
-        const res = await fetch(`/api/withdraw/status/${withdrawalData.id}`, {
-          credentials: 'include'
-        });
-        const response = await res.json() as WithdrawStatusResponse;
-
-        if (aborted) return;
+    const controller = new AbortController();
 
-        if (response.success && response.withdrawal) {
-          const newStatus = response.withdrawal.status;
-          setWithdrawalStatus(newStatus);
-          setTechnicalSteps(response.technicalSteps || null);
-          setStep2TxTo(response.withdrawal.step2TxTo || null);
-          
-          if (newStatus === 'finished' && !hasShownToastRef.current) {
-            hasShownToastRef.current = true;
-            localStorage.removeItem(WITHDRAWAL_STORAGE_KEY);
-            queryClient.invalidateQueries({ queryKey: ['/api/wallet/balance'] });
-            toast({
-              title: "Withdrawal Complete!",
-              description: `${response.withdrawal.solSent || response.withdrawal.solDeducted} SOL sent to your wallet`,
-            });
-          } else if ((newStatus === 'failed' || newStatus === 'refunded' || newStatus === 'expired') && !hasShownToastRef.current) {
-            hasShownToastRef.current = true;
-            localStorage.removeItem(WITHDRAWAL_STORAGE_KEY);
-            toast({
-              title: "Withdrawal Failed",
-              description: "Your withdrawal could not be processed. Balance has been refunded.",
-              variant: "destructive",
-            });
-          }
+    waitForTransfer('withdrawal', withdrawalData.id, {
+      load: () => sdk.withdraw.status(withdrawalData.id),
+      getStatus: (response) => response.withdrawal.status,
+      signal: controller.signal,
+      onUpdate: (response) => {
+        setWithdrawalStatus(response.withdrawal.status);
+        setTechnicalSteps(response.technicalSteps || null);
+        setStep2TxTo(response.withdrawal.step2TxTo || null);
+      },
+    })
+      .then((response) => {
+        localStorage.removeItem(WITHDRAWAL_STORAGE_KEY);
+        if (hasShownToastRef.current) return;
+        hasShownToastRef.current = true;
+
+        if (response.withdrawal.status === 'finished') {
+          queryClient.invalidateQueries({ queryKey: ['/api/wallet/balance'] });
+          toast({
+            title: "Withdrawal Complete!",
+            description: `${response.withdrawal.solSent || response.withdrawal.solDeducted} SOL sent to your wallet`,
+          });
+        } else if (response.withdrawal.status === 'dead_letter') {
+          toast({
+            title: "Withdrawal Under Review",
+            description: "Your withdrawal needs manual review. Our team will resolve it - no action is needed.",
+          });
+        } else {
+          toast({
+            title: "Withdrawal Failed",
+            description: "Your withdrawal could not be processed. Balance has been refunded.",
+            variant: "destructive",
+          });
         }
-      } catch (error: any) {
-        if (!aborted) {
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) {
           console.error("Status check error:", error);
         }
-      }
-    }, 5000);
+      });
 
-    return () => {
-      aborted = true;
-      clearInterval(interval);
-    };
-  }, [withdrawalData, withdrawalStatus, toast]);
+    return () => controller.abort();
+  }, [withdrawalData, toast]);
 
   // Show loading while checking for pending withdrawal
   if (isLoadingPending) {
@@ -320,6 +273,8 @@ export default function Withdraw() {
                   </p>
                 </div>
 
+                <BridgeEstimate kind="withdraw" amount={amount} />
+
                 <Button
                   onClick={handleWithdraw}
                   disabled={isProcessing || !address.trim() || !amount.trim() || isNaN(parseFloat(amount.trim())) || parseFloat(amount.trim()) < 0.05}
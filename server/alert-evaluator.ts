@@ -0,0 +1,95 @@
+/**
+ * Alert evaluation
+ *
+ * - price_above / price_below: token USD price at or above / at or below the threshold
+ * - position_pnl: unrealized PnL of a holding crosses a signed percent (+50 fires at ≥ +50%, -20 at ≤ -20%)
+ * - portfolio_below: SOL balance plus holdings, in USD, at or below the threshold
+ *
+ * Alerts are edge-triggered: an alert fires once when its condition becomes true, then stays
+ * disarmed until the condition clears. A re-armed alert waits out its cooldown before firing again,
+ * so a price hovering around the threshold cannot spam the user.
+ * Pure functions - the alerts job (server/alerts.ts) supplies prices and holdings
+ */
+
+export type AlertKind = 'price_above' | 'price_below' | 'position_pnl' | 'portfolio_below';
+
+export interface AlertState {
+  armed: boolean;
+  cooldownMinutes: number;
+  lastTriggeredAt: Date | null;
+}
+
+/**
+ * - fire: notify the user and disarm
+ * - rearm: the condition cleared, the next crossing may fire
+ * - none: nothing changes
+ */
+export type AlertDecision = 'fire' | 'rearm' | 'none';
+
+export function isAlertConditionMet(kind: AlertKind, threshold: number, observed: number): boolean {
+  if (!Number.isFinite(threshold) || !Number.isFinite(observed)) {
+    return false;
+  }
+
+  switch (kind) {
+    case 'price_above':
+      return observed >= threshold;
+    case 'price_below':
+    case 'portfolio_below':
+      return observed <= threshold;
+    case 'position_pnl':
+      return threshold >= 0 ? observed >= threshold : observed <= threshold;
+  }
+}
+
+export function getAlertDecision(alert: AlertState, conditionMet: boolean, now: Date = new Date()): AlertDecision {
+  if (!conditionMet) {
+    return alert.armed ? 'none' : 'rearm';
+  }
+
+  if (!alert.armed) {
+    return 'none';
+  }
+
+  if (alert.lastTriggeredAt && now.getTime() - alert.lastTriggeredAt.getTime() < alert.cooldownMinutes * 60 * 1000) {
+    return 'none';
+  }
+
+  return 'fire';
+}
+
+/**
+ * Unrealized PnL of a holding in percent, or null without an entry price
+ */
+export function getPositionPnlPercent(averageEntryPrice: number | null, currentPrice: number): number | null {
+  if (!averageEntryPrice || !Number.isFinite(averageEntryPrice) || averageEntryPrice <= 0) {
+    return null;
+  }
+  return (currentPrice - averageEntryPrice) / averageEntryPrice * 100;
+}
+
+/**
+ * Portfolio value in USD, or null when a held token has no price
+ * (an incomplete total could fire a false "portfolio below" alert)
+ */
+export function getPortfolioValueUsd(
+  solBalance: number,
+  solPriceUsd: number,
+  holdings: { mint: string; amount: number }[],
+  prices: Map<string, number | null>
+): number | null {
+  let total = solBalance * solPriceUsd;
+
+  for (const holding of holdings) {
+    if (holding.amount <= 0) {
+      continue;
+    }
+    const price = prices.get(holding.mint);
+    if (price === null || price === undefined) {
+      return null;
+    }
+    total += holding.amount * price;
+  }
+
+  return total;
+}
@@ -0,0 +1,357 @@
+import { db } from "./db";
+import { alerts, alertDeliveries, tokenHoldings, balances, wallets, type Alert, type AlertDelivery } from "@shared/schema";
+import { eq, and, sql, desc, asc, inArray } from "drizzle-orm";
+import { getTokenPrices } from "./pricing";
+import { getSolanaPrice } from "./coingecko";
+import { resolveTokenMetadata } from "./token-resolver";
+import {
+  isAlertConditionMet,
+  getAlertDecision,
+  getPositionPnlPercent,
+  getPortfolioValueUsd,
+  type AlertKind
+} from "./alert-evaluator";
+
+const MAX_ACTIVE_ALERTS_PER_WALLET = 25;
+const DEFAULT_COOLDOWN_MINUTES = 60;
+const MAX_COOLDOWN_MINUTES = 7 * 24 * 60; // 1 week
+
+export const ALERT_KINDS: AlertKind[] = ['price_above', 'price_below', 'position_pnl', 'portfolio_below'];
+
+/**
+ * Create an alert
+ * - price_above / price_below: mint + USD price
+ * - position_pnl: mint of a held token + signed percent (e.g. "50" or "-20")
+ * - portfolio_below: USD value
+ */
+export async function createAlert(params: {
+  walletId: string;
+  kind: AlertKind;
+  mint?: string | null;
+  threshold: string;
+  cooldownMinutes?: number;
+}): Promise<{ success: boolean; alert?: Alert; error?: string }> {
+  try {
+    const { walletId, kind } = params;
+    const cooldownMinutes = params.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES;
+
+    const threshold = parseFloat(params.threshold);
+    if (!Number.isFinite(threshold)) {
+      return { success: false, error: "Threshold must be a number" };
+    }
+
+    if (kind === 'position_pnl') {
+      if (threshold === 0 || threshold <= -100) {
+        return { success: false, error: "PnL percent must be non-zero and above -100" };
+      }
+    } else if (threshold <= 0) {
+      return { success: false, error: "Threshold must be greater than zero" };
+    }
+
+    if (!Number.isInteger(cooldownMinutes) || cooldownMinutes < 0 || cooldownMinutes > MAX_COOLDOWN_MINUTES) {
+      return { success: false, error: `Cooldown must be between 0 and ${MAX_COOLDOWN_MINUTES} minutes` };
+    }
+
+    let mint: string | null = null;
+    let tokenSymbol: string | null = null;
+
+    if (kind !== 'portfolio_below') {
+      if (!params.mint) {
+        return { success: false, error: "Token address is required" };
+      }
+      mint = params.mint;
+
+      if (kind === 'position_pnl') {
+        const holding = await db.select()
+          .from(tokenHoldings)
+          .where(and(
+            eq(tokenHoldings.walletId, walletId),
+            eq(tokenHoldings.mint, mint)
+          ))
+          .limit(1);
+
+        if (holding.length === 0 || parseFloat(holding[0].amount) <= 0) {
+          return { success: false, error: "You don't hold this token" };
+        }
+        tokenSymbol = holding[0].symbol;
+      } else {
+        try {
+          const metadata = await resolveTokenMetadata(mint);
+          tokenSymbol = metadata.symbol;
+        } catch (error: any) {
+          return { success: false, error: "Unable to fetch token information for this address" };
+        }
+      }
+    }
+
+    const activeCount = await db.select({ count: sql<number>`count(*)::int` })
+      .from(alerts)
+      .where(and(
+        eq(alerts.walletId, walletId),
+        eq(alerts.status, 'active')
+      ));
+
+    if ((activeCount[0]?.count || 0) >= MAX_ACTIVE_ALERTS_PER_WALLET) {
+      return { success: false, error: `Maximum of ${MAX_ACTIVE_ALERTS_PER_WALLET} active alerts per wallet` };
+    }
+
+    const [alert] = await db.insert(alerts).values({
+      walletId,
+      kind,
+      mint,
+      tokenSymbol,
+      threshold: params.threshold,
+      cooldownMinutes,
+    }).returning();
+
+    console.log(`🔔 Alert created: ${alert.id} (${kind} ${tokenSymbol || ''} ${params.threshold})`);
+
+    return { success: true, alert };
+  } catch (error: any) {
+    console.error("Create alert error:", error);
+    return { success: false, error: error.message || "Failed to create alert" };
+  }
+}
+
+/**
+ * Cancel an active alert
+ * SECURE: Only cancels alerts owned by walletId, compare-and-set on status='active'
+ */
+export async function cancelAlert(walletId: string, alertId: string): Promise<{ success: boolean; error?: string }> {
+  const cancelled = await db.update(alerts)
+    .set({
+      status: 'cancelled',
+      updatedAt: new Date()
+    })
+    .where(and(
+      eq(alerts.id, alertId),
+      eq(alerts.walletId, walletId),
+      eq(alerts.status, 'active')
+    ))
+    .returning({ id: alerts.id });
+
+  if (cancelled.length === 0) {
+    return { success: false, error: "Alert not found or no longer active" };
+  }
+
+  console.log(`🚫 Alert cancelled: ${alertId}`);
+  return { success: true };
+}
+
+/**
+ * List a wallet's alerts (oldest first, so list positions stay stable)
+ */
+export async function getAlerts(walletId: string, status?: Alert['status']): Promise<Alert[]> {
+  const conditions = [eq(alerts.walletId, walletId)];
+  if (status) {
+    conditions.push(eq(alerts.status, status));
+  }
+
+  return await db.select()
+    .from(alerts)
+    .where(and(...conditions))
+    .orderBy(asc(alerts.createdAt))
+    .limit(50);
+}
+
+/**
+ * Delivery log for a wallet (newest first)
+ */
+export async function getAlertDeliveries(walletId: string, limit: number = 50): Promise<AlertDelivery[]> {
+  return await db.select()
+    .from(alertDeliveries)
+    .where(eq(alertDeliveries.walletId, walletId))
+    .orderBy(desc(alertDeliveries.createdAt))
+    .limit(Math.min(Math.max(limit, 1), 200));
+}
+
+export function describeAlert(alert: Pick<Alert, 'kind' | 'tokenSymbol' | 'threshold'>): string {
+  const threshold = parseFloat(alert.threshold);
+  switch (alert.kind) {
+    case 'price_above':
+      return `${alert.tokenSymbol} above $${threshold}`;
+    case 'price_below':
+      return `${alert.tokenSymbol} below $${threshold}`;
+    case 'position_pnl':
+      return `${alert.tokenSymbol} PnL ${threshold > 0 ? '+' : ''}${threshold}%`;
+    case 'portfolio_below':
+      return `Portfolio below $${threshold}`;
+  }
+}
+
+/**
+ * Evaluate active alerts (called from background polling)
+ * 1. Load the prices, holdings and balances the active alerts watch (one price batch per cycle)
+ * 2. Decide per alert: fire, re-arm or nothing (server/alert-evaluator.ts)
+ * 3. Fire with a compare-and-set on armed=true, notify via Telegram and log the delivery
+ *
+ * Alerts without an observation this cycle (no price, position closed) are left untouched
+ */
+export async function processAlerts(): Promise<void> {
+  try {
+    const active = await db.select()
+      .from(alerts)
+      .where(eq(alerts.status, 'active'));
+
+    if (active.length === 0) {
+      return;
+    }
+
+    const holdingWalletIds = Array.from(new Set(active.filter(a => a.kind === 'position_pnl' || a.kind === 'portfolio_below').map(a => a.walletId)));
+    const portfolioWalletIds = Array.from(new Set(active.filter(a => a.kind === 'portfolio_below').map(a => a.walletId)));
+
+    const holdings = holdingWalletIds.length > 0
+      ? await db.select().from(tokenHoldings).where(inArray(tokenHoldings.walletId, holdingWalletIds))
+      : [];
+
+    const solBalances = new Map<string, number>();
+    let solPriceUsd: number | null = null;
+    if (portfolioWalletIds.length > 0) {
+      const rows = await db.select({ walletId: balances.walletId, solBalance: balances.solBalance })
+        .from(balances)
+        .where(inArray(balances.walletId, portfolioWalletIds));
+      rows.forEach(row => solBalances.set(row.walletId, parseFloat(row.solBalance)));
+
+      try {
+        solPriceUsd = await getSolanaPrice();
+      } catch (error: any) {
+        console.warn("Alerts: SOL price unavailable, skipping portfolio alerts this cycle:", error.message);
+      }
+    }
+
+    const mints = new Set<string>();
+    active.forEach(a => { if (a.mint) mints.add(a.mint); });
+    holdings.forEach(h => {
+      // Portfolio alerts price every holding of the wallet
+      if (portfolioWalletIds.includes(h.walletId) && parseFloat(h.amount) > 0) mints.add(h.mint);
+    });
+    const priceMap = await getTokenPrices(Array.from(mints));
+
+    for (const alert of active) {
+      let observed: number | null = null;
+
+      if (alert.kind === 'price_above' || alert.kind === 'price_below') {
+        observed = priceMap.get(alert.mint!) ?? null;
+      } else if (alert.kind === 'position_pnl') {
+        const holding = holdings.find(h => h.walletId === alert.walletId && h.mint === alert.mint);
+        const price = priceMap.get(alert.mint!);
+        if (holding && parseFloat(holding.amount) > 0 && price !== null && price !== undefined) {
+          observed = getPositionPnlPercent(holding.averageEntryPrice ? parseFloat(holding.averageEntryPrice) : null, price);
+        }
+      } else if (solPriceUsd !== null) {
+        observed = getPortfolioValueUsd(
+          solBalances.get(alert.walletId) ?? 0,
+          solPriceUsd,
+          holdings.filter(h => h.walletId === alert.walletId).map(h => ({ mint: h.mint, amount: parseFloat(h.amount) })),
+          priceMap
+        );
+      }
+
+      if (observed === null) {
+        continue; // No observation this cycle
+      }
+
+      const decision = getAlertDecision(alert, isAlertConditionMet(alert.kind, parseFloat(alert.threshold), observed));
+
+      try {
+        if (decision === 'rearm') {
+          await db.update(alerts)
+            .set({ armed: true, lastValue: observed.toFixed(12), updatedAt: new Date() })
+            .where(and(eq(alerts.id, alert.id), eq(alerts.armed, false)));
+        } else if (decision === 'fire') {
+          await fireAlert(alert, observed);
+        }
+      } catch (error: any) {
+        console.error(`❌ Failed to process alert ${alert.id}:`, error.message);
+      }
+    }
+  } catch (error: any) {
+    console.error("Alert processing error:", error);
+  }
+}
+
+/**
+ * Disarm and notify
+ * IDEMPOTENCY: compare-and-set (armed=true) ensures one notification per crossing
+ */
+async function fireAlert(alert: Alert, observed: number): Promise<void> {
+  const claimed = await db.update(alerts)
+    .set({
+      armed: false,
+      lastValue: observed.toFixed(12),
+      lastTriggeredAt: new Date(),
+      updatedAt: new Date()
+    })
+    .where(and(
+      eq(alerts.id, alert.id),
+      eq(alerts.status, 'active'),
+      eq(alerts.armed, true)
+    ))
+    .returning({ id: alerts.id });
+
+  if (claimed.length === 0) {
+    return; // Cancelled or fired elsewhere
+  }
+
+  const message = buildAlertMessage(alert, observed);
+  const delivery = await deliverAlert(alert.walletId, message);
+
+  await db.insert(alertDeliveries).values({
+    alertId: alert.id,
+    walletId: alert.walletId,
+    observedValue: observed.toFixed(12),
+    message,
+    status: delivery.status,
+    error: delivery.error || null,
+  });
+
+  console.log(`🔔 Alert ${alert.id} fired (${describeAlert(alert)}, observed ${observed}) - ${delivery.status}`);
+}
+
+function buildAlertMessage(alert: Alert, observed: number): string {
+  const threshold = parseFloat(alert.threshold);
+
+  switch (alert.kind) {
+    case 'price_above':
+    case 'price_below':
+      return `🔔 *Price Alert*\n\n` +
+        `${alert.tokenSymbol} is ${alert.kind === 'price_above' ? 'above' : 'below'} $${threshold}\n` +
+        `Current price: $${observed.toPrecision(6)}\n\n` +
+        `\`${alert.mint}\``;
+    case 'position_pnl':
+      return `🔔 *Position Alert*\n\n` +
+        `${alert.tokenSymbol} PnL crossed ${threshold > 0 ? '+' : ''}${threshold}%\n` +
+        `Current PnL: ${observed >= 0 ? '+' : ''}${observed.toFixed(2)}%\n\n` +
+        `Check /portfolio for details.`;
+    case 'portfolio_below':
+      return `🔔 *Portfolio Alert*\n\n` +
+        `Portfolio value dropped below $${threshold}\n` +
+        `Current value: $${observed.toFixed(2)}\n\n` +
+        `Check /portfolio for details.`;
+  }
+}
+
+async function deliverAlert(walletId: string, message: string): Promise<{ status: AlertDelivery['status']; error?: string }> {
+  const { bot } = await import("./telegram-bot.js");
+
+  const [owner] = await db.select({ telegramUserId: wallets.telegramUserId })
+    .from(wallets)
+    .where(eq(wallets.id, walletId))
+    .limit(1);
+
+  if (!owner?.telegramUserId) {
+    return { status: 'undelivered', error: "No Telegram account linked" };
+  }
+
+  if (!bot) {
+    return { status: 'failed', error: "Telegram bot disabled" };
+  }
+
+  try {
+    await bot.api.sendMessage(owner.telegramUserId, message, { parse_mode: "Markdown" });
+    return { status: 'sent' };
+  } catch (error: any) {
+    console.error(`❌ Alert delivery failed for wallet ${walletId}:`, error.message);
+    return { status: 'failed', error: error.message };
+  }
+}
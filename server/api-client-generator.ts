@@ -0,0 +1,257 @@
+import type { JsonSchema, OpenApiDocument, OpenApiOperation, OpenApiParameter } from "./openapi";
+
+/**
+ * Typed API client generator - turns the OpenAPI document into shared/api-client.ts
+ *
+ * One method per web operation (the signed /api/v1 operations are for external integrations),
+ * with request and response types derived from the operation's schemas.
+ * Pure module: server/generate-api-client.ts writes the file, the unit test checks it is current.
+ */
+
+export const API_CLIENT_PATH = 'shared/api-client.ts';
+
+const HEADER = `/**
+ * Anovex API client - GENERATED from the OpenAPI document (server/openapi.ts, served at /api/openapi.json)
+ *
+ * Do not edit by hand: change server/api-contract.ts and run \`npx tsx server/generate-api-client.ts\`.
+ */
+
+export interface ApiClientOptions {
+  baseUrl?: string; // Defaults to the current origin
+  fetch?: typeof fetch;
+  headers?: Record<string, string>;
+  credentials?: RequestCredentials; // Defaults to 'include' (session cookie)
+}
+
+/**
+ * Non-2xx response - message is the server's error text
+ */
+export class ApiError extends Error {
+  constructor(public status: number, message: string, public body: unknown) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+interface RequestInput {
+  params?: Record<string, string>;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+}
+
+async function send<T>(
+  options: ApiClientOptions,
+  method: string,
+  path: string,
+  input: RequestInput,
+  responseType: 'json' | 'text'
+): Promise<T> {
+  const fetchFn = options.fetch ?? fetch;
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(input.query ?? {})) {
+    if (value !== undefined) {
+      search.append(key, String(value));
+    }
+  }
+
+  const url = (options.baseUrl ?? '')
+    + path.replace(/\\{(\\w+)\\}/g, (_match, name: string) => encodeURIComponent(input.params?.[name] ?? ''))
+    + (search.toString() ? \`?\${search}\` : '');
+
+  const res = await fetchFn(url, {
+    method,
+    headers: { ...(input.body !== undefined ? { 'Content-Type': 'application/json' } : {}), ...options.headers },
+    body: input.body !== undefined ? JSON.stringify(input.body) : undefined,
+    credentials: options.credentials ?? 'include',
+  });
+  const text = await res.text();
+
+  if (!res.ok) {
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not JSON (proxy error page, empty body)
+    }
+    const error = body && typeof body === 'object' ? (body as { error?: unknown }).error : undefined;
+    throw new ApiError(res.status, typeof error === 'string' ? error : text || res.statusText, body);
+  }
+
+  return (responseType === 'text' ? text : JSON.parse(text)) as T;
+}
+`;
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function pascalCase(operationId: string): string {
+  return operationId[0].toUpperCase() + operationId.slice(1);
+}
+
+/**
+ * TypeScript type of a schema (nested objects are indented from the given level)
+ */
+export function schemaToType(schema: JsonSchema, indent = ''): string {
+  let type: string;
+
+  if (Array.isArray(schema.anyOf)) {
+    type = (schema.anyOf as JsonSchema[]).map(option => schemaToType(option, indent)).join(' | ');
+  } else if (Array.isArray(schema.enum)) {
+    type = schema.enum.map(value => JSON.stringify(value)).join(' | ');
+  } else if (schema.type === 'string') {
+    type = 'string';
+  } else if (schema.type === 'number' || schema.type === 'integer') {
+    type = 'number';
+  } else if (schema.type === 'boolean') {
+    type = 'boolean';
+  } else if (schema.type === 'array') {
+    type = `Array<${schemaToType(schema.items as JsonSchema, indent)}>`;
+  } else if (schema.type === 'object' && schema.properties) {
+    type = objectType(schema, indent);
+  } else if (schema.type === 'object' && schema.additionalProperties) {
+    type = `Record<string, ${schemaToType(schema.additionalProperties as JsonSchema, indent)}>`;
+  } else {
+    type = 'unknown';
+  }
+
+  const alreadyNull = Array.isArray(schema.enum) && schema.enum.includes(null);
+  return schema.nullable && !alreadyNull ? `${type} | null` : type;
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const properties = schema.properties as Record<string, JsonSchema>;
+  const required = new Set((schema.required as string[] | undefined) ?? []);
+  const inner = `${indent}  `;
+
+  const lines = Object.entries(properties).flatMap(([name, property]) => {
+    const key = IDENTIFIER.test(name) ? name : JSON.stringify(name);
+    const optional = required.has(name) ? '' : '?';
+    const line = `${inner}${key}${optional}: ${schemaToType(property, inner)};`;
+    return typeof property.description === 'string' ? [`${inner}/** ${property.description} */`, line] : [line];
+  });
+
+  return lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, never>';
+}
+
+function parametersType(parameters: OpenApiParameter[]): string {
+  return objectType({
+    type: 'object',
+    properties: Object.fromEntries(parameters.map(parameter => [
+      parameter.name,
+      parameter.description ? { ...parameter.schema, description: parameter.description } : parameter.schema,
+    ])),
+    required: parameters.filter(parameter => parameter.required).map(parameter => parameter.name),
+  }, '');
+}
+
+interface GeneratedOperation {
+  types: string[];
+  method: string;
+}
+
+function generateOperation(path: string, httpMethod: string, operation: OpenApiOperation): GeneratedOperation {
+  const name = pascalCase(operation.operationId);
+  const types: string[] = [];
+  const inputs: string[] = [];
+  let inputRequired = false;
+
+  const pathParameters = (operation.parameters ?? []).filter(parameter => parameter.in === 'path');
+  const queryParameters = (operation.parameters ?? []).filter(parameter => parameter.in === 'query');
+
+  if (pathParameters.length > 0) {
+    types.push(`export type ${name}Params = ${parametersType(pathParameters.map(parameter => ({ ...parameter, schema: { type: 'string' } })))};`);
+    inputs.push(`params: ${name}Params`);
+    inputRequired = true;
+  }
+  if (queryParameters.length > 0) {
+    const required = queryParameters.some(parameter => parameter.required);
+    types.push(`export type ${name}Query = ${parametersType(queryParameters)};`);
+    inputs.push(`query${required ? '' : '?'}: ${name}Query`);
+    inputRequired ||= required;
+  }
+  if (operation.requestBody) {
+    const required = operation.requestBody.required;
+    types.push(`export type ${name}Body = ${schemaToType(operation.requestBody.content['application/json'].schema)};`);
+    inputs.push(`body${required ? '' : '?'}: ${name}Body`);
+    inputRequired ||= required;
+  }
+
+  const [contentType, { schema: responseSchema }] = Object.entries(operation.responses['200'].content ?? {})[0];
+  const responseType = contentType === 'application/json' ? 'json' : 'text';
+  types.push(`export type ${name}Response = ${schemaToType(responseSchema)};`);
+
+  const signature = inputs.length === 0
+    ? '()'
+    : `(input: { ${inputs.join('; ')} }${inputRequired ? '' : ' = {}'})`;
+  const call = `send<${name}Response>(options, '${httpMethod.toUpperCase()}', '${path}', ${inputs.length === 0 ? '{}' : 'input'}, '${responseType}')`;
+
+  return {
+    types,
+    method: [
+      `    /** ${operation.summary} - ${httpMethod.toUpperCase()} ${path} */`,
+      `    ${operation.operationId}: ${signature} => ${call},`,
+    ].join('\n'),
+  };
+}
+
+/**
+ * Web operations that the developer API also serves (v1 operation ids are 'v1' + the web operation id)
+ */
+function v1OperationTable(document: OpenApiDocument): string {
+  const webOperations = new Map<string, { path: string; method: string }>();
+  const v1Operations: Array<{ operationId: string; path: string; method: string }> = [];
+
+  for (const [path, methods] of Object.entries(document.paths)) {
+    for (const [method, operation] of Object.entries(methods)) {
+      if (path.startsWith('/api/v1/')) {
+        const target = operation.operationId.slice('v1'.length);
+        v1Operations.push({ operationId: target[0].toLowerCase() + target.slice(1), path, method });
+      } else {
+        webOperations.set(operation.operationId, { path, method });
+      }
+    }
+  }
+
+  const rows = v1Operations.map(({ operationId, path, method }) => {
+    const web = webOperations.get(operationId);
+    if (!web || web.method !== method) {
+      throw new Error(`v1 operation ${path} has no matching web operation ${operationId}`);
+    }
+    return `  { operationId: '${operationId}', method: '${method.toUpperCase()}', path: '${web.path}', v1Path: '${path}' },`;
+  });
+
+  return [
+    '/**',
+    ' * Web operations also served by the signed developer API - same input, response wrapped in the v1 envelope',
+    ' */',
+    'export const apiV1Operations: ReadonlyArray<{ operationId: string; method: string; path: string; v1Path: string }> = [',
+    ...rows,
+    '];',
+  ].join('\n');
+}
+
+export function generateApiClient(document: OpenApiDocument): string {
+  const operations = Object.entries(document.paths)
+    .filter(([path]) => !path.startsWith('/api/v1/'))
+    .flatMap(([path, methods]) => Object.entries(methods).map(([httpMethod, operation]) =>
+      generateOperation(path, httpMethod, operation)
+    ));
+
+  return [
+    HEADER,
+    operations.flatMap(operation => operation.types).join('\n\n'),
+    '',
+    v1OperationTable(document),
+    '',
+    'export function createApiClient(options: ApiClientOptions = {}) {',
+    '  return {',
+    operations.map(operation => operation.method).join('\n'),
+    '  };',
+    '}',
+    '',
+    'export type ApiClient = ReturnType<typeof createApiClient>;',
+    '',
+    '// Same-origin client with the session cookie (React pages)',
+    'export const api = createApiClient();',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,1157 @@
+import { z } from "zod";
+import { createSelectSchema } from "drizzle-zod";
+import {
+  wallets,
+  deposits,
+  withdrawals,
+  transactions,
+  swapJobs,
+  limitOrders,
+  tpSlRules,
+  dcaSchedules,
+  alerts,
+  alertDeliveries,
+  costLots,
+  lotDisposals,
+  solLedgerEntries,
+  transferTransitions,
+  tradingSettings,
+  webhookDeliveries
+} from "@shared/schema";
+import { API_KEY_SCOPES, type ApiKeyScope } from "./api-signing";
+import { CANDLE_INTERVAL_NAMES, type CandleInterval } from "./ohlc";
+import { PORTFOLIO_HISTORY_RANGES, type PortfolioHistoryRange } from "./portfolio-history";
+import { WEBHOOK_EVENT_TYPES, type WebhookEventType } from "./webhook-delivery";
+
+/**
+ * API Contract - request and response schemas of every web route
+ *
+ * Single source for:
+ *   - runtime validation of params, query and body (server/validation.ts)
+ *   - the OpenAPI document served at /api/openapi.json (server/openapi.ts)
+ *   - the typed client used by the React pages (shared/api-client.ts, generated)
+ *
+ * Keys are the OpenAPI operationIds. Paths use Express syntax (:param).
+ * Handlers keep their business checks (balances, limits, ownership); schemas cover shape and types.
+ */
+
+export type ApiAuth = 'public' | 'session' | 'admin';
+
+export interface ApiRoute {
+  method: 'get' | 'post' | 'put' | 'delete';
+  path: string;
+  summary: string;
+  tag: string;
+  auth: ApiAuth;
+  params?: z.AnyZodObject;
+  query?: z.AnyZodObject;
+  body?: z.ZodTypeAny;
+  response: z.ZodTypeAny;
+  responseContentType?: string; // Defaults to application/json
+}
+
+// ======================
+// Shared schemas
+// ======================
+
+// Amounts are accepted as JSON numbers or decimal strings ("0.5")
+const numeric = z.union([z.number(), z.string()])
+  .refine(value => value !== '' && Number.isFinite(Number(value)), { message: "Expected a number" });
+const positiveNumeric = numeric.refine(value => Number(value) > 0, { message: "Must be greater than zero" });
+
+const isoDate = z.string()
+  .refine(value => !isNaN(new Date(value).getTime()), { message: "Expected an ISO 8601 date" })
+  .describe("ISO 8601 date");
+
+const pageQuery = z.coerce.number().int().min(1);
+const taxYearQuery = z.object({
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+});
+
+const tradeType = z.enum(['buy', 'sell']);
+const transferKind = z.enum(['deposit', 'withdrawal']);
+const candleInterval = z.enum(CANDLE_INTERVAL_NAMES as [CandleInterval, ...CandleInterval[]]);
+const portfolioHistoryRange = z.enum(Object.keys(PORTFOLIO_HISTORY_RANGES) as [PortfolioHistoryRange, ...PortfolioHistoryRange[]]);
+const apiKeyScope = z.enum(API_KEY_SCOPES as unknown as [ApiKeyScope, ...ApiKeyScope[]]);
+const webhookEventType = z.enum(WEBHOOK_EVENT_TYPES as unknown as [WebhookEventType, ...WebhookEventType[]]);
+
+const mintParams = z.object({ mint: z.string().min(1) });
+const transferParams = z.object({ kind: transferKind, id: z.string().min(1) });
+
+export const apiErrorSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  issues: z.array(z.object({
+    path: z.string(),
+    message: z.string(),
+  })).optional().describe("Present on validation errors"),
+});
+
+export type ApiErrorBody = z.infer<typeof apiErrorSchema>;
+
+function ok<T extends z.ZodRawShape>(shape: T) {
+  return z.object({ success: z.literal(true), ...shape });
+}
+
+const okEmpty = ok({});
+
+const transactionRow = createSelectSchema(transactions);
+const swapJobRow = createSelectSchema(swapJobs);
+const depositRow = createSelectSchema(deposits);
+const withdrawalRow = createSelectSchema(withdrawals);
+const limitOrderRow = createSelectSchema(limitOrders);
+const tpSlRuleRow = createSelectSchema(tpSlRules);
+const dcaScheduleRow = createSelectSchema(dcaSchedules);
+const alertRow = createSelectSchema(alerts);
+const alertDeliveryRow = createSelectSchema(alertDeliveries);
+const costLotRow = createSelectSchema(costLots);
+const lotDisposalRow = createSelectSchema(lotDisposals);
+const solLedgerEntryRow = createSelectSchema(solLedgerEntries);
+const transferTransitionRow = createSelectSchema(transferTransitions);
+const tradingSettingsRow = createSelectSchema(tradingSettings);
+
+// Wallet rows are returned without the (encrypted) private key
+const walletInfo = createSelectSchema(wallets).omit({ privateKey: true });
+
+const technicalStep = z.object({
+  step: z.number().int(),
+  status: z.enum(['pending', 'waiting', 'active', 'completed', 'failed']),
+  label: z.string(),
+  description: z.string(),
+});
+
+const bridgeEstimate = z.object({
+  kind: transferKind,
+  provider: z.string(),
+  route: z.string(),
+  amountSol: z.string(),
+  intermediateAmount: z.string(),
+  intermediateTicker: z.string(),
+  bridgeOutputSol: z.string(),
+  receiveSol: z.string(),
+  receiveUsd: z.string(),
+  spreadSol: z.string(),
+  spreadUsd: z.string(),
+  spreadPercent: z.string(),
+  feePaidBy: z.enum(['platform', 'user']),
+  solPriceUsd: z.string(),
+  limits: z.object({
+    minSol: z.number(),
+    maxSol: z.number().nullable(),
+  }),
+  etaMinutes: z.object({
+    min: z.number(),
+    max: z.number(),
+  }),
+});
+
+const pagination = z.object({
+  page: z.number().int(),
+  limit: z.number().int(),
+  totalCount: z.number().int(),
+  totalPages: z.number().int(),
+});
+
+const explorerCategory = z.enum(['Transfer In', 'Transfer Out', 'Buy', 'Sell']);
+
+const tokenMetadataInfo = z.object({
+  mint: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  decimals: z.number().int(),
+  logoURI: z.string().optional(),
+  source: z.string().nullable(),
+  tokenProgram: z.enum(['spl-token', 'spl-token-2022']),
+  mintAuthority: z.string().nullable(),
+  freezeAuthority: z.string().nullable(),
+  transferFeeBps: z.number().nullable(),
+  extensions: z.array(z.string()),
+  flags: z.array(z.enum(['freeze_authority', 'transfer_fee', 'permanent_delegate', 'transfer_hook', 'non_transferable', 'default_frozen'])),
+  mintAccountReadAt: z.date().nullable(),
+  overridden: z.boolean(),
+  refreshedAt: z.date().nullable(),
+});
+
+const tokenRiskReport = z.object({
+  mint: z.string(),
+  score: z.number(),
+  level: z.enum(['low', 'medium', 'high']),
+  checks: z.array(z.object({
+    id: z.enum(['mint_authority', 'freeze_authority', 'token_extensions', 'holder_concentration', 'liquidity', 'token_age', 'sell_tax']),
+    status: z.enum(['pass', 'warn', 'fail', 'unknown']),
+    detail: z.string(),
+    penalty: z.number(),
+  })),
+  scannedAt: z.date(),
+});
+
+const solvencyReport = z.object({
+  generatedAt: z.string(),
+  systemWallets: z.array(z.string()),
+  entries: z.array(z.object({
+    mint: z.string(),
+    symbol: z.string(),
+    liabilities: z.number(),
+    onChain: z.number(),
+    difference: z.number(),
+    status: z.enum(['surplus', 'deficit', 'balanced']),
+  })),
+  deficitCount: z.number().int(),
+  underCollateralized: z.boolean(),
+});
+
+const tradingPreferences = tradingSettingsRow.pick({
+  slippageBps: true,
+  maxPriceImpactPct: true,
+  priorityFeeTier: true,
+  antiMev: true,
+  costBasisMethod: true,
+  blockHighRiskBuys: true,
+});
+
+const publicApiKey = z.object({
+  id: z.string(),
+  name: z.string(),
+  keyPrefix: z.string(),
+  scopes: z.array(apiKeyScope),
+  rateLimitPerMinute: z.number().int(),
+  lastUsedAt: z.date().nullable(),
+  revokedAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
+const publicWebhook = z.object({
+  id: z.string(),
+  url: z.string(),
+  events: z.array(webhookEventType),
+  disabledAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
+const webhookDeliveryStatus = createSelectSchema(webhookDeliveries).shape.status;
+const publicWebhookDelivery = z.object({
+  id: z.string(),
+  webhookId: z.string(),
+  eventId: z.string(),
+  eventType: webhookEventType,
+  event: z.object({
+    id: z.string(),
+    type: webhookEventType,
+    createdAt: z.string(),
+    data: z.record(z.unknown()),
+  }),
+  status: webhookDeliveryStatus,
+  attempts: z.number().int(),
+  nextAttemptAt: z.date().nullable(),
+  lastStatusCode: z.number().int().nullable(),
+  lastError: z.string().nullable(),
+  replayOf: z.string().nullable(),
+  deliveredAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
+const swapQuote = z.object({
+  inputAmount: numeric,
+  outputAmount: z.string(),
+  priceImpactPct: z.string(),
+  transaction: z.string().nullable().optional(),
+  requestId: z.string().optional(),
+  inAmount: z.string().optional(),
+  outAmount: z.string().optional(),
+  inputMint: z.string().optional(),
+  outputMint: z.string().optional(),
+  slippageBps: z.number().optional(),
+});
+
+// ======================
+// Routes
+// ======================
+
+export const apiRoutes = {
+  // Wallet
+  createWallet: {
+    method: 'post', path: "/api/wallet/create", tag: 'Wallet', auth: 'public',
+    summary: "Create a wallet and log in to it (the private key is only returned here)",
+    response: ok({
+      walletId: z.string(),
+      privateKey: z.array(z.number().int()),
+      message: z.string(),
+    }),
+  },
+  loginWallet: {
+    method: 'post', path: "/api/wallet/login", tag: 'Wallet', auth: 'public',
+    summary: "Log in with a 64-byte private key",
+    body: z.object({
+      privateKey: z.array(z.number().int().min(0).max(255)).length(64),
+    }),
+    response: ok({
+      walletId: z.string(),
+      solBalance: z.string(),
+      usdValue: z.string(),
+      solPrice: z.string(),
+      message: z.string(),
+    }),
+  },
+  getWalletAddress: {
+    method: 'get', path: "/api/wallet/address", tag: 'Wallet', auth: 'session',
+    summary: "ANV address of the active wallet",
+    response: ok({
+      address: z.string(),
+      walletId: z.string(),
+    }),
+  },
+  getWalletBalance: {
+    method: 'get', path: "/api/wallet/balance", tag: 'Wallet', auth: 'session',
+    summary: "SOL and token balances with USD values",
+    response: ok({
+      sol: z.object({
+        amount: z.string(),
+        priceUsd: z.string(),
+        totalUsd: z.string(),
+      }),
+      tokens: z.array(z.object({
+        mint: z.string(),
+        symbol: z.string(),
+        amount: z.string(),
+        priceUsd: z.string(),
+        totalUsd: z.string(),
+        logoURI: z.string().optional(),
+      })),
+      totalUsd: z.string(),
+    }),
+  },
+  logoutWallet: {
+    method: 'post', path: "/api/wallet/logout", tag: 'Wallet', auth: 'public',
+    summary: "End the session",
+    response: ok({ message: z.string() }),
+  },
+  streamWalletEvents: {
+    method: 'get', path: "/api/stream", tag: 'Wallet', auth: 'session',
+    summary: "Server-Sent Events for the active wallet (event shapes: shared/stream-events.ts)",
+    response: z.string(),
+    responseContentType: 'text/event-stream',
+  },
+  listWallets: {
+    method: 'get', path: "/api/wallet/list", tag: 'Wallet', auth: 'session',
+    summary: "Wallets available to the session",
+    response: ok({ wallets: z.array(walletInfo) }),
+  },
+  switchWallet: {
+    method: 'post', path: "/api/wallet/switch", tag: 'Wallet', auth: 'session',
+    summary: "Make another wallet the active one",
+    body: z.object({ walletId: z.string().min(1) }),
+    response: ok({ message: z.string() }),
+  },
+  exportWalletKey: {
+    method: 'get', path: "/api/wallet/export-key", tag: 'Wallet', auth: 'session',
+    summary: "Private key of the active wallet (JSON byte array)",
+    response: ok({ privateKey: z.string() }),
+  },
+  importWallet: {
+    method: 'post', path: "/api/wallet/import", tag: 'Wallet', auth: 'session',
+    summary: "Import a wallet by private key and switch to it",
+    body: z.object({
+      privateKey: z.string().min(1).describe("JSON array of 64 bytes"),
+    }),
+    response: ok({
+      message: z.string(),
+      walletId: z.string(),
+    }),
+  },
+  getSolLedger: {
+    method: 'get', path: "/api/wallet/ledger", tag: 'Wallet', auth: 'session',
+    summary: "Audit trail of SOL balance changes (newest first)",
+    query: z.object({
+      limit: z.coerce.number().int().min(1).max(200).optional(),
+    }),
+    response: ok({ entries: z.array(solLedgerEntryRow) }),
+  },
+
+  // Deposit
+  estimateDeposit: {
+    method: 'get', path: "/api/deposit/estimate", tag: 'Deposit', auth: 'session',
+    summary: "Quote what a deposit of the given SOL amount would credit",
+    query: z.object({ amount: positiveNumeric }),
+    response: ok({ estimate: bridgeEstimate }),
+  },
+  initiateDeposit: {
+    method: 'post', path: "/api/deposit/initiate", tag: 'Deposit', auth: 'session',
+    summary: "Start a dual-bridge deposit",
+    body: z.object({ solAmount: positiveNumeric }),
+    response: ok({
+      deposit: z.object({
+        id: z.string(),
+        status: depositRow.shape.status,
+        usdAmount: z.string(),
+        solAmount: z.string(),
+        step1DepositAddress: z.string(),
+        step1ExchangeId: z.string(),
+        technicalSteps: z.array(technicalStep),
+      }),
+      message: z.string(),
+    }),
+  },
+  getDepositStatus: {
+    method: 'get', path: "/api/deposit/status/:depositId", tag: 'Deposit', auth: 'session',
+    summary: "Live status of a deposit with its technical steps",
+    params: z.object({ depositId: z.string().min(1) }),
+    response: ok({
+      depositId: z.string(),
+      status: depositRow.shape.status,
+      solAmount: z.string().nullable(),
+      solReceived: z.string().nullable(),
+      technicalSteps: z.array(technicalStep),
+    }),
+  },
+  recoverDeposit: {
+    method: 'post', path: "/api/deposit/recover/:depositId", tag: 'Deposit', auth: 'session',
+    summary: "Start step 2 of a stuck deposit with the intermediate amount received",
+    params: z.object({ depositId: z.string().min(1) }),
+    body: z.object({ trxAmount: positiveNumeric }),
+    response: ok({
+      message: z.string(),
+      step2ExchangeId: z.string(),
+      depositStatus: z.string(),
+    }),
+  },
+  triggerDepositStep2: {
+    method: 'post', path: "/api/deposit/manual-trigger/:depositId", tag: 'Deposit', auth: 'session',
+    summary: "Start step 2 of a deposit whose first hop finished",
+    params: z.object({ depositId: z.string().min(1) }),
+    response: ok({
+      message: z.string(),
+      step2ExchangeId: z.string(),
+      trxAmount: z.string(),
+      depositStatus: z.string(),
+    }),
+  },
+  getDepositHistory: {
+    method: 'get', path: "/api/deposit/history", tag: 'Deposit', auth: 'session',
+    summary: "Deposits of the active wallet",
+    response: ok({ deposits: z.array(depositRow) }),
+  },
+
+  // Withdraw
+  estimateWithdrawal: {
+    method: 'get', path: "/api/withdraw/estimate", tag: 'Withdraw', auth: 'session',
+    summary: "Quote what a withdrawal of the given SOL amount would deliver",
+    query: z.object({ amount: positiveNumeric }),
+    response: ok({ estimate: bridgeEstimate }),
+  },
+  initiateWithdrawal: {
+    method: 'post', path: "/api/withdraw/initiate", tag: 'Withdraw', auth: 'session',
+    summary: "Withdraw SOL to a Solana address through the dual bridge",
+    body: z.object({
+      destinationAddress: z.string().min(1),
+      solAmount: positiveNumeric,
+    }),
+    response: ok({
+      withdrawal: z.object({
+        id: z.string(),
+        status: withdrawalRow.shape.status,
+        solDeducted: z.string(),
+        step1DepositAddress: z.string(),
+        step1ExchangeId: z.string(),
+      }),
+    }),
+  },
+  createTestWithdrawal: {
+    method: 'post', path: "/api/withdraw/test-create", tag: 'Withdraw', auth: 'public',
+    summary: "Create a withdrawal for a wallet without a session (testing only)",
+    body: z.object({
+      walletId: z.string().min(1),
+      destinationAddress: z.string().min(1),
+      solAmount: positiveNumeric,
+    }),
+    response: ok({
+      withdrawal: z.object({
+        id: z.string(),
+        status: withdrawalRow.shape.status,
+        step1TxId: z.string(),
+        step1ExchangeId: z.string(),
+      }),
+    }),
+  },
+  getWithdrawalStatus: {
+    method: 'get', path: "/api/withdraw/status/:withdrawId", tag: 'Withdraw', auth: 'session',
+    summary: "Live status of a withdrawal with its technical steps",
+    params: z.object({ withdrawId: z.string().min(1) }),
+    response: ok({
+      withdrawal: z.object({
+        id: z.string(),
+        status: withdrawalRow.shape.status,
+        destinationAddress: z.string(),
+        solDeducted: z.string().nullable(),
+        solSent: z.string().nullable(),
+        step2TxTo: z.string().nullable(),
+      }),
+      technicalSteps: z.array(technicalStep),
+    }),
+  },
+  getWithdrawalHistory: {
+    method: 'get', path: "/api/withdraw/history", tag: 'Withdraw', auth: 'session',
+    summary: "Withdrawals of the active wallet",
+    response: ok({ withdrawals: z.array(withdrawalRow) }),
+  },
+
+  // Swap
+  getSwapQuote: {
+    method: 'post', path: "/api/swap/quote", tag: 'Swap', auth: 'session',
+    summary: "Quote a buy (amount in SOL) or sell (amount in tokens)",
+    body: z.object({
+      tokenAddress: z.string().min(1),
+      amount: positiveNumeric,
+      type: tradeType,
+    }),
+    response: ok({
+      quote: swapQuote,
+      cost: z.string(),
+    }),
+  },
+  executeSwap: {
+    method: 'post', path: "/api/swap/execute", tag: 'Swap', auth: 'session',
+    summary: "Execute a quote returned by getSwapQuote",
+    body: z.object({
+      tokenAddress: z.string().min(1),
+      tokenSymbol: z.string().optional(),
+      amount: positiveNumeric,
+      type: tradeType,
+      quote: swapQuote,
+    }),
+    response: ok({
+      txhash: z.string(),
+      newBalance: z.string(),
+      message: z.string(),
+      blockchainTx: z.string(),
+    }),
+  },
+  getSwapStatus: {
+    method: 'get', path: "/api/swap/status/:txhash", tag: 'Swap', auth: 'session',
+    summary: "Status of a swap by ANV transaction hash (background job for orders, DCA and Telegram trades)",
+    params: z.object({ txhash: z.string().min(1) }),
+    response: ok({
+      swap: z.object({
+        txhash: z.string(),
+        type: tradeType,
+        tokenMint: z.string().nullable(),
+        tokenSymbol: z.string().nullable(),
+        status: swapJobRow.shape.status,
+        failureReason: z.string().nullable(),
+        chainTxhash: z.string().nullable(),
+        createdAt: z.date(),
+        completedAt: z.date().nullable(),
+      }),
+    }),
+  },
+  getSwapTokenInfo: {
+    method: 'get', path: "/api/swap/token-info/:address", tag: 'Swap', auth: 'public',
+    summary: "Basic token info (placeholder - use getTokenMetadata)",
+    params: z.object({ address: z.string().min(1) }),
+    response: ok({
+      token: z.object({
+        address: z.string(),
+        symbol: z.string(),
+        name: z.string(),
+        decimals: z.number().int(),
+      }),
+    }),
+  },
+
+  // Portfolio
+  getPortfolio: {
+    method: 'get', path: "/api/portfolio", tag: 'Portfolio', auth: 'session',
+    summary: "Holdings with live PnL, summary and recent trades",
+    query: z.object({
+      walletId: z.string().optional().describe("Telegram bot only - web requests use the session"),
+    }),
+    response: ok({
+      summary: z.object({
+        totalPnl: z.string(),
+        unrealizedPnl: z.string(),
+        realizedPnl: z.string(),
+        totalTrades: z.number().int(),
+        winRate: z.string(),
+        totalValue: z.string(),
+        uncertainPrices: z.number().int(),
+      }),
+      holdings: z.array(z.object({
+        mint: z.string(),
+        symbol: z.string(),
+        amount: z.string(),
+        entryPrice: z.string(),
+        currentPrice: z.string(),
+        costBasis: z.string(),
+        currentValue: z.string(),
+        unrealizedPnl: z.string(),
+        pnlPercent: z.string(),
+        priceUncertain: z.boolean(),
+        priceConfidence: z.number(),
+        priceStalenessMs: z.number().nullable(),
+      })),
+      recentTrades: z.array(z.object({
+        txhash: z.string(),
+        type: transactionRow.shape.type,
+        tokenSymbol: z.string().nullable(),
+        amount: z.string(),
+        priceUsd: z.string().nullable(),
+        timestamp: z.date(),
+      })),
+    }),
+  },
+  getPortfolioHistory: {
+    method: 'get', path: "/api/portfolio/history", tag: 'Portfolio', auth: 'session',
+    summary: "Portfolio value over time from snapshots",
+    query: z.object({ range: portfolioHistoryRange.optional() }),
+    response: ok({
+      range: portfolioHistoryRange,
+      points: z.array(z.object({
+        timestamp: z.date(),
+        totalValueUsd: z.string(),
+        solBalance: z.string(),
+        tokenValueUsd: z.string(),
+      })),
+    }),
+  },
+
+  // Explorer
+  listExplorerTransactions: {
+    method: 'get', path: "/api/explorer/transactions", tag: 'Explorer', auth: 'public',
+    summary: "All transactions, newest first (ANV addresses only)",
+    query: z.object({
+      page: pageQuery.optional(),
+      limit: z.coerce.number().int().min(1).max(100).optional(),
+      type: transactionRow.shape.type.optional(),
+      status: transactionRow.shape.status.optional(),
+    }),
+    response: ok({
+      transactions: z.array(z.object({
+        txhash: z.string(),
+        category: explorerCategory,
+        type: transactionRow.shape.type,
+        instructions: z.string().nullable(),
+        blockNumber: z.string().nullable(),
+        solValue: z.string().nullable(),
+        tokenSymbol: z.string(),
+        amount: z.string(),
+        usdValue: z.string(),
+        status: transactionRow.shape.status,
+        timestamp: z.date(),
+        wallet: z.string().nullable(),
+      })),
+      pagination,
+    }),
+  },
+  getExplorerStats: {
+    method: 'get', path: "/api/explorer/stats", tag: 'Explorer', auth: 'public',
+    summary: "Network totals, volume and activity",
+    response: ok({
+      stats: z.object({
+        totalTransactions: z.number().int(),
+        completedTransactions: z.number().int(),
+        uniqueWallets: z.number().int(),
+        allTimeVolume: z.string(),
+        volume24h: z.string(),
+        avgTransactionValue: z.string(),
+        transactions24h: z.number().int(),
+        networkStatus: z.enum(['Online', 'Offline']),
+        networkActivity: z.number().int(),
+      }),
+    }),
+  },
+  getExplorerTransaction: {
+    method: 'get', path: "/api/explorer/tx/:hash", tag: 'Explorer', auth: 'public',
+    summary: "Transaction detail by ANV hash",
+    params: z.object({ hash: z.string().min(1) }),
+    response: ok({
+      transaction: z.object({
+        txhash: z.string(),
+        chainTxhash: z.string().nullable(),
+        category: explorerCategory,
+        type: transactionRow.shape.type,
+        tokenAddress: z.string().nullable(),
+        tokenSymbol: z.string(),
+        amount: z.string(),
+        priceUsd: z.string().nullable(),
+        solValue: z.string().nullable(),
+        instructions: z.string().nullable(),
+        blockNumber: z.string().nullable(),
+        usdValue: z.string(),
+        costBasisAtSale: z.string().nullable(),
+        realizedPnl: z.string().nullable(),
+        status: transactionRow.shape.status,
+        timestamp: z.date(),
+        wallet: z.string().nullable(),
+      }),
+    }),
+  },
+  getExplorerWallet: {
+    method: 'get', path: "/api/explorer/wallet/:anvAddress", tag: 'Explorer', auth: 'public',
+    summary: "Transaction history of an ANV address",
+    params: z.object({ anvAddress: z.string().min(1) }),
+    query: z.object({
+      page: pageQuery.optional(),
+      limit: z.coerce.number().int().min(1).max(100).optional(),
+      type: transactionRow.shape.type.optional(),
+    }),
+    response: ok({
+      wallet: z.object({
+        anvAddress: z.string().nullable(),
+        createdAt: z.date(),
+      }),
+      transactions: z.array(z.object({
+        txhash: z.string(),
+        category: explorerCategory,
+        type: transactionRow.shape.type,
+        tokenSymbol: z.string(),
+        amount: z.string(),
+        usdValue: z.string(),
+        status: transactionRow.shape.status,
+        timestamp: z.date(),
+      })),
+      pagination,
+    }),
+  },
+
+  // pANV rewards
+  calculatePanvRewards: {
+    method: 'post', path: "/api/panv/calculate-rewards", tag: 'pANV', auth: 'public',
+    summary: "Calculate pANV rewards for a SOL address holding ANV",
+    body: z.object({
+      solAddress: z.string().min(1),
+      anvWalletAddress: z.string().min(1),
+    }),
+    response: ok({
+      eligible: z.boolean(),
+      message: z.string().optional(),
+      data: z.object({
+        anvTokenBalance: z.string(),
+        minimumRequired: z.string().optional(),
+        eligible: z.boolean().optional(),
+        tradingVolumeUsd: z.string().optional(),
+        holdingMultiplier: z.string().optional(),
+        volumeMultiplier: z.string().optional(),
+        totalPanvEarned: z.string().optional(),
+        calculatedAt: z.string().optional(),
+      }),
+    }),
+  },
+  getPanvRewards: {
+    method: 'get', path: "/api/panv/rewards/:solAddress", tag: 'pANV', auth: 'public',
+    summary: "Last calculated pANV rewards of a linked SOL address",
+    params: z.object({ solAddress: z.string().min(1) }),
+    response: ok({
+      message: z.string().optional(),
+      data: z.object({
+        solAddress: z.string(),
+        anvWalletAddress: z.string(),
+        anvTokenBalance: z.string(),
+        tradingVolumeUsd: z.string(),
+        holdingMultiplier: z.string(),
+        volumeMultiplier: z.string(),
+        totalPanvEarned: z.string(),
+        isEligible: z.boolean(),
+        calculatedAt: z.date(),
+        lastCheckedAt: z.date(),
+      }).nullable(),
+    }),
+  },
+
+  // Limit orders
+  createLimitOrder: {
+    method: 'post', path: "/api/orders/limit", tag: 'Orders', auth: 'session',
+    summary: "Create a resting limit order",
+    body: z.object({
+      tokenAddress: z.string().min(1),
+      type: tradeType,
+      targetPrice: positiveNumeric,
+      priceCurrency: z.enum(['usd', 'sol']).optional(),
+      solAmount: positiveNumeric.optional().describe("Buy orders"),
+      tokenAmount: positiveNumeric.optional().describe("Sell orders"),
+      expiresInHours: positiveNumeric.nullable().optional(),
+    }),
+    response: ok({ order: limitOrderRow }),
+  },
+  listLimitOrders: {
+    method: 'get', path: "/api/orders/limit", tag: 'Orders', auth: 'session',
+    summary: "Limit orders of the active wallet",
+    query: z.object({ status: limitOrderRow.shape.status.optional() }),
+    response: ok({ orders: z.array(limitOrderRow) }),
+  },
+  cancelLimitOrder: {
+    method: 'post', path: "/api/orders/limit/:orderId/cancel", tag: 'Orders', auth: 'session',
+    summary: "Cancel an open limit order",
+    params: z.object({ orderId: z.string().min(1) }),
+    response: okEmpty,
+  },
+
+  // Take-profit / stop-loss
+  createTpSlRule: {
+    method: 'post', path: "/api/tpsl", tag: 'Orders', auth: 'session',
+    summary: "Create a take-profit or stop-loss rule on a holding",
+    body: z.object({
+      mint: z.string().min(1),
+      kind: tpSlRuleRow.shape.kind,
+      triggerType: tpSlRuleRow.shape.triggerType,
+      triggerValue: positiveNumeric,
+      sellPercent: positiveNumeric.optional(),
+    }),
+    response: ok({ rule: tpSlRuleRow }),
+  },
+  listTpSlRules: {
+    method: 'get', path: "/api/tpsl", tag: 'Orders', auth: 'session',
+    summary: "TP/SL rules of the active wallet",
+    query: z.object({ status: tpSlRuleRow.shape.status.optional() }),
+    response: ok({ rules: z.array(tpSlRuleRow) }),
+  },
+  cancelTpSlRule: {
+    method: 'post', path: "/api/tpsl/:ruleId/cancel", tag: 'Orders', auth: 'session',
+    summary: "Cancel an active TP/SL rule",
+    params: z.object({ ruleId: z.string().min(1) }),
+    response: okEmpty,
+  },
+
+  // DCA
+  createDcaSchedule: {
+    method: 'post', path: "/api/dca", tag: 'DCA', auth: 'session',
+    summary: "Create a recurring buy schedule",
+    body: z.object({
+      tokenAddress: z.string().min(1),
+      solAmount: positiveNumeric,
+      intervalHours: positiveNumeric,
+      totalIterations: positiveNumeric.nullable().optional().describe("Omit to buy until cancelled"),
+    }),
+    response: ok({ schedule: dcaScheduleRow }),
+  },
+  listDcaSchedules: {
+    method: 'get', path: "/api/dca", tag: 'DCA', auth: 'session',
+    summary: "DCA schedules of the active wallet",
+    response: ok({ schedules: z.array(dcaScheduleRow) }),
+  },
+  pauseDcaSchedule: {
+    method: 'post', path: "/api/dca/:scheduleId/pause", tag: 'DCA', auth: 'session',
+    summary: "Pause an active schedule",
+    params: z.object({ scheduleId: z.string().min(1) }),
+    response: okEmpty,
+  },
+  resumeDcaSchedule: {
+    method: 'post', path: "/api/dca/:scheduleId/resume", tag: 'DCA', auth: 'session',
+    summary: "Resume a paused schedule",
+    params: z.object({ scheduleId: z.string().min(1) }),
+    response: okEmpty,
+  },
+  deleteDcaSchedule: {
+    method: 'delete', path: "/api/dca/:scheduleId", tag: 'DCA', auth: 'session',
+    summary: "Delete a schedule (placed buys stay in the history)",
+    params: z.object({ scheduleId: z.string().min(1) }),
+    response: okEmpty,
+  },
+
+  // Alerts
+  createAlert: {
+    method: 'post', path: "/api/alerts", tag: 'Alerts', auth: 'session',
+    summary: "Create a price, position PnL or portfolio value alert",
+    body: z.object({
+      kind: alertRow.shape.kind,
+      mint: z.string().nullable().optional().describe("Required for price and position alerts"),
+      threshold: numeric,
+      cooldownMinutes: z.coerce.number().int().optional(),
+    }),
+    response: ok({ alert: alertRow }),
+  },
+  listAlerts: {
+    method: 'get', path: "/api/alerts", tag: 'Alerts', auth: 'session',
+    summary: "Alerts of the active wallet",
+    query: z.object({ status: alertRow.shape.status.optional() }),
+    response: ok({ alerts: z.array(alertRow) }),
+  },
+  listAlertDeliveries: {
+    method: 'get', path: "/api/alerts/deliveries", tag: 'Alerts', auth: 'session',
+    summary: "Delivery log of fired alerts (newest first)",
+    query: z.object({
+      limit: z.coerce.number().int().min(1).max(200).optional(),
+    }),
+    response: ok({ deliveries: z.array(alertDeliveryRow) }),
+  },
+  cancelAlert: {
+    method: 'post', path: "/api/alerts/:alertId/cancel", tag: 'Alerts', auth: 'session',
+    summary: "Cancel an active alert",
+    params: z.object({ alertId: z.string().min(1) }),
+    response: okEmpty,
+  },
+
+  // Prices
+  getPriceCandles: {
+    method: 'get', path: "/api/prices/:mint/candles", tag: 'Prices', auth: 'public',
+    summary: "OHLC candles of a token",
+    params: mintParams,
+    query: z.object({
+      interval: candleInterval.optional(),
+      from: isoDate.optional(),
+      to: isoDate.optional(),
+      limit: z.coerce.number().int().min(1).max(1000).optional(),
+    }),
+    response: ok({
+      mint: z.string(),
+      interval: candleInterval,
+      candles: z.array(z.object({
+        openTime: z.date(),
+        open: z.number(),
+        high: z.number(),
+        low: z.number(),
+        close: z.number(),
+        samples: z.number().int(),
+      })),
+    }),
+  },
+  getPriceAt: {
+    method: 'get', path: "/api/prices/:mint/at", tag: 'Prices', auth: 'public',
+    summary: "Price of a token at a point in time vs now",
+    params: mintParams,
+    query: z.object({ time: isoDate }),
+    response: ok({
+      mint: z.string(),
+      time: z.date(),
+      priceAt: z.number().nullable(),
+      resolution: candleInterval.nullable(),
+      priceNow: z.number().nullable(),
+      changePercent: z.number().nullable(),
+    }),
+  },
+
+  // Tokens
+  getTokenMetadata: {
+    method: 'get', path: "/api/tokens/:mint/metadata", tag: 'Tokens', auth: 'public',
+    summary: "Resolved token metadata with Token-2022 and authority flags",
+    params: mintParams,
+    response: ok({ metadata: tokenMetadataInfo }),
+  },
+  getTokenRisk: {
+    method: 'get', path: "/api/tokens/:mint/risk", tag: 'Tokens', auth: 'public',
+    summary: "Risk score and safety checks of a token",
+    params: mintParams,
+    response: ok({ report: tokenRiskReport }),
+  },
+
+  // Tax
+  listCostLots: {
+    method: 'get', path: "/api/tax/lots", tag: 'Tax', auth: 'session',
+    summary: "Open cost lots of the active wallet",
+    query: z.object({ mint: z.string().optional() }),
+    response: ok({ lots: z.array(costLotRow) }),
+  },
+  listDisposals: {
+    method: 'get', path: "/api/tax/disposals", tag: 'Tax', auth: 'session',
+    summary: "Sells matched to lots",
+    query: taxYearQuery,
+    response: ok({ disposals: z.array(lotDisposalRow.extend({ txhash: z.string() })) }),
+  },
+  getRealizedGains: {
+    method: 'get', path: "/api/tax/summary", tag: 'Tax', auth: 'session',
+    summary: "Realized gains split into short-term and long-term",
+    query: taxYearQuery,
+    response: ok({
+      summary: z.object({
+        method: tradingSettingsRow.shape.costBasisMethod,
+        year: z.number().int().nullable(),
+        disposals: z.number().int(),
+        proceedsUsd: z.string(),
+        costBasisUsd: z.string(),
+        shortTermGainUsd: z.string(),
+        longTermGainUsd: z.string(),
+        unknownTermGainUsd: z.string(),
+      }),
+    }),
+  },
+  exportDisposalsCsv: {
+    method: 'get', path: "/api/tax/export.csv", tag: 'Tax', auth: 'session',
+    summary: "Disposals as CSV for tax filing",
+    query: taxYearQuery,
+    response: z.string(),
+    responseContentType: 'text/csv',
+  },
+  rebuildCostLots: {
+    method: 'post', path: "/api/tax/rebuild", tag: 'Tax', auth: 'session',
+    summary: "Rebuild lots and disposals by replaying completed trades",
+    response: ok({
+      lots: z.number().int().optional(),
+      disposals: z.number().int().optional(),
+    }),
+  },
+
+  // Settings
+  getTradingSettings: {
+    method: 'get', path: "/api/settings/trading", tag: 'Settings', auth: 'session',
+    summary: "Trading preferences of the active wallet",
+    response: ok({ settings: tradingPreferences }),
+  },
+  updateTradingSettings: {
+    method: 'post', path: "/api/settings/trading", tag: 'Settings', auth: 'session',
+    summary: "Update trading preferences (partial)",
+    body: z.object({
+      slippageBps: z.number().int().optional(),
+      maxPriceImpactPct: numeric.optional(),
+      priorityFeeTier: tradingSettingsRow.shape.priorityFeeTier.optional(),
+      antiMev: z.boolean().optional(),
+      costBasisMethod: tradingSettingsRow.shape.costBasisMethod.optional(),
+      blockHighRiskBuys: z.boolean().optional(),
+    }),
+    response: ok({ settings: tradingPreferences }),
+  },
+
+  // API keys
+  listApiKeys: {
+    method: 'get', path: "/api/api-keys", tag: 'API Keys', auth: 'session',
+    summary: "Developer API keys of the active wallet (revoked keys included)",
+    response: ok({ apiKeys: z.array(publicApiKey) }),
+  },
+  createApiKey: {
+    method: 'post', path: "/api/api-keys", tag: 'API Keys', auth: 'session',
+    summary: "Issue a developer API key (key and secret are only returned here)",
+    body: z.object({
+      name: z.string().trim().min(1).max(50),
+      scopes: z.array(apiKeyScope).optional(),
+      rateLimitPerMinute: z.coerce.number().int().optional(),
+    }),
+    response: ok({
+      apiKey: publicApiKey,
+      key: z.string(),
+      secret: z.string(),
+    }),
+  },
+  revokeApiKey: {
+    method: 'delete', path: "/api/api-keys/:keyId", tag: 'API Keys', auth: 'session',
+    summary: "Revoke a developer API key",
+    params: z.object({ keyId: z.string().min(1) }),
+    response: okEmpty,
+  },
+
+  // Webhooks
+  listWebhooks: {
+    method: 'get', path: "/api/webhooks", tag: 'Webhooks', auth: 'session',
+    summary: "Webhook subscriptions of the active wallet (disabled ones included)",
+    response: ok({ webhooks: z.array(publicWebhook) }),
+  },
+  createWebhook: {
+    method: 'post', path: "/api/webhooks", tag: 'Webhooks', auth: 'session',
+    summary: "Subscribe a URL to wallet events (the signing secret is only returned here)",
+    body: z.object({
+      url: z.string().trim().min(1),
+      events: z.array(webhookEventType).min(1).optional().describe("Defaults to every event type"),
+    }),
+    response: ok({
+      webhook: publicWebhook,
+      secret: z.string(),
+    }),
+  },
+  disableWebhook: {
+    method: 'delete', path: "/api/webhooks/:webhookId", tag: 'Webhooks', auth: 'session',
+    summary: "Stop sending events to a webhook (its delivery log is kept)",
+    params: z.object({ webhookId: z.string().min(1) }),
+    response: okEmpty,
+  },
+  listWebhookDeliveries: {
+    method: 'get', path: "/api/webhooks/deliveries", tag: 'Webhooks', auth: 'session',
+    summary: "Delivery log of the wallet's webhooks (newest first)",
+    query: z.object({
+      webhookId: z.string().min(1).optional(),
+      limit: z.coerce.number().int().min(1).max(200).optional(),
+    }),
+    response: ok({ deliveries: z.array(publicWebhookDelivery) }),
+  },
+  replayWebhookDelivery: {
+    method: 'post', path: "/api/webhooks/deliveries/:deliveryId/replay", tag: 'Webhooks', auth: 'session',
+    summary: "Send a logged event again as a new delivery (same event id)",
+    params: z.object({ deliveryId: z.string().min(1) }),
+    response: ok({ delivery: publicWebhookDelivery }),
+  },
+
+  // Admin
+  getSolvencyReport: {
+    method: 'get', path: "/api/admin/solvency", tag: 'Admin', auth: 'admin',
+    summary: "Latest reconciliation of internal books vs on-chain holdings",
+    response: ok({ report: solvencyReport }),
+  },
+  runSolvencyReconciliation: {
+    method: 'post', path: "/api/admin/solvency/run", tag: 'Admin', auth: 'admin',
+    summary: "Run the solvency reconciliation now",
+    response: ok({ report: solvencyReport }),
+  },
+  listDeadLetterTransfers: {
+    method: 'get', path: "/api/admin/transfers/dead-letter", tag: 'Admin', auth: 'admin',
+    summary: "Deposits and withdrawals that exhausted their retries",
+    response: ok({
+      deposits: z.array(depositRow),
+      withdrawals: z.array(withdrawalRow),
+    }),
+  },
+  getTransferHistory: {
+    method: 'get', path: "/api/admin/transfers/:kind/:id/history", tag: 'Admin', auth: 'admin',
+    summary: "Status transitions of a deposit or withdrawal",
+    params: transferParams,
+    response: ok({ history: z.array(transferTransitionRow) }),
+  },
+  requeueTransfer: {
+    method: 'post', path: "/api/admin/transfers/:kind/:id/requeue", tag: 'Admin', auth: 'admin',
+    summary: "Return a dead-lettered transfer to the status it failed in",
+    params: transferParams,
+    body: z.object({ reason: z.string().optional() }).optional(),
+    response: ok({ status: depositRow.shape.status.optional() }),
+  },
+  setTokenMetadataOverride: {
+    method: 'put', path: "/api/admin/tokens/:mint/metadata", tag: 'Admin', auth: 'admin',
+    summary: "Pin symbol, name or logo of a token",
+    params: mintParams,
+    body: z.object({
+      symbol: z.string().optional(),
+      name: z.string().optional(),
+      logoUri: z.string().nullable().optional(),
+    }),
+    response: ok({ metadata: tokenMetadataInfo.optional() }),
+  },
+  clearTokenMetadataOverride: {
+    method: 'delete', path: "/api/admin/tokens/:mint/metadata", tag: 'Admin', auth: 'admin',
+    summary: "Remove a token's override and re-fetch it",
+    params: mintParams,
+    response: ok({ metadata: tokenMetadataInfo.optional() }),
+  },
+  refreshTokenMetadata: {
+    method: 'post', path: "/api/admin/tokens/:mint/refresh", tag: 'Admin', auth: 'admin',
+    summary: "Re-fetch a token from its sources now",
+    params: mintParams,
+    response: ok({ metadata: tokenMetadataInfo }),
+  },
+
+  // Meta
+  getOpenApiDocument: {
+    method: 'get', path: "/api/openapi.json", tag: 'Meta', auth: 'public',
+    summary: "This OpenAPI document",
+    response: z.record(z.unknown()),
+  },
+} satisfies Record<string, ApiRoute>;
+
+export type ApiOperationId = keyof typeof apiRoutes;
+
+/**
+ * Developer API (/api/v1) operations - each forwards to a web route (server/api-v1.ts)
+ * Path parameters must use the same names as the target route's.
+ */
+export interface ApiV1Route {
+  method: 'get' | 'post';
+  path: string;
+  scope: ApiKeyScope;
+  target: ApiOperationId;
+}
+
+export const apiV1Routes: ApiV1Route[] = [
+  { method: 'get', path: "/api/v1/portfolio", scope: 'read', target: 'getPortfolio' },
+  { method: 'post', path: "/api/v1/swap/quote", scope: 'read', target: 'getSwapQuote' },
+  { method: 'post', path: "/api/v1/swap", scope: 'trade', target: 'executeSwap' },
+  { method: 'get', path: "/api/v1/swap/status/:txhash", scope: 'read', target: 'getSwapStatus' },
+  { method: 'get', path: "/api/v1/deposits/:depositId", scope: 'read', target: 'getDepositStatus' },
+  { method: 'get', path: "/api/v1/withdrawals/:withdrawId", scope: 'read', target: 'getWithdrawalStatus' },
+  { method: 'post', path: "/api/v1/withdrawals", scope: 'withdraw', target: 'initiateWithdrawal' },
+  { method: 'get', path: "/api/v1/explorer/transactions", scope: 'read', target: 'listExplorerTransactions' },
+  { method: 'get', path: "/api/v1/explorer/stats", scope: 'read', target: 'getExplorerStats' },
+  { method: 'get', path: "/api/v1/explorer/tx/:hash", scope: 'read', target: 'getExplorerTransaction' },
+  { method: 'get', path: "/api/v1/explorer/wallet/:anvAddress", scope: 'read', target: 'getExplorerWallet' },
+];
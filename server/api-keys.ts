@@ -0,0 +1,263 @@
+import type { Request, Response, NextFunction } from "express";
+import rateLimit from "express-rate-limit";
+import { db } from "./db";
+import { apiKeys, apiRequestNonces, type ApiKey } from "@shared/schema";
+import { eq, and, isNull, desc, lt } from "drizzle-orm";
+import { encryptPrivateKey, decryptPrivateKey } from "./encryption";
+import {
+  generateApiKey,
+  hashApiKey,
+  normalizeScopes,
+  verifyRequestSignature,
+  API_KEY_SCOPES,
+  DEFAULT_KEY_RATE_LIMIT,
+  MAX_KEY_RATE_LIMIT,
+  SIGNATURE_MAX_SKEW_MS,
+  type ApiKeyScope
+} from "./api-signing";
+
+/**
+ * API Keys - issuance, revocation and authentication of developer API requests
+ * (credential format and signing scheme: server/api-signing.ts)
+ */
+
+const MAX_KEYS_PER_WALLET = 10;
+const LAST_USED_UPDATE_MS = 60 * 1000; // lastUsedAt is written at most once a minute per key
+
+export interface AuthenticatedApiKey {
+  id: string;
+  walletId: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    apiKey?: AuthenticatedApiKey; // Set by authenticateApiKey on /api/v1 requests
+  }
+}
+
+// Decrypted signing secrets by key id (PBKDF2 per decrypt is too slow for every request)
+const signingSecretCache = new Map<string, string>();
+
+function parseScopes(stored: string): ApiKeyScope[] {
+  try {
+    return normalizeScopes(JSON.parse(stored)) || ['read'];
+  } catch {
+    return ['read'];
+  }
+}
+
+/**
+ * Key as shown to its owner (never includes the key hash or the secret)
+ */
+function toPublicApiKey(row: ApiKey) {
+  return {
+    id: row.id,
+    name: row.name,
+    keyPrefix: row.keyPrefix,
+    scopes: parseScopes(row.scopes),
+    rateLimitPerMinute: row.rateLimitPerMinute,
+    lastUsedAt: row.lastUsedAt,
+    revokedAt: row.revokedAt,
+    createdAt: row.createdAt,
+  };
+}
+
+export type PublicApiKey = ReturnType<typeof toPublicApiKey>;
+
+/**
+ * Issue a key - the key and signing secret are only returned here
+ */
+export async function createApiKey(params: {
+  walletId: string;
+  name: string;
+  scopes?: unknown;
+  rateLimitPerMinute?: number;
+}): Promise<{ success: boolean; apiKey?: PublicApiKey; key?: string; secret?: string; error?: string }> {
+  try {
+    const name = (params.name || '').trim();
+    if (!name || name.length > 50) {
+      return { success: false, error: "Name must be 1-50 characters" };
+    }
+
+    const scopes = normalizeScopes(params.scopes);
+    if (!scopes) {
+      return { success: false, error: `Scopes must be a list of: ${API_KEY_SCOPES.join(', ')}` };
+    }
+
+    const rateLimitPerMinute = params.rateLimitPerMinute ?? DEFAULT_KEY_RATE_LIMIT;
+    if (!Number.isInteger(rateLimitPerMinute) || rateLimitPerMinute < 1 || rateLimitPerMinute > MAX_KEY_RATE_LIMIT) {
+      return { success: false, error: `Rate limit must be between 1 and ${MAX_KEY_RATE_LIMIT} requests per minute` };
+    }
+
+    const activeKeys = await db.select({ id: apiKeys.id })
+      .from(apiKeys)
+      .where(and(eq(apiKeys.walletId, params.walletId), isNull(apiKeys.revokedAt)));
+    if (activeKeys.length >= MAX_KEYS_PER_WALLET) {
+      return { success: false, error: `A wallet can have at most ${MAX_KEYS_PER_WALLET} active API keys` };
+    }
+
+    const material = generateApiKey();
+    const [row] = await db.insert(apiKeys)
+      .values({
+        walletId: params.walletId,
+        name,
+        keyPrefix: material.keyPrefix,
+        keyHash: material.keyHash,
+        signingSecret: encryptPrivateKey(Array.from(Buffer.from(material.secret))),
+        scopes: JSON.stringify(scopes),
+        rateLimitPerMinute,
+      })
+      .returning();
+
+    console.log(`🔑 API key ${material.keyPrefix} created for wallet ${params.walletId} (${scopes.join(', ')})`);
+
+    return { success: true, apiKey: toPublicApiKey(row), key: material.key, secret: material.secret };
+  } catch (error: any) {
+    console.error("Create API key error:", error);
+    return { success: false, error: error.message };
+  }
+}
+
+export async function getApiKeys(walletId: string): Promise<PublicApiKey[]> {
+  const rows = await db.select()
+    .from(apiKeys)
+    .where(eq(apiKeys.walletId, walletId))
+    .orderBy(desc(apiKeys.createdAt));
+
+  return rows.map(toPublicApiKey);
+}
+
+export async function revokeApiKey(walletId: string, keyId: string): Promise<{ success: boolean; error?: string }> {
+  const [revoked] = await db.update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(and(
+      eq(apiKeys.id, keyId),
+      eq(apiKeys.walletId, walletId),
+      isNull(apiKeys.revokedAt)
+    ))
+    .returning();
+
+  if (!revoked) {
+    return { success: false, error: "API key not found or already revoked" };
+  }
+
+  signingSecretCache.delete(keyId);
+  console.log(`🔑 API key ${revoked.keyPrefix} revoked`);
+  return { success: true };
+}
+
+/**
+ * Drop nonces older than the signature window (their timestamps can no longer be replayed)
+ */
+export async function pruneApiRequestNonces(): Promise<void> {
+  try {
+    await db.delete(apiRequestNonces)
+      .where(lt(apiRequestNonces.createdAt, new Date(Date.now() - 2 * SIGNATURE_MAX_SKEW_MS)));
+  } catch (error) {
+    console.error("API nonce pruning error:", error);
+  }
+}
+
+/**
+ * Wallet a request acts for: the API key's wallet on /api/v1, otherwise the session's
+ */
+export function getRequestWalletId(req: Request): string | undefined {
+  return req.apiKey?.walletId ?? req.session?.walletId;
+}
+
+/**
+ * Authenticate a signed API request (key, timestamp window, single-use nonce, HMAC signature)
+ */
+export async function authenticateApiKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const key = String(req.headers['x-api-key'] || '');
+    const timestamp = String(req.headers['x-api-timestamp'] || '');
+    const nonce = String(req.headers['x-api-nonce'] || '');
+    const signature = String(req.headers['x-api-signature'] || '');
+
+    if (!key || !timestamp || !nonce || !signature) {
+      return res.status(401).json({
+        success: false,
+        error: "Missing X-Api-Key, X-Api-Timestamp, X-Api-Nonce or X-Api-Signature header"
+      });
+    }
+
+    const [row] = await db.select()
+      .from(apiKeys)
+      .where(and(eq(apiKeys.keyHash, hashApiKey(key)), isNull(apiKeys.revokedAt)))
+      .limit(1);
+
+    if (!row) {
+      return res.status(401).json({ success: false, error: "Invalid API key" });
+    }
+
+    let secret = signingSecretCache.get(row.id);
+    if (!secret) {
+      secret = Buffer.from(decryptPrivateKey(row.signingSecret)).toString();
+      signingSecretCache.set(row.id, secret);
+    }
+
+    const signatureError = verifyRequestSignature(secret, {
+      timestamp,
+      nonce,
+      method: req.method,
+      path: req.originalUrl,
+      body: req.rawBody as Buffer | undefined
+    }, signature);
+
+    if (signatureError) {
+      return res.status(401).json({ success: false, error: signatureError });
+    }
+
+    const [recorded] = await db.insert(apiRequestNonces)
+      .values({ apiKeyId: row.id, nonce })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!recorded) {
+      return res.status(401).json({ success: false, error: "Nonce already used" });
+    }
+
+    if (!row.lastUsedAt || Date.now() - row.lastUsedAt.getTime() > LAST_USED_UPDATE_MS) {
+      db.update(apiKeys)
+        .set({ lastUsedAt: new Date() })
+        .where(eq(apiKeys.id, row.id))
+        .catch(error => console.error("API key lastUsedAt update error:", error));
+    }
+
+    req.apiKey = {
+      id: row.id,
+      walletId: row.walletId,
+      scopes: parseScopes(row.scopes),
+      rateLimitPerMinute: row.rateLimitPerMinute,
+    };
+
+    next();
+  } catch (error: any) {
+    console.error("API key authentication error:", error);
+    res.status(500).json({ success: false, error: "Authentication failed" });
+  }
+}
+
+export function requireApiScope(scope: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiKey?.scopes.includes(scope)) {
+      return res.status(403).json({ success: false, error: `API key is missing the '${scope}' scope` });
+    }
+    next();
+  };
+}
+
+// Per-key limit (runs after authenticateApiKey)
+export const apiKeyRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  limit: (req: Request) => req.apiKey?.rateLimitPerMinute ?? DEFAULT_KEY_RATE_LIMIT,
+  keyGenerator: (req: Request) => req.apiKey?.id ?? 'unauthenticated',
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (_req: Request, res: Response) => {
+    res.status(429).json({ success: false, error: "Rate limit exceeded for this API key" });
+  },
+});
@@ -0,0 +1,116 @@
+import crypto from "crypto";
+
+/**
+ * Developer API credentials and request signing
+ *
+ * A key is issued as two values, both shown once:
+ *   key     anv_<prefix>_<random>   sent in X-Api-Key (stored as a SHA-256 hash)
+ *   secret  <random>                signs requests (stored encrypted)
+ *
+ * Every /api/v1 request carries X-Api-Timestamp (Unix ms), X-Api-Nonce (unique per key) and
+ * X-Api-Signature = hex HMAC-SHA256(secret, canonical request):
+ *
+ *   <timestamp>\n<nonce>\n<METHOD>\n<path with query>\n<hex SHA-256 of the raw body ('' when empty)>
+ *
+ * Pure functions - server/api-keys.ts stores keys and authenticates requests
+ */
+
+export const API_KEY_SCOPES = ['read', 'trade', 'withdraw'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const SIGNATURE_MAX_SKEW_MS = 5 * 60 * 1000; // Timestamps further from server time are rejected (nonces are kept this long)
+export const DEFAULT_KEY_RATE_LIMIT = 60; // Requests per minute
+export const MAX_KEY_RATE_LIMIT = 600;
+
+const KEY_PREFIX = 'anv';
+const NONCE_PATTERN = /^[A-Za-z0-9_-]{16,64}$/;
+
+export interface ApiKeyMaterial {
+  key: string;
+  keyPrefix: string; // Non-secret part of the key, shown in key lists
+  keyHash: string;
+  secret: string;
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+/**
+ * Normalize requested scopes: known scopes only, deduplicated, 'read' always included
+ * @returns Scopes in canonical order, or null if any entry is unknown
+ */
+export function normalizeScopes(requested: unknown): ApiKeyScope[] | null {
+  if (requested === undefined) {
+    return ['read'];
+  }
+  if (!Array.isArray(requested) || !requested.every(isApiKeyScope)) {
+    return null;
+  }
+
+  const scopes = new Set<ApiKeyScope>(['read', ...requested]);
+  return API_KEY_SCOPES.filter(scope => scopes.has(scope));
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey(): ApiKeyMaterial {
+  const keyPrefix = `${KEY_PREFIX}_${crypto.randomBytes(4).toString('hex')}`;
+  const key = `${keyPrefix}_${crypto.randomBytes(24).toString('base64url')}`;
+
+  return {
+    key,
+    keyPrefix,
+    keyHash: hashApiKey(key),
+    secret: crypto.randomBytes(32).toString('base64url'),
+  };
+}
+
+export function isValidNonce(nonce: string): boolean {
+  return NONCE_PATTERN.test(nonce);
+}
+
+export function buildCanonicalRequest(parts: {
+  timestamp: string;
+  nonce: string;
+  method: string;
+  path: string;
+  body: Buffer | string | undefined;
+}): string {
+  const bodyHash = crypto.createHash('sha256').update(parts.body || '').digest('hex');
+  return [parts.timestamp, parts.nonce, parts.method.toUpperCase(), parts.path, bodyHash].join('\n');
+}
+
+export function signRequest(secret: string, canonicalRequest: string): string {
+  return crypto.createHmac('sha256', secret).update(canonicalRequest).digest('hex');
+}
+
+/**
+ * Check the timestamp window and the signature (constant-time)
+ * @returns null if valid, otherwise the reason
+ */
+export function verifyRequestSignature(
+  secret: string,
+  parts: Parameters<typeof buildCanonicalRequest>[0],
+  signature: string,
+  now: number = Date.now()
+): string | null {
+  const timestamp = Number(parts.timestamp);
+  if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > SIGNATURE_MAX_SKEW_MS) {
+    return 'Request timestamp is missing or outside the allowed window';
+  }
+
+  if (!isValidNonce(parts.nonce)) {
+    return 'Nonce must be 16-64 characters of [A-Za-z0-9_-]';
+  }
+
+  const expected = Buffer.from(signRequest(secret, buildCanonicalRequest(parts)), 'hex');
+  const provided = Buffer.from(/^[0-9a-f]+$/i.test(signature) ? signature : '', 'hex');
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return 'Invalid signature';
+  }
+
+  return null;
+}
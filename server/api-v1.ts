@@ -0,0 +1,79 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { authenticateApiKey, apiKeyRateLimiter, requireApiScope } from "./api-keys";
+import type { ApiKeyScope } from "./api-signing";
+import { apiRoutes, apiV1Routes } from "./api-contract";
+
+/**
+ * Developer API (/api/v1) - signed, scoped access to a subset of the web API
+ *
+ * Each v1 route authenticates the API key, applies its rate limit and scope, then hands the request
+ * to the matching web route with the key's wallet as the acting wallet. Responses are wrapped in a
+ * versioned envelope so the web routes can evolve without breaking integrations:
+ *
+ *   { "apiVersion": "v1", "success": true,  "data": { ... }, "error": null }
+ *   { "apiVersion": "v1", "success": false, "data": null, "error": { "code": "forbidden", "message": "..." } }
+ *
+ * Must be registered before the web routes it forwards to (which validate the forwarded request).
+ */
+
+const ERROR_CODES: Record<number, string> = {
+  400: 'invalid_request',
+  401: 'unauthorized',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  429: 'rate_limited',
+};
+
+function toEnvelope(statusCode: number, body: any) {
+  const { success, error, ...data } = body && typeof body === 'object' ? body : { data: body };
+
+  if (statusCode < 400 && success !== false) {
+    return { apiVersion: 'v1', success: true, data, error: null };
+  }
+
+  return {
+    apiVersion: 'v1',
+    success: false,
+    data: null,
+    error: {
+      code: ERROR_CODES[statusCode] || (statusCode >= 500 ? 'internal_error' : 'request_failed'),
+      message: typeof error === 'string' ? error : 'Request failed',
+    },
+  };
+}
+
+function wrapResponses(_req: Request, res: Response, next: NextFunction) {
+  const originalJson = res.json.bind(res);
+  res.json = (body: any) => originalJson(toEnvelope(res.statusCode, body));
+  next();
+}
+
+/**
+ * Hand the request to the target web route (same path params, query string kept)
+ */
+function forwardTo(targetPath: string) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const queryIndex = req.url.indexOf('?');
+    const path = targetPath.replace(/:(\w+)/g, (_match, name: string) => encodeURIComponent(req.params[name]));
+    req.url = path + (queryIndex >= 0 ? req.url.slice(queryIndex) : '');
+    next();
+  };
+}
+
+function v1(scope: ApiKeyScope) {
+  return [authenticateApiKey, apiKeyRateLimiter, requireApiScope(scope)];
+}
+
+export function registerApiV1Routes(app: Express) {
+  app.use("/api/v1", wrapResponses);
+
+  // Portfolio, swaps, deposits/withdrawals and explorer (routes listed in server/api-contract.ts)
+  for (const route of apiV1Routes) {
+    app[route.method](route.path, ...v1(route.scope), forwardTo(apiRoutes[route.target].path));
+  }
+
+  app.all("/api/v1/*", (_req, res) => {
+    res.status(404).json({ success: false, error: "Unknown API endpoint" });
+  });
+}
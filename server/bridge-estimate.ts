@@ -0,0 +1,156 @@
+import { SOL_ASSET, type BridgeAmountRange, type BridgeProvider, type BridgeRoute } from "./bridge-provider";
+import type { TransferKind } from "./transfer-state-machine";
+
+/**
+ * Pre-flight quotes for deposits and withdrawals
+ *
+ * Both directions run SOL → intermediate → SOL, so the estimate chains the two hop estimates
+ * of the route's provider. Deposits are credited the full amount (the platform absorbs the spread);
+ * withdrawals deliver whatever the second hop pays out.
+ */
+
+export const MIN_TRANSFER_SOL = 0.05; // Platform minimum, applied on top of the provider limits
+
+const LIMITS_CACHE_DURATION = 10 * 60 * 1000; // 10 minutes - provider ranges rarely change
+
+export interface TransferLimits {
+  minSol: number;
+  maxSol: number | null; // null = no upper limit
+}
+
+export interface BridgeTransferEstimate {
+  kind: TransferKind;
+  provider: string;
+  route: string;
+  amountSol: string;
+  intermediateAmount: string;
+  intermediateTicker: string;
+  bridgeOutputSol: string; // SOL out of the second hop
+  receiveSol: string; // Credited (deposit) or delivered (withdrawal)
+  receiveUsd: string;
+  spreadSol: string; // amountSol - bridgeOutputSol (both hops' rate spread and network fees)
+  spreadUsd: string;
+  spreadPercent: string;
+  feePaidBy: 'platform' | 'user';
+  solPriceUsd: string;
+  limits: TransferLimits;
+  etaMinutes: { min: number; max: number };
+}
+
+// Per provider object so test providers sharing a name never share entries
+const limitsCache = new WeakMap<BridgeProvider, Map<string, { limits: TransferLimits; timestamp: number }>>();
+
+function rangeMax(range: BridgeAmountRange): number | null {
+  const max = range.max === null ? NaN : parseFloat(range.max);
+  return max > 0 ? max : null;
+}
+
+/**
+ * Accepted deposit/withdrawal amounts in SOL for a route
+ * The second hop's range is in intermediate units and is converted with the current SOL rate
+ */
+export async function getTransferLimits(route: BridgeRoute, now: () => number = Date.now): Promise<TransferLimits> {
+  const { provider, intermediate } = route;
+  const cached = limitsCache.get(provider)?.get(intermediate.id);
+  if (cached && now() - cached.timestamp < LIMITS_CACHE_DURATION) {
+    return cached.limits;
+  }
+
+  const [firstHop, secondHop, intermediatePerSol] = await Promise.all([
+    provider.getRange({ from: SOL_ASSET, to: intermediate.asset }),
+    provider.getRange({ from: intermediate.asset, to: SOL_ASSET }),
+    provider.estimate({ from: SOL_ASSET, to: intermediate.asset, amount: "1" }).then(parseFloat),
+  ]);
+
+  if (!(intermediatePerSol > 0)) {
+    throw new Error("Unable to get exchange estimate");
+  }
+
+  const secondHopMax = rangeMax(secondHop);
+  const maxCandidates = [rangeMax(firstHop), secondHopMax === null ? null : secondHopMax / intermediatePerSol]
+    .filter((max): max is number => max !== null);
+
+  // 4 decimals like the UI: minimums round up and maximums down so a displayed limit is always accepted
+  const limits: TransferLimits = {
+    minSol: Math.ceil(Math.max(
+      MIN_TRANSFER_SOL,
+      parseFloat(firstHop.min) || 0,
+      (parseFloat(secondHop.min) || 0) / intermediatePerSol
+    ) * 1e4) / 1e4,
+    maxSol: maxCandidates.length > 0 ? Math.floor(Math.min(...maxCandidates) * 1e4) / 1e4 : null,
+  };
+
+  if (!limitsCache.has(provider)) {
+    limitsCache.set(provider, new Map());
+  }
+  limitsCache.get(provider)!.set(intermediate.id, { limits, timestamp: now() });
+
+  return limits;
+}
+
+/**
+ * User-facing reason an amount is outside the limits, or null if it is accepted
+ */
+export function checkTransferAmount(kind: TransferKind, amountSol: number, limits: TransferLimits): string | null {
+  const label = kind === 'deposit' ? 'deposit' : 'withdrawal';
+
+  if (!(amountSol >= limits.minSol)) {
+    return `Minimum ${label} is ${limits.minSol} SOL`;
+  }
+  if (limits.maxSol !== null && amountSol > limits.maxSol) {
+    return `Maximum ${label} is ${limits.maxSol} SOL`;
+  }
+  return null;
+}
+
+/**
+ * Chain both hop estimates for `amountSol` and express the spread in SOL and USD
+ * The amount must already be within getTransferLimits()
+ */
+export async function estimateBridgeTransfer(
+  route: BridgeRoute,
+  kind: TransferKind,
+  amountSol: number,
+  solPriceUsd: number,
+  limits: TransferLimits
+): Promise<BridgeTransferEstimate> {
+  const { provider, intermediate } = route;
+
+  const intermediateAmount = await provider.estimate({
+    from: SOL_ASSET,
+    to: intermediate.asset,
+    amount: amountSol.toString(),
+  });
+  const bridgeOutput = parseFloat(await provider.estimate({
+    from: intermediate.asset,
+    to: SOL_ASSET,
+    amount: intermediateAmount,
+  }));
+
+  if (!(bridgeOutput > 0)) {
+    throw new Error("Unable to get exchange estimate");
+  }
+
+  const spread = Math.max(amountSol - bridgeOutput, 0);
+  const receive = kind === 'deposit' ? amountSol : bridgeOutput;
+
+  return {
+    kind,
+    provider: provider.name,
+    route: intermediate.id,
+    amountSol: amountSol.toFixed(9),
+    intermediateAmount,
+    intermediateTicker: intermediate.asset.ticker.toUpperCase(),
+    bridgeOutputSol: bridgeOutput.toFixed(9),
+    receiveSol: receive.toFixed(9),
+    receiveUsd: (receive * solPriceUsd).toFixed(2),
+    spreadSol: spread.toFixed(9),
+    spreadUsd: (spread * solPriceUsd).toFixed(2),
+    spreadPercent: ((spread / amountSol) * 100).toFixed(2),
+    feePaidBy: kind === 'deposit' ? 'platform' : 'user',
+    solPriceUsd: solPriceUsd.toFixed(2),
+    limits,
+    // Two exchanges run back to back
+    etaMinutes: { min: provider.etaMinutes.min * 2, max: provider.etaMinutes.max * 2 },
+  };
+}
@@ -6,9 +6,12 @@
  * Step 2 (Deposit): Wallet1 TRX → SOL → Wallet2 (Solana pool)
  * 
  * Withdraw reverses the flow
+ *
+ * Exposed to the rest of the app as simpleSwapProvider (see bridge-provider.ts)
  */
 
 import fetch from "node-fetch";
+import type { BridgeProvider, BridgeExchange, BridgeExchangeStatus, BridgeAmountRange } from "./bridge-provider";
 
 const RELAY_API_BASE = "https://api.simpleswap.io";
 const API_KEY = process.env.SIMPLESWAP_API_KEY;
@@ -71,7 +74,7 @@ interface ExchangeStatus {
   addressTo: string;
   txFrom: string | null;
   txTo: string | null;
-  status: "waiting" | "confirming" | "exchanging" | "sending" | "finished" | "failed" | "refunded" | "expired";
+  status: string; // waiting | confirming | exchanging | sending | finished | failed | refunded | expired
 }
 
 /**
@@ -237,77 +240,112 @@ export async function getEstimate(
 }
 
 /**
- * Create Step 1 exchange: SOL → TRX to TRON Bridge Wallet
- * Used for deposit flow
+ * Get the accepted input range for a pair
+ * max is null when the route has no upper limit
  */
-export async function createDepositStep1Exchange(
-  solAmount: string,
-  tronWalletAddress: string
-): Promise<CreateExchangeResponse> {
-  return await createExchange({
-    fixed: false,
-    tickerFrom: "sol",
-    networkFrom: "sol",
-    tickerTo: "trx",
-    networkTo: "trx",
-    amount: solAmount,
-    addressTo: tronWalletAddress,
-  });
-}
+export async function getRanges(
+  tickerFrom: string,
+  networkFrom: string,
+  tickerTo: string,
+  networkTo: string,
+  fixed: boolean = false
+): Promise<BridgeAmountRange> {
+  if (!API_KEY) {
+    throw new Error("Privacy Relay Network not configured");
+  }
 
-/**
- * Create Step 2 exchange: TRX → SOL to Solana Pool Wallet
- * Used for deposit flow (called after Step 1 completes)
- */
-export async function createDepositStep2Exchange(
-  trxAmount: string,
-  solanaWalletAddress: string
-): Promise<CreateExchangeResponse> {
-  return await createExchange({
-    fixed: false,
-    tickerFrom: "trx",
-    networkFrom: "trx",
-    tickerTo: "sol",
-    networkTo: "sol",
-    amount: trxAmount,
-    addressTo: solanaWalletAddress,
-  });
+  try {
+    const params = new URLSearchParams({
+      fixed: fixed.toString(),
+      tickerFrom,
+      networkFrom,
+      tickerTo,
+      networkTo,
+    });
+
+    const response = await fetch(
+      `${RELAY_API_BASE}/v3/ranges?${params}`,
+      {
+        headers: {
+          "Accept": "application/json",
+          "x-api-key": API_KEY,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      console.error("Privacy Relay Network ranges error:", response.status, errorData);
+
+      if (response.status === 404) {
+        throw new Error("This exchange pair is not available");
+      }
+      throw new Error("Unable to get exchange limits");
+    }
+
+    const data: any = await response.json();
+    const result = data.result || data;
+    return { min: String(result.min), max: result.max ? String(result.max) : null };
+  } catch (error: any) {
+    if (error.message.includes("not available") || error.message.includes("Unable to get")) {
+      throw error;
+    }
+    console.error("Privacy Relay Network connection error:", error);
+    throw new Error("Unable to connect to Privacy Relay Network");
+  }
 }
 
-/**
- * Create Step 1 exchange for withdrawal: SOL → TRX from Wallet2 to Wallet1
- * Used for withdraw flow
- */
-export async function createWithdrawStep1Exchange(
-  solAmount: string,
-  tronWalletAddress: string
-): Promise<CreateExchangeResponse> {
-  return await createExchange({
-    fixed: false,
-    tickerFrom: "sol",
-    networkFrom: "sol",
-    tickerTo: "trx",
-    networkTo: "trx",
-    amount: solAmount,
-    addressTo: tronWalletAddress,
-  });
+const SIMPLESWAP_STATUSES: readonly BridgeExchangeStatus[] = [
+  "waiting", "confirming", "exchanging", "sending", "finished", "failed", "refunded", "expired"
+];
+
+function toBridgeExchange(exchange: CreateExchangeResponse | ExchangeStatus): BridgeExchange {
+  // Unknown statuses (e.g. "verifying") are treated as in progress, never as terminal
+  const status = SIMPLESWAP_STATUSES.includes(exchange.status as BridgeExchangeStatus)
+    ? exchange.status as BridgeExchangeStatus
+    : "confirming";
+
+  return {
+    id: exchange.publicId || exchange.id,
+    status,
+    depositAddress: exchange.addressFrom,
+    addressTo: exchange.addressTo,
+    amountFrom: exchange.amountFrom,
+    expectedAmountTo: exchange.expectedAmountTo ?? null,
+    amountTo: exchange.amountTo,
+    txFrom: "txFrom" in exchange ? exchange.txFrom : null,
+    txTo: "txTo" in exchange ? exchange.txTo : null,
+  };
 }
 
 /**
- * Create Step 2 exchange for withdrawal: TRX → SOL to user's wallet
- * Used for withdraw flow (called after Step 1 completes)
+ * SimpleSwap as a BridgeProvider (floating-rate exchanges)
  */
-export async function createWithdrawStep2Exchange(
-  trxAmount: string,
-  userSolAddress: string
-): Promise<CreateExchangeResponse> {
-  return await createExchange({
-    fixed: false,
-    tickerFrom: "trx",
-    networkFrom: "trx",
-    tickerTo: "sol",
-    networkTo: "sol",
-    amount: trxAmount,
-    addressTo: userSolAddress,
-  });
-}
+export const simpleSwapProvider: BridgeProvider = {
+  name: "simpleswap",
+  etaMinutes: { min: 5, max: 30 },
+
+  async createExchange({ from, to, amount, addressTo }) {
+    return toBridgeExchange(await createExchange({
+      fixed: false,
+      tickerFrom: from.ticker,
+      networkFrom: from.network,
+      tickerTo: to.ticker,
+      networkTo: to.network,
+      amount,
+      addressTo,
+    }));
+  },
+
+  async getStatus(exchangeId) {
+    return toBridgeExchange(await getExchangeStatus(exchangeId));
+  },
+
+  async estimate({ from, to, amount }) {
+    return await getEstimate(from.ticker, from.network, to.ticker, to.network, amount);
+  },
+
+  async getRange({ from, to }) {
+    return await getRanges(from.ticker, from.network, to.ticker, to.network);
+  },
+};
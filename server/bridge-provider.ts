@@ -0,0 +1,142 @@
+/**
+ * Bridge provider abstraction for the dual-hop deposit/withdraw flow
+ *
+ * Deposit:  User SOL → [provider] → intermediate asset → Privacy Relay Node
+ *           Privacy Relay Node → [provider] → SOL → Liquidity Router Node
+ * Withdraw: Liquidity Router Node SOL → [provider] → intermediate → Privacy Relay Node
+ *           Privacy Relay Node → [provider] → SOL → user
+ *
+ * A route = exchange provider (SimpleSwap, mock, ...) + intermediate chain (TRX, ...).
+ * Deposits and withdrawals record the route they were created on (bridgeProvider / bridgeRoute)
+ * so in-flight rows keep polling the same provider after the default changes.
+ */
+
+export interface BridgeAsset {
+  ticker: string;
+  network: string;
+}
+
+export const SOL_ASSET: BridgeAsset = { ticker: "sol", network: "sol" };
+
+/**
+ * Provider-neutral exchange status (providers map their own vocabulary onto this)
+ * - waiting: exchange created, no funds received yet
+ * - confirming / exchanging / sending: in progress
+ * - finished: output sent to addressTo
+ * - failed / refunded / expired: terminal, no output
+ */
+export type BridgeExchangeStatus =
+  | "waiting"
+  | "confirming"
+  | "exchanging"
+  | "sending"
+  | "finished"
+  | "failed"
+  | "refunded"
+  | "expired";
+
+export const BRIDGE_FAILED_STATUSES: readonly BridgeExchangeStatus[] = ["failed", "refunded", "expired"];
+
+export function isBridgeFailure(status: BridgeExchangeStatus): boolean {
+  return BRIDGE_FAILED_STATUSES.includes(status);
+}
+
+export interface BridgeExchange {
+  id: string;
+  status: BridgeExchangeStatus;
+  depositAddress: string; // Where the input asset must be sent
+  addressTo: string;
+  amountFrom: string | null;
+  expectedAmountTo: string | null;
+  amountTo: string | null; // Actual output (set once finished)
+  txFrom: string | null; // Input tx seen by the provider
+  txTo: string | null; // Output tx sent by the provider
+}
+
+export interface BridgeAmountRange {
+  min: string;
+  max: string | null; // null = no upper limit
+}
+
+export interface BridgeProvider {
+  /** Stable identifier stored on deposits/withdrawals (e.g. 'simpleswap') */
+  readonly name: string;
+
+  /** Typical time for one exchange to finish once funded */
+  readonly etaMinutes: { min: number; max: number };
+
+  createExchange(params: {
+    from: BridgeAsset;
+    to: BridgeAsset;
+    amount: string;
+    addressTo: string;
+  }): Promise<BridgeExchange>;
+
+  getStatus(exchangeId: string): Promise<BridgeExchange>;
+
+  /** Expected output amount for `amount` of `from` */
+  estimate(params: { from: BridgeAsset; to: BridgeAsset; amount: string }): Promise<string>;
+
+  /** Accepted input amounts for a pair, in units of `from` */
+  getRange(params: { from: BridgeAsset; to: BridgeAsset }): Promise<BridgeAmountRange>;
+}
+
+/**
+ * Chain used between the two hops, where the Privacy Relay Node holds funds
+ */
+export interface IntermediateChain {
+  /** Stable identifier stored on deposits/withdrawals (e.g. 'trx') */
+  readonly id: string;
+  readonly asset: BridgeAsset;
+  /** systemWallets.name of the relay wallet on this chain */
+  readonly relayWalletName: string;
+  /** Relay balance above which a stuck deposit is auto-recovered */
+  readonly minRecoveryBalance: number;
+  getRelayBalance(): Promise<number>;
+  /** Send from the relay wallet, returns the chain tx id */
+  sendFromRelay(toAddress: string, amount: number): Promise<string>;
+}
+
+export interface BridgeRoute {
+  provider: BridgeProvider;
+  intermediate: IntermediateChain;
+}
+
+/**
+ * Columns recorded on deposits/withdrawals for a route
+ */
+export function routeColumns(route: BridgeRoute): { bridgeProvider: string; bridgeRoute: string } {
+  return { bridgeProvider: route.provider.name, bridgeRoute: route.intermediate.id };
+}
+
+/**
+ * First hop: SOL → intermediate asset, delivered to the relay wallet
+ */
+export async function createSolToIntermediateExchange(
+  route: BridgeRoute,
+  solAmount: string,
+  relayAddress: string
+): Promise<BridgeExchange> {
+  return await route.provider.createExchange({
+    from: SOL_ASSET,
+    to: route.intermediate.asset,
+    amount: solAmount,
+    addressTo: relayAddress,
+  });
+}
+
+/**
+ * Second hop: intermediate asset → SOL, delivered to the pool (deposit) or the user (withdraw)
+ */
+export async function createIntermediateToSolExchange(
+  route: BridgeRoute,
+  intermediateAmount: string,
+  solAddress: string
+): Promise<BridgeExchange> {
+  return await route.provider.createExchange({
+    from: route.intermediate.asset,
+    to: SOL_ASSET,
+    amount: intermediateAmount,
+    addressTo: solAddress,
+  });
+}
@@ -0,0 +1,55 @@
+import type { BridgeProvider, BridgeRoute, IntermediateChain } from "./bridge-provider";
+import { simpleSwapProvider } from "./bridge-protocol";
+import { tronIntermediateChain } from "./chain-connector";
+import { MockBridgeProvider, MockIntermediateChain } from "./mock-bridge-provider";
+
+/**
+ * Bridge route registry
+ *
+ * New deposits/withdrawals use BRIDGE_PROVIDER / BRIDGE_INTERMEDIATE (default simpleswap / trx).
+ * Existing rows resolve the route they recorded, so switching the default never strands in-flight transfers.
+ */
+
+const providers = new Map<string, BridgeProvider>();
+const intermediateChains = new Map<string, IntermediateChain>();
+
+export function registerBridgeProvider(provider: BridgeProvider) {
+  providers.set(provider.name, provider);
+}
+
+export function registerIntermediateChain(chain: IntermediateChain) {
+  intermediateChains.set(chain.id, chain);
+}
+
+registerBridgeProvider(simpleSwapProvider);
+registerIntermediateChain(tronIntermediateChain);
+
+// Local development: BRIDGE_PROVIDER=mock / BRIDGE_INTERMEDIATE=mock create exchanges that never move funds
+if (process.env.NODE_ENV !== 'production') {
+  registerBridgeProvider(new MockBridgeProvider());
+  registerIntermediateChain(new MockIntermediateChain('mock'));
+}
+
+const DEFAULT_PROVIDER = process.env.BRIDGE_PROVIDER || simpleSwapProvider.name;
+const DEFAULT_INTERMEDIATE = process.env.BRIDGE_INTERMEDIATE || tronIntermediateChain.id;
+
+/**
+ * Resolve the route a deposit/withdrawal was created on, or the default route for new ones
+ * Rows created before routes were recorded default to simpleswap / trx at the schema level
+ */
+export function getBridgeRoute(record?: { bridgeProvider?: string | null; bridgeRoute?: string | null }): BridgeRoute {
+  const providerName = record?.bridgeProvider || DEFAULT_PROVIDER;
+  const chainId = record?.bridgeRoute || DEFAULT_INTERMEDIATE;
+
+  const provider = providers.get(providerName);
+  if (!provider) {
+    throw new Error(`Unknown bridge provider: ${providerName}`);
+  }
+
+  const intermediate = intermediateChains.get(chainId);
+  if (!intermediate) {
+    throw new Error(`Unknown bridge intermediate chain: ${chainId}`);
+  }
+
+  return { provider, intermediate };
+}
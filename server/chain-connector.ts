@@ -1,4 +1,5 @@
 import { createRequire } from 'module';
+import type { IntermediateChain } from './bridge-provider';
 const require = createRequire(import.meta.url);
 
 const TRON_GRID_API = 'https://api.trongrid.io';
@@ -114,3 +115,15 @@ export async function sendTronFromPrivacyRelayNode(
     throw error;
   }
 }
+
+/**
+ * TRON as the bridge intermediate chain (default route)
+ */
+export const tronIntermediateChain: IntermediateChain = {
+  id: 'trx',
+  asset: { ticker: 'trx', network: 'trx' },
+  relayWalletName: 'privacy_relay_node',
+  minRecoveryBalance: 10, // TRX
+  getRelayBalance: getPrivacyRelayNodeBalance,
+  sendFromRelay: sendTronFromPrivacyRelayNode,
+};
@@ -2,9 +2,11 @@
  * CoinGecko API integration for real-time SOL/USD price
  * Free tier: No API key required, ~10-50 calls/min
  * Implements 5-minute caching to avoid rate limits
+ * SOL prices are served through the multi-source oracle in server/pricing.ts
  */
 
 import fetch from "node-fetch";
+import { selectUsablePrice } from "./price-aggregation";
 
 interface PriceCache {
   price: number;
@@ -16,14 +18,19 @@ let priceCache: PriceCache | null = null;
 
 const COINGECKO_API = "https://api.coingecko.com/api/v3/simple/price";
 
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+// Last price the oracle was confident about (served through short outages)
+let lastSolPrice: { price: number; observedAt: number } | null = null;
+
 /**
- * Get current SOL/USD price from CoinGecko
- * Returns cached price if less than 5 minutes old
+ * Get SOL/USD quote from CoinGecko - one source of the price oracle in server/pricing.ts
+ * Returns cached quote if less than 5 minutes old (observedAt tells the oracle its age)
  */
-export async function getSolanaPrice(): Promise<number> {
+export async function getCoinGeckoSolQuote(): Promise<{ price: number; observedAt: number } | null> {
   // Return cached price if valid
   if (priceCache && Date.now() - priceCache.timestamp < CACHE_DURATION) {
-    return priceCache.price;
+    return { price: priceCache.price, observedAt: priceCache.timestamp };
   }
   
   try {
@@ -48,20 +55,30 @@ export async function getSolanaPrice(): Promise<number> {
       timestamp: Date.now(),
     };
     
-    return price;
+    return { price, observedAt: priceCache.timestamp };
   } catch (error) {
     console.error("Failed to fetch SOL price from CoinGecko:", error);
-    
-    // Return cached price if available (even if expired)
-    if (priceCache) {
-      console.warn("Using stale price cache due to API error");
-      return priceCache.price;
-    }
-    
-    // Fallback price if no cache available
-    console.warn("Using fallback SOL price: $150");
-    return 150; // Fallback price
+    return null;
+  }
+}
+
+/**
+ * Get current SOL/USD price from the multi-source oracle (CoinGecko, Jupiter, Dexscreener)
+ * Use getTokenPriceQuote(SOL_MINT) from server/pricing.ts where confidence matters
+ * @throws PriceUnavailableError when the oracle is uncertain and no recent confident price exists
+ */
+export async function getSolanaPrice(): Promise<number> {
+  // Dynamic import - pricing.ts imports the CoinGecko quote from this module
+  const { getTokenPriceQuote } = await import("./pricing");
+  const quote = await getTokenPriceQuote(SOL_MINT);
+
+  if (!quote.uncertain && quote.price !== null) {
+    lastSolPrice = { price: quote.price, observedAt: quote.observedAt ?? Date.now() };
+  } else {
+    console.warn(`SOL price uncertain (confidence ${quote.confidence.toFixed(2)}), trying the last confident price`);
   }
+
+  return selectUsablePrice(quote, lastSolPrice, 'SOL');
 }
 
 /**
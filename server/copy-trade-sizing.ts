@@ -0,0 +1,108 @@
+/**
+ * Copy-trade sizing
+ *
+ * Turns a completed leader trade into the follower's mirrored order, proportional to portfolio size:
+ * - BUY: the leader spent X% of their SOL balance → the follower spends X% of theirs,
+ *   bounded by the follow's max SOL per trade and whatever is left of its total cap
+ * - SELL: the leader sold X% of their position → the follower sells X% of theirs
+ *   (a full exit by the leader sells the follower's entire holding)
+ *
+ * Balances are read when the trade is mirrored, not when the leader placed it.
+ * Pure functions - the copy-trading job (server/copy-trading.ts) supplies the balances
+ */
+
+export const MIN_COPY_BUY_SOL = 0.001; // Smaller mirrored buys are skipped (fees would eat them)
+
+export type LeaderTrade =
+  | {
+      type: 'buy';
+      tokenMint: string;
+      solSpent: number;
+      leaderSolBalance: number; // After the trade
+    }
+  | {
+      type: 'sell';
+      tokenMint: string;
+      tokensSold: number;
+      leaderTokenBalance: number; // After the trade
+    };
+
+export interface CopyFollowLimits {
+  maxSolPerTrade: string;
+  totalCapSol: string | null;
+  spentSol: string;
+  blacklist: string[];
+}
+
+export interface FollowerPosition {
+  solBalance: number;
+  tokenBalance: string; // Exact holding string, passed through untouched on full exits
+}
+
+export type CopyTradePlan =
+  | { action: 'buy'; solAmount: string }
+  | { action: 'sell'; tokenAmount: string }
+  | { action: 'skip'; reason: string };
+
+function floor9(value: number): number {
+  return Math.floor(value * 1e9) / 1e9;
+}
+
+/**
+ * Share of the leader's SOL or position that a trade used, in (0, 1]
+ */
+export function getLeaderTradeFraction(trade: LeaderTrade): number {
+  const [used, remaining] = trade.type === 'buy'
+    ? [trade.solSpent, trade.leaderSolBalance]
+    : [trade.tokensSold, trade.leaderTokenBalance];
+
+  if (!Number.isFinite(used) || used <= 0) {
+    return 0;
+  }
+  if (!Number.isFinite(remaining) || remaining <= 0) {
+    return 1;
+  }
+  return used / (used + remaining);
+}
+
+export function planCopyTrade(trade: LeaderTrade, follow: CopyFollowLimits, follower: FollowerPosition): CopyTradePlan {
+  if (follow.blacklist.includes(trade.tokenMint)) {
+    return { action: 'skip', reason: "Token is blacklisted" };
+  }
+
+  const fraction = getLeaderTradeFraction(trade);
+  if (fraction <= 0) {
+    return { action: 'skip', reason: "Leader trade has no size" };
+  }
+
+  if (trade.type === 'sell') {
+    const holding = parseFloat(follower.tokenBalance);
+    if (!(holding > 0)) {
+      return { action: 'skip', reason: "No position to sell" };
+    }
+
+    const tokenAmount = fraction >= 1 ? follower.tokenBalance : floor9(holding * fraction).toString();
+    if (!(parseFloat(tokenAmount) > 0)) {
+      return { action: 'skip', reason: "Mirrored sell rounds to zero" };
+    }
+    return { action: 'sell', tokenAmount };
+  }
+
+  let solAmount = follower.solBalance * fraction;
+  solAmount = Math.min(solAmount, parseFloat(follow.maxSolPerTrade));
+
+  if (follow.totalCapSol !== null) {
+    const remainingCap = parseFloat(follow.totalCapSol) - parseFloat(follow.spentSol);
+    if (remainingCap < MIN_COPY_BUY_SOL) {
+      return { action: 'skip', reason: "Follow cap reached" };
+    }
+    solAmount = Math.min(solAmount, remainingCap);
+  }
+
+  solAmount = floor9(solAmount);
+  if (!(solAmount >= MIN_COPY_BUY_SOL)) {
+    return { action: 'skip', reason: `Mirrored buy below ${MIN_COPY_BUY_SOL} SOL` };
+  }
+
+  return { action: 'buy', solAmount: solAmount.toString() };
+}
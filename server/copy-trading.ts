@@ -0,0 +1,445 @@
+import { db } from "./db";
+import { copyFollows, copyTrades, wallets, balances, tokenHoldings, transactions, type CopyFollow, type Transaction } from "@shared/schema";
+import { eq, and, sql, asc, gte, inArray } from "drizzle-orm";
+import { createInstantBuyOrder } from "./instant-buy";
+import { createInstantSellOrder } from "./instant-sell";
+import { getPendingSwapKeys } from "./swap-helpers";
+import { planCopyTrade, type LeaderTrade } from "./copy-trade-sizing";
+
+const MAX_FOLLOWS_PER_WALLET = 10;
+const MAX_BLACKLIST_SIZE = 50;
+const COPY_SIGNAL_WINDOW_MS = 5 * 60 * 1000; // Leader trades older than this are stale - never mirrored late
+
+export interface CopyFollowWithLeader extends CopyFollow {
+  leaderAddress: string | null;
+  leaderAllowsCopyTrading: boolean;
+}
+
+function parseSolLimit(value: string, label: string): { value?: string; error?: string } {
+  const parsed = parseFloat(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    return { error: `${label} must be greater than zero` };
+  }
+  return { value: parsed.toFixed(9) };
+}
+
+export function parseBlacklist(follow: Pick<CopyFollow, 'blacklist'>): string[] {
+  try {
+    const list = JSON.parse(follow.blacklist);
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+export function shortAnvAddress(address: string | null): string {
+  return address ? `${address.slice(0, 8)}...${address.slice(-4)}` : "unknown";
+}
+
+/**
+ * Leader opt-in: allow or refuse being followed
+ * Refusing does not delete existing follows, it stops them from mirroring until re-enabled
+ */
+export async function setCopyTradingOptIn(walletId: string, allow: boolean): Promise<void> {
+  await db.update(wallets)
+    .set({ allowCopyTrading: allow })
+    .where(eq(wallets.id, walletId));
+
+  console.log(`🪞 Copy-trading ${allow ? 'enabled' : 'disabled'} for wallet ${walletId}`);
+}
+
+/**
+ * Follow a leader by ANV address
+ */
+export async function followWallet(params: {
+  followerWalletId: string;
+  leaderAddress: string;
+  maxSolPerTrade: string;
+  totalCapSol?: string | null;
+}): Promise<{ success: boolean; follow?: CopyFollow; error?: string }> {
+  try {
+    const { followerWalletId, leaderAddress } = params;
+
+    const maxSol = parseSolLimit(params.maxSolPerTrade, "Max SOL per trade");
+    if (maxSol.error) {
+      return { success: false, error: maxSol.error };
+    }
+
+    let totalCapSol: string | null = null;
+    if (params.totalCapSol) {
+      const cap = parseSolLimit(params.totalCapSol, "Total cap");
+      if (cap.error) {
+        return { success: false, error: cap.error };
+      }
+      totalCapSol = cap.value!;
+    }
+
+    const [leader] = await db.select()
+      .from(wallets)
+      .where(eq(wallets.walletAddress, leaderAddress))
+      .limit(1);
+
+    if (!leader) {
+      return { success: false, error: "Wallet not found" };
+    }
+
+    if (leader.id === followerWalletId) {
+      return { success: false, error: "You cannot follow your own wallet" };
+    }
+
+    if (!leader.allowCopyTrading) {
+      return { success: false, error: "This wallet does not allow copy-trading" };
+    }
+
+    const existing = await db.select({ leaderWalletId: copyFollows.leaderWalletId })
+      .from(copyFollows)
+      .where(eq(copyFollows.followerWalletId, followerWalletId));
+
+    if (existing.some(f => f.leaderWalletId === leader.id)) {
+      return { success: false, error: "You already follow this wallet" };
+    }
+
+    if (existing.length >= MAX_FOLLOWS_PER_WALLET) {
+      return { success: false, error: `Maximum of ${MAX_FOLLOWS_PER_WALLET} followed wallets` };
+    }
+
+    const [follow] = await db.insert(copyFollows).values({
+      followerWalletId,
+      leaderWalletId: leader.id,
+      maxSolPerTrade: maxSol.value!,
+      totalCapSol,
+    }).returning();
+
+    console.log(`🪞 Wallet ${followerWalletId} now follows ${leaderAddress} (max ${maxSol.value} SOL/trade, cap ${totalCapSol ?? 'none'})`);
+
+    return { success: true, follow };
+  } catch (error: any) {
+    console.error("Follow wallet error:", error);
+    return { success: false, error: error.message || "Failed to follow wallet" };
+  }
+}
+
+/**
+ * Stop following a leader
+ * SECURE: Only deletes follows owned by followerWalletId
+ */
+export async function unfollowWallet(followerWalletId: string, followId: string): Promise<{ success: boolean; error?: string }> {
+  const deleted = await db.delete(copyFollows)
+    .where(and(
+      eq(copyFollows.id, followId),
+      eq(copyFollows.followerWalletId, followerWalletId)
+    ))
+    .returning({ id: copyFollows.id });
+
+  if (deleted.length === 0) {
+    return { success: false, error: "Follow not found" };
+  }
+
+  console.log(`🪞 Follow ${followId} removed`);
+  return { success: true };
+}
+
+/**
+ * Update a follow owned by followerWalletId
+ * - paused: resuming moves mirrorFrom to now, so trades made while paused are not replayed
+ * - maxSolPerTrade / totalCapSol: new limits (totalCapSol null = no cap)
+ * - block / unblock: add or remove a token mint from the blacklist
+ */
+export async function updateCopyFollow(
+  followerWalletId: string,
+  followId: string,
+  updates: {
+    paused?: boolean;
+    maxSolPerTrade?: string;
+    totalCapSol?: string | null;
+    block?: string;
+    unblock?: string;
+  }
+): Promise<{ success: boolean; follow?: CopyFollow; error?: string }> {
+  try {
+    const [follow] = await db.select()
+      .from(copyFollows)
+      .where(and(
+        eq(copyFollows.id, followId),
+        eq(copyFollows.followerWalletId, followerWalletId)
+      ))
+      .limit(1);
+
+    if (!follow) {
+      return { success: false, error: "Follow not found" };
+    }
+
+    const values: Partial<typeof copyFollows.$inferInsert> = { updatedAt: new Date() };
+
+    if (updates.paused !== undefined) {
+      values.paused = updates.paused;
+      if (!updates.paused && follow.paused) {
+        values.mirrorFrom = new Date();
+      }
+    }
+
+    if (updates.maxSolPerTrade !== undefined) {
+      const maxSol = parseSolLimit(updates.maxSolPerTrade, "Max SOL per trade");
+      if (maxSol.error) {
+        return { success: false, error: maxSol.error };
+      }
+      values.maxSolPerTrade = maxSol.value;
+    }
+
+    if (updates.totalCapSol !== undefined) {
+      if (updates.totalCapSol === null) {
+        values.totalCapSol = null;
+      } else {
+        const cap = parseSolLimit(updates.totalCapSol, "Total cap");
+        if (cap.error) {
+          return { success: false, error: cap.error };
+        }
+        values.totalCapSol = cap.value;
+      }
+    }
+
+    if (updates.block || updates.unblock) {
+      const blacklist = new Set(parseBlacklist(follow));
+      if (updates.block) {
+        if (blacklist.size >= MAX_BLACKLIST_SIZE) {
+          return { success: false, error: `Maximum of ${MAX_BLACKLIST_SIZE} blacklisted tokens per follow` };
+        }
+        blacklist.add(updates.block);
+      }
+      if (updates.unblock) {
+        blacklist.delete(updates.unblock);
+      }
+      values.blacklist = JSON.stringify(Array.from(blacklist));
+    }
+
+    const [updated] = await db.update(copyFollows)
+      .set(values)
+      .where(eq(copyFollows.id, follow.id))
+      .returning();
+
+    return { success: true, follow: updated };
+  } catch (error: any) {
+    console.error("Update copy follow error:", error);
+    return { success: false, error: error.message || "Failed to update follow" };
+  }
+}
+
+/**
+ * List a wallet's follows (oldest first, so list positions stay stable)
+ */
+export async function getCopyFollows(followerWalletId: string): Promise<CopyFollowWithLeader[]> {
+  const rows = await db.select({
+    follow: copyFollows,
+    leaderAddress: wallets.walletAddress,
+    leaderAllowsCopyTrading: wallets.allowCopyTrading,
+  })
+    .from(copyFollows)
+    .innerJoin(wallets, eq(wallets.id, copyFollows.leaderWalletId))
+    .where(eq(copyFollows.followerWalletId, followerWalletId))
+    .orderBy(asc(copyFollows.createdAt));
+
+  return rows.map(row => ({
+    ...row.follow,
+    leaderAddress: row.leaderAddress,
+    leaderAllowsCopyTrading: row.leaderAllowsCopyTrading,
+  }));
+}
+
+/**
+ * Mirror recently completed leader trades (called from background polling)
+ * 1. Load active follows whose leader still allows copy-trading
+ * 2. Find the leaders' buys/sells completed within the signal window (and after each follow's mirrorFrom)
+ * 3. Claim each (follow, leader trade) pair once and place the follower's order via the instant buy/sell path
+ *
+ * Trades that were themselves mirrored are never mirrored again, which stops
+ * follow loops (A ↔ B) and chains from amplifying one trade
+ */
+export async function processCopyTrades(): Promise<void> {
+  try {
+    const follows = await db.select({ follow: copyFollows, leaderAddress: wallets.walletAddress })
+      .from(copyFollows)
+      .innerJoin(wallets, eq(wallets.id, copyFollows.leaderWalletId))
+      .where(and(
+        eq(copyFollows.paused, false),
+        eq(wallets.allowCopyTrading, true)
+      ));
+
+    if (follows.length === 0) {
+      return;
+    }
+
+    const leaderIds = Array.from(new Set(follows.map(f => f.follow.leaderWalletId)));
+
+    const leaderTrades = await db.select()
+      .from(transactions)
+      .where(and(
+        inArray(transactions.walletId, leaderIds),
+        inArray(transactions.type, ['buy', 'sell']),
+        eq(transactions.status, 'completed'),
+        gte(transactions.timestamp, new Date(Date.now() - COPY_SIGNAL_WINDOW_MS))
+      ))
+      .orderBy(asc(transactions.timestamp));
+
+    if (leaderTrades.length === 0) {
+      return;
+    }
+
+    const tradeIds = leaderTrades.map(t => t.id);
+    const handled = await db.select({ followId: copyTrades.followId, leaderTransactionId: copyTrades.leaderTransactionId })
+      .from(copyTrades)
+      .where(inArray(copyTrades.leaderTransactionId, tradeIds));
+    const handledKeys = new Set(handled.map(h => `${h.followId}:${h.leaderTransactionId}`));
+
+    const mirrored = await db.select({ anxHash: copyTrades.anxHash })
+      .from(copyTrades)
+      .where(inArray(copyTrades.anxHash, leaderTrades.map(t => t.txhash)));
+    const mirroredHashes = new Set(mirrored.map(m => m.anxHash));
+
+    const busy = await getPendingSwapKeys(Array.from(new Set(follows.map(f => f.follow.followerWalletId))));
+
+    for (const trade of leaderTrades) {
+      if (mirroredHashes.has(trade.txhash) || !trade.tokenAddress) {
+        continue;
+      }
+
+      for (const { follow, leaderAddress } of follows) {
+        if (follow.leaderWalletId !== trade.walletId || trade.timestamp <= follow.mirrorFrom) {
+          continue;
+        }
+        if (handledKeys.has(`${follow.id}:${trade.id}`)) {
+          continue;
+        }
+
+        const busyKey = `${follow.followerWalletId}:${trade.type}`;
+        if (busy.has(busyKey)) {
+          continue; // Retry next cycle once the follower's pending order settles
+        }
+
+        try {
+          if (await mirrorLeaderTrade(follow, leaderAddress, trade)) {
+            busy.add(busyKey);
+          }
+        } catch (error: any) {
+          console.error(`❌ Failed to mirror trade ${trade.id} for follow ${follow.id}:`, error.message);
+        }
+      }
+    }
+  } catch (error: any) {
+    console.error("Copy-trading processing error:", error);
+  }
+}
+
+/**
+ * Claim one (follow, leader trade) pair and place the mirrored order
+ * IDEMPOTENCY: the unique (follow_id, leader_transaction_id) index makes the claim happen once
+ * Returns true when an order was placed
+ */
+async function mirrorLeaderTrade(follow: CopyFollow, leaderAddress: string | null, trade: Transaction): Promise<boolean> {
+  const { notifyWalletOwner } = await import("./telegram-bot.js");
+
+  const type = trade.type as 'buy' | 'sell';
+  const tokenMint = trade.tokenAddress!;
+
+  const [claim] = await db.insert(copyTrades).values({
+    followId: follow.id,
+    followerWalletId: follow.followerWalletId,
+    leaderTransactionId: trade.id,
+    type,
+    tokenMint,
+    tokenSymbol: trade.tokenSymbol,
+  })
+    .onConflictDoNothing()
+    .returning({ id: copyTrades.id });
+
+  if (!claim) {
+    return false; // Claimed elsewhere
+  }
+
+  const leaderTrade = await loadLeaderTrade(trade, type, tokenMint);
+  const follower = await loadPosition(follow.followerWalletId, tokenMint);
+
+  const plan = planCopyTrade(leaderTrade, {
+    maxSolPerTrade: follow.maxSolPerTrade,
+    totalCapSol: follow.totalCapSol,
+    spentSol: follow.spentSol,
+    blacklist: parseBlacklist(follow),
+  }, { solBalance: parseFloat(follower.solBalance), tokenBalance: follower.tokenBalance });
+
+  if (plan.action === 'skip') {
+    await db.update(copyTrades)
+      .set({ status: 'skipped', reason: plan.reason })
+      .where(eq(copyTrades.id, claim.id));
+    console.log(`🪞 Skipped mirroring ${type} ${trade.id} for follow ${follow.id}: ${plan.reason}`);
+    return false;
+  }
+
+  const leaderLabel = shortAnvAddress(leaderAddress);
+  const symbol = trade.tokenSymbol || `${tokenMint.slice(0, 6)}...`;
+
+  const result = plan.action === 'buy'
+    ? await createInstantBuyOrder({ walletId: follow.followerWalletId, tokenAddress: tokenMint, solAmount: plan.solAmount })
+    : await createInstantSellOrder({ walletId: follow.followerWalletId, tokenAddress: tokenMint, tokenAmount: plan.tokenAmount });
+
+  if (!result.success) {
+    await db.update(copyTrades)
+      .set({ status: 'failed', reason: result.error || "Failed to create order" })
+      .where(eq(copyTrades.id, claim.id));
+
+    await notifyWalletOwner(follow.followerWalletId, `❌ *Copy Trade Failed*\n\n` +
+      `Could not mirror \`${leaderLabel}\` ${type.toUpperCase()} of ${symbol}.\n\n` +
+      `Reason: ${result.error || "Unknown error"}`);
+    return false;
+  }
+
+  await db.update(copyTrades)
+    .set({
+      status: 'placed',
+      anxHash: result.anxHash,
+      solAmount: plan.action === 'buy' ? plan.solAmount : null,
+      tokenAmount: plan.action === 'sell' ? plan.tokenAmount : null,
+    })
+    .where(eq(copyTrades.id, claim.id));
+
+  if (plan.action === 'buy') {
+    await db.update(copyFollows)
+      .set({ spentSol: sql`${copyFollows.spentSol} + ${plan.solAmount}` })
+      .where(eq(copyFollows.id, follow.id));
+  }
+
+  console.log(`🪞 Mirrored ${type} ${trade.id} for follow ${follow.id}: ${result.anxHash}`);
+
+  await notifyWalletOwner(follow.followerWalletId, `🪞 *Copy Trade Placed*\n\n` +
+    `Mirroring \`${leaderLabel}\` ${type.toUpperCase()} of ${symbol}\n` +
+    (plan.action === 'buy'
+      ? `Spending: ${parseFloat(plan.solAmount).toFixed(4)} SOL\n`
+      : `Selling: ${parseFloat(plan.tokenAmount).toFixed(4)} ${symbol}\n`) +
+    `\nYou'll be notified when the order completes. Use /copy to manage follows.`);
+
+  return true;
+}
+
+async function loadLeaderTrade(trade: Transaction, type: 'buy' | 'sell', tokenMint: string): Promise<LeaderTrade> {
+  const leader = await loadPosition(trade.walletId, tokenMint);
+
+  // Completed trades store tokens in amount and SOL spent/received in solValue
+  return type === 'buy'
+    ? { type, tokenMint, solSpent: parseFloat(trade.solValue || "0"), leaderSolBalance: parseFloat(leader.solBalance) }
+    : { type, tokenMint, tokensSold: parseFloat(trade.amount), leaderTokenBalance: parseFloat(leader.tokenBalance) };
+}
+
+async function loadPosition(walletId: string, tokenMint: string): Promise<{ solBalance: string; tokenBalance: string }> {
+  const [balance] = await db.select({ solBalance: balances.solBalance })
+    .from(balances)
+    .where(eq(balances.walletId, walletId))
+    .limit(1);
+
+  const [holding] = await db.select({ amount: tokenHoldings.amount })
+    .from(tokenHoldings)
+    .where(and(
+      eq(tokenHoldings.walletId, walletId),
+      eq(tokenHoldings.mint, tokenMint)
+    ))
+    .limit(1);
+
+  return { solBalance: balance?.solBalance || "0", tokenBalance: holding?.amount || "0" };
+}
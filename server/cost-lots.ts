@@ -0,0 +1,241 @@
+/**
+ * Lot-based cost basis accounting
+ *
+ * Every completed buy opens a lot. Every completed sell is matched against the open lots of the same token:
+ * - fifo: oldest lots first
+ * - lifo: newest lots first
+ * - average: all open lots are pooled at their average cost, then consumed oldest first (for holding periods)
+ *
+ * Each matched slice becomes a disposal with its own gain and term. A disposal is long-term when the tokens
+ * were held for more than one year. Tokens sold beyond the recorded buys (e.g. holdings that predate
+ * transaction history) become disposals with an unknown basis and term.
+ *
+ * Pure functions - server/tax-lots.ts replays the wallet's transactions and persists the result
+ */
+
+export const COST_BASIS_METHODS = ['fifo', 'lifo', 'average'] as const;
+export type CostBasisMethod = typeof COST_BASIS_METHODS[number];
+
+export type HoldingTerm = 'short' | 'long' | 'unknown';
+
+// Amounts below this are float dust left after matching
+const DUST = 1e-9;
+
+export interface LotTrade {
+  transactionId: string;
+  type: 'buy' | 'sell';
+  mint: string;
+  tokenSymbol: string;
+  amount: number;
+  priceUsd: number; // USD per token at execution (cost for buys, proceeds for sells)
+  timestamp: Date;
+}
+
+export interface ReplayedLot {
+  transactionId: string;
+  mint: string;
+  tokenSymbol: string;
+  acquiredAt: Date;
+  amount: number;
+  costUsd: number;
+  remainingAmount: number;
+  remainingCostUsd: number;
+}
+
+export interface ReplayedDisposal {
+  transactionId: string;
+  lotTransactionId: string | null; // null = unknown basis
+  mint: string;
+  tokenSymbol: string;
+  acquiredAt: Date | null;
+  disposedAt: Date;
+  amount: number;
+  proceedsUsd: number;
+  costBasisUsd: number;
+  gainUsd: number;
+  term: HoldingTerm;
+}
+
+/**
+ * 'long' when disposedAt is more than one calendar year after acquiredAt
+ */
+export function getHoldingTerm(acquiredAt: Date, disposedAt: Date): 'short' | 'long' {
+  const oneYearLater = new Date(acquiredAt.getTime());
+  oneYearLater.setUTCFullYear(oneYearLater.getUTCFullYear() + 1);
+  return disposedAt.getTime() > oneYearLater.getTime() ? 'long' : 'short';
+}
+
+/**
+ * Replay trades (any order - sorted by timestamp here) into lots and disposals
+ */
+export function replayLots(trades: LotTrade[], method: CostBasisMethod): { lots: ReplayedLot[]; disposals: ReplayedDisposal[] } {
+  const ordered = [...trades].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const lots: ReplayedLot[] = [];
+  const disposals: ReplayedDisposal[] = [];
+
+  for (const trade of ordered) {
+    if (!(trade.amount > 0)) {
+      continue;
+    }
+
+    const price = Number.isFinite(trade.priceUsd) && trade.priceUsd > 0 ? trade.priceUsd : 0;
+
+    if (trade.type === 'buy') {
+      lots.push({
+        transactionId: trade.transactionId,
+        mint: trade.mint,
+        tokenSymbol: trade.tokenSymbol,
+        acquiredAt: trade.timestamp,
+        amount: trade.amount,
+        costUsd: trade.amount * price,
+        remainingAmount: trade.amount,
+        remainingCostUsd: trade.amount * price,
+      });
+      continue;
+    }
+
+    const open = lots.filter(lot => lot.mint === trade.mint && lot.remainingAmount > DUST);
+
+    if (method === 'lifo') {
+      open.reverse();
+    } else if (method === 'average') {
+      poolAtAverageCost(open);
+    }
+
+    let unmatched = trade.amount;
+
+    for (const lot of open) {
+      if (unmatched <= DUST) {
+        break;
+      }
+
+      const amount = Math.min(lot.remainingAmount, unmatched);
+      const costBasisUsd = lot.remainingCostUsd * (amount / lot.remainingAmount);
+      const proceedsUsd = amount * price;
+
+      lot.remainingAmount -= amount;
+      lot.remainingCostUsd -= costBasisUsd;
+      if (lot.remainingAmount <= DUST) {
+        lot.remainingAmount = 0;
+        lot.remainingCostUsd = 0;
+      }
+      unmatched -= amount;
+
+      disposals.push({
+        transactionId: trade.transactionId,
+        lotTransactionId: lot.transactionId,
+        mint: trade.mint,
+        tokenSymbol: trade.tokenSymbol,
+        acquiredAt: lot.acquiredAt,
+        disposedAt: trade.timestamp,
+        amount,
+        proceedsUsd,
+        costBasisUsd,
+        gainUsd: proceedsUsd - costBasisUsd,
+        term: getHoldingTerm(lot.acquiredAt, trade.timestamp),
+      });
+    }
+
+    if (unmatched > DUST) {
+      disposals.push({
+        transactionId: trade.transactionId,
+        lotTransactionId: null,
+        mint: trade.mint,
+        tokenSymbol: trade.tokenSymbol,
+        acquiredAt: null,
+        disposedAt: trade.timestamp,
+        amount: unmatched,
+        proceedsUsd: unmatched * price,
+        costBasisUsd: 0,
+        gainUsd: unmatched * price,
+        term: 'unknown',
+      });
+    }
+  }
+
+  return { lots, disposals };
+}
+
+/**
+ * Give every open lot the pool's average unit cost (oldest-first order is kept)
+ */
+function poolAtAverageCost(open: ReplayedLot[]): void {
+  const totalAmount = open.reduce((sum, lot) => sum + lot.remainingAmount, 0);
+  const totalCost = open.reduce((sum, lot) => sum + lot.remainingCostUsd, 0);
+  const averageCost = totalAmount > 0 ? totalCost / totalAmount : 0;
+
+  for (const lot of open) {
+    lot.remainingCostUsd = lot.remainingAmount * averageCost;
+  }
+}
+
+/**
+ * Realized gains split by holding term
+ */
+export function summarizeDisposals(disposals: Array<{ proceedsUsd: number; costBasisUsd: number; gainUsd: number; term: HoldingTerm }>): {
+  proceedsUsd: number;
+  costBasisUsd: number;
+  shortTermGainUsd: number;
+  longTermGainUsd: number;
+  unknownTermGainUsd: number;
+} {
+  const summary = { proceedsUsd: 0, costBasisUsd: 0, shortTermGainUsd: 0, longTermGainUsd: 0, unknownTermGainUsd: 0 };
+
+  for (const disposal of disposals) {
+    summary.proceedsUsd += disposal.proceedsUsd;
+    summary.costBasisUsd += disposal.costBasisUsd;
+    if (disposal.term === 'long') {
+      summary.longTermGainUsd += disposal.gainUsd;
+    } else if (disposal.term === 'short') {
+      summary.shortTermGainUsd += disposal.gainUsd;
+    } else {
+      summary.unknownTermGainUsd += disposal.gainUsd;
+    }
+  }
+
+  return summary;
+}
+
+const CSV_COLUMNS = [
+  'date_sold', 'date_acquired', 'token_symbol', 'token_mint', 'amount',
+  'proceeds_usd', 'cost_basis_usd', 'gain_usd', 'term', 'method', 'txhash'
+];
+
+/**
+ * Disposals as CSV (one row per matched lot slice, dates in UTC ISO 8601)
+ */
+export function buildDisposalsCsv(rows: Array<{
+  disposedAt: Date;
+  acquiredAt: Date | null;
+  tokenSymbol: string;
+  mint: string;
+  amount: string;
+  proceedsUsd: string;
+  costBasisUsd: string;
+  gainUsd: string;
+  term: HoldingTerm;
+  method: CostBasisMethod;
+  txhash: string;
+}>): string {
+  const lines = rows.map(row => [
+    row.disposedAt.toISOString(),
+    row.acquiredAt ? row.acquiredAt.toISOString() : '',
+    row.tokenSymbol,
+    row.mint,
+    row.amount,
+    row.proceedsUsd,
+    row.costBasisUsd,
+    row.gainUsd,
+    row.term,
+    row.method,
+    row.txhash,
+  ].map(escapeCsvField).join(','));
+
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
+
+function escapeCsvField(value: string): string {
+  // Quote fields with separators, and neutralize spreadsheet formulas (token symbols are user-controlled)
+  const safe = /^[=+\-@\t\r]/.test(value) && !/^-?\d/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -17,6 +17,40 @@ export async function runDatabaseMigrations() {
       WHERE (status = 'pending')
     `);
     
+    // Copy-trading: one follow per follower/leader pair, each leader trade mirrored at most once per follow
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS copyfollowsfollowerleader
+      ON copy_follows (follower_wallet_id, leader_wallet_id)
+    `);
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS copytradesfollowleadertransaction
+      ON copy_trades (follow_id, leader_transaction_id)
+    `);
+    
+    // Portfolio history: range queries per wallet over time
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS portfoliosnapshotswallettaken
+      ON portfolio_snapshots (wallet_id, taken_at)
+    `);
+    
+    // Price candles: one candle per mint/interval/open time (upserts merge samples into it)
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS pricecandlesmintintervalopen
+      ON price_candles (mint, interval, open_time)
+    `);
+    
+    // API request signing: a nonce is accepted once per key (replay protection)
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS apirequestnonceskeynonce
+      ON api_request_nonces (api_key_id, nonce)
+    `);
+    
+    // Webhooks: due deliveries are polled by status and next attempt time
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS webhookdeliveriesstatusnextattempt
+      ON webhook_deliveries (status, next_attempt_at)
+    `);
+    
     console.log("✅ Database migrations complete");
   } catch (error: any) {
     console.error("❌ FATAL: Database migration failed:", error.message);
@@ -0,0 +1,61 @@
+/**
+ * DCA (dollar-cost averaging) scheduling
+ *
+ * A schedule buys a fixed SOL amount of one token every N hours, for K buys or until cancelled.
+ * Each due run resolves to one of:
+ * - buy: place the iteration's buy through the swap job queue
+ * - skip: the SOL balance cannot cover the buy - move on to the next run without failing the schedule
+ * - defer: the wallet already has a pending buy (one per wallet) - retry on the next polling cycle
+ * - wait: not due yet, or the schedule is not active
+ *
+ * Skipped runs do not count towards K: a schedule for 10 buys ends after 10 executed buys.
+ * Pure functions - the DCA job (server/dca.ts) supplies balances and pending swaps
+ */
+
+export const MIN_DCA_INTERVAL_HOURS = 1;
+export const MAX_DCA_INTERVAL_HOURS = 30 * 24; // 30 days
+
+export interface DcaScheduleState {
+  status: 'active' | 'paused' | 'completed';
+  solAmount: string;
+  nextRunAt: Date;
+}
+
+export type DcaRunDecision = 'buy' | 'skip' | 'defer' | 'wait';
+
+export function getDcaRunDecision(
+  schedule: DcaScheduleState,
+  wallet: { solBalance: number; hasPendingBuy: boolean },
+  now: Date = new Date()
+): DcaRunDecision {
+  if (schedule.status !== 'active' || schedule.nextRunAt.getTime() > now.getTime()) {
+    return 'wait';
+  }
+
+  if (wallet.hasPendingBuy) {
+    return 'defer';
+  }
+
+  if (!(wallet.solBalance >= parseFloat(schedule.solAmount))) {
+    return 'skip';
+  }
+
+  return 'buy';
+}
+
+/**
+ * The run after `previous`. Runs missed while the server was down (or the schedule was paused)
+ * are dropped rather than bought back-to-back: the next run is one interval from now
+ */
+export function getNextDcaRunAt(previous: Date, intervalHours: number, now: Date = new Date()): Date {
+  const intervalMs = intervalHours * 60 * 60 * 1000;
+  const next = previous.getTime() + intervalMs;
+  return new Date(next > now.getTime() ? next : now.getTime() + intervalMs);
+}
+
+/**
+ * True when the schedule has executed all of its buys (null total = until cancelled)
+ */
+export function isDcaScheduleFinished(completedIterations: number, totalIterations: number | null): boolean {
+  return totalIterations !== null && completedIterations >= totalIterations;
+}
@@ -0,0 +1,311 @@
+import { db } from "./db";
+import { dcaSchedules, balances, type DcaSchedule } from "@shared/schema";
+import { eq, and, sql, asc, lte, inArray } from "drizzle-orm";
+import type { PgUpdateSetSource } from "drizzle-orm/pg-core";
+import { resolveTokenMetadata } from "./token-resolver";
+import { createInstantBuyOrder } from "./instant-buy";
+import { getPendingSwapKeys } from "./swap-helpers";
+import { publishWalletEvent } from "./wallet-stream";
+import {
+  getDcaRunDecision,
+  getNextDcaRunAt,
+  isDcaScheduleFinished,
+  MIN_DCA_INTERVAL_HOURS,
+  MAX_DCA_INTERVAL_HOURS
+} from "./dca-schedule";
+
+const MAX_DCA_SCHEDULES_PER_WALLET = 10;
+const MAX_DCA_ITERATIONS = 1000;
+
+/**
+ * Create a recurring buy. The first buy runs on the next polling cycle
+ */
+export async function createDcaSchedule(params: {
+  walletId: string;
+  tokenAddress: string;
+  solAmount: string;
+  intervalHours: number;
+  totalIterations?: number | null;
+}): Promise<{ success: boolean; schedule?: DcaSchedule; error?: string }> {
+  try {
+    const { walletId, tokenAddress, solAmount, intervalHours } = params;
+    const totalIterations = params.totalIterations ?? null;
+
+    const spend = parseFloat(solAmount);
+    if (!Number.isFinite(spend) || spend <= 0) {
+      return { success: false, error: "SOL amount must be greater than zero" };
+    }
+
+    if (!Number.isInteger(intervalHours) || intervalHours < MIN_DCA_INTERVAL_HOURS || intervalHours > MAX_DCA_INTERVAL_HOURS) {
+      return { success: false, error: `Interval must be a whole number of hours between ${MIN_DCA_INTERVAL_HOURS} and ${MAX_DCA_INTERVAL_HOURS}` };
+    }
+
+    if (totalIterations !== null && (!Number.isInteger(totalIterations) || totalIterations < 1 || totalIterations > MAX_DCA_ITERATIONS)) {
+      return { success: false, error: `Iterations must be between 1 and ${MAX_DCA_ITERATIONS}` };
+    }
+
+    let tokenSymbol: string;
+    try {
+      const metadata = await resolveTokenMetadata(tokenAddress);
+      tokenSymbol = metadata.symbol;
+    } catch (error: any) {
+      return { success: false, error: "Unable to fetch token information for this address" };
+    }
+
+    const scheduleCount = await db.select({ count: sql<number>`count(*)::int` })
+      .from(dcaSchedules)
+      .where(and(
+        eq(dcaSchedules.walletId, walletId),
+        inArray(dcaSchedules.status, ['active', 'paused'])
+      ));
+
+    if ((scheduleCount[0]?.count || 0) >= MAX_DCA_SCHEDULES_PER_WALLET) {
+      return { success: false, error: `Maximum of ${MAX_DCA_SCHEDULES_PER_WALLET} DCA schedules per wallet` };
+    }
+
+    const [schedule] = await db.insert(dcaSchedules).values({
+      walletId,
+      tokenMint: tokenAddress,
+      tokenSymbol,
+      solAmount: spend.toFixed(9),
+      intervalHours,
+      totalIterations,
+      nextRunAt: new Date(),
+    }).returning();
+
+    console.log(`📅 DCA schedule created: ${schedule.id} (${solAmount} SOL → ${tokenSymbol} every ${intervalHours}h, ${totalIterations ?? '∞'} buys)`);
+    publishWalletEvent(walletId, { type: 'dca', data: { scheduleId: schedule.id, status: schedule.status } });
+
+    return { success: true, schedule };
+  } catch (error: any) {
+    console.error("Create DCA schedule error:", error);
+    return { success: false, error: error.message || "Failed to create DCA schedule" };
+  }
+}
+
+/**
+ * Pause or resume a schedule
+ * SECURE: Only updates schedules owned by walletId. Resuming an overdue schedule runs it on the next cycle
+ */
+export async function setDcaSchedulePaused(walletId: string, scheduleId: string, paused: boolean): Promise<{ success: boolean; error?: string }> {
+  const updated = await db.update(dcaSchedules)
+    .set({
+      status: paused ? 'paused' : 'active',
+      updatedAt: new Date()
+    })
+    .where(and(
+      eq(dcaSchedules.id, scheduleId),
+      eq(dcaSchedules.walletId, walletId),
+      eq(dcaSchedules.status, paused ? 'active' : 'paused')
+    ))
+    .returning({ id: dcaSchedules.id });
+
+  if (updated.length === 0) {
+    return { success: false, error: paused ? "Schedule not found or not active" : "Schedule not found or not paused" };
+  }
+
+  console.log(`📅 DCA schedule ${paused ? 'paused' : 'resumed'}: ${scheduleId}`);
+  publishWalletEvent(walletId, { type: 'dca', data: { scheduleId, status: paused ? 'paused' : 'active' } });
+  return { success: true };
+}
+
+/**
+ * Delete a schedule (buys it already placed stay in the transaction history)
+ * SECURE: Only deletes schedules owned by walletId
+ */
+export async function deleteDcaSchedule(walletId: string, scheduleId: string): Promise<{ success: boolean; error?: string }> {
+  const deleted = await db.delete(dcaSchedules)
+    .where(and(
+      eq(dcaSchedules.id, scheduleId),
+      eq(dcaSchedules.walletId, walletId)
+    ))
+    .returning({ id: dcaSchedules.id });
+
+  if (deleted.length === 0) {
+    return { success: false, error: "Schedule not found" };
+  }
+
+  console.log(`🗑️  DCA schedule deleted: ${scheduleId}`);
+  publishWalletEvent(walletId, { type: 'dca', data: { scheduleId, status: 'deleted' } });
+  return { success: true };
+}
+
+/**
+ * List a wallet's schedules (oldest first, so list positions stay stable)
+ */
+export async function getDcaSchedules(walletId: string): Promise<DcaSchedule[]> {
+  return await db.select()
+    .from(dcaSchedules)
+    .where(eq(dcaSchedules.walletId, walletId))
+    .orderBy(asc(dcaSchedules.createdAt))
+    .limit(50);
+}
+
+/**
+ * Run due DCA schedules (called from background polling)
+ * 1. Load active schedules whose next run is due
+ * 2. Decide per schedule: buy, skip (insufficient balance) or defer (pending buy) - server/dca-schedule.ts
+ * 3. Claim the run by moving nextRunAt forward, then place the buy via createInstantBuyOrder
+ *
+ * Buys go through the swap job queue, so they land in transactions and update cost basis like manual buys
+ */
+export async function processDcaSchedules(): Promise<void> {
+  try {
+    const now = new Date();
+
+    const due = await db.select()
+      .from(dcaSchedules)
+      .where(and(
+        eq(dcaSchedules.status, 'active'),
+        lte(dcaSchedules.nextRunAt, now)
+      ))
+      .orderBy(asc(dcaSchedules.nextRunAt));
+
+    if (due.length === 0) {
+      return;
+    }
+
+    const walletIds = Array.from(new Set(due.map(s => s.walletId)));
+    const busy = await getPendingSwapKeys(walletIds);
+
+    const balanceRows = await db.select({ walletId: balances.walletId, solBalance: balances.solBalance })
+      .from(balances)
+      .where(inArray(balances.walletId, walletIds));
+    const solBalances = new Map(balanceRows.map(row => [row.walletId, parseFloat(row.solBalance)]));
+
+    for (const schedule of due) {
+      const busyKey = `${schedule.walletId}:buy`;
+      const decision = getDcaRunDecision(schedule, {
+        solBalance: solBalances.get(schedule.walletId) ?? 0,
+        hasPendingBuy: busy.has(busyKey),
+      }, now);
+
+      if (decision === 'wait' || decision === 'defer') {
+        continue; // Deferred runs retry next cycle once the pending buy settles
+      }
+
+      try {
+        if (decision === 'skip') {
+          await skipDcaRun(schedule, `Insufficient balance: ${parseFloat(schedule.solAmount)} SOL required`, now);
+        } else if (await runDcaBuy(schedule, now)) {
+          busy.add(busyKey);
+          solBalances.set(schedule.walletId, (solBalances.get(schedule.walletId) ?? 0) - parseFloat(schedule.solAmount));
+        }
+      } catch (error: any) {
+        console.error(`❌ Failed to run DCA schedule ${schedule.id}:`, error.message);
+      }
+    }
+  } catch (error: any) {
+    console.error("DCA processing error:", error);
+  }
+}
+
+/**
+ * Claim this run: compare-and-set on the nextRunAt we read, so overlapping cycles run it once
+ */
+async function claimDcaRun(schedule: DcaSchedule, now: Date, updates: PgUpdateSetSource<typeof dcaSchedules>): Promise<boolean> {
+  const claimed = await db.update(dcaSchedules)
+    .set({
+      nextRunAt: getNextDcaRunAt(schedule.nextRunAt, schedule.intervalHours, now),
+      lastRunAt: now,
+      updatedAt: now,
+      ...updates
+    })
+    .where(and(
+      eq(dcaSchedules.id, schedule.id),
+      eq(dcaSchedules.status, 'active'),
+      eq(dcaSchedules.nextRunAt, schedule.nextRunAt)
+    ))
+    .returning({ id: dcaSchedules.id });
+
+  return claimed.length > 0;
+}
+
+async function skipDcaRun(schedule: DcaSchedule, reason: string, now: Date): Promise<void> {
+  const { notifyWalletOwner } = await import("./telegram-bot.js");
+
+  const claimed = await claimDcaRun(schedule, now, {
+    skippedIterations: sql`${dcaSchedules.skippedIterations} + 1`,
+    lastError: reason,
+  });
+
+  if (!claimed) {
+    return;
+  }
+
+  console.log(`📅 DCA schedule ${schedule.id} skipped a run: ${reason}`);
+  publishWalletEvent(schedule.walletId, { type: 'dca', data: { scheduleId: schedule.id, status: schedule.status } });
+
+  await notifyWalletOwner(schedule.walletId, `⏭ *DCA Buy Skipped*\n\n` +
+    `${parseFloat(schedule.solAmount)} SOL → ${schedule.tokenSymbol}\n` +
+    `Reason: ${reason}\n\n` +
+    `The schedule continues with the next run. Use /dca to manage it.`);
+}
+
+/**
+ * Place one iteration's buy. Returns true when the order was created
+ */
+async function runDcaBuy(schedule: DcaSchedule, now: Date): Promise<boolean> {
+  const { notifyWalletOwner } = await import("./telegram-bot.js");
+
+  if (!await claimDcaRun(schedule, now, {})) {
+    return false; // Paused, deleted or claimed elsewhere
+  }
+
+  const result = await createInstantBuyOrder({
+    walletId: schedule.walletId,
+    tokenAddress: schedule.tokenMint,
+    solAmount: schedule.solAmount,
+  });
+
+  if (!result.success) {
+    if (result.error?.includes("pending buy")) {
+      // Lost a race with another buy - give the run back so it retries next cycle
+      await db.update(dcaSchedules)
+        .set({ nextRunAt: schedule.nextRunAt, updatedAt: new Date() })
+        .where(eq(dcaSchedules.id, schedule.id));
+      return false;
+    }
+
+    // Never fail the schedule on a single run (quote errors, price impact, balance races)
+    await db.update(dcaSchedules)
+      .set({
+        skippedIterations: sql`${dcaSchedules.skippedIterations} + 1`,
+        lastError: result.error || "Failed to create buy order",
+        updatedAt: new Date()
+      })
+      .where(eq(dcaSchedules.id, schedule.id));
+
+    console.log(`📅 DCA schedule ${schedule.id} skipped a run: ${result.error}`);
+    publishWalletEvent(schedule.walletId, { type: 'dca', data: { scheduleId: schedule.id, status: schedule.status } });
+
+    await notifyWalletOwner(schedule.walletId, `⏭ *DCA Buy Skipped*\n\n` +
+      `${parseFloat(schedule.solAmount)} SOL → ${schedule.tokenSymbol}\n` +
+      `Reason: ${result.error || "Unknown error"}\n\n` +
+      `The schedule continues with the next run. Use /dca to manage it.`);
+    return false;
+  }
+
+  const completedIterations = schedule.completedIterations + 1;
+  const finished = isDcaScheduleFinished(completedIterations, schedule.totalIterations);
+
+  await db.update(dcaSchedules)
+    .set({
+      completedIterations: sql`${dcaSchedules.completedIterations} + 1`,
+      ...(finished ? { status: 'completed' as const } : {}),
+      lastAnxHash: result.anxHash,
+      lastError: null,
+      updatedAt: new Date()
+    })
+    .where(eq(dcaSchedules.id, schedule.id));
+
+  console.log(`📅 DCA schedule ${schedule.id} buy ${completedIterations}/${schedule.totalIterations ?? '∞'}: ${result.anxHash}`);
+  publishWalletEvent(schedule.walletId, { type: 'dca', data: { scheduleId: schedule.id, status: finished ? 'completed' : schedule.status } });
+
+  if (finished) {
+    await notifyWalletOwner(schedule.walletId, `✅ *DCA Schedule Finished*\n\n` +
+      `All ${schedule.totalIterations} buys of ${parseFloat(schedule.solAmount)} SOL → ${schedule.tokenSymbol} have been placed.`);
+  }
+
+  return true;
+}
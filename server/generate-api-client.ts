@@ -0,0 +1,13 @@
+// Generate API Client Script
+// Writes shared/api-client.ts from the OpenAPI document - re-run after changing server/api-contract.ts
+
+import fs from "fs";
+import path from "path";
+import { buildOpenApiDocument } from "./openapi";
+import { generateApiClient, API_CLIENT_PATH } from "./api-client-generator";
+
+const outputPath = path.resolve(import.meta.dirname, "..", API_CLIENT_PATH);
+const document = buildOpenApiDocument();
+
+fs.writeFileSync(outputPath, generateApiClient(document));
+console.log(`✅ Wrote ${API_CLIENT_PATH} (${Object.keys(document.paths).length} paths)`);
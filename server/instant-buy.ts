@@ -1,10 +1,15 @@
 import { db } from "./db";
-import { balances, tokenHoldings, transactions, swapJobs, wallets } from "@shared/schema";
+import { tokenHoldings, transactions, swapJobs, wallets } from "@shared/schema";
 import { eq, and, sql } from "drizzle-orm";
-import { getJupiterQuote, getTokenDecimals, toLamports } from "./jupiter";
+import { getJupiterQuote, toLamports } from "./jupiter";
 import { generateAnxTxHash } from "./swap-helpers";
-import { getTokenMetadataWithFallback } from "./helius-metadata";
+import { postSolMovement } from "./sol-ledger";
+import { getTradingSettings } from "./trading-settings";
+import { getQuoteOptions, checkPriceImpact } from "./quote-options";
+import { resolveTokenMetadata } from "./token-resolver";
 import { validateTokenDecimals } from "./token-metadata";
+import { scanTokenRisk } from "./token-risk-scanner";
+import { getRiskFindings } from "./token-risk";
 import crypto from "crypto";
 
 /**
@@ -38,11 +43,11 @@ export async function createInstantBuyOrder(params: {
       }
     }
     
-    // Fetch token metadata from Helius (symbol, name, decimals)
-    console.log(`📊 Fetching token metadata from Helius for ${tokenAddress}...`);
+    // Resolve token metadata (symbol, name, decimals) - persisted cache first
+    console.log(`📊 Resolving token metadata for ${tokenAddress}...`);
     let tokenMetadata;
     try {
-      tokenMetadata = await getTokenMetadataWithFallback(tokenAddress);
+      tokenMetadata = await resolveTokenMetadata(tokenAddress);
     } catch (error: any) {
       console.error(`❌ Failed to fetch token metadata: ${error.message}`);
       return { 
@@ -74,15 +79,33 @@ export async function createInstantBuyOrder(params: {
       throw new Error("System wallet not initialized");
     }
     
+    const settings = await getTradingSettings(walletId);
+    
+    // Opt-in guard: refuse tokens the risk scanner rates high
+    if (settings.blockHighRiskBuys) {
+      const riskReport = await scanTokenRisk(tokenAddress);
+      if (riskReport.level === 'high') {
+        const findings = getRiskFindings(riskReport).slice(0, 3).map(c => c.detail).join('; ');
+        return {
+          success: false,
+          error: `Buy blocked: ${tokenSymbol} has a high risk score (${riskReport.score}/100) - ${findings}. Turn off "Block high-risk buys" in settings to buy anyway.`
+        };
+      }
+    }
+    
     const jupiterQuote = await getJupiterQuote({
       inputMint: 'So11111111111111111111111111111111111111112', // SOL mint
       outputMint: tokenAddress,
       amount: swapAmount,
-      slippageBps: 200, // 2% slippage
       taker: systemWallet.address, // System wallet as taker for swap execution
-      onlyDirectRoutes: true // MEV protection
+      ...getQuoteOptions(settings) // Per-wallet slippage / anti-MEV / priority fee
     });
     
+    const priceImpactError = checkPriceImpact(jupiterQuote.priceImpactPct, settings);
+    if (priceImpactError) {
+      return { success: false, error: priceImpactError };
+    }
+    
     const expectedTokenAmount = parseFloat(jupiterQuote.outAmount) / Math.pow(10, tokenDecimals);
     
     // Generate ANX hash
@@ -98,7 +121,7 @@ export async function createInstantBuyOrder(params: {
         txhash: anxHash,
         type: 'buy',
         tokenAddress,
-        tokenSymbol: tokenSymbol, // Real token symbol from Helius
+        tokenSymbol: tokenSymbol, // Real token symbol from the metadata resolver
         amount: expectedTokenAmount.toString(),
         solValue: solAmount, // SOL spent for buy
         instructions: 'buy', // Transaction type for explorer display
@@ -108,31 +131,14 @@ export async function createInstantBuyOrder(params: {
       
       const transactionId = txResult[0].id;
       
-      // 2. CRITICAL: Atomic balance deduction with guard (prevents race condition exploit)
-      // Uses WHERE sol_balance >= amount to ensure we NEVER go negative
-      const updatedBalances = await tx.execute(sql`
-        UPDATE ${balances}
-        SET 
-          sol_balance = sol_balance - ${requiredAmount.toString()}::decimal,
-          updated_at = NOW()
-        WHERE wallet_id = ${walletId}
-          AND sol_balance >= ${requiredAmount.toString()}::decimal
-        RETURNING *
-      `);
-      
-      // Verify row was actually updated (prevents overdraft from race conditions)
-      if (updatedBalances.rowCount === 0) {
-        throw new Error(`Insufficient balance: ${requiredAmount.toFixed(4)} SOL required`);
-      }
-      
-      // 3. Create swap job for background processing
+      // 2. Create swap job for background processing
       // ✅ Decimals already validated above - safe to store
-      await tx.insert(swapJobs).values({
+      const [job] = await tx.insert(swapJobs).values({
         walletId,
         transactionId,
         type: 'buy',
         tokenMint: tokenAddress,
-        tokenSymbol: tokenSymbol, // Real token symbol from Helius
+        tokenSymbol: tokenSymbol, // Real token symbol from the metadata resolver
         tokenDecimals: tokenDecimals.toString(), // ✅ Validated (finite, integer, >= 0)
         solAmount: solAmount,
         tokenAmount: expectedTokenAmount.toString(),
@@ -140,13 +146,28 @@ export async function createInstantBuyOrder(params: {
         telegramChatId: telegramChatId || null, // Store for message editing
         telegramMessageId: telegramMessageId || null, // Store for message editing
         status: 'pending'
+      }).returning({ id: swapJobs.id });
+      
+      // 3. CRITICAL: Atomic balance deduction with guard + ledger entry (prevents race condition exploit)
+      // Guarded by sol_balance >= amount to ensure we NEVER go negative
+      const updatedBalance = await postSolMovement(tx, {
+        walletId,
+        amount: solAmount,
+        reason: 'swap_buy',
+        transactionId,
+        swapJobId: job.id
       });
       
+      // Verify row was actually updated (prevents overdraft from race conditions)
+      if (!updatedBalance) {
+        throw new Error(`Insufficient balance: ${requiredAmount.toFixed(4)} SOL required`);
+      }
+      
       // 4. Update token_holdings with pendingInAmount (instant portfolio feedback)
       await tx.insert(tokenHoldings).values({
         walletId,
         mint: tokenAddress,
-        symbol: tokenSymbol, // Real token symbol from Helius
+        symbol: tokenSymbol, // Real token symbol from the metadata resolver
         amount: '0',
         pendingInAmount: expectedTokenAmount.toString(),
         averageEntryPrice: null,
@@ -1,9 +1,11 @@
 import { db } from "./db";
 import { balances, tokenHoldings, transactions, swapJobs, wallets } from "@shared/schema";
 import { eq, and, sql } from "drizzle-orm";
-import { getJupiterQuote, getTokenDecimals, toLamports } from "./jupiter";
+import { getJupiterQuote, toLamports } from "./jupiter";
 import { generateAnxTxHash } from "./swap-helpers";
-import { getTokenMetadataWithFallback } from "./helius-metadata";
+import { getTradingSettings } from "./trading-settings";
+import { getQuoteOptions, checkPriceImpact } from "./quote-options";
+import { resolveTokenMetadata } from "./token-resolver";
 import { validateTokenDecimals } from "./token-metadata";
 
 /**
@@ -71,39 +73,29 @@ export async function createInstantSellOrder(params: {
       return { success: false, error: `Insufficient holdings: ${currentHolding.toFixed(4)} available, ${sellAmount.toFixed(4)} required` };
     }
     
-    // Fetch token metadata from Helius (ensure we have real symbol, not CA prefix)
-    let tokenSymbol = holdingRows[0].symbol;
-    let tokenDecimals: number;
-    
-    // If symbol looks like CA prefix (6 chars), fetch from Helius
-    if (!tokenSymbol || tokenSymbol.length === 6) {
-      console.log(`📊 Fetching token metadata from Helius for ${tokenAddress}...`);
-      try {
-        const metadata = await getTokenMetadataWithFallback(tokenAddress);
-        tokenSymbol = metadata.symbol;
-        tokenDecimals = metadata.decimals; // Pre-validated by metadata service
-      } catch (error: any) {
-        console.error(`❌ Failed to fetch token metadata: ${error.message}`);
-        return { 
-          success: false, 
-          error: `Unable to fetch token information for ${tokenAddress.slice(0, 6)}...${tokenAddress.slice(-4)}. This token may not exist or metadata services are temporarily unavailable. Please try again later.` 
-        };
-      }
-    } else {
-      // Fetch decimals from Jupiter
-      const rawDecimals = await getTokenDecimals(tokenAddress);
-      
-      // CRITICAL: Validate decimals BEFORE using in Math.pow
-      const decimalsValidation = validateTokenDecimals(rawDecimals, 'Jupiter');
-      if (decimalsValidation.kind === 'error') {
-        console.error(`❌ ${decimalsValidation.reason}`);
-        return {
-          success: false,
-          error: `Invalid token decimals for ${tokenSymbol}. Unable to process sell order. Please contact support.`
-        };
-      }
-      tokenDecimals = decimalsValidation.decimals; // ✅ Validated!
+    // Resolve token metadata (real symbol instead of a CA prefix, decimals from the mint account)
+    let tokenMetadata;
+    try {
+      tokenMetadata = await resolveTokenMetadata(tokenAddress);
+    } catch (error: any) {
+      console.error(`❌ Failed to fetch token metadata: ${error.message}`);
+      return { 
+        success: false, 
+        error: `Unable to fetch token information for ${tokenAddress.slice(0, 6)}...${tokenAddress.slice(-4)}. This token may not exist or metadata services are temporarily unavailable. Please try again later.` 
+      };
     }
+    const tokenSymbol = tokenMetadata.symbol === 'UNKNOWN' && holdingRows[0].symbol ? holdingRows[0].symbol : tokenMetadata.symbol;
+    
+    // CRITICAL: Validate decimals BEFORE using in Math.pow
+    const decimalsValidation = validateTokenDecimals(tokenMetadata.decimals, 'TokenMetadata');
+    if (decimalsValidation.kind === 'error') {
+      console.error(`❌ ${decimalsValidation.reason}`);
+      return {
+        success: false,
+        error: `Invalid token decimals for ${tokenSymbol}. Unable to process sell order. Please contact support.`
+      };
+    }
+    const tokenDecimals = decimalsValidation.decimals; // ✅ Validated!
     
     // Fetch fresh Jupiter quote with system wallet as taker
     console.log(`📊 Fetching Jupiter quote for ${tokenAmount} ${tokenSymbol} sell...`);
@@ -117,15 +109,21 @@ export async function createInstantSellOrder(params: {
       throw new Error("System wallet not initialized");
     }
     
+    const settings = await getTradingSettings(walletId);
+    
     const jupiterQuote = await getJupiterQuote({
       inputMint: tokenAddress,
       outputMint: 'So11111111111111111111111111111111111111112', // SOL mint
       amount: swapAmount.toString(),
-      slippageBps: 200, // 2% slippage
       taker: systemWallet.address, // System wallet as taker for swap execution
-      onlyDirectRoutes: true // MEV protection
+      ...getQuoteOptions(settings) // Per-wallet slippage / anti-MEV / priority fee
     });
     
+    const priceImpactError = checkPriceImpact(jupiterQuote.priceImpactPct, settings);
+    if (priceImpactError) {
+      return { success: false, error: priceImpactError };
+    }
+    
     const expectedSolAmount = parseFloat(jupiterQuote.outAmount) / 1e9; // SOL has 9 decimals
     
     // Generate ANX hash
@@ -139,7 +137,7 @@ export async function createInstantSellOrder(params: {
         txhash: anxHash,
         type: 'sell',
         tokenAddress,
-        tokenSymbol: tokenSymbol, // Real token symbol from Helius or holdings
+        tokenSymbol: tokenSymbol, // Real token symbol from the metadata resolver or holdings
         amount: sellAmount.toString(),
         solValue: expectedSolAmount.toString(), // SOL received for sell
         instructions: 'sell', // Transaction type for explorer display
@@ -206,7 +204,7 @@ export async function createInstantSellOrder(params: {
         transactionId,
         type: 'sell',
         tokenMint: tokenAddress,
-        tokenSymbol: tokenSymbol, // Real token symbol from Helius or holdings
+        tokenSymbol: tokenSymbol, // Real token symbol from the metadata resolver or holdings
         tokenDecimals: tokenDecimals.toString(), // ✅ Validated (finite, integer, >= 0)
         solAmount: expectedSolAmount.toString(),
         tokenAmount: sellAmount.toString(),
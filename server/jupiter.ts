@@ -1,6 +1,8 @@
 import fetch from 'node-fetch';
 import { Connection, VersionedTransaction, Keypair, PublicKey, SystemProgram, Transaction, sendAndConfirmTransaction, LAMPORTS_PER_SOL } from '@solana/web3.js';
 import bs58 from 'bs58';
+import { createConnectionSimulationRpc } from './swap-simulation';
+import { createConnectionBalanceReader } from './solvency';
 
 const JUPITER_ULTRA_API_BASE = 'https://lite-api.jup.ag/ultra/v1';
 const HELIUS_API_KEY = process.env.HELIUS_API_KEY;
@@ -8,7 +10,13 @@ const SOLANA_RPC = 'https://api.mainnet-beta.solana.com'; // Force public RPC (H
 
 const connection = new Connection(SOLANA_RPC, 'confirmed');
 
-// Separate connection for public RPC calls (token decimals fetch) - no auth required
+// RPC adapter for pre-execution swap simulation (see swap-simulation.ts)
+export const swapSimulationRpc = createConnectionSimulationRpc(connection);
+
+// On-chain reader for solvency reconciliation (see solvency.ts)
+export const chainBalanceReader = createConnectionBalanceReader(connection);
+
+// Separate connection for public RPC calls (mint account fetch) - no auth required
 const publicConnection = new Connection('https://api.mainnet-beta.solana.com', 'confirmed');
 
 export interface JupiterQuote {
@@ -19,6 +27,7 @@ export interface JupiterQuote {
   priceImpactPct: string;
   requestId?: string;
   transaction?: string;
+  slippageBps?: number; // Slippage tolerance the order was built with
 }
 
 export interface SwapParams {
@@ -36,6 +45,7 @@ export async function getJupiterQuote(params: {
   slippageBps?: number;
   taker?: string;
   onlyDirectRoutes?: boolean;
+  priorityFeeLamports?: number; // Priority fee cap (omit = Jupiter auto)
 }): Promise<JupiterQuote> {
   const slippage = params.slippageBps || 200; // Default 2% for anti-frontrunning
   
@@ -45,7 +55,8 @@ export async function getJupiterQuote(params: {
     `&amount=${params.amount}` +
     `&slippageBps=${slippage}` + // CRITICAL: Add slippage protection
     (params.taker ? `&taker=${params.taker}` : '') +
-    (params.onlyDirectRoutes ? `&onlyDirectRoutes=true` : ''); // MEV protection: simpler routes
+    (params.onlyDirectRoutes ? `&onlyDirectRoutes=true` : '') + // MEV protection: simpler routes
+    (params.priorityFeeLamports ? `&priorityFeeLamports=${params.priorityFeeLamports}` : '');
   
   console.log('🔍 Fetching Jupiter Ultra order:', orderUrl);
   
@@ -65,7 +76,8 @@ export async function getJupiterQuote(params: {
     outAmount: orderData.outAmount || '0',
     priceImpactPct: orderData.priceImpactPct || '0',
     requestId: orderData.requestId,
-    transaction: orderData.transaction
+    transaction: orderData.transaction,
+    slippageBps: slippage
   };
   
   console.log(`✅ Jupiter Ultra order: ${quote.inAmount} → ${quote.outAmount} (impact: ${quote.priceImpactPct}%)`);
@@ -141,6 +153,27 @@ export async function executeJupiterSwap(
   return txid;
 }
 
+/**
+ * Look up the on-chain outcome of a submitted transaction
+ * Used by swap job crash recovery to decide between settlement and refund
+ * @returns 'confirmed' (landed, no error), 'failed' (landed with error) or 'unknown' (not found yet)
+ */
+export async function getTransactionStatus(signature: string): Promise<'confirmed' | 'failed' | 'unknown'> {
+  const { value } = await connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+  
+  if (!value) {
+    return 'unknown';
+  }
+  
+  if (value.err) {
+    return 'failed';
+  }
+  
+  return value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized'
+    ? 'confirmed'
+    : 'unknown';
+}
+
 export const SOL_MINT = 'So11111111111111111111111111111111111111112';
 
 export function toLamports(solAmount: number): string {
@@ -151,23 +184,50 @@ export function fromLamports(lamports: string): number {
   return parseInt(lamports) / 1e9;
 }
 
-export async function getTokenDecimals(mintAddress: string): Promise<number> {
+/**
+ * Fetch a mint account as jsonParsed data (program + parsed info incl. Token-2022 extensions)
+ * @returns Parsed account data, or null if the account is missing or the RPC call failed
+ */
+export async function getParsedMintAccount(mintAddress: string): Promise<{ program: string; parsed: any } | null> {
   try {
-    const mintPublicKey = new PublicKey(mintAddress);
-    // Use public RPC connection (no auth required) for metadata fetch
-    const mintInfo = await publicConnection.getParsedAccountInfo(mintPublicKey);
-    
+    const mintInfo = await publicConnection.getParsedAccountInfo(new PublicKey(mintAddress));
+
     if (mintInfo.value && 'parsed' in mintInfo.value.data) {
-      const decimals = mintInfo.value.data.parsed.info.decimals;
-      console.log(`✅ Fetched ${decimals} decimals for token ${mintAddress}`);
-      return decimals;
+      return { program: mintInfo.value.data.program, parsed: mintInfo.value.data.parsed };
     }
-    
-    console.warn(`⚠️ Could not parse decimals for ${mintAddress}, defaulting to 9`);
-    return 9; // Default to 9 if can't fetch
+
+    return null;
+  } catch (error) {
+    console.error(`❌ Failed to fetch mint account for ${mintAddress}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Share of a token's supply held by its largest token accounts (includes pool vaults)
+ * @returns 0-1, or null if the RPC call failed or the supply is zero
+ */
+export async function getTopHolderShare(mintAddress: string, count: number = 10): Promise<number | null> {
+  try {
+    const mintPublicKey = new PublicKey(mintAddress);
+    const [largest, supply] = await Promise.all([
+      publicConnection.getTokenLargestAccounts(mintPublicKey),
+      publicConnection.getTokenSupply(mintPublicKey)
+    ]);
+
+    const total = BigInt(supply.value.amount);
+    if (total === BigInt(0)) {
+      return null;
+    }
+
+    const top = largest.value
+      .slice(0, count)
+      .reduce((sum, account) => sum + BigInt(account.amount), BigInt(0));
+
+    return Number((top * BigInt(10000)) / total) / 10000;
   } catch (error) {
-    console.error(`❌ Failed to fetch decimals for ${mintAddress}:`, error);
-    return 9; // Default to 9 on error
+    console.error(`❌ Failed to fetch largest holders for ${mintAddress}:`, error);
+    return null;
   }
 }
 
@@ -0,0 +1,25 @@
+/**
+ * Limit order trigger check
+ *
+ * Orders are priced in USD or in SOL per token. SOL-denominated orders compare against
+ * the USD price divided by the SOL price; without a usable SOL price nothing triggers.
+ * Pure functions - the limit order job (server/limit-orders.ts) supplies live prices
+ */
+
+/**
+ * Order price in the order's currency
+ */
+export function getLimitOrderPrice(priceCurrency: 'usd' | 'sol', priceUsd: number, solPriceUsd: number): number {
+  return priceCurrency === 'sol' ? priceUsd / solPriceUsd : priceUsd;
+}
+
+/**
+ * Check whether a limit order should fire at the given price
+ * BUY fires when price drops to or below target, SELL fires when price rises to or above target
+ */
+export function isLimitOrderTriggered(type: 'buy' | 'sell', targetPrice: number, currentPrice: number): boolean {
+  if (!Number.isFinite(currentPrice) || currentPrice <= 0) {
+    return false;
+  }
+  return type === 'buy' ? currentPrice <= targetPrice : currentPrice >= targetPrice;
+}
@@ -0,0 +1,281 @@
+import { db } from "./db";
+import { limitOrders, tokenHoldings, type LimitOrder } from "@shared/schema";
+import { eq, and, sql, desc } from "drizzle-orm";
+import { getTokenPrices } from "./pricing";
+import { getSolanaPrice } from "./coingecko";
+import { resolveTokenMetadata } from "./token-resolver";
+import { createInstantBuyOrder } from "./instant-buy";
+import { createInstantSellOrder } from "./instant-sell";
+import { getPendingSwapKeys } from "./swap-helpers";
+import { getLimitOrderPrice, isLimitOrderTriggered } from "./limit-order-trigger";
+
+const MAX_OPEN_ORDERS_PER_WALLET = 20;
+
+/**
+ * Create a resting limit order
+ * Nothing is reserved up-front: balance/holding guards run when the order triggers
+ * and the regular instant buy/sell path enqueues the swap job
+ */
+export async function createLimitOrder(params: {
+  walletId: string;
+  type: 'buy' | 'sell';
+  tokenAddress: string;
+  priceCurrency: 'usd' | 'sol';
+  targetPrice: string;
+  solAmount?: string; // BUY only
+  tokenAmount?: string; // SELL only
+  expiresAt?: Date | null;
+}): Promise<{ success: boolean; order?: LimitOrder; error?: string }> {
+  try {
+    const { walletId, type, tokenAddress, priceCurrency, targetPrice, solAmount, tokenAmount, expiresAt } = params;
+
+    const target = parseFloat(targetPrice);
+    if (!Number.isFinite(target) || target <= 0) {
+      return { success: false, error: "Target price must be greater than zero" };
+    }
+
+    if (expiresAt && expiresAt.getTime() <= Date.now()) {
+      return { success: false, error: "Expiry must be in the future" };
+    }
+
+    let tokenSymbol: string;
+
+    if (type === 'buy') {
+      const spend = parseFloat(solAmount || "0");
+      if (!Number.isFinite(spend) || spend <= 0) {
+        return { success: false, error: "SOL amount must be greater than zero" };
+      }
+
+      try {
+        const metadata = await resolveTokenMetadata(tokenAddress);
+        tokenSymbol = metadata.symbol;
+      } catch (error: any) {
+        return { success: false, error: "Unable to fetch token information for this address" };
+      }
+    } else {
+      const sellAmount = parseFloat(tokenAmount || "0");
+      if (!Number.isFinite(sellAmount) || sellAmount <= 0) {
+        return { success: false, error: "Token amount must be greater than zero" };
+      }
+
+      const holding = await db.select()
+        .from(tokenHoldings)
+        .where(and(
+          eq(tokenHoldings.walletId, walletId),
+          eq(tokenHoldings.mint, tokenAddress)
+        ))
+        .limit(1);
+
+      if (holding.length === 0 || parseFloat(holding[0].amount) <= 0) {
+        return { success: false, error: "You don't hold this token" };
+      }
+
+      if (sellAmount > parseFloat(holding[0].amount)) {
+        return { success: false, error: `Insufficient tokens: you hold ${parseFloat(holding[0].amount).toFixed(6)} ${holding[0].symbol}` };
+      }
+
+      tokenSymbol = holding[0].symbol;
+    }
+
+    const openCount = await db.select({ count: sql<number>`count(*)::int` })
+      .from(limitOrders)
+      .where(and(
+        eq(limitOrders.walletId, walletId),
+        eq(limitOrders.status, 'open')
+      ));
+
+    if ((openCount[0]?.count || 0) >= MAX_OPEN_ORDERS_PER_WALLET) {
+      return { success: false, error: `Maximum of ${MAX_OPEN_ORDERS_PER_WALLET} open limit orders per wallet` };
+    }
+
+    const [order] = await db.insert(limitOrders).values({
+      walletId,
+      type,
+      tokenMint: tokenAddress,
+      tokenSymbol,
+      priceCurrency,
+      targetPrice,
+      solAmount: type === 'buy' ? solAmount : null,
+      tokenAmount: type === 'sell' ? tokenAmount : null,
+      expiresAt: expiresAt || null,
+    }).returning();
+
+    console.log(`📌 Limit ${type} order created: ${order.id} (${tokenSymbol} @ ${targetPrice} ${priceCurrency.toUpperCase()})`);
+
+    return { success: true, order };
+  } catch (error: any) {
+    console.error("Create limit order error:", error);
+    return { success: false, error: error.message || "Failed to create limit order" };
+  }
+}
+
+/**
+ * Cancel an open limit order
+ * SECURE: Only cancels orders owned by walletId, compare-and-set on status='open'
+ */
+export async function cancelLimitOrder(walletId: string, orderId: string): Promise<{ success: boolean; error?: string }> {
+  const cancelled = await db.update(limitOrders)
+    .set({
+      status: 'cancelled',
+      updatedAt: new Date()
+    })
+    .where(and(
+      eq(limitOrders.id, orderId),
+      eq(limitOrders.walletId, walletId),
+      eq(limitOrders.status, 'open')
+    ))
+    .returning({ id: limitOrders.id });
+
+  if (cancelled.length === 0) {
+    return { success: false, error: "Order not found or no longer open" };
+  }
+
+  console.log(`🚫 Limit order cancelled: ${orderId}`);
+  return { success: true };
+}
+
+/**
+ * List limit orders for a wallet (newest first)
+ */
+export async function getLimitOrders(walletId: string, status?: LimitOrder['status']): Promise<LimitOrder[]> {
+  const conditions = [eq(limitOrders.walletId, walletId)];
+  if (status) {
+    conditions.push(eq(limitOrders.status, status));
+  }
+
+  return await db.select()
+    .from(limitOrders)
+    .where(and(...conditions))
+    .orderBy(desc(limitOrders.createdAt))
+    .limit(50);
+}
+
+/**
+ * Process open limit orders (called from background polling)
+ * 1. Expire orders past expiresAt
+ * 2. Fetch live prices for all open mints in one batch
+ * 3. Claim crossed orders atomically (open → triggered) and enqueue a regular swap job
+ */
+export async function processLimitOrders(): Promise<void> {
+  try {
+    const expired = await db.update(limitOrders)
+      .set({
+        status: 'expired',
+        updatedAt: new Date()
+      })
+      .where(sql`${limitOrders.status} = 'open' AND ${limitOrders.expiresAt} IS NOT NULL AND ${limitOrders.expiresAt} <= NOW()`)
+      .returning({ id: limitOrders.id });
+
+    if (expired.length > 0) {
+      console.log(`⌛ Expired ${expired.length} limit order(s)`);
+    }
+
+    const openOrders = await db.select()
+      .from(limitOrders)
+      .where(eq(limitOrders.status, 'open'));
+
+    if (openOrders.length === 0) {
+      return;
+    }
+
+    const mints = Array.from(new Set(openOrders.map(o => o.tokenMint)));
+    const priceMap = await getTokenPrices(mints);
+    const needsSolPrice = openOrders.some(o => o.priceCurrency === 'sol');
+    const solPrice = needsSolPrice ? await getSolanaPrice() : 0;
+
+    // Skip wallets that already have a pending buy/sell (one pending tx per wallet+type constraint)
+    const busy = await getPendingSwapKeys(Array.from(new Set(openOrders.map(o => o.walletId))));
+
+    for (const order of openOrders) {
+      const priceUsd = priceMap.get(order.tokenMint);
+      if (priceUsd === null || priceUsd === undefined) {
+        continue; // No price available this cycle
+      }
+
+      const currentPrice = getLimitOrderPrice(order.priceCurrency, priceUsd, solPrice);
+      if (!isLimitOrderTriggered(order.type, parseFloat(order.targetPrice), currentPrice)) {
+        continue;
+      }
+
+      const busyKey = `${order.walletId}:${order.type}`;
+      if (busy.has(busyKey)) {
+        continue; // Retry next cycle once the pending swap settles
+      }
+
+      try {
+        await triggerLimitOrder(order, currentPrice);
+        busy.add(busyKey);
+      } catch (error: any) {
+        console.error(`❌ Failed to trigger limit order ${order.id}:`, error.message);
+      }
+    }
+  } catch (error: any) {
+    console.error("Limit order processing error:", error);
+  }
+}
+
+/**
+ * Claim a crossed order and hand it to the instant buy/sell path
+ * IDEMPOTENCY: compare-and-set (status='open') ensures an order is only enqueued once
+ */
+async function triggerLimitOrder(order: LimitOrder, currentPrice: number): Promise<void> {
+  const { notifyWalletOwner } = await import("./telegram-bot.js");
+
+  const claimed = await db.update(limitOrders)
+    .set({
+      status: 'triggered',
+      triggerPrice: currentPrice.toFixed(12),
+      triggeredAt: new Date(),
+      updatedAt: new Date()
+    })
+    .where(and(
+      eq(limitOrders.id, order.id),
+      eq(limitOrders.status, 'open')
+    ))
+    .returning({ id: limitOrders.id });
+
+  if (claimed.length === 0) {
+    return; // Cancelled or claimed elsewhere
+  }
+
+  console.log(`🎯 Limit ${order.type} order ${order.id} triggered: ${order.tokenSymbol} @ ${currentPrice} ${order.priceCurrency.toUpperCase()} (target ${order.targetPrice})`);
+
+  const result = order.type === 'buy'
+    ? await createInstantBuyOrder({
+        walletId: order.walletId,
+        tokenAddress: order.tokenMint,
+        solAmount: order.solAmount!,
+      })
+    : await createInstantSellOrder({
+        walletId: order.walletId,
+        tokenAddress: order.tokenMint,
+        tokenAmount: order.tokenAmount!,
+      });
+
+  if (!result.success) {
+    await db.update(limitOrders)
+      .set({
+        status: 'failed',
+        failureReason: result.error || "Failed to enqueue swap",
+        updatedAt: new Date()
+      })
+      .where(eq(limitOrders.id, order.id));
+
+    await notifyWalletOwner(order.walletId, `❌ *Limit Order Failed*\n\n` +
+      `${order.type.toUpperCase()} ${order.tokenSymbol} @ ${order.targetPrice} ${order.priceCurrency.toUpperCase()}\n\n` +
+      `Reason: ${result.error || "Unknown error"}`);
+    return;
+  }
+
+  await db.update(limitOrders)
+    .set({
+      anxHash: result.anxHash,
+      updatedAt: new Date()
+    })
+    .where(eq(limitOrders.id, order.id));
+
+  await notifyWalletOwner(order.walletId, `🎯 *Limit Order Triggered*\n\n` +
+    `${order.type.toUpperCase()} ${order.tokenSymbol} @ ${currentPrice.toPrecision(6)} ${order.priceCurrency.toUpperCase()}\n` +
+    `Target: ${order.targetPrice} ${order.priceCurrency.toUpperCase()}\n\n` +
+    `Swap queued - you'll be notified when it completes.`);
+}
@@ -0,0 +1,112 @@
+import crypto from "crypto";
+import type {
+  BridgeAmountRange,
+  BridgeAsset,
+  BridgeExchange,
+  BridgeExchangeStatus,
+  BridgeProvider,
+  IntermediateChain
+} from "./bridge-provider";
+
+/**
+ * In-memory bridge provider for tests and local development
+ * Exchanges never move funds: tests drive them through setStatus()
+ */
+export class MockBridgeProvider implements BridgeProvider {
+  readonly name: string;
+  readonly etaMinutes = { min: 1, max: 2 };
+  readonly exchanges = new Map<string, BridgeExchange>();
+
+  // Output per unit of input, keyed "from->to" by ticker (e.g. "sol->trx")
+  rates = new Map<string, number>([["sol->trx", 600], ["trx->sol", 1 / 600]]);
+
+  // Accepted input per pair, same keys as rates (no limits when missing)
+  ranges = new Map<string, BridgeAmountRange>();
+
+  constructor(name = "mock") {
+    this.name = name;
+  }
+
+  private convert(from: BridgeAsset, to: BridgeAsset, amount: string): string {
+    const rate = this.rates.get(`${from.ticker}->${to.ticker}`);
+    if (rate === undefined) {
+      throw new Error("This exchange pair is not available");
+    }
+    return (parseFloat(amount) * rate).toFixed(9);
+  }
+
+  async createExchange({ from, to, amount, addressTo }: { from: BridgeAsset; to: BridgeAsset; amount: string; addressTo: string }) {
+    const exchange: BridgeExchange = {
+      id: `mock_${crypto.randomUUID()}`,
+      status: "waiting",
+      depositAddress: `mock_deposit_${crypto.randomUUID()}`,
+      addressTo,
+      amountFrom: amount,
+      expectedAmountTo: this.convert(from, to, amount),
+      amountTo: null,
+      txFrom: null,
+      txTo: null,
+    };
+    this.exchanges.set(exchange.id, exchange);
+    return { ...exchange };
+  }
+
+  async getStatus(exchangeId: string) {
+    const exchange = this.exchanges.get(exchangeId);
+    if (!exchange) {
+      throw new Error("Exchange not found");
+    }
+    return { ...exchange };
+  }
+
+  async estimate({ from, to, amount }: { from: BridgeAsset; to: BridgeAsset; amount: string }) {
+    return this.convert(from, to, amount);
+  }
+
+  async getRange({ from, to }: { from: BridgeAsset; to: BridgeAsset }) {
+    return this.ranges.get(`${from.ticker}->${to.ticker}`) ?? { min: "0", max: null };
+  }
+
+  /**
+   * Advance an exchange; finishing without amountTo pays out the expected amount
+   */
+  setStatus(exchangeId: string, status: BridgeExchangeStatus, updates: Partial<BridgeExchange> = {}) {
+    const exchange = this.exchanges.get(exchangeId);
+    if (!exchange) {
+      throw new Error("Exchange not found");
+    }
+
+    exchange.status = status;
+    if (status === "finished" && exchange.amountTo === null) {
+      exchange.amountTo = exchange.expectedAmountTo;
+    }
+    Object.assign(exchange, updates);
+  }
+}
+
+/**
+ * In-memory intermediate chain: the relay wallet is a balance, sends are recorded
+ */
+export class MockIntermediateChain implements IntermediateChain {
+  readonly id: string;
+  readonly asset: BridgeAsset;
+  readonly relayWalletName = "privacy_relay_node";
+  readonly minRecoveryBalance = 10;
+  relayBalance = 0;
+  readonly sent: Array<{ toAddress: string; amount: number; txId: string }> = [];
+
+  constructor(id = "trx", asset: BridgeAsset = { ticker: "trx", network: "trx" }) {
+    this.id = id;
+    this.asset = asset;
+  }
+
+  async getRelayBalance() {
+    return this.relayBalance;
+  }
+
+  async sendFromRelay(toAddress: string, amount: number) {
+    const txId = `mock_tx_${crypto.randomUUID()}`;
+    this.sent.push({ toAddress, amount, txId });
+    return txId;
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * OHLC price candles
+ *
+ * Every price sample (polling of held/traded tokens, executed swap prices) is merged into one candle per
+ * interval, so coarse candles are complete as soon as their period ends. Retention bounds the table:
+ * fine candles are dropped once a coarser interval covers their period.
+ *
+ *   1m → kept 2 days    5m → kept 14 days    1h → kept 180 days    1d → kept 5 years
+ *
+ * Pure functions - server/price-history.ts persists candles and runs retention
+ */
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export const CANDLE_INTERVALS = {
+  '1m': { ms: MINUTE, retentionMs: 2 * DAY },
+  '5m': { ms: 5 * MINUTE, retentionMs: 14 * DAY },
+  '1h': { ms: HOUR, retentionMs: 180 * DAY },
+  '1d': { ms: DAY, retentionMs: 5 * 365 * DAY },
+} as const;
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+// Finest first
+export const CANDLE_INTERVAL_NAMES = Object.keys(CANDLE_INTERVALS) as CandleInterval[];
+
+export interface Candle {
+  openTime: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  samples: number;
+}
+
+export function isCandleInterval(value: unknown): value is CandleInterval {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CANDLE_INTERVALS, value);
+}
+
+/**
+ * Start of the candle containing `at` (UTC-aligned; daily candles open at 00:00 UTC)
+ */
+export function getCandleOpenTime(at: Date, interval: CandleInterval): Date {
+  const ms = CANDLE_INTERVALS[interval].ms;
+  return new Date(Math.floor(at.getTime() / ms) * ms);
+}
+
+/**
+ * Merge one price observation into a candle (a new candle when there is none yet)
+ */
+export function mergeCandleSample(candle: Candle | null, openTime: Date, price: number): Candle {
+  if (!candle) {
+    return { openTime, open: price, high: price, low: price, close: price, samples: 1 };
+  }
+
+  return {
+    openTime: candle.openTime,
+    open: candle.open,
+    high: Math.max(candle.high, price),
+    low: Math.min(candle.low, price),
+    close: price,
+    samples: candle.samples + 1,
+  };
+}
+
+/**
+ * Finest interval whose retention still covers `at` (null when even daily candles are gone)
+ */
+export function getFinestIntervalCovering(at: Date, now: Date = new Date()): CandleInterval | null {
+  const age = now.getTime() - at.getTime();
+  return CANDLE_INTERVAL_NAMES.find(interval => age <= CANDLE_INTERVALS[interval].retentionMs) ?? null;
+}
+
+/**
+ * Fill periods without samples with flat candles at the previous close, so charts get an even time axis
+ * Candles must be sorted by openTime (oldest first)
+ */
+export function fillCandleGaps(candles: Candle[], interval: CandleInterval): Candle[] {
+  const ms = CANDLE_INTERVALS[interval].ms;
+  const result: Candle[] = [];
+
+  for (const candle of candles) {
+    const previous = result[result.length - 1];
+    if (previous) {
+      for (let t = previous.openTime.getTime() + ms; t < candle.openTime.getTime(); t += ms) {
+        const close = previous.close;
+        result.push({ openTime: new Date(t), open: close, high: close, low: close, close, samples: 0 });
+      }
+    }
+    result.push(candle);
+  }
+
+  return result;
+}
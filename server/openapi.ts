@@ -0,0 +1,336 @@
+import { z } from "zod";
+import { apiRoutes, apiV1Routes, apiErrorSchema, type ApiRoute, type ApiV1Route } from "./api-contract";
+
+/**
+ * OpenAPI 3 document built from the API contract (server/api-contract.ts)
+ *
+ * Zod schemas are converted to OpenAPI 3.0 schema objects (nullable instead of type arrays).
+ * Only the zod types the contract uses are supported - anything else throws, so a new
+ * schema that cannot be documented fails the unit test instead of silently disappearing.
+ *
+ * Pure module: served by GET /api/openapi.json and read by the client generator.
+ */
+
+export const OPENAPI_VERSION = '3.0.3';
+export const API_DOCUMENT_VERSION = '1.0.0';
+
+export type JsonSchema = { [key: string]: unknown };
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  tags: string[];
+  security: Array<Record<string, string[]>>;
+  parameters?: OpenApiParameter[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: JsonSchema }>;
+  };
+  responses: Record<string, {
+    description: string;
+    content?: Record<string, { schema: JsonSchema }>;
+  }>;
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  servers: Array<{ url: string }>;
+  tags: Array<{ name: string }>;
+  components: {
+    securitySchemes: Record<string, JsonSchema>;
+    schemas: Record<string, JsonSchema>;
+  };
+  paths: Record<string, Record<string, OpenApiOperation>>;
+}
+
+const V1_TAG = 'Developer API v1';
+
+// ======================
+// Zod -> JSON Schema
+// ======================
+
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const converted = convert(schema);
+  return schema.description ? { ...converted, description: schema.description } : converted;
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+    const properties = Object.fromEntries(
+      Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])
+    );
+    return required.length > 0
+      ? { type: 'object', properties, required }
+      : { type: 'object', properties };
+  }
+
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: 'string' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') result.minLength = check.value;
+      else if (check.kind === 'max') result.maxLength = check.value;
+      else if (check.kind === 'length') result.minLength = result.maxLength = check.value;
+      else if (check.kind === 'datetime') result.format = 'date-time';
+      else if (check.kind === 'regex') result.pattern = check.regex.source;
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: schema.isInt ? 'integer' : 'number' };
+    for (const check of schema._def.checks) {
+      if (check.kind === 'min') {
+        result.minimum = check.value;
+        if (!check.inclusive) result.exclusiveMinimum = true;
+      } else if (check.kind === 'max') {
+        result.maximum = check.value;
+        if (!check.inclusive) result.exclusiveMaximum = true;
+      }
+    }
+    return result;
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+
+  if (schema instanceof z.ZodDate) {
+    return { type: 'string', format: 'date-time' };
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    const value = schema.value;
+    return { type: typeof value === 'number' ? 'number' : typeof value, enum: [value] };
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: [...schema.options] };
+  }
+
+  if (schema instanceof z.ZodNull) {
+    return { nullable: true, enum: [null] };
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = { type: 'array', items: zodToJsonSchema(schema.element) };
+    const { minLength, maxLength, exactLength } = schema._def;
+    if (exactLength) result.minItems = result.maxItems = exactLength.value;
+    if (minLength) result.minItems = minLength.value;
+    if (maxLength) result.maxItems = maxLength.value;
+    return result;
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema) };
+  }
+
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    const inner = zodToJsonSchema(schema.unwrap());
+    return 'anyOf' in inner ? { anyOf: inner.anyOf, nullable: true } : { ...inner, nullable: true };
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+
+  if (schema instanceof z.ZodUnknown || schema instanceof z.ZodAny) {
+    return {};
+  }
+
+  throw new Error(`Unsupported zod type in API contract: ${schema._def.typeName}`);
+}
+
+// ======================
+// Document
+// ======================
+
+/**
+ * Express path (/api/tx/:hash) to OpenAPI path (/api/tx/{hash})
+ */
+export function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+function objectParameters(schema: z.AnyZodObject | undefined, location: 'path' | 'query'): OpenApiParameter[] {
+  if (!schema) {
+    return [];
+  }
+
+  const shape = schema.shape as Record<string, z.ZodTypeAny>;
+  return Object.entries(shape).map(([name, value]) => {
+    const { description, ...valueSchema } = zodToJsonSchema(value);
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !value.isOptional(),
+      ...(typeof description === 'string' ? { description } : {}),
+      schema: valueSchema,
+    };
+  });
+}
+
+const errorResponse = (description: string, schemaName = 'Error') => ({
+  description,
+  content: { 'application/json': { schema: { $ref: `#/components/schemas/${schemaName}` } } },
+});
+
+function securityOf(route: ApiRoute): Array<Record<string, string[]>> {
+  if (route.auth === 'session') return [{ session: [] }];
+  if (route.auth === 'admin') return [{ adminKey: [] }];
+  return [];
+}
+
+function buildOperation(operationId: string, route: ApiRoute): OpenApiOperation {
+  const parameters = [...objectParameters(route.params, 'path'), ...objectParameters(route.query, 'query')];
+  const hasInput = parameters.length > 0 || route.body !== undefined;
+
+  const operation: OpenApiOperation = {
+    operationId,
+    summary: route.summary,
+    tags: [route.tag],
+    security: securityOf(route),
+    responses: {
+      '200': {
+        description: 'Success',
+        content: { [route.responseContentType ?? 'application/json']: { schema: zodToJsonSchema(route.response) } },
+      },
+    },
+  };
+
+  if (parameters.length > 0) {
+    operation.parameters = parameters;
+  }
+  if (route.body) {
+    operation.requestBody = {
+      required: !route.body.isOptional(),
+      content: { 'application/json': { schema: zodToJsonSchema(route.body) } },
+    };
+  }
+  if (hasInput) {
+    operation.responses['400'] = errorResponse('Invalid request');
+  }
+  if (route.auth === 'session') {
+    operation.responses['401'] = errorResponse('Not authenticated');
+  }
+  if (route.auth === 'admin') {
+    operation.responses['403'] = errorResponse('Missing or wrong admin key');
+  }
+  operation.responses.default = errorResponse('Error');
+
+  return operation;
+}
+
+const SIGNATURE_HEADERS: OpenApiParameter[] = [
+  { name: 'X-Api-Timestamp', in: 'header', required: true, description: 'Unix time in milliseconds', schema: { type: 'string' } },
+  { name: 'X-Api-Nonce', in: 'header', required: true, description: '16-64 characters of [A-Za-z0-9_-], single use per key', schema: { type: 'string' } },
+  { name: 'X-Api-Signature', in: 'header', required: true, description: 'Hex HMAC-SHA256 of the canonical request with the key secret', schema: { type: 'string' } },
+];
+
+function buildV1Operation(v1Route: ApiV1Route): OpenApiOperation {
+  const target: ApiRoute = apiRoutes[v1Route.target];
+  const operation = buildOperation(`v1${v1Route.target[0].toUpperCase()}${v1Route.target.slice(1)}`, target);
+
+  // Envelope: the web response without its success flag becomes data
+  const data = target.response instanceof z.ZodObject ? target.response.omit({ success: true }) : target.response;
+  const envelope = z.object({
+    apiVersion: z.literal('v1'),
+    success: z.literal(true),
+    data,
+    error: z.null(),
+  });
+
+  operation.tags = [V1_TAG];
+  operation.summary = `${target.summary} (requires '${v1Route.scope}' scope)`;
+  operation.security = [{ apiKey: [] }];
+  operation.parameters = [...(operation.parameters ?? []), ...SIGNATURE_HEADERS];
+  operation.responses = {
+    '200': { description: 'Success', content: { 'application/json': { schema: zodToJsonSchema(envelope) } } },
+    '400': errorResponse('Invalid request', 'V1Error'),
+    '401': errorResponse('Missing, invalid or replayed credentials', 'V1Error'),
+    '403': errorResponse('API key is missing the required scope', 'V1Error'),
+    '429': errorResponse('Rate limit of the API key exceeded', 'V1Error'),
+    default: errorResponse('Error', 'V1Error'),
+  };
+
+  return operation;
+}
+
+const v1ErrorSchema = z.object({
+  apiVersion: z.literal('v1'),
+  success: z.literal(false),
+  data: z.null(),
+  error: z.object({
+    code: z.enum(['invalid_request', 'unauthorized', 'forbidden', 'not_found', 'conflict', 'rate_limited', 'internal_error', 'request_failed']),
+    message: z.string(),
+  }),
+});
+
+export function buildOpenApiDocument(): OpenApiDocument {
+  const paths: OpenApiDocument['paths'] = {};
+  const tags = new Set<string>();
+
+  const addOperation = (path: string, method: string, operation: OpenApiOperation) => {
+    const openApiPath = toOpenApiPath(path);
+    paths[openApiPath] = { ...paths[openApiPath], [method]: operation };
+    operation.tags.forEach(tag => tags.add(tag));
+  };
+
+  for (const [operationId, route] of Object.entries(apiRoutes) as Array<[string, ApiRoute]>) {
+    addOperation(route.path, route.method, buildOperation(operationId, route));
+  }
+  for (const v1Route of apiV1Routes) {
+    addOperation(v1Route.path, v1Route.method, buildV1Operation(v1Route));
+  }
+
+  return {
+    openapi: OPENAPI_VERSION,
+    info: {
+      title: 'Anovex API',
+      version: API_DOCUMENT_VERSION,
+      description: 'Web routes (session cookie), admin routes (X-Admin-Key) and the signed developer API (/api/v1). '
+        + 'Generated from server/api-contract.ts.',
+    },
+    servers: [{ url: '/' }],
+    tags: Array.from(tags).map(name => ({ name })),
+    components: {
+      securitySchemes: {
+        session: { type: 'apiKey', in: 'cookie', name: 'connect.sid' },
+        adminKey: { type: 'apiKey', in: 'header', name: 'X-Admin-Key' },
+        apiKey: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-Api-Key',
+          description: 'Requests must also be signed (X-Api-Timestamp, X-Api-Nonce, X-Api-Signature)',
+        },
+      },
+      schemas: {
+        Error: zodToJsonSchema(apiErrorSchema),
+        V1Error: zodToJsonSchema(v1ErrorSchema),
+      },
+    },
+    paths,
+  };
+}
@@ -1,17 +1,46 @@
 import { db } from "./db";
-import { deposits, withdrawals, balances, transactions, monitorSessions, tokenHoldings } from "@shared/schema";
-import { eq, and, sql, or, desc, isNull } from "drizzle-orm";
-import { getExchangeStatus, createDepositStep2Exchange } from "./bridge-protocol";
+import { deposits, withdrawals, balances, transactions, monitorSessions, tokenHoldings, type Deposit, type Withdrawal } from "@shared/schema";
+import { eq, inArray } from "drizzle-orm";
+import { getBridgeRoute } from "./bridges";
+import {
+  runTransferStep,
+  depositStep,
+  withdrawalStep,
+  PENDING_TRANSFER_STATUSES,
+  type TransferStatus,
+  type TransferFlowDeps
+} from "./transfer-state-machine";
+import { createDepositStore, createWithdrawalStore, withdrawalSendLock } from "./transfer-store";
 import { storage } from "./storage";
-import { getPrivacyRelayNodeBalance, sendTronFromPrivacyRelayNode } from "./chain-connector";
 import { sendSolFromLiquidityRouterNode } from "./jupiter";
 import { processSwapJobs } from "./swap-job-processor";
+import { processLimitOrders } from "./limit-orders";
+import { processTpSlRules } from "./tp-sl";
+import { processCopyTrades } from "./copy-trading";
+import { processAlerts } from "./alerts";
+import { processDcaSchedules } from "./dca";
+import { takePortfolioSnapshots } from "./portfolio-snapshots";
+import { samplePriceHistory, compactPriceHistory } from "./price-history";
+import { refreshStaleTokenMetadata } from "./token-resolver";
+import { reconcileSolLedger } from "./sol-ledger";
+import { runSolvencyReconciliation } from "./solvency-job";
+import { pruneApiRequestNonces } from "./api-keys";
+import { queueWebhookEvent, processWebhookDeliveries } from "./webhooks";
+import { publishWalletEvent, refreshStreamBalance, publishStreamTicks } from "./wallet-stream";
 import { bot } from "./telegram-bot";
 import { InlineKeyboard } from "grammy";
 import { getSolanaPrice } from "./coingecko";
 
 const POLLING_INTERVAL = 15000; // 15 seconds (optimized from 5s)
 const MONITOR_REFRESH_INTERVAL = 30000; // 30 seconds (optimized from 20s)
+const STREAM_TICK_INTERVAL = 5000; // 5 seconds (dashboard streams - only wallets with an open stream)
+const LEDGER_RECONCILIATION_INTERVAL = 10 * 60 * 1000; // 10 minutes (full balances vs ledger scan)
+const SOLVENCY_RECONCILIATION_INTERVAL = 10 * 60 * 1000; // 10 minutes (books vs on-chain system wallets)
+const PORTFOLIO_SNAPSHOT_INTERVAL = 15 * 60 * 1000; // 15 minutes (portfolio history resolution)
+const PRICE_SAMPLE_INTERVAL = 60 * 1000; // 1 minute (finest candle interval)
+const PRICE_COMPACTION_INTERVAL = 60 * 60 * 1000; // 1 hour (candle retention)
+const TOKEN_METADATA_REFRESH_INTERVAL = 60 * 60 * 1000; // 1 hour (UNKNOWN symbols are retried hourly)
+const API_NONCE_PRUNE_INTERVAL = 10 * 60 * 1000; // 10 minutes (nonces only matter inside the signature window)
 
 /**
  * Edit Telegram message with updated deposit/withdrawal status
@@ -78,10 +107,17 @@ async function getDepositStatusMessage(deposit: any): Promise<string> {
       step = 6;
       break;
     case 'failed':
+    case 'refunded':
+    case 'expired':
       statusEmoji = "❌";
       statusText = "Transaction Failed";
       step = 0;
       break;
+    case 'dead_letter':
+      statusEmoji = "🛠";
+      statusText = "Under Manual Review";
+      step = 0;
+      break;
     default:
       statusEmoji = "⏳";
       statusText = "Routing Transaction";
@@ -157,10 +193,17 @@ async function getWithdrawalStatusMessage(withdrawal: any): Promise<string> {
       step = 2;
       break;
     case 'failed':
+    case 'refunded':
+    case 'expired':
       statusEmoji = "❌";
       statusText = "PROCESS FAILED";
       step = 0;
       break;
+    case 'dead_letter':
+      statusEmoji = "🛠";
+      statusText = "UNDER MANUAL REVIEW";
+      step = 0;
+      break;
     default:
       statusEmoji = "⏳";
       statusText = "PRIVACY RELAY INITIALIZATION";
@@ -219,9 +262,21 @@ function getWithdrawalStepDescription(step: number): string {
 /**
  * Background polling job for deposit/withdrawal/swap automation
  * Runs every 15 seconds to check pending operations (optimized from 5s)
- * Auto-triggers Step 2 when Step 1 finishes
- * Auto-credits balance when Step 2 finishes
+ * Advances deposits/withdrawals through the transfer state machine (Step 1 → Step 2 → credit/deliver)
  * Executes pending swap jobs in background
+ * Converts crossed limit orders into swap jobs
+ * Fires take-profit/stop-loss rules on holdings
+ * Places due DCA (recurring) buys
+ * Mirrors followed wallets' completed trades for copy-trading followers
+ * Evaluates price, position PnL and portfolio value alerts
+ * Snapshots portfolio values for history charts
+ * Samples held/traded token prices into OHLC candles and drops expired candles
+ * Refreshes metadata of held tokens that are missing or stale
+ * Prunes expired developer API request nonces
+ * Retries failed webhook deliveries once their backoff has passed
+ * Pushes balance changes and price ticks to open dashboard streams
+ * Reconciles SOL balances against the double-entry ledger
+ * Reconciles internal books against on-chain system wallet holdings
  */
 export function startDepositPolling() {
   console.log('🔄 Starting background polling job (15-second intervals)...');
@@ -230,7 +285,21 @@ export function startDepositPolling() {
   processDeposits();
   processWithdrawals();
   processSwapJobs();
+  processLimitOrders();
+  processTpSlRules();
+  processDcaSchedules();
+  processCopyTrades();
+  processAlerts();
+  takePortfolioSnapshots();
+  samplePriceHistory();
+  compactPriceHistory();
+  refreshStaleTokenMetadata();
+  pruneApiRequestNonces();
+  processWebhookDeliveries();
+  publishStreamTicks();
   refreshMonitorSessions();
+  reconcileSolLedger();
+  runSolvencyReconciliation();
   
   // Then run every 15 seconds
   setInterval(() => {
@@ -245,31 +314,167 @@ export function startDepositPolling() {
     processSwapJobs(); // Process swap jobs in background
   }, POLLING_INTERVAL);
   
+  setInterval(() => {
+    processLimitOrders(); // Check limit orders against live prices
+  }, POLLING_INTERVAL);
+  
+  setInterval(() => {
+    processTpSlRules(); // Check TP/SL rules against live prices
+  }, POLLING_INTERVAL);
+  
+  setInterval(() => {
+    processDcaSchedules(); // Place due recurring buys
+  }, POLLING_INTERVAL);
+  
+  setInterval(() => {
+    processCopyTrades(); // Mirror completed trades of followed wallets
+  }, POLLING_INTERVAL);
+  
+  setInterval(() => {
+    processAlerts(); // Check alerts against live prices
+  }, POLLING_INTERVAL);
+  
+  setInterval(() => {
+    processWebhookDeliveries(); // Retry due webhook deliveries
+  }, POLLING_INTERVAL);
+  
+  // Push balance changes and price ticks to dashboard streams every 5 seconds
+  setInterval(() => {
+    publishStreamTicks();
+  }, STREAM_TICK_INTERVAL);
+  
   // Refresh monitor sessions every 20 seconds
   setInterval(() => {
     refreshMonitorSessions();
   }, MONITOR_REFRESH_INTERVAL);
   
-  console.log('✅ Polling job started - deposits/withdrawals/swaps/monitors will auto-process');
+  // Snapshot portfolio values every 15 minutes
+  setInterval(() => {
+    takePortfolioSnapshots();
+  }, PORTFOLIO_SNAPSHOT_INTERVAL);
+  
+  // Sample token prices into candles every minute
+  setInterval(() => {
+    samplePriceHistory();
+  }, PRICE_SAMPLE_INTERVAL);
+  
+  // Drop expired candles every hour
+  setInterval(() => {
+    compactPriceHistory();
+  }, PRICE_COMPACTION_INTERVAL);
+  
+  // Refresh missing or stale token metadata every hour
+  setInterval(() => {
+    refreshStaleTokenMetadata();
+  }, TOKEN_METADATA_REFRESH_INTERVAL);
+  
+  // Drop API request nonces past the signature window every 10 minutes
+  setInterval(() => {
+    pruneApiRequestNonces();
+  }, API_NONCE_PRUNE_INTERVAL);
+  
+  // Reconcile stored SOL balances against the ledger every 10 minutes
+  setInterval(() => {
+    reconcileSolLedger();
+  }, LEDGER_RECONCILIATION_INTERVAL);
+  
+  // Compare books with on-chain system wallet holdings every 10 minutes
+  setInterval(() => {
+    runSolvencyReconciliation();
+  }, SOLVENCY_RECONCILIATION_INTERVAL);
+  
+  console.log('✅ Polling job started - deposits/withdrawals/swaps/limit orders/TP-SL/DCA/copy trades/alerts/webhooks/dashboard streams/portfolio snapshots/price candles/token metadata/API nonces/monitors/ledger and solvency reconciliation will auto-process');
 }
 
 /**
- * Process pending deposits:
- * - waiting_step1 → Check if Step 1 finished → Auto-trigger Step 2
- * - waiting_step2 → Check if Step 2 finished → Credit balance
+ * Webhooks, dashboard streams and the Telegram message after a deposit/withdrawal status change
+ * Pending statuses keep a refresh button, terminal ones don't
+ */
+async function notifyDepositTransition(deposit: Deposit, to: TransferStatus, updates: Record<string, unknown>) {
+  publishWalletEvent(deposit.walletId, {
+    type: 'deposit',
+    data: { depositId: deposit.id, previousStatus: deposit.status, status: to },
+  });
+  await refreshStreamBalance(deposit.walletId);
+  
+  await queueWebhookEvent(deposit.walletId, 'deposit.status_changed', {
+    depositId: deposit.id,
+    previousStatus: deposit.status,
+    status: to,
+    solAmount: deposit.solAmount,
+    solReceived: (updates.solReceived as string | undefined) ?? deposit.solReceived,
+  });
+  
+  if (!deposit.telegramChatId || !deposit.telegramMessageId) return;
+  
+  const statusMessage = await getDepositStatusMessage({ ...deposit, ...updates, status: to });
+  await updateTelegramMessage(
+    deposit.telegramChatId,
+    deposit.telegramMessageId,
+    statusMessage,
+    PENDING_TRANSFER_STATUSES.includes(to) ? `refresh_deposit_${deposit.id}` : undefined
+  );
+}
+
+async function notifyWithdrawalTransition(withdrawal: Withdrawal, to: TransferStatus, updates: Record<string, unknown>) {
+  publishWalletEvent(withdrawal.walletId, {
+    type: 'withdrawal',
+    data: { withdrawalId: withdrawal.id, previousStatus: withdrawal.status, status: to },
+  });
+  await refreshStreamBalance(withdrawal.walletId);
+  
+  await queueWebhookEvent(withdrawal.walletId, 'withdrawal.status_changed', {
+    withdrawalId: withdrawal.id,
+    previousStatus: withdrawal.status,
+    status: to,
+    destinationAddress: withdrawal.destinationAddress,
+    solDeducted: withdrawal.solDeducted,
+    solSent: (updates.solSent as string | undefined) ?? withdrawal.solSent,
+  });
+  
+  if (!withdrawal.telegramChatId || !withdrawal.telegramMessageId) return;
+  
+  const statusMessage = await getWithdrawalStatusMessage({ ...withdrawal, ...updates, status: to });
+  await updateTelegramMessage(
+    withdrawal.telegramChatId,
+    withdrawal.telegramMessageId,
+    statusMessage,
+    PENDING_TRANSFER_STATUSES.includes(to) ? `refresh_withdraw_${withdrawal.id}` : undefined
+  );
+}
+
+const depositStore = createDepositStore(notifyDepositTransition);
+const withdrawalStore = createWithdrawalStore(notifyWithdrawalTransition);
+
+/**
+ * Flow dependencies for a transfer's recorded bridge route
+ */
+async function getTransferFlowDeps(record: { bridgeProvider: string; bridgeRoute: string }): Promise<TransferFlowDeps> {
+  const solanaWallet = await storage.getSystemWallet("liquidity_router_node");
+  if (!solanaWallet) {
+    throw new Error('System wallet not initialized');
+  }
+  
+  return {
+    route: getBridgeRoute(record),
+    poolAddress: solanaWallet.address,
+    sendSol: sendSolFromLiquidityRouterNode,
+    sendLock: withdrawalSendLock,
+  };
+}
+
+/**
+ * Advance pending deposits one step through the transfer state machine:
+ * - waiting_step1 → Step 1 finished → fund Step 2 → waiting_step2
+ * - waiting_step2 → Step 2 finished → credit balance → finished
+ * Bridge failures end in failed/refunded/expired, repeated errors back off and end in dead_letter
  */
 async function processDeposits() {
   try {
-    // Find deposits stuck in waiting_step1 or waiting_step2
     const pendingDeposits = await db
       .select()
       .from(deposits)
-      .where(
-        or(
-          eq(deposits.status, 'waiting_step1'),
-          eq(deposits.status, 'waiting_step2')
-        )
-      );
+      .where(inArray(deposits.status, PENDING_TRANSFER_STATUSES as TransferStatus[]));
     
     if (pendingDeposits.length === 0) {
       return; // No pending deposits
@@ -277,24 +482,14 @@ async function processDeposits() {
     
     console.log(`[POLLING] Found ${pendingDeposits.length} pending deposits to process`);
     
-    // Track processed deposits to prevent double-processing in same cycle
-    const processedIds = new Set<string>();
-    
     for (const deposit of pendingDeposits) {
-      // Skip if already processed in this cycle
-      if (processedIds.has(deposit.id)) {
-        continue;
-      }
-      
       try {
-        if (deposit.status === 'waiting_step1') {
-          await processStep1(deposit);
-        } else if (deposit.status === 'waiting_step2') {
-          await processStep2(deposit);
-        }
+        const deps = await getTransferFlowDeps(deposit);
+        const result = await runTransferStep(deposit, record => depositStep(record, deps, depositStore), depositStore);
         
-        // Mark as processed to prevent duplicate processing
-        processedIds.add(deposit.id);
+        if (result.kind === 'retry_scheduled') {
+          console.error(`[POLLING] Deposit ${deposit.id} attempt ${result.attempts} failed: ${result.error} (retry at ${result.nextAttemptAt.toISOString()})`);
+        }
       } catch (error: any) {
         console.error(`[POLLING] Error processing deposit ${deposit.id}:`, error.message);
         // Continue processing other deposits even if one fails
@@ -306,323 +501,17 @@ async function processDeposits() {
 }
 
 /**
- * Check Step 1 status and auto-trigger Step 2 if finished
- * AUTOMATED RECOVERY: For stuck deposits without exchange ID, auto-detect TRX balance
- */
-async function processStep1(deposit: any) {
-  if (!deposit.step1ExchangeId) {
-    // AUTOMATED RECOVERY: Deposit stuck without exchange ID
-    // Check if TRX already arrived at Privacy Relay Node
-    try {
-      const trxBalance = await getPrivacyRelayNodeBalance();
-      
-      // If TRX balance >= 10 TRX, auto-trigger Step 2 (assumes user sent SOL)
-      if (trxBalance >= 10) {
-        console.log(`[AUTO-RECOVERY] Deposit ${deposit.id} stuck! TRX balance: ${trxBalance.toFixed(2)} TRX detected.`);
-        console.log(`[AUTO-RECOVERY] Auto-triggering Step 2 with ${trxBalance.toFixed(2)} TRX...`);
-        
-        // Get Liquidity Router Node
-        const solanaWallet = await storage.getSystemWallet("liquidity_router_node");
-        if (!solanaWallet) {
-          console.error('[AUTO-RECOVERY] System wallet not initialized');
-          return;
-        }
-        
-        // Create Step 2: TRX → SOL
-        const step2Exchange = await createDepositStep2Exchange(
-          trxBalance.toString(),
-          solanaWallet.address
-        );
-        
-        console.log(`[AUTO-RECOVERY] Step 2 exchange response:`, JSON.stringify(step2Exchange));
-        
-        if (!step2Exchange || !step2Exchange.publicId) {
-          console.error(`[AUTO-RECOVERY] Failed to create Step 2 - invalid response:`, step2Exchange);
-          return;
-        }
-        
-        // Send TRX from Privacy Relay Node to Step 2 exchange address
-        console.log(`[AUTO-RECOVERY] Sending ${trxBalance.toFixed(4)} TRX to Step 2 exchange address: ${step2Exchange.addressFrom}`);
-        
-        try {
-          const txId = await sendTronFromPrivacyRelayNode(
-            step2Exchange.addressFrom,
-            trxBalance
-          );
-          
-          console.log(`[AUTO-RECOVERY] ✅ TRX sent successfully! TX: ${txId}`);
-          
-          // Update deposit: Skip Step 1, go to Step 2 (ONLY if TRX send succeeded)
-          await db.update(deposits)
-            .set({
-              trxAmount: trxBalance.toString(),
-              step2ExchangeId: step2Exchange.publicId,
-              status: 'waiting_step2',
-              step1CompletedAt: new Date(),
-            })
-            .where(eq(deposits.id, deposit.id));
-          
-          console.log(`[AUTO-RECOVERY] ✅ Deposit ${deposit.id} recovered! Step 2: ${step2Exchange.publicId}`);
-        } catch (error: any) {
-          console.error(`[AUTO-RECOVERY] Failed to send TRX:`, error.message);
-          console.error(`[AUTO-RECOVERY] Deposit ${deposit.id} remains in waiting_step1 - will retry next cycle`);
-          // Don't update status - keep deposit in waiting_step1 for retry
-          return;
-        }
-      } else {
-        console.log(`[POLLING] Deposit ${deposit.id} has no Step 1 exchange ID & insufficient TRX (${trxBalance.toFixed(2)} TRX), waiting...`);
-      }
-    } catch (error: any) {
-      console.error(`[AUTO-RECOVERY] Failed to check TRX balance:`, error.message);
-    }
-    return;
-  }
-  
-  try {
-    // Check Step 1 status via SimpleSwap API
-    const step1Exchange = await getExchangeStatus(deposit.step1ExchangeId);
-    
-    if (step1Exchange.status === 'finished') {
-      console.log(`[POLLING] ✅ Step 1 finished for deposit ${deposit.id}, auto-triggering Step 2...`);
-      
-      const trxReceived = step1Exchange.amountTo || "0";
-      if (parseFloat(trxReceived) <= 0) {
-        console.error(`[POLLING] Invalid TRX amount for deposit ${deposit.id}: ${trxReceived}`);
-        return;
-      }
-      
-      // Get Liquidity Router Node (Solana pool wallet)
-      const solanaWallet = await storage.getSystemWallet("liquidity_router_node");
-      if (!solanaWallet) {
-        console.error('[POLLING] System wallet not initialized');
-        return;
-      }
-      
-      // Create Step 2 exchange: TRX → SOL to Liquidity Router Node
-      const step2Exchange = await createDepositStep2Exchange(
-        trxReceived,
-        solanaWallet.address
-      );
-      
-      console.log(`[POLLING] Step 2 exchange created: ${step2Exchange.publicId}`);
-      console.log(`[POLLING] Sending ${trxReceived} TRX to Step 2 address: ${step2Exchange.addressFrom}`);
-      
-      // CRITICAL: Send TRX from Privacy Relay Node to Step 2 exchange address
-      try {
-        const txId = await sendTronFromPrivacyRelayNode(
-          step2Exchange.addressFrom,
-          parseFloat(trxReceived)
-        );
-        
-        console.log(`[POLLING] ✅ TRX sent successfully! TX: ${txId}`);
-        
-        // Update deposit status to waiting_step2 (ONLY after successful TRX send)
-        await db.update(deposits)
-          .set({
-            trxAmount: trxReceived,
-            step2ExchangeId: step2Exchange.publicId,
-            status: 'waiting_step2',
-            // Don't set step1CompletedAt yet - save it for step2 completion
-          })
-          .where(eq(deposits.id, deposit.id));
-        
-        console.log(`[POLLING] ✅ Step 2 initiated for deposit ${deposit.id}: ${step2Exchange.publicId}`);
-        
-        // Edit Telegram message to show Step 1→Step 2 transition
-        if (deposit.telegramChatId && deposit.telegramMessageId) {
-          const updatedDeposit = { ...deposit, status: 'waiting_step2' };
-          const statusMessage = await getDepositStatusMessage(updatedDeposit);
-          await updateTelegramMessage(
-            deposit.telegramChatId,
-            deposit.telegramMessageId,
-            statusMessage,
-            `refresh_deposit_${deposit.id}`
-          );
-          console.log(`[TELEGRAM] ✅ Message updated for deposit ${deposit.id} (Step 1→Step 2)`);
-        }
-      } catch (error: any) {
-        console.error(`[POLLING] Failed to send TRX to Step 2:`, error.message);
-        console.error(`[POLLING] Deposit ${deposit.id} remains in waiting_step1 - will retry next cycle`);
-        // Don't update status - keep deposit in waiting_step1 for retry
-        return;
-      }
-      
-    } else if (step1Exchange.status === 'failed' || step1Exchange.status === 'refunded' || step1Exchange.status === 'expired') {
-      console.log(`[POLLING] ❌ Step 1 ${step1Exchange.status} for deposit ${deposit.id}`);
-      
-      // Update deposit to failed status
-      await db.update(deposits)
-        .set({
-          status: 'failed',
-        })
-        .where(eq(deposits.id, deposit.id));
-      
-      // Update transaction to failed (using depositId foreign key)
-      await db.execute(sql`
-        UPDATE ${transactions}
-        SET status = 'failed'
-        WHERE deposit_id = ${deposit.id}
-          AND status = 'pending'
-      `);
-      
-      // Edit Telegram message to show failed state
-      if (deposit.telegramChatId && deposit.telegramMessageId) {
-        const updatedDeposit = { ...deposit, status: 'failed' };
-        const statusMessage = await getDepositStatusMessage(updatedDeposit);
-        await updateTelegramMessage(
-          deposit.telegramChatId,
-          deposit.telegramMessageId,
-          statusMessage
-          // No refresh button on failed status
-        );
-        console.log(`[TELEGRAM] ✅ Message updated for deposit ${deposit.id} (FAILED)`);
-      }
-    }
-    // Otherwise still waiting (confirming, exchanging, sending, etc)
-    
-  } catch (error: any) {
-    console.error(`[POLLING] Error checking Step 1 for deposit ${deposit.id}:`, error.message);
-  }
-}
-
-/**
- * Check Step 2 status and credit balance if finished
- */
-async function processStep2(deposit: any) {
-  if (!deposit.step2ExchangeId) {
-    console.log(`[POLLING] Deposit ${deposit.id} has no Step 2 exchange ID, skipping`);
-    return;
-  }
-  
-  try {
-    // Check Step 2 status via SimpleSwap API
-    const step2Exchange = await getExchangeStatus(deposit.step2ExchangeId);
-    
-    if (step2Exchange.status === 'finished') {
-      console.log(`[POLLING] ✅ Step 2 finished for deposit ${deposit.id}, crediting balance...`);
-      
-      const solReceived = step2Exchange.amountTo || "0";
-      if (parseFloat(solReceived) <= 0) {
-        console.error(`[POLLING] Invalid SOL amount for deposit ${deposit.id}: ${solReceived}`);
-        return;
-      }
-      
-      // Use transaction to ensure atomicity (prevent double-credit race condition)
-      await db.transaction(async (tx) => {
-        // 1. Update deposit status with optimistic locking (only if still waiting_step2)
-        const [updatedDeposit] = await tx.update(deposits)
-          .set({
-            solReceived,
-            status: 'finished',
-            step1CompletedAt: new Date(), // Mark step 1 as complete when deposit finishes
-            step2CompletedAt: new Date(),
-          })
-          .where(and(
-            eq(deposits.id, deposit.id),
-            eq(deposits.status, 'waiting_step2')
-          ))
-          .returning();
-        
-        // If no rows updated, another polling job already processed this
-        if (!updatedDeposit) {
-          console.log(`[POLLING] ⏭️  Deposit ${deposit.id} already processed by concurrent job`);
-          return; // Exit transaction - idempotent!
-        }
-        
-        // 2. Credit balance (platform absorbs fees - user gets original deposit amount)
-        const creditAmount = deposit.solAmount || solReceived;
-        if (!creditAmount || parseFloat(creditAmount) <= 0) {
-          console.error(`[POLLING] Invalid credit amount for deposit ${deposit.id}: ${creditAmount}`);
-          throw new Error(`Invalid credit amount: ${creditAmount}`);
-        }
-        
-        await tx.execute(sql`
-          UPDATE ${balances}
-          SET 
-            sol_balance = sol_balance + ${creditAmount}::decimal,
-            updated_at = NOW()
-          WHERE wallet_id = ${deposit.walletId}
-        `);
-        
-        // 3. Update transaction status from pending → completed (using depositId foreign key)
-        await tx.execute(sql`
-          UPDATE ${transactions}
-          SET status = 'completed'
-          WHERE deposit_id = ${deposit.id}
-            AND status = 'pending'
-        `);
-        
-        console.log(`[POLLING] ✅ Deposit complete: ${creditAmount} SOL credited to wallet ${deposit.walletId} (received ${solReceived} SOL from bridge, platform absorbed fees)`);
-      });
-      
-      // Edit Telegram message to show completion
-      if (deposit.telegramChatId && deposit.telegramMessageId) {
-        const updatedDeposit = { ...deposit, status: 'finished', solReceived };
-        const statusMessage = await getDepositStatusMessage(updatedDeposit);
-        await updateTelegramMessage(
-          deposit.telegramChatId,
-          deposit.telegramMessageId,
-          statusMessage
-          // No refresh button on finished status
-        );
-        console.log(`[TELEGRAM] ✅ Message updated for deposit ${deposit.id} (FINISHED)`);
-      }
-      
-    } else if (step2Exchange.status === 'failed' || step2Exchange.status === 'refunded' || step2Exchange.status === 'expired') {
-      console.log(`[POLLING] ❌ Step 2 ${step2Exchange.status} for deposit ${deposit.id}`);
-      
-      // Update deposit to failed status
-      await db.update(deposits)
-        .set({
-          status: 'failed',
-        })
-        .where(eq(deposits.id, deposit.id));
-      
-      // Update transaction to failed (using depositId foreign key)
-      await db.execute(sql`
-        UPDATE ${transactions}
-        SET status = 'failed'
-        WHERE deposit_id = ${deposit.id}
-          AND status = 'pending'
-      `);
-      
-      // Edit Telegram message to show failed state
-      if (deposit.telegramChatId && deposit.telegramMessageId) {
-        const updatedDeposit = { ...deposit, status: 'failed' };
-        const statusMessage = await getDepositStatusMessage(updatedDeposit);
-        await updateTelegramMessage(
-          deposit.telegramChatId,
-          deposit.telegramMessageId,
-          statusMessage
-          // No refresh button on failed status
-        );
-        console.log(`[TELEGRAM] ✅ Message updated for deposit ${deposit.id} (FAILED - Step 2)`);
-      }
-    }
-    // Otherwise still waiting
-    
-  } catch (error: any) {
-    console.error(`[POLLING] Error checking Step 2 for deposit ${deposit.id}:`, error.message);
-  }
-}
-
-/**
- * Process pending withdrawals:
- * - waiting_step1 → Check if Step 1 finished → Auto-trigger Step 2
- * - waiting_step2 → Check if Step 2 finished → Mark complete
+ * Advance pending withdrawals one step through the transfer state machine:
+ * - waiting_step1 → (re)send SOL to Step 1 → Step 1 finished → fund Step 2 → waiting_step2
+ * - waiting_step2 → Step 2 finished → finished
+ * Bridge failures refund the user, repeated errors back off and end in dead_letter (no automatic refund)
  */
 async function processWithdrawals() {
   try {
-    // Find withdrawals stuck in waiting_step1 or waiting_step2
     const pendingWithdrawals = await db
       .select()
       .from(withdrawals)
-      .where(
-        or(
-          eq(withdrawals.status, 'waiting_step1'),
-          eq(withdrawals.status, 'waiting_step2')
-        )
-      );
+      .where(inArray(withdrawals.status, PENDING_TRANSFER_STATUSES as TransferStatus[]));
     
     if (pendingWithdrawals.length === 0) {
       return; // No pending withdrawals
@@ -632,10 +521,11 @@ async function processWithdrawals() {
     
     for (const withdrawal of pendingWithdrawals) {
       try {
-        if (withdrawal.status === 'waiting_step1') {
-          await processWithdrawalStep1(withdrawal);
-        } else if (withdrawal.status === 'waiting_step2') {
-          await processWithdrawalStep2(withdrawal);
+        const deps = await getTransferFlowDeps(withdrawal);
+        const result = await runTransferStep(withdrawal, record => withdrawalStep(record, deps, withdrawalStore), withdrawalStore);
+        
+        if (result.kind === 'retry_scheduled') {
+          console.error(`[POLLING] Withdrawal ${withdrawal.id} attempt ${result.attempts} failed: ${result.error} (retry at ${result.nextAttemptAt.toISOString()})`);
         }
       } catch (error: any) {
         console.error(`[POLLING] Error processing withdrawal ${withdrawal.id}:`, error.message);
@@ -646,387 +536,6 @@ async function processWithdrawals() {
   }
 }
 
-/**
- * Check withdrawal Step 1 status and auto-trigger Step 2 if finished
- */
-async function processWithdrawalStep1(withdrawal: any) {
-  if (!withdrawal.step1ExchangeId) {
-    console.log(`[POLLING] Withdrawal ${withdrawal.id} has no Step 1 exchange ID, skipping`);
-    return;
-  }
-  
-  try {
-    const step1Exchange = await getExchangeStatus(withdrawal.step1ExchangeId);
-    console.log(`[POLLING] Withdrawal ${withdrawal.id} Step 1 status: ${step1Exchange.status}`);
-    
-    // AUTO-RETRY: If exchange waiting for SOL payment, retry sending SOL
-    // Idempotency: Only send if step1TxId is null/empty (SOL never sent) AND exchange.txFrom is null (SimpleSwap hasn't received)
-    const exchange: any = step1Exchange;
-    
-    // CRITICAL: Detect and release stuck PROCESSING locks (e.g., from process crashes)
-    // If lock held for > 2 minutes, assume process crashed and reset for retry
-    if (withdrawal.step1TxId === 'PROCESSING') {
-      const lockAge = Date.now() - new Date(withdrawal.updatedAt).getTime();
-      if (lockAge > 120000) { // 2 minutes timeout
-        console.log(`[POLLING] ⚠️  Releasing stuck PROCESSING lock for withdrawal ${withdrawal.id} (held for ${Math.round(lockAge/1000)}s)`);
-        
-        // Compare-and-swap: Only reset if still PROCESSING (avoid racing with live sender)
-        const resetResult = await db.update(withdrawals)
-          .set({ step1TxId: null, updatedAt: new Date() })
-          .where(and(
-            eq(withdrawals.id, withdrawal.id),
-            eq(withdrawals.step1TxId, 'PROCESSING')
-          ))
-          .returning();
-        
-        if (resetResult.length === 0) {
-          console.log(`[POLLING] Lock was already released by another process - skipping`);
-          return;
-        }
-        
-        console.log(`[POLLING] Stuck lock released successfully - will retry send below`);
-        // Fall through to retry send below
-      } else {
-        console.log(`[POLLING] Withdrawal ${withdrawal.id} is being processed by another request (lock age: ${Math.round(lockAge/1000)}s) - skipping`);
-        return; // Still actively processing, skip this cycle
-      }
-    }
-    
-    const isNotProcessing = !withdrawal.step1TxId || withdrawal.step1TxId === '';
-    if (step1Exchange.status === 'waiting' && isNotProcessing && !exchange.txFrom) {
-      console.log(`[POLLING] ⚠️  Withdrawal ${withdrawal.id} Step 1 waiting for SOL payment - auto-retrying send...`);
-      
-      try {
-        // CRITICAL ATOMIC LOCK: Acquire lock BEFORE sending to prevent duplicate sends
-        // This prevents race conditions where multiple polling cycles try to send simultaneously
-        // MUST update updatedAt atomically for stuck lock detection
-        const lockResult = await db.update(withdrawals)
-          .set({ step1TxId: 'PROCESSING', updatedAt: new Date() })
-          .where(and(
-            eq(withdrawals.id, withdrawal.id),
-            or(
-              isNull(withdrawals.step1TxId),
-              eq(withdrawals.step1TxId, '')
-            )
-          ))
-          .returning();
-        
-        if (lockResult.length === 0) {
-          console.log(`[POLLING] Another process is already sending SOL for withdrawal ${withdrawal.id} - skipping`);
-          return; // Already being processed
-        }
-        
-        console.log(`[POLLING] 🔒 Atomic lock acquired - sending SOL now`);
-        
-        const solAmount = parseFloat(withdrawal.solDeducted || "0");
-        if (solAmount <= 0) {
-          console.error(`[POLLING] Invalid SOL amount for withdrawal ${withdrawal.id}: ${solAmount}`);
-          
-          // Release lock on validation failure
-          // MUST update updatedAt to prevent timeout mis-classification
-          await db.update(withdrawals)
-            .set({ step1TxId: null, updatedAt: new Date() })
-            .where(eq(withdrawals.id, withdrawal.id));
-          return;
-        }
-        
-        const depositAddress = exchange.address_from || exchange.addressFrom;
-        console.log(`[POLLING] Sending ${solAmount.toFixed(9)} SOL to Step 1 exchange address: ${depositAddress}`);
-        
-        const txId = await sendSolFromLiquidityRouterNode(
-          depositAddress,
-          solAmount
-        );
-        
-        console.log(`[POLLING] ✅ SOL sent successfully! TX: ${txId}`);
-        
-        // Update withdrawal with real TX ID
-        await db.update(withdrawals)
-          .set({ step1TxId: txId })
-          .where(eq(withdrawals.id, withdrawal.id));
-        
-        console.log(`[POLLING] Withdrawal ${withdrawal.id} Step 1 will advance once SimpleSwap confirms receipt`);
-      } catch (error: any) {
-        console.error(`[POLLING] Failed to send SOL for withdrawal ${withdrawal.id}:`, error.message);
-        
-        // CRITICAL: Release lock on failure so next polling cycle can retry
-        // MUST update updatedAt to prevent timeout mis-classification
-        await db.update(withdrawals)
-          .set({ step1TxId: null, updatedAt: new Date() })
-          .where(eq(withdrawals.id, withdrawal.id));
-        
-        console.error(`[POLLING] Will retry next polling cycle (15 seconds)`);
-      }
-      
-      return; // Exit early - wait for next cycle to check if SOL was received
-    }
-    
-    if (step1Exchange.status === 'finished' && !withdrawal.step2ExchangeId) {
-      console.log(`[POLLING] ✅ Withdrawal Step 1 finished for ${withdrawal.id}, auto-triggering Step 2...`);
-      
-      const trxReceived = step1Exchange.amountTo || "0";
-      if (parseFloat(trxReceived) <= 0) {
-        console.error(`[POLLING] Invalid TRX amount for withdrawal ${withdrawal.id}: ${trxReceived}`);
-        return;
-      }
-      
-      // Import withdrawal Step 2 exchange creation from bridge-protocol.ts
-      const { createWithdrawStep2Exchange } = await import('./bridge-protocol.js');
-      const step2Exchange = await createWithdrawStep2Exchange(
-        trxReceived,
-        withdrawal.destinationAddress
-      );
-      
-      console.log(`[POLLING] Step 2 exchange created: ${step2Exchange.publicId}`);
-      console.log(`[POLLING] Sending ${trxReceived} TRX to Step 2 address: ${step2Exchange.addressFrom}`);
-      
-      // CRITICAL: Send TRX from Privacy Relay Node to Step 2 exchange address
-      // (Same logic as deposit flow line 189-214)
-      try {
-        const txId = await sendTronFromPrivacyRelayNode(
-          step2Exchange.addressFrom,
-          parseFloat(trxReceived)
-        );
-        
-        console.log(`[POLLING] ✅ TRX sent successfully! TX: ${txId}`);
-        
-        // Calculate expected SOL to be sent (from Step 2 exchange)
-        const solExpected = step2Exchange.amountTo || "0";
-        
-        // Update withdrawal status to waiting_step2 (ONLY after successful TRX send)
-        await db.update(withdrawals)
-          .set({
-            trxAmount: trxReceived,
-            solSent: solExpected,
-            step2ExchangeId: step2Exchange.publicId,
-            status: 'waiting_step2',
-            step1CompletedAt: new Date(),
-          })
-          .where(eq(withdrawals.id, withdrawal.id));
-        
-        console.log(`[POLLING] ✅ Withdrawal Step 2 initiated: ${step2Exchange.publicId}, expecting ${solExpected} SOL`);
-        
-        // Edit Telegram message to show Step 1→Step 2 transition
-        if (withdrawal.telegramChatId && withdrawal.telegramMessageId) {
-          const updatedWithdrawal = { ...withdrawal, status: 'waiting_step2' };
-          const statusMessage = await getWithdrawalStatusMessage(updatedWithdrawal);
-          await updateTelegramMessage(
-            withdrawal.telegramChatId,
-            withdrawal.telegramMessageId,
-            statusMessage,
-            `refresh_withdraw_${withdrawal.id}`
-          );
-          console.log(`[TELEGRAM] ✅ Message updated for withdrawal ${withdrawal.id} (Step 1→Step 2)`);
-        }
-      } catch (error: any) {
-        console.error(`[POLLING] Failed to send TRX to Step 2:`, error.message);
-        
-        // CRITICAL: Save step2ExchangeId even on TRX send failure to prevent duplicate exchange creation
-        // This ensures idempotency - next polling cycle will skip Step 2 creation and retry TRX send
-        await db.update(withdrawals)
-          .set({ step2ExchangeId: step2Exchange.publicId })
-          .where(eq(withdrawals.id, withdrawal.id));
-        
-        console.error(`[POLLING] Withdrawal ${withdrawal.id} remains in waiting_step1 - will retry TRX send next cycle`);
-        // Don't update status - keep withdrawal in waiting_step1 for retry
-        return;
-      }
-      
-    } else if (step1Exchange.status === 'failed' || step1Exchange.status === 'refunded' || step1Exchange.status === 'expired') {
-      console.log(`[POLLING] ❌ Withdrawal Step 1 ${step1Exchange.status} for ${withdrawal.id}`);
-      
-      // Idempotency guard: Only refund if withdrawal is still in waiting_step1 status
-      const [updated] = await db.update(withdrawals)
-        .set({ status: 'failed' })
-        .where(and(
-          eq(withdrawals.id, withdrawal.id),
-          eq(withdrawals.status, 'waiting_step1')
-        ))
-        .returning();
-      
-      if (!updated) {
-        console.log(`[POLLING] ⏭️  Withdrawal ${withdrawal.id} already failed, skipping refund`);
-        return;
-      }
-      
-      // Refund balance to user (only executes if status was successfully updated)
-      await db.execute(sql`
-        UPDATE ${balances}
-        SET sol_balance = sol_balance + ${withdrawal.solDeducted}::decimal, updated_at = NOW()
-        WHERE wallet_id = ${withdrawal.walletId}
-      `);
-      
-      // Update transaction to failed (using CTE for PostgreSQL with precision handling)
-      await db.execute(sql`
-        WITH target AS (
-          SELECT id FROM ${transactions}
-          WHERE wallet_id = ${withdrawal.walletId}
-            AND type = 'withdraw'
-            AND status = 'pending'
-            AND ROUND(amount::numeric, 6) = ROUND(${withdrawal.solDeducted}::numeric, 6)
-          ORDER BY timestamp DESC
-          LIMIT 1
-        )
-        UPDATE ${transactions}
-        SET status = 'failed'
-        WHERE id IN (SELECT id FROM target)
-      `);
-      
-      // Edit Telegram message to show failed state
-      if (withdrawal.telegramChatId && withdrawal.telegramMessageId) {
-        const updatedWithdrawal = { ...withdrawal, status: 'failed' };
-        const statusMessage = await getWithdrawalStatusMessage(updatedWithdrawal);
-        await updateTelegramMessage(
-          withdrawal.telegramChatId,
-          withdrawal.telegramMessageId,
-          statusMessage
-          // No refresh button on failed status
-        );
-        console.log(`[TELEGRAM] ✅ Message updated for withdrawal ${withdrawal.id} (FAILED - Step 1)`);
-      }
-    }
-    
-  } catch (error: any) {
-    console.error(`[POLLING] Error checking withdrawal Step 1 for ${withdrawal.id}:`, error.message);
-  }
-}
-
-/**
- * Check withdrawal Step 2 status and mark complete if finished
- */
-async function processWithdrawalStep2(withdrawal: any) {
-  if (!withdrawal.step2ExchangeId) {
-    console.log(`[POLLING] Withdrawal ${withdrawal.id} has no Step 2 exchange ID, skipping`);
-    return;
-  }
-  
-  try {
-    const step2Exchange = await getExchangeStatus(withdrawal.step2ExchangeId);
-    console.log(`[POLLING] Withdrawal ${withdrawal.id} Step 2 status: ${step2Exchange.status}`);
-    
-    if (step2Exchange.status === 'finished') {
-      console.log(`[POLLING] ✅ Withdrawal Step 2 finished for ${withdrawal.id}, marking complete...`);
-      
-      // Capture actual SOL sent and transaction hash from exchange response
-      const actualSolSent = step2Exchange.amountTo || withdrawal.solSent || withdrawal.solDeducted;
-      const txHash = step2Exchange.txTo; // Solana transaction hash from SimpleSwap
-      
-      if (txHash) {
-        console.log(`[POLLING] Transaction hash captured: ${txHash}`);
-      } else {
-        console.warn(`[POLLING] WARNING: No transaction hash (txTo) in SimpleSwap response for withdrawal ${withdrawal.id}`);
-      }
-      
-      await db.transaction(async (tx) => {
-        const [updated] = await tx.update(withdrawals)
-          .set({
-            solSent: actualSolSent,
-            step2TxTo: txHash,
-            status: 'finished',
-            step2CompletedAt: new Date(),
-          })
-          .where(and(
-            eq(withdrawals.id, withdrawal.id),
-            eq(withdrawals.status, 'waiting_step2')
-          ))
-          .returning();
-        
-        if (!updated) {
-          console.log(`[POLLING] ⏭️  Withdrawal ${withdrawal.id} already processed`);
-          return;
-        }
-        
-        // Update transaction to completed (using CTE for PostgreSQL with precision handling)
-        await tx.execute(sql`
-          WITH target AS (
-            SELECT id FROM ${transactions}
-            WHERE wallet_id = ${withdrawal.walletId}
-              AND type = 'withdraw'
-              AND status = 'pending'
-              AND ROUND(amount::numeric, 6) = ROUND(${withdrawal.solDeducted}::numeric, 6)
-            ORDER BY timestamp DESC
-            LIMIT 1
-          )
-          UPDATE ${transactions}
-          SET status = 'completed'
-          WHERE id IN (SELECT id FROM target)
-        `);
-        
-        console.log(`[POLLING] ✅ Withdrawal complete: ${actualSolSent} SOL sent to ${withdrawal.destinationAddress}`);
-      });
-      
-      // Edit Telegram message to show completion
-      if (withdrawal.telegramChatId && withdrawal.telegramMessageId) {
-        const updatedWithdrawal = { ...withdrawal, status: 'finished', solSent: actualSolSent };
-        const statusMessage = await getWithdrawalStatusMessage(updatedWithdrawal);
-        await updateTelegramMessage(
-          withdrawal.telegramChatId,
-          withdrawal.telegramMessageId,
-          statusMessage
-          // No refresh button on finished status
-        );
-        console.log(`[TELEGRAM] ✅ Message updated for withdrawal ${withdrawal.id} (FINISHED)`);
-      }
-      
-    } else if (step2Exchange.status === 'failed' || step2Exchange.status === 'refunded' || step2Exchange.status === 'expired') {
-      console.log(`[POLLING] ❌ Withdrawal Step 2 ${step2Exchange.status} for ${withdrawal.id}`);
-      
-      // Idempotency guard: Only refund if withdrawal is still in waiting_step2 status
-      const [updated] = await db.update(withdrawals)
-        .set({ status: 'failed' })
-        .where(and(
-          eq(withdrawals.id, withdrawal.id),
-          eq(withdrawals.status, 'waiting_step2')
-        ))
-        .returning();
-      
-      if (!updated) {
-        console.log(`[POLLING] ⏭️  Withdrawal ${withdrawal.id} already failed, skipping refund`);
-        return;
-      }
-      
-      // Refund balance to user (only executes if status was successfully updated)
-      await db.execute(sql`
-        UPDATE ${balances}
-        SET sol_balance = sol_balance + ${withdrawal.solDeducted}::decimal, updated_at = NOW()
-        WHERE wallet_id = ${withdrawal.walletId}
-      `);
-      
-      // Update transaction to failed (using CTE for PostgreSQL with precision handling)
-      await db.execute(sql`
-        WITH target AS (
-          SELECT id FROM ${transactions}
-          WHERE wallet_id = ${withdrawal.walletId}
-            AND type = 'withdraw'
-            AND status = 'pending'
-            AND ROUND(amount::numeric, 6) = ROUND(${withdrawal.solDeducted}::numeric, 6)
-          ORDER BY timestamp DESC
-          LIMIT 1
-        )
-        UPDATE ${transactions}
-        SET status = 'failed'
-        WHERE id IN (SELECT id FROM target)
-      `);
-      
-      // Edit Telegram message to show failed state
-      if (withdrawal.telegramChatId && withdrawal.telegramMessageId) {
-        const updatedWithdrawal = { ...withdrawal, status: 'failed' };
-        const statusMessage = await getWithdrawalStatusMessage(updatedWithdrawal);
-        await updateTelegramMessage(
-          withdrawal.telegramChatId,
-          withdrawal.telegramMessageId,
-          statusMessage
-          // No refresh button on failed status
-        );
-        console.log(`[TELEGRAM] ✅ Message updated for withdrawal ${withdrawal.id} (FAILED - Step 2)`);
-      }
-    }
-    
-  } catch (error: any) {
-    console.error(`[POLLING] Error checking withdrawal Step 2 for ${withdrawal.id}:`, error.message);
-  }
-}
-
 /**
  * Refresh active monitor sessions with latest prices
  * Runs every 20 seconds to update monitor messages
@@ -0,0 +1,71 @@
+/**
+ * Portfolio value history
+ *
+ * Snapshots are taken every 15 minutes (server/portfolio-snapshots.ts). A history range picks a time window
+ * and a bucket size, and each bucket keeps its last snapshot (the closing value), so a chart never
+ * receives more than a few hundred points however long the window is.
+ *
+ * Pure functions - the snapshot job and the history endpoint supply the data
+ */
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const PORTFOLIO_HISTORY_RANGES = {
+  '24h': { windowMs: DAY, bucketMs: 15 * 60 * 1000 }, // Every snapshot (96 points)
+  '7d': { windowMs: 7 * DAY, bucketMs: HOUR }, // 168 points
+  '30d': { windowMs: 30 * DAY, bucketMs: 4 * HOUR }, // 180 points
+  '90d': { windowMs: 90 * DAY, bucketMs: 12 * HOUR }, // 180 points
+  '1y': { windowMs: 365 * DAY, bucketMs: 2 * DAY }, // 183 points
+} as const;
+
+export type PortfolioHistoryRange = keyof typeof PORTFOLIO_HISTORY_RANGES;
+
+export function isPortfolioHistoryRange(value: unknown): value is PortfolioHistoryRange {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PORTFOLIO_HISTORY_RANGES, value);
+}
+
+/**
+ * Keep the last point of each bucket. Points must be sorted by timestamp (oldest first)
+ */
+export function downsampleSeries<T extends { timestamp: Date }>(points: T[], bucketMs: number): T[] {
+  const result: T[] = [];
+  let currentBucket: number | null = null;
+
+  for (const point of points) {
+    const bucket = Math.floor(point.timestamp.getTime() / bucketMs);
+    if (bucket === currentBucket) {
+      result[result.length - 1] = point;
+    } else {
+      result.push(point);
+      currentBucket = bucket;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Fit values into a box for drawing (y grows downwards, as on a canvas)
+ * A flat series is drawn through the middle of the box
+ */
+export function scaleSparkline(
+  values: number[],
+  box: { x: number; y: number; width: number; height: number }
+): Array<{ x: number; y: number }> {
+  if (values.length === 0) {
+    return [];
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min;
+  const step = values.length > 1 ? box.width / (values.length - 1) : 0;
+
+  return values.map((value, index) => ({
+    x: box.x + index * step,
+    y: span > 0
+      ? box.y + box.height - ((value - min) / span) * box.height
+      : box.y + box.height / 2,
+  }));
+}
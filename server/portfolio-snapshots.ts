@@ -0,0 +1,129 @@
+import { db } from "./db";
+import { portfolioSnapshots, balances, tokenHoldings } from "@shared/schema";
+import { eq, and, gt, gte, lt, asc } from "drizzle-orm";
+import { getSolanaPrice } from "./coingecko";
+import { getTokenPrices } from "./pricing";
+import { publishWalletEvent } from "./wallet-stream";
+import { downsampleSeries, PORTFOLIO_HISTORY_RANGES, type PortfolioHistoryRange } from "./portfolio-history";
+
+const SNAPSHOT_RETENTION_MS = 400 * 24 * 60 * 60 * 1000; // A little over the longest range (1y)
+const SNAPSHOT_HISTORY_WINDOW_MS = PORTFOLIO_HISTORY_RANGES['1y'].windowMs;
+
+// Keeps each multi-row insert well under Postgres' bind parameter limit
+const INSERT_BATCH_SIZE = 500;
+
+export interface PortfolioHistoryPoint {
+  timestamp: Date;
+  totalValueUsd: number;
+  solBalance: number;
+  tokenValueUsd: number;
+}
+
+/**
+ * Snapshot every funded wallet's portfolio (called from background polling every 15 minutes)
+ * 1. Load SOL balances and token holdings of wallets holding anything, plus wallets with history
+ *    in the longest range (an emptied wallet keeps charting at zero instead of ending at its last value)
+ * 2. Price all held mints in one getTokenPrices batch (falls back to the holding's last known price)
+ * 3. Insert one snapshot per wallet (batched), tell open dashboard streams, and prune snapshots past retention
+ */
+export async function takePortfolioSnapshots(): Promise<void> {
+  try {
+    const [balanceRows, holdingRows, historyRows] = await Promise.all([
+      db.select({ walletId: balances.walletId, solBalance: balances.solBalance })
+        .from(balances)
+        .where(gt(balances.solBalance, '0')),
+      db.select()
+        .from(tokenHoldings)
+        .where(gt(tokenHoldings.amount, '0')),
+      db.selectDistinct({ walletId: portfolioSnapshots.walletId })
+        .from(portfolioSnapshots)
+        .where(gte(portfolioSnapshots.takenAt, new Date(Date.now() - SNAPSHOT_HISTORY_WINDOW_MS)))
+    ]);
+
+    const walletIds = new Set([
+      ...balanceRows.map(row => row.walletId),
+      ...holdingRows.map(row => row.walletId),
+      ...historyRows.map(row => row.walletId),
+    ]);
+    if (walletIds.size === 0) {
+      return;
+    }
+
+    let solPriceUsd: number;
+    try {
+      solPriceUsd = await getSolanaPrice();
+    } catch (error: any) {
+      console.warn("Portfolio snapshots: SOL price unavailable, skipping this cycle:", error.message);
+      return;
+    }
+
+    const priceMap = await getTokenPrices(Array.from(new Set(holdingRows.map(row => row.mint))));
+    const solBalances = new Map(balanceRows.map(row => [row.walletId, parseFloat(row.solBalance)]));
+
+    const snapshots = Array.from(walletIds).map(walletId => {
+      const solBalance = solBalances.get(walletId) ?? 0;
+
+      const holdings = holdingRows
+        .filter(row => row.walletId === walletId)
+        .map(row => {
+          const amount = parseFloat(row.amount);
+          const priceUsd = priceMap.get(row.mint) ?? (row.lastPriceUsd ? parseFloat(row.lastPriceUsd) : 0);
+          return { mint: row.mint, symbol: row.symbol, amount, priceUsd, valueUsd: amount * priceUsd };
+        });
+
+      const tokenValueUsd = holdings.reduce((sum, holding) => sum + holding.valueUsd, 0);
+
+      return {
+        walletId,
+        solBalance: solBalance.toFixed(9),
+        solPriceUsd: solPriceUsd.toFixed(6),
+        tokenValueUsd: tokenValueUsd.toFixed(2),
+        totalValueUsd: (solBalance * solPriceUsd + tokenValueUsd).toFixed(2),
+        holdings: JSON.stringify(holdings),
+      };
+    });
+
+    for (let i = 0; i < snapshots.length; i += INSERT_BATCH_SIZE) {
+      await db.insert(portfolioSnapshots).values(snapshots.slice(i, i + INSERT_BATCH_SIZE));
+    }
+
+    const takenAt = new Date().toISOString();
+    for (const snapshot of snapshots) {
+      publishWalletEvent(snapshot.walletId, { type: 'portfolio', data: { takenAt } });
+    }
+
+    await db.delete(portfolioSnapshots)
+      .where(lt(portfolioSnapshots.takenAt, new Date(Date.now() - SNAPSHOT_RETENTION_MS)));
+
+    console.log(`📸 Portfolio snapshots taken for ${snapshots.length} wallets`);
+  } catch (error: any) {
+    console.error("Portfolio snapshot error:", error);
+  }
+}
+
+/**
+ * Portfolio value over a range, downsampled to one point per bucket (oldest first)
+ */
+export async function getPortfolioHistory(walletId: string, range: PortfolioHistoryRange): Promise<PortfolioHistoryPoint[]> {
+  const { windowMs, bucketMs } = PORTFOLIO_HISTORY_RANGES[range];
+
+  const rows = await db.select({
+    takenAt: portfolioSnapshots.takenAt,
+    totalValueUsd: portfolioSnapshots.totalValueUsd,
+    solBalance: portfolioSnapshots.solBalance,
+    tokenValueUsd: portfolioSnapshots.tokenValueUsd,
+  })
+    .from(portfolioSnapshots)
+    .where(and(
+      eq(portfolioSnapshots.walletId, walletId),
+      gte(portfolioSnapshots.takenAt, new Date(Date.now() - windowMs))
+    ))
+    .orderBy(asc(portfolioSnapshots.takenAt));
+
+  return downsampleSeries(rows.map(row => ({
+    timestamp: row.takenAt,
+    totalValueUsd: parseFloat(row.totalValueUsd),
+    solBalance: parseFloat(row.solBalance),
+    tokenValueUsd: parseFloat(row.tokenValueUsd),
+  })), bucketMs);
+}
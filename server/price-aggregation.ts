@@ -0,0 +1,124 @@
+/**
+ * Multi-source price aggregation
+ *
+ * Every source is queried for a price; the result is the median of the quotes that agree with each
+ * other. A quote further than PRICE_DEVIATION_BAND from the median of all quotes is rejected as an
+ * outlier (a thin pool, a stale API mirror, a decimals mix-up), so one bad source cannot move the price.
+ *
+ *   confidence = accepted quotes / sources queried (failed sources count against it)
+ *   staleness  = age of the oldest accepted quote
+ *
+ * A price is uncertain when no quote survives, confidence is below MIN_PRICE_CONFIDENCE or the
+ * quotes are older than MAX_PRICE_STALENESS_MS - callers show "price uncertain" instead of a number.
+ * Where a number is required, selectUsablePrice falls back to a recent confident price or throws -
+ * a price is never made up.
+ *
+ * Pure functions - server/pricing.ts queries the sources and caches results
+ */
+
+export const PRICE_DEVIATION_BAND = 0.15; // Reject quotes more than 15% away from the median
+export const MIN_PRICE_CONFIDENCE = 0.5;
+export const MAX_PRICE_STALENESS_MS = 5 * 60 * 1000;
+export const MAX_FALLBACK_PRICE_AGE_MS = 30 * 60 * 1000; // Last confident price served through short outages
+
+export interface PriceQuote {
+  source: string;
+  price: number | null; // null when the source failed or does not list the token
+  observedAt: number;
+}
+
+export interface AggregatedPrice {
+  price: number | null;
+  confidence: number;
+  observedAt: number | null; // Oldest accepted quote
+  sources: Array<{ source: string; price: number | null; accepted: boolean }>;
+}
+
+export interface OraclePrice extends AggregatedPrice {
+  stalenessMs: number | null;
+  uncertain: boolean;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function isValidPrice(price: number | null): price is number {
+  return price !== null && Number.isFinite(price) && price > 0;
+}
+
+/**
+ * Combine source quotes into one price with outlier rejection
+ */
+export function aggregatePriceQuotes(quotes: PriceQuote[]): AggregatedPrice {
+  const reference = median(quotes.map(q => q.price).filter(isValidPrice));
+
+  const sources = quotes.map(quote => ({
+    source: quote.source,
+    price: isValidPrice(quote.price) ? quote.price : null,
+    accepted: reference !== null
+      && isValidPrice(quote.price)
+      && Math.abs(quote.price - reference) / reference <= PRICE_DEVIATION_BAND,
+  }));
+
+  const accepted = quotes.filter((_, index) => sources[index].accepted);
+
+  return {
+    price: median(accepted.map(q => q.price as number)),
+    confidence: quotes.length > 0 ? accepted.length / quotes.length : 0,
+    observedAt: accepted.length > 0 ? Math.min(...accepted.map(q => q.observedAt)) : null,
+    sources,
+  };
+}
+
+/**
+ * Staleness and the uncertain flag as of `now` (aggregates are cached, so this is evaluated on read)
+ */
+export function assessAggregatedPrice(aggregated: AggregatedPrice, now: number = Date.now()): OraclePrice {
+  const stalenessMs = aggregated.observedAt !== null ? Math.max(0, now - aggregated.observedAt) : null;
+
+  return {
+    ...aggregated,
+    stalenessMs,
+    uncertain: aggregated.price === null
+      || aggregated.confidence < MIN_PRICE_CONFIDENCE
+      || stalenessMs === null
+      || stalenessMs > MAX_PRICE_STALENESS_MS,
+  };
+}
+
+/**
+ * Thrown when no source gives a price that can be acted on
+ */
+export class PriceUnavailableError extends Error {
+  constructor(label: string) {
+    super(`${label} price unavailable: no confident quote from the price sources`);
+    this.name = 'PriceUnavailableError';
+  }
+}
+
+/**
+ * Price to act on: the oracle price when it is certain, otherwise the last confident price
+ * while it is younger than MAX_FALLBACK_PRICE_AGE_MS
+ * @throws PriceUnavailableError when neither exists
+ */
+export function selectUsablePrice(
+  quote: OraclePrice,
+  lastConfident: { price: number; observedAt: number } | null,
+  label: string,
+  now: number = Date.now()
+): number {
+  if (!quote.uncertain && quote.price !== null) {
+    return quote.price;
+  }
+  if (lastConfident && now - lastConfident.observedAt <= MAX_FALLBACK_PRICE_AGE_MS) {
+    return lastConfident.price;
+  }
+  throw new PriceUnavailableError(label);
+}
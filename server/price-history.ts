@@ -0,0 +1,187 @@
+import { db } from "./db";
+import { priceCandles, tokenHoldings, transactions } from "@shared/schema";
+import { eq, and, gt, gte, lte, lt, desc, inArray, isNotNull, sql } from "drizzle-orm";
+import { getTokenPrices } from "./pricing";
+import {
+  CANDLE_INTERVALS,
+  CANDLE_INTERVAL_NAMES,
+  getCandleOpenTime,
+  getFinestIntervalCovering,
+  mergeCandleSample,
+  type Candle,
+  type CandleInterval
+} from "./ohlc";
+
+const TRADED_MINT_WINDOW_MS = 24 * 60 * 60 * 1000; // Keep sampling tokens traded in the last day, even once sold
+export const MAX_CANDLES_PER_QUERY = 500;
+
+/**
+ * Merge price samples into 1m/5m/1h/1d candles (one upsert for all of them)
+ * Samples for the same candle are merged in memory first - Postgres rejects an upsert touching a row twice
+ */
+export async function recordPriceSamples(samples: Array<{ mint: string; priceUsd: number; at?: Date }>): Promise<void> {
+  const merged = new Map<string, { mint: string; interval: CandleInterval; candle: Candle }>();
+
+  for (const sample of samples) {
+    if (!Number.isFinite(sample.priceUsd) || sample.priceUsd <= 0) {
+      continue;
+    }
+
+    const at = sample.at ?? new Date();
+    for (const interval of CANDLE_INTERVAL_NAMES) {
+      const openTime = getCandleOpenTime(at, interval);
+      const key = `${sample.mint}:${interval}:${openTime.getTime()}`;
+      const existing = merged.get(key);
+      merged.set(key, { mint: sample.mint, interval, candle: mergeCandleSample(existing?.candle ?? null, openTime, sample.priceUsd) });
+    }
+  }
+
+  if (merged.size === 0) {
+    return;
+  }
+
+  await db.insert(priceCandles)
+    .values(Array.from(merged.values()).map(({ mint, interval, candle }) => ({
+      mint,
+      interval,
+      openTime: candle.openTime,
+      open: candle.open.toFixed(15),
+      high: candle.high.toFixed(15),
+      low: candle.low.toFixed(15),
+      close: candle.close.toFixed(15),
+      samples: candle.samples,
+    })))
+    .onConflictDoUpdate({
+      target: [priceCandles.mint, priceCandles.interval, priceCandles.openTime],
+      set: {
+        high: sql`GREATEST(${priceCandles.high}, excluded.high)`,
+        low: sql`LEAST(${priceCandles.low}, excluded.low)`,
+        close: sql`excluded.close`,
+        samples: sql`${priceCandles.samples} + excluded.samples`,
+        updatedAt: new Date()
+      }
+    });
+}
+
+/**
+ * Sample prices of held and recently traded tokens (called from background polling every minute)
+ */
+export async function samplePriceHistory(): Promise<void> {
+  try {
+    const [held, traded] = await Promise.all([
+      db.selectDistinct({ mint: tokenHoldings.mint })
+        .from(tokenHoldings)
+        .where(gt(tokenHoldings.amount, '0')),
+      db.selectDistinct({ mint: transactions.tokenAddress })
+        .from(transactions)
+        .where(and(
+          inArray(transactions.type, ['buy', 'sell']),
+          isNotNull(transactions.tokenAddress),
+          gte(transactions.timestamp, new Date(Date.now() - TRADED_MINT_WINDOW_MS))
+        ))
+    ]);
+
+    const mints = new Set<string>();
+    held.forEach(row => mints.add(row.mint));
+    traded.forEach(row => { if (row.mint) mints.add(row.mint); });
+
+    if (mints.size === 0) {
+      return;
+    }
+
+    const now = new Date();
+    const priceMap = await getTokenPrices(Array.from(mints));
+    const samples = Array.from(priceMap.entries())
+      .filter((entry): entry is [string, number] => entry[1] !== null)
+      .map(([mint, priceUsd]) => ({ mint, priceUsd, at: now }));
+
+    await recordPriceSamples(samples);
+  } catch (error: any) {
+    console.error("Price history sampling error:", error);
+  }
+}
+
+/**
+ * Drop candles past their interval's retention (called from background polling every hour)
+ */
+export async function compactPriceHistory(): Promise<void> {
+  try {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const interval of CANDLE_INTERVAL_NAMES) {
+      const deleted = await db.delete(priceCandles)
+        .where(and(
+          eq(priceCandles.interval, interval),
+          lt(priceCandles.openTime, new Date(now - CANDLE_INTERVALS[interval].retentionMs))
+        ))
+        .returning({ id: priceCandles.id });
+      removed += deleted.length;
+    }
+
+    if (removed > 0) {
+      console.log(`🧹 Price history compaction removed ${removed} expired candles`);
+    }
+  } catch (error: any) {
+    console.error("Price history compaction error:", error);
+  }
+}
+
+/**
+ * Candles for a mint, oldest first (the most recent `limit` candles in [from, to])
+ */
+export async function getPriceCandles(
+  mint: string,
+  interval: CandleInterval,
+  options: { from?: Date; to?: Date; limit?: number } = {}
+): Promise<Candle[]> {
+  const limit = Math.min(Math.max(options.limit ?? 200, 1), MAX_CANDLES_PER_QUERY);
+
+  const rows = await db.select()
+    .from(priceCandles)
+    .where(and(
+      eq(priceCandles.mint, mint),
+      eq(priceCandles.interval, interval),
+      ...(options.from ? [gte(priceCandles.openTime, options.from)] : []),
+      ...(options.to ? [lte(priceCandles.openTime, options.to)] : [])
+    ))
+    .orderBy(desc(priceCandles.openTime))
+    .limit(limit);
+
+  return rows.reverse().map(row => ({
+    openTime: row.openTime,
+    open: parseFloat(row.open),
+    high: parseFloat(row.high),
+    low: parseFloat(row.low),
+    close: parseFloat(row.close),
+    samples: row.samples,
+  }));
+}
+
+/**
+ * Price at a point in time: close of the finest retained candle containing `at`
+ * Falls back to coarser candles when the finer one has no samples (e.g. the token was not tracked yet)
+ */
+export async function getPriceAt(mint: string, at: Date): Promise<{ priceUsd: number; interval: CandleInterval } | null> {
+  const finest = getFinestIntervalCovering(at);
+  if (!finest) {
+    return null;
+  }
+
+  for (const interval of CANDLE_INTERVAL_NAMES.slice(CANDLE_INTERVAL_NAMES.indexOf(finest))) {
+    const [candle] = await db.select({ close: priceCandles.close })
+      .from(priceCandles)
+      .where(and(
+        eq(priceCandles.mint, mint),
+        eq(priceCandles.interval, interval),
+        eq(priceCandles.openTime, getCandleOpenTime(at, interval))
+      ))
+      .limit(1);
+
+    if (candle) {
+      return { priceUsd: parseFloat(candle.close), interval };
+    }
+  }
+
+  return null;
+}
@@ -1,37 +1,44 @@
 import fetch from 'node-fetch';
 
+import {
+  aggregatePriceQuotes,
+  assessAggregatedPrice,
+  type AggregatedPrice,
+  type OraclePrice,
+  type PriceQuote
+} from './price-aggregation';
+import { getCoinGeckoSolQuote } from './coingecko';
+
 /**
- * Pricing Service - Token price discovery with caching
+ * Pricing Service - Multi-source price oracle with caching
  * 
  * Strategy:
- * 1. Jupiter Quote API (primary) - Real-time SOL/Solana DEX liquidity
- * 2. Dexscreener API (fallback) - Aggregated price data
- * 3. 60-second cache per mint to control rate limits
+ * 1. Query every source in parallel: Jupiter Price API, Dexscreener, and CoinGecko for SOL
+ * 2. Median of the quotes, rejecting outliers outside the deviation band (server/price-aggregation.ts)
+ * 3. Each price carries a confidence and staleness; uncertain prices are not used as numbers
+ * 4. 60-second cache per mint to control rate limits
  */
 
 interface PriceCache {
-  price: number;
+  aggregated: AggregatedPrice;
   timestamp: number;
 }
 
 const priceCache = new Map<string, PriceCache>();
 const CACHE_TTL_MS = 60 * 1000; // 60 seconds
 
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
 /**
- * Get token price in USD using Jupiter Quote API
+ * Get token price in USD from the Jupiter Price API (keyless lite endpoint, like the rest of the Jupiter calls)
+ * Returns price per whole token, so no decimals lookup is needed
  * @param mint SPL token mint address
- * @param decimals Token decimals (default: 9 for most SPL tokens)
  * @returns Price in USD or null if not found
  */
-async function getJupiterPrice(mint: string, decimals: number = 9): Promise<number | null> {
+async function getJupiterPrice(mint: string): Promise<number | null> {
   try {
-    // Jupiter Quote: 1 token → USDC
-    // Using 1 token as input amount (scaled by token's actual decimals)
-    const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
-    const ONE_TOKEN = Math.pow(10, decimals); // 1 token scaled to its decimals (e.g., 1B for 9-decimal token)
-
     const response = await fetch(
-      `https://quote-api.jup.ag/v6/quote?inputMint=${mint}&outputMint=${USDC_MINT}&amount=${ONE_TOKEN}&slippageBps=50`,
+      `https://lite-api.jup.ag/price/v3?ids=${mint}`,
       {
         method: 'GET',
         headers: { 'Accept': 'application/json' }
@@ -43,14 +50,8 @@ async function getJupiterPrice(mint: string, decimals: number = 9): Promise<numb
     }
 
     const data = await response.json() as any;
-    
-    if (!data.outAmount) {
-      return null;
-    }
-
-    // Convert USDC lamports to USD (USDC has 6 decimals)
-    const priceUsd = parseFloat(data.outAmount) / 1_000_000;
-    return priceUsd;
+    const priceUsd = parseFloat(data?.[mint]?.usdPrice);
+    return isNaN(priceUsd) ? null : priceUsd;
   } catch (error) {
     console.error(`[Pricing] Jupiter API error for ${mint}:`, error);
     return null;
@@ -58,11 +59,11 @@ async function getJupiterPrice(mint: string, decimals: number = 9): Promise<numb
 }
 
 /**
- * Get token price from Dexscreener (fallback)
+ * Get a token's Dexscreener pairs, highest liquidity first
  * @param mint SPL token mint address
- * @returns Price in USD or null if not found
+ * @returns Pairs (empty if the token is not listed), or null if the request failed
  */
-async function getDexscreenerPrice(mint: string): Promise<number | null> {
+export async function getDexscreenerPairs(mint: string): Promise<any[] | null> {
   try {
     const response = await fetch(
       `https://api.dexscreener.com/latest/dex/tokens/${mint}`,
@@ -79,22 +80,35 @@ async function getDexscreenerPrice(mint: string): Promise<number | null> {
     const data = await response.json() as any;
     
     if (!data.pairs || data.pairs.length === 0) {
-      return null;
+      return [];
     }
 
-    // Get highest liquidity pair for most accurate price
-    const sortedPairs = data.pairs.sort((a: any, b: any) => 
+    return data.pairs.sort((a: any, b: any) => 
       parseFloat(b.liquidity?.usd || '0') - parseFloat(a.liquidity?.usd || '0')
     );
-
-    const priceUsd = parseFloat(sortedPairs[0].priceUsd);
-    return isNaN(priceUsd) ? null : priceUsd;
   } catch (error) {
     console.error(`[Pricing] Dexscreener API error for ${mint}:`, error);
     return null;
   }
 }
 
+/**
+ * Get token price from Dexscreener
+ * @param mint SPL token mint address
+ * @returns Price in USD or null if not found
+ */
+async function getDexscreenerPrice(mint: string): Promise<number | null> {
+  const pairs = await getDexscreenerPairs(mint);
+
+  if (!pairs || pairs.length === 0) {
+    return null;
+  }
+
+  // Highest liquidity pair for most accurate price
+  const priceUsd = parseFloat(pairs[0].priceUsd);
+  return isNaN(priceUsd) ? null : priceUsd;
+}
+
 /**
  * Known stablecoins with fixed $1 peg
  * These are always priced at $1 regardless of DEX liquidity
@@ -107,141 +121,112 @@ const STABLECOINS: Record<string, number> = {
 };
 
 /**
- * Get token price in USD with caching
+ * Query all sources for a mint (CoinGecko is only a source for SOL)
+ */
+async function fetchPriceQuotes(mint: string): Promise<PriceQuote[]> {
+  const observe = async (source: string, price: Promise<number | null>): Promise<PriceQuote> =>
+    ({ source, price: await price, observedAt: Date.now() });
+
+  const quotes: Array<Promise<PriceQuote>> = [
+    observe('jupiter', getJupiterPrice(mint)),
+    observe('dexscreener', getDexscreenerPrice(mint)),
+  ];
+
+  if (mint === SOL_MINT) {
+    quotes.push(getCoinGeckoSolQuote().then(quote => ({
+      source: 'coingecko',
+      price: quote?.price ?? null,
+      observedAt: quote?.observedAt ?? Date.now()
+    })));
+  }
+
+  return Promise.all(quotes);
+}
+
+/**
+ * Get token price in USD with confidence and staleness
  * Priority: 
  *   1. Stablecoin hardcoding ($1 for USDC/USDT/etc)
- *   2. Dexscreener (primary) - returns price per token directly, no decimals needed
+ *   2. Median of all sources with outlier rejection
  * 
  * @param mint SPL token mint address
- * @returns Price in USD per token, or null if not available
+ * @returns Oracle price - `uncertain` is set when the price should not be shown or acted on
  */
-export async function getTokenPrice(mint: string): Promise<number | null> {
+export async function getTokenPriceQuote(mint: string): Promise<OraclePrice> {
   // ✅ FIX: Check stablecoin hardcoding first
   if (STABLECOINS[mint]) {
-    return STABLECOINS[mint];
+    return assessAggregatedPrice({
+      price: STABLECOINS[mint],
+      confidence: 1,
+      observedAt: Date.now(),
+      sources: [{ source: 'peg', price: STABLECOINS[mint], accepted: true }]
+    });
   }
   
   // Check cache
   const cached = priceCache.get(mint);
   if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
-    return cached.price;
+    return assessAggregatedPrice(cached.aggregated);
   }
 
-  // Use Dexscreener (returns price per token, no decimals needed)
-  let price = await getDexscreenerPrice(mint);
+  const aggregated = aggregatePriceQuotes(await fetchPriceQuotes(mint));
 
-  // Cache result (even if null, to prevent rapid retries)
-  if (price !== null) {
-    priceCache.set(mint, {
-      price,
-      timestamp: Date.now()
-    });
+  if (aggregated.sources.some(s => s.price !== null && !s.accepted)) {
+    console.warn(`[Pricing] Rejected outlier quotes for ${mint}:`, aggregated.sources);
   }
 
-  return price;
+  // Cache result (even if uncertain, to prevent rapid retries)
+  priceCache.set(mint, {
+    aggregated,
+    timestamp: Date.now()
+  });
+
+  return assessAggregatedPrice(aggregated);
 }
 
 /**
- * Get multiple token prices in parallel
+ * Get multiple token price quotes in parallel
  * @param mints Array of SPL token mint addresses
- * @returns Map of mint → price (null if not found)
+ * @returns Map of mint → oracle price
  */
-export async function getTokenPrices(mints: string[]): Promise<Map<string, number | null>> {
-  const pricePromises = mints.map(async (mint) => {
-    const price = await getTokenPrice(mint);
-    return { mint, price };
-  });
-
-  const results = await Promise.all(pricePromises);
-  
-  const priceMap = new Map<string, number | null>();
-  for (const { mint, price } of results) {
-    priceMap.set(mint, price);
+export async function getTokenPriceQuotes(mints: string[]): Promise<Map<string, OraclePrice>> {
+  const results = await Promise.all(mints.map(async (mint) => {
+    const quote = await getTokenPriceQuote(mint);
+    return { mint, quote };
+  }));
+
+  const quoteMap = new Map<string, OraclePrice>();
+  for (const { mint, quote } of results) {
+    quoteMap.set(mint, quote);
   }
 
-  return priceMap;
+  return quoteMap;
 }
 
-interface MetadataCache {
-  metadata: { price: number; logoURI?: string };
-  timestamp: number;
-}
-
-const metadataCache = new Map<string, MetadataCache>();
-
 /**
- * Get token metadata (price + logo) from Dexscreener with caching and retry
+ * Get token price in USD
  * @param mint SPL token mint address
- * @returns Object with price and logoURI, or null if not found
+ * @returns Price in USD per token, or null if not available or uncertain
  */
-export async function getTokenMetadata(mint: string): Promise<{ price: number; logoURI?: string } | null> {
-  // Check cache first
-  const cached = metadataCache.get(mint);
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
-    return cached.metadata;
-  }
+export async function getTokenPrice(mint: string): Promise<number | null> {
+  const quote = await getTokenPriceQuote(mint);
+  return quote.uncertain ? null : quote.price;
+}
 
-  let lastError: any = null;
+/**
+ * Get multiple token prices in parallel
+ * @param mints Array of SPL token mint addresses
+ * @returns Map of mint → price (null if not found or uncertain)
+ */
+export async function getTokenPrices(mints: string[]): Promise<Map<string, number | null>> {
+  const quoteMap = await getTokenPriceQuotes(mints);
   
-  // Try up to 2 times with exponential backoff
-  for (let attempt = 0; attempt < 2; attempt++) {
-    try {
-      const response = await fetch(
-        `https://api.dexscreener.com/latest/dex/tokens/${mint}`,
-        {
-          method: 'GET',
-          headers: { 'Accept': 'application/json' }
-        }
-      );
-
-      if (!response.ok) {
-        if (attempt < 1) {
-          await new Promise(resolve => setTimeout(resolve, 500)); // 500ms backoff
-          continue;
-        }
-        return null;
-      }
-
-      const data = await response.json() as any;
-      
-      if (!data.pairs || data.pairs.length === 0) {
-        return null;
-      }
-
-      const sortedPairs = data.pairs.sort((a: any, b: any) => 
-        parseFloat(b.liquidity?.usd || '0') - parseFloat(a.liquidity?.usd || '0')
-      );
-
-      const pair = sortedPairs[0];
-      const priceUsd = parseFloat(pair.priceUsd);
-      
-      if (isNaN(priceUsd)) {
-        return null;
-      }
-
-      const metadata = {
-        price: priceUsd,
-        logoURI: pair.baseToken?.logoURI
-      };
-
-      // Cache successful result
-      metadataCache.set(mint, {
-        metadata,
-        timestamp: Date.now()
-      });
-
-      return metadata;
-    } catch (error) {
-      lastError = error;
-      if (attempt < 1) {
-        await new Promise(resolve => setTimeout(resolve, 500)); // 500ms backoff
-        continue;
-      }
-    }
+  const priceMap = new Map<string, number | null>();
+  for (const [mint, quote] of Array.from(quoteMap.entries())) {
+    priceMap.set(mint, quote.uncertain ? null : quote.price);
   }
 
-  console.error(`[Pricing] Dexscreener metadata error for ${mint} after retries:`, lastError);
-  return null;
+  return priceMap;
 }
 
 /**
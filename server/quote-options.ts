@@ -0,0 +1,54 @@
+import type { TradingPreferences } from "./trading-settings";
+
+/**
+ * Trading preferences applied to a Jupiter quote - request options and the price impact limit
+ * Pure functions - preferences are loaded by server/trading-settings.ts
+ */
+
+// The web quote endpoint was hardcoded to 0.5% slippage, multi-hop routes and no impact limit -
+// wallets without saved settings keep exactly that until they opt in
+export const WEB_QUOTE_DEFAULT_SETTINGS: TradingPreferences = {
+  slippageBps: 50, // 0.5%
+  maxPriceImpactPct: "100", // No limit
+  priorityFeeTier: 'auto',
+  antiMev: false,
+  costBasisMethod: 'fifo',
+  blockHighRiskBuys: false,
+};
+
+// Priority fee cap per tier in lamports (null = let Jupiter pick)
+const PRIORITY_FEE_LAMPORTS: Record<TradingPreferences['priorityFeeTier'], number | null> = {
+  auto: null,
+  fast: 100000, // 0.0001 SOL
+  turbo: 1000000, // 0.001 SOL
+};
+
+/**
+ * Translate preferences into getJupiterQuote options
+ */
+export function getQuoteOptions(settings: TradingPreferences): {
+  slippageBps: number;
+  onlyDirectRoutes: boolean;
+  priorityFeeLamports?: number;
+} {
+  const priorityFeeLamports = PRIORITY_FEE_LAMPORTS[settings.priorityFeeTier];
+  return {
+    slippageBps: settings.slippageBps,
+    onlyDirectRoutes: settings.antiMev,
+    ...(priorityFeeLamports !== null ? { priorityFeeLamports } : {})
+  };
+}
+
+/**
+ * Reject quotes whose price impact exceeds the wallet's limit
+ * @returns Error message, or null if the quote is acceptable
+ */
+export function checkPriceImpact(priceImpactPct: string, settings: TradingPreferences): string | null {
+  const impact = Math.abs(parseFloat(priceImpactPct));
+  const maxImpact = parseFloat(settings.maxPriceImpactPct);
+
+  if (Number.isFinite(impact) && impact > maxImpact) {
+    return `Price impact ${impact.toFixed(2)}% exceeds your maximum of ${maxImpact}%. Reduce the trade size or raise the limit in settings.`;
+  }
+  return null;
+}
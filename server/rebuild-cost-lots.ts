@@ -0,0 +1,49 @@
+// Rebuild Cost Lots Migration Script
+// Replays every wallet's completed buys and sells into cost_lots / lot_disposals (safe to re-run)
+
+import { db } from "./db";
+import { transactions } from "@shared/schema";
+import { inArray } from "drizzle-orm";
+import { rebuildCostLots } from "./tax-lots";
+
+async function rebuildAllCostLots() {
+  console.log('\n🔧 Rebuilding cost lots from transaction history...\n');
+
+  const walletRows = await db.selectDistinct({ walletId: transactions.walletId })
+    .from(transactions)
+    .where(inArray(transactions.type, ['buy', 'sell']));
+
+  console.log(`📊 Found ${walletRows.length} wallets with trades\n`);
+
+  let rebuilt = 0;
+  let failed = 0;
+
+  for (const { walletId } of walletRows) {
+    const result = await rebuildCostLots(walletId);
+    if (result.success) {
+      rebuilt++;
+      console.log(`  ✅ ${walletId}: ${result.lots} lots, ${result.disposals} disposals`);
+    } else {
+      failed++;
+      console.error(`  ❌ ${walletId}: ${result.error}`);
+    }
+  }
+
+  console.log(`\n✅ Rebuilt: ${rebuilt}`);
+  console.log(`❌ Failed: ${failed}`);
+
+  if (failed > 0) {
+    throw new Error(`${failed} wallets failed to rebuild`);
+  }
+}
+
+// Run migration
+rebuildAllCostLots()
+  .then(() => {
+    console.log('\n✅ All done!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n❌ Migration failed:', error);
+    process.exit(1);
+  });
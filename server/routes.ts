@@ -8,17 +8,40 @@ import { Keypair } from "@solana/web3.js";
 import { insertWalletSchema } from "@shared/schema";
 import { encryptPrivateKey, verifyPrivateKey, decryptPrivateKey } from "./encryption";
 import { getSolanaPrice, solToUsd, usdToSol } from "./coingecko";
-import { getTokenPrices, getTokenMetadata } from "./pricing";
-import { 
-  createDepositStep1Exchange, 
-  createDepositStep2Exchange,
-  createWithdrawStep1Exchange,
-  createWithdrawStep2Exchange,
-  getExchangeStatus 
-} from "./bridge-protocol";
-import { getJupiterQuote, executeJupiterSwap, SOL_MINT, toLamports, getTokenDecimals, sendSolFromLiquidityRouterNode } from "./jupiter";
-import { wallets, type Wallet } from "@shared/schema";
+import { getTokenPrice, getTokenPrices, getTokenPriceQuote, getTokenPriceQuotes } from "./pricing";
+import { resolveTokenMetadata, refreshTokenMetadata, setTokenMetadataOverride, clearTokenMetadataOverride } from "./token-resolver";
+import { isValidMintAddress } from "./token-metadata";
+import { scanTokenRisk } from "./token-risk-scanner";
+import { createSolToIntermediateExchange, createIntermediateToSolExchange, routeColumns } from "./bridge-provider";
+import { getBridgeRoute } from "./bridges";
+import { MIN_TRANSFER_SOL, getTransferLimits, checkTransferAmount, estimateBridgeTransfer } from "./bridge-estimate";
+import { getJupiterQuote, executeJupiterSwap, SOL_MINT, toLamports, sendSolFromLiquidityRouterNode } from "./jupiter";
+import { wallets, type Wallet, type LimitOrder, type TpSlRule, type Alert } from "@shared/schema";
 import { generateAnxTxHash } from "./swap-helpers";
+import { getSwapStatus } from "./swap-job-processor";
+import { createLimitOrder, cancelLimitOrder, getLimitOrders } from "./limit-orders";
+import { createTpSlRule, cancelTpSlRule, getTpSlRules } from "./tp-sl";
+import { createAlert, cancelAlert, getAlerts, getAlertDeliveries } from "./alerts";
+import { createDcaSchedule, getDcaSchedules, setDcaSchedulePaused, deleteDcaSchedule } from "./dca";
+import { rebuildCostLots, getOpenCostLots, getLotDisposals, getRealizedGains, exportDisposalsCsv } from "./tax-lots";
+import { getPortfolioHistory } from "./portfolio-snapshots";
+import type { PortfolioHistoryRange } from "./portfolio-history";
+import { getPriceCandles, getPriceAt } from "./price-history";
+import { fillCandleGaps, type CandleInterval } from "./ohlc";
+import { getTradingSettings, updateTradingSettings } from "./trading-settings";
+import { getQuoteOptions, checkPriceImpact, WEB_QUOTE_DEFAULT_SETTINGS } from "./quote-options";
+import { postSolMovement, getSolLedger } from "./sol-ledger";
+import { getLatestSolvencyReport, runSolvencyReconciliation } from "./solvency-job";
+import { requireAdminKey } from "./security-middleware";
+import { getDeadLetterTransfers, getTransferHistory, requeueTransfer } from "./transfer-store";
+import type { TransferKind } from "./transfer-state-machine";
+import { createApiKey, getApiKeys, revokeApiKey, getRequestWalletId } from "./api-keys";
+import { createWebhook, getWebhooks, disableWebhook, getWebhookDeliveries, replayWebhookDelivery } from "./webhooks";
+import { openWalletStream, closeSessionStreams } from "./wallet-stream";
+import { registerApiV1Routes } from "./api-v1";
+import { apiRoutes } from "./api-contract";
+import { validateRequest } from "./validation";
+import { buildOpenApiDocument } from "./openapi";
 import crypto from "crypto";
 import { deriveANVAddressV2, deriveANVAddressV1, deriveANVAddresses, getPublicKeyFromPrivateKey } from "./anv-address";
 
@@ -26,6 +49,11 @@ import { deriveANVAddressV2, deriveANVAddressV1, deriveANVAddresses, getPublicKe
 const LIQUIDITY_ROUTER_URL = "https://quote-api.jup.ag/v6";
 const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v"; // USDC SPL token
 
+// Wallet rows as returned to clients (the encrypted key never leaves the server)
+function withoutPrivateKey({ privateKey, ...wallet }: Wallet) {
+  return wallet;
+}
+
 // Helper to create or retrieve wallet with deterministic ANV address
 // Uses v2 (public key-based) with v1 (private key-based) fallback for migration
 async function createWalletWithDeterministicAddress(encryptedKey: string, privateKeyBytes: Uint8Array): Promise<Wallet> {
@@ -149,10 +177,13 @@ async function updateWalletAddress(walletId: string): Promise<string> {
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Developer API (/api/v1) - registered first because it forwards to the routes below
+  registerApiV1Routes(app);
+  
   // Wallet API routes
   
   // POST /api/wallet/create - Generate new Anovex wallet
-  app.post("/api/wallet/create", async (req, res) => {
+  app.post("/api/wallet/create", validateRequest(apiRoutes.createWallet), async (req, res) => {
     try {
       // Generate Solana keypair
       const keypair = Keypair.generate();
@@ -173,6 +204,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Create session immediately after wallet creation
       if (req.session) {
         req.session.walletId = wallet.id;
+        closeSessionStreams(req.sessionID); // Reconnect on the new wallet
       }
       
       // Return private key to user (ONLY ONCE!)
@@ -192,19 +224,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // POST /api/wallet/login - Login with private key
-  app.post("/api/wallet/login", async (req, res) => {
+  app.post("/api/wallet/login", validateRequest(apiRoutes.loginWallet), async (req, res) => {
     try {
       const { privateKey } = req.body;
       console.log(`[LOGIN] Attempting login... Session ID: ${req.sessionID || 'none'}`);
       
-      // Validate input
-      if (!Array.isArray(privateKey) || privateKey.length !== 64) {
-        return res.status(400).json({ 
-          success: false, 
-          error: "Invalid private key format. Expected 64-byte array." 
-        });
-      }
-      
       // Encrypt and find/create wallet with this private key
       const privateKeyBytes = new Uint8Array(privateKey);
       const encryptedKey = encryptPrivateKey(privateKey);
@@ -267,6 +291,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Create session (explicitly save for PostgreSQL session store)
       if (req.session) {
         req.session.walletId = matchedWallet.id;
+        closeSessionStreams(req.sessionID); // Reconnect on the new wallet
         console.log(`[LOGIN] Setting session walletId: ${matchedWallet.id}, Session ID: ${req.sessionID}`);
         
         // Explicitly save session to ensure it's persisted
@@ -306,7 +331,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // GET /api/wallet/address - Get user's Anovex wallet address (internal identifier, NOT blockchain address)
-  app.get("/api/wallet/address", async (req, res) => {
+  app.get("/api/wallet/address", validateRequest(apiRoutes.getWalletAddress), async (req, res) => {
     try {
       const walletId = req.session?.walletId;
       
@@ -357,7 +382,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // GET /api/wallet/balance - Get portfolio balance (SOL + all tokens + total USD)
-  app.get("/api/wallet/balance", async (req, res) => {
+  app.get("/api/wallet/balance", validateRequest(apiRoutes.getWalletBalance), async (req, res) => {
     try {
       console.log(`[BALANCE] Request - Session ID: ${req.sessionID || 'none'}, walletId: ${req.session?.walletId || 'none'}`);
       const walletId = req.session?.walletId;
@@ -381,21 +406,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Fetch token holdings
       const holdings = await storage.getTokenHoldings(walletId);
       
-      // Get metadata (price + logo) for all tokens in parallel
-      const metadataPromises = holdings.map(async (holding) => {
-        const metadata = await getTokenMetadata(holding.mint);
+      // Get prices and metadata (logo) for all tokens in parallel
+      const priceMap = await getTokenPrices(holdings.map(h => h.mint));
+      const metadataResults = await Promise.all(holdings.map(async (holding) => {
+        const metadata = await resolveTokenMetadata(holding.mint).catch(() => null);
         return {
           holding,
           metadata
         };
-      });
-      
-      const metadataResults = await Promise.all(metadataPromises);
+      }));
       
       // Calculate token values with logos
       const tokens = metadataResults.map(({ holding, metadata }) => {
         const amount = parseFloat(holding.amount);
-        const price = metadata?.price || 0;
+        const price = priceMap.get(holding.mint) || 0;
         const usd = amount * price;
         
         return {
@@ -432,8 +456,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // POST /api/wallet/logout - Logout
-  app.post("/api/wallet/logout", async (req, res) => {
+  app.post("/api/wallet/logout", validateRequest(apiRoutes.logoutWallet), async (req, res) => {
     try {
+      closeSessionStreams(req.sessionID);
       req.session?.destroy((err: any) => {
         if (err) {
           return res.status(500).json({ success: false, error: "Logout failed" });
@@ -445,8 +470,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  /**
+   * Server-Sent Events for the active wallet: balances, swap jobs, deposit/withdrawal steps, price ticks
+   * GET /api/stream
+   */
+  app.get("/api/stream", validateRequest(apiRoutes.streamWalletEvents), (req, res) => {
+    const walletId = req.session?.walletId;
+
+    if (!walletId) {
+      return res.status(401).json({
+        success: false,
+        error: "Not authenticated"
+      });
+    }
+
+    openWalletStream(req, res, walletId);
+  });
+
   // GET /api/wallet/list - Get all wallets for authenticated user
-  app.get("/api/wallet/list", async (req, res) => {
+  app.get("/api/wallet/list", validateRequest(apiRoutes.listWallets), async (req, res) => {
     try {
       const walletId = req.session?.walletId;
       
@@ -468,7 +510,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Telegram users get single wallet per user
         return res.json({
           success: true,
-          wallets: currentWallet ? [currentWallet] : []
+          wallets: currentWallet ? [withoutPrivateKey(currentWallet)] : []
         });
       }
       
@@ -483,7 +525,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json({
         success: true,
-        wallets: allWallets
+        wallets: allWallets.map(withoutPrivateKey)
       });
     } catch (error: any) {
       console.error("Wallet list error:", error);
@@ -495,7 +537,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/wallet/switch - Switch active wallet
-  app.post("/api/wallet/switch", async (req, res) => {
+  app.post("/api/wallet/switch", validateRequest(apiRoutes.switchWallet), async (req, res) => {
     try {
       const walletId = req.session?.walletId;
       const { walletId: targetWalletId } = req.body;
@@ -507,13 +549,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      if (!targetWalletId) {
-        return res.status(400).json({ 
-          success: false, 
-          error: "Target wallet ID required" 
-        });
-      }
-      
       // Verify target wallet exists
       const [targetWallet] = await db
         .select()
@@ -542,6 +577,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update session to new wallet
       if (req.session) {
         req.session.walletId = targetWalletId;
+        closeSessionStreams(req.sessionID); // Reconnect on the new wallet
         await new Promise<void>((resolve, reject) => {
           req.session!.save((err) => {
             if (err) reject(err);
@@ -564,7 +600,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // GET /api/wallet/export-key - Export private key for active wallet
-  app.get("/api/wallet/export-key", async (req, res) => {
+  app.get("/api/wallet/export-key", validateRequest(apiRoutes.exportWalletKey), async (req, res) => {
     try {
       const walletId = req.session?.walletId;
       
@@ -606,7 +642,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // POST /api/wallet/import - Import wallet from private key
-  app.post("/api/wallet/import", async (req, res) => {
+  app.post("/api/wallet/import", validateRequest(apiRoutes.importWallet), async (req, res) => {
     try {
       const walletId = req.session?.walletId;
       const { privateKey } = req.body;
@@ -693,6 +729,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         if (req.session) {
           req.session.walletId = newWallet.id;
+          closeSessionStreams(req.sessionID); // Reconnect on the new wallet
           await new Promise<void>((resolve, reject) => {
             req.session!.save((err) => {
               if (err) reject(err);
@@ -729,6 +766,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update session to new wallet
       if (req.session) {
         req.session.walletId = newWallet.id;
+        closeSessionStreams(req.sessionID); // Reconnect on the new wallet
         await new Promise<void>((resolve, reject) => {
           req.session!.save((err) => {
             if (err) reject(err);
@@ -753,9 +791,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Deposit API routes (Dual-Wallet TRON Bridge)
   
+  // GET /api/deposit/estimate?amount= - Quote both bridge hops (fees, limits, ETA) before creating a deposit
+  app.get("/api/deposit/estimate", validateRequest(apiRoutes.estimateDeposit), async (req, res) => {
+    try {
+      if (!req.session?.walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const amount = parseFloat(String(req.query.amount ?? ""));
+      if (isNaN(amount) || amount <= 0) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid SOL amount"
+        });
+      }
+
+      const route = getBridgeRoute();
+      const limits = await getTransferLimits(route);
+      const limitError = checkTransferAmount('deposit', amount, limits);
+      if (limitError) {
+        return res.status(400).json({
+          success: false,
+          error: limitError,
+          limits
+        });
+      }
+
+      const estimate = await estimateBridgeTransfer(route, 'deposit', amount, await getSolanaPrice(), limits);
+
+      res.json({
+        success: true,
+        estimate
+      });
+    } catch (error: any) {
+      console.error("Deposit estimate error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to estimate deposit"
+      });
+    }
+  });
+
   // POST /api/deposit/initiate - Initialize dual-bridge deposit flow
   // Step 1: SOL → TRX to Privacy Relay Node (TRON Bridge)
-  app.post("/api/deposit/initiate", async (req, res) => {
+  app.post("/api/deposit/initiate", validateRequest(apiRoutes.initiateDeposit), async (req, res) => {
     try {
       const walletId = req.session?.walletId;
       
@@ -785,10 +867,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { solAmount } = req.body;
       const solAmountNum = parseFloat(solAmount);
       
-      if (!solAmount || isNaN(solAmountNum) || solAmountNum < 0.05) {
+      if (!solAmount || isNaN(solAmountNum) || solAmountNum < MIN_TRANSFER_SOL) {
         return res.status(400).json({ 
           success: false, 
-          error: "Invalid SOL amount (minimum 0.05 SOL)" 
+          error: `Invalid SOL amount (minimum ${MIN_TRANSFER_SOL} SOL)` 
         });
       }
       
@@ -796,8 +878,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const solPrice = await getSolanaPrice();
       const usdAmount = solAmountNum * solPrice;
       
-      // Get Privacy Relay Node (TRON Bridge)
-      const tronWallet = await storage.getSystemWallet("privacy_relay_node");
+      // Get Privacy Relay Node (TRON Bridge) for the active bridge route
+      const route = getBridgeRoute();
+      
+      // Provider limits for both hops (cached)
+      const limitError = checkTransferAmount('deposit', solAmountNum, await getTransferLimits(route));
+      if (limitError) {
+        return res.status(400).json({
+          success: false,
+          error: limitError
+        });
+      }
+      const tronWallet = await storage.getSystemWallet(route.intermediate.relayWalletName);
       if (!tronWallet) {
         return res.status(500).json({ 
           success: false, 
@@ -806,7 +898,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Create Step 1 exchange: SOL → TRX to Privacy Relay Node
-      const step1Exchange = await createDepositStep1Exchange(
+      const step1Exchange = await createSolToIntermediateExchange(
+        route,
         solAmountNum.toString(),
         tronWallet.address
       );
@@ -817,8 +910,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       try {
         deposit = await storage.createDeposit({
           walletId,
-          step1DepositAddress: step1Exchange.addressFrom,
-          step1ExchangeId: step1Exchange.publicId,
+          ...routeColumns(route),
+          step1DepositAddress: step1Exchange.depositAddress,
+          step1ExchangeId: step1Exchange.id,
           solAmount: solAmountNum.toFixed(9),
           status: 'waiting_step1'
         });
@@ -855,8 +949,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           status: 'waiting_step1',
           usdAmount: usdAmount.toFixed(2),
           solAmount: solAmountNum.toFixed(9),
-          step1DepositAddress: step1Exchange.addressFrom,
-          step1ExchangeId: step1Exchange.publicId,
+          step1DepositAddress: step1Exchange.depositAddress,
+          step1ExchangeId: step1Exchange.id,
           technicalSteps: [
             { step: 1, status: 'pending', label: 'STEALTH FUNDING REQUEST', description: `Send ${solAmountNum.toFixed(4)} SOL to privacy relay address` },
             { step: 2, status: 'waiting', label: 'ZK RELAY NETWORK SYNC', description: 'Privacy relay node coordinating anonymization' },
@@ -879,10 +973,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // GET /api/deposit/status/:depositId - Check dual-bridge deposit status
-  app.get("/api/deposit/status/:depositId", async (req, res) => {
+  app.get("/api/deposit/status/:depositId", validateRequest(apiRoutes.getDepositStatus), async (req, res) => {
     try {
       const { depositId } = req.params;
-      const walletId = req.session?.walletId;
+      const walletId = getRequestWalletId(req);
       
       if (!walletId) {
         return res.status(401).json({ 
@@ -912,7 +1006,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Update steps based on current status
       if (deposit.status === 'waiting_step1' && deposit.step1ExchangeId) {
-        const step1Status = await getExchangeStatus(deposit.step1ExchangeId);
+        const step1Status = await getBridgeRoute(deposit).provider.getStatus(deposit.step1ExchangeId);
         
         if (step1Status.status === 'waiting') {
           technicalSteps[0].status = 'active';
@@ -928,7 +1022,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           technicalSteps[2].description = 'Executing shadow conversion protocol...';
         }
       } else if (deposit.status === 'waiting_step2' && deposit.step2ExchangeId) {
-        const step2Status = await getExchangeStatus(deposit.step2ExchangeId);
+        const step2Status = await getBridgeRoute(deposit).provider.getStatus(deposit.step2ExchangeId);
         
         // Step 1-3 completed, Step 4 active immediately (optimistic UI)
         technicalSteps[0].status = 'completed';
@@ -975,7 +1069,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // POST /api/deposit/recover/:depositId - Emergency recovery for stuck deposits
-  app.post("/api/deposit/recover/:depositId", async (req, res) => {
+  app.post("/api/deposit/recover/:depositId", validateRequest(apiRoutes.recoverDeposit), async (req, res) => {
     try {
       const { depositId } = req.params;
       const { trxAmount } = req.body; // User provides TRX amount received
@@ -1006,7 +1100,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Create Step 2 exchange: TRX → SOL to Liquidity Router Node
       console.log(`[RECOVERY] Creating Step 2: ${trxAmount} TRX → SOL to ${solanaWallet.address}`);
-      const step2Exchange = await createDepositStep2Exchange(
+      const step2Exchange = await createIntermediateToSolExchange(
+        getBridgeRoute(deposit),
         trxAmount,
         solanaWallet.address
       );
@@ -1015,18 +1110,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await db.update(deposits)
         .set({
           trxAmount: trxAmount,
-          step2ExchangeId: step2Exchange.publicId,
+          step2ExchangeId: step2Exchange.id,
           status: 'waiting_step2',
           step1CompletedAt: new Date(), // Mark Step 1 as completed
         })
         .where(eq(deposits.id, deposit.id));
       
-      console.log(`[RECOVERY] Deposit ${depositId} recovered - Step 2 initiated: ${step2Exchange.publicId}`);
+      console.log(`[RECOVERY] Deposit ${depositId} recovered - Step 2 initiated: ${step2Exchange.id}`);
       
       res.json({
         success: true,
         message: `Deposit recovered! Step 2 initiated.`,
-        step2ExchangeId: step2Exchange.publicId,
+        step2ExchangeId: step2Exchange.id,
         depositStatus: 'waiting_step2'
       });
       
@@ -1037,7 +1132,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // POST /api/deposit/manual-trigger/:depositId - Manual trigger Step 2 (FOR TESTING)
-  app.post("/api/deposit/manual-trigger/:depositId", async (req, res) => {
+  app.post("/api/deposit/manual-trigger/:depositId", validateRequest(apiRoutes.triggerDepositStep2), async (req, res) => {
     try {
       const { depositId } = req.params;
       const walletId = req.session?.walletId;
@@ -1060,7 +1155,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Check Step 1 status
-      const step1Exchange = await getExchangeStatus(deposit.step1ExchangeId);
+      const route = getBridgeRoute(deposit);
+      const step1Exchange = await route.provider.getStatus(deposit.step1ExchangeId);
       console.log(`[MANUAL TRIGGER] Step 1 status for deposit ${depositId}: ${step1Exchange.status}`);
       
       if (step1Exchange.status !== 'finished') {
@@ -1083,7 +1179,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Create Step 2 exchange: TRX → SOL to Liquidity Router Node
       console.log(`[MANUAL TRIGGER] Creating Step 2: ${trxReceived} TRX → SOL to ${solanaWallet.address}`);
-      const step2Exchange = await createDepositStep2Exchange(
+      const step2Exchange = await createIntermediateToSolExchange(
+        route,
         trxReceived,
         solanaWallet.address
       );
@@ -1092,18 +1189,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await db.update(deposits)
         .set({
           trxAmount: trxReceived,
-          step2ExchangeId: step2Exchange.publicId,
+          step2ExchangeId: step2Exchange.id,
           status: 'waiting_step2',
           step1CompletedAt: new Date(),
         })
         .where(eq(deposits.id, deposit.id));
       
-      console.log(`[MANUAL TRIGGER] Step 2 initiated: ${step2Exchange.publicId}`);
+      console.log(`[MANUAL TRIGGER] Step 2 initiated: ${step2Exchange.id}`);
       
       res.json({
         success: true,
         message: `Step 2 triggered manually`,
-        step2ExchangeId: step2Exchange.publicId,
+        step2ExchangeId: step2Exchange.id,
         trxAmount: trxReceived,
         depositStatus: 'waiting_step2'
       });
@@ -1115,7 +1212,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // GET /api/deposit/history - Get deposit history
-  app.get("/api/deposit/history", async (req, res) => {
+  app.get("/api/deposit/history", validateRequest(apiRoutes.getDepositHistory), async (req, res) => {
     try {
       const walletId = req.session?.walletId;
       
@@ -1144,10 +1241,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // WITHDRAWAL ENDPOINTS (Dual-bridge: Liquidity Router Node → Privacy Relay Node → User)
   
+  // GET /api/withdraw/estimate?amount= - Quote both bridge hops (fees, limits, ETA) before withdrawing
+  app.get("/api/withdraw/estimate", validateRequest(apiRoutes.estimateWithdrawal), async (req, res) => {
+    try {
+      if (!req.session?.walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const amount = parseFloat(String(req.query.amount ?? ""));
+      if (isNaN(amount) || amount <= 0) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid SOL amount"
+        });
+      }
+
+      const route = getBridgeRoute();
+      const limits = await getTransferLimits(route);
+      const limitError = checkTransferAmount('withdrawal', amount, limits);
+      if (limitError) {
+        return res.status(400).json({
+          success: false,
+          error: limitError,
+          limits
+        });
+      }
+
+      const estimate = await estimateBridgeTransfer(route, 'withdrawal', amount, await getSolanaPrice(), limits);
+
+      res.json({
+        success: true,
+        estimate
+      });
+    } catch (error: any) {
+      console.error("Withdrawal estimate error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to estimate withdrawal"
+      });
+    }
+  });
+
   // POST /api/withdraw/initiate - Initiate withdrawal request
-  app.post("/api/withdraw/initiate", async (req, res) => {
+  app.post("/api/withdraw/initiate", validateRequest(apiRoutes.initiateWithdrawal), async (req, res) => {
     try {
-      const walletId = req.session?.walletId;
+      const walletId = getRequestWalletId(req);
       
       if (!walletId) {
         return res.status(401).json({ 
@@ -1184,10 +1325,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const solAmount = parseFloat(solAmountStr);
       
       // Minimum withdrawal: 0.05 SOL
-      if (solAmount < 0.05) {
+      if (solAmount < MIN_TRANSFER_SOL) {
         return res.status(400).json({
           success: false,
-          error: "Minimum withdrawal is 0.05 SOL"
+          error: `Minimum withdrawal is ${MIN_TRANSFER_SOL} SOL`
         });
       }
       
@@ -1202,8 +1343,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      // Get Privacy Relay Node (TRON Bridge) - fail fast before transaction
-      const tronWallet = await storage.getSystemWallet("privacy_relay_node");
+      // Get Privacy Relay Node (TRON Bridge) for the active bridge route - fail fast before transaction
+      const route = getBridgeRoute();
+      
+      // Provider limits for both hops (cached)
+      const limitError = checkTransferAmount('withdrawal', solAmount, await getTransferLimits(route));
+      if (limitError) {
+        return res.status(400).json({
+          success: false,
+          error: limitError
+        });
+      }
+      const tronWallet = await storage.getSystemWallet(route.intermediate.relayWalletName);
       if (!tronWallet) {
         throw new Error("System wallet not initialized");
       }
@@ -1211,36 +1362,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // ATOMIC TRANSACTION: Deduct balance + create exchange + create records
       // If ANY step fails, balance is NOT deducted (funds safe)
       const result = await db.transaction(async (tx) => {
-        // 1. Deduct SOL from balance (contention-safe decrement with guard)
-        const updatedBalances = await tx.execute(sql`
-          UPDATE ${balances}
-          SET 
-            sol_balance = sol_balance - ${solAmount.toString()}::decimal,
-            updated_at = NOW()
-          WHERE wallet_id = ${walletId}
-            AND sol_balance >= ${solAmount.toString()}::decimal
-          RETURNING *
-        `);
+        // 1. Create pending transaction record (linked to the withdrawal in step 4)
+        const [withdrawTx] = await tx.insert(transactions).values({
+          walletId,
+          txhash: generateAnxTxHash('withdraw'),
+          type: 'withdraw',
+          instructions: 'transfer out',
+          tokenAddress: null,
+          tokenSymbol: 'SOL',
+          amount: solAmount.toFixed(9),
+          solValue: solAmount.toFixed(9),
+          priceUsd: (await getSolanaPrice()).toFixed(2),
+          status: 'pending'
+        }).returning({ id: transactions.id });
+        
+        // 2. Deduct SOL from balance + ledger entry (contention-safe decrement with guard)
+        const updatedBalance = await postSolMovement(tx, {
+          walletId,
+          amount: solAmount,
+          reason: 'withdrawal',
+          transactionId: withdrawTx.id
+        });
         
         // Critical: Verify row was actually updated (prevents free withdrawals)
-        if (updatedBalances.rowCount === 0) {
+        if (!updatedBalance) {
           throw new Error("Insufficient balance or concurrent withdrawal detected");
         }
         
-        // 2. Create Step 1 exchange: Liquidity Router Node SOL → Privacy Relay Node TRX
+        // 3. Create Step 1 exchange: Liquidity Router Node SOL → Privacy Relay Node TRX
         // NOTE: This is an external API call - if it fails, transaction rolls back
-        const step1Exchange = await createWithdrawStep1Exchange(
+        const step1Exchange = await createSolToIntermediateExchange(
+          route,
           solAmount.toFixed(9),
           tronWallet.address
         );
         
-        // 3. Create withdrawal record (unique constraint prevents duplicate pending withdrawals)
+        // 4. Create withdrawal record (unique constraint prevents duplicate pending withdrawals)
         let withdrawal;
         try {
           [withdrawal] = await tx.insert(withdrawals).values({
             walletId,
             destinationAddress,
-            step1ExchangeId: step1Exchange.publicId,
+            ...routeColumns(route),
+            step1ExchangeId: step1Exchange.id,
             step2ExchangeId: null,
             solDeducted: solAmount.toFixed(9),
             trxAmount: null,
@@ -1257,26 +1421,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           throw dbError; // Re-throw non-constraint errors
         }
         
-        // 4. Create pending transaction record
-        await tx.insert(transactions).values({
-          walletId,
-          txhash: generateAnxTxHash('withdraw'),
-          type: 'withdraw',
-          instructions: 'transfer out',
-          tokenAddress: null,
-          tokenSymbol: 'SOL',
-          amount: solAmount.toFixed(9),
-          solValue: solAmount.toFixed(9),
-          priceUsd: (await getSolanaPrice()).toFixed(2),
-          status: 'pending'
-        });
+        // Link transaction to withdrawal
+        await tx.update(transactions)
+          .set({ withdrawalId: withdrawal.id })
+          .where(eq(transactions.id, withdrawTx.id));
         
         return { withdrawal, step1Exchange };
       });
       
       // 5. Send SOL from Liquidity Router Node to Step 1 exchange address
       // This happens AFTER the DB transaction, so if it fails, we can retry later
-      console.log(`[WITHDRAWAL] Sending ${solAmount.toFixed(9)} SOL to Step 1 exchange address: ${result.step1Exchange.addressFrom}`);
+      console.log(`[WITHDRAWAL] Sending ${solAmount.toFixed(9)} SOL to Step 1 exchange address: ${result.step1Exchange.depositAddress}`);
       
       // CRITICAL ATOMIC LOCK: Set placeholder BEFORE sending to prevent duplicate sends
       // This prevents polling from sending duplicate SOL during network delays
@@ -1305,7 +1460,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       try {
         const txId = await sendSolFromLiquidityRouterNode(
-          result.step1Exchange.addressFrom,
+          result.step1Exchange.depositAddress,
           solAmount
         );
         
@@ -1322,8 +1477,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             id: result.withdrawal.id,
             status: result.withdrawal.status,
             solDeducted: result.withdrawal.solDeducted,
-            step1DepositAddress: result.step1Exchange.addressFrom,
-            step1ExchangeId: result.step1Exchange.publicId
+            step1DepositAddress: result.step1Exchange.depositAddress,
+            step1ExchangeId: result.step1Exchange.id
           }
         });
       } catch (error: any) {
@@ -1356,27 +1511,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // POST /api/withdraw/test-create - Test endpoint to create withdrawal (development only)
-  app.post("/api/withdraw/test-create", async (req, res) => {
+  app.post("/api/withdraw/test-create", validateRequest(apiRoutes.createTestWithdrawal), async (req, res) => {
     try {
       const { walletId, destinationAddress, solAmount } = req.body;
       
-      if (!walletId || !destinationAddress || !solAmount) {
-        return res.status(400).json({
-          success: false,
-          error: "Missing required fields"
-        });
-      }
-      
       const solAmountNum = parseFloat(solAmount);
       
       // Get Privacy Relay Node
-      const tronWallet = await storage.getSystemWallet("privacy_relay_node");
+      const route = getBridgeRoute();
+      const tronWallet = await storage.getSystemWallet(route.intermediate.relayWalletName);
       if (!tronWallet) {
         throw new Error("System wallet not initialized");
       }
       
       // Create Step 1 exchange
-      const step1Exchange = await createWithdrawStep1Exchange(
+      const step1Exchange = await createSolToIntermediateExchange(
+        route,
         solAmountNum.toFixed(9),
         tronWallet.address
       );
@@ -1385,7 +1535,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const [withdrawal] = await db.insert(withdrawals).values({
         walletId,
         destinationAddress,
-        step1ExchangeId: step1Exchange.publicId,
+        ...routeColumns(route),
+        step1ExchangeId: step1Exchange.id,
         step2ExchangeId: null,
         solDeducted: solAmountNum.toFixed(9),
         trxAmount: null,
@@ -1419,7 +1570,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
         
         const txId = await sendSolFromLiquidityRouterNode(
-          step1Exchange.addressFrom,
+          step1Exchange.depositAddress,
           solAmountNum
         );
         
@@ -1436,7 +1587,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             id: withdrawal.id,
             status: withdrawal.status,
             step1TxId: txId,
-            step1ExchangeId: step1Exchange.publicId
+            step1ExchangeId: step1Exchange.id
           }
         });
       } catch (error: any) {
@@ -1465,9 +1616,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // GET /api/withdraw/status/:withdrawId - Get withdrawal status
-  app.get("/api/withdraw/status/:withdrawId", async (req, res) => {
+  app.get("/api/withdraw/status/:withdrawId", validateRequest(apiRoutes.getWithdrawalStatus), async (req, res) => {
     try {
-      const walletId = req.session?.walletId;
+      const walletId = getRequestWalletId(req);
       
       if (!walletId) {
         return res.status(401).json({ 
@@ -1518,7 +1669,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         if (withdrawal.step1ExchangeId) {
           try {
-            const step1Status = await getExchangeStatus(withdrawal.step1ExchangeId);
+            const step1Status = await getBridgeRoute(withdrawal).provider.getStatus(withdrawal.step1ExchangeId);
             
             if (step1Status.status === 'waiting') {
               technicalSteps[2].status = 'active';
@@ -1560,7 +1711,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         if (withdrawal.step2ExchangeId) {
           try {
-            const step2Status = await getExchangeStatus(withdrawal.step2ExchangeId);
+            const step2Status = await getBridgeRoute(withdrawal).provider.getStatus(withdrawal.step2ExchangeId);
             
             if (step2Status.status === 'waiting') {
               technicalSteps[4].status = 'active';
@@ -1624,7 +1775,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // GET /api/withdraw/history - Get withdrawal history
-  app.get("/api/withdraw/history", async (req, res) => {
+  app.get("/api/withdraw/history", validateRequest(apiRoutes.getWithdrawalHistory), async (req, res) => {
     try {
       const walletId = req.session?.walletId;
       
@@ -1654,9 +1805,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Trading API routes (Anovex Liquidity Router integration)
   
   // POST /api/swap/quote - Get price quote for token swap
-  app.post("/api/swap/quote", async (req, res) => {
+  app.post("/api/swap/quote", validateRequest(apiRoutes.getSwapQuote), async (req, res) => {
     try {
-      const walletId = req.session?.walletId;
+      const walletId = getRequestWalletId(req);
       
       if (!walletId) {
         return res.status(401).json({ 
@@ -1667,13 +1818,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const { tokenAddress, amount, type } = req.body; // type: 'buy' or 'sell'
       
-      if (!tokenAddress || !amount || !type) {
-        return res.status(400).json({ 
-          success: false, 
-          error: "Missing required fields" 
-        });
-      }
-      
       const balance = await storage.getBalance(walletId);
       const solBalance = parseFloat(balance?.solBalance || "0");
       
@@ -1689,7 +1833,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let inputMint: string, outputMint: string, swapAmount: string;
       
       // Fetch token decimals for accurate conversion
-      const tokenDecimals = await getTokenDecimals(tokenAddress);
+      const tokenDecimals = (await resolveTokenMetadata(tokenAddress)).decimals;
       console.log(`📊 Token ${tokenAddress} has ${tokenDecimals} decimals`);
       
       if (type === 'buy') {
@@ -1712,15 +1856,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         swapAmount = Math.floor(parseFloat(amount) * Math.pow(10, tokenDecimals)).toString();
       }
       
+      // Per-wallet slippage / anti-MEV / priority fee preferences (0.5% slippage until the wallet saves its own)
+      const settings = await getTradingSettings(walletId, WEB_QUOTE_DEFAULT_SETTINGS);
+      
       // Get quote from Jupiter Ultra API with taker wallet (required for transaction generation)
       const jupiterQuote = await getJupiterQuote({
         inputMint,
         outputMint,
         amount: swapAmount,
-        slippageBps: 50,
-        taker: solanaPool.address // Required for Jupiter Ultra to generate transaction
+        taker: solanaPool.address, // Required for Jupiter Ultra to generate transaction
+        ...getQuoteOptions(settings)
       });
       
+      const priceImpactError = checkPriceImpact(jupiterQuote.priceImpactPct, settings);
+      if (priceImpactError) {
+        return res.status(400).json({ 
+          success: false, 
+          error: priceImpactError 
+        });
+      }
+      
       // Convert outputAmount using correct decimals
       // BUY: outputMint is token (use token decimals)
       // SELL: outputMint is SOL (use 9 decimals)
@@ -1741,7 +1896,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           inAmount: jupiterQuote.inAmount,
           outAmount: jupiterQuote.outAmount,
           inputMint: jupiterQuote.inputMint,
-          outputMint: jupiterQuote.outputMint
+          outputMint: jupiterQuote.outputMint,
+          slippageBps: jupiterQuote.slippageBps
         },
         cost: cost.toFixed(6)
       });
@@ -1756,9 +1912,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // POST /api/swap/execute - Execute REAL on-chain token swap via Jupiter (ATOMIC & RACE-SAFE)
-  app.post("/api/swap/execute", async (req, res) => {
+  app.post("/api/swap/execute", validateRequest(apiRoutes.executeSwap), async (req, res) => {
     try {
-      const walletId = req.session?.walletId;
+      const walletId = getRequestWalletId(req);
       
       if (!walletId) {
         return res.status(401).json({ 
@@ -1769,13 +1925,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const { tokenAddress, tokenSymbol, amount, type, quote } = req.body;
       
-      if (!tokenAddress || !amount || !type || !quote) {
-        return res.status(400).json({ 
-          success: false, 
-          error: "Missing required fields" 
-        });
-      }
-      
       // Get Liquidity Router Node (Solana Pool) for executing on-chain swaps
       const solanaPool = await storage.getSystemWallet("liquidity_router_node");
       if (!solanaPool) {
@@ -1795,7 +1944,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Fetch token decimals for accurate conversion
-      const tokenDecimals = await getTokenDecimals(tokenAddress);
+      const tokenDecimals = (await resolveTokenMetadata(tokenAddress)).decimals;
       console.log(`📊 Token ${tokenAddress} has ${tokenDecimals} decimals`);
       
       let transactionAmount: string, priceUsd: string, cost: number;
@@ -1863,43 +2012,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // STEP 2: ATOMIC DB TRANSACTION - Update balance + token holdings + transaction record
       // Prevents race conditions in concurrent buy/sell operations
       const result = await db.transaction(async (tx) => {
-        // 1. Update SOL balance atomically (like deposit/withdraw)
-        let updatedBalance;
-        
-        if (type === 'buy') {
-          // BUY: Atomic decrement (like withdraw)
-          const updatedBalances = await tx.execute(sql`
-            UPDATE ${balances}
-            SET 
-              sol_balance = sol_balance - ${cost.toString()}::decimal,
-              updated_at = NOW()
-            WHERE wallet_id = ${walletId}
-              AND sol_balance >= ${cost.toString()}::decimal
-            RETURNING *
-          `);
-          
-          // Verify row was updated (prevent overdraft)
-          if (updatedBalances.rowCount === 0) {
-            throw new Error("Insufficient balance");
-          }
-          
-          updatedBalance = updatedBalances.rows[0];
-        } else {
-          // SELL: Atomic increment (like deposit)
-          const sellProceeds = parseFloat(quote.outputAmount);
-          const updatedBalances = await tx.execute(sql`
-            UPDATE ${balances}
-            SET 
-              sol_balance = sol_balance + ${sellProceeds.toString()}::decimal,
-              updated_at = NOW()
-            WHERE wallet_id = ${walletId}
-            RETURNING *
-          `);
-          
-          updatedBalance = updatedBalances.rows[0];
-        }
-        
-        // 2. Get entry price snapshot for SELL transactions (BEFORE updating holdings)
+        // 1. Get entry price snapshot for SELL transactions (BEFORE updating holdings)
         let costBasisAtSale: string | undefined;
         let realizedPnl: string | undefined;
         
@@ -1924,7 +2037,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
         
-        // 3. Create transaction record with custom ANX hash (+ real blockchain hash for audit)
+        // 2. Create transaction record with custom ANX hash (+ real blockchain hash for audit)
         const customTxHash = generateAnxTxHash(type);
         
         // Calculate solValue for Explorer display (full precision)
@@ -1932,7 +2045,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ? cost.toString() // BUY: SOL spent (already in SOL)
           : (parseFloat(quote.outAmount) / 1e9).toString(); // SELL: SOL received (convert lamports to SOL with full precision)
         
-        await tx.insert(transactions).values({
+        const [swapTx] = await tx.insert(transactions).values({
           walletId,
           txhash: customTxHash, // Custom Anovex Explorer hash (ANV-BUY-xxx or ANV-SELL-xxx)
           chainTxhash: realTxHash, // Real Solana blockchain tx hash (for audit/verification)
@@ -1946,8 +2059,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
           costBasisAtSale, // Entry price at time of sell (for SELL only)
           realizedPnl, // Profit/loss realized from this sell (for SELL only)
           status: 'completed'
+        }).returning({ id: transactions.id });
+        
+        // 3. Update SOL balance atomically + ledger entry (like deposit/withdraw)
+        // BUY: guarded decrement (prevents overdraft), SELL: increment
+        const updatedBalance = await postSolMovement(tx, {
+          walletId,
+          amount: type === 'buy' ? cost : parseFloat(quote.outputAmount),
+          reason: type === 'buy' ? 'swap_buy' : 'swap_sell',
+          transactionId: swapTx.id,
+          memo: realTxHash
         });
         
+        if (!updatedBalance) {
+          throw new Error("Insufficient balance");
+        }
+        
         // 4. Update token holdings in portfolio
         if (type === 'buy') {
           // Check if token already in portfolio
@@ -2028,11 +2155,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         
         return { updatedBalance, txhash: customTxHash };
       });
+
+      // Refresh tax lots from the completed trade
+      await rebuildCostLots(walletId);
       
       res.json({
         success: true,
         txhash: result.txhash,
-        newBalance: result.updatedBalance.sol_balance,
+        newBalance: result.updatedBalance.solBalance,
         message: `${type === 'buy' ? 'Bought' : 'Sold'} ${transactionAmount} ${tokenSymbol}`,
         blockchainTx: `https://anvscan.com/tx/${result.txhash}` // Anovex Explorer link (custom ANV hash)
       });
@@ -2046,6 +2176,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  /**
+   * Swap status by ANV transaction hash - background jobs (orders, DCA, Telegram) or settled web swaps
+   * GET /api/swap/status/:txhash
+   */
+  app.get("/api/swap/status/:txhash", validateRequest(apiRoutes.getSwapStatus), async (req, res) => {
+    try {
+      const walletId = getRequestWalletId(req);
+      
+      if (!walletId) {
+        return res.status(401).json({ 
+          success: false, 
+          error: "Not authenticated" 
+        });
+      }
+      
+      const swap = await getSwapStatus(walletId, req.params.txhash);
+      
+      if (!swap) {
+        return res.status(404).json({
+          success: false,
+          error: "Swap not found"
+        });
+      }
+      
+      res.json({
+        success: true,
+        swap
+      });
+      
+    } catch (error: any) {
+      console.error("Swap status error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+  
   // Telegram bot swap helper - Creates temporary authenticated session
   // This is called server-side only (not exposed as HTTP endpoint)
   // Security: Wallet ownership is verified before session creation
@@ -2071,7 +2239,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   }
   
   // GET /api/swap/token-info/:address - Get token metadata
-  app.get("/api/swap/token-info/:address", async (req, res) => {
+  app.get("/api/swap/token-info/:address", validateRequest(apiRoutes.getSwapTokenInfo), async (req, res) => {
     try {
       const { address } = req.params;
       
@@ -2274,10 +2442,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Portfolio API routes
   
   // GET /api/portfolio - Get portfolio with live PNL tracking
-  app.get("/api/portfolio", async (req, res) => {
+  app.get("/api/portfolio", validateRequest(apiRoutes.getPortfolio), async (req, res) => {
     try {
       // Support BOTH session (web) and query param (Telegram bot)
-      const walletId = req.session?.walletId || (req.query.walletId as string);
+      const walletId = getRequestWalletId(req) || (req.query.walletId as string);
       
       if (!walletId) {
         return res.status(401).json({ 
@@ -2289,6 +2457,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // 1. Get SOL balance
       const balance = await storage.getBalance(walletId);
       const solBalance = parseFloat(balance?.solBalance || "0");
+      const solQuote = await getTokenPriceQuote(SOL_MINT);
       const solPrice = await getSolanaPrice();
       const solValue = solBalance * solPrice;
       
@@ -2296,13 +2465,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const rawHoldings = await storage.getTokenHoldings(walletId);
       const holdings = rawHoldings.filter(h => parseFloat(h.amount) > 0);
       
-      // 2. Fetch live prices for all holdings in parallel
+      // 2. Fetch live prices for all holdings in parallel (oracle quotes with confidence)
       const mints = holdings.map(h => h.mint);
-      const priceMap = await getTokenPrices(mints);
+      const quoteMap = await getTokenPriceQuotes(mints);
       
       // 3. Update holdings with current prices and calculate unrealized PnL
+      // Uncertain prices are flagged and valued at the last confident price instead
       const holdingsWithPnl = await Promise.all(holdings.map(async (holding) => {
-        const currentPrice = priceMap.get(holding.mint);
+        const quote = quoteMap.get(holding.mint);
+        const currentPrice = quote && !quote.uncertain ? quote.price : null;
         const entryPrice = parseFloat(holding.averageEntryPrice || "0");
         const amount = parseFloat(holding.amount);
         const costBasis = parseFloat(holding.totalCostBasis || "0");
@@ -2332,7 +2503,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           costBasis: costBasis.toFixed(2),
           currentValue: currentValue.toFixed(2),
           unrealizedPnl: unrealizedPnl.toFixed(2),
-          pnlPercent: pnlPercent.toFixed(2)
+          pnlPercent: pnlPercent.toFixed(2),
+          priceUncertain: currentPrice === null,
+          priceConfidence: quote?.confidence ?? 0,
+          priceStalenessMs: quote?.stalenessMs ?? null
         };
       }));
       
@@ -2396,7 +2570,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           costBasis: solValue.toFixed(2),
           currentValue: solValue.toFixed(2),
           unrealizedPnl: "0.00",
-          pnlPercent: "0.00"
+          pnlPercent: "0.00",
+          priceUncertain: solQuote.uncertain,
+          priceConfidence: solQuote.confidence,
+          priceStalenessMs: solQuote.stalenessMs
         },
         ...holdingsWithPnl
       ];
@@ -2409,7 +2586,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           realizedPnl: totalRealizedPnl.toFixed(2),
           totalTrades,
           winRate: winRate.toFixed(1),
-          totalValue: totalValue.toFixed(2)
+          totalValue: totalValue.toFixed(2),
+          uncertainPrices: allHoldings.filter(h => h.priceUncertain).length
         },
         holdings: allHoldings,
         recentTrades
@@ -2424,12 +2602,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // GET /api/portfolio/history?range=24h|7d|30d|90d|1y - Portfolio value over time (downsampled snapshots)
+  app.get("/api/portfolio/history", validateRequest(apiRoutes.getPortfolioHistory), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+      
+      if (!walletId) {
+        return res.status(401).json({ 
+          success: false, 
+          error: "Not authenticated" 
+        });
+      }
+      
+      const range = (req.query.range ?? '7d') as PortfolioHistoryRange;
+      
+      const points = await getPortfolioHistory(walletId, range);
+      
+      res.json({
+        success: true,
+        range,
+        points: points.map(point => ({
+          timestamp: point.timestamp,
+          totalValueUsd: point.totalValueUsd.toFixed(2),
+          solBalance: point.solBalance.toFixed(6),
+          tokenValueUsd: point.tokenValueUsd.toFixed(2)
+        }))
+      });
+      
+    } catch (error: any) {
+      console.error("Portfolio history error:", error);
+      res.status(500).json({ 
+        success: false, 
+        error: error.message 
+      });
+    }
+  });
+
   // ============================================================================
   // ANVS CAN EXPLORER API ENDPOINTS (Read-only transaction explorer)
   // ============================================================================
 
   // Get paginated list of all transactions for explorer
-  app.get("/api/explorer/transactions", async (req, res) => {
+  app.get("/api/explorer/transactions", validateRequest(apiRoutes.listExplorerTransactions), async (req, res) => {
     try {
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 20;
@@ -2529,7 +2743,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get explorer statistics (dashboard metrics)
-  app.get("/api/explorer/stats", async (req, res) => {
+  app.get("/api/explorer/stats", validateRequest(apiRoutes.getExplorerStats), async (req, res) => {
     try {
       // 1. Total transactions count (all statuses)
       const [{ count: totalTransactions }] = await db
@@ -2610,7 +2824,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get transaction detail by ANX hash
-  app.get("/api/explorer/tx/:hash", async (req, res) => {
+  app.get("/api/explorer/tx/:hash", validateRequest(apiRoutes.getExplorerTransaction), async (req, res) => {
     try {
       const { hash } = req.params;
 
@@ -2688,7 +2902,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get wallet transaction history by ANV address
-  app.get("/api/explorer/wallet/:anvAddress", async (req, res) => {
+  app.get("/api/explorer/wallet/:anvAddress", validateRequest(apiRoutes.getExplorerWallet), async (req, res) => {
     try {
       const { anvAddress } = req.params;
       const page = parseInt(req.query.page as string) || 1;
@@ -2784,17 +2998,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * POST /api/panv/calculate-rewards
    * Body: { solAddress: string, anvWalletAddress: string }
    */
-  app.post("/api/panv/calculate-rewards", async (req, res) => {
+  app.post("/api/panv/calculate-rewards", validateRequest(apiRoutes.calculatePanvRewards), async (req, res) => {
     try {
       const { solAddress, anvWalletAddress } = req.body;
 
-      if (!solAddress || !anvWalletAddress) {
-        return res.status(400).json({
-          success: false,
-          error: "Missing required fields: solAddress and anvWalletAddress"
-        });
-      }
-
       // TODO: Replace with actual ANV token mint address when provided
       const ANV_TOKEN_MINT = "PLACEHOLDER_ANV_MINT_ADDRESS";
       const MINIMUM_ANV_HOLDING = 1000000; // 1 million ANV
@@ -2973,7 +3180,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
    * Get cached pANV rewards for a SOL address
    * GET /api/panv/rewards/:solAddress
    */
-  app.get("/api/panv/rewards/:solAddress", async (req, res) => {
+  app.get("/api/panv/rewards/:solAddress", validateRequest(apiRoutes.getPanvRewards), async (req, res) => {
     try {
       const { solAddress } = req.params;
 
@@ -3027,6 +3234,1541 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ======================
+  // Limit Orders API
+  // ======================
+
+  /**
+   * Create a resting limit order
+   * POST /api/orders/limit
+   * Body: { tokenAddress, type: 'buy'|'sell', targetPrice, priceCurrency?: 'usd'|'sol', solAmount? (buy), tokenAmount? (sell), expiresInHours? }
+   */
+  app.post("/api/orders/limit", validateRequest(apiRoutes.createLimitOrder), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const { tokenAddress, type, targetPrice, priceCurrency = 'usd', solAmount, tokenAmount, expiresInHours } = req.body;
+
+      const expiresAt = expiresInHours !== undefined && expiresInHours !== null
+        ? new Date(Date.now() + parseFloat(expiresInHours) * 60 * 60 * 1000)
+        : null;
+
+      const result = await createLimitOrder({
+        walletId,
+        type,
+        tokenAddress,
+        priceCurrency,
+        targetPrice: targetPrice.toString(),
+        solAmount: solAmount?.toString(),
+        tokenAmount: tokenAmount?.toString(),
+        expiresAt
+      });
+
+      if (!result.success) {
+        return res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({
+        success: true,
+        order: result.order
+      });
+
+    } catch (error: any) {
+      console.error("Create limit order error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * List limit orders for the session wallet
+   * GET /api/orders/limit?status=open
+   */
+  app.get("/api/orders/limit", validateRequest(apiRoutes.listLimitOrders), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const status = req.query.status as LimitOrder['status'] | undefined;
+      const orders = await getLimitOrders(walletId, status);
+
+      res.json({
+        success: true,
+        orders
+      });
+
+    } catch (error: any) {
+      console.error("List limit orders error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * Cancel an open limit order
+   * POST /api/orders/limit/:orderId/cancel
+   */
+  app.post("/api/orders/limit/:orderId/cancel", validateRequest(apiRoutes.cancelLimitOrder), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const result = await cancelLimitOrder(walletId, req.params.orderId);
+
+      if (!result.success) {
+        return res.status(404).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({ success: true });
+
+    } catch (error: any) {
+      console.error("Cancel limit order error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // ======================
+  // Take-Profit / Stop-Loss API
+  // ======================
+
+  /**
+   * Create a TP/SL rule on a holding
+   * POST /api/tpsl
+   * Body: { mint, kind: 'take_profit'|'stop_loss', triggerType: 'percent'|'price', triggerValue, sellPercent? }
+   */
+  app.post("/api/tpsl", validateRequest(apiRoutes.createTpSlRule), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const { mint, kind, triggerType, triggerValue, sellPercent } = req.body;
+
+      const result = await createTpSlRule({
+        walletId,
+        mint,
+        kind,
+        triggerType,
+        triggerValue: triggerValue.toString(),
+        sellPercent: sellPercent?.toString()
+      });
+
+      if (!result.success) {
+        return res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({
+        success: true,
+        rule: result.rule
+      });
+
+    } catch (error: any) {
+      console.error("Create TP/SL rule error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * List TP/SL rules for the session wallet
+   * GET /api/tpsl?status=active
+   */
+  app.get("/api/tpsl", validateRequest(apiRoutes.listTpSlRules), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const status = req.query.status as TpSlRule['status'] | undefined;
+      const rules = await getTpSlRules(walletId, status);
+
+      res.json({
+        success: true,
+        rules
+      });
+
+    } catch (error: any) {
+      console.error("List TP/SL rules error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * Cancel an active TP/SL rule
+   * POST /api/tpsl/:ruleId/cancel
+   */
+  app.post("/api/tpsl/:ruleId/cancel", validateRequest(apiRoutes.cancelTpSlRule), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const result = await cancelTpSlRule(walletId, req.params.ruleId);
+
+      if (!result.success) {
+        return res.status(404).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({ success: true });
+
+    } catch (error: any) {
+      console.error("Cancel TP/SL rule error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // ======================
+  // DCA API
+  // ======================
+
+  /**
+   * Create a recurring buy schedule
+   * POST /api/dca
+   * Body: { tokenAddress, solAmount, intervalHours, totalIterations? (omit = until cancelled) }
+   */
+  app.post("/api/dca", validateRequest(apiRoutes.createDcaSchedule), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const { tokenAddress, solAmount, intervalHours, totalIterations } = req.body;
+
+      const result = await createDcaSchedule({
+        walletId,
+        tokenAddress,
+        solAmount: solAmount.toString(),
+        intervalHours: Number(intervalHours),
+        totalIterations: totalIterations !== undefined && totalIterations !== null ? Number(totalIterations) : null
+      });
+
+      if (!result.success) {
+        return res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({
+        success: true,
+        schedule: result.schedule
+      });
+
+    } catch (error: any) {
+      console.error("Create DCA schedule error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * List DCA schedules for the session wallet
+   * GET /api/dca
+   */
+  app.get("/api/dca", validateRequest(apiRoutes.listDcaSchedules), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const schedules = await getDcaSchedules(walletId);
+
+      res.json({
+        success: true,
+        schedules
+      });
+
+    } catch (error: any) {
+      console.error("List DCA schedules error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * Pause an active DCA schedule
+   * POST /api/dca/:scheduleId/pause
+   */
+  app.post("/api/dca/:scheduleId/pause", validateRequest(apiRoutes.pauseDcaSchedule), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const result = await setDcaSchedulePaused(walletId, req.params.scheduleId, true);
+
+      if (!result.success) {
+        return res.status(404).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({ success: true });
+
+    } catch (error: any) {
+      console.error("Pause DCA schedule error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * Resume a paused DCA schedule
+   * POST /api/dca/:scheduleId/resume
+   */
+  app.post("/api/dca/:scheduleId/resume", validateRequest(apiRoutes.resumeDcaSchedule), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const result = await setDcaSchedulePaused(walletId, req.params.scheduleId, false);
+
+      if (!result.success) {
+        return res.status(404).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({ success: true });
+
+    } catch (error: any) {
+      console.error("Resume DCA schedule error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * Delete a DCA schedule (placed buys stay in the transaction history)
+   * DELETE /api/dca/:scheduleId
+   */
+  app.delete("/api/dca/:scheduleId", validateRequest(apiRoutes.deleteDcaSchedule), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const result = await deleteDcaSchedule(walletId, req.params.scheduleId);
+
+      if (!result.success) {
+        return res.status(404).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({ success: true });
+
+    } catch (error: any) {
+      console.error("Delete DCA schedule error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // ======================
+  // Alerts API
+  // ======================
+
+  /**
+   * Create a price, position PnL or portfolio value alert
+   * POST /api/alerts
+   * Body: { kind: 'price_above'|'price_below'|'position_pnl'|'portfolio_below', mint? (price/pnl), threshold, cooldownMinutes? }
+   */
+  app.post("/api/alerts", validateRequest(apiRoutes.createAlert), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const { kind, mint, threshold, cooldownMinutes } = req.body;
+
+      const result = await createAlert({
+        walletId,
+        kind,
+        mint: mint || null,
+        threshold: threshold.toString(),
+        cooldownMinutes: cooldownMinutes !== undefined ? parseInt(cooldownMinutes, 10) : undefined
+      });
+
+      if (!result.success) {
+        return res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({
+        success: true,
+        alert: result.alert
+      });
+
+    } catch (error: any) {
+      console.error("Create alert error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * List alerts for the session wallet
+   * GET /api/alerts?status=active
+   */
+  app.get("/api/alerts", validateRequest(apiRoutes.listAlerts), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const status = req.query.status as Alert['status'] | undefined;
+      const list = await getAlerts(walletId, status);
+
+      res.json({
+        success: true,
+        alerts: list
+      });
+
+    } catch (error: any) {
+      console.error("List alerts error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * Delivery log of fired alerts for the session wallet (newest first)
+   * GET /api/alerts/deliveries?limit=50
+   */
+  app.get("/api/alerts/deliveries", validateRequest(apiRoutes.listAlertDeliveries), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const limit = parseInt(req.query.limit as string) || 50;
+      const deliveries = await getAlertDeliveries(walletId, limit);
+
+      res.json({
+        success: true,
+        deliveries
+      });
+
+    } catch (error: any) {
+      console.error("List alert deliveries error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * Cancel an active alert
+   * POST /api/alerts/:alertId/cancel
+   */
+  app.post("/api/alerts/:alertId/cancel", validateRequest(apiRoutes.cancelAlert), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const result = await cancelAlert(walletId, req.params.alertId);
+
+      if (!result.success) {
+        return res.status(404).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({ success: true });
+
+    } catch (error: any) {
+      console.error("Cancel alert error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // ======================
+  // Price History API
+  // ======================
+
+  /**
+   * OHLC candles for a token (public - prices are not wallet data)
+   * GET /api/prices/:mint/candles?interval=1m|5m|1h|1d&from=&to=&limit=
+   */
+  app.get("/api/prices/:mint/candles", validateRequest(apiRoutes.getPriceCandles), async (req, res) => {
+    try {
+      const { mint } = req.params;
+      const interval = (req.query.interval ?? '5m') as CandleInterval;
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      const limit = parseInt(req.query.limit as string) || 200;
+      const candles = fillCandleGaps(await getPriceCandles(mint, interval, { from, to, limit }), interval).slice(-limit);
+
+      res.json({
+        success: true,
+        mint,
+        interval,
+        candles
+      });
+
+    } catch (error: any) {
+      console.error("Price candles error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * Price at a point in time vs now (explorer "price at time of trade")
+   * GET /api/prices/:mint/at?time=<ISO 8601>
+   */
+  app.get("/api/prices/:mint/at", validateRequest(apiRoutes.getPriceAt), async (req, res) => {
+    try {
+      const { mint } = req.params;
+      const time = new Date(req.query.time as string);
+
+      const [then, priceNow] = await Promise.all([
+        getPriceAt(mint, time),
+        getTokenPrice(mint)
+      ]);
+
+      const changePercent = then && priceNow !== null
+        ? ((priceNow - then.priceUsd) / then.priceUsd) * 100
+        : null;
+
+      res.json({
+        success: true,
+        mint,
+        time,
+        priceAt: then ? then.priceUsd : null,
+        resolution: then ? then.interval : null,
+        priceNow,
+        changePercent
+      });
+
+    } catch (error: any) {
+      console.error("Price at time error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // ======================
+  // Token Metadata API
+  // ======================
+
+  /**
+   * Resolved metadata of a token: symbol, name, logo, decimals and Token-2022 / authority flags (public)
+   * GET /api/tokens/:mint/metadata
+   */
+  app.get("/api/tokens/:mint/metadata", validateRequest(apiRoutes.getTokenMetadata), async (req, res) => {
+    try {
+      const { mint } = req.params;
+
+      if (!isValidMintAddress(mint)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid mint address"
+        });
+      }
+
+      let metadata;
+      try {
+        metadata = await resolveTokenMetadata(mint);
+      } catch (error: any) {
+        return res.status(404).json({
+          success: false,
+          error: error.message
+        });
+      }
+
+      res.json({
+        success: true,
+        metadata
+      });
+    } catch (error: any) {
+      console.error("Token metadata error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to fetch token metadata"
+      });
+    }
+  });
+
+  /**
+   * Safety report of a token: risk score with mint/freeze authority, holder, liquidity, age and sell tax checks (public)
+   * GET /api/tokens/:mint/risk
+   */
+  app.get("/api/tokens/:mint/risk", validateRequest(apiRoutes.getTokenRisk), async (req, res) => {
+    try {
+      const { mint } = req.params;
+
+      if (!isValidMintAddress(mint)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid mint address"
+        });
+      }
+
+      const report = await scanTokenRisk(mint);
+
+      res.json({
+        success: true,
+        report
+      });
+    } catch (error: any) {
+      console.error("Token risk scan error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to scan token"
+      });
+    }
+  });
+
+  // ======================
+  // Tax / Cost Basis API
+  // ======================
+
+  /**
+   * Open cost lots (tokens not yet matched to a sell) for the active wallet
+   * GET /api/tax/lots?mint=
+   */
+  app.get("/api/tax/lots", validateRequest(apiRoutes.listCostLots), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const mint = typeof req.query.mint === 'string' && req.query.mint ? req.query.mint : undefined;
+      const lots = await getOpenCostLots(walletId, mint);
+
+      res.json({
+        success: true,
+        lots
+      });
+
+    } catch (error: any) {
+      console.error("List cost lots error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * Disposals (sells matched to lots) for the active wallet
+   * GET /api/tax/disposals?year=
+   */
+  app.get("/api/tax/disposals", validateRequest(apiRoutes.listDisposals), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const year = req.query.year ? parseInt(req.query.year as string, 10) : undefined;
+      const disposals = await getLotDisposals(walletId, year);
+
+      res.json({
+        success: true,
+        disposals
+      });
+
+    } catch (error: any) {
+      console.error("List disposals error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * Realized gains split into short-term and long-term
+   * GET /api/tax/summary?year=
+   */
+  app.get("/api/tax/summary", validateRequest(apiRoutes.getRealizedGains), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const year = req.query.year ? parseInt(req.query.year as string, 10) : undefined;
+      const summary = await getRealizedGains(walletId, year);
+
+      res.json({
+        success: true,
+        summary
+      });
+
+    } catch (error: any) {
+      console.error("Realized gains summary error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * Download disposals as CSV for tax filing
+   * GET /api/tax/export.csv?year=
+   */
+  app.get("/api/tax/export.csv", validateRequest(apiRoutes.exportDisposalsCsv), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const year = req.query.year ? parseInt(req.query.year as string, 10) : undefined;
+      const csv = await exportDisposalsCsv(walletId, year);
+
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="disposals-${year ?? 'all'}.csv"`);
+      res.send(csv);
+
+    } catch (error: any) {
+      console.error("Export disposals error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  /**
+   * Rebuild lots and disposals by replaying the wallet's completed trades
+   * POST /api/tax/rebuild
+   */
+  app.post("/api/tax/rebuild", validateRequest(apiRoutes.rebuildCostLots), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const result = await rebuildCostLots(walletId);
+
+      if (!result.success) {
+        return res.status(500).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({
+        success: true,
+        lots: result.lots,
+        disposals: result.disposals
+      });
+
+    } catch (error: any) {
+      console.error("Rebuild cost lots error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message
+      });
+    }
+  });
+
+  // ======================
+  // SOL Ledger API
+  // ======================
+
+  /**
+   * Audit trail of SOL balance changes for the active wallet (newest first)
+   * GET /api/wallet/ledger?limit=50
+   */
+  app.get("/api/wallet/ledger", validateRequest(apiRoutes.getSolLedger), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+      const entries = await getSolLedger(walletId, limit);
+
+      res.json({
+        success: true,
+        entries
+      });
+    } catch (error: any) {
+      console.error("Get SOL ledger error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to fetch ledger"
+      });
+    }
+  });
+
+  // ======================
+  // Admin Solvency API
+  // ======================
+
+  /**
+   * Latest reconciliation of internal books vs on-chain system wallet holdings
+   * GET /api/admin/solvency
+   */
+  app.get("/api/admin/solvency", requireAdminKey, validateRequest(apiRoutes.getSolvencyReport), async (req, res) => {
+    try {
+      const report = getLatestSolvencyReport() || await runSolvencyReconciliation();
+
+      if (!report) {
+        return res.status(404).json({
+          success: false,
+          error: "No solvency report available yet"
+        });
+      }
+
+      res.json({
+        success: true,
+        report
+      });
+    } catch (error: any) {
+      console.error("Get solvency report error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to fetch solvency report"
+      });
+    }
+  });
+
+  /**
+   * Run the solvency reconciliation now
+   * POST /api/admin/solvency/run
+   */
+  app.post("/api/admin/solvency/run", requireAdminKey, validateRequest(apiRoutes.runSolvencyReconciliation), async (req, res) => {
+    try {
+      const report = await runSolvencyReconciliation();
+
+      if (!report) {
+        return res.status(500).json({
+          success: false,
+          error: "Solvency reconciliation failed"
+        });
+      }
+
+      res.json({
+        success: true,
+        report
+      });
+    } catch (error: any) {
+      console.error("Run solvency reconciliation error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to run solvency reconciliation"
+      });
+    }
+  });
+
+  // ======================
+  // Admin Transfers API
+  // ======================
+
+  /**
+   * Deposits and withdrawals that exhausted their retries
+   * GET /api/admin/transfers/dead-letter
+   */
+  app.get("/api/admin/transfers/dead-letter", requireAdminKey, validateRequest(apiRoutes.listDeadLetterTransfers), async (req, res) => {
+    try {
+      const transfers = await getDeadLetterTransfers();
+
+      res.json({
+        success: true,
+        ...transfers
+      });
+    } catch (error: any) {
+      console.error("Get dead-letter transfers error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to fetch dead-letter transfers"
+      });
+    }
+  });
+
+  /**
+   * Status transition history of a deposit or withdrawal
+   * GET /api/admin/transfers/:kind/:id/history
+   */
+  app.get("/api/admin/transfers/:kind/:id/history", requireAdminKey, validateRequest(apiRoutes.getTransferHistory), async (req, res) => {
+    try {
+      const kind = req.params.kind as TransferKind;
+      const { id } = req.params;
+
+      const history = await getTransferHistory(kind, id);
+
+      res.json({
+        success: true,
+        history
+      });
+    } catch (error: any) {
+      console.error("Get transfer history error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to fetch transfer history"
+      });
+    }
+  });
+
+  /**
+   * Return a dead-lettered transfer to the status it failed in, with a fresh set of retries
+   * POST /api/admin/transfers/:kind/:id/requeue
+   */
+  app.post("/api/admin/transfers/:kind/:id/requeue", requireAdminKey, validateRequest(apiRoutes.requeueTransfer), async (req, res) => {
+    try {
+      const kind = req.params.kind as TransferKind;
+      const { id } = req.params;
+      const { reason } = req.body || {};
+
+      const result = await requeueTransfer(kind, id, typeof reason === 'string' && reason ? reason : undefined);
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error("Requeue transfer error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to requeue transfer"
+      });
+    }
+  });
+
+  // ======================
+  // Admin Token Metadata API
+  // ======================
+
+  /**
+   * Pin symbol/name/logo of a token - refreshes keep them until the override is removed
+   * PUT /api/admin/tokens/:mint/metadata
+   */
+  app.put("/api/admin/tokens/:mint/metadata", requireAdminKey, validateRequest(apiRoutes.setTokenMetadataOverride), async (req, res) => {
+    try {
+      const { mint } = req.params;
+      const { symbol, name, logoUri } = req.body || {};
+
+      if (!isValidMintAddress(mint)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid mint address"
+        });
+      }
+
+      const result = await setTokenMetadataOverride(mint, { symbol, name, logoUri });
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error("Set token metadata override error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to override token metadata"
+      });
+    }
+  });
+
+  /**
+   * Remove a token's override and re-fetch it from the sources
+   * DELETE /api/admin/tokens/:mint/metadata
+   */
+  app.delete("/api/admin/tokens/:mint/metadata", requireAdminKey, validateRequest(apiRoutes.clearTokenMetadataOverride), async (req, res) => {
+    try {
+      const result = await clearTokenMetadataOverride(req.params.mint);
+
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error("Clear token metadata override error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to clear token metadata override"
+      });
+    }
+  });
+
+  /**
+   * Re-fetch a token from its sources now
+   * POST /api/admin/tokens/:mint/refresh
+   */
+  app.post("/api/admin/tokens/:mint/refresh", requireAdminKey, validateRequest(apiRoutes.refreshTokenMetadata), async (req, res) => {
+    try {
+      const { mint } = req.params;
+
+      if (!isValidMintAddress(mint)) {
+        return res.status(400).json({
+          success: false,
+          error: "Invalid mint address"
+        });
+      }
+
+      const metadata = await refreshTokenMetadata(mint);
+
+      res.json({
+        success: true,
+        metadata
+      });
+    } catch (error: any) {
+      console.error("Refresh token metadata error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to refresh token metadata"
+      });
+    }
+  });
+
+  // ======================
+  // Trading Settings API
+  // ======================
+
+  /**
+   * Get trading preferences for the active wallet
+   * GET /api/settings/trading
+   */
+  app.get("/api/settings/trading", validateRequest(apiRoutes.getTradingSettings), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const settings = await getTradingSettings(walletId);
+
+      res.json({
+        success: true,
+        settings
+      });
+    } catch (error: any) {
+      console.error("Get trading settings error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to fetch trading settings"
+      });
+    }
+  });
+
+  /**
+   * Update trading preferences for the active wallet (partial update)
+   * POST /api/settings/trading
+   */
+  app.post("/api/settings/trading", validateRequest(apiRoutes.updateTradingSettings), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const { slippageBps, maxPriceImpactPct, priorityFeeTier, antiMev, costBasisMethod, blockHighRiskBuys } = req.body;
+
+      const result = await updateTradingSettings(walletId, { slippageBps, maxPriceImpactPct, priorityFeeTier, antiMev, costBasisMethod, blockHighRiskBuys });
+
+      if (!result.success) {
+        return res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      // Lots are matched with the saved method - re-match them when it changes
+      if (costBasisMethod !== undefined) {
+        await rebuildCostLots(walletId);
+      }
+
+      res.json({
+        success: true,
+        settings: result.settings
+      });
+    } catch (error: any) {
+      console.error("Update trading settings error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to update trading settings"
+      });
+    }
+  });
+
+  // ======================
+  // API Keys API
+  // ======================
+
+  /**
+   * List the active wallet's developer API keys (revoked keys included)
+   * GET /api/api-keys
+   */
+  app.get("/api/api-keys", validateRequest(apiRoutes.listApiKeys), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const apiKeys = await getApiKeys(walletId);
+
+      res.json({
+        success: true,
+        apiKeys
+      });
+    } catch (error: any) {
+      console.error("Get API keys error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to fetch API keys"
+      });
+    }
+  });
+
+  /**
+   * Issue a developer API key - the key and signing secret are returned only in this response
+   * POST /api/api-keys
+   */
+  app.post("/api/api-keys", validateRequest(apiRoutes.createApiKey), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const { name, scopes, rateLimitPerMinute } = req.body;
+
+      const result = await createApiKey({
+        walletId,
+        name,
+        scopes,
+        rateLimitPerMinute: rateLimitPerMinute !== undefined ? parseInt(rateLimitPerMinute, 10) : undefined
+      });
+
+      if (!result.success) {
+        return res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({
+        success: true,
+        apiKey: result.apiKey,
+        key: result.key,
+        secret: result.secret
+      });
+    } catch (error: any) {
+      console.error("Create API key error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to create API key"
+      });
+    }
+  });
+
+  /**
+   * Revoke a developer API key
+   * DELETE /api/api-keys/:keyId
+   */
+  app.delete("/api/api-keys/:keyId", validateRequest(apiRoutes.revokeApiKey), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const result = await revokeApiKey(walletId, req.params.keyId);
+
+      if (!result.success) {
+        return res.status(404).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Revoke API key error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to revoke API key"
+      });
+    }
+  });
+
+  // ======================
+  // Webhooks API
+  // ======================
+
+  /**
+   * List the active wallet's webhook subscriptions (disabled ones included)
+   * GET /api/webhooks
+   */
+  app.get("/api/webhooks", validateRequest(apiRoutes.listWebhooks), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const webhooks = await getWebhooks(walletId);
+
+      res.json({
+        success: true,
+        webhooks
+      });
+    } catch (error: any) {
+      console.error("Get webhooks error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to fetch webhooks"
+      });
+    }
+  });
+
+  /**
+   * Subscribe a URL to wallet events - the signing secret is returned only in this response
+   * POST /api/webhooks
+   */
+  app.post("/api/webhooks", validateRequest(apiRoutes.createWebhook), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const { url, events } = req.body;
+
+      const result = await createWebhook({ walletId, url, events });
+
+      if (!result.success) {
+        return res.status(400).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({
+        success: true,
+        webhook: result.webhook,
+        secret: result.secret
+      });
+    } catch (error: any) {
+      console.error("Create webhook error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to create webhook"
+      });
+    }
+  });
+
+  /**
+   * Webhook delivery log (newest first), optionally for one webhook
+   * GET /api/webhooks/deliveries
+   */
+  app.get("/api/webhooks/deliveries", validateRequest(apiRoutes.listWebhookDeliveries), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const webhookId = req.query.webhookId as string | undefined;
+      const limit = parseInt(req.query.limit as string) || undefined;
+
+      const deliveries = await getWebhookDeliveries(walletId, { webhookId, limit });
+
+      res.json({
+        success: true,
+        deliveries
+      });
+    } catch (error: any) {
+      console.error("Get webhook deliveries error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to fetch webhook deliveries"
+      });
+    }
+  });
+
+  /**
+   * Send a logged event again as a new delivery
+   * POST /api/webhooks/deliveries/:deliveryId/replay
+   */
+  app.post("/api/webhooks/deliveries/:deliveryId/replay", validateRequest(apiRoutes.replayWebhookDelivery), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const result = await replayWebhookDelivery(walletId, req.params.deliveryId);
+
+      if (!result.success) {
+        return res.status(result.error === "Delivery not found" ? 404 : 400).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({
+        success: true,
+        delivery: result.delivery
+      });
+    } catch (error: any) {
+      console.error("Replay webhook delivery error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to replay webhook delivery"
+      });
+    }
+  });
+
+  /**
+   * Stop sending events to a webhook - its delivery log is kept
+   * DELETE /api/webhooks/:webhookId
+   */
+  app.delete("/api/webhooks/:webhookId", validateRequest(apiRoutes.disableWebhook), async (req, res) => {
+    try {
+      const walletId = req.session?.walletId;
+
+      if (!walletId) {
+        return res.status(401).json({
+          success: false,
+          error: "Not authenticated"
+        });
+      }
+
+      const result = await disableWebhook(walletId, req.params.webhookId);
+
+      if (!result.success) {
+        return res.status(404).json({
+          success: false,
+          error: result.error
+        });
+      }
+
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Disable webhook error:", error);
+      res.status(500).json({
+        success: false,
+        error: error.message || "Failed to disable webhook"
+      });
+    }
+  });
+
+  // ======================
+  // OpenAPI
+  // ======================
+
+  const openApiDocument = buildOpenApiDocument();
+
+  /**
+   * OpenAPI 3 document of all routes, generated from server/api-contract.ts (public)
+   * GET /api/openapi.json
+   */
+  app.get("/api/openapi.json", validateRequest(apiRoutes.getOpenApiDocument), (req, res) => {
+    res.json(openApiDocument);
+  });
+
   const httpServer = createServer(app);
 
   return httpServer;
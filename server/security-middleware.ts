@@ -2,6 +2,7 @@ import rateLimit from 'express-rate-limit';
 import cors from 'cors';
 import helmet from 'helmet';
 import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
 
 export const rateLimiter = rateLimit({
   windowMs: 15 * 60 * 1000, // 15 minutes
@@ -85,3 +86,19 @@ export function validateContentType(req: Request, res: Response, next: NextFunct
   }
   next();
 }
+
+// Admin-only routes: require the X-Admin-Key header to match ADMIN_API_KEY (disabled when unset)
+export function requireAdminKey(req: Request, res: Response, next: NextFunction) {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey) {
+    return res.status(503).json({ success: false, error: 'Admin API is not configured' });
+  }
+
+  const provided = Buffer.from(String(req.headers['x-admin-key'] || ''));
+  const expected = Buffer.from(adminKey);
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return res.status(403).json({ success: false, error: 'Forbidden' });
+  }
+
+  next();
+}
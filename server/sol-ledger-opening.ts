@@ -0,0 +1,51 @@
+/**
+ * Opening balances for wallets that predate the SOL ledger
+ *
+ * The ledger started with its first movement: wallets created before it are pre-ledger, everything
+ * after was ledgered from the start. A pre-ledger wallet can post its first movement before the
+ * reconciliation pass opens its ledger, so the opening amount is whatever the wallet legs do not
+ * explain yet: stored balance - SUM(wallet legs). Post-ledger wallets are never opened - any
+ * mismatch on them is drift and stays in the reconciliation report.
+ * Amounts are decimal strings with 9 decimals (lamports).
+ */
+
+const SCALE = 9;
+
+function toUnits(amount: string): bigint {
+  const negative = amount.trim().startsWith('-');
+  const [whole, fraction = ''] = amount.trim().replace(/^[-+]/, '').split('.');
+  const units = BigInt(whole || '0') * BigInt(10 ** SCALE) + BigInt(fraction.padEnd(SCALE, '0').slice(0, SCALE) || '0');
+  return negative ? -units : units;
+}
+
+function fromUnits(units: bigint): string {
+  const negative = units < BigInt(0);
+  const digits = (negative ? -units : units).toString().padStart(SCALE + 1, '0');
+  return `${negative ? '-' : ''}${digits.slice(0, -SCALE)}.${digits.slice(-SCALE)}`;
+}
+
+/**
+ * Opening amount for a wallet without an opening_balance journal
+ * @param wallet.createdAt - wallets.createdAt
+ * @param wallet.storedBalance - balances.solBalance
+ * @param wallet.walletLegsTotal - SUM of the wallet's existing 'wallet' legs ("0" if none)
+ * @param ledgerStartedAt - Time of the first non-opening ledger entry (null = nothing posted yet)
+ * @returns Signed amount for the wallet leg (zero still opens the wallet, so it is checked once),
+ *          or null for wallets created after the ledger started
+ */
+export function getOpeningBalance(
+  wallet: { createdAt: Date; storedBalance: string; walletLegsTotal: string },
+  ledgerStartedAt: Date | null
+): string | null {
+  if (ledgerStartedAt && wallet.createdAt.getTime() >= ledgerStartedAt.getTime()) {
+    return null;
+  }
+  return fromUnits(toUnits(wallet.storedBalance) - toUnits(wallet.walletLegsTotal));
+}
+
+/**
+ * Counter leg for a signed amount (the two legs of a journal sum to zero)
+ */
+export function negateAmount(amount: string): string {
+  return fromUnits(-toUnits(amount));
+}
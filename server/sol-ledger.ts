@@ -0,0 +1,255 @@
+import { db } from "./db";
+import { balances, solLedgerEntries, wallets, type Balance, type SolLedgerEntry } from "@shared/schema";
+import { eq, and, sql, desc } from "drizzle-orm";
+import crypto from "crypto";
+import { getOpeningBalance, negateAmount } from "./sol-ledger-opening";
+
+/**
+ * Double-entry SOL ledger
+ *
+ * Every change to balances.solBalance MUST go through postSolMovement, which in ONE statement pair:
+ * 1. Applies the change to balances.solBalance (debits guarded by sol_balance >= amount)
+ * 2. Appends a journal of two legs that sum to zero:
+ *    - 'wallet' leg: the user's balance (+credit / -debit)
+ *    - counter leg: the system account the SOL came from / went to (deposits, withdrawals, swaps, adjustments)
+ *
+ * Pass the surrounding db.transaction handle so the ledger and the balance commit or roll back together.
+ * balances.solBalance is then a projection of SUM(wallet legs); reconcileSolLedger() flags any drift.
+ */
+
+export type LedgerReason = SolLedgerEntry['reason'];
+type CounterAccount = Exclude<SolLedgerEntry['account'], 'wallet'>;
+
+// Direction (from the user's point of view) and counter-account for each reason
+const REASONS: Record<LedgerReason, { direction: 'credit' | 'debit'; counterAccount: CounterAccount }> = {
+  deposit: { direction: 'credit', counterAccount: 'deposits' },
+  withdrawal: { direction: 'debit', counterAccount: 'withdrawals' },
+  withdrawal_refund: { direction: 'credit', counterAccount: 'withdrawals' },
+  swap_buy: { direction: 'debit', counterAccount: 'swaps' },
+  swap_buy_refund: { direction: 'credit', counterAccount: 'swaps' },
+  swap_sell: { direction: 'credit', counterAccount: 'swaps' },
+  opening_balance: { direction: 'credit', counterAccount: 'adjustments' },
+};
+
+// db itself or a db.transaction handle
+type DbExecutor = Pick<typeof db, 'insert' | 'update'>;
+
+/**
+ * Apply a SOL balance change and record it in the ledger
+ * @param amount - Positive SOL amount (direction comes from reason)
+ * @returns Updated balance row, or null if the wallet has no balance row or (for debits) insufficient balance.
+ *          Nothing is written in that case - callers decide whether to throw.
+ */
+export async function postSolMovement(executor: DbExecutor, params: {
+  walletId: string;
+  amount: number | string;
+  reason: LedgerReason;
+  transactionId?: string | null;
+  depositId?: string | null;
+  withdrawalId?: string | null;
+  swapJobId?: string | null;
+  memo?: string | null;
+}): Promise<Balance | null> {
+  const { walletId, reason } = params;
+  const amount = typeof params.amount === 'number' ? params.amount.toFixed(9) : params.amount;
+  const { direction, counterAccount } = REASONS[reason];
+
+  if (!(parseFloat(amount) > 0)) {
+    throw new Error(`Invalid ledger amount for ${reason}: ${amount}`);
+  }
+
+  const [updated] = direction === 'credit'
+    ? await executor.update(balances)
+      .set({
+        solBalance: sql`${balances.solBalance} + ${amount}::decimal`,
+        updatedAt: new Date()
+      })
+      .where(eq(balances.walletId, walletId))
+      .returning()
+    : await executor.update(balances)
+      .set({
+        solBalance: sql`${balances.solBalance} - ${amount}::decimal`,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(balances.walletId, walletId),
+        sql`${balances.solBalance} >= ${amount}::decimal` // Guard: never go negative
+      ))
+      .returning();
+
+  if (!updated) {
+    return null;
+  }
+
+  const journalId = crypto.randomUUID();
+  const links = {
+    journalId,
+    walletId,
+    reason,
+    transactionId: params.transactionId || null,
+    depositId: params.depositId || null,
+    withdrawalId: params.withdrawalId || null,
+    swapJobId: params.swapJobId || null,
+    memo: params.memo || null,
+  };
+
+  await executor.insert(solLedgerEntries).values([
+    { ...links, account: 'wallet', amount: direction === 'credit' ? amount : `-${amount}` },
+    { ...links, account: counterAccount, amount: direction === 'credit' ? `-${amount}` : amount },
+  ]);
+
+  return updated;
+}
+
+/**
+ * Ledger history for a wallet (wallet legs only, newest first)
+ */
+export async function getSolLedger(walletId: string, limit = 50): Promise<SolLedgerEntry[]> {
+  return await db.select()
+    .from(solLedgerEntries)
+    .where(and(
+      eq(solLedgerEntries.walletId, walletId),
+      eq(solLedgerEntries.account, 'wallet')
+    ))
+    .orderBy(desc(solLedgerEntries.createdAt))
+    .limit(limit);
+}
+
+export interface LedgerDrift {
+  walletId: string;
+  storedBalance: string;
+  ledgerBalance: string;
+  drift: string; // stored - ledger
+}
+
+/**
+ * Give balances that predate the ledger an opening_balance journal (once per wallet)
+ * Only wallets created before the ledger's first movement are opened, at stored balance - SUM(wallet legs),
+ * so a pre-ledger wallet whose first movement posted before this pass still gets opened (see sol-ledger-opening.ts).
+ * Balance rows are locked first: a concurrent movement either committed before (and is in the sum)
+ * or waits until the journal is written.
+ */
+async function openLegacyBalances(): Promise<number> {
+  return await db.transaction(async (tx) => {
+    const started = await tx.execute(sql`
+      SELECT MIN(created_at) AS "startedAt"
+      FROM ${solLedgerEntries}
+      WHERE reason <> 'opening_balance'
+    `);
+    const startedAt = (started.rows[0] as { startedAt: Date | string | null } | undefined)?.startedAt;
+    const ledgerStartedAt = startedAt ? new Date(startedAt) : null;
+
+    const candidates = await tx.execute(sql`
+      SELECT b.wallet_id AS "walletId"
+      FROM ${balances} b
+      JOIN ${wallets} w ON w.id = b.wallet_id
+      WHERE NOT EXISTS (
+        SELECT 1 FROM ${solLedgerEntries} l
+        WHERE l.wallet_id = b.wallet_id AND l.reason = 'opening_balance'
+      )
+        AND (${ledgerStartedAt === null} OR w.created_at < (
+          SELECT MIN(created_at) FROM ${solLedgerEntries} WHERE reason <> 'opening_balance'
+        ))
+      FOR UPDATE OF b
+    `);
+    const walletIds = (candidates.rows as { walletId: string }[]).map(row => row.walletId);
+    if (walletIds.length === 0) {
+      return 0;
+    }
+
+    // Read after the locks are held so the sums include every committed movement
+    const totals = await tx.execute(sql`
+      SELECT
+        b.wallet_id AS "walletId",
+        w.created_at AS "createdAt",
+        b.sol_balance::text AS "storedBalance",
+        COALESCE(SUM(l.amount) FILTER (WHERE l.account = 'wallet'), 0)::text AS "walletLegsTotal"
+      FROM ${balances} b
+      JOIN ${wallets} w ON w.id = b.wallet_id
+      LEFT JOIN ${solLedgerEntries} l ON l.wallet_id = b.wallet_id
+      WHERE b.wallet_id IN (${sql.join(walletIds.map(id => sql`${id}`), sql`, `)})
+      GROUP BY b.wallet_id, w.created_at, b.sol_balance
+    `);
+
+    const journals = (totals.rows as { walletId: string; createdAt: Date | string; storedBalance: string; walletLegsTotal: string }[])
+      .map(row => ({
+        walletId: row.walletId,
+        amount: getOpeningBalance({ ...row, createdAt: new Date(row.createdAt) }, ledgerStartedAt),
+      }))
+      .filter((journal): journal is { walletId: string; amount: string } => journal.amount !== null);
+    if (journals.length === 0) {
+      return 0;
+    }
+
+    await tx.insert(solLedgerEntries).values(journals.flatMap(({ walletId, amount }) => {
+      const links = {
+        journalId: crypto.randomUUID(),
+        walletId,
+        reason: 'opening_balance' as const,
+        memo: 'Balance before ledger introduction',
+      };
+      return [
+        { ...links, account: 'wallet' as const, amount },
+        { ...links, account: 'adjustments' as const, amount: negateAmount(amount) },
+      ];
+    }));
+
+    return journals.length;
+  });
+}
+
+/**
+ * Compare every stored balance against its ledger sum (called from background polling)
+ * - Opens ledgers for pre-ledger balances first
+ * - Flags wallets whose balances.solBalance != SUM(wallet legs)
+ * - Flags journals whose legs do not sum to zero
+ * Read-only apart from opening balances: drift is reported, never auto-corrected
+ */
+export async function reconcileSolLedger(): Promise<{ drifted: LedgerDrift[]; unbalancedJournals: string[] }> {
+  try {
+    const opened = await openLegacyBalances();
+    if (opened > 0) {
+      console.log(`📒 Opened SOL ledger for ${opened} pre-ledger wallet(s)`);
+    }
+
+    // Balance and ledger are written in the same transaction, so one statement sees a consistent pair
+    const driftRows = await db.execute(sql`
+      SELECT
+        b.wallet_id AS "walletId",
+        b.sol_balance::text AS "storedBalance",
+        COALESCE(l.total, 0)::text AS "ledgerBalance",
+        (b.sol_balance - COALESCE(l.total, 0))::text AS "drift"
+      FROM ${balances} b
+      LEFT JOIN (
+        SELECT wallet_id, SUM(amount) AS total
+        FROM ${solLedgerEntries}
+        WHERE account = 'wallet'
+        GROUP BY wallet_id
+      ) l ON l.wallet_id = b.wallet_id
+      WHERE b.sol_balance <> COALESCE(l.total, 0)
+    `);
+
+    const journalRows = await db.execute(sql`
+      SELECT journal_id AS "journalId"
+      FROM ${solLedgerEntries}
+      GROUP BY journal_id
+      HAVING SUM(amount) <> 0
+      LIMIT 100
+    `);
+
+    const drifted = driftRows.rows as unknown as LedgerDrift[];
+    const unbalancedJournals = (journalRows.rows as { journalId: string }[]).map(row => row.journalId);
+
+    for (const row of drifted) {
+      console.error(`🚨 SOL ledger drift: wallet ${row.walletId} stored ${row.storedBalance} vs ledger ${row.ledgerBalance} (drift ${row.drift})`);
+    }
+    if (unbalancedJournals.length > 0) {
+      console.error(`🚨 ${unbalancedJournals.length} unbalanced SOL ledger journal(s): ${unbalancedJournals.join(', ')}`);
+    }
+
+    return { drifted, unbalancedJournals };
+  } catch (error: any) {
+    console.error("SOL ledger reconciliation error:", error);
+    return { drifted: [], unbalancedJournals: [] };
+  }
+}
@@ -0,0 +1,111 @@
+import { db } from "./db";
+import { balances, tokenHoldings, systemWallets } from "@shared/schema";
+import { eq, sql } from "drizzle-orm";
+import { chainBalanceReader } from "./jupiter";
+import { bot } from "./telegram-bot";
+import { buildSolvencyReport, fetchOnChainHoldings, type SolvencyLiability, type SolvencyReport } from "./solvency";
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+// Telegram chat that receives under-collateralization alerts (optional)
+const ADMIN_TELEGRAM_CHAT_ID = process.env.ADMIN_TELEGRAM_CHAT_ID;
+
+// Latest report kept in memory for the admin route (rebuilt by background polling)
+let latestReport: SolvencyReport | null = null;
+let isRunning = false;
+
+export function getLatestSolvencyReport(): SolvencyReport | null {
+  return latestReport;
+}
+
+/**
+ * Sum what users are owed per mint: SOL balances + token holdings
+ */
+async function getLiabilities(): Promise<SolvencyLiability[]> {
+  const [solTotal] = await db.select({
+    total: sql<string>`COALESCE(SUM(${balances.solBalance}), 0)::text`
+  }).from(balances);
+
+  const tokenTotals = await db.select({
+    mint: tokenHoldings.mint,
+    symbol: sql<string>`MAX(${tokenHoldings.symbol})`,
+    total: sql<string>`SUM(${tokenHoldings.amount})::text`
+  })
+    .from(tokenHoldings)
+    .groupBy(tokenHoldings.mint)
+    .having(sql`SUM(${tokenHoldings.amount}) > 0`);
+
+  return [
+    { mint: SOL_MINT, symbol: 'SOL', amount: parseFloat(solTotal?.total || '0') },
+    ...tokenTotals.map(row => ({ mint: row.mint, symbol: row.symbol, amount: parseFloat(row.total) })),
+  ];
+}
+
+/**
+ * Reconcile internal books against the Solana system wallets (called from background polling)
+ * Alerts once when the pool becomes under-collateralized, and again only after it recovers
+ */
+export async function runSolvencyReconciliation(): Promise<SolvencyReport | null> {
+  if (isRunning) return latestReport;
+  isRunning = true;
+
+  try {
+    const wallets = await db.select({ address: systemWallets.address })
+      .from(systemWallets)
+      .where(eq(systemWallets.blockchain, 'solana'));
+
+    if (wallets.length === 0) {
+      console.warn('⚠️  Solvency reconciliation skipped: no Solana system wallets configured');
+      return latestReport;
+    }
+
+    const addresses = wallets.map(wallet => wallet.address);
+    const [liabilities, onChain] = await Promise.all([
+      getLiabilities(),
+      fetchOnChainHoldings(chainBalanceReader, addresses),
+    ]);
+
+    const previous = latestReport;
+    const report = buildSolvencyReport({ liabilities, onChain, systemWallets: addresses });
+    latestReport = report;
+
+    if (report.underCollateralized && !previous?.underCollateralized) {
+      await alertUnderCollateralized(report);
+    } else if (!report.underCollateralized && previous?.underCollateralized) {
+      console.log('✅ Solvency restored: system wallets cover all user balances');
+    }
+
+    return report;
+  } catch (error: any) {
+    console.error("Solvency reconciliation error:", error);
+    return latestReport;
+  } finally {
+    isRunning = false;
+  }
+}
+
+async function alertUnderCollateralized(report: SolvencyReport) {
+  const deficits = report.entries.filter(entry => entry.status === 'deficit');
+
+  for (const entry of deficits) {
+    console.error(`🚨 Under-collateralized ${entry.symbol} (${entry.mint}): owed ${entry.liabilities} vs on-chain ${entry.onChain} (deficit ${Math.abs(entry.difference)})`);
+  }
+
+  if (!bot || !ADMIN_TELEGRAM_CHAT_ID) return;
+
+  const lines = deficits.slice(0, 10).map(entry =>
+    `• *${entry.symbol}*: owed ${entry.liabilities.toFixed(6)}, held ${entry.onChain.toFixed(6)}`
+  );
+
+  try {
+    await bot.api.sendMessage(
+      ADMIN_TELEGRAM_CHAT_ID,
+      `🚨 *POOL UNDER-COLLATERALIZED*\n\n` +
+      `${report.deficitCount} mint(s) in deficit:\n` +
+      lines.join('\n'),
+      { parse_mode: "Markdown" }
+    );
+  } catch (error) {
+    console.error("Failed to send solvency alert:", error);
+  }
+}
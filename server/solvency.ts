@@ -0,0 +1,146 @@
+import { Connection, PublicKey, LAMPORTS_PER_SOL } from "@solana/web3.js";
+
+/**
+ * Solvency reconciliation: internal books vs on-chain system wallet holdings
+ *
+ * Users' SOL and tokens are pooled in the Solana system wallets, so for every mint:
+ *   liabilities = SUM(balances.solBalance) for SOL, SUM(tokenHoldings.amount) for tokens
+ *   onChain     = native SOL + wrapped SOL / SPL + Token-2022 balances of the system wallets
+ * difference = onChain - liabilities (negative = deficit = users are owed more than the pool holds)
+ *
+ * On-chain access goes through ChainBalanceReader so the report can be built offline
+ * (see __tests__/unit/solvency.test.ts)
+ */
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+const TOKEN_2022_PROGRAM_ID = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+
+// Differences within this fraction of liabilities are reported as balanced (price-rounding dust, tx fees)
+export const DEFAULT_TOLERANCE_RATIO = 0.001; // 0.1%
+const MIN_ABSOLUTE_TOLERANCE = 1e-6;
+
+/**
+ * Minimal on-chain surface needed to value the system wallets
+ */
+export interface ChainBalanceReader {
+  /** Native SOL balance (in SOL, not lamports) */
+  getSolBalance(address: string): Promise<number>;
+  /** All SPL / Token-2022 balances owned by address (UI amounts; mints may repeat across accounts) */
+  getTokenBalances(address: string): Promise<Array<{ mint: string; amount: number }>>;
+}
+
+export interface SolvencyLiability {
+  mint: string;
+  symbol: string;
+  amount: number;
+}
+
+export interface SolvencyEntry {
+  mint: string;
+  symbol: string;
+  liabilities: number;
+  onChain: number;
+  difference: number; // onChain - liabilities
+  status: 'surplus' | 'deficit' | 'balanced';
+}
+
+export interface SolvencyReport {
+  generatedAt: string;
+  systemWallets: string[];
+  entries: SolvencyEntry[]; // Deficits first, then surpluses, then balanced
+  deficitCount: number;
+  underCollateralized: boolean;
+}
+
+/**
+ * Web3.js-backed implementation
+ */
+export function createConnectionBalanceReader(connection: Connection): ChainBalanceReader {
+  return {
+    async getSolBalance(address) {
+      const lamports = await connection.getBalance(new PublicKey(address), 'confirmed');
+      return lamports / LAMPORTS_PER_SOL;
+    },
+
+    async getTokenBalances(address) {
+      const owner = new PublicKey(address);
+      const results = await Promise.all([TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].map(programId =>
+        connection.getParsedTokenAccountsByOwner(owner, { programId }, 'confirmed')
+      ));
+
+      return results.flatMap(({ value }) => value.map(({ account }) => {
+        const info = account.data.parsed.info;
+        return { mint: info.mint as string, amount: parseFloat(info.tokenAmount.uiAmountString || '0') };
+      }));
+    },
+  };
+}
+
+/**
+ * Sum holdings across all system wallets (wrapped SOL is merged into SOL)
+ */
+export async function fetchOnChainHoldings(reader: ChainBalanceReader, addresses: string[]): Promise<Map<string, number>> {
+  const holdings = new Map<string, number>();
+  const add = (mint: string, amount: number) => holdings.set(mint, (holdings.get(mint) || 0) + amount);
+
+  for (const address of addresses) {
+    add(SOL_MINT, await reader.getSolBalance(address));
+
+    for (const { mint, amount } of await reader.getTokenBalances(address)) {
+      add(mint, amount);
+    }
+  }
+
+  return holdings;
+}
+
+/**
+ * Compare liabilities with on-chain holdings per mint
+ * Mints held on-chain without liabilities are reported as surplus
+ */
+export function buildSolvencyReport(params: {
+  liabilities: SolvencyLiability[];
+  onChain: Map<string, number>;
+  systemWallets: string[];
+  toleranceRatio?: number;
+  now?: Date;
+}): SolvencyReport {
+  const { liabilities, onChain, systemWallets } = params;
+  const toleranceRatio = params.toleranceRatio ?? DEFAULT_TOLERANCE_RATIO;
+
+  const entries: SolvencyEntry[] = [];
+  const seen = new Set<string>();
+
+  const addEntry = (mint: string, symbol: string, owed: number) => {
+    const held = onChain.get(mint) || 0;
+    const difference = held - owed;
+    const tolerance = Math.max(owed * toleranceRatio, MIN_ABSOLUTE_TOLERANCE);
+    const status = Math.abs(difference) <= tolerance ? 'balanced' : difference < 0 ? 'deficit' : 'surplus';
+    entries.push({ mint, symbol, liabilities: owed, onChain: held, difference, status });
+    seen.add(mint);
+  };
+
+  for (const { mint, symbol, amount } of liabilities) {
+    addEntry(mint, symbol, amount);
+  }
+
+  onChain.forEach((amount, mint) => {
+    if (!seen.has(mint) && amount > 0) {
+      addEntry(mint, 'UNKNOWN', 0);
+    }
+  });
+
+  const order = { deficit: 0, surplus: 1, balanced: 2 };
+  entries.sort((a, b) => order[a.status] - order[b.status] || a.difference - b.difference);
+
+  const deficitCount = entries.filter(entry => entry.status === 'deficit').length;
+
+  return {
+    generatedAt: (params.now ?? new Date()).toISOString(),
+    systemWallets,
+    entries,
+    deficitCount,
+    underCollateralized: deficitCount > 0,
+  };
+}
@@ -125,11 +125,9 @@ export class DatabaseStorage implements IStorage {
 
   /**
    * @deprecated SECURITY WARNING: Direct balance manipulation without audit trail!
-   * NEVER use this function. All balance changes MUST go through atomic transactions
-   * with corresponding transaction records. See routes.ts for correct patterns:
-   * - Deposit credit: polling.ts line 300-306
-   * - Withdraw deduct: routes.ts line 1148-1161
-   * - Swap BUY/SELL: routes.ts line 1731-1759
+   * NEVER use this function. All balance changes MUST go through postSolMovement (sol-ledger.ts)
+   * inside the same db.transaction as their transaction/deposit/withdrawal/swap job records,
+   * so every change has a double-entry ledger journal.
    * 
    * This function exists ONLY for backward compatibility and will throw error if called.
    */
@@ -1,9 +1,13 @@
 import { db } from "./db";
 import { balances, tokenHoldings, transactions, wallets } from "@shared/schema";
-import { eq, and, sql } from "drizzle-orm";
+import { eq, and, sql, inArray } from "drizzle-orm";
 import { storage } from "./storage";
-import { getJupiterQuote, executeJupiterSwap, SOL_MINT, toLamports, getTokenDecimals } from "./jupiter";
+import { getJupiterQuote, executeJupiterSwap, SOL_MINT, toLamports } from "./jupiter";
+import { resolveTokenMetadata } from "./token-resolver";
 import { getSolanaPrice } from "./coingecko";
+import { getTradingSettings } from "./trading-settings";
+import { getQuoteOptions, checkPriceImpact } from "./quote-options";
+import { postSolMovement } from "./sol-ledger";
 import crypto from "crypto";
 
 // Generate 88 cryptographically secure random alphanumeric characters (no prefix)
@@ -65,7 +69,7 @@ export async function getSwapQuote(params: {
     
     // NO preliminary balance checks - executeSwap's pessimistic guards handle this
     let inputMint: string, outputMint: string, swapAmount: string;
-    const tokenDecimals = await getTokenDecimals(tokenAddress);
+    const tokenDecimals = (await resolveTokenMetadata(tokenAddress)).decimals;
     
     if (type === 'buy') {
       inputMint = SOL_MINT;
@@ -77,15 +81,22 @@ export async function getSwapQuote(params: {
       swapAmount = Math.floor(parseFloat(amount) * Math.pow(10, tokenDecimals)).toString();
     }
     
+    // Per-wallet slippage / anti-MEV / priority fee preferences
+    const settings = await getTradingSettings(walletId);
+    
     const jupiterQuote = await getJupiterQuote({
       inputMint,
       outputMint,
       amount: swapAmount,
-      slippageBps: 200, // 2% slippage for anti-frontrunning protection
       taker: solanaPool.address,
-      onlyDirectRoutes: true // MEV protection: use direct routes only
+      ...getQuoteOptions(settings)
     });
     
+    const priceImpactError = checkPriceImpact(jupiterQuote.priceImpactPct, settings);
+    if (priceImpactError) {
+      return { success: false, error: priceImpactError };
+    }
+    
     const outputDecimals = type === 'buy' ? tokenDecimals : 9;
     const outputAmount = parseFloat(jupiterQuote.outAmount) / Math.pow(10, outputDecimals);
     const priceImpact = parseFloat(jupiterQuote.priceImpactPct);
@@ -101,7 +112,8 @@ export async function getSwapQuote(params: {
         inAmount: jupiterQuote.inAmount,
         outAmount: jupiterQuote.outAmount,
         inputMint: jupiterQuote.inputMint,
-        outputMint: jupiterQuote.outputMint
+        outputMint: jupiterQuote.outputMint,
+        slippageBps: jupiterQuote.slippageBps
       }
     };
   } catch (error: any) {
@@ -164,7 +176,10 @@ export async function executeSwap(params: {
     }
     
     const privateKeyBase58 = solanaPool.privateKey;
-    const tokenDecimals = await getTokenDecimals(tokenAddress);
+    const tokenDecimals = (await resolveTokenMetadata(tokenAddress)).decimals;
+    
+    // Priced before anything is reserved or sent - settlement cannot fail on a missing SOL price
+    const solPrice = await getSolanaPrice();
     
     // SECURITY: Use quote.inAmount (NOT caller's amount) for validation
     const actualInputAmount = type === 'buy'
@@ -179,7 +194,7 @@ export async function executeSwap(params: {
     const customTxHash = generateAnxTxHash(type);
     let jupiterQuote: any;
     let realTxHash: string;
-    let reservationPayload: { reserved: boolean, snapshot?: any } | null = null;
+    let reservationPayload: { reserved: boolean, snapshot?: any, transactionId?: string } | null = null;
     
     // Phase 1: PESSIMISTICALLY RESERVE balances before on-chain swap
     // CRITICAL: NO preliminary SELECT! Conditional UPDATE/DELETE FIRST to prevent races
@@ -187,28 +202,12 @@ export async function executeSwap(params: {
     try {
       reservationPayload = await db.transaction(async (tx) => {
       let snapshot: any = null;
+      let transactionId: string;
       
       if (type === 'buy') {
-        // ATOMIC: Conditional UPDATE without preliminary SELECT
-        const result = await tx.update(balances)
-          .set({ solBalance: sql`${balances.solBalance} - ${actualInputAmount}` })
-          .where(and(
-            eq(balances.walletId, walletId),
-            sql`${balances.solBalance} >= ${actualInputAmount}` // Guard clause
-          ))
-          .returning();
-        
-        // Check rowcount: 0 = insufficient/missing, 1 = success
-        if (result.length === 0) {
-          // NOW we can SELECT to get current balance for error message
-          const current = await tx.select().from(balances).where(eq(balances.walletId, walletId));
-          const currentSol = current[0] ? parseFloat(current[0].solBalance) : 0;
-          throw new Error(`Insufficient SOL: have ${currentSol.toFixed(4)}, need ${actualInputAmount.toFixed(4)}`);
-        }
-        
-        // CRITICAL: Create PENDING transaction record to satisfy audit trigger
+        // CRITICAL: Create PENDING transaction record FIRST to satisfy audit trigger
         // This prevents "SECURITY VIOLATION: Balance change has NO corresponding transaction record"
-        await tx.insert(transactions).values({
+        const [pendingTx] = await tx.insert(transactions).values({
           walletId,
           txhash: customTxHash, // Use ANX hash (will be updated with real hash in Phase 3)
           tokenAddress: tokenAddress,
@@ -219,8 +218,25 @@ export async function executeSwap(params: {
           priceUsd: null,
           costBasisAtSale: null,
           realizedPnl: null
+        }).returning({ id: transactions.id });
+        transactionId = pendingTx.id;
+        
+        // ATOMIC: Guarded debit + ledger entry without preliminary SELECT
+        const result = await postSolMovement(tx, {
+          walletId,
+          amount: actualInputAmount,
+          reason: 'swap_buy',
+          transactionId
         });
         
+        // null = insufficient/missing (whole transaction rolls back, including the pending tx)
+        if (!result) {
+          // NOW we can SELECT to get current balance for error message
+          const current = await tx.select().from(balances).where(eq(balances.walletId, walletId));
+          const currentSol = current[0] ? parseFloat(current[0].solBalance) : 0;
+          throw new Error(`Insufficient SOL: have ${currentSol.toFixed(4)}, need ${actualInputAmount.toFixed(4)}`);
+        }
+        
         console.log(`🔒 Reserved ${actualInputAmount.toFixed(4)} SOL for swap (atomic + pending tx)`);
       } else {
         // ATOMIC: Try conditional UPDATE/DELETE WITHOUT preliminary SELECT
@@ -303,7 +319,7 @@ export async function executeSwap(params: {
         }
         
         // CRITICAL: Create PENDING transaction record to satisfy audit trigger (SELL path)
-        await tx.insert(transactions).values({
+        const [pendingTx] = await tx.insert(transactions).values({
           walletId,
           txhash: customTxHash, // Use ANX hash (will be updated with real hash in Phase 3)
           tokenAddress: tokenAddress,
@@ -314,12 +330,13 @@ export async function executeSwap(params: {
           priceUsd: null,
           costBasisAtSale: null,
           realizedPnl: null
-        });
+        }).returning({ id: transactions.id });
+        transactionId = pendingTx.id;
         
         console.log(`🔒 Reserved ${actualInputAmount.toFixed(4)} tokens for swap (atomic + pending tx)`);
       }
       
-      return { reserved: true, snapshot };
+      return { reserved: true, snapshot, transactionId };
       });
     } catch (reservationError: any) {
       // Reservation failed (insufficient balance) - return error immediately
@@ -345,9 +362,12 @@ export async function executeSwap(params: {
       if (reservationPayload?.reserved) {
         await db.transaction(async (tx) => {
           if (type === 'buy') {
-            await tx.update(balances)
-              .set({ solBalance: sql`${balances.solBalance} + ${actualInputAmount}` })
-              .where(eq(balances.walletId, walletId));
+            await postSolMovement(tx, {
+              walletId,
+              amount: actualInputAmount,
+              reason: 'swap_buy_refund',
+              transactionId: reservationPayload?.transactionId
+            });
             
             // Mark PENDING transaction as FAILED
             await tx.update(transactions)
@@ -425,9 +445,12 @@ export async function executeSwap(params: {
       if (reservationPayload?.reserved) {
         await db.transaction(async (tx) => {
           if (type === 'buy') {
-            await tx.update(balances)
-              .set({ solBalance: sql`${balances.solBalance} + ${actualInputAmount}` })
-              .where(eq(balances.walletId, walletId));
+            await postSolMovement(tx, {
+              walletId,
+              amount: actualInputAmount,
+              reason: 'swap_buy_refund',
+              transactionId: reservationPayload?.transactionId
+            });
             
             // Mark PENDING transaction as FAILED
             await tx.update(transactions)
@@ -501,7 +524,6 @@ export async function executeSwap(params: {
       if (type === 'buy') {
         // NOTE: SOL already deducted in Phase 1, only add received tokens here
         const solSpent = parseFloat(jupiterQuote.inAmount) / Math.pow(10, 9);
-        const solPrice = await getSolanaPrice();
         const costUsd = solSpent * solPrice;
         
         // SECURITY: Use REAL on-chain output amount from Jupiter transaction
@@ -545,16 +567,21 @@ export async function executeSwap(params: {
         // SECURITY: Use REAL on-chain output SOL from Jupiter transaction
         const actualSolReceived = parseFloat(jupiterQuote.outAmount) / Math.pow(10, 9);
         
-        const solPrice = await getSolanaPrice();
         const soldValueUsd = actualSolReceived * solPrice;
         
         transactionAmount = tokensSold.toFixed(tokenDecimals);
         priceUsd = (soldValueUsd / tokensSold).toFixed(6);
         
-        // ATOMIC: Add received SOL (no preliminary SELECT)
-        await tx.update(balances)
-          .set({ solBalance: sql`${balances.solBalance} + ${actualSolReceived}` })
-          .where(eq(balances.walletId, walletId));
+        // ATOMIC: Add received SOL + ledger entry (no preliminary SELECT)
+        if (actualSolReceived > 0) {
+          await postSolMovement(tx, {
+            walletId,
+            amount: actualSolReceived,
+            reason: 'swap_sell',
+            transactionId: reservationPayload?.transactionId,
+            memo: realTxHash
+          });
+        }
       }
       
       // UPDATE pending transaction to completed (created in Phase 1)
@@ -598,3 +625,23 @@ export async function executeSwap(params: {
     return { success: false, error: error.message || "Swap failed" };
   }
 }
+
+/**
+ * Get wallet+type pairs that already have a PENDING buy/sell transaction
+ * Automated triggers (limit orders, TP/SL) skip these to respect the one-pending-per-wallet-type constraint
+ * Returns a Set of `${walletId}:${type}` keys
+ */
+export async function getPendingSwapKeys(walletIds: string[]): Promise<Set<string>> {
+  if (walletIds.length === 0) {
+    return new Set();
+  }
+  
+  const pendingTxs = await db.select({ walletId: transactions.walletId, type: transactions.type })
+    .from(transactions)
+    .where(and(
+      inArray(transactions.walletId, walletIds),
+      eq(transactions.status, 'pending')
+    ));
+  
+  return new Set(pendingTxs.map(tx => `${tx.walletId}:${tx.type}`));
+}
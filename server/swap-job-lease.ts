@@ -0,0 +1,139 @@
+import os from "os";
+import crypto from "crypto";
+
+/**
+ * Lease/heartbeat primitives for multi-worker swap job processing
+ *
+ * A worker owns a swap job only while it holds an unexpired lease:
+ * 1. Claim: compare-and-set sets worker_id + lease_expires_at (NOW() + LEASE_DURATION_MS)
+ * 2. Heartbeat: owner extends lease_expires_at every HEARTBEAT_INTERVAL_MS
+ * 3. Recovery: other workers may only reclaim a job once lease_expires_at < NOW()
+ *    (no heartbeat = crashed worker), so slow swaps are never stolen
+ * 4. Fencing: every state change (chainTxhash store, settlement, rollback) is conditioned
+ *    on worker_id, so a worker that lost its lease cannot corrupt the new owner's work
+ *
+ * Storage is abstracted behind SwapJobLeaseStore so the claim/heartbeat logic can be
+ * exercised offline (see __tests__/unit/swap-job-lease.test.ts)
+ */
+
+export const LEASE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000; // 30 seconds
+export const DROPPED_TX_THRESHOLD_MS = 15 * 60 * 1000; // Blockhash long expired - unseen tx will never land
+
+/**
+ * Thrown when a worker attempts a fenced operation after losing its lease
+ */
+export class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lease lost for swap job ${jobId}`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+/**
+ * Persistence operations required by the lease model
+ * Implementations MUST be atomic compare-and-set operations evaluated against a shared clock
+ */
+export interface SwapJobLeaseStore {
+  /** Claim a job that is pending or whose lease has expired. Returns true if this worker now owns it */
+  claim(jobId: string, workerId: string, leaseMs: number): Promise<boolean>;
+  /** Extend the lease. Returns false if the job is no longer owned by workerId */
+  renew(jobId: string, workerId: string, leaseMs: number): Promise<boolean>;
+  /** Expire the lease immediately so another cycle can pick the job up */
+  release(jobId: string, workerId: string): Promise<void>;
+}
+
+export interface JobLease {
+  readonly jobId: string;
+  readonly workerId: string;
+  /** True once a heartbeat found the job owned by someone else (or the lease ran out locally) */
+  readonly lost: boolean;
+  /** Throws LeaseLostError if the lease can no longer be trusted */
+  assertHeld(): void;
+  /** Stop heartbeating (does NOT release the lease) */
+  stop(): void;
+}
+
+/**
+ * Unique, human-readable identifier for this worker process
+ */
+export function createWorkerId(): string {
+  return `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString('hex')}`;
+}
+
+/**
+ * Claim a job and keep the lease alive with periodic heartbeats
+ * Returns null if another worker owns the job
+ */
+export async function acquireLease(
+  store: SwapJobLeaseStore,
+  jobId: string,
+  workerId: string,
+  options: { leaseMs?: number; heartbeatMs?: number; now?: () => number } = {}
+): Promise<JobLease | null> {
+  const leaseMs = options.leaseMs ?? LEASE_DURATION_MS;
+  const heartbeatMs = options.heartbeatMs ?? HEARTBEAT_INTERVAL_MS;
+  const now = options.now ?? Date.now;
+
+  // Local expiry estimate is taken BEFORE the claim round-trip so it never overestimates
+  let localExpiry = now() + leaseMs;
+  const claimed = await store.claim(jobId, workerId, leaseMs);
+  if (!claimed) {
+    return null;
+  }
+
+  let lost = false;
+  let renewing = false;
+
+  const timer = setInterval(async () => {
+    if (lost || renewing) return;
+    renewing = true;
+    const attemptedAt = now();
+    try {
+      const renewed = await store.renew(jobId, workerId, leaseMs);
+      if (renewed) {
+        localExpiry = attemptedAt + leaseMs;
+      } else {
+        lost = true;
+        clearInterval(timer);
+        console.warn(`⚠️  Lost lease on swap job ${jobId} (worker ${workerId})`);
+      }
+    } catch (error: any) {
+      // Transient DB error: keep trying until the local lease estimate runs out
+      console.error(`❌ Heartbeat failed for swap job ${jobId}:`, error.message);
+    } finally {
+      renewing = false;
+    }
+  }, heartbeatMs);
+
+  return {
+    jobId,
+    workerId,
+    get lost() {
+      return lost || now() >= localExpiry;
+    },
+    assertHeld() {
+      if (lost || now() >= localExpiry) {
+        throw new LeaseLostError(jobId);
+      }
+    },
+    stop() {
+      clearInterval(timer);
+    },
+  };
+}
+
+export type ChainTxStatus = 'confirmed' | 'failed' | 'unknown';
+export type RecoveryAction = 'settle' | 'rollback' | 'retry';
+
+/**
+ * Decide what to do with a reclaimed job that already has a chainTxhash
+ * - confirmed on-chain → finish settlement
+ * - failed on-chain → nothing moved, refund the user
+ * - not found → retry later, until the tx is old enough that it can no longer land
+ */
+export function decideRecoveryAction(status: ChainTxStatus, submittedAgeMs: number): RecoveryAction {
+  if (status === 'confirmed') return 'settle';
+  if (status === 'failed') return 'rollback';
+  return submittedAgeMs >= DROPPED_TX_THRESHOLD_MS ? 'rollback' : 'retry';
+}
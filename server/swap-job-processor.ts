@@ -1,639 +1,873 @@
 import { db } from "./db";
-import { swapJobs, transactions, tokenHoldings, balances, wallets } from "@shared/schema";
-import { eq, and, sql } from "drizzle-orm";
-import { executeJupiterSwap } from "./jupiter";
+import { swapJobs, transactions, tokenHoldings, wallets, type SwapJob } from "@shared/schema";
+import { eq, and, sql, inArray } from "drizzle-orm";
+import { executeJupiterSwap, getTransactionStatus, swapSimulationRpc } from "./jupiter";
+import { simulateSwapTransaction } from "./swap-simulation";
 import { storage } from "./storage";
 import { getSolanaPrice } from "./coingecko";
-import { getTokenMetadataWithFallback } from "./helius-metadata";
+import { resolveTokenMetadata } from "./token-resolver";
 import { validateTokenDecimals } from "./token-metadata";
 import { getTokenPrice } from "./pricing";
+import { postSolMovement } from "./sol-ledger";
+import { rebuildCostLots } from "./tax-lots";
+import { recordPriceSamples } from "./price-history";
+import { queueWebhookEvent } from "./webhooks";
+import { hasWalletStream, publishWalletEvent, refreshStreamBalance } from "./wallet-stream";
+import {
+  acquireLease,
+  createWorkerId,
+  decideRecoveryAction,
+  LeaseLostError,
+  type JobLease,
+  type SwapJobLeaseStore
+} from "./swap-job-lease";
 
 /**
  * Process pending swap jobs in background (Phase 2 - Asynchronous)
  * Executes Jupiter swaps and updates transaction records
  * 
- * CURRENT IMPLEMENTATION: Timer-based recovery with atomic operations
+ * IMPLEMENTATION: Lease/heartbeat claim model (safe for multiple workers on one Postgres)
  * 
  * SECURITY PROTECTIONS:
- * ✅ Atomic job claim (compare-and-set) prevents double-execution of pending jobs
+ * ✅ Lease claim (compare-and-set on status + lease_expires_at) - one owner per job at a time
+ * ✅ Heartbeat extends the lease every 30s, so slow swaps are never reclaimed by other workers
+ * ✅ Recovery only reclaims jobs whose lease expired (no heartbeat = crashed worker)
  * ✅ Conditional chainTxhash store (WHERE chainTxhash IS NULL) detects duplicate swaps
- * ✅ Duplicate detection skips settlement to prevent double-crediting
- * ✅ Idempotent swap execution (skip if chainTxhash exists)
- * ✅ Idempotent settlement (safe to re-run)
+ * ✅ Settlement and rollback are fenced on worker_id (a worker that lost its lease cannot write)
+ * ✅ Jobs with chainTxhash are verified on-chain before settling or refunding (no manual fixes)
+ * ✅ Swap transaction is simulated before sending - reverts or output below the slippage bound
+ *    fail the job (and refund the user) without paying network fees
  * 
  * KNOWN LIMITATIONS (Edge Cases):
- * ⚠️  Timer-based recovery (2min threshold) can interfere with slow swaps (>2min)
- * ⚠️  Duplicate swap detection happens AFTER on-chain execution (wasted gas, potential slippage)
- * ⚠️  Duplicate detection leaves job in 'processing' state (manual intervention needed)
- * 
- * PRODUCTION RECOMMENDATION:
- * For multi-worker deployments with high reliability requirements, implement lease/heartbeat mechanism:
- * 1. Add columns: worker_id (varchar), lease_expiration (timestamp)
- * 2. Workers claim jobs by setting worker_id + lease_expiration (e.g., NOW() + 5 minutes)
- * 3. Workers periodically extend lease_expiration (heartbeat every 30 seconds)
- * 4. Recovery only reclaims jobs where lease_expiration < NOW() (no heartbeat = crashed worker)
- * 5. This prevents recovery from interfering with active workers, even for slow swaps
- * 
- * CURRENT SAFETY LEVEL: Safe for single-worker deployments and typical swap latencies (<2min)
+ * ⚠️  A worker that crashes between sending the swap and storing chainTxhash cannot be
+ *     distinguished from one that crashed before sending - the job is re-executed after lease expiry
+ * ⚠️  Duplicate swap detection happens AFTER on-chain execution (duplicate SOL stays in the pool)
  */
-export async function processSwapJobs(): Promise<void> {
-  try {
-    // CRASH RECOVERY: Revert STALE 'processing' jobs WITHOUT chainTxhash back to 'pending'
-    // SAFETY: Only revert jobs older than 2 minutes to avoid interfering with active workers
-    // These are jobs that crashed AFTER claim but BEFORE on-chain swap execution
-    const staleThresholdMinutes = 2;
-    const stuckJobs = await db.update(swapJobs)
-      .set({ 
-        status: 'pending',
-        processedAt: null // Clear processedAt to retry fresh
+
+// Pre-lease 'processing' rows (no lease_expires_at) are treated as expired after this long
+const LEGACY_STALE_THRESHOLD_MINUTES = 2;
+
+// Slippage bound for simulation when the stored quote predates slippageBps being recorded
+const DEFAULT_SIMULATION_SLIPPAGE_BPS = 200;
+
+const WORKER_ID = createWorkerId();
+
+/**
+ * Postgres-backed lease store - all comparisons use the database clock (NOW())
+ * so workers with skewed local clocks still agree on lease expiry
+ */
+const dbLeaseStore: SwapJobLeaseStore = {
+  async claim(jobId, workerId, leaseMs) {
+    const claimed = await db.update(swapJobs)
+      .set({
+        status: 'processing',
+        workerId,
+        leaseExpiresAt: sql`NOW() + make_interval(secs => ${leaseMs / 1000})`,
+        processedAt: sql`COALESCE(${swapJobs.processedAt}, NOW())` // Keep first pickup time (recovery age)
       })
       .where(
-        sql`${swapJobs.status} = 'processing' 
-            AND ${swapJobs.chainTxhash} IS NULL 
-            AND ${swapJobs.processedAt} < NOW() - INTERVAL '${sql.raw(staleThresholdMinutes.toString())} minutes'`
+        sql`${swapJobs.id} = ${jobId} AND (
+          ${swapJobs.status} = 'pending'
+          OR (${swapJobs.status} = 'processing' AND ${swapJobs.leaseExpiresAt} < NOW())
+          OR (${swapJobs.status} = 'processing' AND ${swapJobs.leaseExpiresAt} IS NULL
+              AND ${swapJobs.processedAt} < NOW() - INTERVAL '${sql.raw(LEGACY_STALE_THRESHOLD_MINUTES.toString())} minutes')
+        )`
       )
       .returning({ id: swapJobs.id });
     
-    if (stuckJobs.length > 0) {
-      console.log(`♻️  Reverted ${stuckJobs.length} stale processing jobs (>${staleThresholdMinutes}min old) back to pending (pre-swap crash recovery)`);
-    }
+    return claimed.length > 0;
+  },
+  
+  async renew(jobId, workerId, leaseMs) {
+    const renewed = await db.update(swapJobs)
+      .set({ leaseExpiresAt: sql`NOW() + make_interval(secs => ${leaseMs / 1000})` })
+      .where(
+        sql`${swapJobs.id} = ${jobId} AND ${swapJobs.status} = 'processing' AND ${swapJobs.workerId} = ${workerId}`
+      )
+      .returning({ id: swapJobs.id });
     
-    // Fetch pending swap jobs AND stuck 'processing' jobs with chainTxhash (post-swap crash recovery)
-    // IDEMPOTENCY: Jobs stuck in 'processing' with chainTxhash need settlement completion
-    const pendingJobs = await db.select()
+    return renewed.length > 0;
+  },
+  
+  async release(jobId, workerId) {
+    await db.update(swapJobs)
+      .set({ leaseExpiresAt: sql`NOW()` })
+      .where(
+        sql`${swapJobs.id} = ${jobId} AND ${swapJobs.status} = 'processing' AND ${swapJobs.workerId} = ${workerId}`
+      );
+  },
+};
+
+export async function processSwapJobs(): Promise<void> {
+  try {
+    // Fetch claimable jobs: pending, or 'processing' whose owner stopped heartbeating
+    // CRASH RECOVERY: Expired jobs WITHOUT chainTxhash are re-executed, jobs WITH chainTxhash are verified on-chain
+    const claimableJobs = await db.select()
       .from(swapJobs)
       .where(
-        sql`${swapJobs.status} = 'pending' OR (${swapJobs.status} = 'processing' AND ${swapJobs.chainTxhash} IS NOT NULL)`
+        sql`${swapJobs.status} = 'pending'
+            OR (${swapJobs.status} = 'processing' AND ${swapJobs.leaseExpiresAt} < NOW())
+            OR (${swapJobs.status} = 'processing' AND ${swapJobs.leaseExpiresAt} IS NULL
+                AND ${swapJobs.processedAt} < NOW() - INTERVAL '${sql.raw(LEGACY_STALE_THRESHOLD_MINUTES.toString())} minutes')`
       )
       .limit(5); // Process max 5 jobs per cycle
     
-    if (pendingJobs.length === 0) {
+    if (claimableJobs.length === 0) {
       return; // No jobs to process
     }
     
-    console.log(`🔄 Processing ${pendingJobs.length} swap jobs (pending + post-swap recovery)...`);
+    console.log(`🔄 Processing ${claimableJobs.length} swap jobs (pending + expired leases) as worker ${WORKER_ID}...`);
     
-    for (const job of pendingJobs) {
+    for (const job of claimableJobs) {
+      // ATOMIC CLAIM: Only one worker can hold the lease
+      const lease = await acquireLease(dbLeaseStore, job.id, WORKER_ID);
+      
+      if (!lease) {
+        console.log(`⏭️  Job ${job.id} already claimed by another worker - skipping`);
+        continue;
+      }
+      
       try {
-        // RECOVERY vs NEW JOB: Handle differently based on current status
-        const isRecoveryJob = job.status === 'processing' && job.chainTxhash;
+        // Re-read after claim: a previous owner may have stored chainTxhash since our SELECT
+        const [claimedJob] = await db.select()
+          .from(swapJobs)
+          .where(eq(swapJobs.id, job.id))
+          .limit(1);
         
-        if (!isRecoveryJob) {
-          // NEW JOB: ATOMIC CLAIM to prevent concurrent worker race
-          // Compare-and-set: Mark processing ONLY if still pending
-          const claimResult = await db.update(swapJobs)
-            .set({ 
-              status: 'processing',
-              processedAt: new Date()
-            })
-            .where(
-              sql`${swapJobs.id} = ${job.id} AND ${swapJobs.status} = 'pending'`
-            )
-            .returning({ id: swapJobs.id });
-          
-          // If no row was updated, another worker claimed this job - skip it
-          if (claimResult.length === 0) {
-            console.log(`⏭️  Job ${job.id} already claimed by another worker - skipping`);
-            continue;
-          }
-          
-          console.log(`✅ Successfully claimed job ${job.id} for processing`);
-        } else {
-          // RECOVERY JOB: Already marked 'processing' with chainTxhash - proceed to settlement
-          console.log(`♻️  Recovering stuck job ${job.id} (chainTxhash: ${job.chainTxhash})`);
+        console.log(`✅ Successfully claimed job ${job.id} for processing (lease held by ${WORKER_ID})`);
+        await notifySwapJobListeners(claimedJob, { settled: false });
+        await processClaimedJob(claimedJob, lease);
+      } finally {
+        lease.stop();
+      }
+    }
+    
+  } catch (error: any) {
+    console.error("Swap job processing error:", error);
+  }
+}
+
+/**
+ * Execute + settle a job this worker holds the lease for
+ */
+async function processClaimedJob(job: SwapJob, lease: JobLease): Promise<void> {
+  const workerId = lease.workerId;
+  let realTxHash: string | null = job.chainTxhash;
+  
+  try {
+    // CRITICAL: Validate decimals FIRST - FAIL FAST BEFORE executing swap
+    // Explicitly check for empty/undefined/null (allows "0" for zero-decimal tokens!)
+    if (job.tokenDecimals === undefined || job.tokenDecimals === null || job.tokenDecimals === '') {
+      console.error(`❌ [SwapJob] Missing token decimals for job ${job.id} - ABORTING SWAP`);
+      await rollbackSwapJob(job, workerId, `Missing token decimals field`);
+      return; // Skip WITHOUT executing swap
+    }
+    
+    const parsedDecimals = Number(job.tokenDecimals);
+    const decimalsValidation = validateTokenDecimals(parsedDecimals, 'SwapJob');
+    
+    if (decimalsValidation.kind === 'error') {
+      // FAIL FAST: Mark job as failed WITHOUT executing swap
+      console.error(`❌ ${decimalsValidation.reason} for job ${job.id} - ABORTING SWAP`);
+      await rollbackSwapJob(job, workerId, `Invalid token decimals: ${job.tokenDecimals}. ${decimalsValidation.reason}`);
+      return; // Skip to next job WITHOUT executing swap
+    }
+    
+    const tokenDecimals = decimalsValidation.decimals; // ✅ Validated (finite, integer, >= 0)
+    
+    // Parse Jupiter quote
+    const jupiterQuote = JSON.parse(job.jupiterQuote);
+    
+    if (realTxHash) {
+      // RECOVERY JOB: Previous owner executed the swap but never settled - verify on-chain outcome
+      const chainStatus = await getTransactionStatus(realTxHash);
+      // Measured from the send, not the first pickup - a reclaimed job may have been sent by a later owner
+      const submittedAt = job.submittedAt ?? job.processedAt ?? job.createdAt; // Older rows have no submittedAt
+      const submittedAgeMs = Date.now() - submittedAt.getTime();
+      const action = decideRecoveryAction(chainStatus, submittedAgeMs);
+      
+      console.log(`♻️  Recovering job ${job.id} (chainTxhash: ${realTxHash}, on-chain: ${chainStatus}) → ${action}`);
+      
+      if (action === 'retry') {
+        await dbLeaseStore.release(job.id, workerId);
+        return;
+      }
+      
+      if (action === 'rollback') {
+        await rollbackSwapJob(job, workerId, chainStatus === 'failed'
+          ? `Swap transaction failed on-chain: ${realTxHash}`
+          : `Swap transaction never landed on-chain: ${realTxHash}`);
+        return;
+      }
+    } else {
+      // Use SOLANA_WALLET_SECRET directly (NOT encrypted DB key)
+      const solanaWalletSecret = process.env.SOLANA_WALLET_SECRET;
+      if (!solanaWalletSecret) {
+        throw new Error("SOLANA_WALLET_SECRET not configured");
+      }
+      
+      // Get liquidity router address (swap taker)
+      const solanaPool = await storage.getSystemWallet("liquidity_router_node");
+      if (!solanaPool?.address) {
+        throw new Error("System wallet not initialized");
+      }
+      const walletAddress = solanaPool.address;
+      
+      if (!jupiterQuote.transaction) {
+        throw new Error("No transaction in stored quote - cannot execute swap");
+      }
+      
+      // PRE-EXECUTION SIMULATION: Catch failing/under-delivering swaps before they land on-chain and cost fees
+      // BUY expects job.tokenAmount tokens, SELL expects job.solAmount SOL (both minus slippage)
+      const simulation = await simulateSwapTransaction({
+        transaction: jupiterQuote.transaction,
+        taker: walletAddress,
+        outputMint: jupiterQuote.outputMint,
+        expectedOutAmount: job.type === 'buy' ? (job.tokenAmount || '0') : job.solAmount,
+        outputDecimals: job.type === 'buy' ? tokenDecimals : 9,
+        slippageBps: jupiterQuote.slippageBps ?? DEFAULT_SIMULATION_SLIPPAGE_BPS,
+        rpc: swapSimulationRpc
+      });
+      
+      if (simulation.kind === 'error') {
+        // Nothing was sent - rollback below refunds the user with this reason
+        throw new Error(simulation.reason);
+      }
+      
+      console.log(`🧪 Simulation passed for job ${job.id}: output ${simulation.simulatedOut} ≥ min ${simulation.minOut}`);
+      
+      // LEASE CHECK: Never start an on-chain swap without a trustworthy lease
+      lease.assertHeld();
+      
+      console.log(`🚀 Executing Jupiter swap for job ${job.id}...`);
+      const executedTxHash = await executeJupiterSwap(
+        jupiterQuote,
+        solanaWalletSecret, // ✅ Use env var directly!
+        walletAddress
+      );
+      
+      console.log(`✅ Swap executed: ${executedTxHash}`);
+      
+      // CRITICAL: Store tx hash IMMEDIATELY - but ONLY if still NULL (prevents race with another worker)
+      // Deliberately NOT fenced on worker_id: even a worker that lost its lease must publish its hash
+      const storeResult = await db.update(swapJobs)
+        .set({ chainTxhash: executedTxHash, submittedAt: sql`NOW()` })
+        .where(
+          sql`${swapJobs.id} = ${job.id} AND ${swapJobs.chainTxhash} IS NULL`
+        )
+        .returning({ id: swapJobs.id });
+      
+      if (storeResult.length === 0) {
+        // Another worker already executed and stored txhash - this is a duplicate execution!
+        // SAFETY: Settle with the FIRST stored hash only - never credit our duplicate swap
+        console.error(`🚨 DUPLICATE SWAP DETECTED: Job ${job.id} already has chainTxhash from another worker. Our swap ${executedTxHash} will NOT be settled (manual reconciliation required).`);
+        
+        if (lease.lost) {
+          return; // The new owner settles the job
         }
         
-        // CRITICAL: Validate decimals FIRST - FAIL FAST BEFORE executing swap
-        // Explicitly check for empty/undefined/null (allows "0" for zero-decimal tokens!)
-        if (job.tokenDecimals === undefined || job.tokenDecimals === null || job.tokenDecimals === '') {
-          console.error(`❌ [SwapJob] Missing token decimals for job ${job.id} - ABORTING SWAP`);
-          await db.update(swapJobs)
-            .set({ 
-              status: 'failed',
-              failureReason: `Missing token decimals field`,
-              completedAt: new Date()
-            })
-            .where(eq(swapJobs.id, job.id));
-          
-          await db.update(transactions)
-            .set({ status: 'failed' })
-            .where(eq(transactions.id, job.transactionId));
-          
-          continue; // Skip WITHOUT executing swap
+        const [current] = await db.select({ chainTxhash: swapJobs.chainTxhash })
+          .from(swapJobs)
+          .where(eq(swapJobs.id, job.id))
+          .limit(1);
+        realTxHash = current?.chainTxhash || null;
+        
+        if (!realTxHash) {
+          throw new Error(`chainTxhash missing after duplicate detection for job ${job.id}`);
+        }
+      } else {
+        realTxHash = executedTxHash;
+        console.log(`📝 Stored chainTxhash for job ${job.id}: ${realTxHash}`);
+      }
+    }
+    
+    // ✅ FIX: Fetch live market price BEFORE transaction to prevent blocking
+    // (Only needed for BUY jobs - fetched outside transaction to avoid row locks)
+    let liveMarketPrice: number | null = null;
+    if (job.type === 'buy') {
+      try {
+        liveMarketPrice = await getTokenPrice(job.tokenMint);
+      } catch (err) {
+        console.warn(`Failed to fetch live market price for ${job.tokenSymbol}:`, err);
+        // Will use purchase price as fallback inside transaction
+      }
+    }
+    
+    // USD per token this swap executed at (feeds price history after settlement)
+    let executionPriceUsd: number | null = null;
+    
+    // Update transaction and holdings atomically (fenced on worker_id - never settles twice)
+    await db.transaction(async (tx) => {
+      // FENCING: Complete the job ONLY if this worker still owns it
+      // Runs first so a lost lease aborts the whole settlement atomically
+      const fence = await tx.update(swapJobs)
+        .set({
+          status: 'completed',
+          completedAt: new Date(),
+          leaseExpiresAt: null
+        })
+        .where(
+          sql`${swapJobs.id} = ${job.id} AND ${swapJobs.status} = 'processing' AND ${swapJobs.workerId} = ${workerId}`
+        )
+        .returning({ id: swapJobs.id });
+      
+      if (fence.length === 0) {
+        throw new LeaseLostError(job.id);
+      }
+      
+      if (job.type === 'buy') {
+        // ========== BUY JOB PROCESSING ==========
+        const tokenReceived = parseFloat(jupiterQuote.outAmount) / Math.pow(10, tokenDecimals);
+        const solSpent = parseFloat(job.solAmount);
+        
+        // CRITICAL: Always update legacy CA prefix symbols to real names
+        let finalTokenSymbol = job.tokenSymbol;
+        const isLegacyPrefix = !finalTokenSymbol || finalTokenSymbol.length === 6 || finalTokenSymbol === 'UNKNOWN';
+        
+        if (isLegacyPrefix) {
+          console.log(`🔄 [BUY] Updating legacy CA prefix symbol "${finalTokenSymbol}" for ${job.tokenMint}...`);
+          try {
+            const metadata = await resolveTokenMetadata(job.tokenMint);
+            finalTokenSymbol = metadata.symbol;
+            console.log(`✅ [BUY] Updated to real symbol: ${finalTokenSymbol}`);
+          } catch (error: any) {
+            console.error(`⚠️ Failed to fetch metadata for BUY finalization: ${error.message}`);
+            // CRITICAL: Use safe placeholder instead of CA prefix
+            finalTokenSymbol = 'UNKNOWN';
+          }
         }
         
-        const parsedDecimals = Number(job.tokenDecimals);
-        const decimalsValidation = validateTokenDecimals(parsedDecimals, 'SwapJob');
+        // Get SOL price for cost basis calculation
+        const solPrice = await getSolanaPrice();
+        const costUsd = solSpent * solPrice;
+        const pricePerToken = costUsd / tokenReceived;
+        executionPriceUsd = pricePerToken;
+      
+      // Update transaction to COMPLETED (keep ANV txhash, only update chainTxhash)
+      await tx.update(transactions)
+        .set({
+          // ✅ DON'T overwrite txhash - keep ANV-BUY-xxx format!
+          chainTxhash: realTxHash, // Store real blockchain hash here
+          tokenSymbol: finalTokenSymbol, // Real token symbol from the metadata resolver
+          amount: tokenReceived.toString(),
+          solValue: job.solAmount, // ✅ FIX: Preserve SOL spent for Explorer
+          instructions: 'buy', // ✅ FIX: Preserve instructions for Explorer
+          priceUsd: pricePerToken.toString(),
+          status: 'completed',
+          timestamp: new Date()
+        })
+        .where(eq(transactions.id, job.transactionId));
+      
+        // Move pendingInAmount to amount in token_holdings
+        const holdingRows = await tx.select()
+          .from(tokenHoldings)
+          .where(and(
+            eq(tokenHoldings.walletId, job.walletId),
+            eq(tokenHoldings.mint, job.tokenMint)
+          ))
+          .limit(1);
         
-        if (decimalsValidation.kind === 'error') {
-          // FAIL FAST: Mark job as failed WITHOUT executing swap
-          console.error(`❌ ${decimalsValidation.reason} for job ${job.id} - ABORTING SWAP`);
-          await db.update(swapJobs)
-            .set({ 
-              status: 'failed',
-              failureReason: `Invalid token decimals: ${job.tokenDecimals}. ${decimalsValidation.reason}`,
-              completedAt: new Date()
-            })
-            .where(eq(swapJobs.id, job.id));
+        if (holdingRows.length > 0) {
+          const holding = holdingRows[0];
+          const currentAmount = parseFloat(holding.amount || '0');
+          const currentCostBasis = parseFloat(holding.totalCostBasis || '0');
+          const newAmount = currentAmount + tokenReceived;
+          const newCostBasis = currentCostBasis + costUsd;
+          const newAvgPrice = newCostBasis / newAmount;
           
-          await db.update(transactions)
-            .set({ status: 'failed' })
-            .where(eq(transactions.id, job.transactionId));
+          // ✅ FIX: Use pre-fetched live market price (fetched outside transaction to avoid blocking)
+          // Fall back to purchase price if market price fetch failed
+          const finalMarketPrice = (liveMarketPrice !== null && liveMarketPrice !== undefined) 
+            ? liveMarketPrice 
+            : pricePerToken;
           
-          continue; // Skip to next job WITHOUT executing swap
+          await tx.update(tokenHoldings)
+            .set({
+              symbol: finalTokenSymbol, // Update symbol to real token name
+              amount: sql`${tokenHoldings.amount} + ${tokenReceived}`,
+              // CRITICAL FIX: Clear pending with numeric literal to prevent negative values
+              pendingInAmount: sql`0::numeric`,
+              totalCostBasis: newCostBasis.toString(),
+              averageEntryPrice: newAvgPrice.toString(), // Weighted average entry price
+              lastPriceUsd: finalMarketPrice.toString(), // LIVE market price (not purchase price!)
+              lastPriceUpdatedAt: new Date(),
+              updatedAt: new Date()
+            })
+            .where(and(
+              eq(tokenHoldings.walletId, job.walletId),
+              eq(tokenHoldings.mint, job.tokenMint)
+            ));
         }
         
-        const tokenDecimals = decimalsValidation.decimals; // ✅ Validated (finite, integer, >= 0)
+        console.log(`✅ BUY job ${job.id} completed: ${tokenReceived.toFixed(6)} tokens received`);
+        
+      } else if (job.type === 'sell') {
+        // ========== SELL JOB PROCESSING ==========
+        // Get actual SOL received (SOL has 9 decimals)
+        const solReceived = parseFloat(jupiterQuote.outAmount) / 1e9;
+        const tokensSold = parseFloat(job.tokenAmount || '0');
         
-        // Parse Jupiter quote
-        const jupiterQuote = JSON.parse(job.jupiterQuote);
+        // CRITICAL: Always update legacy CA prefix symbols to real names
+        let finalTokenSymbol = job.tokenSymbol;
+        const isLegacyPrefix = !finalTokenSymbol || finalTokenSymbol.length === 6 || finalTokenSymbol === 'UNKNOWN';
         
-        // Use SOLANA_WALLET_SECRET directly (NOT encrypted DB key)
-        const solanaWalletSecret = process.env.SOLANA_WALLET_SECRET;
-        if (!solanaWalletSecret) {
-          throw new Error("SOLANA_WALLET_SECRET not configured");
+        if (isLegacyPrefix) {
+          console.log(`🔄 [SELL] Updating legacy CA prefix symbol "${finalTokenSymbol}" for ${job.tokenMint}...`);
+          try {
+            const metadata = await resolveTokenMetadata(job.tokenMint);
+            finalTokenSymbol = metadata.symbol;
+            console.log(`✅ [SELL] Updated to real symbol: ${finalTokenSymbol}`);
+          } catch (error: any) {
+            console.error(`⚠️ Failed to fetch metadata for SELL finalization: ${error.message}`);
+            // CRITICAL: Use safe placeholder instead of CA prefix
+            finalTokenSymbol = 'UNKNOWN';
+          }
         }
         
-        // Get liquidity router address for logging
-        const solanaPool = await storage.getSystemWallet("liquidity_router_node");
-        const walletAddress = solanaPool?.address || 'unknown';
+        // Fetch transaction for cost basis
+        const txRows = await tx.select()
+          .from(transactions)
+          .where(eq(transactions.id, job.transactionId))
+          .limit(1);
         
-        // Execute swap on-chain (only after validation passes!)
-        // IDEMPOTENCY CHECK: Skip if swap already executed (crash recovery)
-        let realTxHash = job.chainTxhash;
+        // Calculate realized PnL if cost basis exists
+        let realizedPnl = null;
+        const solPrice = await getSolanaPrice();
+        const saleValueUsd = solReceived * solPrice;
+        executionPriceUsd = tokensSold > 0 ? saleValueUsd / tokensSold : null;
         
-        if (!realTxHash) {
-          console.log(`🚀 Executing Jupiter swap for job ${job.id}...`);
-          realTxHash = await executeJupiterSwap(
-            jupiterQuote,
-            solanaWalletSecret, // ✅ Use env var directly!
-            walletAddress
-          );
-          
-          console.log(`✅ Swap executed: ${realTxHash}`);
-          
-          // CRITICAL: Store tx hash IMMEDIATELY - but ONLY if still NULL (prevents race with another worker)
-          const storeResult = await db.update(swapJobs)
-            .set({ chainTxhash: realTxHash })
-            .where(
-              sql`${swapJobs.id} = ${job.id} AND ${swapJobs.chainTxhash} IS NULL`
-            )
-            .returning({ id: swapJobs.id });
-          
-          if (storeResult.length === 0) {
-            // Another worker already executed and stored txhash - this is a duplicate execution!
-            // SAFETY: Skip this job entirely - the first worker will complete settlement correctly
-            // Do NOT refund or credit - that would cause double-crediting
-            console.warn(`⚠️  DUPLICATE SWAP DETECTED: Job ${job.id} already has chainTxhash from another worker. Skipping settlement for our duplicate swap ${realTxHash} to prevent double-crediting.`);
-            continue; // Skip to next job WITHOUT settlement
-          }
-          
-          console.log(`📝 Stored chainTxhash for job ${job.id}: ${realTxHash}`);
-        } else {
-          console.log(`♻️ Recovering job ${job.id} with existing chainTxhash: ${realTxHash}`);
+        if (txRows.length > 0 && txRows[0].costBasisAtSale) {
+          const costBasis = parseFloat(txRows[0].costBasisAtSale);
+          realizedPnl = (saleValueUsd - costBasis).toString();
         }
         
-        // ✅ FIX: Fetch live market price BEFORE transaction to prevent blocking
-        // (Only needed for BUY jobs - fetched outside transaction to avoid row locks)
-        let liveMarketPrice: number | null = null;
-        if (job.type === 'buy') {
-          try {
-            liveMarketPrice = await getTokenPrice(job.tokenMint);
-          } catch (err) {
-            console.warn(`Failed to fetch live market price for ${job.tokenSymbol}:`, err);
-            // Will use purchase price as fallback inside transaction
+        // Update transaction to COMPLETED
+        await tx.update(transactions)
+          .set({
+            chainTxhash: realTxHash,
+            tokenSymbol: finalTokenSymbol, // Real token symbol from the metadata resolver
+            amount: tokensSold.toString(),
+            solValue: solReceived.toString(), // ✅ FIX: Preserve SOL received for Explorer
+            instructions: 'sell', // ✅ FIX: Preserve instructions for Explorer
+            priceUsd: (saleValueUsd / tokensSold).toString(), // Price per token
+            realizedPnl: realizedPnl,
+            status: 'completed',
+            timestamp: new Date()
+          })
+          .where(eq(transactions.id, job.transactionId));
+        
+        // Credit SOL to balance (+ ledger entry)
+        // Never throw here: the swap already happened on-chain, a missing credit is caught by reconciliation
+        if (solReceived > 0) {
+          const credited = await postSolMovement(tx, {
+            walletId: job.walletId,
+            amount: solReceived,
+            reason: 'swap_sell',
+            transactionId: job.transactionId,
+            swapJobId: job.id,
+            memo: realTxHash
+          });
+          if (!credited) {
+            console.error(`❌ No balance row for wallet ${job.walletId} - SELL proceeds of job ${job.id} not credited`);
           }
         }
         
-        // Update transaction and holdings atomically (idempotent - safe to re-run)
-        await db.transaction(async (tx) => {
-          if (job.type === 'buy') {
-            // ========== BUY JOB PROCESSING ==========
-            const tokenReceived = parseFloat(jupiterQuote.outAmount) / Math.pow(10, tokenDecimals);
-            const solSpent = parseFloat(job.solAmount);
-            
-            // CRITICAL: Always update legacy CA prefix symbols to real names
-            let finalTokenSymbol = job.tokenSymbol;
-            const isLegacyPrefix = !finalTokenSymbol || finalTokenSymbol.length === 6 || finalTokenSymbol === 'UNKNOWN';
-            
-            if (isLegacyPrefix) {
-              console.log(`🔄 [BUY] Updating legacy CA prefix symbol "${finalTokenSymbol}" for ${job.tokenMint}...`);
-              try {
-                const metadata = await getTokenMetadataWithFallback(job.tokenMint);
-                finalTokenSymbol = metadata.symbol;
-                console.log(`✅ [BUY] Updated to real symbol: ${finalTokenSymbol}`);
-              } catch (error: any) {
-                console.error(`⚠️ Failed to fetch metadata for BUY finalization: ${error.message}`);
-                // CRITICAL: Use safe placeholder instead of CA prefix
-                finalTokenSymbol = 'UNKNOWN';
-              }
-            }
-            
-            // Get SOL price for cost basis calculation
-            const solPrice = await getSolanaPrice();
-            const costUsd = solSpent * solPrice;
-            const pricePerToken = costUsd / tokenReceived;
-          
-          // Update transaction to COMPLETED (keep ANV txhash, only update chainTxhash)
-          await tx.update(transactions)
-            .set({
-              // ✅ DON'T overwrite txhash - keep ANV-BUY-xxx format!
-              chainTxhash: realTxHash, // Store real blockchain hash here
-              tokenSymbol: finalTokenSymbol, // Real token symbol from Helius
-              amount: tokenReceived.toString(),
-              solValue: job.solAmount, // ✅ FIX: Preserve SOL spent for Explorer
-              instructions: 'buy', // ✅ FIX: Preserve instructions for Explorer
-              priceUsd: pricePerToken.toString(),
-              status: 'completed',
-              timestamp: new Date()
-            })
-            .where(eq(transactions.id, job.transactionId));
-          
-            // Move pendingInAmount to amount in token_holdings
-            const holdingRows = await tx.select()
-              .from(tokenHoldings)
+        // Check if holding should be deleted (amount = 0 after sell)
+        const remainingHoldings = await tx.select()
+          .from(tokenHoldings)
+          .where(and(
+            eq(tokenHoldings.walletId, job.walletId),
+            eq(tokenHoldings.mint, job.tokenMint)
+          ))
+          .limit(1);
+        
+        if (remainingHoldings.length > 0) {
+          const finalAmount = parseFloat(remainingHoldings[0].amount);
+          if (finalAmount <= 0) {
+            // Delete holding with zero balance (100% sold)
+            await tx.delete(tokenHoldings)
               .where(and(
                 eq(tokenHoldings.walletId, job.walletId),
                 eq(tokenHoldings.mint, job.tokenMint)
-              ))
-              .limit(1);
-            
-            if (holdingRows.length > 0) {
-              const holding = holdingRows[0];
-              const currentAmount = parseFloat(holding.amount || '0');
-              const currentCostBasis = parseFloat(holding.totalCostBasis || '0');
-              const newAmount = currentAmount + tokenReceived;
-              const newCostBasis = currentCostBasis + costUsd;
-              const newAvgPrice = newCostBasis / newAmount;
-              
-              // ✅ FIX: Use pre-fetched live market price (fetched outside transaction to avoid blocking)
-              // Fall back to purchase price if market price fetch failed
-              const finalMarketPrice = (liveMarketPrice !== null && liveMarketPrice !== undefined) 
-                ? liveMarketPrice 
-                : pricePerToken;
-              
-              await tx.update(tokenHoldings)
-                .set({
-                  symbol: finalTokenSymbol, // Update symbol to real token name
-                  amount: sql`${tokenHoldings.amount} + ${tokenReceived}`,
-                  // CRITICAL FIX: Clear pending with numeric literal to prevent negative values
-                  pendingInAmount: sql`0::numeric`,
-                  totalCostBasis: newCostBasis.toString(),
-                  averageEntryPrice: newAvgPrice.toString(), // Weighted average entry price
-                  lastPriceUsd: finalMarketPrice.toString(), // LIVE market price (not purchase price!)
-                  lastPriceUpdatedAt: new Date(),
-                  updatedAt: new Date()
-                })
-                .where(and(
-                  eq(tokenHoldings.walletId, job.walletId),
-                  eq(tokenHoldings.mint, job.tokenMint)
-                ));
-            }
-            
-            // Mark swap job as completed
-            await tx.update(swapJobs)
-              .set({
-                status: 'completed',
-                completedAt: new Date()
-              })
-              .where(eq(swapJobs.id, job.id));
-            
-            console.log(`✅ BUY job ${job.id} completed: ${tokenReceived.toFixed(6)} tokens received`);
-            
-          } else if (job.type === 'sell') {
-            // ========== SELL JOB PROCESSING ==========
-            // Get actual SOL received (SOL has 9 decimals)
-            const solReceived = parseFloat(jupiterQuote.outAmount) / 1e9;
-            const tokensSold = parseFloat(job.tokenAmount || '0');
-            
-            // CRITICAL: Always update legacy CA prefix symbols to real names
-            let finalTokenSymbol = job.tokenSymbol;
-            const isLegacyPrefix = !finalTokenSymbol || finalTokenSymbol.length === 6 || finalTokenSymbol === 'UNKNOWN';
-            
-            if (isLegacyPrefix) {
-              console.log(`🔄 [SELL] Updating legacy CA prefix symbol "${finalTokenSymbol}" for ${job.tokenMint}...`);
-              try {
-                const metadata = await getTokenMetadataWithFallback(job.tokenMint);
-                finalTokenSymbol = metadata.symbol;
-                console.log(`✅ [SELL] Updated to real symbol: ${finalTokenSymbol}`);
-              } catch (error: any) {
-                console.error(`⚠️ Failed to fetch metadata for SELL finalization: ${error.message}`);
-                // CRITICAL: Use safe placeholder instead of CA prefix
-                finalTokenSymbol = 'UNKNOWN';
-              }
+              ));
+            console.log(`🧹 Deleted zero-balance holding for ${job.tokenSymbol} (${job.tokenMint})`);
+          } else {
+            // ✅ FIX: Partial sell - Fetch FRESH market price and update
+            // DO NOT use sale execution price (can differ from current market)
+            let freshPrice: number | null = null;
+            try {
+              freshPrice = await getTokenPrice(job.tokenMint);
+            } catch (err) {
+              console.warn(`Failed to fetch fresh price for ${job.tokenSymbol}:`, err);
             }
             
-            // Fetch transaction for cost basis
-            const txRows = await tx.select()
-              .from(transactions)
-              .where(eq(transactions.id, job.transactionId))
-              .limit(1);
+            const updateFields: any = {
+              symbol: finalTokenSymbol, // Update symbol if changed
+            };
             
-            // Calculate realized PnL if cost basis exists
-            let realizedPnl = null;
-            const solPrice = await getSolanaPrice();
-            const saleValueUsd = solReceived * solPrice;
-            
-            if (txRows.length > 0 && txRows[0].costBasisAtSale) {
-              const costBasis = parseFloat(txRows[0].costBasisAtSale);
-              realizedPnl = (saleValueUsd - costBasis).toString();
+            // Only update price if we successfully fetched one
+            if (freshPrice !== null && freshPrice !== undefined) {
+              updateFields.lastPriceUsd = freshPrice.toString();
+              updateFields.lastPriceUpdatedAt = new Date();
             }
             
-            // Update transaction to COMPLETED
-            await tx.update(transactions)
-              .set({
-                chainTxhash: realTxHash,
-                tokenSymbol: finalTokenSymbol, // Real token symbol from Helius
-                amount: tokensSold.toString(),
-                solValue: solReceived.toString(), // ✅ FIX: Preserve SOL received for Explorer
-                instructions: 'sell', // ✅ FIX: Preserve instructions for Explorer
-                priceUsd: (saleValueUsd / tokensSold).toString(), // Price per token
-                realizedPnl: realizedPnl,
-                status: 'completed',
-                timestamp: new Date()
-              })
-              .where(eq(transactions.id, job.transactionId));
-            
-            // Credit SOL to balance
-            await tx.update(balances)
-              .set({
-                solBalance: sql`${balances.solBalance} + ${solReceived}`,
-                updatedAt: new Date()
-              })
-              .where(eq(balances.walletId, job.walletId));
-            
-            // Check if holding should be deleted (amount = 0 after sell)
-            const remainingHoldings = await tx.select()
-              .from(tokenHoldings)
+            await tx.update(tokenHoldings)
+              .set(updateFields)
               .where(and(
                 eq(tokenHoldings.walletId, job.walletId),
                 eq(tokenHoldings.mint, job.tokenMint)
-              ))
-              .limit(1);
-            
-            if (remainingHoldings.length > 0) {
-              const finalAmount = parseFloat(remainingHoldings[0].amount);
-              if (finalAmount <= 0) {
-                // Delete holding with zero balance (100% sold)
-                await tx.delete(tokenHoldings)
-                  .where(and(
-                    eq(tokenHoldings.walletId, job.walletId),
-                    eq(tokenHoldings.mint, job.tokenMint)
-                  ));
-                console.log(`🧹 Deleted zero-balance holding for ${job.tokenSymbol} (${job.tokenMint})`);
-              } else {
-                // ✅ FIX: Partial sell - Fetch FRESH market price and update
-                // DO NOT use sale execution price (can differ from current market)
-                let freshPrice: number | null = null;
-                try {
-                  freshPrice = await getTokenPrice(job.tokenMint);
-                } catch (err) {
-                  console.warn(`Failed to fetch fresh price for ${job.tokenSymbol}:`, err);
-                }
-                
-                const updateFields: any = {
-                  symbol: finalTokenSymbol, // Update symbol if changed
-                };
-                
-                // Only update price if we successfully fetched one
-                if (freshPrice !== null && freshPrice !== undefined) {
-                  updateFields.lastPriceUsd = freshPrice.toString();
-                  updateFields.lastPriceUpdatedAt = new Date();
-                }
-                
-                await tx.update(tokenHoldings)
-                  .set(updateFields)
-                  .where(and(
-                    eq(tokenHoldings.walletId, job.walletId),
-                    eq(tokenHoldings.mint, job.tokenMint)
-                  ));
-              }
-            }
-            
-            // Mark swap job as completed
-            await tx.update(swapJobs)
-              .set({
-                status: 'completed',
-                completedAt: new Date()
-              })
-              .where(eq(swapJobs.id, job.id));
-            
-            console.log(`✅ SELL job ${job.id} completed: ${tokensSold.toFixed(6)} tokens → ${solReceived.toFixed(6)} SOL`);
+              ));
           }
-        });
+        }
         
-        // Send Telegram notification (edit existing message OR send new message)
-        try {
-          const { bot } = await import("./telegram-bot.js");
-          
-          if (!bot) {
-            console.warn(`⚠️  Bot is null - cannot send notification for job ${job.id}`);
-            return;
-          }
-          
-          // CRITICAL: Fetch transaction details for ANX hash
-          const txDetails = await db.select()
-            .from(transactions)
-            .where(eq(transactions.id, job.transactionId))
-            .limit(1);
-          
-          if (txDetails.length === 0 || !txDetails[0].txhash) {
-            console.error(`❌ No transaction hash found for job ${job.id}, transaction ${job.transactionId} - cannot send notification`);
-            return;
-          }
-          
-          const anxHash = txDetails[0].txhash;
-          const explorerUrl = `https://anvscan.com/tx/${anxHash}`;
-          
-          let message = '';
-          
-          if (job.type === 'buy') {
-            // Safe parsing for failure notifications (use default if invalid)
-            const parsedDecimals = parseInt(job.tokenDecimals || '9');
-            const tokenDecimals = !isNaN(parsedDecimals) && parsedDecimals >= 0 ? parsedDecimals : 9;
-            const tokenReceived = parseFloat(jupiterQuote.outAmount) / Math.pow(10, tokenDecimals);
-            
-            message = 
-              `🟢 *BUY Completed*\n\n` +
-              `💸 Spent: ${parseFloat(job.solAmount).toFixed(4)} SOL\n` +
-              `📦 Received: ${tokenReceived.toFixed(6)} tokens\n` +
-              `✅ Status: On-chain execution successful\n\n` +
-              `🔗 Order ID: \`${anxHash}\`\n` +
-              `🔍 [View on ANVscan Explorer](${explorerUrl})\n\n` +
-              `_Tokens confirmed in portfolio. Check /portfolio for updated balance._`;
-              
-          } else if (job.type === 'sell') {
-            const solReceived = parseFloat(jupiterQuote.outAmount) / 1e9;
-            const tokensSold = parseFloat(job.tokenAmount || '0');
-            
-            message = 
-              `🔴 *SELL Completed*\n\n` +
-              `💰 Sold: ${tokensSold.toFixed(6)} ${job.tokenSymbol}\n` +
-              `📊 Received: ${solReceived.toFixed(6)} SOL\n` +
-              `✅ Status: On-chain execution successful\n\n` +
-              `🔗 Order ID: \`${anxHash}\`\n` +
-              `🔍 [View on ANVscan Explorer](${explorerUrl})\n\n` +
-              `_SOL credited to your balance. Check /portfolio for updated balance._`;
-          }
-          
-          const replyMarkup = {
-            inline_keyboard: [[
-              { text: "🔄 Refresh Transaction", callback_data: "refresh_transaction" }
-            ]]
-          };
+        console.log(`✅ SELL job ${job.id} completed: ${tokensSold.toFixed(6)} tokens → ${solReceived.toFixed(6)} SOL`);
+      }
+    });
+
+    // Lots are derived from completed transactions - refresh them now that this trade settled
+    await rebuildCostLots(job.walletId);
+    
+    if (executionPriceUsd !== null) {
+      await recordPriceSamples([{ mint: job.tokenMint, priceUsd: executionPriceUsd }])
+        .catch(error => console.error(`Failed to record execution price for job ${job.id}:`, error));
+    }
+    
+    await notifySwapJobListeners(job, { settled: true });
+    
+    // Send Telegram notification (edit existing message OR send new message)
+    try {
+      const { bot } = await import("./telegram-bot.js");
+      
+      if (!bot) {
+        console.warn(`⚠️  Bot is null - cannot send notification for job ${job.id}`);
+        return;
+      }
+      
+      // CRITICAL: Fetch transaction details for ANX hash
+      const txDetails = await db.select()
+        .from(transactions)
+        .where(eq(transactions.id, job.transactionId))
+        .limit(1);
+      
+      if (txDetails.length === 0 || !txDetails[0].txhash) {
+        console.error(`❌ No transaction hash found for job ${job.id}, transaction ${job.transactionId} - cannot send notification`);
+        return;
+      }
+      
+      const anxHash = txDetails[0].txhash;
+      const explorerUrl = `https://anvscan.com/tx/${anxHash}`;
+      
+      let message = '';
+      
+      if (job.type === 'buy') {
+        // Safe parsing for failure notifications (use default if invalid)
+        const parsedDecimals = parseInt(job.tokenDecimals || '9');
+        const tokenDecimals = !isNaN(parsedDecimals) && parsedDecimals >= 0 ? parsedDecimals : 9;
+        const tokenReceived = parseFloat(jupiterQuote.outAmount) / Math.pow(10, tokenDecimals);
+        
+        message = 
+          `🟢 *BUY Completed*\n\n` +
+          `💸 Spent: ${parseFloat(job.solAmount).toFixed(4)} SOL\n` +
+          `📦 Received: ${tokenReceived.toFixed(6)} tokens\n` +
+          `✅ Status: On-chain execution successful\n\n` +
+          `🔗 Order ID: \`${anxHash}\`\n` +
+          `🔍 [View on ANVscan Explorer](${explorerUrl})\n\n` +
+          `_Tokens confirmed in portfolio. Check /portfolio for updated balance._`;
           
-          // Try to edit existing message first (if IDs provided)
-          if (job.telegramChatId && job.telegramMessageId) {
-            try {
-              console.log(`📱 Editing Telegram message for job ${job.id} (chat: ${job.telegramChatId}, msg: ${job.telegramMessageId})`);
-              // DON'T use parseInt - keeps full 64-bit chat ID as string
-              await bot.api.editMessageText(
-                job.telegramChatId,
-                parseInt(job.telegramMessageId),
-                message,
-                { 
-                  parse_mode: "Markdown",
-                  link_preview_options: { is_disabled: true },
-                  reply_markup: replyMarkup
-                }
-              );
-              console.log(`✅ Telegram message edited successfully for ${job.type.toUpperCase()} job ${job.id}`);
-            } catch (editError: any) {
-              console.error(`❌ Failed to edit Telegram message for job ${job.id}:`, editError.message);
-              // Fallback: Try sending new message instead
-              throw editError; // Let outer catch handle fallback
-            }
-          } else {
-            // No message to edit - lookup wallet owner and send NEW message
-            const walletOwner = await db.select()
-              .from(wallets)
-              .where(eq(wallets.id, job.walletId))
-              .limit(1);
-            
-            if (walletOwner.length === 0 || !walletOwner[0].telegramUserId) {
-              console.log(`⚠️  No Telegram user ID for wallet ${job.walletId} - skipping notification`);
-              return;
-            }
-            
-            const telegramUserId = walletOwner[0].telegramUserId;
-            try {
-              console.log(`📱 Sending NEW Telegram message for job ${job.id} to user ${telegramUserId}`);
-              await bot.api.sendMessage(
-                telegramUserId, // Already string, no parseInt needed
-                message,
-                {
-                  parse_mode: "Markdown",
-                  link_preview_options: { is_disabled: true },
-                  reply_markup: replyMarkup
-                }
-              );
-              console.log(`✅ NEW Telegram message sent successfully for ${job.type.toUpperCase()} job ${job.id}`);
-            } catch (sendError: any) {
-              console.error(`❌ Failed to send NEW Telegram message for job ${job.id}:`, sendError.message);
-              throw sendError; // Bubble up for logging
+      } else if (job.type === 'sell') {
+        const solReceived = parseFloat(jupiterQuote.outAmount) / 1e9;
+        const tokensSold = parseFloat(job.tokenAmount || '0');
+        
+        message = 
+          `🔴 *SELL Completed*\n\n` +
+          `💰 Sold: ${tokensSold.toFixed(6)} ${job.tokenSymbol}\n` +
+          `📊 Received: ${solReceived.toFixed(6)} SOL\n` +
+          `✅ Status: On-chain execution successful\n\n` +
+          `🔗 Order ID: \`${anxHash}\`\n` +
+          `🔍 [View on ANVscan Explorer](${explorerUrl})\n\n` +
+          `_SOL credited to your balance. Check /portfolio for updated balance._`;
+      }
+      
+      const replyMarkup = {
+        inline_keyboard: [[
+          { text: "🔄 Refresh Transaction", callback_data: "refresh_transaction" }
+        ]]
+      };
+      
+      // Try to edit existing message first (if IDs provided)
+      if (job.telegramChatId && job.telegramMessageId) {
+        try {
+          console.log(`📱 Editing Telegram message for job ${job.id} (chat: ${job.telegramChatId}, msg: ${job.telegramMessageId})`);
+          // DON'T use parseInt - keeps full 64-bit chat ID as string
+          await bot.api.editMessageText(
+            job.telegramChatId,
+            parseInt(job.telegramMessageId),
+            message,
+            { 
+              parse_mode: "Markdown",
+              link_preview_options: { is_disabled: true },
+              reply_markup: replyMarkup
             }
-          }
-        } catch (telegramError: any) {
-          console.error(`❌ Telegram notification failed for job ${job.id}:`, telegramError.message);
-          console.error(`❌ Full error:`, telegramError);
+          );
+          console.log(`✅ Telegram message edited successfully for ${job.type.toUpperCase()} job ${job.id}`);
+        } catch (editError: any) {
+          console.error(`❌ Failed to edit Telegram message for job ${job.id}:`, editError.message);
+          // Fallback: Try sending new message instead
+          throw editError; // Let outer catch handle fallback
         }
+      } else {
+        // No message to edit - lookup wallet owner and send NEW message
+        const walletOwner = await db.select()
+          .from(wallets)
+          .where(eq(wallets.id, job.walletId))
+          .limit(1);
         
-      } catch (error: any) {
-        console.error(`❌ Swap job ${job.id} failed:`, error.message);
+        if (walletOwner.length === 0 || !walletOwner[0].telegramUserId) {
+          console.log(`⚠️  No Telegram user ID for wallet ${job.walletId} - skipping notification`);
+          return;
+        }
         
-        // Rollback: Mark transaction as failed FIRST, then refund (audit trigger compliance)
-        await db.transaction(async (tx) => {
-          // 1. Mark transaction as failed FIRST (before balance change)
-          await tx.update(transactions)
-            .set({
-              status: 'failed',
-              timestamp: new Date()
-            })
-            .where(eq(transactions.id, job.transactionId));
-          
-          if (job.type === 'buy') {
-            // 2. Refund SOL (trigger sees failed transaction above)
-            await tx.update(balances)
-              .set({
-                solBalance: sql`${balances.solBalance} + ${parseFloat(job.solAmount)}`,
-                updatedAt: new Date()
-              })
-              .where(eq(balances.walletId, job.walletId));
-            
-            // 3. Remove pendingInAmount
-            await tx.update(tokenHoldings)
-              .set({
-                pendingInAmount: sql`${tokenHoldings.pendingInAmount} - ${parseFloat(job.tokenAmount || '0')}`,
-                updatedAt: new Date()
-              })
-              .where(and(
-                eq(tokenHoldings.walletId, job.walletId),
-                eq(tokenHoldings.mint, job.tokenMint)
-              ));
-            
-            console.log(`🔄 BUY job ${job.id} rolled back, SOL refunded to user`);
-            
-          } else if (job.type === 'sell') {
-            // 2. Refund tokens back to holdings WITH cost basis restoration
-            // Fetch transaction for cost basis snapshot
-            const txRows = await tx.select()
-              .from(transactions)
-              .where(eq(transactions.id, job.transactionId))
-              .limit(1);
-            
-            const costBasisToRestore = txRows.length > 0 && txRows[0].costBasisAtSale 
-              ? parseFloat(txRows[0].costBasisAtSale) 
-              : 0;
-            
-            // Get current holdings to recalculate average entry price
-            const holdingRows = await tx.select()
-              .from(tokenHoldings)
-              .where(and(
-                eq(tokenHoldings.walletId, job.walletId),
-                eq(tokenHoldings.mint, job.tokenMint)
-              ))
-              .limit(1);
-            
-            if (holdingRows.length > 0) {
-              const currentCostBasis = parseFloat(holdingRows[0].totalCostBasis || '0');
-              const currentAmount = parseFloat(holdingRows[0].amount || '0');
-              const tokensToRestore = parseFloat(job.tokenAmount || '0');
-              
-              const newCostBasis = currentCostBasis + costBasisToRestore;
-              const newAmount = currentAmount + tokensToRestore;
-              const newAvgPrice = newAmount > 0 ? newCostBasis / newAmount : 0;
-              
-              await tx.update(tokenHoldings)
-                .set({
-                  amount: sql`${tokenHoldings.amount} + ${tokensToRestore}`,
-                  totalCostBasis: newCostBasis.toString(),
-                  averageEntryPrice: newAvgPrice.toString(),
-                  updatedAt: new Date()
-                })
-                .where(and(
-                  eq(tokenHoldings.walletId, job.walletId),
-                  eq(tokenHoldings.mint, job.tokenMint)
-                ));
-              
-              console.log(`🔄 SELL job ${job.id} rolled back: ${tokensToRestore.toFixed(6)} tokens + $${costBasisToRestore.toFixed(2)} cost basis restored`);
-            } else {
-              console.warn(`⚠️  No holding found for SELL rollback - cannot restore tokens`);
+        const telegramUserId = walletOwner[0].telegramUserId;
+        try {
+          console.log(`📱 Sending NEW Telegram message for job ${job.id} to user ${telegramUserId}`);
+          await bot.api.sendMessage(
+            telegramUserId, // Already string, no parseInt needed
+            message,
+            {
+              parse_mode: "Markdown",
+              link_preview_options: { is_disabled: true },
+              reply_markup: replyMarkup
             }
-          }
-          
-          // 4. Mark job as failed
-          await tx.update(swapJobs)
-            .set({
-              status: 'failed',
-              failureReason: error.message,
-              completedAt: new Date()
-            })
-            .where(eq(swapJobs.id, job.id));
-        });
+          );
+          console.log(`✅ NEW Telegram message sent successfully for ${job.type.toUpperCase()} job ${job.id}`);
+        } catch (sendError: any) {
+          console.error(`❌ Failed to send NEW Telegram message for job ${job.id}:`, sendError.message);
+          throw sendError; // Bubble up for logging
+        }
       }
+    } catch (telegramError: any) {
+      console.error(`❌ Telegram notification failed for job ${job.id}:`, telegramError.message);
+      console.error(`❌ Full error:`, telegramError);
     }
     
   } catch (error: any) {
-    console.error("Swap job processing error:", error);
+    if (error instanceof LeaseLostError) {
+      // Another worker owns the job now - it will finish settlement or rollback
+      console.warn(`⚠️  ${error.message} - leaving job to its new owner`);
+      return;
+    }
+    
+    console.error(`❌ Swap job ${job.id} failed:`, error.message);
+    
+    if (realTxHash) {
+      // Swap already executed on-chain: NEVER refund here (user would keep tokens AND SOL)
+      // Release the lease so the recovery path verifies on-chain status and retries settlement
+      console.error(`⚠️  Job ${job.id} has chainTxhash ${realTxHash} - releasing lease for recovery instead of rolling back`);
+      await dbLeaseStore.release(job.id, workerId).catch(err =>
+        console.error(`❌ Failed to release lease for job ${job.id}:`, err.message)
+      );
+      return;
+    }
+    
+    try {
+      await rollbackSwapJob(job, workerId, error.message);
+    } catch (rollbackError: any) {
+      if (rollbackError instanceof LeaseLostError) {
+        console.warn(`⚠️  ${rollbackError.message} - rollback skipped, job owned by another worker`);
+      } else {
+        console.error(`❌ Rollback failed for job ${job.id}:`, rollbackError);
+      }
+    }
+  }
+}
+
+/**
+ * Roll back a job that never moved funds on-chain: refund SOL (BUY) or tokens + cost basis (SELL)
+ * FENCED: Throws LeaseLostError (and changes nothing) if this worker no longer owns the job
+ */
+async function rollbackSwapJob(job: SwapJob, workerId: string, reason: string): Promise<void> {
+  // Rollback: Mark transaction as failed FIRST, then refund (audit trigger compliance)
+  await db.transaction(async (tx) => {
+    // 0. FENCING: Mark job failed ONLY if this worker still owns it (aborts rollback otherwise)
+    const fence = await tx.update(swapJobs)
+      .set({
+        status: 'failed',
+        failureReason: reason,
+        completedAt: new Date(),
+        leaseExpiresAt: null
+      })
+      .where(
+        sql`${swapJobs.id} = ${job.id} AND ${swapJobs.status} = 'processing' AND ${swapJobs.workerId} = ${workerId}`
+      )
+      .returning({ id: swapJobs.id });
+    
+    if (fence.length === 0) {
+      throw new LeaseLostError(job.id);
+    }
+    
+    // 1. Mark transaction as failed FIRST (before balance change)
+    await tx.update(transactions)
+      .set({
+        status: 'failed',
+        timestamp: new Date()
+      })
+      .where(eq(transactions.id, job.transactionId));
+    
+    if (job.type === 'buy') {
+      // 2. Refund SOL + ledger entry (trigger sees failed transaction above)
+      const refunded = await postSolMovement(tx, {
+        walletId: job.walletId,
+        amount: job.solAmount,
+        reason: 'swap_buy_refund',
+        transactionId: job.transactionId,
+        swapJobId: job.id,
+        memo: reason
+      });
+      if (!refunded) {
+        throw new Error(`No balance row for wallet ${job.walletId} - cannot refund BUY job ${job.id}`);
+      }
+      
+      // 3. Remove pendingInAmount
+      await tx.update(tokenHoldings)
+        .set({
+          pendingInAmount: sql`${tokenHoldings.pendingInAmount} - ${parseFloat(job.tokenAmount || '0')}`,
+          updatedAt: new Date()
+        })
+        .where(and(
+          eq(tokenHoldings.walletId, job.walletId),
+          eq(tokenHoldings.mint, job.tokenMint)
+        ));
+      
+      console.log(`🔄 BUY job ${job.id} rolled back, SOL refunded to user`);
+      
+    } else if (job.type === 'sell') {
+      // 2. Refund tokens back to holdings WITH cost basis restoration
+      // Fetch transaction for cost basis snapshot
+      const txRows = await tx.select()
+        .from(transactions)
+        .where(eq(transactions.id, job.transactionId))
+        .limit(1);
+      
+      const costBasisToRestore = txRows.length > 0 && txRows[0].costBasisAtSale 
+        ? parseFloat(txRows[0].costBasisAtSale) 
+        : 0;
+      
+      // Get current holdings to recalculate average entry price
+      const holdingRows = await tx.select()
+        .from(tokenHoldings)
+        .where(and(
+          eq(tokenHoldings.walletId, job.walletId),
+          eq(tokenHoldings.mint, job.tokenMint)
+        ))
+        .limit(1);
+      
+      if (holdingRows.length > 0) {
+        const currentCostBasis = parseFloat(holdingRows[0].totalCostBasis || '0');
+        const currentAmount = parseFloat(holdingRows[0].amount || '0');
+        const tokensToRestore = parseFloat(job.tokenAmount || '0');
+        
+        const newCostBasis = currentCostBasis + costBasisToRestore;
+        const newAmount = currentAmount + tokensToRestore;
+        const newAvgPrice = newAmount > 0 ? newCostBasis / newAmount : 0;
+        
+        await tx.update(tokenHoldings)
+          .set({
+            amount: sql`${tokenHoldings.amount} + ${tokensToRestore}`,
+            totalCostBasis: newCostBasis.toString(),
+            averageEntryPrice: newAvgPrice.toString(),
+            updatedAt: new Date()
+          })
+          .where(and(
+            eq(tokenHoldings.walletId, job.walletId),
+            eq(tokenHoldings.mint, job.tokenMint)
+          ));
+        
+        console.log(`🔄 SELL job ${job.id} rolled back: ${tokensToRestore.toFixed(6)} tokens + $${costBasisToRestore.toFixed(2)} cost basis restored`);
+      } else {
+        console.warn(`⚠️  No holding found for SELL rollback - cannot restore tokens`);
+      }
+    }
+  });
+  
+  await notifySwapJobListeners(job, { settled: true });
+}
+
+/**
+ * Job status to the wallet's open dashboard streams, plus the swap.completed / swap.failed webhook
+ * and a balance refresh once settled (data matches GET /api/swap/status/:txhash)
+ */
+async function notifySwapJobListeners(job: SwapJob, { settled }: { settled: boolean }): Promise<void> {
+  if (!settled && !hasWalletStream(job.walletId)) {
+    return; // Only the stream cares about a job being picked up
   }
+  
+  try {
+    const [transaction] = await db.select({ txhash: transactions.txhash })
+      .from(transactions)
+      .where(eq(transactions.id, job.transactionId))
+      .limit(1);
+    
+    const swap = transaction && await getSwapStatus(job.walletId, transaction.txhash);
+    if (!swap) {
+      return;
+    }
+    
+    publishWalletEvent(job.walletId, {
+      type: 'swap',
+      data: { swap: { ...swap, createdAt: swap.createdAt.toISOString(), completedAt: swap.completedAt?.toISOString() ?? null } },
+    });
+    
+    if (settled) {
+      await queueWebhookEvent(job.walletId, swap.status === 'completed' ? 'swap.completed' : 'swap.failed', { swap });
+      await refreshStreamBalance(job.walletId);
+    }
+  } catch (error: any) {
+    console.error(`❌ Swap job ${job.id} listeners not notified:`, error.message);
+  }
+}
+
+export interface SwapStatusInfo {
+  txhash: string;
+  type: 'buy' | 'sell';
+  tokenMint: string | null;
+  tokenSymbol: string | null;
+  status: SwapJob['status'];
+  failureReason: string | null;
+  chainTxhash: string | null;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+/**
+ * Status of a swap by its ANV transaction hash: the background job when it has one
+ * (orders, DCA, Telegram), otherwise the transaction itself (web swaps settle synchronously)
+ * @returns null if the hash is not a swap of this wallet
+ */
+export async function getSwapStatus(walletId: string, txhash: string): Promise<SwapStatusInfo | null> {
+  const [row] = await db.select({ transaction: transactions, job: swapJobs })
+    .from(transactions)
+    .leftJoin(swapJobs, eq(swapJobs.transactionId, transactions.id))
+    .where(and(
+      eq(transactions.walletId, walletId),
+      eq(transactions.txhash, txhash),
+      inArray(transactions.type, ['buy', 'sell'])
+    ))
+    .limit(1);
+
+  if (!row) {
+    return null;
+  }
+
+  const { transaction, job } = row;
+  return {
+    txhash: transaction.txhash,
+    type: transaction.type as 'buy' | 'sell',
+    tokenMint: transaction.tokenAddress ?? job?.tokenMint ?? null,
+    tokenSymbol: transaction.tokenSymbol,
+    status: job?.status ?? transaction.status,
+    failureReason: job?.failureReason ?? null,
+    chainTxhash: job?.chainTxhash ?? transaction.chainTxhash,
+    createdAt: job?.createdAt ?? transaction.timestamp,
+    completedAt: job ? job.completedAt : (transaction.status === 'pending' ? null : transaction.timestamp),
+  };
 }
@@ -0,0 +1,182 @@
+import { Connection, PublicKey, VersionedTransaction } from "@solana/web3.js";
+
+/**
+ * Pre-execution simulation for Jupiter Ultra swap transactions
+ *
+ * Runs the unsigned order transaction through RPC simulation and compares the
+ * simulated output (post-balance − pre-balance of the taker) against the job's
+ * expected amount minus the slippage bound. Failing swaps are caught before they
+ * land on-chain and cost fees.
+ *
+ * RPC access goes through SwapSimulationRpc so the check can be unit tested offline
+ */
+
+const NATIVE_SOL_MINT = 'So11111111111111111111111111111111111111112';
+const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+const TOKEN_ACCOUNT_AMOUNT_OFFSET = 64; // SPL Token / Token-2022 account layout: mint(32) + owner(32) + amount(u64)
+
+export interface SimulationAccount {
+  lamports: number;
+  owner: string;
+  data: Buffer;
+}
+
+export interface SimulationResult {
+  err: unknown | null;
+  logs: string[] | null;
+  accounts: (SimulationAccount | null)[]; // Post-simulation state, same order as requested addresses
+}
+
+/**
+ * Minimal RPC surface needed for swap simulation
+ */
+export interface SwapSimulationRpc {
+  simulateTransaction(transaction: VersionedTransaction, accountAddresses: string[]): Promise<SimulationResult>;
+  getAccount(address: string): Promise<SimulationAccount | null>;
+  getFeeForMessage(transaction: VersionedTransaction): Promise<number | null>;
+}
+
+export type SwapSimulationCheck =
+  | { kind: 'ok'; simulatedOut: bigint; minOut: bigint }
+  | { kind: 'error'; reason: string };
+
+/**
+ * Web3.js-backed implementation
+ */
+export function createConnectionSimulationRpc(connection: Connection): SwapSimulationRpc {
+  return {
+    async simulateTransaction(transaction, accountAddresses) {
+      const { value } = await connection.simulateTransaction(transaction, {
+        sigVerify: false, // Order transaction is unsigned at this point
+        replaceRecentBlockhash: true,
+        commitment: 'confirmed',
+        accounts: { encoding: 'base64', addresses: accountAddresses },
+      });
+
+      return {
+        err: value.err,
+        logs: value.logs,
+        accounts: (value.accounts || []).map(account => account
+          ? { lamports: account.lamports, owner: account.owner, data: Buffer.from(account.data[0], 'base64') }
+          : null),
+      };
+    },
+
+    async getAccount(address) {
+      const info = await connection.getAccountInfo(new PublicKey(address), 'confirmed');
+      return info ? { lamports: info.lamports, owner: info.owner.toBase58(), data: info.data } : null;
+    },
+
+    async getFeeForMessage(transaction) {
+      const { value } = await connection.getFeeForMessage(transaction.message, 'confirmed');
+      return value;
+    },
+  };
+}
+
+/**
+ * Convert a decimal UI amount string to raw integer units without float rounding
+ * e.g. ("1.5", 6) → 1500000; extra fractional digits are truncated
+ */
+export function toRawAmount(uiAmount: string, decimals: number): bigint {
+  const [whole, fraction = ''] = uiAmount.trim().split('.');
+  const paddedFraction = (fraction + '0'.repeat(decimals)).slice(0, decimals);
+  return BigInt((whole || '0') + paddedFraction);
+}
+
+/**
+ * Minimum acceptable output after applying slippage (rounded down)
+ */
+export function applySlippage(expectedOut: bigint, slippageBps: number): bigint {
+  return expectedOut * BigInt(10000 - slippageBps) / BigInt(10000);
+}
+
+function readTokenAmount(account: SimulationAccount | null): bigint {
+  if (!account || account.data.length < TOKEN_ACCOUNT_AMOUNT_OFFSET + 8) {
+    return BigInt(0);
+  }
+  return account.data.readBigUInt64LE(TOKEN_ACCOUNT_AMOUNT_OFFSET);
+}
+
+function describeSimulationError(result: SimulationResult): string {
+  const lastLog = result.logs?.filter(log => !log.startsWith('Program log: Instruction:')).slice(-1)[0];
+  return `Swap simulation failed: ${JSON.stringify(result.err)}${lastLog ? ` (${lastLog})` : ''}`;
+}
+
+/**
+ * Simulate a Jupiter Ultra order transaction and verify its output
+ * @param transaction - Base64 unsigned transaction from the Ultra /order response
+ * @param taker - Wallet receiving the output (liquidity router node)
+ * @param outputMint - Mint being received (SOL_MINT for sells)
+ * @param expectedOutAmount - Expected output in UI units (swapJobs.tokenAmount for BUY, swapJobs.solAmount for SELL)
+ * @param outputDecimals - Decimals of the output mint
+ * @param slippageBps - Maximum tolerated shortfall vs expected output
+ */
+export async function simulateSwapTransaction(params: {
+  transaction: string;
+  taker: string;
+  outputMint: string;
+  expectedOutAmount: string;
+  outputDecimals: number;
+  slippageBps: number;
+  rpc: SwapSimulationRpc;
+}): Promise<SwapSimulationCheck> {
+  const { transaction, taker, outputMint, expectedOutAmount, outputDecimals, slippageBps, rpc } = params;
+
+  let tx: VersionedTransaction;
+  try {
+    tx = VersionedTransaction.deserialize(Buffer.from(transaction, 'base64'));
+  } catch (error: any) {
+    return { kind: 'error', reason: `Invalid swap transaction: ${error.message}` };
+  }
+
+  const expectedOut = toRawAmount(expectedOutAmount, outputDecimals);
+  const minOut = applySlippage(expectedOut, slippageBps);
+  let simulatedOut: bigint;
+
+  if (outputMint === NATIVE_SOL_MINT) {
+    // SELL: Ultra unwraps SOL to the taker - measure native lamports, adding back the fee if taker pays it
+    const preAccount = await rpc.getAccount(taker);
+    const result = await rpc.simulateTransaction(tx, [taker]);
+    if (result.err) {
+      return { kind: 'error', reason: describeSimulationError(result) };
+    }
+
+    const pre = BigInt(preAccount?.lamports ?? 0);
+    const post = BigInt(result.accounts[0]?.lamports ?? 0);
+    const feePayer = tx.message.staticAccountKeys[0]?.toBase58();
+    const fee = feePayer === taker ? BigInt((await rpc.getFeeForMessage(tx)) ?? 0) : BigInt(0);
+    simulatedOut = post - pre + fee;
+  } else {
+    // BUY: measure the taker's associated token account for the output mint
+    const mintAccount = await rpc.getAccount(outputMint);
+    if (!mintAccount) {
+      return { kind: 'error', reason: `Output mint ${outputMint} not found on-chain` };
+    }
+
+    const [tokenAccount] = PublicKey.findProgramAddressSync(
+      [new PublicKey(taker).toBuffer(), new PublicKey(mintAccount.owner).toBuffer(), new PublicKey(outputMint).toBuffer()],
+      ASSOCIATED_TOKEN_PROGRAM_ID
+    );
+    const tokenAccountAddress = tokenAccount.toBase58();
+
+    const preAccount = await rpc.getAccount(tokenAccountAddress);
+    const result = await rpc.simulateTransaction(tx, [tokenAccountAddress]);
+    if (result.err) {
+      return { kind: 'error', reason: describeSimulationError(result) };
+    }
+
+    simulatedOut = readTokenAmount(result.accounts[0]) - readTokenAmount(preAccount);
+  }
+
+  if (simulatedOut < minOut) {
+    const divisor = 10 ** outputDecimals;
+    return {
+      kind: 'error',
+      reason: `Simulated output ${(Number(simulatedOut) / divisor).toFixed(6)} is below minimum ` +
+        `${(Number(minOut) / divisor).toFixed(6)} (expected ${expectedOutAmount}, slippage ${slippageBps / 100}%)`
+    };
+  }
+
+  return { kind: 'ok', simulatedOut, minOut };
+}
@@ -0,0 +1,179 @@
+import { db } from "./db";
+import { costLots, lotDisposals, transactions, type CostLot, type LotDisposal } from "@shared/schema";
+import { eq, and, gt, gte, lt, asc, inArray, isNotNull, sql } from "drizzle-orm";
+import { getTradingSettings } from "./trading-settings";
+import { replayLots, summarizeDisposals, buildDisposalsCsv, type CostBasisMethod, type LotTrade } from "./cost-lots";
+
+// Keeps each multi-row insert well under Postgres' bind parameter limit
+const INSERT_BATCH_SIZE = 500;
+
+/**
+ * Rebuild a wallet's lots and disposals by replaying its completed buys and sells
+ * Lots are derived data: this is safe to run at any time (after each settled trade, after a method change,
+ * or for historical wallets via server/rebuild-cost-lots.ts)
+ * Rebuilds of one wallet are serialized by a transaction-scoped advisory lock: trades settling at the same
+ * time would otherwise interleave their delete and insert steps
+ */
+export async function rebuildCostLots(walletId: string): Promise<{ success: boolean; lots?: number; disposals?: number; error?: string }> {
+  try {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`cost_lots:${walletId}`}))`);
+
+      // Read under the lock so the replay sees every trade settled before it
+      const { costBasisMethod: method } = await getTradingSettings(walletId);
+
+      const rows = await tx.select({
+        id: transactions.id,
+        type: transactions.type,
+        tokenAddress: transactions.tokenAddress,
+        tokenSymbol: transactions.tokenSymbol,
+        amount: transactions.amount,
+        priceUsd: transactions.priceUsd,
+        timestamp: transactions.timestamp,
+      })
+        .from(transactions)
+        .where(and(
+          eq(transactions.walletId, walletId),
+          eq(transactions.status, 'completed'),
+          inArray(transactions.type, ['buy', 'sell']),
+          isNotNull(transactions.tokenAddress)
+        ))
+        .orderBy(asc(transactions.timestamp));
+
+      const trades: LotTrade[] = rows.map(row => ({
+        transactionId: row.id,
+        type: row.type as 'buy' | 'sell',
+        mint: row.tokenAddress!,
+        tokenSymbol: (row.tokenSymbol || 'UNKNOWN').slice(0, 20),
+        amount: parseFloat(row.amount),
+        priceUsd: parseFloat(row.priceUsd || '0'),
+        timestamp: row.timestamp,
+      }));
+
+      const { lots, disposals } = replayLots(trades, method);
+
+      await tx.delete(lotDisposals).where(eq(lotDisposals.walletId, walletId));
+      await tx.delete(costLots).where(eq(costLots.walletId, walletId));
+
+      const lotIds = new Map<string, string>();
+
+      for (let i = 0; i < lots.length; i += INSERT_BATCH_SIZE) {
+        const inserted = await tx.insert(costLots).values(lots.slice(i, i + INSERT_BATCH_SIZE).map(lot => ({
+          walletId,
+          transactionId: lot.transactionId,
+          mint: lot.mint,
+          tokenSymbol: lot.tokenSymbol,
+          acquiredAt: lot.acquiredAt,
+          amount: lot.amount.toFixed(9),
+          costUsd: lot.costUsd.toFixed(6),
+          remainingAmount: lot.remainingAmount.toFixed(9),
+          remainingCostUsd: lot.remainingCostUsd.toFixed(6),
+          method,
+        }))).returning({ id: costLots.id, transactionId: costLots.transactionId });
+
+        inserted.forEach(row => lotIds.set(row.transactionId, row.id));
+      }
+
+      for (let i = 0; i < disposals.length; i += INSERT_BATCH_SIZE) {
+        await tx.insert(lotDisposals).values(disposals.slice(i, i + INSERT_BATCH_SIZE).map(disposal => ({
+          walletId,
+          transactionId: disposal.transactionId,
+          lotId: disposal.lotTransactionId ? lotIds.get(disposal.lotTransactionId) ?? null : null,
+          mint: disposal.mint,
+          tokenSymbol: disposal.tokenSymbol,
+          acquiredAt: disposal.acquiredAt,
+          disposedAt: disposal.disposedAt,
+          amount: disposal.amount.toFixed(9),
+          proceedsUsd: disposal.proceedsUsd.toFixed(6),
+          costBasisUsd: disposal.costBasisUsd.toFixed(6),
+          gainUsd: disposal.gainUsd.toFixed(6),
+          term: disposal.term,
+          method,
+        })));
+      }
+
+      return { success: true, lots: lots.length, disposals: disposals.length };
+    });
+  } catch (error: any) {
+    console.error(`Rebuild cost lots error (wallet ${walletId}):`, error);
+    return { success: false, error: error.message || "Failed to rebuild cost lots" };
+  }
+}
+
+/**
+ * Lots that still hold tokens (optionally for one token), oldest first
+ */
+export async function getOpenCostLots(walletId: string, mint?: string): Promise<CostLot[]> {
+  return await db.select()
+    .from(costLots)
+    .where(and(
+      eq(costLots.walletId, walletId),
+      gt(costLots.remainingAmount, '0'),
+      ...(mint ? [eq(costLots.mint, mint)] : [])
+    ))
+    .orderBy(asc(costLots.acquiredAt));
+}
+
+/**
+ * Disposals (optionally for one calendar year, UTC), oldest first
+ */
+export async function getLotDisposals(walletId: string, year?: number): Promise<Array<LotDisposal & { txhash: string }>> {
+  const rows = await db.select({ disposal: lotDisposals, txhash: transactions.txhash })
+    .from(lotDisposals)
+    .innerJoin(transactions, eq(lotDisposals.transactionId, transactions.id))
+    .where(and(
+      eq(lotDisposals.walletId, walletId),
+      ...(year !== undefined ? [
+        gte(lotDisposals.disposedAt, new Date(Date.UTC(year, 0, 1))),
+        lt(lotDisposals.disposedAt, new Date(Date.UTC(year + 1, 0, 1)))
+      ] : [])
+    ))
+    .orderBy(asc(lotDisposals.disposedAt));
+
+  return rows.map(row => ({ ...row.disposal, txhash: row.txhash }));
+}
+
+/**
+ * Realized gains split into short-term and long-term (optionally for one calendar year)
+ */
+export async function getRealizedGains(walletId: string, year?: number): Promise<{
+  method: CostBasisMethod;
+  year: number | null;
+  disposals: number;
+  proceedsUsd: string;
+  costBasisUsd: string;
+  shortTermGainUsd: string;
+  longTermGainUsd: string;
+  unknownTermGainUsd: string;
+}> {
+  const [{ costBasisMethod: method }, disposals] = await Promise.all([
+    getTradingSettings(walletId),
+    getLotDisposals(walletId, year)
+  ]);
+
+  const summary = summarizeDisposals(disposals.map(disposal => ({
+    proceedsUsd: parseFloat(disposal.proceedsUsd),
+    costBasisUsd: parseFloat(disposal.costBasisUsd),
+    gainUsd: parseFloat(disposal.gainUsd),
+    term: disposal.term,
+  })));
+
+  return {
+    method,
+    year: year ?? null,
+    disposals: disposals.length,
+    proceedsUsd: summary.proceedsUsd.toFixed(2),
+    costBasisUsd: summary.costBasisUsd.toFixed(2),
+    shortTermGainUsd: summary.shortTermGainUsd.toFixed(2),
+    longTermGainUsd: summary.longTermGainUsd.toFixed(2),
+    unknownTermGainUsd: summary.unknownTermGainUsd.toFixed(2),
+  };
+}
+
+/**
+ * Disposals as a CSV file for tax filing
+ */
+export async function exportDisposalsCsv(walletId: string, year?: number): Promise<string> {
+  const disposals = await getLotDisposals(walletId, year);
+  return buildDisposalsCsv(disposals);
+}
@@ -10,7 +10,7 @@ import { deriveANVAddresses } from "./anv-address";
 
 // Import handlers
 import { handleStart } from "./telegram/handlers/start.js";
-import { handleDeposit, handleDepositAmount } from "./telegram/handlers/deposit.js";
+import { handleDeposit, handleDepositAmount, handleDepositConfirm } from "./telegram/handlers/deposit.js";
 import { handleWithdraw, handleWithdrawAmount, handleWithdrawAddress } from "./telegram/handlers/withdraw.js";
 import { handlePortfolio } from "./telegram/handlers/portfolio.js";
 import { handlePnlCard } from "./telegram/handlers/pnl-card.js";
@@ -21,7 +21,14 @@ import { handleStartImport } from "./telegram/handlers/start-import.js";
 import { handleWallets } from "./telegram/handlers/wallets.js";
 import { handleSwitch, handleSwitchWallet } from "./telegram/handlers/switch.js";
 import { handleMonitor, handleMonitorCallback, handleStopMonitor } from "./telegram/handlers/monitor.js";
+import { handleOrders, handleCancelLimitOrder } from "./telegram/handlers/orders.js";
+import { handleTpSl, handleCancelTpSl } from "./telegram/handlers/tpsl.js";
+import { handleSettings, handleSettingsCallback } from "./telegram/handlers/settings.js";
+import { handleCopy, handleCopyCallback } from "./telegram/handlers/copy.js";
+import { handleAlerts, handleCancelAlert } from "./telegram/handlers/alerts.js";
+import { handleDca, handleDcaCallback } from "./telegram/handlers/dca.js";
 import { createInstantBuyOrder } from "./instant-buy.js";
+import { conversations } from "./telegram/conversations.js";
 
 const BOT_TOKEN = process.env.TELEGRAM_BOT_TOKEN;
 
@@ -34,24 +41,10 @@ export const bot = BOT_TOKEN ? new Bot(BOT_TOKEN) : null;
 // Track whether we're using webhooks or polling
 let isUsingWebhooks = false;
 
-// Conversation state tracking
-type ConversationState = 'waiting_deposit_amount' | 'waiting_withdraw_amount' | 'waiting_withdraw_address' | 'waiting_private_key' | 'waiting_custom_buy_amount' | null;
-const conversationState = new Map<string, ConversationState>();
-
-// Track contract address for custom buy
-export const customBuyContractAddress = new Map<string, string>();
-
-export function setConversationState(userId: string, state: ConversationState) {
-  if (state === null) {
-    conversationState.delete(userId);
-  } else {
-    conversationState.set(userId, state);
-  }
-}
-
-export function getConversationState(userId: string): ConversationState {
-  return conversationState.get(userId) || null;
-}
+// Input patterns for conversation steps
+const AMOUNT_PATTERN = /^\d+\.?\d*$/;
+const PRIVATE_KEY_PATTERN = /^\[[\d,\s]+\]$/;
+const SOLANA_ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
 
 export async function setupTelegramBot() {
   if (!bot) {
@@ -68,7 +61,14 @@ export async function setupTelegramBot() {
     { command: "portfolio", description: "View holdings and balance" },
     { command: "pnl", description: "Display PnL performance card" },
     { command: "monitor", description: "Live portfolio monitoring" },
-    { command: "switch", description: "Switch active wallet" }
+    { command: "orders", description: "View and cancel limit orders" },
+    { command: "tpsl", description: "Take-profit and stop-loss rules" },
+    { command: "dca", description: "Recurring buy schedules" },
+    { command: "settings", description: "Slippage, priority fee and anti-MEV" },
+    { command: "copy", description: "Copy-trade other ANV wallets" },
+    { command: "alerts", description: "Price, PnL and portfolio alerts" },
+    { command: "switch", description: "Switch active wallet" },
+    { command: "cancel", description: "Cancel the current action" }
   ]);
   console.log("✅ Bot menu commands configured");
 
@@ -89,55 +89,55 @@ export async function setupTelegramBot() {
   bot.command("stopmonitor", handleStopMonitor);
   bot.command("wallets", handleWallets);
   bot.command("switch", handleSwitch);
-
-  // Number detection (for deposit/withdraw amounts and custom buy)
-  bot.hears(/^\d+\.?\d*$/, async (ctx) => {
-    if (!ctx.from || !ctx.message?.text) return;
-    
-    const userId = ctx.from.id.toString();
-    const state = getConversationState(userId);
-    
-    if (state === 'waiting_deposit_amount') {
-      // Don't clear state yet - let handler decide after validation
-      await handleDepositAmount(ctx, ctx.message.text);
-    } else if (state === 'waiting_withdraw_amount') {
-      // Don't clear state yet - let handler decide after validation
-      await handleWithdrawAmount(ctx, ctx.message.text);
-    } else if (state === 'waiting_custom_buy_amount') {
-      const ca = customBuyContractAddress.get(userId);
-      if (ca) {
-        setConversationState(userId, null);
-        customBuyContractAddress.delete(userId);
-        await handleTradeBuy(ctx, ca, ctx.message.text);
-      }
-    }
+  bot.command("orders", handleOrders);
+  bot.command("tpsl", handleTpSl);
+  bot.command("dca", handleDca);
+  bot.command("settings", handleSettings);
+  bot.command("copy", handleCopy);
+  bot.command("alerts", handleAlerts);
+  bot.command("cancel", async (ctx) => {
+    if (!ctx.from) return;
+    const cancelled = await conversations.end(ctx.from.id.toString());
+    await ctx.reply(cancelled ? "❌ Cancelled." : "Nothing to cancel.");
   });
 
-  // Private key import detection (JSON array format)
-  bot.hears(/^\[[\d,\s]+\]$/, async (ctx) => {
-    if (!ctx.from || !ctx.message?.text) return;
-    
-    const userId = ctx.from.id.toString();
-    const state = getConversationState(userId);
-    
-    if (state === 'waiting_private_key') {
-      await handlePrivateKeyImport(ctx, ctx.message.text);
-    }
+  // Conversation steps - handlers validate their input and move the conversation on (or end it)
+  // Handlers that reject input leave the step active so the user can retry
+  conversations.register('deposit', 'amount', {
+    accepts: AMOUNT_PATTERN,
+    handle: (ctx, input) => handleDepositAmount(ctx, input),
+  });
+  conversations.register('withdraw', 'amount', {
+    accepts: AMOUNT_PATTERN,
+    handle: (ctx, input) => handleWithdrawAmount(ctx, input),
+  });
+  conversations.register('withdraw', 'address', {
+    accepts: SOLANA_ADDRESS_PATTERN,
+    handle: (ctx, input, { amount }) => handleWithdrawAddress(ctx, input, amount),
+  });
+  conversations.register('import_wallet', 'private_key', {
+    accepts: PRIVATE_KEY_PATTERN,
+    handle: (ctx, input) => handlePrivateKeyImport(ctx, input),
+  });
+  conversations.register('custom_buy', 'amount', {
+    accepts: AMOUNT_PATTERN,
+    handle: async (ctx, input, { tokenMint }) => {
+      await conversations.end(ctx.from!.id.toString());
+      await handleTradeBuy(ctx, tokenMint, input);
+    },
   });
 
-  // Contract address detection (regex for Solana addresses)
-  bot.hears(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, async (ctx) => {
-    if (!ctx.from || !ctx.message?.text) return;
-    
-    const userId = ctx.from.id.toString();
-    const state = getConversationState(userId);
-    
-    // Check if user is waiting for withdraw destination address
-    if (state === 'waiting_withdraw_address') {
-      await handleWithdrawAddress(ctx, ctx.message.text);
-    } else {
-      // Otherwise treat as contract address for trading
-      await handleTradeCA(ctx, ctx.message.text);
+  // Text messages: active conversation step first, then contract address detection
+  bot.on("message:text", async (ctx) => {
+    const text = ctx.message.text.trim();
+    if (text.startsWith("/")) return; // Unknown command
+
+    const result = await conversations.dispatch(ctx, ctx.from.id.toString(), text);
+
+    if (result === 'expired') {
+      await ctx.reply("⌛ That request timed out. Please start again.");
+    } else if (result !== 'handled' && SOLANA_ADDRESS_PATTERN.test(text)) {
+      await handleTradeCA(ctx, text);
     }
   });
 
@@ -155,6 +155,13 @@ export async function setupTelegramBot() {
       const depositId = data.replace("refresh_deposit_", "");
       await handleDeposit(ctx, depositId);
       await ctx.answerCallbackQuery();
+    } else if (data.startsWith("confirm_deposit_")) {
+      const amount = data.replace("confirm_deposit_", "");
+      await ctx.answerCallbackQuery("⏳ Generating deposit address...");
+      await handleDepositConfirm(ctx, amount);
+    } else if (data === "cancel_deposit") {
+      await ctx.answerCallbackQuery("Deposit cancelled");
+      await ctx.editMessageText("❌ Deposit cancelled. Use /deposit to start again.");
     } else if (data.startsWith("refresh_withdraw_")) {
       const withdrawalId = data.replace("refresh_withdraw_", "");
       await handleWithdraw(ctx, withdrawalId);
@@ -178,8 +185,7 @@ export async function setupTelegramBot() {
       const ca = data.replace("custom_buy_", "");
       const userId = ctx.from?.id.toString();
       if (userId) {
-        setConversationState(userId, 'waiting_custom_buy_amount');
-        customBuyContractAddress.set(userId, ca);
+        await conversations.start(userId, 'custom_buy', 'amount', { tokenMint: ca });
         await ctx.answerCallbackQuery();
         await ctx.reply(
           `✏️ *Enter Custom SOL Amount*\n\n` +
@@ -203,6 +209,36 @@ export async function setupTelegramBot() {
       // Refresh portfolio button pressed (legacy - only for portfolio context)
       await ctx.answerCallbackQuery("🔄 Refreshing portfolio...");
       await handlePortfolio(ctx);
+    } else if (data.startsWith("cancel_limit_")) {
+      const orderId = data.replace("cancel_limit_", "");
+      await handleCancelLimitOrder(ctx, orderId);
+    } else if (data === "refresh_orders") {
+      await ctx.answerCallbackQuery("🔄 Refreshing orders...");
+      await handleOrders(ctx);
+    } else if (data.startsWith("cancel_tpsl_")) {
+      const ruleId = data.replace("cancel_tpsl_", "");
+      await handleCancelTpSl(ctx, ruleId);
+    } else if (data === "refresh_tpsl") {
+      await ctx.answerCallbackQuery("🔄 Refreshing rules...");
+      await handleTpSl(ctx);
+    } else if (data === "refresh_dca") {
+      await ctx.answerCallbackQuery("🔄 Refreshing schedules...");
+      await handleDca(ctx);
+    } else if (data.startsWith("dca_")) {
+      await handleDcaCallback(ctx, data);
+    } else if (data.startsWith("tset_")) {
+      await handleSettingsCallback(ctx, data);
+    } else if (data === "refresh_copy") {
+      await ctx.answerCallbackQuery("🔄 Refreshing follows...");
+      await handleCopy(ctx);
+    } else if (data.startsWith("copy_")) {
+      await handleCopyCallback(ctx, data);
+    } else if (data.startsWith("cancel_alert_")) {
+      const alertId = data.replace("cancel_alert_", "");
+      await handleCancelAlert(ctx, alertId);
+    } else if (data === "refresh_alerts") {
+      await ctx.answerCallbackQuery("🔄 Refreshing alerts...");
+      await handleAlerts(ctx);
     } else if (data.startsWith("monitor_")) {
       // Handle all monitor callbacks
       await handleMonitorCallback(ctx, data);
@@ -283,8 +319,8 @@ async function handlePrivateKeyImport(ctx: Context, privateKeyText: string) {
       return;
     }
     
-    // Clear conversation state after successful validation
-    setConversationState(telegramUserId, null);
+    // End the import conversation after successful validation
+    await conversations.end(telegramUserId);
     
     // Derive ANV address (v2 - public key-based)
     const privateKeyBytes = new Uint8Array(privateKeyArray);
@@ -459,6 +495,28 @@ export async function setActiveWallet(walletId: string, telegramUserId: string):
   }
 }
 
+// Helper: Send a Markdown notification to the Telegram owner of a wallet
+// No-op when the bot is disabled or the wallet is web-only (no telegramUserId)
+export async function notifyWalletOwner(walletId: string, message: string, keyboard?: InlineKeyboard): Promise<void> {
+  if (!bot) return;
+  
+  try {
+    const owner = await db.select({ telegramUserId: wallets.telegramUserId })
+      .from(wallets)
+      .where(eq(wallets.id, walletId))
+      .limit(1);
+    
+    if (owner.length === 0 || !owner[0].telegramUserId) return;
+    
+    await bot.api.sendMessage(owner[0].telegramUserId, message, {
+      parse_mode: "Markdown",
+      reply_markup: keyboard
+    });
+  } catch (error: any) {
+    console.error(`❌ Telegram notification failed for wallet ${walletId}:`, error.message);
+  }
+}
+
 // Refresh transaction status handler - Fetches latest status from DB
 async function handleRefreshTransaction(ctx: Context) {
   if (!ctx.callbackQuery?.message) return;
@@ -0,0 +1,149 @@
+/**
+ * Telegram conversation engine
+ *
+ * A conversation is one multi-step flow a user is in the middle of (e.g. withdraw: amount → address).
+ * Each user has at most one; starting a flow replaces the previous one.
+ *
+ * - Flows and their steps are a typed map: Steps[flow][step] is the payload that step receives
+ * - Steps register a handler (plus an optional input pattern and timeout) with the engine
+ * - State lives in a ConversationStore, so a restart mid-flow resumes at the same step
+ * - dispatch() routes a user's text message to the handler of their current step
+ *
+ * Persistence is injected so the engine runs without a database
+ * (see __tests__/unit/conversation-engine.test.ts)
+ */
+
+export type ConversationStepMap = Record<string, Record<string, object>>;
+
+export const DEFAULT_CONVERSATION_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+
+export interface StoredConversation {
+  flow: string;
+  step: string;
+  payload: unknown;
+  expiresAt: Date;
+}
+
+export interface ConversationStore {
+  get(userId: string): Promise<StoredConversation | null>;
+  /** Insert or replace the user's conversation */
+  save(userId: string, conversation: StoredConversation): Promise<void>;
+  delete(userId: string): Promise<void>;
+}
+
+export interface ConversationStepDefinition<Ctx, Payload> {
+  /** Messages that do not match are left to the bot's other handlers (the conversation stays active) */
+  accepts?: RegExp;
+  timeoutMs?: number;
+  handle(ctx: Ctx, input: string, payload: Payload): Promise<void>;
+}
+
+export type ActiveConversation<Steps extends ConversationStepMap> = {
+  [F in keyof Steps]: {
+    [S in keyof Steps[F]]: { flow: F; step: S; payload: Steps[F][S]; expiresAt: Date }
+  }[keyof Steps[F]]
+}[keyof Steps];
+
+/**
+ * - handled: the step handler ran
+ * - unmatched: a conversation is active but the input does not match the step's pattern
+ * - expired: the step would have accepted the input but the conversation timed out (it is removed)
+ * - none: no active conversation
+ */
+export type DispatchResult = 'handled' | 'unmatched' | 'expired' | 'none';
+
+export class ConversationEngine<Steps extends ConversationStepMap, Ctx> {
+  private readonly steps = new Map<string, ConversationStepDefinition<Ctx, any>>();
+
+  constructor(
+    private readonly store: ConversationStore,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  register<F extends keyof Steps & string, S extends keyof Steps[F] & string>(
+    flow: F,
+    step: S,
+    definition: ConversationStepDefinition<Ctx, Steps[F][S]>
+  ) {
+    const key = `${flow}:${step}`;
+    if (this.steps.has(key)) {
+      throw new Error(`Conversation step already registered: ${key}`);
+    }
+    this.steps.set(key, definition);
+  }
+
+  /**
+   * Move the user to `step` of `flow` (replacing any other conversation) and restart the timeout
+   */
+  async start<F extends keyof Steps & string, S extends keyof Steps[F] & string>(
+    userId: string,
+    flow: F,
+    step: S,
+    payload: Steps[F][S]
+  ): Promise<void> {
+    const definition = this.steps.get(`${flow}:${step}`);
+    if (!definition) {
+      throw new Error(`Unknown conversation step: ${flow}:${step}`);
+    }
+
+    await this.store.save(userId, {
+      flow,
+      step,
+      payload,
+      expiresAt: new Date(this.now() + (definition.timeoutMs ?? DEFAULT_CONVERSATION_TIMEOUT_MS)),
+    });
+  }
+
+  /**
+   * End (or cancel) the user's conversation. Returns the conversation that was active, if any
+   */
+  async end(userId: string): Promise<ActiveConversation<Steps> | null> {
+    const active = await this.get(userId);
+    await this.store.delete(userId);
+    return active;
+  }
+
+  /**
+   * The user's active conversation, or null if there is none or it timed out
+   */
+  async get(userId: string): Promise<ActiveConversation<Steps> | null> {
+    const stored = await this.store.get(userId);
+    if (!stored || stored.expiresAt.getTime() <= this.now() || !this.steps.has(`${stored.flow}:${stored.step}`)) {
+      return null;
+    }
+    return stored as ActiveConversation<Steps>;
+  }
+
+  async dispatch(ctx: Ctx, userId: string, input: string): Promise<DispatchResult> {
+    const stored = await this.store.get(userId);
+    if (!stored) {
+      return 'none';
+    }
+
+    const definition = this.steps.get(`${stored.flow}:${stored.step}`);
+    if (!definition) {
+      // Step removed by a deploy - drop the orphaned state
+      await this.store.delete(userId);
+      return 'none';
+    }
+
+    if (definition.accepts && !definition.accepts.test(input)) {
+      return 'unmatched';
+    }
+
+    if (stored.expiresAt.getTime() <= this.now()) {
+      await this.store.delete(userId);
+      return 'expired';
+    }
+
+    try {
+      await definition.handle(ctx, input, stored.payload);
+    } catch (error) {
+      // Never leave a user stuck in a step whose handler crashed
+      await this.store.delete(userId);
+      throw error;
+    }
+
+    return 'handled';
+  }
+}
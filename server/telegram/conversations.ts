@@ -0,0 +1,70 @@
+import type { Context } from "grammy";
+import { db } from "../db";
+import { telegramConversations } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { ConversationEngine, type ConversationStore } from "./conversation-engine.js";
+
+/**
+ * Telegram bot flows: flow → step → payload the step receives
+ * Step handlers are registered in setupTelegramBot (server/telegram-bot.ts)
+ */
+export type ConversationSteps = {
+  deposit: {
+    amount: {};
+  };
+  withdraw: {
+    amount: {};
+    address: { amount: string };
+  };
+  import_wallet: {
+    private_key: {};
+  };
+  custom_buy: {
+    amount: { tokenMint: string };
+  };
+};
+
+// telegram_conversations: one row per user, payload serialized as JSON
+const dbConversationStore: ConversationStore = {
+  async get(userId) {
+    const [row] = await db.select()
+      .from(telegramConversations)
+      .where(eq(telegramConversations.telegramUserId, userId))
+      .limit(1);
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      flow: row.flow,
+      step: row.step,
+      payload: JSON.parse(row.payload),
+      expiresAt: row.expiresAt,
+    };
+  },
+
+  async save(userId, conversation) {
+    const values = {
+      flow: conversation.flow,
+      step: conversation.step,
+      payload: JSON.stringify(conversation.payload),
+      expiresAt: conversation.expiresAt,
+      updatedAt: new Date(),
+    };
+
+    await db.insert(telegramConversations)
+      .values({ telegramUserId: userId, ...values })
+      .onConflictDoUpdate({
+        target: telegramConversations.telegramUserId,
+        set: values,
+      });
+  },
+
+  async delete(userId) {
+    await db.delete(telegramConversations)
+      .where(eq(telegramConversations.telegramUserId, userId));
+  },
+};
+
+export const conversations = new ConversationEngine<ConversationSteps, Context>(dbConversationStore);
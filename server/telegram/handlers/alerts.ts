@@ -0,0 +1,162 @@
+import { Context, InlineKeyboard } from "grammy";
+import { getWallet } from "../../telegram-bot.js";
+import { getAlerts, cancelAlert, createAlert, describeAlert } from "../../alerts.js";
+import type { AlertKind } from "../../alert-evaluator.js";
+
+const USAGE =
+  `*Usage:*\n` +
+  `\`/alerts price <CA> above|below <USD>\`\n` +
+  `\`/alerts pnl <CA> <±percent>\`\n` +
+  `\`/alerts portfolio below <USD>\`\n\n` +
+  `*Examples:*\n` +
+  `\`/alerts price <CA> above 0.0042\`\n` +
+  `\`/alerts pnl <CA> -20%\` - position down 20%\n` +
+  `\`/alerts portfolio below 500\``;
+
+// /alerts            → list active alerts
+// /alerts <type> ... → create an alert
+export async function handleAlerts(ctx: Context) {
+  if (!ctx.from) return;
+
+  const telegramUserId = ctx.from.id.toString();
+
+  try {
+    const wallet = await getWallet(telegramUserId);
+
+    if (!wallet) {
+      await ctx.reply(
+        `⚠️ *No Wallet Found*\n\n` +
+        `You need to create a wallet first.\n\n` +
+        `Use /start to generate or import a wallet.`,
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
+    const args = typeof ctx.match === 'string' ? ctx.match.trim().split(/\s+/).filter(Boolean) : [];
+
+    if (args.length > 0) {
+      await handleCreateAlert(ctx, wallet.id, args);
+      return;
+    }
+
+    const { message, keyboard } = await buildAlertsMessage(wallet.id);
+
+    if (ctx.callbackQuery) {
+      await ctx.editMessageText(message, { parse_mode: "Markdown", reply_markup: keyboard });
+    } else {
+      await ctx.reply(message, { parse_mode: "Markdown", reply_markup: keyboard });
+    }
+  } catch (error: any) {
+    // Ignore "message is not modified" on refresh
+    if (error?.description?.includes("message is not modified")) return;
+    console.error("Error in /alerts:", error);
+    await ctx.reply("❌ Failed to load alerts. Please try again.");
+  }
+}
+
+// Callback handler for cancel buttons
+export async function handleCancelAlert(ctx: Context, alertId: string) {
+  if (!ctx.from) return;
+
+  const telegramUserId = ctx.from.id.toString();
+
+  try {
+    const wallet = await getWallet(telegramUserId);
+    if (!wallet) {
+      await ctx.answerCallbackQuery("❌ No active wallet");
+      return;
+    }
+
+    const result = await cancelAlert(wallet.id, alertId);
+    if (!result.success) {
+      await ctx.answerCallbackQuery(`❌ ${result.error}`);
+    } else {
+      await ctx.answerCallbackQuery("✅ Alert cancelled");
+    }
+
+    await handleAlerts(ctx);
+  } catch (error) {
+    console.error("Error cancelling alert:", error);
+    await ctx.answerCallbackQuery("❌ Failed to cancel alert");
+  }
+}
+
+function parseAlertArgs(args: string[]): { kind: AlertKind; mint?: string; threshold: string } | null {
+  const [type, ...rest] = args.map(a => a.trim());
+
+  switch (type?.toLowerCase()) {
+    case 'price': {
+      const [mint, direction, value] = rest;
+      const dir = direction?.toLowerCase();
+      if (!mint || !value || (dir !== 'above' && dir !== 'below')) return null;
+      return { kind: dir === 'above' ? 'price_above' : 'price_below', mint, threshold: value.replace(/^\$/, '') };
+    }
+    case 'pnl': {
+      const [mint, value] = rest;
+      if (!mint || !value) return null;
+      return { kind: 'position_pnl', mint, threshold: value.replace(/%$/, '').replace(/^\+/, '') };
+    }
+    case 'portfolio': {
+      const [direction, value] = rest;
+      if (direction?.toLowerCase() !== 'below' || !value) return null;
+      return { kind: 'portfolio_below', threshold: value.replace(/^\$/, '') };
+    }
+    default:
+      return null;
+  }
+}
+
+async function handleCreateAlert(ctx: Context, walletId: string, args: string[]) {
+  const parsed = parseAlertArgs(args);
+
+  if (!parsed) {
+    await ctx.reply(`⚠️ *Invalid Command*\n\n${USAGE}`, { parse_mode: "Markdown" });
+    return;
+  }
+
+  const result = await createAlert({ walletId, ...parsed });
+
+  if (!result.success || !result.alert) {
+    await ctx.reply(`❌ *Failed to Create Alert*\n\n${result.error || "Unknown error"}`, { parse_mode: "Markdown" });
+    return;
+  }
+
+  await ctx.reply(
+    `✅ *Alert Set*\n\n` +
+    `🔔 ${describeAlert(result.alert)}\n` +
+    `⏱ Cooldown: ${result.alert.cooldownMinutes} min between notifications\n\n` +
+    `Use /alerts to view or cancel your alerts.`,
+    { parse_mode: "Markdown" }
+  );
+}
+
+async function buildAlertsMessage(walletId: string): Promise<{ message: string; keyboard: InlineKeyboard }> {
+  const active = await getAlerts(walletId, 'active');
+  const keyboard = new InlineKeyboard();
+
+  if (active.length === 0) {
+    keyboard.text("🔄 Refresh", "refresh_alerts");
+    return {
+      message:
+        `🔔 *ALERTS*\n\n` +
+        `You have no active alerts.\n\n` +
+        USAGE,
+      keyboard
+    };
+  }
+
+  let message = `🔔 *ALERTS* (${active.length})\n\n`;
+
+  active.forEach((alert, index) => {
+    const state = alert.armed ? "Watching" : "Fired - waiting for reset";
+    message += `${index + 1}. ${describeAlert(alert)}\n` +
+      `   ${state}\n\n`;
+
+    keyboard.text(`❌ Cancel #${index + 1}`, `cancel_alert_${alert.id}`).row();
+  });
+
+  keyboard.text("🔄 Refresh", "refresh_alerts");
+
+  return { message, keyboard };
+}
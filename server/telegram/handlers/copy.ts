@@ -0,0 +1,232 @@
+import { Context, InlineKeyboard } from "grammy";
+import { getWallet } from "../../telegram-bot.js";
+import {
+  followWallet,
+  unfollowWallet,
+  updateCopyFollow,
+  getCopyFollows,
+  setCopyTradingOptIn,
+  parseBlacklist,
+  shortAnvAddress,
+  type CopyFollowWithLeader
+} from "../../copy-trading.js";
+
+const USAGE =
+  `*Usage:*\n` +
+  `\`/copy follow <ANV address> <max SOL/trade> [total cap]\`\n` +
+  `\`/copy max <#> <SOL>\` - max SOL per mirrored buy\n` +
+  `\`/copy cap <#> <SOL|off>\` - total SOL the follow may spend\n` +
+  `\`/copy block <#> <CA>\` / \`/copy unblock <#> <CA>\`\n` +
+  `\`/copy pause <#>\` / \`/copy resume <#>\`\n` +
+  `\`/copy allow on|off\` - let others follow your wallet\n\n` +
+  `\`<#>\` is the follow's number in /copy`;
+
+// /copy            → list follows and opt-in status
+// /copy <cmd> ...  → follow / change a follow / opt in or out
+export async function handleCopy(ctx: Context) {
+  if (!ctx.from) return;
+
+  const telegramUserId = ctx.from.id.toString();
+
+  try {
+    const wallet = await getWallet(telegramUserId);
+
+    if (!wallet) {
+      await ctx.reply(
+        `⚠️ *No Wallet Found*\n\n` +
+        `You need to create a wallet first.\n\n` +
+        `Use /start to generate or import a wallet.`,
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
+    const args = typeof ctx.match === 'string' ? ctx.match.trim().split(/\s+/).filter(Boolean) : [];
+
+    if (args.length > 0) {
+      await handleCopyCommand(ctx, wallet, args);
+      return;
+    }
+
+    const { message, keyboard } = await buildCopyMessage(wallet);
+
+    if (ctx.callbackQuery) {
+      await ctx.editMessageText(message, { parse_mode: "Markdown", reply_markup: keyboard });
+    } else {
+      await ctx.reply(message, { parse_mode: "Markdown", reply_markup: keyboard });
+    }
+  } catch (error: any) {
+    // Ignore "message is not modified" on refresh
+    if (error?.description?.includes("message is not modified")) return;
+    console.error("Error in /copy:", error);
+    await ctx.reply("❌ Failed to load copy-trading. Please try again.");
+  }
+}
+
+// Callback handler for copy_pause_<id>, copy_resume_<id>, copy_unfollow_<id> and copy_optin
+export async function handleCopyCallback(ctx: Context, data: string) {
+  if (!ctx.from) return;
+
+  const telegramUserId = ctx.from.id.toString();
+
+  try {
+    const wallet = await getWallet(telegramUserId);
+    if (!wallet) {
+      await ctx.answerCallbackQuery("❌ No active wallet");
+      return;
+    }
+
+    let result: { success: boolean; error?: string };
+    if (data === "copy_optin") {
+      await setCopyTradingOptIn(wallet.id, !wallet.allowCopyTrading);
+      result = { success: true };
+    } else if (data.startsWith("copy_pause_")) {
+      result = await updateCopyFollow(wallet.id, data.replace("copy_pause_", ""), { paused: true });
+    } else if (data.startsWith("copy_resume_")) {
+      result = await updateCopyFollow(wallet.id, data.replace("copy_resume_", ""), { paused: false });
+    } else {
+      result = await unfollowWallet(wallet.id, data.replace("copy_unfollow_", ""));
+    }
+
+    await ctx.answerCallbackQuery(result.success ? "✅ Saved" : `❌ ${result.error}`);
+
+    await handleCopy(ctx);
+  } catch (error) {
+    console.error("Error updating copy-trading:", error);
+    await ctx.answerCallbackQuery("❌ Failed to update copy-trading");
+  }
+}
+
+async function handleCopyCommand(ctx: Context, wallet: any, args: string[]) {
+  const [command, ...rest] = args;
+
+  switch (command.toLowerCase()) {
+    case 'follow': {
+      const [leaderAddress, maxSol, cap] = rest;
+      if (!leaderAddress || !maxSol) {
+        break;
+      }
+
+      const result = await followWallet({
+        followerWalletId: wallet.id,
+        leaderAddress,
+        maxSolPerTrade: maxSol,
+        totalCapSol: cap || null,
+      });
+
+      if (!result.success || !result.follow) {
+        await ctx.reply(`❌ *Failed to Follow*\n\n${result.error || "Unknown error"}`, { parse_mode: "Markdown" });
+        return;
+      }
+
+      await ctx.reply(
+        `✅ *Now Following*\n\n` +
+        `👤 Leader: \`${shortAnvAddress(leaderAddress)}\`\n` +
+        `💸 Max per trade: ${parseFloat(result.follow.maxSolPerTrade)} SOL\n` +
+        `🧢 Total cap: ${result.follow.totalCapSol ? `${parseFloat(result.follow.totalCapSol)} SOL` : "none"}\n\n` +
+        `Buys and sells are mirrored in proportion to your balance. Use /copy to manage follows.`,
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
+    case 'allow': {
+      const value = rest[0]?.toLowerCase();
+      if (value !== 'on' && value !== 'off') {
+        break;
+      }
+
+      await setCopyTradingOptIn(wallet.id, value === 'on');
+      await ctx.reply(
+        value === 'on'
+          ? `✅ *Copy-Trading Enabled*\n\nOthers can follow your trades using your ANV address:\n\`${wallet.walletAddress}\``
+          : `✅ *Copy-Trading Disabled*\n\nNobody can mirror your trades until you enable it again.`,
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
+    case 'max':
+    case 'cap':
+    case 'block':
+    case 'unblock':
+    case 'pause':
+    case 'resume': {
+      const [indexArg, value] = rest;
+      const needsValue = command !== 'pause' && command !== 'resume';
+      if (!indexArg || (needsValue && !value)) {
+        break;
+      }
+
+      const follows = await getCopyFollows(wallet.id);
+      const follow = follows[parseInt(indexArg, 10) - 1];
+      if (!follow) {
+        await ctx.reply(`❌ No follow #${indexArg}. Use /copy to see your follows.`);
+        return;
+      }
+
+      const updates =
+        command === 'max' ? { maxSolPerTrade: value } :
+        command === 'cap' ? { totalCapSol: value.toLowerCase() === 'off' ? null : value } :
+        command === 'block' ? { block: value } :
+        command === 'unblock' ? { unblock: value } :
+        { paused: command === 'pause' };
+
+      const result = await updateCopyFollow(wallet.id, follow.id, updates);
+
+      if (!result.success) {
+        await ctx.reply(`❌ *Failed to Update Follow*\n\n${result.error || "Unknown error"}`, { parse_mode: "Markdown" });
+        return;
+      }
+
+      const { message, keyboard } = await buildCopyMessage(wallet);
+      await ctx.reply(`✅ Saved\n\n${message}`, { parse_mode: "Markdown", reply_markup: keyboard });
+      return;
+    }
+  }
+
+  await ctx.reply(`⚠️ *Invalid Command*\n\n${USAGE}`, { parse_mode: "Markdown" });
+}
+
+function describeFollow(follow: CopyFollowWithLeader, index: number): string {
+  const status = follow.paused
+    ? "⏸ Paused"
+    : follow.leaderAllowsCopyTrading ? "▶️ Active" : "🚫 Leader disabled copy-trading";
+  const cap = follow.totalCapSol
+    ? `${parseFloat(follow.spentSol).toFixed(4)} / ${parseFloat(follow.totalCapSol)} SOL`
+    : `${parseFloat(follow.spentSol).toFixed(4)} SOL (no cap)`;
+  const blacklist = parseBlacklist(follow);
+
+  return `${index + 1}. \`${shortAnvAddress(follow.leaderAddress)}\` - ${status}\n` +
+    `   Max per trade: ${parseFloat(follow.maxSolPerTrade)} SOL\n` +
+    `   Spent: ${cap}\n` +
+    (blacklist.length > 0 ? `   Blacklisted: ${blacklist.length} token${blacklist.length === 1 ? '' : 's'}\n` : '') +
+    `\n`;
+}
+
+async function buildCopyMessage(wallet: any): Promise<{ message: string; keyboard: InlineKeyboard }> {
+  const follows = await getCopyFollows(wallet.id);
+  const keyboard = new InlineKeyboard();
+
+  let message = `🪞 *COPY-TRADING*\n\n`;
+
+  if (follows.length === 0) {
+    message += `You are not following any wallets.\n\n`;
+  } else {
+    message += `*Following (${follows.length}):*\n\n`;
+    follows.forEach((follow, index) => {
+      message += describeFollow(follow, index);
+      keyboard
+        .text(follow.paused ? `▶️ Resume #${index + 1}` : `⏸ Pause #${index + 1}`, `${follow.paused ? 'copy_resume_' : 'copy_pause_'}${follow.id}`)
+        .text(`❌ Unfollow #${index + 1}`, `copy_unfollow_${follow.id}`)
+        .row();
+    });
+  }
+
+  message += `*Your wallet:* ${wallet.allowCopyTrading ? "others can follow you" : "following is disabled"}\n\n` + USAGE;
+
+  keyboard.text(wallet.allowCopyTrading ? "👥 Allow followers: ON" : "👥 Allow followers: OFF", "copy_optin").row();
+  keyboard.text("🔄 Refresh", "refresh_copy");
+
+  return { message, keyboard };
+}
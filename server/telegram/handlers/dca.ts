@@ -0,0 +1,164 @@
+import { Context, InlineKeyboard } from "grammy";
+import { getWallet } from "../../telegram-bot.js";
+import { getDcaSchedules, createDcaSchedule, setDcaSchedulePaused, deleteDcaSchedule } from "../../dca.js";
+import type { DcaSchedule } from "@shared/schema";
+
+const USAGE =
+  `*Usage:*\n` +
+  `\`/dca <CA> <SOL> <hours> [buys]\`\n\n` +
+  `*Examples:*\n` +
+  `\`/dca <CA> 0.1 24 30\` - buy 0.1 SOL daily, 30 times\n` +
+  `\`/dca <CA> 0.05 6\` - buy 0.05 SOL every 6h until cancelled\n\n` +
+  `Runs are skipped (not failed) when your balance is too low.`;
+
+// /dca            → list schedules
+// /dca <CA> ...   → create a schedule
+export async function handleDca(ctx: Context) {
+  if (!ctx.from) return;
+
+  const telegramUserId = ctx.from.id.toString();
+
+  try {
+    const wallet = await getWallet(telegramUserId);
+
+    if (!wallet) {
+      await ctx.reply(
+        `⚠️ *No Wallet Found*\n\n` +
+        `You need to create a wallet first.\n\n` +
+        `Use /start to generate or import a wallet.`,
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
+    const args = typeof ctx.match === 'string' ? ctx.match.trim().split(/\s+/).filter(Boolean) : [];
+
+    if (args.length > 0) {
+      await handleCreateDca(ctx, wallet.id, args);
+      return;
+    }
+
+    const { message, keyboard } = await buildDcaMessage(wallet.id);
+
+    if (ctx.callbackQuery) {
+      await ctx.editMessageText(message, { parse_mode: "Markdown", reply_markup: keyboard });
+    } else {
+      await ctx.reply(message, { parse_mode: "Markdown", reply_markup: keyboard });
+    }
+  } catch (error: any) {
+    // Ignore "message is not modified" on refresh
+    if (error?.description?.includes("message is not modified")) return;
+    console.error("Error in /dca:", error);
+    await ctx.reply("❌ Failed to load DCA schedules. Please try again.");
+  }
+}
+
+// Callback handler for dca_pause_<id>, dca_resume_<id> and dca_delete_<id>
+export async function handleDcaCallback(ctx: Context, data: string) {
+  if (!ctx.from) return;
+
+  const telegramUserId = ctx.from.id.toString();
+
+  try {
+    const wallet = await getWallet(telegramUserId);
+    if (!wallet) {
+      await ctx.answerCallbackQuery("❌ No active wallet");
+      return;
+    }
+
+    let result: { success: boolean; error?: string };
+    if (data.startsWith("dca_pause_")) {
+      result = await setDcaSchedulePaused(wallet.id, data.replace("dca_pause_", ""), true);
+    } else if (data.startsWith("dca_resume_")) {
+      result = await setDcaSchedulePaused(wallet.id, data.replace("dca_resume_", ""), false);
+    } else {
+      result = await deleteDcaSchedule(wallet.id, data.replace("dca_delete_", ""));
+    }
+
+    await ctx.answerCallbackQuery(result.success ? "✅ Saved" : `❌ ${result.error}`);
+
+    await handleDca(ctx);
+  } catch (error) {
+    console.error("Error updating DCA schedule:", error);
+    await ctx.answerCallbackQuery("❌ Failed to update schedule");
+  }
+}
+
+async function handleCreateDca(ctx: Context, walletId: string, args: string[]) {
+  const [mint, solAmount, hoursArg, buysArg] = args;
+  const intervalHours = Number(hoursArg?.replace(/h$/i, ''));
+  const totalIterations = buysArg ? Number(buysArg) : null;
+
+  if (!mint || !solAmount || !hoursArg || Number.isNaN(intervalHours) || (buysArg && Number.isNaN(totalIterations))) {
+    await ctx.reply(`⚠️ *Invalid Command*\n\n${USAGE}`, { parse_mode: "Markdown" });
+    return;
+  }
+
+  const result = await createDcaSchedule({
+    walletId,
+    tokenAddress: mint,
+    solAmount,
+    intervalHours,
+    totalIterations
+  });
+
+  if (!result.success || !result.schedule) {
+    await ctx.reply(`❌ *Failed to Create Schedule*\n\n${result.error || "Unknown error"}`, { parse_mode: "Markdown" });
+    return;
+  }
+
+  await ctx.reply(
+    `✅ *DCA Schedule Created*\n\n` +
+    `🪙 Token: *${result.schedule.tokenSymbol}*\n` +
+    `💸 ${describeSchedule(result.schedule)}\n\n` +
+    `The first buy runs within a minute. Use /dca to pause or delete it.`,
+    { parse_mode: "Markdown" }
+  );
+}
+
+function describeSchedule(schedule: DcaSchedule): string {
+  const buys = schedule.totalIterations
+    ? `${schedule.completedIterations}/${schedule.totalIterations} buys`
+    : `${schedule.completedIterations} buys, until cancelled`;
+  return `${parseFloat(schedule.solAmount)} SOL every ${schedule.intervalHours}h (${buys})`;
+}
+
+async function buildDcaMessage(walletId: string): Promise<{ message: string; keyboard: InlineKeyboard }> {
+  const schedules = await getDcaSchedules(walletId);
+  const keyboard = new InlineKeyboard();
+
+  if (schedules.length === 0) {
+    keyboard.text("🔄 Refresh", "refresh_dca");
+    return {
+      message:
+        `📅 *DCA SCHEDULES*\n\n` +
+        `You have no recurring buys.\n\n` +
+        USAGE,
+      keyboard
+    };
+  }
+
+  let message = `📅 *DCA SCHEDULES* (${schedules.length})\n\n`;
+
+  schedules.forEach((schedule, index) => {
+    const status = schedule.status === 'active'
+      ? `▶️ Next: ${schedule.nextRunAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`
+      : schedule.status === 'paused' ? "⏸ Paused" : "✅ Completed";
+
+    message += `${index + 1}. *${schedule.tokenSymbol}* - ${describeSchedule(schedule)}\n` +
+      `   ${status}\n` +
+      (schedule.skippedIterations > 0 ? `   Skipped: ${schedule.skippedIterations} (${schedule.lastError || "see history"})\n` : '') +
+      `\n`;
+
+    if (schedule.status === 'active') {
+      keyboard.text(`⏸ Pause #${index + 1}`, `dca_pause_${schedule.id}`);
+    } else if (schedule.status === 'paused') {
+      keyboard.text(`▶️ Resume #${index + 1}`, `dca_resume_${schedule.id}`);
+    }
+    keyboard.text(`🗑 Delete #${index + 1}`, `dca_delete_${schedule.id}`).row();
+  });
+
+  keyboard.text("🔄 Refresh", "refresh_dca");
+
+  return { message, keyboard };
+}
@@ -1,9 +1,18 @@
 import { Context, InlineKeyboard } from "grammy";
-import { getWallet, setConversationState } from "../../telegram-bot.js";
+import { getWallet } from "../../telegram-bot.js";
+import { conversations } from "../conversations.js";
 import { db } from "../../db";
 import { deposits, systemWallets, transactions } from "@shared/schema";
 import { eq, and, desc } from "drizzle-orm";
-import { createDepositStep1Exchange } from "../../bridge-protocol.js";
+import { createSolToIntermediateExchange, routeColumns } from "../../bridge-provider.js";
+import { getBridgeRoute } from "../../bridges.js";
+import {
+  MIN_TRANSFER_SOL,
+  getTransferLimits,
+  checkTransferAmount,
+  estimateBridgeTransfer,
+  type BridgeTransferEstimate
+} from "../../bridge-estimate.js";
 import { storage } from "../../storage.js";
 import { getSolanaPrice } from "../../coingecko.js";
 import { generateAnxTxHash } from "../../swap-helpers.js";
@@ -52,19 +61,19 @@ export async function handleDeposit(ctx: Context, depositId?: string) {
         .orderBy(desc(deposits.createdAt))
         .limit(1);
 
-      const terminalStates = ['finished', 'failed', 'refunded', 'expired'];
+      const terminalStates = ['finished', 'failed', 'refunded', 'expired', 'dead_letter'];
       if (recent.length > 0 && !terminalStates.includes(recent[0].status)) {
         deposit = recent[0];
       } else {
         // No active deposit - ask for amount
-        setConversationState(telegramUserId, 'waiting_deposit_amount');
+        await conversations.start(telegramUserId, 'deposit', 'amount', {});
         
         const message =
           `💰 *Deposit Funds*\n\n` +
           `Please enter the amount of SOL you wish to deposit.\n\n` +
           `*Example:* \`0.5\` or \`1.0\`\n\n` +
           `📋 *Requirements:*\n` +
-          `• Minimum: 0.05 SOL\n` +
+          `• Minimum: ${MIN_TRANSFER_SOL} SOL\n` +
           `• All network fees covered by platform\n` +
           `• Complete anonymity via ZK relay network\n` +
           `• Processing time: 2-5 minutes`;
@@ -78,7 +87,7 @@ export async function handleDeposit(ctx: Context, depositId?: string) {
     const statusMessage = await getDepositStatusMessage(deposit);
     const keyboard = new InlineKeyboard();
     
-    if (deposit.status !== 'finished' && deposit.status !== 'failed') {
+    if (deposit.status === 'waiting_step1' || deposit.status === 'waiting_step2') {
       keyboard.text("🔄 Refresh Status", `refresh_deposit_${deposit.id}`);
     }
 
@@ -133,7 +142,22 @@ export async function handleDeposit(ctx: Context, depositId?: string) {
   }
 }
 
-// New handler for when user sends amount
+function getEstimateMessage(estimate: BridgeTransferEstimate): string {
+  const amount = parseFloat(estimate.amountSol);
+  const bridgeOutput = parseFloat(estimate.bridgeOutputSol);
+
+  return (
+    `🧾 *Deposit Quote*\n\n` +
+    `You send: *${amount.toFixed(4)} SOL*\n` +
+    `Credited to your vault: *${parseFloat(estimate.receiveSol).toFixed(4)} SOL* (≈ $${estimate.receiveUsd})\n\n` +
+    `Relay route: ${amount.toFixed(4)} SOL → ${parseFloat(estimate.intermediateAmount).toFixed(2)} ${estimate.intermediateTicker} → ${bridgeOutput.toFixed(4)} SOL\n` +
+    `Network fees: ${parseFloat(estimate.spreadSol).toFixed(4)} SOL (≈ $${estimate.spreadUsd}, ${estimate.spreadPercent}%) - *covered by platform*\n` +
+    `Estimated time: ${estimate.etaMinutes.min}-${estimate.etaMinutes.max} minutes\n\n` +
+    `Confirm to generate your deposit address.`
+  );
+}
+
+// New handler for when user sends amount - quotes the route before anything is created
 export async function handleDepositAmount(ctx: Context, amount: string) {
   if (!ctx.from) return;
 
@@ -142,14 +166,54 @@ export async function handleDepositAmount(ctx: Context, amount: string) {
   try {
     const numAmount = parseFloat(amount);
     
-    if (isNaN(numAmount) || numAmount < 0.05) {
+    if (isNaN(numAmount) || numAmount < MIN_TRANSFER_SOL) {
+      // Keep state active so user can retry
+      await ctx.reply(`❌ Invalid amount entered. The minimum deposit requirement is ${MIN_TRANSFER_SOL} SOL.\n\nPlease enter a valid amount:`);
+      return;
+    }
+
+    const route = getBridgeRoute();
+    const limits = await getTransferLimits(route);
+    const limitError = checkTransferAmount('deposit', numAmount, limits);
+    if (limitError) {
       // Keep state active so user can retry
-      await ctx.reply("❌ Invalid amount entered. The minimum deposit requirement is 0.05 SOL.\n\nPlease enter a valid amount:");
+      await ctx.reply(`❌ ${limitError}.\n\nPlease enter a valid amount:`);
       return;
     }
 
-    // Clear conversation state after successful validation
-    setConversationState(telegramUserId, null);
+    // End the conversation after successful validation - the quote's Confirm button takes over
+    await conversations.end(telegramUserId);
+
+    const estimate = await estimateBridgeTransfer(route, 'deposit', numAmount, await getSolanaPrice(), limits);
+
+    const keyboard = new InlineKeyboard()
+      .text("✅ Confirm Deposit", `confirm_deposit_${numAmount}`)
+      .text("❌ Cancel", "cancel_deposit");
+
+    await ctx.reply(getEstimateMessage(estimate), {
+      parse_mode: "Markdown",
+      reply_markup: keyboard,
+    });
+  } catch (error: any) {
+    console.error("Error quoting deposit:", error);
+    await conversations.end(telegramUserId);
+    await ctx.reply("❌ Unable to quote deposit. Please try again with /deposit");
+  }
+}
+
+// Handler for the Confirm Deposit button
+export async function handleDepositConfirm(ctx: Context, amount: string) {
+  if (!ctx.from) return;
+
+  const telegramUserId = ctx.from.id.toString();
+  
+  try {
+    const numAmount = parseFloat(amount);
+    
+    if (isNaN(numAmount) || numAmount < MIN_TRANSFER_SOL) {
+      await ctx.reply("❌ Invalid deposit amount. Please start again with /deposit");
+      return;
+    }
 
     const wallet = await getWallet(telegramUserId);
     
@@ -167,14 +231,22 @@ export async function handleDepositAmount(ctx: Context, amount: string) {
     const solPrice = await getSolanaPrice();
     const usdAmount = numAmount * solPrice;
     
-    // Get Privacy Relay Node (TRON Bridge)
-    const tronWallet = await storage.getSystemWallet("privacy_relay_node");
+    // Get Privacy Relay Node (TRON Bridge) for the active bridge route
+    const route = getBridgeRoute();
+    const limitError = checkTransferAmount('deposit', numAmount, await getTransferLimits(route));
+    if (limitError) {
+      await ctx.reply(`❌ ${limitError}. Please start again with /deposit`);
+      return;
+    }
+
+    const tronWallet = await storage.getSystemWallet(route.intermediate.relayWalletName);
     if (!tronWallet) {
       throw new Error("System wallet not initialized");
     }
     
     // Create Step 1 exchange: SOL → TRX to Privacy Relay Node
-    const step1Exchange = await createDepositStep1Exchange(
+    const step1Exchange = await createSolToIntermediateExchange(
+      route,
       numAmount.toString(),
       tronWallet.address
     );
@@ -182,8 +254,9 @@ export async function handleDepositAmount(ctx: Context, amount: string) {
     // Save deposit record AND transaction record (for history persistence)
     const deposit = await storage.createDeposit({
       walletId: wallet.id,
-      step1DepositAddress: step1Exchange.addressFrom,
-      step1ExchangeId: step1Exchange.publicId,
+      ...routeColumns(route),
+      step1DepositAddress: step1Exchange.depositAddress,
+      step1ExchangeId: step1Exchange.id,
       solAmount: numAmount.toFixed(9),
       status: 'waiting_step1'
     });
@@ -207,7 +280,7 @@ export async function handleDepositAmount(ctx: Context, amount: string) {
     const message =
       `✅ *Deposit Address Created*\n\n` +
       `Please send exactly *${numAmount.toFixed(4)} SOL* (≈ $${usdAmount.toFixed(2)}) to the following address:\n\n` +
-      `\`${step1Exchange.addressFrom}\`\n\n` +
+      `\`${step1Exchange.depositAddress}\`\n\n` +
       `⚡ *Privacy Routing Active*\n\n` +
       `Your transaction will be processed through:\n` +
       `1️⃣ Privacy relay network synchronization\n` +
@@ -256,10 +329,17 @@ async function getDepositStatusMessage(deposit: any): Promise<string> {
       step = 6;
       break;
     case 'failed':
+    case 'refunded':
+    case 'expired':
       statusEmoji = "❌";
       statusText = "Transaction Failed";
       step = 0;
       break;
+    case 'dead_letter':
+      statusEmoji = "🛠";
+      statusText = "Under Manual Review";
+      step = 0;
+      break;
     default:
       statusEmoji = "⏳";
       statusText = "Routing Transaction";
@@ -1,5 +1,6 @@
 import { Context, InlineKeyboard } from "grammy";
-import { getWallet, setConversationState, customBuyContractAddress } from "../../telegram-bot.js";
+import { getWallet } from "../../telegram-bot.js";
+import { conversations } from "../conversations.js";
 import { db } from "../../db";
 import { balances, tokenHoldings, monitorSessions } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
@@ -601,8 +602,7 @@ export async function handleMonitorCallback(ctx: Context, data: string) {
       const userId = ctx.from?.id.toString();
       
       if (userId) {
-        setConversationState(userId, 'waiting_custom_buy_amount');
-        customBuyContractAddress.set(userId, tokenMint);
+        await conversations.start(userId, 'custom_buy', 'amount', { tokenMint });
         
         await ctx.answerCallbackQuery();
         await ctx.reply(
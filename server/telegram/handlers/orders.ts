@@ -0,0 +1,99 @@
+import { Context, InlineKeyboard } from "grammy";
+import { getWallet } from "../../telegram-bot.js";
+import { getLimitOrders, cancelLimitOrder } from "../../limit-orders.js";
+
+export async function handleOrders(ctx: Context) {
+  if (!ctx.from) return;
+
+  const telegramUserId = ctx.from.id.toString();
+
+  try {
+    const wallet = await getWallet(telegramUserId);
+
+    if (!wallet) {
+      await ctx.reply(
+        `⚠️ *No Wallet Found*\n\n` +
+        `You need to create a wallet first.\n\n` +
+        `Use /start to generate or import a wallet.`,
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
+    const { message, keyboard } = await buildOrdersMessage(wallet.id);
+
+    if (ctx.callbackQuery) {
+      await ctx.editMessageText(message, { parse_mode: "Markdown", reply_markup: keyboard });
+    } else {
+      await ctx.reply(message, { parse_mode: "Markdown", reply_markup: keyboard });
+    }
+  } catch (error: any) {
+    // Ignore "message is not modified" on refresh
+    if (error?.description?.includes("message is not modified")) return;
+    console.error("Error in /orders:", error);
+    await ctx.reply("❌ Failed to load limit orders. Please try again.");
+  }
+}
+
+// Callback handler for cancel buttons
+export async function handleCancelLimitOrder(ctx: Context, orderId: string) {
+  if (!ctx.from) return;
+
+  const telegramUserId = ctx.from.id.toString();
+
+  try {
+    const wallet = await getWallet(telegramUserId);
+    if (!wallet) {
+      await ctx.answerCallbackQuery("❌ No active wallet");
+      return;
+    }
+
+    const result = await cancelLimitOrder(wallet.id, orderId);
+    if (!result.success) {
+      await ctx.answerCallbackQuery(`❌ ${result.error}`);
+    } else {
+      await ctx.answerCallbackQuery("✅ Order cancelled");
+    }
+
+    await handleOrders(ctx);
+  } catch (error) {
+    console.error("Error cancelling limit order:", error);
+    await ctx.answerCallbackQuery("❌ Failed to cancel order");
+  }
+}
+
+async function buildOrdersMessage(walletId: string): Promise<{ message: string; keyboard: InlineKeyboard }> {
+  const orders = await getLimitOrders(walletId, 'open');
+  const keyboard = new InlineKeyboard();
+
+  if (orders.length === 0) {
+    keyboard.text("🔄 Refresh", "refresh_orders");
+    return {
+      message:
+        `📋 *OPEN LIMIT ORDERS*\n\n` +
+        `You have no open limit orders.`,
+      keyboard
+    };
+  }
+
+  let message = `📋 *OPEN LIMIT ORDERS* (${orders.length})\n\n`;
+
+  orders.forEach((order, index) => {
+    const side = order.type === 'buy' ? "🟢 BUY" : "🔴 SELL";
+    const size = order.type === 'buy'
+      ? `${parseFloat(order.solAmount || "0").toFixed(4)} SOL`
+      : `${parseFloat(order.tokenAmount || "0").toFixed(4)} ${order.tokenSymbol}`;
+    const target = `${parseFloat(order.targetPrice)} ${order.priceCurrency.toUpperCase()}`;
+    const expiry = order.expiresAt ? `\n   ⌛ Expires: ${order.expiresAt.toISOString().replace('T', ' ').slice(0, 16)} UTC` : "";
+
+    message += `${index + 1}. ${side} *${order.tokenSymbol}*\n` +
+      `   Size: ${size}\n` +
+      `   Target: ${target}${expiry}\n\n`;
+
+    keyboard.text(`❌ Cancel #${index + 1} (${order.tokenSymbol})`, `cancel_limit_${order.id}`).row();
+  });
+
+  keyboard.text("🔄 Refresh", "refresh_orders");
+
+  return { message, keyboard };
+}
@@ -1,6 +1,8 @@
 import { Context, InputFile } from "grammy";
 import { getWallet } from "../../telegram-bot.js";
 import { createCanvas, type CanvasRenderingContext2D } from "canvas";
+import { getPortfolioHistory } from "../../portfolio-snapshots.js";
+import { scaleSparkline } from "../../portfolio-history.js";
 
 export async function handlePnlCard(ctx: Context) {
   if (!ctx.from) return;
@@ -30,6 +32,7 @@ export async function handlePnlCard(ctx: Context) {
     }
 
     const { summary, holdings } = data;
+    const history = await getPortfolioHistory(wallet.id, '7d');
 
     // Generate landscape PnL card (1200x630px)
     const canvas = createCanvas(1200, 630);
@@ -68,6 +71,11 @@ export async function handlePnlCard(ctx: Context) {
     ctx2d.fillStyle = "#a78bfa";
     ctx2d.fillText("STEALTH TRADING PERFORMANCE", 50, 125);
 
+    // 7-day portfolio value sparkline (needs at least two snapshots)
+    if (history.length >= 2) {
+      drawSparkline(ctx2d, history.map(point => point.totalValueUsd), 720, 40, 430, 90);
+    }
+
     // Stats cards
     const cardY = 150;
     const cardHeight = 200;
@@ -134,15 +142,22 @@ export async function handlePnlCard(ctx: Context) {
         ctx2d.font = "24px sans-serif";
         ctx2d.fillText(holding.symbol, xPos + 45, 472);
 
-        // PnL value (fixed formatting)
-        ctx2d.fillStyle = pnlColor;
-        ctx2d.font = "bold 22px sans-serif";
-        ctx2d.fillText(pnlDisplay, xPos, 510);
-
-        // PnL percentage (fixed formatting)
-        ctx2d.fillStyle = "#a78bfa";
-        ctx2d.font = "18px sans-serif";
-        ctx2d.fillText(pnlPercentDisplay, xPos, 540);
+        if (holding.priceUncertain) {
+          // Price sources disagree or are stale - no PnL figure rather than a wrong one
+          ctx2d.fillStyle = "#facc15";
+          ctx2d.font = "bold 22px sans-serif";
+          ctx2d.fillText("Price uncertain", xPos, 510);
+        } else {
+          // PnL value (fixed formatting)
+          ctx2d.fillStyle = pnlColor;
+          ctx2d.font = "bold 22px sans-serif";
+          ctx2d.fillText(pnlDisplay, xPos, 510);
+
+          // PnL percentage (fixed formatting)
+          ctx2d.fillStyle = "#a78bfa";
+          ctx2d.font = "18px sans-serif";
+          ctx2d.fillText(pnlPercentDisplay, xPos, 540);
+        }
 
         xPos += 280;
       });
@@ -201,3 +216,39 @@ function drawStatCard(
   ctx.font = "bold 42px sans-serif";
   ctx.fillText(value, x + 20, y + 120);
 }
+
+function drawSparkline(
+  ctx: any,
+  values: number[],
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) {
+  const first = values[0];
+  const last = values[values.length - 1];
+  const changePercent = first > 0 ? ((last - first) / first) * 100 : 0;
+  const lineColor = last >= first ? "#10b981" : "#ef4444";
+
+  // Label with the 7-day change
+  ctx.fillStyle = "#9ca3af";
+  ctx.font = "18px sans-serif";
+  ctx.fillText("7D PORTFOLIO", x, y + 14);
+  ctx.fillStyle = lineColor;
+  ctx.font = "bold 18px sans-serif";
+  ctx.fillText(`${changePercent >= 0 ? '+' : ''}${changePercent.toFixed(2)}%`, x + width - 90, y + 14);
+
+  const points = scaleSparkline(values, { x, y: y + 26, width, height: height - 26 });
+
+  ctx.strokeStyle = lineColor;
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  points.forEach((point, index) => {
+    if (index === 0) {
+      ctx.moveTo(point.x, point.y);
+    } else {
+      ctx.lineTo(point.x, point.y);
+    }
+  });
+  ctx.stroke();
+}
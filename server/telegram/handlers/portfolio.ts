@@ -4,6 +4,7 @@ import { db } from "../../db";
 import { balances, tokenHoldings, transactions } from "@shared/schema";
 import { eq, and, sql } from "drizzle-orm";
 import { getSolanaPrice } from "../../coingecko.js";
+import { getTokenPriceQuotes } from "../../pricing.js";
 
 export async function handlePortfolio(ctx: Context) {
   if (!ctx.from) return;
@@ -40,6 +41,9 @@ export async function handlePortfolio(ctx: Context) {
       .from(tokenHoldings)
       .where(eq(tokenHoldings.walletId, wallet.id));
     
+    // Live oracle quotes - uncertain prices fall back to the last stored price and are flagged
+    const quoteMap = await getTokenPriceQuotes(holdings.map(h => h.mint));
+    
     // Calculate unrealized PnL
     let unrealizedPnl = 0;
     let totalTokenValue = 0;
@@ -49,8 +53,10 @@ export async function handlePortfolio(ctx: Context) {
       const pendingAmount = parseFloat(holding.pendingInAmount || "0");
       const totalAmount = amount + pendingAmount; // Show confirmed + pending
       const entryPrice = parseFloat(holding.averageEntryPrice || "0");
+      const quote = quoteMap.get(holding.mint);
+      const livePrice = quote && !quote.uncertain ? quote.price : null;
       // Fallback to entryPrice if no current price available (unlisted tokens)
-      const currentPrice = parseFloat(holding.lastPriceUsd || "0") || entryPrice;
+      const currentPrice = livePrice || parseFloat(holding.lastPriceUsd || "0") || entryPrice;
       
       const costBasis = parseFloat(holding.totalCostBasis || "0");
       const currentValue = amount * currentPrice; // Only confirmed tokens for PnL
@@ -70,6 +76,7 @@ export async function handlePortfolio(ctx: Context) {
         currentPrice: currentPrice.toFixed(6),
         unrealizedPnl: pnl.toFixed(2),
         pnlPercent: pnlPercent.toFixed(2),
+        priceUncertain: livePrice === null,
       };
     });
     
@@ -142,8 +149,13 @@ export async function handlePortfolio(ctx: Context) {
         }
         
         message += `   Entry: $${holding.entryPrice}\n`;
-        message += `   Current: $${holding.currentPrice}\n`;
-        message += `   ${pnlEmoji} PNL: ${pnlDisplay} (${pnlPercentDisplay})\n`;
+        if (holding.priceUncertain) {
+          message += `   Current: $${holding.currentPrice} ⚠️ _price uncertain_\n`;
+          message += `   PNL: — (sources disagree or are stale)\n`;
+        } else {
+          message += `   Current: $${holding.currentPrice}\n`;
+          message += `   ${pnlEmoji} PNL: ${pnlDisplay} (${pnlPercentDisplay})\n`;
+        }
       });
     } else {
       message += `\n*No token holdings*\nPaste a token contract address to start trading!`;
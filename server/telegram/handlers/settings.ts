@@ -0,0 +1,160 @@
+import { Context, InlineKeyboard } from "grammy";
+import { getWallet } from "../../telegram-bot.js";
+import { getTradingSettings, updateTradingSettings, type TradingPreferences } from "../../trading-settings.js";
+
+const SLIPPAGE_PRESETS_BPS = [100, 200, 500, 1000, 2000];
+const PRICE_IMPACT_PRESETS = [5, 15, 30, 50];
+
+const FEE_TIER_LABELS: Record<TradingPreferences['priorityFeeTier'], string> = {
+  auto: "Auto",
+  fast: "Fast",
+  turbo: "Turbo",
+};
+
+const USAGE =
+  `*Custom values:*\n` +
+  `\`/settings slippage 7.5\` - slippage in %\n` +
+  `\`/settings impact 25\` - max price impact in %`;
+
+// /settings                       → show settings with preset buttons
+// /settings slippage|impact <v>   → set a custom value
+export async function handleSettings(ctx: Context) {
+  if (!ctx.from) return;
+
+  const telegramUserId = ctx.from.id.toString();
+
+  try {
+    const wallet = await getWallet(telegramUserId);
+
+    if (!wallet) {
+      await ctx.reply(
+        `⚠️ *No Wallet Found*\n\n` +
+        `You need to create a wallet first.\n\n` +
+        `Use /start to generate or import a wallet.`,
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
+    const args = typeof ctx.match === 'string' ? ctx.match.trim().split(/\s+/).filter(Boolean) : [];
+
+    if (args.length > 0) {
+      await handleCustomSetting(ctx, wallet.id, args);
+      return;
+    }
+
+    const { message, keyboard } = buildSettingsMessage(await getTradingSettings(wallet.id));
+
+    if (ctx.callbackQuery) {
+      await ctx.editMessageText(message, { parse_mode: "Markdown", reply_markup: keyboard });
+    } else {
+      await ctx.reply(message, { parse_mode: "Markdown", reply_markup: keyboard });
+    }
+  } catch (error: any) {
+    // Ignore "message is not modified" when a preset equal to the current value is tapped
+    if (error?.description?.includes("message is not modified")) return;
+    console.error("Error in /settings:", error);
+    await ctx.reply("❌ Failed to load settings. Please try again.");
+  }
+}
+
+// Callback handler for preset buttons (tset_slip_<bps>, tset_impact_<pct>, tset_fee_<tier>, tset_mev, tset_risk)
+export async function handleSettingsCallback(ctx: Context, data: string) {
+  if (!ctx.from) return;
+
+  const telegramUserId = ctx.from.id.toString();
+
+  try {
+    const wallet = await getWallet(telegramUserId);
+    if (!wallet) {
+      await ctx.answerCallbackQuery("❌ No active wallet");
+      return;
+    }
+
+    let updates: Partial<TradingPreferences>;
+    if (data.startsWith("tset_slip_")) {
+      updates = { slippageBps: parseInt(data.replace("tset_slip_", ""), 10) };
+    } else if (data.startsWith("tset_impact_")) {
+      updates = { maxPriceImpactPct: data.replace("tset_impact_", "") };
+    } else if (data.startsWith("tset_fee_")) {
+      updates = { priorityFeeTier: data.replace("tset_fee_", "") as TradingPreferences['priorityFeeTier'] };
+    } else if (data === "tset_risk") {
+      const current = await getTradingSettings(wallet.id);
+      updates = { blockHighRiskBuys: !current.blockHighRiskBuys };
+    } else {
+      const current = await getTradingSettings(wallet.id);
+      updates = { antiMev: !current.antiMev };
+    }
+
+    const result = await updateTradingSettings(wallet.id, updates);
+    await ctx.answerCallbackQuery(result.success ? "✅ Saved" : `❌ ${result.error}`);
+
+    await handleSettings(ctx);
+  } catch (error) {
+    console.error("Error updating settings:", error);
+    await ctx.answerCallbackQuery("❌ Failed to save setting");
+  }
+}
+
+async function handleCustomSetting(ctx: Context, walletId: string, args: string[]) {
+  const [field, valueArg] = args;
+  const value = valueArg?.replace(/%$/, '');
+
+  let updates: Partial<Record<keyof TradingPreferences, unknown>>;
+  if (field?.toLowerCase() === 'slippage' && value) {
+    updates = { slippageBps: Math.round(parseFloat(value) * 100) };
+  } else if (field?.toLowerCase() === 'impact' && value) {
+    updates = { maxPriceImpactPct: value };
+  } else {
+    await ctx.reply(`⚠️ *Invalid Command*\n\n${USAGE}`, { parse_mode: "Markdown" });
+    return;
+  }
+
+  const result = await updateTradingSettings(walletId, updates);
+
+  if (!result.success || !result.settings) {
+    await ctx.reply(`❌ *Failed to Save Setting*\n\n${result.error || "Unknown error"}`, { parse_mode: "Markdown" });
+    return;
+  }
+
+  const { message, keyboard } = buildSettingsMessage(result.settings);
+  await ctx.reply(`✅ Saved\n\n${message}`, { parse_mode: "Markdown", reply_markup: keyboard });
+}
+
+function buildSettingsMessage(settings: TradingPreferences): { message: string; keyboard: InlineKeyboard } {
+  const maxImpact = parseFloat(settings.maxPriceImpactPct);
+  const keyboard = new InlineKeyboard();
+
+  // Active preset is marked with ✓
+  const mark = (active: boolean, label: string) => active ? `✓ ${label}` : label;
+
+  SLIPPAGE_PRESETS_BPS.forEach(bps => {
+    keyboard.text(mark(settings.slippageBps === bps, `${bps / 100}%`), `tset_slip_${bps}`);
+  });
+  keyboard.row();
+
+  PRICE_IMPACT_PRESETS.forEach(pct => {
+    keyboard.text(mark(maxImpact === pct, `Impact ${pct}%`), `tset_impact_${pct}`);
+  });
+  keyboard.row();
+
+  (Object.keys(FEE_TIER_LABELS) as TradingPreferences['priorityFeeTier'][]).forEach(tier => {
+    keyboard.text(mark(settings.priorityFeeTier === tier, `⚡ ${FEE_TIER_LABELS[tier]}`), `tset_fee_${tier}`);
+  });
+  keyboard.row();
+
+  keyboard.text(settings.antiMev ? "🛡 Anti-MEV: ON" : "🛡 Anti-MEV: OFF", "tset_mev");
+  keyboard.text(settings.blockHighRiskBuys ? "🚫 Block risky: ON" : "🚫 Block risky: OFF", "tset_risk");
+
+  const message =
+    `⚙️ *TRADING SETTINGS*\n\n` +
+    `📉 Slippage: *${settings.slippageBps / 100}%*\n` +
+    `💥 Max price impact: *${maxImpact}%*\n` +
+    `⚡ Priority fee: *${FEE_TIER_LABELS[settings.priorityFeeTier]}*\n` +
+    `🛡 Anti-MEV (direct routes): *${settings.antiMev ? "ON" : "OFF"}*\n` +
+    `🚫 Block high-risk buys: *${settings.blockHighRiskBuys ? "ON" : "OFF"}*\n\n` +
+    `Applied to all buys, sells, limit orders and TP/SL.\n\n` +
+    USAGE;
+
+  return { message, keyboard };
+}
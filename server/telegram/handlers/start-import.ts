@@ -1,5 +1,5 @@
 import { Context } from "grammy";
-import { setConversationState } from "../../telegram-bot.js";
+import { conversations } from "../conversations.js";
 
 export async function handleStartImport(ctx: Context) {
   if (!ctx.from) return;
@@ -7,8 +7,8 @@ export async function handleStartImport(ctx: Context) {
   const telegramUserId = ctx.from.id.toString();
   
   try {
-    // Set conversation state to wait for private key
-    setConversationState(telegramUserId, 'waiting_private_key');
+    // Wait for the private key
+    await conversations.start(telegramUserId, 'import_wallet', 'private_key', {});
     
     await ctx.reply(
       `📥 *Import Existing Wallet*\n\n` +
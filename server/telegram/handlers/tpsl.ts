@@ -0,0 +1,158 @@
+import { Context, InlineKeyboard } from "grammy";
+import { getWallet } from "../../telegram-bot.js";
+import { getTpSlRules, cancelTpSlRule, createTpSlRule } from "../../tp-sl.js";
+
+const USAGE =
+  `*Usage:*\n` +
+  `\`/tpsl <CA> tp <value> [size%]\`\n` +
+  `\`/tpsl <CA> sl <value> [size%]\`\n\n` +
+  `*Value:* \`100%\` = percent from entry, \`0.0042\` = absolute USD price\n\n` +
+  `*Examples:*\n` +
+  `\`/tpsl <CA> tp 100% 50\` - sell 50% at +100%\n` +
+  `\`/tpsl <CA> sl 30%\` - sell everything at -30%`;
+
+// /tpsl            → list active rules
+// /tpsl <CA> ...   → create a rule
+export async function handleTpSl(ctx: Context) {
+  if (!ctx.from) return;
+
+  const telegramUserId = ctx.from.id.toString();
+
+  try {
+    const wallet = await getWallet(telegramUserId);
+
+    if (!wallet) {
+      await ctx.reply(
+        `⚠️ *No Wallet Found*\n\n` +
+        `You need to create a wallet first.\n\n` +
+        `Use /start to generate or import a wallet.`,
+        { parse_mode: "Markdown" }
+      );
+      return;
+    }
+
+    const args = typeof ctx.match === 'string' ? ctx.match.trim().split(/\s+/).filter(Boolean) : [];
+
+    if (args.length > 0) {
+      await handleCreateTpSl(ctx, wallet.id, args);
+      return;
+    }
+
+    const { message, keyboard } = await buildTpSlMessage(wallet.id);
+
+    if (ctx.callbackQuery) {
+      await ctx.editMessageText(message, { parse_mode: "Markdown", reply_markup: keyboard });
+    } else {
+      await ctx.reply(message, { parse_mode: "Markdown", reply_markup: keyboard });
+    }
+  } catch (error: any) {
+    // Ignore "message is not modified" on refresh
+    if (error?.description?.includes("message is not modified")) return;
+    console.error("Error in /tpsl:", error);
+    await ctx.reply("❌ Failed to load TP/SL rules. Please try again.");
+  }
+}
+
+// Callback handler for cancel buttons
+export async function handleCancelTpSl(ctx: Context, ruleId: string) {
+  if (!ctx.from) return;
+
+  const telegramUserId = ctx.from.id.toString();
+
+  try {
+    const wallet = await getWallet(telegramUserId);
+    if (!wallet) {
+      await ctx.answerCallbackQuery("❌ No active wallet");
+      return;
+    }
+
+    const result = await cancelTpSlRule(wallet.id, ruleId);
+    if (!result.success) {
+      await ctx.answerCallbackQuery(`❌ ${result.error}`);
+    } else {
+      await ctx.answerCallbackQuery("✅ Rule cancelled");
+    }
+
+    await handleTpSl(ctx);
+  } catch (error) {
+    console.error("Error cancelling TP/SL rule:", error);
+    await ctx.answerCallbackQuery("❌ Failed to cancel rule");
+  }
+}
+
+async function handleCreateTpSl(ctx: Context, walletId: string, args: string[]) {
+  const [mint, kindArg, valueArg, sizeArg] = args;
+  const kind = kindArg?.toLowerCase() === 'tp' ? 'take_profit' : kindArg?.toLowerCase() === 'sl' ? 'stop_loss' : null;
+
+  if (!mint || !kind || !valueArg) {
+    await ctx.reply(`⚠️ *Invalid Command*\n\n${USAGE}`, { parse_mode: "Markdown" });
+    return;
+  }
+
+  const isPercent = valueArg.endsWith('%');
+  const triggerValue = valueArg.replace(/^[+-]/, '').replace(/%$/, '');
+  const sellPercent = sizeArg ? sizeArg.replace(/%$/, '') : "100";
+
+  const result = await createTpSlRule({
+    walletId,
+    mint,
+    kind,
+    triggerType: isPercent ? 'percent' : 'price',
+    triggerValue,
+    sellPercent
+  });
+
+  if (!result.success || !result.rule) {
+    await ctx.reply(`❌ *Failed to Create Rule*\n\n${result.error || "Unknown error"}`, { parse_mode: "Markdown" });
+    return;
+  }
+
+  await ctx.reply(
+    `✅ *${kind === 'take_profit' ? 'Take-Profit' : 'Stop-Loss'} Set*\n\n` +
+    `🪙 Token: *${result.rule.tokenSymbol}*\n` +
+    `🎯 Trigger: ${describeTrigger(result.rule)}\n` +
+    `📦 Size: ${parseFloat(result.rule.sellPercent)}% of holding\n\n` +
+    `Use /tpsl to view or cancel your rules.`,
+    { parse_mode: "Markdown" }
+  );
+}
+
+function describeTrigger(rule: { kind: string; triggerType: string; triggerValue: string }): string {
+  const value = parseFloat(rule.triggerValue);
+  if (rule.triggerType === 'percent') {
+    return `${rule.kind === 'take_profit' ? '+' : '-'}${value}% from entry`;
+  }
+  return `$${value}`;
+}
+
+async function buildTpSlMessage(walletId: string): Promise<{ message: string; keyboard: InlineKeyboard }> {
+  const rules = await getTpSlRules(walletId, 'active');
+  const keyboard = new InlineKeyboard();
+
+  if (rules.length === 0) {
+    keyboard.text("🔄 Refresh", "refresh_tpsl");
+    return {
+      message:
+        `🎯 *TAKE-PROFIT / STOP-LOSS*\n\n` +
+        `You have no active rules.\n\n` +
+        USAGE,
+      keyboard
+    };
+  }
+
+  let message = `🎯 *TAKE-PROFIT / STOP-LOSS* (${rules.length})\n\n`;
+
+  rules.forEach((rule, index) => {
+    const label = rule.kind === 'take_profit' ? "🟢 TP" : "🔴 SL";
+
+    message += `${index + 1}. ${label} *${rule.tokenSymbol}*\n` +
+      `   Trigger: ${describeTrigger(rule)}\n` +
+      `   Size: ${parseFloat(rule.sellPercent)}%\n\n`;
+
+    keyboard.text(`❌ Cancel #${index + 1} (${rule.tokenSymbol})`, `cancel_tpsl_${rule.id}`).row();
+  });
+
+  keyboard.text("🔄 Refresh", "refresh_tpsl");
+
+  return { message, keyboard };
+}
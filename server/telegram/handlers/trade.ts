@@ -1,7 +1,15 @@
 import { Context, InlineKeyboard } from "grammy";
 import { getWallet } from "../../telegram-bot.js";
-import { getTokenMetadataWithFallback } from "../../helius-metadata.js";
+import { resolveTokenMetadata } from "../../token-resolver.js";
 import { getTokenPrice } from "../../pricing.js";
+import { scanTokenRisk } from "../../token-risk-scanner.js";
+import { getRiskFindings, type RiskLevel } from "../../token-risk.js";
+
+const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  low: "🟢 LOW",
+  medium: "🟡 MEDIUM",
+  high: "🔴 HIGH",
+};
 
 export async function handleTradeCA(ctx: Context, contractAddressOverride?: string) {
   const isCallback = !!ctx.callbackQuery;
@@ -54,9 +62,9 @@ export async function handleTradeCA(ctx: Context, contractAddressOverride?: stri
     );
     
     // 🚀 PARALLEL EXECUTION - Fetch ALL data at once (2-5s instead of 17-35s)
-    const [metadataResult, priceResult, marketResult, holdingResult] = await Promise.allSettled([
-      // 1. Token metadata (Helius → Dexscreener → CoinGecko → Jupiter)
-      getTokenMetadataWithFallback(contractAddress),
+    const [metadataResult, priceResult, marketResult, holdingResult, riskResult] = await Promise.allSettled([
+      // 1. Token metadata (persisted cache, then Helius → Dexscreener → CoinGecko → Jupiter)
+      resolveTokenMetadata(contractAddress),
       
       // 2. Token price (with 60s cache)
       getTokenPrice(contractAddress),
@@ -81,7 +89,10 @@ export async function handleTradeCA(ctx: Context, contractAddressOverride?: stri
         .catch((err) => {
           console.error('[Trade] Holdings fetch failed (non-critical):', err);
           return { success: false };
-        })
+        }),
+      
+      // 5. Token safety report (authorities, holders, liquidity, age, sell tax - 5 min cache)
+      scanTokenRisk(contractAddress)
     ]);
     
     // Extract metadata (REQUIRED)
@@ -182,6 +193,17 @@ export async function handleTradeCA(ctx: Context, contractAddressOverride?: stri
       message += `🔄 24h Volume: $${formatNumber(marketData.volume24h)}\n`;
     }
 
+    // Risk score (OPTIONAL - omitted if the scan failed)
+    if (riskResult.status === 'fulfilled') {
+      const report = riskResult.value;
+      message += `\n🛡 Risk: *${RISK_LEVEL_LABELS[report.level]}* (${report.score}/100)\n`;
+      getRiskFindings(report).slice(0, 3).forEach(finding => {
+        message += `${finding.status === 'fail' ? '⛔' : '⚠️'} ${finding.detail}\n`;
+      });
+    } else {
+      console.error('[Trade] Risk scan failed (non-critical):', riskResult.reason);
+    }
+
     // Create inline keyboard with preset amounts
     const keyboard = new InlineKeyboard()
       .text("0.1 SOL", `buy_${contractAddress}_0.1`)
@@ -1,13 +1,17 @@
 import { Context, InlineKeyboard } from "grammy";
-import { getWallet, setConversationState } from "../../telegram-bot.js";
+import { getWallet } from "../../telegram-bot.js";
+import { conversations } from "../conversations.js";
 import { db } from "../../db";
-import { withdrawals, balances, transactions, wallets } from "@shared/schema";
+import { withdrawals, transactions } from "@shared/schema";
 import { eq, and, desc, sql } from "drizzle-orm";
 import { storage } from "../../storage.js";
-import { createWithdrawStep1Exchange } from "../../bridge-protocol.js";
+import { createSolToIntermediateExchange, routeColumns } from "../../bridge-provider.js";
+import { getBridgeRoute } from "../../bridges.js";
+import { MIN_TRANSFER_SOL, getTransferLimits, checkTransferAmount, estimateBridgeTransfer } from "../../bridge-estimate.js";
 import { getSolanaPrice } from "../../coingecko.js";
 import { PublicKey } from "@solana/web3.js";
 import { generateAnxTxHash } from "../../swap-helpers.js";
+import { postSolMovement } from "../../sol-ledger.js";
 import crypto from "crypto";
 
 export async function handleWithdraw(ctx: Context, withdrawalId?: string) {
@@ -63,7 +67,7 @@ export async function handleWithdraw(ctx: Context, withdrawalId?: string) {
       const statusMessage = await getWithdrawalStatusMessage(withdrawal);
       const keyboard = new InlineKeyboard();
       
-      if (withdrawal.status !== 'finished' && withdrawal.status !== 'failed') {
+      if (withdrawal.status === 'waiting_step1' || withdrawal.status === 'waiting_step2') {
         keyboard.text("🔄 Refresh Status", `refresh_withdraw_${withdrawal.id}`);
       }
 
@@ -110,7 +114,7 @@ export async function handleWithdraw(ctx: Context, withdrawalId?: string) {
       }
     } else {
       // No pending withdrawal - ask for amount
-      setConversationState(telegramUserId, 'waiting_withdraw_amount');
+      await conversations.start(telegramUserId, 'withdraw', 'amount', {});
       
       // Get current balance
       const balance = await storage.getBalance(wallet.id);
@@ -122,7 +126,7 @@ export async function handleWithdraw(ctx: Context, withdrawalId?: string) {
         `Please enter the amount of SOL you wish to withdraw.\n\n` +
         `*Example:* \`0.5\` or \`1.0\`\n\n` +
         `📋 *Requirements:*\n` +
-        `• Minimum: 0.05 SOL\n` +
+        `• Minimum: ${MIN_TRANSFER_SOL} SOL\n` +
         `• Network fees absorbed by platform\n` +
         `• Complete anonymity via ZK relay network\n` +
         `• Processing time: 2-5 minutes`;
@@ -161,10 +165,17 @@ async function getWithdrawalStatusMessage(withdrawal: any): Promise<string> {
       step = 2;
       break;
     case 'failed':
+    case 'refunded':
+    case 'expired':
       statusEmoji = "❌";
       statusText = "PROCESS FAILED";
       step = 0;
       break;
+    case 'dead_letter':
+      statusEmoji = "🛠";
+      statusText = "UNDER MANUAL REVIEW";
+      step = 0;
+      break;
     default:
       statusEmoji = "⏳";
       statusText = "PRIVACY RELAY INITIALIZATION";
@@ -229,15 +240,15 @@ export async function handleWithdrawAmount(ctx: Context, amount: string) {
   try {
     const numAmount = parseFloat(amount);
     
-    if (isNaN(numAmount) || numAmount < 0.05) {
-      await ctx.reply("❌ Invalid amount entered. The minimum withdrawal requirement is 0.05 SOL.\n\nPlease enter a valid amount:");
+    if (isNaN(numAmount) || numAmount < MIN_TRANSFER_SOL) {
+      await ctx.reply(`❌ Invalid amount entered. The minimum withdrawal requirement is ${MIN_TRANSFER_SOL} SOL.\n\nPlease enter a valid amount:`);
       return;
     }
 
     const wallet = await getWallet(telegramUserId);
     
     if (!wallet) {
-      setConversationState(telegramUserId, null);
+      await conversations.end(telegramUserId);
       await ctx.reply(
         `⚠️ *No Wallet Found*\n\n` +
         `You need to create a wallet first.\n\n` +
@@ -268,27 +279,39 @@ export async function handleWithdrawAmount(ctx: Context, amount: string) {
       return;
     }
     
-    // Store amount in database (persisted across bot restarts) and ask for destination address
-    await db.update(wallets)
-      .set({ pendingWithdrawAmount: numAmount.toString() })
-      .where(eq(wallets.id, wallet.id));
+    // Quote both bridge hops so the user sees what arrives before giving an address
+    const route = getBridgeRoute();
+    const limits = await getTransferLimits(route);
+    const limitError = checkTransferAmount('withdrawal', numAmount, limits);
+    if (limitError) {
+      await ctx.reply(`❌ ${limitError}.\n\nPlease enter a valid amount:`);
+      return;
+    }
+
+    const estimate = await estimateBridgeTransfer(route, 'withdrawal', numAmount, await getSolanaPrice(), limits);
     
-    setConversationState(telegramUserId, 'waiting_withdraw_address');
+    // Carry the amount to the address step (persisted across bot restarts)
+    await conversations.start(telegramUserId, 'withdraw', 'address', { amount: numAmount.toString() });
     
     await ctx.reply(
       `✅ Amount confirmed: *${numAmount.toFixed(4)} SOL*\n\n` +
-      `Please enter your destination Solana address (32-44 characters).`,
+      `🧾 *Withdrawal Quote*\n` +
+      `Deducted from balance: ${totalDeduction.toFixed(4)} SOL (includes ${estimatedFees.toFixed(4)} SOL fee buffer)\n` +
+      `Estimated arrival: *${parseFloat(estimate.receiveSol).toFixed(4)} SOL* (≈ $${estimate.receiveUsd})\n` +
+      `Network fees: ${parseFloat(estimate.spreadSol).toFixed(4)} SOL (≈ $${estimate.spreadUsd}, ${estimate.spreadPercent}%)\n` +
+      `Estimated time: ${estimate.etaMinutes.min}-${estimate.etaMinutes.max} minutes\n\n` +
+      `Please enter your destination Solana address (32-44 characters) to confirm.`,
       { parse_mode: "Markdown" }
     );
   } catch (error: any) {
     console.error("Error processing withdrawal amount:", error);
-    setConversationState(telegramUserId, null);
+    await conversations.end(telegramUserId);
     await ctx.reply("❌ Unable to process withdrawal. Please try again with /withdraw");
   }
 }
 
-// Handler for when user sends destination address
-export async function handleWithdrawAddress(ctx: Context, address: string) {
+// Handler for when user sends destination address (amount comes from the amount step)
+export async function handleWithdrawAddress(ctx: Context, address: string, pendingAmount: string) {
   if (!ctx.from) return;
 
   const telegramUserId = ctx.from.id.toString();
@@ -314,8 +337,7 @@ export async function handleWithdrawAddress(ctx: Context, address: string) {
       return;
     }
     
-    // Read pending amount from database (persisted across bot restarts)
-    const amount = parseFloat(wallet.pendingWithdrawAmount || "0");
+    const amount = parseFloat(pendingAmount);
     
     if (!amount || amount <= 0) {
       await ctx.reply(
@@ -323,7 +345,7 @@ export async function handleWithdrawAddress(ctx: Context, address: string) {
         `Please start a new withdrawal with /withdraw`,
         { parse_mode: "Markdown" }
       );
-      setConversationState(telegramUserId, null);
+      await conversations.end(telegramUserId);
       return;
     }
     
@@ -355,40 +377,53 @@ export async function handleWithdrawAddress(ctx: Context, address: string) {
     const estimatedFees = amount * 0.01;
     const totalDeduction = amount + estimatedFees;
     
-    // Get Privacy Relay Node
-    const tronWallet = await storage.getSystemWallet("privacy_relay_node");
+    // Get Privacy Relay Node for the active bridge route
+    const route = getBridgeRoute();
+    const tronWallet = await storage.getSystemWallet(route.intermediate.relayWalletName);
     if (!tronWallet) {
       throw new Error("System wallet not initialized");
     }
     
     // ATOMIC TRANSACTION: Deduct balance + create exchange + create records
     const result = await db.transaction(async (tx) => {
-      // 1. Deduct total SOL (amount + fee buffer) from balance
-      const updatedBalances = await tx.execute(sql`
-        UPDATE ${balances}
-        SET 
-          sol_balance = sol_balance - ${totalDeduction.toString()}::decimal,
-          updated_at = NOW()
-        WHERE wallet_id = ${wallet.id}
-          AND sol_balance >= ${totalDeduction.toString()}::decimal
-        RETURNING *
-      `);
+      // 1. Create transaction record (visible in explorer) - linked to the withdrawal in step 4
+      const [withdrawTx] = await tx.insert(transactions).values({
+        walletId: wallet.id,
+        txhash: generateAnxTxHash('withdraw'),
+        type: 'withdraw',
+        instructions: 'transfer out',
+        tokenAddress: null,
+        tokenSymbol: 'SOL',
+        amount: amount.toFixed(9),
+        priceUsd: solPrice.toFixed(2),
+        status: 'pending',
+      }).returning({ id: transactions.id });
       
-      if (updatedBalances.rowCount === 0) {
+      // 2. Deduct total SOL (amount + fee buffer) from balance + ledger entry
+      const updatedBalance = await postSolMovement(tx, {
+        walletId: wallet.id,
+        amount: totalDeduction,
+        reason: 'withdrawal',
+        transactionId: withdrawTx.id
+      });
+      
+      if (!updatedBalance) {
         throw new Error("Insufficient balance or concurrent withdrawal detected");
       }
       
-      // 2. Create Step 1 exchange: SOL → TRX to Privacy Relay Node
-      const step1Exchange = await createWithdrawStep1Exchange(
+      // 3. Create Step 1 exchange: SOL → TRX to Privacy Relay Node
+      const step1Exchange = await createSolToIntermediateExchange(
+        route,
         amount.toFixed(9),
         tronWallet.address
       );
       
-      // 3. Create withdrawal record
+      // 4. Create withdrawal record
       const [withdrawal] = await tx.insert(withdrawals).values({
         walletId: wallet.id,
         destinationAddress: address,
-        step1ExchangeId: step1Exchange.publicId,
+        ...routeColumns(route),
+        step1ExchangeId: step1Exchange.id,
         step2ExchangeId: null,
         solDeducted: amount.toFixed(9),
         trxAmount: null,
@@ -398,19 +433,10 @@ export async function handleWithdrawAddress(ctx: Context, address: string) {
         step2TxTo: null,
       }).returning();
       
-      // 4. Create transaction record (visible in explorer)
-      await tx.insert(transactions).values({
-        walletId: wallet.id,
-        txhash: generateAnxTxHash('withdraw'),
-        type: 'withdraw',
-        instructions: 'transfer out',
-        withdrawalId: withdrawal.id, // Link transaction to withdrawal
-        tokenAddress: null,
-        tokenSymbol: 'SOL',
-        amount: amount.toFixed(9),
-        priceUsd: solPrice.toFixed(2),
-        status: 'pending',
-      });
+      // Link transaction to withdrawal
+      await tx.update(transactions)
+        .set({ withdrawalId: withdrawal.id })
+        .where(eq(transactions.id, withdrawTx.id));
       
       return { withdrawal, step1Exchange };
     });
@@ -446,28 +472,17 @@ export async function handleWithdrawAddress(ctx: Context, address: string) {
         .where(eq(withdrawals.id, result.withdrawal.id));
     }
     
-    // Clear conversation state and pending amount in database after successful withdrawal
-    setConversationState(telegramUserId, null);
-    await db.update(wallets)
-      .set({ pendingWithdrawAmount: null })
-      .where(eq(wallets.id, wallet.id));
+    // End the withdraw conversation after successful withdrawal
+    await conversations.end(telegramUserId);
     
   } catch (error: any) {
     console.error("Error creating withdrawal:", error);
     
-    // Clear state on error
-    setConversationState(telegramUserId, null);
-    
-    // Try to clear pending amount from database (best effort)
+    // End the conversation on error (best effort)
     try {
-      const wallet = await getWallet(telegramUserId);
-      if (wallet) {
-        await db.update(wallets)
-          .set({ pendingWithdrawAmount: null })
-          .where(eq(wallets.id, wallet.id));
-      }
+      await conversations.end(telegramUserId);
     } catch (cleanupError) {
-      console.error("Error clearing pending amount:", cleanupError);
+      console.error("Error ending withdraw conversation:", cleanupError);
     }
     
     if (error.message?.includes("Insufficient balance")) {
@@ -83,3 +83,112 @@ export function getValidatedDecimalsOrDefault(
   
   return result.decimals;
 }
+
+// ======================
+// Mint accounts (SPL Token / Token-2022)
+// ======================
+
+export type TokenProgram = 'spl-token' | 'spl-token-2022';
+
+/**
+ * Token-2022 extensions and mint authorities that can restrict holders
+ *   freeze_authority     - the authority can freeze any holder's token account
+ *   transfer_fee         - a fee is withheld on every transfer (sells receive less)
+ *   permanent_delegate   - the delegate can move or burn tokens from any account
+ *   transfer_hook        - a custom program runs on every transfer and can block it
+ *   non_transferable     - tokens cannot be transferred at all
+ *   default_frozen       - new token accounts start frozen
+ */
+export type MintFlag =
+  | 'freeze_authority'
+  | 'transfer_fee'
+  | 'permanent_delegate'
+  | 'transfer_hook'
+  | 'non_transferable'
+  | 'default_frozen';
+
+export interface MintAccountInfo {
+  tokenProgram: TokenProgram;
+  decimals: number;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  transferFeeBps: number | null; // Highest of the current and scheduled Token-2022 transfer fee
+  extensions: string[]; // Token-2022 extension names, e.g. "transferFeeConfig"
+  flags: MintFlag[];
+}
+
+/**
+ * Parse a jsonParsed mint account (getParsedAccountInfo data)
+ * @returns Mint info, or null when the account is not a mint or its decimals are invalid
+ */
+export function parseMintAccount(data: { program?: string; parsed?: any } | null | undefined): MintAccountInfo | null {
+  if (!data || data.parsed?.type !== 'mint') {
+    return null;
+  }
+
+  const info = data.parsed.info || {};
+  const decimalsValidation = validateTokenDecimals(info.decimals, 'MintAccount');
+  if (decimalsValidation.kind === 'error') {
+    console.warn(`⚠️ ${decimalsValidation.reason}`);
+    return null;
+  }
+
+  const extensions: Array<{ extension: string; state?: any }> = Array.isArray(info.extensions) ? info.extensions : [];
+  const findExtension = (name: string) => extensions.find(e => e.extension === name);
+
+  const transferFee = findExtension('transferFeeConfig');
+  const transferFeeBps = transferFee
+    ? Math.max(
+        Number(transferFee.state?.olderTransferFee?.transferFeeBasisPoints) || 0,
+        Number(transferFee.state?.newerTransferFee?.transferFeeBasisPoints) || 0
+      )
+    : null;
+
+  const flags: MintFlag[] = [];
+  if (info.freezeAuthority) flags.push('freeze_authority');
+  if (transferFeeBps) flags.push('transfer_fee');
+  if (findExtension('permanentDelegate')?.state?.delegate) flags.push('permanent_delegate');
+  if (findExtension('transferHook')?.state?.programId) flags.push('transfer_hook');
+  if (findExtension('nonTransferable')) flags.push('non_transferable');
+  if (findExtension('defaultAccountState')?.state?.accountState === 'frozen') flags.push('default_frozen');
+
+  return {
+    tokenProgram: data.program === 'spl-token-2022' ? 'spl-token-2022' : 'spl-token',
+    decimals: decimalsValidation.decimals,
+    mintAuthority: info.mintAuthority || null,
+    freezeAuthority: info.freezeAuthority || null,
+    transferFeeBps,
+    extensions: extensions.map(e => e.extension),
+    flags,
+  };
+}
+
+// ======================
+// Refresh policy
+// ======================
+
+export const METADATA_REFRESH_MS = 24 * 60 * 60 * 1000; // Resolved rows: authorities and fees can change
+export const UNRESOLVED_METADATA_REFRESH_MS = 60 * 60 * 1000; // UNKNOWN symbols and unread mint accounts are retried hourly
+
+/**
+ * Whether a persisted metadata row should be re-fetched from its sources
+ */
+export function isMetadataRefreshDue(
+  row: { symbol: string; refreshedAt: Date | null; mintAccountReadAt?: Date | null },
+  now: Date = new Date()
+): boolean {
+  if (!row.refreshedAt) {
+    return true;
+  }
+
+  const unresolved = row.symbol === 'UNKNOWN' || row.mintAccountReadAt === null;
+  const maxAge = unresolved ? UNRESOLVED_METADATA_REFRESH_MS : METADATA_REFRESH_MS;
+  return now.getTime() - row.refreshedAt.getTime() >= maxAge;
+}
+
+/**
+ * Base58 shape check for mint addresses from user input (does not prove the account exists)
+ */
+export function isValidMintAddress(value: unknown): value is string {
+  return typeof value === 'string' && /^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(value);
+}
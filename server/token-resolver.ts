@@ -0,0 +1,283 @@
+import { db } from "./db";
+import { tokenMetadata, tokenHoldings, transactions, type TokenMetadata } from "@shared/schema";
+import { eq, and, ne, gt } from "drizzle-orm";
+import { fetchSourceMetadata } from "./helius-metadata";
+import { getParsedMintAccount } from "./jupiter";
+import { parseMintAccount, isMetadataRefreshDue, type MintFlag, type TokenProgram } from "./token-metadata";
+
+/**
+ * Token Metadata Resolver - single entry point for symbol, name, logo, decimals and mint properties
+ *
+ * 1. The `token_metadata` row is the source of truth and is served directly
+ * 2. Unknown mints are fetched synchronously: mint account (decimals, Token-2022 extensions, authorities)
+ *    plus symbol/name/logo from Helius → Dexscreener → CoinGecko → Jupiter
+ * 3. Rows past their refresh policy are served as-is and refreshed in the background
+ * 4. Admin overrides pin symbol/name/logo; refreshes then only update on-chain properties
+ *
+ * When a mint's symbol changes, holdings and transactions are updated to match
+ */
+
+const MAX_SYMBOL_LENGTH = 20;
+const REFRESH_BATCH_SIZE = 25; // Mints refreshed per polling cycle (each one hits several APIs)
+
+export interface ResolvedTokenMetadata {
+  mint: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logoURI?: string;
+  source: string | null;
+  tokenProgram: TokenProgram;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  transferFeeBps: number | null;
+  extensions: string[];
+  flags: MintFlag[];
+  mintAccountReadAt: Date | null; // null = mint account never read: authorities and flags above are not real values
+  overridden: boolean;
+  refreshedAt: Date | null;
+}
+
+function parseJsonArray<T>(value: string | null): T[] {
+  try {
+    const parsed = JSON.parse(value || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function toResolvedMetadata(row: TokenMetadata): ResolvedTokenMetadata {
+  return {
+    mint: row.mint,
+    symbol: row.symbol,
+    name: row.name || row.symbol,
+    decimals: parseInt(row.decimals),
+    logoURI: row.logoUri || undefined,
+    source: row.source,
+    tokenProgram: row.tokenProgram,
+    mintAuthority: row.mintAuthority,
+    freezeAuthority: row.freezeAuthority,
+    transferFeeBps: row.transferFeeBps,
+    extensions: parseJsonArray<string>(row.extensions),
+    flags: parseJsonArray<MintFlag>(row.flags),
+    mintAccountReadAt: row.mintAccountReadAt,
+    overridden: row.overriddenAt !== null,
+    refreshedAt: row.refreshedAt,
+  };
+}
+
+async function getTokenMetadataRow(mint: string): Promise<TokenMetadata | undefined> {
+  const [row] = await db.select()
+    .from(tokenMetadata)
+    .where(eq(tokenMetadata.mint, mint))
+    .limit(1);
+  return row;
+}
+
+/**
+ * Point holdings and transactions of a mint at its current symbol
+ * (replaces legacy CA-prefix and UNKNOWN symbols recorded before the token was resolved)
+ */
+async function propagateTokenSymbol(mint: string, symbol: string): Promise<void> {
+  if (symbol === 'UNKNOWN') {
+    return;
+  }
+
+  await db.update(tokenHoldings)
+    .set({ symbol, updatedAt: new Date() })
+    .where(and(eq(tokenHoldings.mint, mint), ne(tokenHoldings.symbol, symbol)));
+
+  await db.update(transactions)
+    .set({ tokenSymbol: symbol })
+    .where(and(eq(transactions.tokenAddress, mint), ne(transactions.tokenSymbol, symbol)));
+}
+
+async function fetchAndStoreTokenMetadata(mint: string): Promise<ResolvedTokenMetadata> {
+  const [mintAccount, sourceMetadata, existing] = await Promise.all([
+    getParsedMintAccount(mint).then(parseMintAccount),
+    fetchSourceMetadata(mint),
+    getTokenMetadataRow(mint)
+  ]);
+
+  // Decimals from the mint account; Helius only when the RPC is unavailable. Never guessed.
+  const decimals = mintAccount?.decimals ?? sourceMetadata?.decimals ?? (existing ? parseInt(existing.decimals) : undefined);
+  if (decimals === undefined) {
+    throw new Error(`Unable to fetch token metadata for ${mint}. Token may not exist or API services are down.`);
+  }
+
+  const fetchedSymbol = (sourceMetadata?.symbol || 'UNKNOWN').slice(0, MAX_SYMBOL_LENGTH);
+  // Keep descriptive fields when overridden, or when the sources are down (never downgrade to UNKNOWN)
+  const keepDescriptive = !!existing && (existing.overriddenAt !== null || fetchedSymbol === 'UNKNOWN');
+
+  const descriptive = keepDescriptive ? {} : {
+    symbol: fetchedSymbol,
+    name: sourceMetadata?.name || null,
+    logoUri: sourceMetadata?.logoURI || null,
+    source: sourceMetadata?.source || null,
+  };
+
+  const onChain = mintAccount ? {
+    tokenProgram: mintAccount.tokenProgram,
+    mintAuthority: mintAccount.mintAuthority,
+    freezeAuthority: mintAccount.freezeAuthority,
+    transferFeeBps: mintAccount.transferFeeBps,
+    extensions: JSON.stringify(mintAccount.extensions),
+    flags: JSON.stringify(mintAccount.flags),
+    mintAccountReadAt: new Date(),
+  } : {}; // RPC unavailable: keep the last read (a new row stays unread)
+
+  const values = {
+    ...descriptive,
+    ...onChain,
+    decimals: decimals.toString(),
+    refreshedAt: new Date(),
+    updatedAt: new Date(),
+  };
+
+  const [row] = await db.insert(tokenMetadata)
+    .values({ mint, symbol: fetchedSymbol, ...values })
+    .onConflictDoUpdate({
+      target: tokenMetadata.mint,
+      set: values
+    })
+    .returning();
+
+  if (!existing || existing.symbol !== row.symbol) {
+    await propagateTokenSymbol(mint, row.symbol);
+  }
+
+  return toResolvedMetadata(row);
+}
+
+const inFlightRefreshes = new Map<string, Promise<ResolvedTokenMetadata>>();
+
+/**
+ * Fetch a mint from its sources now and persist it (concurrent calls share one fetch)
+ */
+export function refreshTokenMetadata(mint: string): Promise<ResolvedTokenMetadata> {
+  const pending = inFlightRefreshes.get(mint);
+  if (pending) {
+    return pending;
+  }
+
+  const refresh = fetchAndStoreTokenMetadata(mint).finally(() => inFlightRefreshes.delete(mint));
+  inFlightRefreshes.set(mint, refresh);
+  return refresh;
+}
+
+/**
+ * Resolve token metadata from the persisted cache, fetching unknown mints
+ * CRITICAL: Never returns CA prefix - throws error if metadata cannot be found
+ */
+export async function resolveTokenMetadata(mint: string): Promise<ResolvedTokenMetadata> {
+  const row = await getTokenMetadataRow(mint);
+
+  if (!row) {
+    return refreshTokenMetadata(mint);
+  }
+
+  if (isMetadataRefreshDue(row)) {
+    // Serve the cached row, refresh for the next caller
+    refreshTokenMetadata(mint).catch(error => console.error(`Token metadata refresh error for ${mint}:`, error));
+  }
+
+  return toResolvedMetadata(row);
+}
+
+/**
+ * Refresh metadata of held tokens that are missing or past their refresh policy
+ * (called from background polling every hour)
+ */
+export async function refreshStaleTokenMetadata(): Promise<void> {
+  try {
+    const held = await db.selectDistinct({ mint: tokenHoldings.mint })
+      .from(tokenHoldings)
+      .where(gt(tokenHoldings.amount, '0'));
+
+    const due: string[] = [];
+    for (const { mint } of held) {
+      const row = await getTokenMetadataRow(mint);
+      if (!row || isMetadataRefreshDue(row)) {
+        due.push(mint);
+      }
+      if (due.length >= REFRESH_BATCH_SIZE) {
+        break;
+      }
+    }
+
+    let failed = 0;
+    for (const mint of due) {
+      try {
+        await refreshTokenMetadata(mint);
+      } catch (error: any) {
+        console.error(`Token metadata refresh error for ${mint}:`, error.message);
+        failed++;
+      }
+    }
+
+    if (due.length > 0) {
+      console.log(`🏷️ Refreshed token metadata for ${due.length - failed}/${due.length} mints`);
+    }
+  } catch (error: any) {
+    console.error("Token metadata refresh error:", error);
+  }
+}
+
+/**
+ * Pin symbol/name/logo of a mint (admin) - later refreshes keep them
+ */
+export async function setTokenMetadataOverride(
+  mint: string,
+  override: { symbol?: string; name?: string; logoUri?: string | null }
+): Promise<{ success: boolean; metadata?: ResolvedTokenMetadata; error?: string }> {
+  const symbol = override.symbol?.trim();
+  if (symbol !== undefined && (symbol.length === 0 || symbol.length > MAX_SYMBOL_LENGTH)) {
+    return { success: false, error: `Symbol must be 1-${MAX_SYMBOL_LENGTH} characters` };
+  }
+
+  try {
+    // The row must exist (decimals and mint properties come from the sources)
+    await resolveTokenMetadata(mint);
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+
+  const [row] = await db.update(tokenMetadata)
+    .set({
+      ...(symbol !== undefined ? { symbol } : {}),
+      ...(override.name !== undefined ? { name: override.name.trim() || null } : {}),
+      ...(override.logoUri !== undefined ? { logoUri: override.logoUri || null } : {}),
+      source: 'admin',
+      overriddenAt: new Date(),
+      updatedAt: new Date()
+    })
+    .where(eq(tokenMetadata.mint, mint))
+    .returning();
+
+  await propagateTokenSymbol(mint, row.symbol);
+
+  return { success: true, metadata: toResolvedMetadata(row) };
+}
+
+/**
+ * Remove an admin override and re-fetch the mint from its sources
+ */
+export async function clearTokenMetadataOverride(
+  mint: string
+): Promise<{ success: boolean; metadata?: ResolvedTokenMetadata; error?: string }> {
+  const cleared = await db.update(tokenMetadata)
+    .set({ overriddenAt: null, updatedAt: new Date() })
+    .where(eq(tokenMetadata.mint, mint))
+    .returning({ mint: tokenMetadata.mint });
+
+  if (cleared.length === 0) {
+    return { success: false, error: "Token metadata not found" };
+  }
+
+  try {
+    return { success: true, metadata: await refreshTokenMetadata(mint) };
+  } catch (error: any) {
+    return { success: false, error: error.message };
+  }
+}
@@ -0,0 +1,92 @@
+import { getJupiterQuote, getTopHolderShare, toLamports, SOL_MINT } from "./jupiter";
+import { getDexscreenerPairs } from "./pricing";
+import { resolveTokenMetadata } from "./token-resolver";
+import { evaluateTokenRisk, type TokenRiskInputs, type TokenRiskReport } from "./token-risk";
+
+/**
+ * Token Risk Scanner - gathers the inputs of a safety report (scoring lives in server/token-risk.ts)
+ *
+ * Sources: mint account via the metadata resolver (authorities, Token-2022 flags), largest token
+ * accounts via RPC, Dexscreener pairs (liquidity, age) and a round-trip Jupiter quote (sell tax)
+ */
+
+const REPORT_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes - the buy screen and the buy itself share one scan
+const ROUND_TRIP_SOL = 0.1; // Small enough to keep price impact low on thin pools
+
+const reportCache = new Map<string, { report: TokenRiskReport; timestamp: number }>();
+
+/**
+ * Quote SOL → token → SOL and measure what is lost beyond the reported price impact
+ * A sell quote of zero flags a missing sell route; a failed request leaves the check unknown
+ */
+async function measureRoundTrip(mint: string): Promise<{ roundTripLossPct: number | null; sellQuoteFailed: boolean }> {
+  let buyQuote;
+  try {
+    buyQuote = await getJupiterQuote({ inputMint: SOL_MINT, outputMint: mint, amount: toLamports(ROUND_TRIP_SOL) });
+  } catch {
+    return { roundTripLossPct: null, sellQuoteFailed: false };
+  }
+
+  if (!buyQuote.outAmount || buyQuote.outAmount === '0') {
+    return { roundTripLossPct: null, sellQuoteFailed: false };
+  }
+
+  try {
+    const sellQuote = await getJupiterQuote({ inputMint: mint, outputMint: SOL_MINT, amount: buyQuote.outAmount });
+    const solBack = parseFloat(sellQuote.outAmount);
+    if (!solBack) {
+      return { roundTripLossPct: null, sellQuoteFailed: true };
+    }
+
+    const lossPct = (1 - solBack / parseFloat(buyQuote.inAmount)) * 100;
+    const impactPct = Math.abs(parseFloat(buyQuote.priceImpactPct) || 0) + Math.abs(parseFloat(sellQuote.priceImpactPct) || 0);
+    return { roundTripLossPct: lossPct - impactPct, sellQuoteFailed: false };
+  } catch {
+    // Rate limits and outages throw too - only a quote that returns nothing proves there is no sell route
+    return { roundTripLossPct: null, sellQuoteFailed: false };
+  }
+}
+
+/**
+ * Safety report for a token (cached 5 minutes per mint)
+ */
+export async function scanTokenRisk(mint: string): Promise<TokenRiskReport> {
+  const cached = reportCache.get(mint);
+  if (cached && Date.now() - cached.timestamp < REPORT_CACHE_TTL_MS) {
+    return cached.report;
+  }
+
+  const [metadata, topHolderShare, pairs, roundTrip] = await Promise.all([
+    resolveTokenMetadata(mint).catch(() => null),
+    getTopHolderShare(mint),
+    getDexscreenerPairs(mint),
+    measureRoundTrip(mint)
+  ]);
+
+  const solanaPairs = (pairs || []).filter((pair: any) => pair.chainId === 'solana');
+  const pairCreatedTimes = solanaPairs
+    .map((pair: any) => Number(pair.pairCreatedAt))
+    .filter((time: number) => Number.isFinite(time) && time > 0);
+
+  const inputs: TokenRiskInputs = {
+    mint,
+    // Authorities stored without a mint account read are placeholders, not "disabled"
+    ...(metadata?.mintAccountReadAt ? {
+      mintAuthority: metadata.mintAuthority,
+      freezeAuthority: metadata.freezeAuthority,
+      flags: metadata.flags
+    } : {}),
+    topHolderShare,
+    liquidityUsd: solanaPairs.length > 0
+      ? solanaPairs.reduce((sum: number, pair: any) => sum + (parseFloat(pair.liquidity?.usd) || 0), 0)
+      : null,
+    pairCreatedAt: pairCreatedTimes.length > 0 ? new Date(Math.min(...pairCreatedTimes)) : null,
+    ...roundTrip
+  };
+
+  const report = evaluateTokenRisk(inputs);
+  reportCache.set(mint, { report, timestamp: Date.now() });
+
+  console.log(`🛡 Risk scan ${mint}: ${report.score}/100 (${report.level})`);
+  return report;
+}
@@ -0,0 +1,186 @@
+/**
+ * Token risk scoring
+ *
+ * A safety report sums the penalty of every check into a 0-100 risk score (higher is riskier):
+ *
+ *   mint authority     supply can still be inflated                     warn 20
+ *   freeze authority   holders can be frozen (cannot sell)              fail 30
+ *   token extensions   Token-2022 delegate / hook / non-transferable    warn-fail, up to 50
+ *   holder concentration  top 10 accounts > 50% / > 80% of supply       warn 10 / fail 25
+ *   liquidity          Dexscreener pool liquidity < $50k / < $5k        warn 10 / fail 30
+ *   token age          oldest pair < 7 days / < 24 hours                warn 5 / warn 15
+ *   sell tax           round-trip quote loses > 5% / > 10%, or no sell  warn 10 / fail 35 / fail 50
+ *
+ * Checks whose data could not be fetched are 'unknown' with a small penalty. Level: high >= 50, medium >= 20.
+ *
+ * Pure functions - server/token-risk-scanner.ts gathers the inputs
+ */
+
+import type { MintFlag } from "./token-metadata";
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+export type RiskCheckStatus = 'pass' | 'warn' | 'fail' | 'unknown';
+export type RiskCheckId =
+  | 'mint_authority'
+  | 'freeze_authority'
+  | 'token_extensions'
+  | 'holder_concentration'
+  | 'liquidity'
+  | 'token_age'
+  | 'sell_tax';
+
+export interface RiskCheck {
+  id: RiskCheckId;
+  status: RiskCheckStatus;
+  detail: string;
+  penalty: number;
+}
+
+export interface TokenRiskReport {
+  mint: string;
+  score: number; // 0 (no findings) - 100
+  level: RiskLevel;
+  checks: RiskCheck[];
+  scannedAt: Date;
+}
+
+export interface TokenRiskInputs {
+  mint: string;
+  // Mint account (undefined when the token metadata could not be resolved or its mint account was never read)
+  mintAuthority?: string | null;
+  freezeAuthority?: string | null;
+  flags?: MintFlag[];
+  topHolderShare: number | null; // Share of supply held by the 10 largest token accounts (0-1)
+  liquidityUsd: number | null; // Summed over all Dexscreener pairs (null when the token has no pairs)
+  pairCreatedAt: Date | null; // Oldest Dexscreener pair
+  roundTripLossPct: number | null; // SOL lost buying and immediately selling, net of reported price impact
+  sellQuoteFailed: boolean; // A buy route exists but no sell route does
+}
+
+export const HIGH_RISK_SCORE = 50;
+export const MEDIUM_RISK_SCORE = 20;
+
+const HOUR = 60 * 60 * 1000;
+
+// Token-2022 flags checked under token_extensions (transfer fees show up in the sell tax check)
+const EXTENSION_PENALTIES: Partial<Record<MintFlag, { penalty: number; label: string }>> = {
+  non_transferable: { penalty: 50, label: 'non-transferable' },
+  permanent_delegate: { penalty: 40, label: 'permanent delegate can move tokens' },
+  default_frozen: { penalty: 30, label: 'new accounts start frozen' },
+  transfer_hook: { penalty: 20, label: 'transfer hook program' },
+  transfer_fee: { penalty: 10, label: 'transfer fee' },
+};
+
+function check(id: RiskCheckId, status: RiskCheckStatus, detail: string, penalty: number): RiskCheck {
+  return { id, status, detail, penalty };
+}
+
+function formatUsd(value: number): string {
+  return value >= 1000 ? `$${Math.round(value / 1000)}k` : `$${Math.round(value)}`;
+}
+
+export function getRiskLevel(score: number): RiskLevel {
+  if (score >= HIGH_RISK_SCORE) return 'high';
+  if (score >= MEDIUM_RISK_SCORE) return 'medium';
+  return 'low';
+}
+
+/**
+ * Run every check over the gathered inputs
+ */
+export function evaluateTokenRisk(inputs: TokenRiskInputs, now: Date = new Date()): TokenRiskReport {
+  const checks: RiskCheck[] = [];
+
+  // Mint and freeze authority
+  if (inputs.mintAuthority === undefined) {
+    checks.push(check('mint_authority', 'unknown', 'Mint account unavailable', 5));
+  } else if (inputs.mintAuthority) {
+    checks.push(check('mint_authority', 'warn', 'Mint authority can create more supply', 20));
+  } else {
+    checks.push(check('mint_authority', 'pass', 'Minting disabled', 0));
+  }
+
+  if (inputs.freezeAuthority === undefined) {
+    checks.push(check('freeze_authority', 'unknown', 'Mint account unavailable', 5));
+  } else if (inputs.freezeAuthority) {
+    checks.push(check('freeze_authority', 'fail', 'Freeze authority can freeze your tokens', 30));
+  } else {
+    checks.push(check('freeze_authority', 'pass', 'No freeze authority', 0));
+  }
+
+  // Token-2022 extensions
+  const extensionFindings = (inputs.flags || [])
+    .map(flag => EXTENSION_PENALTIES[flag])
+    .filter((finding): finding is { penalty: number; label: string } => !!finding);
+  if (inputs.flags === undefined) {
+    checks.push(check('token_extensions', 'unknown', 'Mint account unavailable', 0));
+  } else if (extensionFindings.length > 0) {
+    const penalty = Math.min(50, extensionFindings.reduce((sum, f) => sum + f.penalty, 0));
+    checks.push(check('token_extensions', penalty >= 30 ? 'fail' : 'warn', extensionFindings.map(f => f.label).join(', '), penalty));
+  } else {
+    checks.push(check('token_extensions', 'pass', 'No restricting extensions', 0));
+  }
+
+  // Holder concentration
+  if (inputs.topHolderShare === null) {
+    checks.push(check('holder_concentration', 'unknown', 'Holder data unavailable', 5));
+  } else {
+    const sharePct = inputs.topHolderShare * 100;
+    const detail = `Top 10 accounts hold ${sharePct.toFixed(1)}% of supply`;
+    if (sharePct > 80) checks.push(check('holder_concentration', 'fail', detail, 25));
+    else if (sharePct > 50) checks.push(check('holder_concentration', 'warn', detail, 10));
+    else checks.push(check('holder_concentration', 'pass', detail, 0));
+  }
+
+  // Liquidity depth
+  if (inputs.liquidityUsd === null) {
+    checks.push(check('liquidity', 'unknown', 'No DEX pairs found', 15));
+  } else {
+    const detail = `${formatUsd(inputs.liquidityUsd)} liquidity`;
+    if (inputs.liquidityUsd < 5_000) checks.push(check('liquidity', 'fail', detail, 30));
+    else if (inputs.liquidityUsd < 50_000) checks.push(check('liquidity', 'warn', detail, 10));
+    else checks.push(check('liquidity', 'pass', detail, 0));
+  }
+
+  // Token age (first DEX pair)
+  if (inputs.pairCreatedAt === null) {
+    checks.push(check('token_age', 'unknown', 'Pair age unavailable', 5));
+  } else {
+    const ageHours = (now.getTime() - inputs.pairCreatedAt.getTime()) / HOUR;
+    const detail = ageHours < 48 ? `Trading for ${Math.max(0, Math.floor(ageHours))}h` : `Trading for ${Math.floor(ageHours / 24)}d`;
+    if (ageHours < 24) checks.push(check('token_age', 'warn', detail, 15));
+    else if (ageHours < 7 * 24) checks.push(check('token_age', 'warn', detail, 5));
+    else checks.push(check('token_age', 'pass', detail, 0));
+  }
+
+  // Sell tax (round-trip quote)
+  if (inputs.sellQuoteFailed) {
+    checks.push(check('sell_tax', 'fail', 'No sell route - token may not be sellable', 50));
+  } else if (inputs.roundTripLossPct === null) {
+    checks.push(check('sell_tax', 'unknown', 'Round-trip quote unavailable', 5));
+  } else {
+    const detail = `Round trip loses ${Math.max(0, inputs.roundTripLossPct).toFixed(1)}% beyond price impact`;
+    if (inputs.roundTripLossPct > 10) checks.push(check('sell_tax', 'fail', detail, 35));
+    else if (inputs.roundTripLossPct > 5) checks.push(check('sell_tax', 'warn', detail, 10));
+    else checks.push(check('sell_tax', 'pass', detail, 0));
+  }
+
+  const score = Math.min(100, checks.reduce((sum, c) => sum + c.penalty, 0));
+
+  return {
+    mint: inputs.mint,
+    score,
+    level: getRiskLevel(score),
+    checks,
+    scannedAt: now,
+  };
+}
+
+/**
+ * Failing and warning checks, worst first (for compact displays)
+ */
+export function getRiskFindings(report: TokenRiskReport): RiskCheck[] {
+  return report.checks
+    .filter(c => c.status === 'fail' || c.status === 'warn')
+    .sort((a, b) => b.penalty - a.penalty);
+}
@@ -0,0 +1,61 @@
+import type { TpSlRule } from "@shared/schema";
+
+/**
+ * Take-profit / stop-loss trigger logic
+ *
+ * Pure functions - the TP/SL job (server/tp-sl.ts) supplies holdings, pending sells and live prices
+ */
+
+type TpSlKind = TpSlRule['kind'];
+
+/**
+ * Resolve the USD price at which a rule fires
+ * - 'price' rules use triggerValue directly
+ * - 'percent' rules are relative to the holding's CURRENT averageEntryPrice
+ *   (TP: entry × (1 + v/100), SL: entry × (1 - v/100))
+ * Returns null when the threshold cannot be computed (no entry price yet)
+ */
+export function getTpSlThreshold(
+  rule: Pick<TpSlRule, 'kind' | 'triggerType' | 'triggerValue'>,
+  averageEntryPrice: number | null
+): number | null {
+  const value = parseFloat(rule.triggerValue);
+  if (!Number.isFinite(value) || value <= 0) {
+    return null;
+  }
+
+  if (rule.triggerType === 'price') {
+    return value;
+  }
+
+  if (!averageEntryPrice || !Number.isFinite(averageEntryPrice) || averageEntryPrice <= 0) {
+    return null;
+  }
+
+  return rule.kind === 'take_profit'
+    ? averageEntryPrice * (1 + value / 100)
+    : averageEntryPrice * (1 - value / 100);
+}
+
+/**
+ * TP fires when price rises to or above threshold, SL when it drops to or below
+ */
+export function isTpSlTriggered(kind: TpSlKind, threshold: number, currentPrice: number): boolean {
+  if (!Number.isFinite(currentPrice) || currentPrice <= 0) {
+    return false;
+  }
+  return kind === 'take_profit' ? currentPrice >= threshold : currentPrice <= threshold;
+}
+
+/**
+ * What to do with an active rule whose position may be closed
+ * - keep: the wallet still holds the token
+ * - wait: nothing held, but a pending sell deducted it up-front (a failed sell restores it)
+ * - cancel: the position is closed
+ */
+export function getClosedPositionAction(holdingAmount: string | null, hasPendingSell: boolean): 'keep' | 'wait' | 'cancel' {
+  if (holdingAmount && parseFloat(holdingAmount) > 0) {
+    return 'keep';
+  }
+  return hasPendingSell ? 'wait' : 'cancel';
+}
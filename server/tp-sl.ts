@@ -0,0 +1,279 @@
+import { db } from "./db";
+import { tpSlRules, tokenHoldings, type TpSlRule } from "@shared/schema";
+import { eq, and, sql, desc, asc } from "drizzle-orm";
+import { getTokenPrices } from "./pricing";
+import { createInstantSellOrder } from "./instant-sell";
+import { getPendingSwapKeys } from "./swap-helpers";
+import { getClosedPositionAction, getTpSlThreshold, isTpSlTriggered } from "./tp-sl-trigger";
+
+const MAX_ACTIVE_RULES_PER_HOLDING = 10;
+
+/**
+ * Create a TP/SL rule on an existing holding
+ */
+export async function createTpSlRule(params: {
+  walletId: string;
+  mint: string;
+  kind: 'take_profit' | 'stop_loss';
+  triggerType: 'percent' | 'price';
+  triggerValue: string;
+  sellPercent?: string;
+}): Promise<{ success: boolean; rule?: TpSlRule; error?: string }> {
+  try {
+    const { walletId, mint, kind, triggerType, triggerValue } = params;
+    const sellPercent = params.sellPercent || "100";
+
+    const value = parseFloat(triggerValue);
+    if (!Number.isFinite(value) || value <= 0) {
+      return { success: false, error: "Trigger value must be greater than zero" };
+    }
+
+    if (triggerType === 'percent' && kind === 'stop_loss' && value >= 100) {
+      return { success: false, error: "Stop-loss percent must be below 100" };
+    }
+
+    const size = parseFloat(sellPercent);
+    if (!Number.isFinite(size) || size <= 0 || size > 100) {
+      return { success: false, error: "Sell size must be between 0 and 100 percent" };
+    }
+
+    const holding = await db.select()
+      .from(tokenHoldings)
+      .where(and(
+        eq(tokenHoldings.walletId, walletId),
+        eq(tokenHoldings.mint, mint)
+      ))
+      .limit(1);
+
+    if (holding.length === 0 || parseFloat(holding[0].amount) <= 0) {
+      return { success: false, error: "You don't hold this token" };
+    }
+
+    if (triggerType === 'percent' && !(parseFloat(holding[0].averageEntryPrice || "0") > 0)) {
+      return { success: false, error: "No entry price recorded for this holding - use an absolute price instead" };
+    }
+
+    const activeCount = await db.select({ count: sql<number>`count(*)::int` })
+      .from(tpSlRules)
+      .where(and(
+        eq(tpSlRules.walletId, walletId),
+        eq(tpSlRules.mint, mint),
+        eq(tpSlRules.status, 'active')
+      ));
+
+    if ((activeCount[0]?.count || 0) >= MAX_ACTIVE_RULES_PER_HOLDING) {
+      return { success: false, error: `Maximum of ${MAX_ACTIVE_RULES_PER_HOLDING} active TP/SL rules per token` };
+    }
+
+    const [rule] = await db.insert(tpSlRules).values({
+      walletId,
+      mint,
+      tokenSymbol: holding[0].symbol,
+      kind,
+      triggerType,
+      triggerValue,
+      sellPercent,
+    }).returning();
+
+    console.log(`📌 ${kind === 'take_profit' ? 'TP' : 'SL'} rule created: ${rule.id} (${holding[0].symbol} ${triggerType} ${triggerValue}, sell ${sellPercent}%)`);
+
+    return { success: true, rule };
+  } catch (error: any) {
+    console.error("Create TP/SL rule error:", error);
+    return { success: false, error: error.message || "Failed to create TP/SL rule" };
+  }
+}
+
+/**
+ * Cancel an active TP/SL rule
+ * SECURE: Only cancels rules owned by walletId, compare-and-set on status='active'
+ */
+export async function cancelTpSlRule(walletId: string, ruleId: string): Promise<{ success: boolean; error?: string }> {
+  const cancelled = await db.update(tpSlRules)
+    .set({
+      status: 'cancelled',
+      updatedAt: new Date()
+    })
+    .where(and(
+      eq(tpSlRules.id, ruleId),
+      eq(tpSlRules.walletId, walletId),
+      eq(tpSlRules.status, 'active')
+    ))
+    .returning({ id: tpSlRules.id });
+
+  if (cancelled.length === 0) {
+    return { success: false, error: "Rule not found or no longer active" };
+  }
+
+  console.log(`🚫 TP/SL rule cancelled: ${ruleId}`);
+  return { success: true };
+}
+
+/**
+ * List TP/SL rules for a wallet (newest first)
+ */
+export async function getTpSlRules(walletId: string, status?: TpSlRule['status']): Promise<TpSlRule[]> {
+  const conditions = [eq(tpSlRules.walletId, walletId)];
+  if (status) {
+    conditions.push(eq(tpSlRules.status, status));
+  }
+
+  return await db.select()
+    .from(tpSlRules)
+    .where(and(...conditions))
+    .orderBy(desc(tpSlRules.createdAt))
+    .limit(50);
+}
+
+/**
+ * Process active TP/SL rules (called from background polling)
+ * 1. Auto-cancel rules whose position has been closed
+ * 2. Fetch live prices for all watched mints in one batch
+ * 3. Claim fired rules atomically (active → triggered) and sell via createInstantSellOrder
+ *
+ * Rules live in Postgres so they survive restarts; the compare-and-set claim
+ * guarantees a rule can never fire twice, even with overlapping polling cycles
+ */
+export async function processTpSlRules(): Promise<void> {
+  try {
+    const rows = await db.select({
+      rule: tpSlRules,
+      amount: tokenHoldings.amount,
+      averageEntryPrice: tokenHoldings.averageEntryPrice,
+    })
+      .from(tpSlRules)
+      .leftJoin(tokenHoldings, and(
+        eq(tokenHoldings.walletId, tpSlRules.walletId),
+        eq(tokenHoldings.mint, tpSlRules.mint)
+      ))
+      .where(eq(tpSlRules.status, 'active'))
+      .orderBy(asc(tpSlRules.createdAt));
+
+    if (rows.length === 0) {
+      return;
+    }
+
+    const busy = await getPendingSwapKeys(Array.from(new Set(rows.map(r => r.rule.walletId))));
+
+    const live: typeof rows = [];
+    for (const row of rows) {
+      const closedAction = getClosedPositionAction(row.amount, busy.has(`${row.rule.walletId}:sell`));
+      if (closedAction === 'wait') continue;
+      if (closedAction === 'cancel') {
+        await db.update(tpSlRules)
+          .set({
+            status: 'cancelled',
+            failureReason: "Position closed",
+            updatedAt: new Date()
+          })
+          .where(and(
+            eq(tpSlRules.id, row.rule.id),
+            eq(tpSlRules.status, 'active')
+          ));
+        continue;
+      }
+      live.push(row);
+    }
+
+    if (live.length === 0) {
+      return;
+    }
+
+    const mints = Array.from(new Set(live.map(r => r.rule.mint)));
+    const priceMap = await getTokenPrices(mints);
+
+    for (const { rule, amount, averageEntryPrice } of live) {
+      const currentPrice = priceMap.get(rule.mint);
+      if (currentPrice === null || currentPrice === undefined) {
+        continue; // No price available this cycle
+      }
+
+      const threshold = getTpSlThreshold(rule, averageEntryPrice ? parseFloat(averageEntryPrice) : null);
+      if (threshold === null || !isTpSlTriggered(rule.kind, threshold, currentPrice)) {
+        continue;
+      }
+
+      const busyKey = `${rule.walletId}:sell`;
+      if (busy.has(busyKey)) {
+        continue; // Retry next cycle once the pending sell settles
+      }
+
+      try {
+        await triggerTpSlRule(rule, amount!, currentPrice);
+        busy.add(busyKey);
+      } catch (error: any) {
+        console.error(`❌ Failed to trigger TP/SL rule ${rule.id}:`, error.message);
+      }
+    }
+  } catch (error: any) {
+    console.error("TP/SL processing error:", error);
+  }
+}
+
+/**
+ * Claim a fired rule and create the sell
+ * IDEMPOTENCY: compare-and-set (status='active') ensures a rule is only executed once
+ */
+async function triggerTpSlRule(rule: TpSlRule, holdingAmount: string, currentPrice: number): Promise<void> {
+  const { notifyWalletOwner } = await import("./telegram-bot.js");
+
+  const claimed = await db.update(tpSlRules)
+    .set({
+      status: 'triggered',
+      triggerPriceUsd: currentPrice.toFixed(12),
+      triggeredAt: new Date(),
+      updatedAt: new Date()
+    })
+    .where(and(
+      eq(tpSlRules.id, rule.id),
+      eq(tpSlRules.status, 'active')
+    ))
+    .returning({ id: tpSlRules.id });
+
+  if (claimed.length === 0) {
+    return; // Cancelled or claimed elsewhere
+  }
+
+  const label = rule.kind === 'take_profit' ? "Take-Profit" : "Stop-Loss";
+  const sellPercent = parseFloat(rule.sellPercent);
+  // Full exits pass the exact holding string to avoid rounding dust
+  const tokenAmount = sellPercent >= 100
+    ? holdingAmount
+    : (Math.floor(parseFloat(holdingAmount) * sellPercent / 100 * 1e9) / 1e9).toString();
+
+  console.log(`🎯 ${label} rule ${rule.id} fired: ${rule.tokenSymbol} @ $${currentPrice} - selling ${tokenAmount} (${sellPercent}%)`);
+
+  const result = await createInstantSellOrder({
+    walletId: rule.walletId,
+    tokenAddress: rule.mint,
+    tokenAmount,
+  });
+
+  if (!result.success) {
+    await db.update(tpSlRules)
+      .set({
+        status: 'failed',
+        failureReason: result.error || "Failed to create sell order",
+        updatedAt: new Date()
+      })
+      .where(eq(tpSlRules.id, rule.id));
+
+    await notifyWalletOwner(rule.walletId, `❌ *${label} Failed*\n\n` +
+      `${rule.tokenSymbol} hit $${currentPrice.toPrecision(6)} but the sell could not be placed.\n\n` +
+      `Reason: ${result.error || "Unknown error"}`);
+    return;
+  }
+
+  await db.update(tpSlRules)
+    .set({
+      anxHash: result.anxHash,
+      updatedAt: new Date()
+    })
+    .where(eq(tpSlRules.id, rule.id));
+
+  await notifyWalletOwner(rule.walletId, `🎯 *${label} Triggered*\n\n` +
+    `${rule.tokenSymbol} hit $${currentPrice.toPrecision(6)}\n` +
+    `Selling ${sellPercent}% (${parseFloat(tokenAmount).toFixed(4)} ${rule.tokenSymbol})\n` +
+    `Expected: ${result.expectedSol || "..."} SOL\n\n` +
+    `You'll be notified when the sell completes.`);
+}
@@ -0,0 +1,112 @@
+import { db } from "./db";
+import { tradingSettings, type TradingSettings } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { COST_BASIS_METHODS } from "./cost-lots";
+
+export type TradingPreferences = Pick<TradingSettings, 'slippageBps' | 'maxPriceImpactPct' | 'priorityFeeTier' | 'antiMev' | 'costBasisMethod' | 'blockHighRiskBuys'>;
+
+export const PRIORITY_FEE_TIERS = ['auto', 'fast', 'turbo'] as const;
+
+// Applied when a wallet has never saved settings (instant buy/sell and swap job quotes were hardcoded to 2%)
+export const DEFAULT_TRADING_SETTINGS: TradingPreferences = {
+  slippageBps: 200, // 2%
+  maxPriceImpactPct: "15",
+  priorityFeeTier: 'auto',
+  antiMev: true,
+  costBasisMethod: 'fifo',
+  blockHighRiskBuys: false,
+};
+
+const MIN_SLIPPAGE_BPS = 10; // 0.1%
+const MAX_SLIPPAGE_BPS = 5000; // 50%
+
+/**
+ * Get a wallet's trading preferences (the given defaults if none saved)
+ */
+export async function getTradingSettings(
+  walletId: string,
+  defaults: TradingPreferences = DEFAULT_TRADING_SETTINGS
+): Promise<TradingPreferences> {
+  const rows = await db.select()
+    .from(tradingSettings)
+    .where(eq(tradingSettings.walletId, walletId))
+    .limit(1);
+
+  if (rows.length === 0) {
+    return { ...defaults };
+  }
+
+  const { slippageBps, maxPriceImpactPct, priorityFeeTier, antiMev, costBasisMethod, blockHighRiskBuys } = rows[0];
+  return { slippageBps, maxPriceImpactPct, priorityFeeTier, antiMev, costBasisMethod, blockHighRiskBuys };
+}
+
+/**
+ * Validate and save (upsert) a wallet's trading preferences
+ * Fields that are omitted keep their current value
+ */
+export async function updateTradingSettings(
+  walletId: string,
+  updates: Partial<Record<keyof TradingPreferences, unknown>>
+): Promise<{ success: boolean; settings?: TradingPreferences; error?: string }> {
+  try {
+    const settings = await getTradingSettings(walletId);
+
+    if (updates.slippageBps !== undefined) {
+      const slippageBps = Number(updates.slippageBps);
+      if (!Number.isInteger(slippageBps) || slippageBps < MIN_SLIPPAGE_BPS || slippageBps > MAX_SLIPPAGE_BPS) {
+        return { success: false, error: `Slippage must be between ${MIN_SLIPPAGE_BPS / 100}% and ${MAX_SLIPPAGE_BPS / 100}%` };
+      }
+      settings.slippageBps = slippageBps;
+    }
+
+    if (updates.maxPriceImpactPct !== undefined) {
+      const maxPriceImpact = parseFloat(String(updates.maxPriceImpactPct));
+      if (!Number.isFinite(maxPriceImpact) || maxPriceImpact <= 0 || maxPriceImpact > 100) {
+        return { success: false, error: "Max price impact must be between 0 and 100 percent" };
+      }
+      settings.maxPriceImpactPct = maxPriceImpact.toFixed(2);
+    }
+
+    if (updates.priorityFeeTier !== undefined) {
+      if (!PRIORITY_FEE_TIERS.includes(updates.priorityFeeTier as TradingPreferences['priorityFeeTier'])) {
+        return { success: false, error: `Priority fee tier must be one of: ${PRIORITY_FEE_TIERS.join(', ')}` };
+      }
+      settings.priorityFeeTier = updates.priorityFeeTier as TradingPreferences['priorityFeeTier'];
+    }
+
+    if (updates.antiMev !== undefined) {
+      if (typeof updates.antiMev !== 'boolean') {
+        return { success: false, error: "Anti-MEV mode must be true or false" };
+      }
+      settings.antiMev = updates.antiMev;
+    }
+
+    if (updates.costBasisMethod !== undefined) {
+      if (!COST_BASIS_METHODS.includes(updates.costBasisMethod as TradingPreferences['costBasisMethod'])) {
+        return { success: false, error: `Cost basis method must be one of: ${COST_BASIS_METHODS.join(', ')}` };
+      }
+      settings.costBasisMethod = updates.costBasisMethod as TradingPreferences['costBasisMethod'];
+    }
+
+    if (updates.blockHighRiskBuys !== undefined) {
+      if (typeof updates.blockHighRiskBuys !== 'boolean') {
+        return { success: false, error: "Block high-risk buys must be true or false" };
+      }
+      settings.blockHighRiskBuys = updates.blockHighRiskBuys;
+    }
+
+    await db.insert(tradingSettings)
+      .values({ walletId, ...settings })
+      .onConflictDoUpdate({
+        target: tradingSettings.walletId,
+        set: { ...settings, updatedAt: new Date() }
+      });
+
+    console.log(`⚙️  Trading settings updated for wallet ${walletId}: slippage ${settings.slippageBps}bps, max impact ${settings.maxPriceImpactPct}%, priority ${settings.priorityFeeTier}, anti-MEV ${settings.antiMev}, cost basis ${settings.costBasisMethod}, block high-risk ${settings.blockHighRiskBuys}`);
+
+    return { success: true, settings };
+  } catch (error: any) {
+    console.error("Update trading settings error:", error);
+    return { success: false, error: error.message || "Failed to update trading settings" };
+  }
+}
@@ -0,0 +1,461 @@
+import {
+  createIntermediateToSolExchange,
+  isBridgeFailure,
+  type BridgeExchange,
+  type BridgeRoute
+} from "./bridge-provider";
+
+/**
+ * State machine for deposits and withdrawals (shared status enum)
+ *
+ *   waiting_step1 ──► waiting_step2 ──► finished
+ *        │                 │
+ *        ├─► failed / refunded / expired   (bridge reported a terminal failure)
+ *        └─► dead_letter                   (retries exhausted - operator decides, may requeue)
+ *
+ * Each polling cycle runs ONE step for a transfer:
+ * 1. The flow (depositStep / withdrawalStep) inspects the bridge and returns an outcome:
+ *    wait (nothing to do yet), advance (move to a new status) or retry (transient error)
+ * 2. runTransferStep validates the transition against TRANSFER_TRANSITIONS and persists it through
+ *    TransferStore, which appends the transition history and applies side effects (credit, refund)
+ * 3. Errors (in the step or in the transition's side effects) count as failed attempts with exponential backoff;
+ *    after maxAttempts the transfer is dead-lettered
+ *
+ * Persistence and chain access are injected so every path can be driven offline
+ * (see __tests__/unit/transfer-state-machine.test.ts)
+ */
+
+export type TransferStatus =
+  | 'waiting_step1'
+  | 'waiting_step2'
+  | 'finished'
+  | 'failed'
+  | 'refunded'
+  | 'expired'
+  | 'dead_letter';
+
+export type TransferKind = 'deposit' | 'withdrawal';
+
+export const TRANSFER_TRANSITIONS: Record<TransferStatus, readonly TransferStatus[]> = {
+  waiting_step1: ['waiting_step2', 'failed', 'refunded', 'expired', 'dead_letter'],
+  waiting_step2: ['finished', 'failed', 'refunded', 'expired', 'dead_letter'],
+  finished: [],
+  failed: [],
+  refunded: [],
+  expired: [],
+  dead_letter: ['waiting_step1', 'waiting_step2'], // Operator requeue only
+};
+
+export const PENDING_TRANSFER_STATUSES: readonly TransferStatus[] = ['waiting_step1', 'waiting_step2'];
+
+export function canTransition(from: TransferStatus, to: TransferStatus): boolean {
+  return TRANSFER_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Thrown when a flow or operator requests a transition the machine does not allow
+ */
+export class InvalidTransitionError extends Error {
+  constructor(from: TransferStatus, to: TransferStatus) {
+    super(`Invalid transfer transition: ${from} → ${to}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+// 15s, 30s, 1m, 2m, 4m, 8m, 15m → dead letter after ~30 minutes of consecutive failures
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 8,
+  baseDelayMs: 15 * 1000,
+  maxDelayMs: 15 * 60 * 1000,
+};
+
+/**
+ * Backoff before the next attempt after `attempts` consecutive failures
+ */
+export function getRetryDelay(attempts: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number {
+  return Math.min(policy.baseDelayMs * 2 ** Math.max(attempts - 1, 0), policy.maxDelayMs);
+}
+
+/**
+ * Fields every transfer row exposes to the machine
+ */
+export interface TransferState {
+  id: string;
+  status: TransferStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  step2ExchangeId: string | null;
+}
+
+export type TransferUpdates = Record<string, unknown>;
+
+export type StepOutcome =
+  | { kind: 'wait'; updates?: TransferUpdates }
+  | { kind: 'advance'; to: TransferStatus; reason: string; updates?: TransferUpdates }
+  | { kind: 'retry'; error: string };
+
+export interface TransferStore<T extends TransferState> {
+  /**
+   * Compare-and-set record.status → to, persist updates, append the transition history and apply
+   * the status side effects atomically. Returns false if the status changed concurrently.
+   */
+  transition(record: T, to: TransferStatus, reason: string, updates: TransferUpdates): Promise<boolean>;
+  /** Persist progress or retry bookkeeping without a status change */
+  update(record: T, updates: TransferUpdates): Promise<void>;
+}
+
+export type StepResult =
+  | { kind: 'skipped'; reason: 'terminal' | 'backoff' }
+  | { kind: 'waiting' }
+  | { kind: 'transitioned'; to: TransferStatus }
+  | { kind: 'conflict' }
+  | { kind: 'retry_scheduled'; attempts: number; nextAttemptAt: Date; error: string };
+
+/**
+ * Run one step for a transfer and persist the outcome
+ */
+export async function runTransferStep<T extends TransferState>(
+  record: T,
+  step: (record: T) => Promise<StepOutcome>,
+  store: TransferStore<T>,
+  options: { policy?: RetryPolicy; now?: () => number } = {}
+): Promise<StepResult> {
+  const policy = options.policy ?? DEFAULT_RETRY_POLICY;
+  const now = options.now ?? Date.now;
+
+  if (!PENDING_TRANSFER_STATUSES.includes(record.status)) {
+    return { kind: 'skipped', reason: 'terminal' };
+  }
+  if (record.nextAttemptAt && record.nextAttemptAt.getTime() > now()) {
+    return { kind: 'skipped', reason: 'backoff' };
+  }
+
+  let outcome: StepOutcome;
+  try {
+    outcome = await step(record);
+  } catch (error: any) {
+    outcome = { kind: 'retry', error: error?.message || String(error) };
+  }
+
+  const resetRetries = { attempts: 0, nextAttemptAt: null, lastError: null };
+
+  if (outcome.kind === 'wait') {
+    if (outcome.updates || record.attempts > 0) {
+      await store.update(record, { ...outcome.updates, ...(record.attempts > 0 ? resetRetries : {}) });
+    }
+    return { kind: 'waiting' };
+  }
+
+  if (outcome.kind === 'advance') {
+    if (!canTransition(record.status, outcome.to)) {
+      throw new InvalidTransitionError(record.status, outcome.to);
+    }
+    try {
+      const applied = await store.transition(record, outcome.to, outcome.reason, { ...outcome.updates, ...resetRetries });
+      return applied ? { kind: 'transitioned', to: outcome.to } : { kind: 'conflict' };
+    } catch (error: any) {
+      // A failed side effect (credit, refund) rolls the transition back - count it as a failed attempt
+      outcome = { kind: 'retry', error: `Transition to ${outcome.to} failed: ${error?.message || String(error)}` };
+    }
+  }
+
+  const attempts = record.attempts + 1;
+
+  if (attempts >= policy.maxAttempts) {
+    const applied = await store.transition(
+      record,
+      'dead_letter',
+      `Retries exhausted after ${attempts} attempts: ${outcome.error}`,
+      { attempts, nextAttemptAt: null, lastError: outcome.error }
+    );
+    return applied ? { kind: 'transitioned', to: 'dead_letter' } : { kind: 'conflict' };
+  }
+
+  const nextAttemptAt = new Date(now() + getRetryDelay(attempts, policy));
+  await store.update(record, { attempts, nextAttemptAt, lastError: outcome.error });
+  return { kind: 'retry_scheduled', attempts, nextAttemptAt, error: outcome.error };
+}
+
+// ======================
+// Flows
+// ======================
+
+export interface DepositTransfer extends TransferState {
+  step1ExchangeId: string | null;
+  solAmount: string | null;
+}
+
+export interface WithdrawalTransfer extends TransferState {
+  step1ExchangeId: string | null;
+  step1TxId: string | null;
+  destinationAddress: string;
+  solDeducted: string | null;
+  solSent: string | null;
+  updatedAt: Date;
+}
+
+/**
+ * Atomic lock around the Liquidity Router → Step 1 SOL send (withdrawals.step1TxId)
+ * null/'' = not sent, 'PROCESSING' = send in flight, anything else = chain tx id
+ */
+export interface WithdrawalSendLock {
+  /** null/'' → PROCESSING. Returns false if another process holds the lock or SOL was already sent */
+  acquire(withdrawalId: string): Promise<boolean>;
+  /** PROCESSING → null for a lock abandoned by a crashed process. Returns false if it was already released */
+  releaseStale(withdrawalId: string): Promise<boolean>;
+  /** PROCESSING → null after a failed send */
+  release(withdrawalId: string): Promise<void>;
+  /** PROCESSING → tx id after a successful send */
+  complete(withdrawalId: string, txId: string): Promise<void>;
+}
+
+export interface TransferFlowDeps {
+  route: BridgeRoute;
+  /** Liquidity Router Node address (deposit Step 2 destination) */
+  poolAddress: string;
+  /** Send SOL from the Liquidity Router Node, returns the chain tx id */
+  sendSol(toAddress: string, amount: number): Promise<string>;
+  sendLock: WithdrawalSendLock;
+  now?: () => number;
+}
+
+export const STALE_SEND_LOCK_MS = 2 * 60 * 1000; // PROCESSING held longer than this = crashed sender
+
+function failureOutcome(exchange: BridgeExchange, step: 1 | 2): StepOutcome {
+  return {
+    kind: 'advance',
+    to: exchange.status as TransferStatus, // failed | refunded | expired share names with the transfer enum
+    reason: `Step ${step} exchange ${exchange.id} ${exchange.status}`,
+  };
+}
+
+function requirePositive(amount: string | null, label: string): string {
+  if (!amount || !(parseFloat(amount) > 0)) {
+    throw new Error(`Invalid ${label}: ${amount}`);
+  }
+  return amount;
+}
+
+/**
+ * Create (or resume) the Step 2 exchange and fund it from the relay wallet
+ * The exchange id is saved BEFORE funding so a failed send retries the same exchange instead of opening a duplicate
+ */
+async function fundSecondHop<T extends TransferState>(
+  record: T,
+  intermediateAmount: string,
+  solAddress: string,
+  deps: TransferFlowDeps,
+  store: TransferStore<T>
+): Promise<BridgeExchange> {
+  let exchange: BridgeExchange;
+
+  if (record.step2ExchangeId) {
+    exchange = await deps.route.provider.getStatus(record.step2ExchangeId);
+    if (isBridgeFailure(exchange.status)) {
+      throw new Error(`Step 2 exchange ${exchange.id} ${exchange.status} before it was funded`);
+    }
+  } else {
+    exchange = await createIntermediateToSolExchange(deps.route, intermediateAmount, solAddress);
+    await store.update(record, { step2ExchangeId: exchange.id });
+  }
+
+  if (exchange.status === 'waiting' && !exchange.txFrom) {
+    const txId = await deps.route.intermediate.sendFromRelay(exchange.depositAddress, parseFloat(intermediateAmount));
+    console.log(`[BRIDGE] Funded Step 2 exchange ${exchange.id} with ${intermediateAmount} ${deps.route.intermediate.asset.ticker.toUpperCase()} (tx ${txId})`);
+  }
+
+  return exchange;
+}
+
+/**
+ * Deposit: user SOL → relay (Step 1), relay → Liquidity Router SOL (Step 2), then credit
+ */
+export async function depositStep(
+  deposit: DepositTransfer,
+  deps: TransferFlowDeps,
+  store: TransferStore<DepositTransfer>
+): Promise<StepOutcome> {
+  const now = deps.now ?? Date.now;
+  const { route } = deps;
+
+  if (deposit.status === 'waiting_step1') {
+    if (!deposit.step1ExchangeId && !deposit.step2ExchangeId) {
+      // AUTOMATED RECOVERY: no Step 1 exchange recorded - start Step 2 once funds reach the relay
+      const relayBalance = await route.intermediate.getRelayBalance();
+      if (relayBalance < route.intermediate.minRecoveryBalance) {
+        return { kind: 'wait' };
+      }
+
+      const amount = relayBalance.toString();
+      const step2 = await fundSecondHop(deposit, amount, deps.poolAddress, deps, store);
+      return {
+        kind: 'advance',
+        to: 'waiting_step2',
+        reason: `Recovered without Step 1 exchange: relay held ${amount}`,
+        updates: { trxAmount: amount, step2ExchangeId: step2.id, step1CompletedAt: new Date(now()) },
+      };
+    }
+
+    if (deposit.step1ExchangeId) {
+      const step1 = await route.provider.getStatus(deposit.step1ExchangeId);
+
+      if (isBridgeFailure(step1.status)) {
+        return failureOutcome(step1, 1);
+      }
+      if (step1.status !== 'finished') {
+        return { kind: 'wait' };
+      }
+
+      const received = requirePositive(step1.amountTo, 'Step 1 output');
+      const step2 = await fundSecondHop(deposit, received, deps.poolAddress, deps, store);
+      return {
+        kind: 'advance',
+        to: 'waiting_step2',
+        reason: `Step 1 exchange ${step1.id} finished`,
+        updates: { trxAmount: received, step2ExchangeId: step2.id },
+      };
+    }
+
+    // Recovered earlier but the Step 2 send failed - resume it with the saved exchange
+    const step2 = await route.provider.getStatus(deposit.step2ExchangeId!);
+    const amount = requirePositive(step2.amountFrom, 'Step 2 input');
+    await fundSecondHop(deposit, amount, deps.poolAddress, deps, store);
+    return {
+      kind: 'advance',
+      to: 'waiting_step2',
+      reason: `Resumed Step 2 exchange ${step2.id}`,
+      updates: { trxAmount: amount, step1CompletedAt: new Date(now()) },
+    };
+  }
+
+  if (!deposit.step2ExchangeId) {
+    throw new Error('No Step 2 exchange ID');
+  }
+
+  const step2 = await route.provider.getStatus(deposit.step2ExchangeId);
+
+  if (isBridgeFailure(step2.status)) {
+    return failureOutcome(step2, 2);
+  }
+  if (step2.status !== 'finished') {
+    return { kind: 'wait' };
+  }
+
+  const solReceived = requirePositive(step2.amountTo, 'Step 2 output');
+  return {
+    kind: 'advance',
+    to: 'finished',
+    reason: `Step 2 exchange ${step2.id} finished`,
+    updates: { solReceived, step1CompletedAt: new Date(now()), step2CompletedAt: new Date(now()) },
+  };
+}
+
+/**
+ * Withdrawal: Liquidity Router SOL → relay (Step 1), relay → user SOL (Step 2)
+ */
+export async function withdrawalStep(
+  withdrawal: WithdrawalTransfer,
+  deps: TransferFlowDeps,
+  store: TransferStore<WithdrawalTransfer>
+): Promise<StepOutcome> {
+  const now = deps.now ?? Date.now;
+  const { route } = deps;
+
+  if (withdrawal.status === 'waiting_step1') {
+    if (!withdrawal.step1ExchangeId) {
+      throw new Error('No Step 1 exchange ID');
+    }
+
+    const step1 = await route.provider.getStatus(withdrawal.step1ExchangeId);
+
+    if (isBridgeFailure(step1.status)) {
+      return failureOutcome(step1, 1);
+    }
+
+    if (step1.status === 'waiting' && !step1.txFrom) {
+      await sendStep1Sol(withdrawal, step1, deps);
+      return { kind: 'wait' }; // Advances once the provider confirms receipt
+    }
+
+    if (step1.status !== 'finished') {
+      return { kind: 'wait' };
+    }
+
+    const received = requirePositive(step1.amountTo, 'Step 1 output');
+    const step2 = await fundSecondHop(withdrawal, received, withdrawal.destinationAddress, deps, store);
+    return {
+      kind: 'advance',
+      to: 'waiting_step2',
+      reason: `Step 1 exchange ${step1.id} finished`,
+      updates: {
+        trxAmount: received,
+        solSent: step2.expectedAmountTo || step2.amountTo,
+        step2ExchangeId: step2.id,
+        step1CompletedAt: new Date(now()),
+      },
+    };
+  }
+
+  if (!withdrawal.step2ExchangeId) {
+    throw new Error('No Step 2 exchange ID');
+  }
+
+  const step2 = await route.provider.getStatus(withdrawal.step2ExchangeId);
+
+  if (isBridgeFailure(step2.status)) {
+    return failureOutcome(step2, 2);
+  }
+  if (step2.status !== 'finished') {
+    return { kind: 'wait' };
+  }
+
+  return {
+    kind: 'advance',
+    to: 'finished',
+    reason: `Step 2 exchange ${step2.id} finished`,
+    updates: {
+      solSent: step2.amountTo || withdrawal.solSent || withdrawal.solDeducted,
+      step2TxTo: step2.txTo,
+      step2CompletedAt: new Date(now()),
+    },
+  };
+}
+
+/**
+ * (Re)send the withdrawal's SOL to the Step 1 exchange under the step1TxId lock
+ * Idempotency: only sends while step1TxId is empty AND the provider has not seen an input tx
+ */
+async function sendStep1Sol(withdrawal: WithdrawalTransfer, step1: BridgeExchange, deps: TransferFlowDeps) {
+  const now = deps.now ?? Date.now;
+  const { sendLock } = deps;
+
+  if (withdrawal.step1TxId === 'PROCESSING') {
+    const lockAge = now() - withdrawal.updatedAt.getTime();
+    if (lockAge <= STALE_SEND_LOCK_MS || !(await sendLock.releaseStale(withdrawal.id))) {
+      return; // Another process is sending (or just released it)
+    }
+    console.log(`[BRIDGE] Released stale send lock for withdrawal ${withdrawal.id} (held ${Math.round(lockAge / 1000)}s)`);
+  } else if (withdrawal.step1TxId) {
+    return; // Already sent - waiting for the provider to see it
+  }
+
+  if (!(await sendLock.acquire(withdrawal.id))) {
+    return;
+  }
+
+  try {
+    const amount = parseFloat(requirePositive(withdrawal.solDeducted, 'withdrawal amount'));
+    const txId = await deps.sendSol(step1.depositAddress, amount);
+    await sendLock.complete(withdrawal.id, txId);
+    console.log(`[BRIDGE] Sent ${amount.toFixed(9)} SOL for withdrawal ${withdrawal.id} to Step 1 exchange ${step1.id} (tx ${txId})`);
+  } catch (error) {
+    await sendLock.release(withdrawal.id);
+    throw error;
+  }
+}
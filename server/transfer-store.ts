@@ -0,0 +1,297 @@
+import { db } from "./db";
+import { deposits, withdrawals, transactions, transferTransitions, type Deposit, type Withdrawal, type TransferTransition } from "@shared/schema";
+import { eq, and, or, isNull, sql, desc } from "drizzle-orm";
+import { postSolMovement } from "./sol-ledger";
+import {
+  canTransition,
+  InvalidTransitionError,
+  type TransferKind,
+  type TransferStatus,
+  type TransferStore,
+  type TransferUpdates,
+  type WithdrawalSendLock
+} from "./transfer-state-machine";
+
+/**
+ * PostgreSQL persistence for the transfer state machine
+ *
+ * transition() runs in ONE database transaction:
+ * 1. Compare-and-set the status (only if still in the status the step observed)
+ * 2. Append a transfer_transitions row
+ * 3. Apply the side effects of the new status:
+ *    - deposit finished: credit the user via the SOL ledger, complete the transaction record
+ *    - withdrawal finished: complete the transaction record
+ *    - failed / refunded / expired: fail the transaction record (withdrawals also refund the user)
+ *    - dead_letter: nothing - funds may still be in flight, an operator resolves it
+ */
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type TransitionListener<T> = (record: T, to: TransferStatus, updates: TransferUpdates) => Promise<void> | void;
+
+const FAILED_STATUSES: readonly TransferStatus[] = ['failed', 'refunded', 'expired'];
+
+// Legacy withdrawals predate transactions.withdrawal_id - fall back to the latest pending withdraw of the same amount
+async function setWithdrawalTransactionStatus(tx: DbTransaction, withdrawal: Withdrawal, status: 'completed' | 'failed') {
+  await tx.execute(sql`
+    WITH target AS (
+      SELECT id FROM ${transactions}
+      WHERE status = 'pending'
+        AND (
+          withdrawal_id = ${withdrawal.id}
+          OR (
+            withdrawal_id IS NULL
+            AND wallet_id = ${withdrawal.walletId}
+            AND type = 'withdraw'
+            AND ROUND(amount::numeric, 6) = ROUND(${withdrawal.solDeducted}::numeric, 6)
+          )
+        )
+      ORDER BY (withdrawal_id IS NOT NULL) DESC, timestamp DESC
+      LIMIT 1
+    )
+    UPDATE ${transactions}
+    SET status = ${status}
+    WHERE id IN (SELECT id FROM target)
+  `);
+}
+
+async function applyDepositEffects(tx: DbTransaction, deposit: Deposit, to: TransferStatus, updates: TransferUpdates) {
+  if (to === 'finished') {
+    // Platform absorbs bridge fees - user gets the original deposit amount
+    const creditAmount = deposit.solAmount || (updates.solReceived as string | undefined);
+    if (!creditAmount || !(parseFloat(creditAmount) > 0)) {
+      throw new Error(`Invalid credit amount: ${creditAmount}`);
+    }
+
+    const credited = await postSolMovement(tx, {
+      walletId: deposit.walletId,
+      amount: creditAmount,
+      reason: 'deposit',
+      depositId: deposit.id
+    });
+
+    if (!credited) {
+      throw new Error(`No balance row for wallet ${deposit.walletId}`); // Rolls back - retried next cycle
+    }
+
+    await tx.execute(sql`
+      UPDATE ${transactions}
+      SET status = 'completed'
+      WHERE deposit_id = ${deposit.id}
+        AND status = 'pending'
+    `);
+
+    console.log(`[TRANSFER] ✅ Deposit complete: ${creditAmount} SOL credited to wallet ${deposit.walletId} (received ${updates.solReceived} SOL from bridge)`);
+  } else if (FAILED_STATUSES.includes(to)) {
+    await tx.execute(sql`
+      UPDATE ${transactions}
+      SET status = 'failed'
+      WHERE deposit_id = ${deposit.id}
+        AND status = 'pending'
+    `);
+  }
+}
+
+async function applyWithdrawalEffects(tx: DbTransaction, withdrawal: Withdrawal, to: TransferStatus, reason: string) {
+  if (to === 'finished') {
+    await setWithdrawalTransactionStatus(tx, withdrawal, 'completed');
+  } else if (FAILED_STATUSES.includes(to)) {
+    const refunded = await postSolMovement(tx, {
+      walletId: withdrawal.walletId,
+      amount: withdrawal.solDeducted!,
+      reason: 'withdrawal_refund',
+      withdrawalId: withdrawal.id,
+      memo: reason
+    });
+
+    if (!refunded) {
+      throw new Error(`No balance row for wallet ${withdrawal.walletId}`); // Rolls back - retried next cycle
+    }
+
+    await setWithdrawalTransactionStatus(tx, withdrawal, 'failed');
+  }
+}
+
+function createStore<T extends Deposit | Withdrawal>(
+  kind: TransferKind,
+  onTransition?: TransitionListener<T>
+): TransferStore<T> {
+  const table = kind === 'deposit' ? deposits : withdrawals;
+
+  return {
+    async transition(record, to, reason, updates) {
+      const applied = await db.transaction(async (tx) => {
+        const [updated] = await tx.update(table)
+          .set({ ...updates, status: to, ...(kind === 'withdrawal' ? { updatedAt: new Date() } : {}) })
+          .where(and(eq(table.id, record.id), eq(table.status, record.status)))
+          .returning();
+
+        if (!updated) {
+          return false; // Another cycle already moved it
+        }
+
+        await tx.insert(transferTransitions).values({
+          ...(kind === 'deposit' ? { depositId: record.id } : { withdrawalId: record.id }),
+          fromStatus: record.status,
+          toStatus: to,
+          reason,
+          attempts: record.attempts,
+        });
+
+        if (kind === 'deposit') {
+          await applyDepositEffects(tx, record as Deposit, to, updates);
+        } else {
+          await applyWithdrawalEffects(tx, record as Withdrawal, to, reason);
+        }
+
+        return true;
+      });
+
+      if (applied) {
+        const level = to === 'dead_letter' ? 'error' : 'log';
+        console[level](`[TRANSFER] ${kind} ${record.id}: ${record.status} → ${to} (${reason})`);
+        await onTransition?.(record, to, updates);
+      }
+
+      return applied;
+    },
+
+    async update(record, updates) {
+      await db.update(table)
+        .set(updates)
+        .where(eq(table.id, record.id));
+    },
+  };
+}
+
+export function createDepositStore(onTransition?: TransitionListener<Deposit>): TransferStore<Deposit> {
+  return createStore<Deposit>('deposit', onTransition);
+}
+
+export function createWithdrawalStore(onTransition?: TransitionListener<Withdrawal>): TransferStore<Withdrawal> {
+  return createStore<Withdrawal>('withdrawal', onTransition);
+}
+
+/**
+ * withdrawals.step1TxId lock (shared with the withdraw routes)
+ * Every change bumps updatedAt so stale-lock detection measures time since the lock was taken
+ */
+export const withdrawalSendLock: WithdrawalSendLock = {
+  async acquire(withdrawalId) {
+    const locked = await db.update(withdrawals)
+      .set({ step1TxId: 'PROCESSING', updatedAt: new Date() })
+      .where(and(
+        eq(withdrawals.id, withdrawalId),
+        or(isNull(withdrawals.step1TxId), eq(withdrawals.step1TxId, ''))
+      ))
+      .returning({ id: withdrawals.id });
+    return locked.length > 0;
+  },
+
+  async releaseStale(withdrawalId) {
+    const released = await db.update(withdrawals)
+      .set({ step1TxId: null, updatedAt: new Date() })
+      .where(and(eq(withdrawals.id, withdrawalId), eq(withdrawals.step1TxId, 'PROCESSING')))
+      .returning({ id: withdrawals.id });
+    return released.length > 0;
+  },
+
+  async release(withdrawalId) {
+    await db.update(withdrawals)
+      .set({ step1TxId: null, updatedAt: new Date() })
+      .where(and(eq(withdrawals.id, withdrawalId), eq(withdrawals.step1TxId, 'PROCESSING')));
+  },
+
+  async complete(withdrawalId, txId) {
+    await db.update(withdrawals)
+      .set({ step1TxId: txId, updatedAt: new Date() })
+      .where(eq(withdrawals.id, withdrawalId));
+  },
+};
+
+/**
+ * Status history of a deposit or withdrawal (oldest first)
+ */
+export async function getTransferHistory(kind: TransferKind, transferId: string): Promise<TransferTransition[]> {
+  return await db.select()
+    .from(transferTransitions)
+    .where(kind === 'deposit'
+      ? eq(transferTransitions.depositId, transferId)
+      : eq(transferTransitions.withdrawalId, transferId))
+    .orderBy(transferTransitions.createdAt);
+}
+
+/**
+ * Dead-lettered transfers awaiting an operator
+ */
+export async function getDeadLetterTransfers(): Promise<{ deposits: Deposit[]; withdrawals: Withdrawal[] }> {
+  const [deadDeposits, deadWithdrawals] = await Promise.all([
+    db.select().from(deposits).where(eq(deposits.status, 'dead_letter')).orderBy(desc(deposits.createdAt)),
+    db.select().from(withdrawals).where(eq(withdrawals.status, 'dead_letter')).orderBy(desc(withdrawals.createdAt)),
+  ]);
+  return { deposits: deadDeposits, withdrawals: deadWithdrawals };
+}
+
+/**
+ * Operator requeue: move a dead-lettered transfer back to the status it was dead-lettered from
+ * Retry bookkeeping is reset so it gets a full set of attempts
+ */
+export async function requeueTransfer(
+  kind: TransferKind,
+  transferId: string,
+  reason = 'Requeued by operator'
+): Promise<{ success: boolean; status?: TransferStatus; error?: string }> {
+  const table = kind === 'deposit' ? deposits : withdrawals;
+
+  const [record] = await db.select().from(table).where(eq(table.id, transferId)).limit(1);
+  if (!record) {
+    return { success: false, error: `${kind} not found` };
+  }
+  if (record.status !== 'dead_letter') {
+    return { success: false, error: `${kind} is ${record.status}, only dead_letter transfers can be requeued` };
+  }
+
+  const [lastTransition] = await db.select()
+    .from(transferTransitions)
+    .where(and(
+      kind === 'deposit' ? eq(transferTransitions.depositId, transferId) : eq(transferTransitions.withdrawalId, transferId),
+      eq(transferTransitions.toStatus, 'dead_letter')
+    ))
+    .orderBy(desc(transferTransitions.createdAt))
+    .limit(1);
+
+  const to = (lastTransition?.fromStatus || 'waiting_step1') as TransferStatus;
+  if (!canTransition('dead_letter', to)) {
+    throw new InvalidTransitionError('dead_letter', to);
+  }
+
+  try {
+    await db.transaction(async (tx) => {
+      const [updated] = await tx.update(table)
+        .set({ status: to, attempts: 0, nextAttemptAt: null })
+        .where(and(eq(table.id, transferId), eq(table.status, 'dead_letter')))
+        .returning();
+
+      if (!updated) {
+        throw new Error(`${kind} was changed concurrently`);
+      }
+
+      await tx.insert(transferTransitions).values({
+        ...(kind === 'deposit' ? { depositId: transferId } : { withdrawalId: transferId }),
+        fromStatus: 'dead_letter',
+        toStatus: to,
+        reason,
+        attempts: record.attempts,
+      });
+    });
+  } catch (error: any) {
+    // One pending deposit/withdrawal per wallet - the user may have started a new one meanwhile
+    if (error.code === '23505' || error.message?.includes('unique constraint')) {
+      return { success: false, error: `Wallet already has another pending ${kind}` };
+    }
+    throw error;
+  }
+
+  console.log(`[TRANSFER] ${kind} ${transferId}: dead_letter → ${to} (${reason})`);
+  return { success: true, status: to };
+}
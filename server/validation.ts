@@ -0,0 +1,50 @@
+import type { Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import type { ApiRoute } from "./api-contract";
+
+/**
+ * Request validation against the API contract (server/api-contract.ts)
+ *
+ * Rejects a request whose params, query or body do not match the route's schemas with
+ *   400 { success: false, error: "Validation error: ...", issues: [{ path: "body.amount", message }] }
+ * before the handler runs. Handlers keep reading req.params / req.query / req.body as sent.
+ */
+// A union that fails reports "Invalid input" - report why its first option failed instead
+function flattenUnionIssues(issues: z.ZodIssue[]): z.ZodIssue[] {
+  return issues.flatMap(issue => issue.code === 'invalid_union' && issue.unionErrors.length > 0
+    ? flattenUnionIssues(issue.unionErrors[0].issues)
+    : [issue]
+  );
+}
+
+export function validateRequest(route: ApiRoute) {
+  const sources = [
+    ['params', route.params],
+    ['query', route.query],
+    ['body', route.body],
+  ] as const;
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const issues: z.ZodIssue[] = [];
+
+    for (const [source, schema] of sources) {
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[source]);
+      if (!result.success) {
+        issues.push(...flattenUnionIssues(result.error.issues).map(issue => ({ ...issue, path: [source, ...issue.path] })));
+      }
+    }
+
+    if (issues.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: fromZodError(new z.ZodError(issues)).message,
+        issues: issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+      });
+    }
+
+    next();
+  };
+}
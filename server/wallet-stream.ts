@@ -0,0 +1,221 @@
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import { getTokenPrices } from "./pricing";
+import { getSolanaPrice } from "./coingecko";
+import {
+  formatStreamEvent,
+  getChangedPrices,
+  PRICE_TICK_MIN_CHANGE,
+  type WalletStreamEvent
+} from "@shared/stream-events";
+
+/**
+ * Wallet stream - Server-Sent Events for the web dashboard (event shapes: shared/stream-events.ts)
+ *
+ * Connections are held in memory per wallet, and events only reach streams in the process that
+ * publishes them. Run a single server process: web requests, polling (transfers, swap jobs, DCA,
+ * snapshots) and the Telegram bot must share it, or events raised elsewhere never reach the browser.
+ * Deposit/withdrawal transitions, swap job changes and DCA runs are published as they happen; balances
+ * are re-read after those and on every tick, and price ticks cover the mints the wallet holds.
+ * Ticks only run for wallets with an open stream, so an idle server does no extra work.
+ */
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000; // Below common proxy idle timeouts
+const RECONNECT_DELAY_MS = 3000;
+const MAX_STREAMS_PER_WALLET = 10;
+
+interface StreamClient {
+  sessionId: string;
+  res: Response;
+}
+
+interface WalletStreamState {
+  clients: Set<StreamClient>;
+  balanceFingerprint: string | null;
+  solPrice: number | null;
+  prices: Map<string, number>;
+}
+
+const wallets = new Map<string, WalletStreamState>();
+
+function send(client: StreamClient, frame: string) {
+  client.res.write(frame);
+}
+
+/**
+ * Start streaming to an authenticated request (the response stays open until either side closes it)
+ */
+export function openWalletStream(req: Request, res: Response, walletId: string): void {
+  let state = wallets.get(walletId);
+  if (!state) {
+    state = { clients: new Set(), balanceFingerprint: null, solPrice: null, prices: new Map() };
+    wallets.set(walletId, state);
+  }
+
+  if (state.clients.size >= MAX_STREAMS_PER_WALLET) {
+    res.status(429).json({ success: false, error: "Too many open streams for this wallet" });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+  });
+
+  const client: StreamClient = { sessionId: req.sessionID, res };
+  state.clients.add(client);
+
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+  send(client, formatStreamEvent({ type: 'ready', data: { connectedAt: new Date().toISOString() } }));
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    state!.clients.delete(client);
+    if (state!.clients.size === 0 && wallets.get(walletId) === state) {
+      wallets.delete(walletId);
+    }
+  });
+
+  // Seed the change detection so the first tick only reports real changes
+  refreshStreamBalance(walletId, { publish: false });
+}
+
+/**
+ * Push an event to every open stream of a wallet (no-op without listeners)
+ */
+export function publishWalletEvent(walletId: string, event: WalletStreamEvent): void {
+  const state = wallets.get(walletId);
+  if (!state) {
+    return;
+  }
+
+  const frame = formatStreamEvent(event);
+  for (const client of Array.from(state.clients)) {
+    send(client, frame);
+  }
+}
+
+/**
+ * End the streams opened with a session (logout, wallet switch) - the browser reconnects
+ * with the updated session or gets a 401 and stops
+ */
+export function closeSessionStreams(sessionId: string): void {
+  for (const state of Array.from(wallets.values())) {
+    for (const client of Array.from(state.clients)) {
+      if (client.sessionId === sessionId) {
+        client.res.end();
+      }
+    }
+  }
+}
+
+// Lets publishers skip lookups nobody is listening for
+export function hasWalletStream(walletId: string): boolean {
+  return wallets.has(walletId);
+}
+
+/**
+ * Re-read a streamed wallet's balances and publish them if they changed
+ */
+export async function refreshStreamBalance(walletId: string, options: { publish?: boolean } = {}): Promise<void> {
+  const state = wallets.get(walletId);
+  if (!state) {
+    return;
+  }
+
+  try {
+    const [balance, holdings] = await Promise.all([
+      storage.getBalance(walletId),
+      storage.getTokenHoldings(walletId),
+    ]);
+
+    const data = {
+      solBalance: balance?.solBalance || "0",
+      tokens: holdings
+        .filter(holding => parseFloat(holding.amount) > 0)
+        .map(holding => ({ mint: holding.mint, symbol: holding.symbol, amount: holding.amount })),
+    };
+    const fingerprint = JSON.stringify(data);
+
+    if (fingerprint === state.balanceFingerprint) {
+      return;
+    }
+    const isFirstRead = state.balanceFingerprint === null;
+    state.balanceFingerprint = fingerprint;
+
+    if (options.publish !== false && !isFirstRead) {
+      publishWalletEvent(walletId, { type: 'balance', data });
+    }
+  } catch (error: any) {
+    console.error(`[STREAM] Balance refresh failed for wallet ${walletId}:`, error.message);
+  }
+}
+
+/**
+ * Balance and price ticks for every wallet with an open stream (polling)
+ * One price batch covers the held mints of all streamed wallets
+ */
+export async function publishStreamTicks(): Promise<void> {
+  const walletIds = Array.from(wallets.keys());
+  if (walletIds.length === 0) {
+    return;
+  }
+
+  try {
+    await Promise.all(walletIds.map(walletId => refreshStreamBalance(walletId)));
+
+    const heldMints = new Map<string, string[]>();
+    for (const walletId of walletIds) {
+      const fingerprint = wallets.get(walletId)?.balanceFingerprint;
+      const tokens: Array<{ mint: string }> = fingerprint ? JSON.parse(fingerprint).tokens : [];
+      heldMints.set(walletId, tokens.map(token => token.mint));
+    }
+
+    const allMints = Array.from(new Set(Array.from(heldMints.values()).flat()));
+    const [solPrice, priceMap] = await Promise.all([
+      getSolanaPrice(),
+      allMints.length > 0 ? getTokenPrices(allMints) : Promise.resolve(new Map<string, number | null>()),
+    ]);
+
+    for (const walletId of walletIds) {
+      const state = wallets.get(walletId);
+      if (!state) {
+        continue; // Closed while prices were fetched
+      }
+
+      const next = new Map<string, number>();
+      for (const mint of heldMints.get(walletId) || []) {
+        const price = priceMap.get(mint);
+        if (price) {
+          next.set(mint, price); // Uncertain prices (null) are not pushed
+        }
+      }
+
+      const prices = getChangedPrices(state.prices, next);
+      const solMoved = state.solPrice === null
+        || Math.abs(solPrice - state.solPrice) / state.solPrice >= PRICE_TICK_MIN_CHANGE;
+      const isFirstTick = state.solPrice === null;
+
+      state.prices = new Map(Array.from(state.prices.entries()).filter(([mint]) => next.has(mint)));
+      for (const [mint, price] of Object.entries(prices)) {
+        state.prices.set(mint, price);
+      }
+      if (solMoved) {
+        state.solPrice = solPrice;
+      }
+
+      if (!isFirstTick && (solMoved || Object.keys(prices).length > 0)) {
+        publishWalletEvent(walletId, {
+          type: 'prices',
+          data: { solPriceUsd: solMoved ? solPrice : null, prices },
+        });
+      }
+    }
+  } catch (error: any) {
+    console.error(`[STREAM] Tick failed:`, error.message);
+  }
+}
@@ -0,0 +1,267 @@
+import crypto from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import { getRetryDelay, type RetryPolicy } from "./transfer-state-machine";
+
+/**
+ * Outbound webhooks - event types, payload signing and a single delivery attempt
+ *
+ * Every delivery is a POST of the event JSON with:
+ *   X-Anovex-Event      event type (e.g. deposit.status_changed)
+ *   X-Anovex-Delivery   delivery id (a replay gets a new one, the event id stays the same)
+ *   X-Anovex-Timestamp  Unix ms
+ *   X-Anovex-Signature  sha256=<hex HMAC-SHA256(secret, "<timestamp>.<raw body>")>
+ *
+ * A 2xx answer acknowledges the delivery. Anything else, including no answer within
+ * WEBHOOK_TIMEOUT_MS, is retried with exponential backoff until the retry policy gives up.
+ * Every attempt opens a new connection whose socket lookup refuses private addresses: the address
+ * that is checked is the address connected to, so there is no gap between check and use for
+ * DNS rebinding to slip through.
+ * Receivers should verify the signature, reject stale timestamps and dedupe on the event id.
+ *
+ * No database access - server/webhooks.ts stores subscriptions and the delivery log
+ */
+
+export const WEBHOOK_EVENT_TYPES = [
+  'deposit.status_changed',
+  'withdrawal.status_changed',
+  'swap.completed',
+  'swap.failed',
+] as const;
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+export interface WebhookEvent {
+  id: string; // Receivers dedupe on this - retries and replays reuse it
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+export const WEBHOOK_SIGNATURE_MAX_SKEW_MS = 5 * 60 * 1000; // Suggested receiver tolerance
+const MAX_URL_LENGTH = 500;
+const SECRET_PREFIX = 'whsec';
+
+// 30s, 1m, 2m, 4m, 8m, 16m, 32m, 1h, 1h → failed after ~3 hours of consecutive failures
+export const WEBHOOK_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 10,
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+};
+
+export type WebhookAttemptResult =
+  | { kind: 'delivered'; statusCode: number }
+  | { kind: 'failed'; statusCode: number | null; error: string };
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && (WEBHOOK_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Normalize subscribed event types: all events when omitted, deduplicated, canonical order
+ * @returns null if the list is empty or has an unknown entry
+ */
+export function normalizeWebhookEvents(requested: unknown): WebhookEventType[] | null {
+  if (requested === undefined) {
+    return [...WEBHOOK_EVENT_TYPES];
+  }
+  if (!Array.isArray(requested) || requested.length === 0 || !requested.every(isWebhookEventType)) {
+    return null;
+  }
+
+  const events = new Set<WebhookEventType>(requested);
+  return WEBHOOK_EVENT_TYPES.filter(event => events.has(event));
+}
+
+const PRIVATE_HOST = /^(localhost|.*\.localhost|127\.\d+\.\d+\.\d+|10\.\d+\.\d+\.\d+|192\.168\.\d+\.\d+|172\.(1[6-9]|2\d|3[01])\.\d+\.\d+|169\.254\.\d+\.\d+|0\.0\.0\.0|\[.*\])$/i;
+
+// Loopback, private, link-local, CGNAT and unspecified ranges (IPv4-mapped IPv6 addresses match the IPv4 rules)
+const PRIVATE_ADDRESSES = new net.BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+async function lookupHost(hostname: string): Promise<string[]> {
+  const results = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+  return results.map(result => result.address);
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true; // Not an address - never connect to it
+  }
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Check a receiver URL: https to a public host (http and local hosts only when allowInsecure, i.e. development)
+ * @returns null if valid, otherwise the reason
+ */
+export function validateWebhookUrl(value: string, allowInsecure = false): string | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "Webhook URL is not a valid URL";
+  }
+
+  if (value.length > MAX_URL_LENGTH) {
+    return `Webhook URL must be at most ${MAX_URL_LENGTH} characters`;
+  }
+  if (url.protocol !== 'https:' && !(allowInsecure && url.protocol === 'http:')) {
+    return "Webhook URL must use https";
+  }
+  if (url.username || url.password) {
+    return "Webhook URL must not contain credentials";
+  }
+  if (!allowInsecure && PRIVATE_HOST.test(url.hostname)) {
+    return "Webhook URL must point to a public host";
+  }
+
+  return null;
+}
+
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}_${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Receiver-side check of a delivery (timestamp window + constant-time signature compare)
+ * @returns null if valid, otherwise the reason
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string,
+  body: string,
+  signature: string,
+  now: number = Date.now()
+): string | null {
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > WEBHOOK_SIGNATURE_MAX_SKEW_MS) {
+    return 'Webhook timestamp is missing or outside the allowed window';
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const provided = Buffer.from(signature);
+  if (provided.length !== expected.length || !crypto.timingSafeEqual(provided, expected)) {
+    return 'Invalid webhook signature';
+  }
+
+  return null;
+}
+
+/**
+ * When to try again after `attempts` failed attempts
+ * @returns null once the retry policy is exhausted (the delivery is failed)
+ */
+export function getNextWebhookAttempt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= WEBHOOK_RETRY_POLICY.maxAttempts) {
+    return null;
+  }
+  return new Date(now.getTime() + getRetryDelay(attempts, WEBHOOK_RETRY_POLICY));
+}
+
+/**
+ * Socket lookup that only hands public addresses to the connection (all of them are checked)
+ */
+function createGuardedLookup(resolveHost: HostLookup, allowPrivateHosts: boolean): net.LookupFunction {
+  return (hostname, options, callback) => {
+    resolveHost(hostname).then(addresses => {
+      const blocked = allowPrivateHosts ? undefined : addresses.find(isPrivateAddress);
+      if (addresses.length === 0 || blocked) {
+        throw new Error(`Receiver host resolves to a non-public address${blocked ? ` (${blocked})` : ''}`);
+      }
+
+      const candidates = addresses.filter(address => !options.family || net.isIP(address) === options.family);
+      if (candidates.length === 0) {
+        throw new Error(`Receiver host has no IPv${options.family} address`);
+      }
+
+      if (options.all) {
+        callback(null, candidates.map(address => ({ address, family: net.isIP(address) })));
+      } else {
+        callback(null, candidates[0], net.isIP(candidates[0]));
+      }
+    }).catch(error => callback(error, '', 0));
+  };
+}
+
+/**
+ * POST one delivery (redirects are not followed - the subscribed URL is the only target)
+ */
+export async function sendWebhook(params: {
+  url: string;
+  secret: string;
+  deliveryId: string;
+  payload: string; // Event JSON as stored, sent byte for byte
+  eventType: WebhookEventType;
+  allowPrivateHosts?: boolean; // Development only, like validateWebhookUrl's allowInsecure
+  timestamp?: number;
+  timeoutMs?: number;
+  lookupFn?: HostLookup; // Resolver behind the socket lookup (defaults to the system resolver)
+}): Promise<WebhookAttemptResult> {
+  const timestamp = String(params.timestamp ?? Date.now());
+  const timeoutMs = params.timeoutMs ?? WEBHOOK_TIMEOUT_MS;
+  const signal = AbortSignal.timeout(timeoutMs);
+
+  try {
+    const url = new URL(params.url);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return { kind: 'failed', statusCode: null, error: `Unsupported webhook URL protocol ${url.protocol}` };
+    }
+
+    // Literal addresses never reach the socket lookup - check them here
+    const literal = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    if (net.isIP(literal) && !params.allowPrivateHosts && isPrivateAddress(literal)) {
+      return { kind: 'failed', statusCode: null, error: `Receiver host resolves to a non-public address (${literal})` };
+    }
+
+    const statusCode = await new Promise<number>((resolve, reject) => {
+      const request = (url.protocol === 'https:' ? https : http).request(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(params.payload),
+          'User-Agent': 'Anovex-Webhooks/1.0',
+          'X-Anovex-Event': params.eventType,
+          'X-Anovex-Delivery': params.deliveryId,
+          'X-Anovex-Timestamp': timestamp,
+          'X-Anovex-Signature': signWebhookPayload(params.secret, timestamp, params.payload),
+        },
+        agent: false, // No pooled sockets - every attempt resolves and checks the host again
+        lookup: createGuardedLookup(params.lookupFn ?? lookupHost, params.allowPrivateHosts ?? false),
+        signal,
+      }, (res) => {
+        res.resume(); // The response body is not used
+        resolve(res.statusCode ?? 0);
+      });
+      request.on('error', reject);
+      request.end(params.payload);
+    });
+
+    if (statusCode >= 200 && statusCode < 300) {
+      return { kind: 'delivered', statusCode };
+    }
+    return { kind: 'failed', statusCode, error: `Receiver answered HTTP ${statusCode}` };
+  } catch (error: any) {
+    const reason = signal.aborted ? `No answer within ${timeoutMs} ms` : error?.message;
+    return { kind: 'failed', statusCode: null, error: reason || 'Request failed' };
+  }
+}
@@ -0,0 +1,365 @@
+import crypto from "crypto";
+import { db } from "./db";
+import { webhookSubscriptions, webhookDeliveries, type WebhookSubscription, type WebhookDelivery } from "@shared/schema";
+import { eq, and, isNull, desc, lte, sql } from "drizzle-orm";
+import { encryptPrivateKey, decryptPrivateKey } from "./encryption";
+import {
+  generateWebhookSecret,
+  getNextWebhookAttempt,
+  normalizeWebhookEvents,
+  sendWebhook,
+  validateWebhookUrl,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_TIMEOUT_MS,
+  type WebhookAttemptResult,
+  type WebhookEvent,
+  type WebhookEventType
+} from "./webhook-delivery";
+
+/**
+ * Webhooks - subscriptions per wallet, event fan-out, delivery with retries, delivery log and replay
+ * (event types, signing and the HTTP attempt: server/webhook-delivery.ts)
+ *
+ * queueWebhookEvent() writes one delivery row per matching subscription and tries it right away.
+ * Failed attempts are picked up again by processWebhookDeliveries() (polling) once due.
+ * An attempt first claims the row by moving nextAttemptAt past the send timeout (compare-and-set),
+ * so the immediate try and the polling loop never send the same delivery twice at once.
+ */
+
+const MAX_WEBHOOKS_PER_WALLET = 5;
+const DELIVERY_BATCH_SIZE = 20;
+const CLAIM_MS = 3 * WEBHOOK_TIMEOUT_MS; // A crashed attempt becomes due again after this
+const DEFAULT_DELIVERY_LOG_LIMIT = 50;
+const MAX_DELIVERY_LOG_LIMIT = 200;
+
+// Decrypted signing secrets by subscription id (PBKDF2 per decrypt is too slow for every delivery)
+const signingSecretCache = new Map<string, string>();
+
+function parseEvents(stored: string): WebhookEventType[] {
+  try {
+    return normalizeWebhookEvents(JSON.parse(stored)) || [];
+  } catch {
+    return [];
+  }
+}
+
+function getSigningSecret(subscription: WebhookSubscription): string {
+  let secret = signingSecretCache.get(subscription.id);
+  if (!secret) {
+    secret = Buffer.from(decryptPrivateKey(subscription.signingSecret)).toString();
+    signingSecretCache.set(subscription.id, secret);
+  }
+  return secret;
+}
+
+/**
+ * Subscription as shown to its owner (never includes the secret)
+ */
+function toPublicWebhook(row: WebhookSubscription) {
+  return {
+    id: row.id,
+    url: row.url,
+    events: parseEvents(row.events),
+    disabledAt: row.disabledAt,
+    createdAt: row.createdAt,
+  };
+}
+
+export type PublicWebhook = ReturnType<typeof toPublicWebhook>;
+
+function toPublicDelivery(row: WebhookDelivery) {
+  return {
+    id: row.id,
+    webhookId: row.subscriptionId,
+    eventId: row.eventId,
+    eventType: row.eventType,
+    event: JSON.parse(row.payload) as WebhookEvent,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.nextAttemptAt,
+    lastStatusCode: row.lastStatusCode,
+    lastError: row.lastError,
+    replayOf: row.replayOf,
+    deliveredAt: row.deliveredAt,
+    createdAt: row.createdAt,
+  };
+}
+
+export type PublicWebhookDelivery = ReturnType<typeof toPublicDelivery>;
+
+/**
+ * Subscribe a URL to wallet events - the signing secret is only returned here
+ */
+export async function createWebhook(params: {
+  walletId: string;
+  url: string;
+  events?: unknown;
+}): Promise<{ success: boolean; webhook?: PublicWebhook; secret?: string; error?: string }> {
+  try {
+    const url = (params.url || '').trim();
+    const urlError = validateWebhookUrl(url, process.env.NODE_ENV !== 'production');
+    if (urlError) {
+      return { success: false, error: urlError };
+    }
+
+    const events = normalizeWebhookEvents(params.events);
+    if (!events) {
+      return { success: false, error: `Events must be a non-empty list of: ${WEBHOOK_EVENT_TYPES.join(', ')}` };
+    }
+
+    const activeWebhooks = await db.select({ id: webhookSubscriptions.id })
+      .from(webhookSubscriptions)
+      .where(and(eq(webhookSubscriptions.walletId, params.walletId), isNull(webhookSubscriptions.disabledAt)));
+    if (activeWebhooks.length >= MAX_WEBHOOKS_PER_WALLET) {
+      return { success: false, error: `A wallet can have at most ${MAX_WEBHOOKS_PER_WALLET} active webhooks` };
+    }
+
+    const secret = generateWebhookSecret();
+    const [row] = await db.insert(webhookSubscriptions)
+      .values({
+        walletId: params.walletId,
+        url,
+        events: JSON.stringify(events),
+        signingSecret: encryptPrivateKey(Array.from(Buffer.from(secret))),
+      })
+      .returning();
+
+    console.log(`🪝 Webhook ${row.id} created for wallet ${params.walletId} (${events.join(', ')})`);
+
+    return { success: true, webhook: toPublicWebhook(row), secret };
+  } catch (error: any) {
+    console.error("Create webhook error:", error);
+    return { success: false, error: error.message };
+  }
+}
+
+export async function getWebhooks(walletId: string): Promise<PublicWebhook[]> {
+  const rows = await db.select()
+    .from(webhookSubscriptions)
+    .where(eq(webhookSubscriptions.walletId, walletId))
+    .orderBy(desc(webhookSubscriptions.createdAt));
+
+  return rows.map(toPublicWebhook);
+}
+
+/**
+ * Stop sending events to a subscription (pending retries are dropped, the delivery log is kept)
+ */
+export async function disableWebhook(walletId: string, webhookId: string): Promise<{ success: boolean; error?: string }> {
+  const [disabled] = await db.update(webhookSubscriptions)
+    .set({ disabledAt: new Date() })
+    .where(and(
+      eq(webhookSubscriptions.id, webhookId),
+      eq(webhookSubscriptions.walletId, walletId),
+      isNull(webhookSubscriptions.disabledAt)
+    ))
+    .returning({ id: webhookSubscriptions.id });
+
+  if (!disabled) {
+    return { success: false, error: "Webhook not found or already disabled" };
+  }
+
+  await db.update(webhookDeliveries)
+    .set({ status: 'failed', nextAttemptAt: null, lastError: 'Webhook disabled', updatedAt: new Date() })
+    .where(and(eq(webhookDeliveries.subscriptionId, webhookId), eq(webhookDeliveries.status, 'pending')));
+
+  signingSecretCache.delete(webhookId);
+  console.log(`🪝 Webhook ${webhookId} disabled`);
+  return { success: true };
+}
+
+/**
+ * Delivery log of a wallet's webhooks (newest first)
+ */
+export async function getWebhookDeliveries(
+  walletId: string,
+  options: { webhookId?: string; limit?: number } = {}
+): Promise<PublicWebhookDelivery[]> {
+  const limit = Math.min(options.limit ?? DEFAULT_DELIVERY_LOG_LIMIT, MAX_DELIVERY_LOG_LIMIT);
+  const conditions = [eq(webhookDeliveries.walletId, walletId)];
+  if (options.webhookId) {
+    conditions.push(eq(webhookDeliveries.subscriptionId, options.webhookId));
+  }
+
+  const rows = await db.select()
+    .from(webhookDeliveries)
+    .where(and(...conditions))
+    .orderBy(desc(webhookDeliveries.createdAt))
+    .limit(limit);
+
+  return rows.map(toPublicDelivery);
+}
+
+/**
+ * Send a logged event again as a new delivery (same event id and payload, fresh retries)
+ */
+export async function replayWebhookDelivery(
+  walletId: string,
+  deliveryId: string
+): Promise<{ success: boolean; delivery?: PublicWebhookDelivery; error?: string }> {
+  const [row] = await db.select({ delivery: webhookDeliveries, subscription: webhookSubscriptions })
+    .from(webhookDeliveries)
+    .innerJoin(webhookSubscriptions, eq(webhookSubscriptions.id, webhookDeliveries.subscriptionId))
+    .where(and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.walletId, walletId)))
+    .limit(1);
+
+  if (!row) {
+    return { success: false, error: "Delivery not found" };
+  }
+  if (row.subscription.disabledAt) {
+    return { success: false, error: "Webhook is disabled" };
+  }
+
+  const [replay] = await db.insert(webhookDeliveries)
+    .values({
+      subscriptionId: row.delivery.subscriptionId,
+      walletId,
+      eventId: row.delivery.eventId,
+      eventType: row.delivery.eventType,
+      payload: row.delivery.payload,
+      replayOf: row.delivery.id,
+    })
+    .returning();
+
+  console.log(`🪝 Delivery ${deliveryId} replayed as ${replay.id}`);
+  attemptDelivery(replay, row.subscription).catch(error =>
+    console.error(`Webhook delivery ${replay.id} error:`, error)
+  );
+
+  return { success: true, delivery: toPublicDelivery(replay) };
+}
+
+/**
+ * Fan an event out to the wallet's subscriptions for its type
+ * Never throws - a webhook problem must not affect the transfer or swap that raised the event
+ */
+export async function queueWebhookEvent(walletId: string, type: WebhookEventType, data: Record<string, unknown>): Promise<void> {
+  try {
+    const subscriptions = (await db.select()
+      .from(webhookSubscriptions)
+      .where(and(eq(webhookSubscriptions.walletId, walletId), isNull(webhookSubscriptions.disabledAt)))
+    ).filter(subscription => parseEvents(subscription.events).includes(type));
+
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const event: WebhookEvent = { id: crypto.randomUUID(), type, createdAt: new Date().toISOString(), data };
+    const payload = JSON.stringify(event);
+
+    const rows = await db.insert(webhookDeliveries)
+      .values(subscriptions.map(subscription => ({
+        subscriptionId: subscription.id,
+        walletId,
+        eventId: event.id,
+        eventType: type,
+        payload,
+      })))
+      .returning();
+
+    for (const row of rows) {
+      const subscription = subscriptions.find(candidate => candidate.id === row.subscriptionId)!;
+      attemptDelivery(row, subscription).catch(error =>
+        console.error(`Webhook delivery ${row.id} error:`, error)
+      );
+    }
+  } catch (error) {
+    console.error(`Webhook event ${type} for wallet ${walletId} not queued:`, error);
+  }
+}
+
+/**
+ * Claim a due delivery, send it, record the outcome
+ * @returns null if another attempt holds the claim
+ */
+async function attemptDelivery(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookAttemptResult | null> {
+  const now = new Date();
+  const [claimed] = await db.update(webhookDeliveries)
+    .set({ nextAttemptAt: new Date(now.getTime() + CLAIM_MS), updatedAt: now })
+    .where(and(
+      eq(webhookDeliveries.id, delivery.id),
+      eq(webhookDeliveries.status, 'pending'),
+      lte(webhookDeliveries.nextAttemptAt, sql`NOW()`)
+    ))
+    .returning({ attempts: webhookDeliveries.attempts });
+
+  if (!claimed) {
+    return null;
+  }
+
+  const result = await sendWebhook({
+    url: subscription.url,
+    secret: getSigningSecret(subscription),
+    deliveryId: delivery.id,
+    payload: delivery.payload,
+    eventType: delivery.eventType,
+    allowPrivateHosts: process.env.NODE_ENV !== 'production',
+  });
+  const attempts = claimed.attempts + 1;
+
+  if (result.kind === 'delivered') {
+    await db.update(webhookDeliveries)
+      .set({
+        status: 'delivered',
+        attempts,
+        nextAttemptAt: null,
+        lastStatusCode: result.statusCode,
+        lastError: null,
+        deliveredAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(webhookDeliveries.id, delivery.id));
+    return result;
+  }
+
+  const nextAttemptAt = getNextWebhookAttempt(attempts);
+  await db.update(webhookDeliveries)
+    .set({
+      status: nextAttemptAt ? 'pending' : 'failed',
+      attempts,
+      nextAttemptAt,
+      lastStatusCode: result.statusCode,
+      lastError: result.error,
+      updatedAt: new Date(),
+    })
+    .where(eq(webhookDeliveries.id, delivery.id));
+
+  if (!nextAttemptAt) {
+    console.error(`🪝 Webhook delivery ${delivery.id} failed after ${attempts} attempts: ${result.error}`);
+  }
+  return result;
+}
+
+/**
+ * Retry due deliveries (polling)
+ */
+export async function processWebhookDeliveries(): Promise<void> {
+  try {
+    const due = await db.select({ delivery: webhookDeliveries, subscription: webhookSubscriptions })
+      .from(webhookDeliveries)
+      .innerJoin(webhookSubscriptions, eq(webhookSubscriptions.id, webhookDeliveries.subscriptionId))
+      .where(and(
+        eq(webhookDeliveries.status, 'pending'),
+        lte(webhookDeliveries.nextAttemptAt, sql`NOW()`),
+        isNull(webhookSubscriptions.disabledAt)
+      ))
+      .orderBy(webhookDeliveries.nextAttemptAt)
+      .limit(DELIVERY_BATCH_SIZE);
+
+    if (due.length === 0) {
+      return;
+    }
+
+    const results = await Promise.all(due.map(({ delivery, subscription }) =>
+      attemptDelivery(delivery, subscription).catch(error => {
+        console.error(`Webhook delivery ${delivery.id} error:`, error);
+        return null;
+      })
+    ));
+
+    const delivered = results.filter(result => result?.kind === 'delivered').length;
+    console.log(`🪝 Webhook retries: ${delivered}/${due.length} delivered`);
+  } catch (error) {
+    console.error("Webhook delivery processing error:", error);
+  }
+}
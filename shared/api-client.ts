@@ -0,0 +1,1712 @@
+/**
+ * Anovex API client - GENERATED from the OpenAPI document (server/openapi.ts, served at /api/openapi.json)
+ *
+ * Do not edit by hand: change server/api-contract.ts and run `npx tsx server/generate-api-client.ts`.
+ */
+
+export interface ApiClientOptions {
+  baseUrl?: string; // Defaults to the current origin
+  fetch?: typeof fetch;
+  headers?: Record<string, string>;
+  credentials?: RequestCredentials; // Defaults to 'include' (session cookie)
+}
+
+/**
+ * Non-2xx response - message is the server's error text
+ */
+export class ApiError extends Error {
+  constructor(public status: number, message: string, public body: unknown) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+interface RequestInput {
+  params?: Record<string, string>;
+  query?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+}
+
+async function send<T>(
+  options: ApiClientOptions,
+  method: string,
+  path: string,
+  input: RequestInput,
+  responseType: 'json' | 'text'
+): Promise<T> {
+  const fetchFn = options.fetch ?? fetch;
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(input.query ?? {})) {
+    if (value !== undefined) {
+      search.append(key, String(value));
+    }
+  }
+
+  const url = (options.baseUrl ?? '')
+    + path.replace(/\{(\w+)\}/g, (_match, name: string) => encodeURIComponent(input.params?.[name] ?? ''))
+    + (search.toString() ? `?${search}` : '');
+
+  const res = await fetchFn(url, {
+    method,
+    headers: { ...(input.body !== undefined ? { 'Content-Type': 'application/json' } : {}), ...options.headers },
+    body: input.body !== undefined ? JSON.stringify(input.body) : undefined,
+    credentials: options.credentials ?? 'include',
+  });
+  const text = await res.text();
+
+  if (!res.ok) {
+    let body: unknown = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not JSON (proxy error page, empty body)
+    }
+    const error = body && typeof body === 'object' ? (body as { error?: unknown }).error : undefined;
+    throw new ApiError(res.status, typeof error === 'string' ? error : text || res.statusText, body);
+  }
+
+  return (responseType === 'text' ? text : JSON.parse(text)) as T;
+}
+
+export type CreateWalletResponse = {
+  success: true;
+  walletId: string;
+  privateKey: Array<number>;
+  message: string;
+};
+
+export type LoginWalletBody = {
+  privateKey: Array<number>;
+};
+
+export type LoginWalletResponse = {
+  success: true;
+  walletId: string;
+  solBalance: string;
+  usdValue: string;
+  solPrice: string;
+  message: string;
+};
+
+export type GetWalletAddressResponse = {
+  success: true;
+  address: string;
+  walletId: string;
+};
+
+export type GetWalletBalanceResponse = {
+  success: true;
+  sol: {
+    amount: string;
+    priceUsd: string;
+    totalUsd: string;
+  };
+  tokens: Array<{
+    mint: string;
+    symbol: string;
+    amount: string;
+    priceUsd: string;
+    totalUsd: string;
+    logoURI?: string;
+  }>;
+  totalUsd: string;
+};
+
+export type LogoutWalletResponse = {
+  success: true;
+  message: string;
+};
+
+export type StreamWalletEventsResponse = string;
+
+export type ListWalletsResponse = {
+  success: true;
+  wallets: Array<{
+    id: string;
+    walletAddress: string | null;
+    telegramUserId: string | null;
+    walletName: string | null;
+    isActive: boolean;
+    allowCopyTrading: boolean;
+    createdAt: string;
+  }>;
+};
+
+export type SwitchWalletBody = {
+  walletId: string;
+};
+
+export type SwitchWalletResponse = {
+  success: true;
+  message: string;
+};
+
+export type ExportWalletKeyResponse = {
+  success: true;
+  privateKey: string;
+};
+
+export type ImportWalletBody = {
+  /** JSON array of 64 bytes */
+  privateKey: string;
+};
+
+export type ImportWalletResponse = {
+  success: true;
+  message: string;
+  walletId: string;
+};
+
+export type GetSolLedgerQuery = {
+  limit?: number;
+};
+
+export type GetSolLedgerResponse = {
+  success: true;
+  entries: Array<{
+    id: string;
+    journalId: string;
+    walletId: string;
+    account: "wallet" | "deposits" | "withdrawals" | "swaps" | "adjustments";
+    amount: string;
+    reason: "deposit" | "withdrawal" | "withdrawal_refund" | "swap_buy" | "swap_buy_refund" | "swap_sell" | "opening_balance";
+    transactionId: string | null;
+    depositId: string | null;
+    withdrawalId: string | null;
+    swapJobId: string | null;
+    memo: string | null;
+    createdAt: string;
+  }>;
+};
+
+export type EstimateDepositQuery = {
+  amount: number | string;
+};
+
+export type EstimateDepositResponse = {
+  success: true;
+  estimate: {
+    kind: "deposit" | "withdrawal";
+    provider: string;
+    route: string;
+    amountSol: string;
+    intermediateAmount: string;
+    intermediateTicker: string;
+    bridgeOutputSol: string;
+    receiveSol: string;
+    receiveUsd: string;
+    spreadSol: string;
+    spreadUsd: string;
+    spreadPercent: string;
+    feePaidBy: "platform" | "user";
+    solPriceUsd: string;
+    limits: {
+      minSol: number;
+      maxSol: number | null;
+    };
+    etaMinutes: {
+      min: number;
+      max: number;
+    };
+  };
+};
+
+export type InitiateDepositBody = {
+  solAmount: number | string;
+};
+
+export type InitiateDepositResponse = {
+  success: true;
+  deposit: {
+    id: string;
+    status: "waiting_step1" | "waiting_step2" | "finished" | "failed" | "refunded" | "expired" | "dead_letter";
+    usdAmount: string;
+    solAmount: string;
+    step1DepositAddress: string;
+    step1ExchangeId: string;
+    technicalSteps: Array<{
+      step: number;
+      status: "pending" | "waiting" | "active" | "completed" | "failed";
+      label: string;
+      description: string;
+    }>;
+  };
+  message: string;
+};
+
+export type GetDepositStatusParams = {
+  depositId: string;
+};
+
+export type GetDepositStatusResponse = {
+  success: true;
+  depositId: string;
+  status: "waiting_step1" | "waiting_step2" | "finished" | "failed" | "refunded" | "expired" | "dead_letter";
+  solAmount: string | null;
+  solReceived: string | null;
+  technicalSteps: Array<{
+    step: number;
+    status: "pending" | "waiting" | "active" | "completed" | "failed";
+    label: string;
+    description: string;
+  }>;
+};
+
+export type RecoverDepositParams = {
+  depositId: string;
+};
+
+export type RecoverDepositBody = {
+  trxAmount: number | string;
+};
+
+export type RecoverDepositResponse = {
+  success: true;
+  message: string;
+  step2ExchangeId: string;
+  depositStatus: string;
+};
+
+export type TriggerDepositStep2Params = {
+  depositId: string;
+};
+
+export type TriggerDepositStep2Response = {
+  success: true;
+  message: string;
+  step2ExchangeId: string;
+  trxAmount: string;
+  depositStatus: string;
+};
+
+export type GetDepositHistoryResponse = {
+  success: true;
+  deposits: Array<{
+    id: string;
+    walletId: string;
+    bridgeProvider: string;
+    bridgeRoute: string;
+    step1DepositAddress: string | null;
+    step1ExchangeId: string | null;
+    step2ExchangeId: string | null;
+    solAmount: string | null;
+    trxAmount: string | null;
+    solReceived: string | null;
+    telegramChatId: string | null;
+    telegramMessageId: string | null;
+    status: "waiting_step1" | "waiting_step2" | "finished" | "failed" | "refunded" | "expired" | "dead_letter";
+    attempts: number;
+    nextAttemptAt: string | null;
+    lastError: string | null;
+    step1CompletedAt: string | null;
+    step2CompletedAt: string | null;
+    createdAt: string;
+  }>;
+};
+
+export type EstimateWithdrawalQuery = {
+  amount: number | string;
+};
+
+export type EstimateWithdrawalResponse = {
+  success: true;
+  estimate: {
+    kind: "deposit" | "withdrawal";
+    provider: string;
+    route: string;
+    amountSol: string;
+    intermediateAmount: string;
+    intermediateTicker: string;
+    bridgeOutputSol: string;
+    receiveSol: string;
+    receiveUsd: string;
+    spreadSol: string;
+    spreadUsd: string;
+    spreadPercent: string;
+    feePaidBy: "platform" | "user";
+    solPriceUsd: string;
+    limits: {
+      minSol: number;
+      maxSol: number | null;
+    };
+    etaMinutes: {
+      min: number;
+      max: number;
+    };
+  };
+};
+
+export type InitiateWithdrawalBody = {
+  destinationAddress: string;
+  solAmount: number | string;
+};
+
+export type InitiateWithdrawalResponse = {
+  success: true;
+  withdrawal: {
+    id: string;
+    status: "waiting_step1" | "waiting_step2" | "finished" | "failed" | "refunded" | "expired" | "dead_letter";
+    solDeducted: string;
+    step1DepositAddress: string;
+    step1ExchangeId: string;
+  };
+};
+
+export type CreateTestWithdrawalBody = {
+  walletId: string;
+  destinationAddress: string;
+  solAmount: number | string;
+};
+
+export type CreateTestWithdrawalResponse = {
+  success: true;
+  withdrawal: {
+    id: string;
+    status: "waiting_step1" | "waiting_step2" | "finished" | "failed" | "refunded" | "expired" | "dead_letter";
+    step1TxId: string;
+    step1ExchangeId: string;
+  };
+};
+
+export type GetWithdrawalStatusParams = {
+  withdrawId: string;
+};
+
+export type GetWithdrawalStatusResponse = {
+  success: true;
+  withdrawal: {
+    id: string;
+    status: "waiting_step1" | "waiting_step2" | "finished" | "failed" | "refunded" | "expired" | "dead_letter";
+    destinationAddress: string;
+    solDeducted: string | null;
+    solSent: string | null;
+    step2TxTo: string | null;
+  };
+  technicalSteps: Array<{
+    step: number;
+    status: "pending" | "waiting" | "active" | "completed" | "failed";
+    label: string;
+    description: string;
+  }>;
+};
+
+export type GetWithdrawalHistoryResponse = {
+  success: true;
+  withdrawals: Array<{
+    id: string;
+    walletId: string;
+    destinationAddress: string;
+    bridgeProvider: string;
+    bridgeRoute: string;
+    step1ExchangeId: string | null;
+    step1TxId: string | null;
+    step2ExchangeId: string | null;
+    step2TxTo: string | null;
+    solDeducted: string | null;
+    trxAmount: string | null;
+    solSent: string | null;
+    telegramChatId: string | null;
+    telegramMessageId: string | null;
+    status: "waiting_step1" | "waiting_step2" | "finished" | "failed" | "refunded" | "expired" | "dead_letter";
+    attempts: number;
+    nextAttemptAt: string | null;
+    lastError: string | null;
+    step1CompletedAt: string | null;
+    step2CompletedAt: string | null;
+    createdAt: string;
+    updatedAt: string;
+  }>;
+};
+
+export type GetSwapQuoteBody = {
+  tokenAddress: string;
+  amount: number | string;
+  type: "buy" | "sell";
+};
+
+export type GetSwapQuoteResponse = {
+  success: true;
+  quote: {
+    inputAmount: number | string;
+    outputAmount: string;
+    priceImpactPct: string;
+    transaction?: string | null;
+    requestId?: string;
+    inAmount?: string;
+    outAmount?: string;
+    inputMint?: string;
+    outputMint?: string;
+    slippageBps?: number;
+  };
+  cost: string;
+};
+
+export type ExecuteSwapBody = {
+  tokenAddress: string;
+  tokenSymbol?: string;
+  amount: number | string;
+  type: "buy" | "sell";
+  quote: {
+    inputAmount: number | string;
+    outputAmount: string;
+    priceImpactPct: string;
+    transaction?: string | null;
+    requestId?: string;
+    inAmount?: string;
+    outAmount?: string;
+    inputMint?: string;
+    outputMint?: string;
+    slippageBps?: number;
+  };
+};
+
+export type ExecuteSwapResponse = {
+  success: true;
+  txhash: string;
+  newBalance: string;
+  message: string;
+  blockchainTx: string;
+};
+
+export type GetSwapStatusParams = {
+  txhash: string;
+};
+
+export type GetSwapStatusResponse = {
+  success: true;
+  swap: {
+    txhash: string;
+    type: "buy" | "sell";
+    tokenMint: string | null;
+    tokenSymbol: string | null;
+    status: "pending" | "processing" | "completed" | "failed";
+    failureReason: string | null;
+    chainTxhash: string | null;
+    createdAt: string;
+    completedAt: string | null;
+  };
+};
+
+export type GetSwapTokenInfoParams = {
+  address: string;
+};
+
+export type GetSwapTokenInfoResponse = {
+  success: true;
+  token: {
+    address: string;
+    symbol: string;
+    name: string;
+    decimals: number;
+  };
+};
+
+export type GetPortfolioQuery = {
+  /** Telegram bot only - web requests use the session */
+  walletId?: string;
+};
+
+export type GetPortfolioResponse = {
+  success: true;
+  summary: {
+    totalPnl: string;
+    unrealizedPnl: string;
+    realizedPnl: string;
+    totalTrades: number;
+    winRate: string;
+    totalValue: string;
+    uncertainPrices: number;
+  };
+  holdings: Array<{
+    mint: string;
+    symbol: string;
+    amount: string;
+    entryPrice: string;
+    currentPrice: string;
+    costBasis: string;
+    currentValue: string;
+    unrealizedPnl: string;
+    pnlPercent: string;
+    priceUncertain: boolean;
+    priceConfidence: number;
+    priceStalenessMs: number | null;
+  }>;
+  recentTrades: Array<{
+    txhash: string;
+    type: "deposit" | "buy" | "sell" | "withdraw";
+    tokenSymbol: string | null;
+    amount: string;
+    priceUsd: string | null;
+    timestamp: string;
+  }>;
+};
+
+export type GetPortfolioHistoryQuery = {
+  range?: "24h" | "7d" | "30d" | "90d" | "1y";
+};
+
+export type GetPortfolioHistoryResponse = {
+  success: true;
+  range: "24h" | "7d" | "30d" | "90d" | "1y";
+  points: Array<{
+    timestamp: string;
+    totalValueUsd: string;
+    solBalance: string;
+    tokenValueUsd: string;
+  }>;
+};
+
+export type ListExplorerTransactionsQuery = {
+  page?: number;
+  limit?: number;
+  type?: "deposit" | "buy" | "sell" | "withdraw";
+  status?: "pending" | "completed" | "failed";
+};
+
+export type ListExplorerTransactionsResponse = {
+  success: true;
+  transactions: Array<{
+    txhash: string;
+    category: "Transfer In" | "Transfer Out" | "Buy" | "Sell";
+    type: "deposit" | "buy" | "sell" | "withdraw";
+    instructions: string | null;
+    blockNumber: string | null;
+    solValue: string | null;
+    tokenSymbol: string;
+    amount: string;
+    usdValue: string;
+    status: "pending" | "completed" | "failed";
+    timestamp: string;
+    wallet: string | null;
+  }>;
+  pagination: {
+    page: number;
+    limit: number;
+    totalCount: number;
+    totalPages: number;
+  };
+};
+
+export type GetExplorerStatsResponse = {
+  success: true;
+  stats: {
+    totalTransactions: number;
+    completedTransactions: number;
+    uniqueWallets: number;
+    allTimeVolume: string;
+    volume24h: string;
+    avgTransactionValue: string;
+    transactions24h: number;
+    networkStatus: "Online" | "Offline";
+    networkActivity: number;
+  };
+};
+
+export type GetExplorerTransactionParams = {
+  hash: string;
+};
+
+export type GetExplorerTransactionResponse = {
+  success: true;
+  transaction: {
+    txhash: string;
+    chainTxhash: string | null;
+    category: "Transfer In" | "Transfer Out" | "Buy" | "Sell";
+    type: "deposit" | "buy" | "sell" | "withdraw";
+    tokenAddress: string | null;
+    tokenSymbol: string;
+    amount: string;
+    priceUsd: string | null;
+    solValue: string | null;
+    instructions: string | null;
+    blockNumber: string | null;
+    usdValue: string;
+    costBasisAtSale: string | null;
+    realizedPnl: string | null;
+    status: "pending" | "completed" | "failed";
+    timestamp: string;
+    wallet: string | null;
+  };
+};
+
+export type GetExplorerWalletParams = {
+  anvAddress: string;
+};
+
+export type GetExplorerWalletQuery = {
+  page?: number;
+  limit?: number;
+  type?: "deposit" | "buy" | "sell" | "withdraw";
+};
+
+export type GetExplorerWalletResponse = {
+  success: true;
+  wallet: {
+    anvAddress: string | null;
+    createdAt: string;
+  };
+  transactions: Array<{
+    txhash: string;
+    category: "Transfer In" | "Transfer Out" | "Buy" | "Sell";
+    type: "deposit" | "buy" | "sell" | "withdraw";
+    tokenSymbol: string;
+    amount: string;
+    usdValue: string;
+    status: "pending" | "completed" | "failed";
+    timestamp: string;
+  }>;
+  pagination: {
+    page: number;
+    limit: number;
+    totalCount: number;
+    totalPages: number;
+  };
+};
+
+export type CalculatePanvRewardsBody = {
+  solAddress: string;
+  anvWalletAddress: string;
+};
+
+export type CalculatePanvRewardsResponse = {
+  success: true;
+  eligible: boolean;
+  message?: string;
+  data: {
+    anvTokenBalance: string;
+    minimumRequired?: string;
+    eligible?: boolean;
+    tradingVolumeUsd?: string;
+    holdingMultiplier?: string;
+    volumeMultiplier?: string;
+    totalPanvEarned?: string;
+    calculatedAt?: string;
+  };
+};
+
+export type GetPanvRewardsParams = {
+  solAddress: string;
+};
+
+export type GetPanvRewardsResponse = {
+  success: true;
+  message?: string;
+  data: {
+    solAddress: string;
+    anvWalletAddress: string;
+    anvTokenBalance: string;
+    tradingVolumeUsd: string;
+    holdingMultiplier: string;
+    volumeMultiplier: string;
+    totalPanvEarned: string;
+    isEligible: boolean;
+    calculatedAt: string;
+    lastCheckedAt: string;
+  } | null;
+};
+
+export type CreateLimitOrderBody = {
+  tokenAddress: string;
+  type: "buy" | "sell";
+  targetPrice: number | string;
+  priceCurrency?: "usd" | "sol";
+  /** Buy orders */
+  solAmount?: number | string;
+  /** Sell orders */
+  tokenAmount?: number | string;
+  expiresInHours?: number | string | null;
+};
+
+export type CreateLimitOrderResponse = {
+  success: true;
+  order: {
+    id: string;
+    walletId: string;
+    type: "buy" | "sell";
+    tokenMint: string;
+    tokenSymbol: string;
+    priceCurrency: "usd" | "sol";
+    targetPrice: string;
+    solAmount: string | null;
+    tokenAmount: string | null;
+    status: "open" | "triggered" | "cancelled" | "expired" | "failed";
+    triggerPrice: string | null;
+    anxHash: string | null;
+    failureReason: string | null;
+    expiresAt: string | null;
+    createdAt: string;
+    triggeredAt: string | null;
+    updatedAt: string;
+  };
+};
+
+export type ListLimitOrdersQuery = {
+  status?: "open" | "triggered" | "cancelled" | "expired" | "failed";
+};
+
+export type ListLimitOrdersResponse = {
+  success: true;
+  orders: Array<{
+    id: string;
+    walletId: string;
+    type: "buy" | "sell";
+    tokenMint: string;
+    tokenSymbol: string;
+    priceCurrency: "usd" | "sol";
+    targetPrice: string;
+    solAmount: string | null;
+    tokenAmount: string | null;
+    status: "open" | "triggered" | "cancelled" | "expired" | "failed";
+    triggerPrice: string | null;
+    anxHash: string | null;
+    failureReason: string | null;
+    expiresAt: string | null;
+    createdAt: string;
+    triggeredAt: string | null;
+    updatedAt: string;
+  }>;
+};
+
+export type CancelLimitOrderParams = {
+  orderId: string;
+};
+
+export type CancelLimitOrderResponse = {
+  success: true;
+};
+
+export type CreateTpSlRuleBody = {
+  mint: string;
+  kind: "take_profit" | "stop_loss";
+  triggerType: "percent" | "price";
+  triggerValue: number | string;
+  sellPercent?: number | string;
+};
+
+export type CreateTpSlRuleResponse = {
+  success: true;
+  rule: {
+    id: string;
+    walletId: string;
+    mint: string;
+    tokenSymbol: string;
+    kind: "take_profit" | "stop_loss";
+    triggerType: "percent" | "price";
+    triggerValue: string;
+    sellPercent: string;
+    status: "active" | "triggered" | "cancelled" | "failed";
+    triggerPriceUsd: string | null;
+    anxHash: string | null;
+    failureReason: string | null;
+    createdAt: string;
+    triggeredAt: string | null;
+    updatedAt: string;
+  };
+};
+
+export type ListTpSlRulesQuery = {
+  status?: "active" | "triggered" | "cancelled" | "failed";
+};
+
+export type ListTpSlRulesResponse = {
+  success: true;
+  rules: Array<{
+    id: string;
+    walletId: string;
+    mint: string;
+    tokenSymbol: string;
+    kind: "take_profit" | "stop_loss";
+    triggerType: "percent" | "price";
+    triggerValue: string;
+    sellPercent: string;
+    status: "active" | "triggered" | "cancelled" | "failed";
+    triggerPriceUsd: string | null;
+    anxHash: string | null;
+    failureReason: string | null;
+    createdAt: string;
+    triggeredAt: string | null;
+    updatedAt: string;
+  }>;
+};
+
+export type CancelTpSlRuleParams = {
+  ruleId: string;
+};
+
+export type CancelTpSlRuleResponse = {
+  success: true;
+};
+
+export type CreateDcaScheduleBody = {
+  tokenAddress: string;
+  solAmount: number | string;
+  intervalHours: number | string;
+  /** Omit to buy until cancelled */
+  totalIterations?: number | string | null;
+};
+
+export type CreateDcaScheduleResponse = {
+  success: true;
+  schedule: {
+    id: string;
+    walletId: string;
+    tokenMint: string;
+    tokenSymbol: string;
+    solAmount: string;
+    intervalHours: number;
+    totalIterations: number | null;
+    completedIterations: number;
+    skippedIterations: number;
+    status: "active" | "paused" | "completed";
+    nextRunAt: string;
+    lastRunAt: string | null;
+    lastAnxHash: string | null;
+    lastError: string | null;
+    createdAt: string;
+    updatedAt: string;
+  };
+};
+
+export type ListDcaSchedulesResponse = {
+  success: true;
+  schedules: Array<{
+    id: string;
+    walletId: string;
+    tokenMint: string;
+    tokenSymbol: string;
+    solAmount: string;
+    intervalHours: number;
+    totalIterations: number | null;
+    completedIterations: number;
+    skippedIterations: number;
+    status: "active" | "paused" | "completed";
+    nextRunAt: string;
+    lastRunAt: string | null;
+    lastAnxHash: string | null;
+    lastError: string | null;
+    createdAt: string;
+    updatedAt: string;
+  }>;
+};
+
+export type PauseDcaScheduleParams = {
+  scheduleId: string;
+};
+
+export type PauseDcaScheduleResponse = {
+  success: true;
+};
+
+export type ResumeDcaScheduleParams = {
+  scheduleId: string;
+};
+
+export type ResumeDcaScheduleResponse = {
+  success: true;
+};
+
+export type DeleteDcaScheduleParams = {
+  scheduleId: string;
+};
+
+export type DeleteDcaScheduleResponse = {
+  success: true;
+};
+
+export type CreateAlertBody = {
+  kind: "price_above" | "price_below" | "position_pnl" | "portfolio_below";
+  /** Required for price and position alerts */
+  mint?: string | null;
+  threshold: number | string;
+  cooldownMinutes?: number;
+};
+
+export type CreateAlertResponse = {
+  success: true;
+  alert: {
+    id: string;
+    walletId: string;
+    kind: "price_above" | "price_below" | "position_pnl" | "portfolio_below";
+    mint: string | null;
+    tokenSymbol: string | null;
+    threshold: string;
+    cooldownMinutes: number;
+    status: "active" | "cancelled";
+    armed: boolean;
+    lastValue: string | null;
+    lastTriggeredAt: string | null;
+    createdAt: string;
+    updatedAt: string;
+  };
+};
+
+export type ListAlertsQuery = {
+  status?: "active" | "cancelled";
+};
+
+export type ListAlertsResponse = {
+  success: true;
+  alerts: Array<{
+    id: string;
+    walletId: string;
+    kind: "price_above" | "price_below" | "position_pnl" | "portfolio_below";
+    mint: string | null;
+    tokenSymbol: string | null;
+    threshold: string;
+    cooldownMinutes: number;
+    status: "active" | "cancelled";
+    armed: boolean;
+    lastValue: string | null;
+    lastTriggeredAt: string | null;
+    createdAt: string;
+    updatedAt: string;
+  }>;
+};
+
+export type ListAlertDeliveriesQuery = {
+  limit?: number;
+};
+
+export type ListAlertDeliveriesResponse = {
+  success: true;
+  deliveries: Array<{
+    id: string;
+    alertId: string;
+    walletId: string;
+    observedValue: string;
+    message: string;
+    status: "sent" | "failed" | "undelivered";
+    error: string | null;
+    createdAt: string;
+  }>;
+};
+
+export type CancelAlertParams = {
+  alertId: string;
+};
+
+export type CancelAlertResponse = {
+  success: true;
+};
+
+export type GetPriceCandlesParams = {
+  mint: string;
+};
+
+export type GetPriceCandlesQuery = {
+  interval?: "1m" | "5m" | "1h" | "1d";
+  /** ISO 8601 date */
+  from?: string;
+  /** ISO 8601 date */
+  to?: string;
+  limit?: number;
+};
+
+export type GetPriceCandlesResponse = {
+  success: true;
+  mint: string;
+  interval: "1m" | "5m" | "1h" | "1d";
+  candles: Array<{
+    openTime: string;
+    open: number;
+    high: number;
+    low: number;
+    close: number;
+    samples: number;
+  }>;
+};
+
+export type GetPriceAtParams = {
+  mint: string;
+};
+
+export type GetPriceAtQuery = {
+  /** ISO 8601 date */
+  time: string;
+};
+
+export type GetPriceAtResponse = {
+  success: true;
+  mint: string;
+  time: string;
+  priceAt: number | null;
+  resolution: "1m" | "5m" | "1h" | "1d" | null;
+  priceNow: number | null;
+  changePercent: number | null;
+};
+
+export type GetTokenMetadataParams = {
+  mint: string;
+};
+
+export type GetTokenMetadataResponse = {
+  success: true;
+  metadata: {
+    mint: string;
+    symbol: string;
+    name: string;
+    decimals: number;
+    logoURI?: string;
+    source: string | null;
+    tokenProgram: "spl-token" | "spl-token-2022";
+    mintAuthority: string | null;
+    freezeAuthority: string | null;
+    transferFeeBps: number | null;
+    extensions: Array<string>;
+    flags: Array<"freeze_authority" | "transfer_fee" | "permanent_delegate" | "transfer_hook" | "non_transferable" | "default_frozen">;
+    mintAccountReadAt: string | null;
+    overridden: boolean;
+    refreshedAt: string | null;
+  };
+};
+
+export type GetTokenRiskParams = {
+  mint: string;
+};
+
+export type GetTokenRiskResponse = {
+  success: true;
+  report: {
+    mint: string;
+    score: number;
+    level: "low" | "medium" | "high";
+    checks: Array<{
+      id: "mint_authority" | "freeze_authority" | "token_extensions" | "holder_concentration" | "liquidity" | "token_age" | "sell_tax";
+      status: "pass" | "warn" | "fail" | "unknown";
+      detail: string;
+      penalty: number;
+    }>;
+    scannedAt: string;
+  };
+};
+
+export type ListCostLotsQuery = {
+  mint?: string;
+};
+
+export type ListCostLotsResponse = {
+  success: true;
+  lots: Array<{
+    id: string;
+    walletId: string;
+    transactionId: string;
+    mint: string;
+    tokenSymbol: string;
+    acquiredAt: string;
+    amount: string;
+    costUsd: string;
+    remainingAmount: string;
+    remainingCostUsd: string;
+    method: "fifo" | "lifo" | "average";
+    createdAt: string;
+  }>;
+};
+
+export type ListDisposalsQuery = {
+  year?: number;
+};
+
+export type ListDisposalsResponse = {
+  success: true;
+  disposals: Array<{
+    id: string;
+    walletId: string;
+    transactionId: string;
+    lotId: string | null;
+    mint: string;
+    tokenSymbol: string;
+    acquiredAt: string | null;
+    disposedAt: string;
+    amount: string;
+    proceedsUsd: string;
+    costBasisUsd: string;
+    gainUsd: string;
+    term: "short" | "long" | "unknown";
+    method: "fifo" | "lifo" | "average";
+    createdAt: string;
+    txhash: string;
+  }>;
+};
+
+export type GetRealizedGainsQuery = {
+  year?: number;
+};
+
+export type GetRealizedGainsResponse = {
+  success: true;
+  summary: {
+    method: "fifo" | "lifo" | "average";
+    year: number | null;
+    disposals: number;
+    proceedsUsd: string;
+    costBasisUsd: string;
+    shortTermGainUsd: string;
+    longTermGainUsd: string;
+    unknownTermGainUsd: string;
+  };
+};
+
+export type ExportDisposalsCsvQuery = {
+  year?: number;
+};
+
+export type ExportDisposalsCsvResponse = string;
+
+export type RebuildCostLotsResponse = {
+  success: true;
+  lots?: number;
+  disposals?: number;
+};
+
+export type GetTradingSettingsResponse = {
+  success: true;
+  settings: {
+    slippageBps: number;
+    maxPriceImpactPct: string;
+    priorityFeeTier: "auto" | "fast" | "turbo";
+    antiMev: boolean;
+    costBasisMethod: "fifo" | "lifo" | "average";
+    blockHighRiskBuys: boolean;
+  };
+};
+
+export type UpdateTradingSettingsBody = {
+  slippageBps?: number;
+  maxPriceImpactPct?: number | string;
+  priorityFeeTier?: "auto" | "fast" | "turbo";
+  antiMev?: boolean;
+  costBasisMethod?: "fifo" | "lifo" | "average";
+  blockHighRiskBuys?: boolean;
+};
+
+export type UpdateTradingSettingsResponse = {
+  success: true;
+  settings: {
+    slippageBps: number;
+    maxPriceImpactPct: string;
+    priorityFeeTier: "auto" | "fast" | "turbo";
+    antiMev: boolean;
+    costBasisMethod: "fifo" | "lifo" | "average";
+    blockHighRiskBuys: boolean;
+  };
+};
+
+export type ListApiKeysResponse = {
+  success: true;
+  apiKeys: Array<{
+    id: string;
+    name: string;
+    keyPrefix: string;
+    scopes: Array<"read" | "trade" | "withdraw">;
+    rateLimitPerMinute: number;
+    lastUsedAt: string | null;
+    revokedAt: string | null;
+    createdAt: string;
+  }>;
+};
+
+export type CreateApiKeyBody = {
+  name: string;
+  scopes?: Array<"read" | "trade" | "withdraw">;
+  rateLimitPerMinute?: number;
+};
+
+export type CreateApiKeyResponse = {
+  success: true;
+  apiKey: {
+    id: string;
+    name: string;
+    keyPrefix: string;
+    scopes: Array<"read" | "trade" | "withdraw">;
+    rateLimitPerMinute: number;
+    lastUsedAt: string | null;
+    revokedAt: string | null;
+    createdAt: string;
+  };
+  key: string;
+  secret: string;
+};
+
+export type RevokeApiKeyParams = {
+  keyId: string;
+};
+
+export type RevokeApiKeyResponse = {
+  success: true;
+};
+
+export type ListWebhooksResponse = {
+  success: true;
+  webhooks: Array<{
+    id: string;
+    url: string;
+    events: Array<"deposit.status_changed" | "withdrawal.status_changed" | "swap.completed" | "swap.failed">;
+    disabledAt: string | null;
+    createdAt: string;
+  }>;
+};
+
+export type CreateWebhookBody = {
+  url: string;
+  /** Defaults to every event type */
+  events?: Array<"deposit.status_changed" | "withdrawal.status_changed" | "swap.completed" | "swap.failed">;
+};
+
+export type CreateWebhookResponse = {
+  success: true;
+  webhook: {
+    id: string;
+    url: string;
+    events: Array<"deposit.status_changed" | "withdrawal.status_changed" | "swap.completed" | "swap.failed">;
+    disabledAt: string | null;
+    createdAt: string;
+  };
+  secret: string;
+};
+
+export type DisableWebhookParams = {
+  webhookId: string;
+};
+
+export type DisableWebhookResponse = {
+  success: true;
+};
+
+export type ListWebhookDeliveriesQuery = {
+  webhookId?: string;
+  limit?: number;
+};
+
+export type ListWebhookDeliveriesResponse = {
+  success: true;
+  deliveries: Array<{
+    id: string;
+    webhookId: string;
+    eventId: string;
+    eventType: "deposit.status_changed" | "withdrawal.status_changed" | "swap.completed" | "swap.failed";
+    event: {
+      id: string;
+      type: "deposit.status_changed" | "withdrawal.status_changed" | "swap.completed" | "swap.failed";
+      createdAt: string;
+      data: Record<string, unknown>;
+    };
+    status: "pending" | "delivered" | "failed";
+    attempts: number;
+    nextAttemptAt: string | null;
+    lastStatusCode: number | null;
+    lastError: string | null;
+    replayOf: string | null;
+    deliveredAt: string | null;
+    createdAt: string;
+  }>;
+};
+
+export type ReplayWebhookDeliveryParams = {
+  deliveryId: string;
+};
+
+export type ReplayWebhookDeliveryResponse = {
+  success: true;
+  delivery: {
+    id: string;
+    webhookId: string;
+    eventId: string;
+    eventType: "deposit.status_changed" | "withdrawal.status_changed" | "swap.completed" | "swap.failed";
+    event: {
+      id: string;
+      type: "deposit.status_changed" | "withdrawal.status_changed" | "swap.completed" | "swap.failed";
+      createdAt: string;
+      data: Record<string, unknown>;
+    };
+    status: "pending" | "delivered" | "failed";
+    attempts: number;
+    nextAttemptAt: string | null;
+    lastStatusCode: number | null;
+    lastError: string | null;
+    replayOf: string | null;
+    deliveredAt: string | null;
+    createdAt: string;
+  };
+};
+
+export type GetSolvencyReportResponse = {
+  success: true;
+  report: {
+    generatedAt: string;
+    systemWallets: Array<string>;
+    entries: Array<{
+      mint: string;
+      symbol: string;
+      liabilities: number;
+      onChain: number;
+      difference: number;
+      status: "surplus" | "deficit" | "balanced";
+    }>;
+    deficitCount: number;
+    underCollateralized: boolean;
+  };
+};
+
+export type RunSolvencyReconciliationResponse = {
+  success: true;
+  report: {
+    generatedAt: string;
+    systemWallets: Array<string>;
+    entries: Array<{
+      mint: string;
+      symbol: string;
+      liabilities: number;
+      onChain: number;
+      difference: number;
+      status: "surplus" | "deficit" | "balanced";
+    }>;
+    deficitCount: number;
+    underCollateralized: boolean;
+  };
+};
+
+export type ListDeadLetterTransfersResponse = {
+  success: true;
+  deposits: Array<{
+    id: string;
+    walletId: string;
+    bridgeProvider: string;
+    bridgeRoute: string;
+    step1DepositAddress: string | null;
+    step1ExchangeId: string | null;
+    step2ExchangeId: string | null;
+    solAmount: string | null;
+    trxAmount: string | null;
+    solReceived: string | null;
+    telegramChatId: string | null;
+    telegramMessageId: string | null;
+    status: "waiting_step1" | "waiting_step2" | "finished" | "failed" | "refunded" | "expired" | "dead_letter";
+    attempts: number;
+    nextAttemptAt: string | null;
+    lastError: string | null;
+    step1CompletedAt: string | null;
+    step2CompletedAt: string | null;
+    createdAt: string;
+  }>;
+  withdrawals: Array<{
+    id: string;
+    walletId: string;
+    destinationAddress: string;
+    bridgeProvider: string;
+    bridgeRoute: string;
+    step1ExchangeId: string | null;
+    step1TxId: string | null;
+    step2ExchangeId: string | null;
+    step2TxTo: string | null;
+    solDeducted: string | null;
+    trxAmount: string | null;
+    solSent: string | null;
+    telegramChatId: string | null;
+    telegramMessageId: string | null;
+    status: "waiting_step1" | "waiting_step2" | "finished" | "failed" | "refunded" | "expired" | "dead_letter";
+    attempts: number;
+    nextAttemptAt: string | null;
+    lastError: string | null;
+    step1CompletedAt: string | null;
+    step2CompletedAt: string | null;
+    createdAt: string;
+    updatedAt: string;
+  }>;
+};
+
+export type GetTransferHistoryParams = {
+  kind: string;
+  id: string;
+};
+
+export type GetTransferHistoryResponse = {
+  success: true;
+  history: Array<{
+    id: string;
+    depositId: string | null;
+    withdrawalId: string | null;
+    fromStatus: string;
+    toStatus: string;
+    reason: string;
+    attempts: number;
+    createdAt: string;
+  }>;
+};
+
+export type RequeueTransferParams = {
+  kind: string;
+  id: string;
+};
+
+export type RequeueTransferBody = {
+  reason?: string;
+};
+
+export type RequeueTransferResponse = {
+  success: true;
+  status?: "waiting_step1" | "waiting_step2" | "finished" | "failed" | "refunded" | "expired" | "dead_letter";
+};
+
+export type SetTokenMetadataOverrideParams = {
+  mint: string;
+};
+
+export type SetTokenMetadataOverrideBody = {
+  symbol?: string;
+  name?: string;
+  logoUri?: string | null;
+};
+
+export type SetTokenMetadataOverrideResponse = {
+  success: true;
+  metadata?: {
+    mint: string;
+    symbol: string;
+    name: string;
+    decimals: number;
+    logoURI?: string;
+    source: string | null;
+    tokenProgram: "spl-token" | "spl-token-2022";
+    mintAuthority: string | null;
+    freezeAuthority: string | null;
+    transferFeeBps: number | null;
+    extensions: Array<string>;
+    flags: Array<"freeze_authority" | "transfer_fee" | "permanent_delegate" | "transfer_hook" | "non_transferable" | "default_frozen">;
+    mintAccountReadAt: string | null;
+    overridden: boolean;
+    refreshedAt: string | null;
+  };
+};
+
+export type ClearTokenMetadataOverrideParams = {
+  mint: string;
+};
+
+export type ClearTokenMetadataOverrideResponse = {
+  success: true;
+  metadata?: {
+    mint: string;
+    symbol: string;
+    name: string;
+    decimals: number;
+    logoURI?: string;
+    source: string | null;
+    tokenProgram: "spl-token" | "spl-token-2022";
+    mintAuthority: string | null;
+    freezeAuthority: string | null;
+    transferFeeBps: number | null;
+    extensions: Array<string>;
+    flags: Array<"freeze_authority" | "transfer_fee" | "permanent_delegate" | "transfer_hook" | "non_transferable" | "default_frozen">;
+    mintAccountReadAt: string | null;
+    overridden: boolean;
+    refreshedAt: string | null;
+  };
+};
+
+export type RefreshTokenMetadataParams = {
+  mint: string;
+};
+
+export type RefreshTokenMetadataResponse = {
+  success: true;
+  metadata: {
+    mint: string;
+    symbol: string;
+    name: string;
+    decimals: number;
+    logoURI?: string;
+    source: string | null;
+    tokenProgram: "spl-token" | "spl-token-2022";
+    mintAuthority: string | null;
+    freezeAuthority: string | null;
+    transferFeeBps: number | null;
+    extensions: Array<string>;
+    flags: Array<"freeze_authority" | "transfer_fee" | "permanent_delegate" | "transfer_hook" | "non_transferable" | "default_frozen">;
+    mintAccountReadAt: string | null;
+    overridden: boolean;
+    refreshedAt: string | null;
+  };
+};
+
+export type GetOpenApiDocumentResponse = Record<string, unknown>;
+
+/**
+ * Web operations also served by the signed developer API - same input, response wrapped in the v1 envelope
+ */
+export const apiV1Operations: ReadonlyArray<{ operationId: string; method: string; path: string; v1Path: string }> = [
+  { operationId: 'getPortfolio', method: 'GET', path: '/api/portfolio', v1Path: '/api/v1/portfolio' },
+  { operationId: 'getSwapQuote', method: 'POST', path: '/api/swap/quote', v1Path: '/api/v1/swap/quote' },
+  { operationId: 'executeSwap', method: 'POST', path: '/api/swap/execute', v1Path: '/api/v1/swap' },
+  { operationId: 'getSwapStatus', method: 'GET', path: '/api/swap/status/{txhash}', v1Path: '/api/v1/swap/status/{txhash}' },
+  { operationId: 'getDepositStatus', method: 'GET', path: '/api/deposit/status/{depositId}', v1Path: '/api/v1/deposits/{depositId}' },
+  { operationId: 'getWithdrawalStatus', method: 'GET', path: '/api/withdraw/status/{withdrawId}', v1Path: '/api/v1/withdrawals/{withdrawId}' },
+  { operationId: 'initiateWithdrawal', method: 'POST', path: '/api/withdraw/initiate', v1Path: '/api/v1/withdrawals' },
+  { operationId: 'listExplorerTransactions', method: 'GET', path: '/api/explorer/transactions', v1Path: '/api/v1/explorer/transactions' },
+  { operationId: 'getExplorerStats', method: 'GET', path: '/api/explorer/stats', v1Path: '/api/v1/explorer/stats' },
+  { operationId: 'getExplorerTransaction', method: 'GET', path: '/api/explorer/tx/{hash}', v1Path: '/api/v1/explorer/tx/{hash}' },
+  { operationId: 'getExplorerWallet', method: 'GET', path: '/api/explorer/wallet/{anvAddress}', v1Path: '/api/v1/explorer/wallet/{anvAddress}' },
+];
+
+export function createApiClient(options: ApiClientOptions = {}) {
+  return {
+    /** Create a wallet and log in to it (the private key is only returned here) - POST /api/wallet/create */
+    createWallet: () => send<CreateWalletResponse>(options, 'POST', '/api/wallet/create', {}, 'json'),
+    /** Log in with a 64-byte private key - POST /api/wallet/login */
+    loginWallet: (input: { body: LoginWalletBody }) => send<LoginWalletResponse>(options, 'POST', '/api/wallet/login', input, 'json'),
+    /** ANV address of the active wallet - GET /api/wallet/address */
+    getWalletAddress: () => send<GetWalletAddressResponse>(options, 'GET', '/api/wallet/address', {}, 'json'),
+    /** SOL and token balances with USD values - GET /api/wallet/balance */
+    getWalletBalance: () => send<GetWalletBalanceResponse>(options, 'GET', '/api/wallet/balance', {}, 'json'),
+    /** End the session - POST /api/wallet/logout */
+    logoutWallet: () => send<LogoutWalletResponse>(options, 'POST', '/api/wallet/logout', {}, 'json'),
+    /** Server-Sent Events for the active wallet (event shapes: shared/stream-events.ts) - GET /api/stream */
+    streamWalletEvents: () => send<StreamWalletEventsResponse>(options, 'GET', '/api/stream', {}, 'text'),
+    /** Wallets available to the session - GET /api/wallet/list */
+    listWallets: () => send<ListWalletsResponse>(options, 'GET', '/api/wallet/list', {}, 'json'),
+    /** Make another wallet the active one - POST /api/wallet/switch */
+    switchWallet: (input: { body: SwitchWalletBody }) => send<SwitchWalletResponse>(options, 'POST', '/api/wallet/switch', input, 'json'),
+    /** Private key of the active wallet (JSON byte array) - GET /api/wallet/export-key */
+    exportWalletKey: () => send<ExportWalletKeyResponse>(options, 'GET', '/api/wallet/export-key', {}, 'json'),
+    /** Import a wallet by private key and switch to it - POST /api/wallet/import */
+    importWallet: (input: { body: ImportWalletBody }) => send<ImportWalletResponse>(options, 'POST', '/api/wallet/import', input, 'json'),
+    /** Audit trail of SOL balance changes (newest first) - GET /api/wallet/ledger */
+    getSolLedger: (input: { query?: GetSolLedgerQuery } = {}) => send<GetSolLedgerResponse>(options, 'GET', '/api/wallet/ledger', input, 'json'),
+    /** Quote what a deposit of the given SOL amount would credit - GET /api/deposit/estimate */
+    estimateDeposit: (input: { query: EstimateDepositQuery }) => send<EstimateDepositResponse>(options, 'GET', '/api/deposit/estimate', input, 'json'),
+    /** Start a dual-bridge deposit - POST /api/deposit/initiate */
+    initiateDeposit: (input: { body: InitiateDepositBody }) => send<InitiateDepositResponse>(options, 'POST', '/api/deposit/initiate', input, 'json'),
+    /** Live status of a deposit with its technical steps - GET /api/deposit/status/{depositId} */
+    getDepositStatus: (input: { params: GetDepositStatusParams }) => send<GetDepositStatusResponse>(options, 'GET', '/api/deposit/status/{depositId}', input, 'json'),
+    /** Start step 2 of a stuck deposit with the intermediate amount received - POST /api/deposit/recover/{depositId} */
+    recoverDeposit: (input: { params: RecoverDepositParams; body: RecoverDepositBody }) => send<RecoverDepositResponse>(options, 'POST', '/api/deposit/recover/{depositId}', input, 'json'),
+    /** Start step 2 of a deposit whose first hop finished - POST /api/deposit/manual-trigger/{depositId} */
+    triggerDepositStep2: (input: { params: TriggerDepositStep2Params }) => send<TriggerDepositStep2Response>(options, 'POST', '/api/deposit/manual-trigger/{depositId}', input, 'json'),
+    /** Deposits of the active wallet - GET /api/deposit/history */
+    getDepositHistory: () => send<GetDepositHistoryResponse>(options, 'GET', '/api/deposit/history', {}, 'json'),
+    /** Quote what a withdrawal of the given SOL amount would deliver - GET /api/withdraw/estimate */
+    estimateWithdrawal: (input: { query: EstimateWithdrawalQuery }) => send<EstimateWithdrawalResponse>(options, 'GET', '/api/withdraw/estimate', input, 'json'),
+    /** Withdraw SOL to a Solana address through the dual bridge - POST /api/withdraw/initiate */
+    initiateWithdrawal: (input: { body: InitiateWithdrawalBody }) => send<InitiateWithdrawalResponse>(options, 'POST', '/api/withdraw/initiate', input, 'json'),
+    /** Create a withdrawal for a wallet without a session (testing only) - POST /api/withdraw/test-create */
+    createTestWithdrawal: (input: { body: CreateTestWithdrawalBody }) => send<CreateTestWithdrawalResponse>(options, 'POST', '/api/withdraw/test-create', input, 'json'),
+    /** Live status of a withdrawal with its technical steps - GET /api/withdraw/status/{withdrawId} */
+    getWithdrawalStatus: (input: { params: GetWithdrawalStatusParams }) => send<GetWithdrawalStatusResponse>(options, 'GET', '/api/withdraw/status/{withdrawId}', input, 'json'),
+    /** Withdrawals of the active wallet - GET /api/withdraw/history */
+    getWithdrawalHistory: () => send<GetWithdrawalHistoryResponse>(options, 'GET', '/api/withdraw/history', {}, 'json'),
+    /** Quote a buy (amount in SOL) or sell (amount in tokens) - POST /api/swap/quote */
+    getSwapQuote: (input: { body: GetSwapQuoteBody }) => send<GetSwapQuoteResponse>(options, 'POST', '/api/swap/quote', input, 'json'),
+    /** Execute a quote returned by getSwapQuote - POST /api/swap/execute */
+    executeSwap: (input: { body: ExecuteSwapBody }) => send<ExecuteSwapResponse>(options, 'POST', '/api/swap/execute', input, 'json'),
+    /** Status of a swap by ANV transaction hash (background job for orders, DCA and Telegram trades) - GET /api/swap/status/{txhash} */
+    getSwapStatus: (input: { params: GetSwapStatusParams }) => send<GetSwapStatusResponse>(options, 'GET', '/api/swap/status/{txhash}', input, 'json'),
+    /** Basic token info (placeholder - use getTokenMetadata) - GET /api/swap/token-info/{address} */
+    getSwapTokenInfo: (input: { params: GetSwapTokenInfoParams }) => send<GetSwapTokenInfoResponse>(options, 'GET', '/api/swap/token-info/{address}', input, 'json'),
+    /** Holdings with live PnL, summary and recent trades - GET /api/portfolio */
+    getPortfolio: (input: { query?: GetPortfolioQuery } = {}) => send<GetPortfolioResponse>(options, 'GET', '/api/portfolio', input, 'json'),
+    /** Portfolio value over time from snapshots - GET /api/portfolio/history */
+    getPortfolioHistory: (input: { query?: GetPortfolioHistoryQuery } = {}) => send<GetPortfolioHistoryResponse>(options, 'GET', '/api/portfolio/history', input, 'json'),
+    /** All transactions, newest first (ANV addresses only) - GET /api/explorer/transactions */
+    listExplorerTransactions: (input: { query?: ListExplorerTransactionsQuery } = {}) => send<ListExplorerTransactionsResponse>(options, 'GET', '/api/explorer/transactions', input, 'json'),
+    /** Network totals, volume and activity - GET /api/explorer/stats */
+    getExplorerStats: () => send<GetExplorerStatsResponse>(options, 'GET', '/api/explorer/stats', {}, 'json'),
+    /** Transaction detail by ANV hash - GET /api/explorer/tx/{hash} */
+    getExplorerTransaction: (input: { params: GetExplorerTransactionParams }) => send<GetExplorerTransactionResponse>(options, 'GET', '/api/explorer/tx/{hash}', input, 'json'),
+    /** Transaction history of an ANV address - GET /api/explorer/wallet/{anvAddress} */
+    getExplorerWallet: (input: { params: GetExplorerWalletParams; query?: GetExplorerWalletQuery }) => send<GetExplorerWalletResponse>(options, 'GET', '/api/explorer/wallet/{anvAddress}', input, 'json'),
+    /** Calculate pANV rewards for a SOL address holding ANV - POST /api/panv/calculate-rewards */
+    calculatePanvRewards: (input: { body: CalculatePanvRewardsBody }) => send<CalculatePanvRewardsResponse>(options, 'POST', '/api/panv/calculate-rewards', input, 'json'),
+    /** Last calculated pANV rewards of a linked SOL address - GET /api/panv/rewards/{solAddress} */
+    getPanvRewards: (input: { params: GetPanvRewardsParams }) => send<GetPanvRewardsResponse>(options, 'GET', '/api/panv/rewards/{solAddress}', input, 'json'),
+    /** Create a resting limit order - POST /api/orders/limit */
+    createLimitOrder: (input: { body: CreateLimitOrderBody }) => send<CreateLimitOrderResponse>(options, 'POST', '/api/orders/limit', input, 'json'),
+    /** Limit orders of the active wallet - GET /api/orders/limit */
+    listLimitOrders: (input: { query?: ListLimitOrdersQuery } = {}) => send<ListLimitOrdersResponse>(options, 'GET', '/api/orders/limit', input, 'json'),
+    /** Cancel an open limit order - POST /api/orders/limit/{orderId}/cancel */
+    cancelLimitOrder: (input: { params: CancelLimitOrderParams }) => send<CancelLimitOrderResponse>(options, 'POST', '/api/orders/limit/{orderId}/cancel', input, 'json'),
+    /** Create a take-profit or stop-loss rule on a holding - POST /api/tpsl */
+    createTpSlRule: (input: { body: CreateTpSlRuleBody }) => send<CreateTpSlRuleResponse>(options, 'POST', '/api/tpsl', input, 'json'),
+    /** TP/SL rules of the active wallet - GET /api/tpsl */
+    listTpSlRules: (input: { query?: ListTpSlRulesQuery } = {}) => send<ListTpSlRulesResponse>(options, 'GET', '/api/tpsl', input, 'json'),
+    /** Cancel an active TP/SL rule - POST /api/tpsl/{ruleId}/cancel */
+    cancelTpSlRule: (input: { params: CancelTpSlRuleParams }) => send<CancelTpSlRuleResponse>(options, 'POST', '/api/tpsl/{ruleId}/cancel', input, 'json'),
+    /** Create a recurring buy schedule - POST /api/dca */
+    createDcaSchedule: (input: { body: CreateDcaScheduleBody }) => send<CreateDcaScheduleResponse>(options, 'POST', '/api/dca', input, 'json'),
+    /** DCA schedules of the active wallet - GET /api/dca */
+    listDcaSchedules: () => send<ListDcaSchedulesResponse>(options, 'GET', '/api/dca', {}, 'json'),
+    /** Pause an active schedule - POST /api/dca/{scheduleId}/pause */
+    pauseDcaSchedule: (input: { params: PauseDcaScheduleParams }) => send<PauseDcaScheduleResponse>(options, 'POST', '/api/dca/{scheduleId}/pause', input, 'json'),
+    /** Resume a paused schedule - POST /api/dca/{scheduleId}/resume */
+    resumeDcaSchedule: (input: { params: ResumeDcaScheduleParams }) => send<ResumeDcaScheduleResponse>(options, 'POST', '/api/dca/{scheduleId}/resume', input, 'json'),
+    /** Delete a schedule (placed buys stay in the history) - DELETE /api/dca/{scheduleId} */
+    deleteDcaSchedule: (input: { params: DeleteDcaScheduleParams }) => send<DeleteDcaScheduleResponse>(options, 'DELETE', '/api/dca/{scheduleId}', input, 'json'),
+    /** Create a price, position PnL or portfolio value alert - POST /api/alerts */
+    createAlert: (input: { body: CreateAlertBody }) => send<CreateAlertResponse>(options, 'POST', '/api/alerts', input, 'json'),
+    /** Alerts of the active wallet - GET /api/alerts */
+    listAlerts: (input: { query?: ListAlertsQuery } = {}) => send<ListAlertsResponse>(options, 'GET', '/api/alerts', input, 'json'),
+    /** Delivery log of fired alerts (newest first) - GET /api/alerts/deliveries */
+    listAlertDeliveries: (input: { query?: ListAlertDeliveriesQuery } = {}) => send<ListAlertDeliveriesResponse>(options, 'GET', '/api/alerts/deliveries', input, 'json'),
+    /** Cancel an active alert - POST /api/alerts/{alertId}/cancel */
+    cancelAlert: (input: { params: CancelAlertParams }) => send<CancelAlertResponse>(options, 'POST', '/api/alerts/{alertId}/cancel', input, 'json'),
+    /** OHLC candles of a token - GET /api/prices/{mint}/candles */
+    getPriceCandles: (input: { params: GetPriceCandlesParams; query?: GetPriceCandlesQuery }) => send<GetPriceCandlesResponse>(options, 'GET', '/api/prices/{mint}/candles', input, 'json'),
+    /** Price of a token at a point in time vs now - GET /api/prices/{mint}/at */
+    getPriceAt: (input: { params: GetPriceAtParams; query: GetPriceAtQuery }) => send<GetPriceAtResponse>(options, 'GET', '/api/prices/{mint}/at', input, 'json'),
+    /** Resolved token metadata with Token-2022 and authority flags - GET /api/tokens/{mint}/metadata */
+    getTokenMetadata: (input: { params: GetTokenMetadataParams }) => send<GetTokenMetadataResponse>(options, 'GET', '/api/tokens/{mint}/metadata', input, 'json'),
+    /** Risk score and safety checks of a token - GET /api/tokens/{mint}/risk */
+    getTokenRisk: (input: { params: GetTokenRiskParams }) => send<GetTokenRiskResponse>(options, 'GET', '/api/tokens/{mint}/risk', input, 'json'),
+    /** Open cost lots of the active wallet - GET /api/tax/lots */
+    listCostLots: (input: { query?: ListCostLotsQuery } = {}) => send<ListCostLotsResponse>(options, 'GET', '/api/tax/lots', input, 'json'),
+    /** Sells matched to lots - GET /api/tax/disposals */
+    listDisposals: (input: { query?: ListDisposalsQuery } = {}) => send<ListDisposalsResponse>(options, 'GET', '/api/tax/disposals', input, 'json'),
+    /** Realized gains split into short-term and long-term - GET /api/tax/summary */
+    getRealizedGains: (input: { query?: GetRealizedGainsQuery } = {}) => send<GetRealizedGainsResponse>(options, 'GET', '/api/tax/summary', input, 'json'),
+    /** Disposals as CSV for tax filing - GET /api/tax/export.csv */
+    exportDisposalsCsv: (input: { query?: ExportDisposalsCsvQuery } = {}) => send<ExportDisposalsCsvResponse>(options, 'GET', '/api/tax/export.csv', input, 'text'),
+    /** Rebuild lots and disposals by replaying completed trades - POST /api/tax/rebuild */
+    rebuildCostLots: () => send<RebuildCostLotsResponse>(options, 'POST', '/api/tax/rebuild', {}, 'json'),
+    /** Trading preferences of the active wallet - GET /api/settings/trading */
+    getTradingSettings: () => send<GetTradingSettingsResponse>(options, 'GET', '/api/settings/trading', {}, 'json'),
+    /** Update trading preferences (partial) - POST /api/settings/trading */
+    updateTradingSettings: (input: { body: UpdateTradingSettingsBody }) => send<UpdateTradingSettingsResponse>(options, 'POST', '/api/settings/trading', input, 'json'),
+    /** Developer API keys of the active wallet (revoked keys included) - GET /api/api-keys */
+    listApiKeys: () => send<ListApiKeysResponse>(options, 'GET', '/api/api-keys', {}, 'json'),
+    /** Issue a developer API key (key and secret are only returned here) - POST /api/api-keys */
+    createApiKey: (input: { body: CreateApiKeyBody }) => send<CreateApiKeyResponse>(options, 'POST', '/api/api-keys', input, 'json'),
+    /** Revoke a developer API key - DELETE /api/api-keys/{keyId} */
+    revokeApiKey: (input: { params: RevokeApiKeyParams }) => send<RevokeApiKeyResponse>(options, 'DELETE', '/api/api-keys/{keyId}', input, 'json'),
+    /** Webhook subscriptions of the active wallet (disabled ones included) - GET /api/webhooks */
+    listWebhooks: () => send<ListWebhooksResponse>(options, 'GET', '/api/webhooks', {}, 'json'),
+    /** Subscribe a URL to wallet events (the signing secret is only returned here) - POST /api/webhooks */
+    createWebhook: (input: { body: CreateWebhookBody }) => send<CreateWebhookResponse>(options, 'POST', '/api/webhooks', input, 'json'),
+    /** Stop sending events to a webhook (its delivery log is kept) - DELETE /api/webhooks/{webhookId} */
+    disableWebhook: (input: { params: DisableWebhookParams }) => send<DisableWebhookResponse>(options, 'DELETE', '/api/webhooks/{webhookId}', input, 'json'),
+    /** Delivery log of the wallet's webhooks (newest first) - GET /api/webhooks/deliveries */
+    listWebhookDeliveries: (input: { query?: ListWebhookDeliveriesQuery } = {}) => send<ListWebhookDeliveriesResponse>(options, 'GET', '/api/webhooks/deliveries', input, 'json'),
+    /** Send a logged event again as a new delivery (same event id) - POST /api/webhooks/deliveries/{deliveryId}/replay */
+    replayWebhookDelivery: (input: { params: ReplayWebhookDeliveryParams }) => send<ReplayWebhookDeliveryResponse>(options, 'POST', '/api/webhooks/deliveries/{deliveryId}/replay', input, 'json'),
+    /** Latest reconciliation of internal books vs on-chain holdings - GET /api/admin/solvency */
+    getSolvencyReport: () => send<GetSolvencyReportResponse>(options, 'GET', '/api/admin/solvency', {}, 'json'),
+    /** Run the solvency reconciliation now - POST /api/admin/solvency/run */
+    runSolvencyReconciliation: () => send<RunSolvencyReconciliationResponse>(options, 'POST', '/api/admin/solvency/run', {}, 'json'),
+    /** Deposits and withdrawals that exhausted their retries - GET /api/admin/transfers/dead-letter */
+    listDeadLetterTransfers: () => send<ListDeadLetterTransfersResponse>(options, 'GET', '/api/admin/transfers/dead-letter', {}, 'json'),
+    /** Status transitions of a deposit or withdrawal - GET /api/admin/transfers/{kind}/{id}/history */
+    getTransferHistory: (input: { params: GetTransferHistoryParams }) => send<GetTransferHistoryResponse>(options, 'GET', '/api/admin/transfers/{kind}/{id}/history', input, 'json'),
+    /** Return a dead-lettered transfer to the status it failed in - POST /api/admin/transfers/{kind}/{id}/requeue */
+    requeueTransfer: (input: { params: RequeueTransferParams; body?: RequeueTransferBody }) => send<RequeueTransferResponse>(options, 'POST', '/api/admin/transfers/{kind}/{id}/requeue', input, 'json'),
+    /** Pin symbol, name or logo of a token - PUT /api/admin/tokens/{mint}/metadata */
+    setTokenMetadataOverride: (input: { params: SetTokenMetadataOverrideParams; body: SetTokenMetadataOverrideBody }) => send<SetTokenMetadataOverrideResponse>(options, 'PUT', '/api/admin/tokens/{mint}/metadata', input, 'json'),
+    /** Remove a token's override and re-fetch it - DELETE /api/admin/tokens/{mint}/metadata */
+    clearTokenMetadataOverride: (input: { params: ClearTokenMetadataOverrideParams }) => send<ClearTokenMetadataOverrideResponse>(options, 'DELETE', '/api/admin/tokens/{mint}/metadata', input, 'json'),
+    /** Re-fetch a token from its sources now - POST /api/admin/tokens/{mint}/refresh */
+    refreshTokenMetadata: (input: { params: RefreshTokenMetadataParams }) => send<RefreshTokenMetadataResponse>(options, 'POST', '/api/admin/tokens/{mint}/refresh', input, 'json'),
+    /** This OpenAPI document - GET /api/openapi.json */
+    getOpenApiDocument: () => send<GetOpenApiDocumentResponse>(options, 'GET', '/api/openapi.json', {}, 'json'),
+  };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+
+// Same-origin client with the session cookie (React pages)
+export const api = createApiClient();
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, decimal, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, decimal, boolean, integer } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -11,9 +11,8 @@ export const wallets = pgTable("wallets", {
   telegramUserId: text("telegram_user_id"), // Telegram user ID for bot integration (nullable for web users) - NO UNIQUE to support multi-wallet
   walletName: text("wallet_name"), // Optional user-defined wallet name (nullable)
   isActive: boolean("is_active").notNull().default(true), // Only one wallet can be active per user at a time
+  allowCopyTrading: boolean("allow_copy_trading").notNull().default(false), // Leader opt-in: other wallets may follow and mirror this wallet's trades
   createdAt: timestamp("created_at").notNull().defaultNow(),
-  // Temporary conversation state (persisted across bot restarts)
-  pendingWithdrawAmount: varchar("pending_withdraw_amount"), // Decimal string, null when not in withdraw flow
 });
 
 // System Wallets - Dual-wallet TRON bridge system
@@ -75,7 +74,7 @@ export const tokenHoldings = pgTable("token_holdings", {
   walletMintUnique: sql`UNIQUE (wallet_id, mint)`,
 }));
 
-// Token Metadata - Cache for token symbols, names, logos
+// Token Metadata - Source of truth for token symbols, names, logos and mint properties (server/token-resolver.ts)
 export const tokenMetadata = pgTable("token_metadata", {
   mint: text("mint").primaryKey(), // SPL token mint address
   symbol: varchar("symbol", { length: 20 }).notNull(), // e.g., "PUMP", "Useless"
@@ -83,6 +82,16 @@ export const tokenMetadata = pgTable("token_metadata", {
   decimals: decimal("decimals", { precision: 2, scale: 0 }).notNull(), // Token decimals
   logoUri: text("logo_uri"), // Token logo URL
   coingeckoId: text("coingecko_id"), // CoinGecko ID for price tracking
+  source: varchar("source", { length: 20 }), // Provider that resolved symbol/name: helius, dexscreener, coingecko, jupiter, admin
+  tokenProgram: varchar("token_program", { enum: ['spl-token', 'spl-token-2022'] }).notNull().default('spl-token'),
+  mintAuthority: text("mint_authority"), // null once minting is disabled
+  freezeAuthority: text("freeze_authority"), // null when accounts cannot be frozen
+  transferFeeBps: integer("transfer_fee_bps"), // Token-2022 transfer fee (null when the mint has none)
+  extensions: text("extensions").notNull().default('[]'), // JSON array of Token-2022 extension names
+  flags: text("flags").notNull().default('[]'), // JSON array of holder-restricting properties (see server/token-metadata.ts)
+  mintAccountReadAt: timestamp("mint_account_read_at"), // Last successful mint account read (null = authorities, extensions and flags are unknown)
+  overriddenAt: timestamp("overridden_at"), // Set when an admin pinned symbol/name/logo - refreshes keep them
+  refreshedAt: timestamp("refreshed_at"), // Last successful fetch from the sources
   createdAt: timestamp("created_at").notNull().defaultNow(),
   updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
@@ -104,8 +113,11 @@ export const swapJobs = pgTable("swap_jobs", {
   chainTxhash: text("chain_txhash"), // IDEMPOTENCY: Solana transaction hash from on-chain swap execution (stored immediately after swap)
   status: varchar("status", { enum: ['pending', 'processing', 'completed', 'failed'] }).notNull().default('pending'),
   failureReason: text("failure_reason"), // Error message if failed
+  workerId: varchar("worker_id"), // LEASE: Worker currently owning this job (hostname:pid:random)
+  leaseExpiresAt: timestamp("lease_expires_at"), // LEASE: Owner must heartbeat before this; other workers reclaim after it passes
   createdAt: timestamp("created_at").notNull().defaultNow(),
-  processedAt: timestamp("processed_at"), // When background worker picked it up
+  processedAt: timestamp("processed_at"), // When background worker first picked it up
+  submittedAt: timestamp("submitted_at"), // When chainTxhash was stored - recovery measures dropped txs from here
   completedAt: timestamp("completed_at"), // When swap finished
 });
 
@@ -142,15 +154,20 @@ export const portfolio = pgTable("portfolio", {
 export const deposits = pgTable("deposits", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
-  step1DepositAddress: text("step1_deposit_address"), // Fresh SOL wallet created by SimpleSwap for Step 1
-  step1ExchangeId: text("step1_exchange_id"), // SimpleSwap: User SOL → Privacy Relay Node TRX
-  step2ExchangeId: text("step2_exchange_id"), // SimpleSwap: Privacy Relay Node TRX → Liquidity Router Node SOL
+  bridgeProvider: varchar("bridge_provider", { length: 30 }).notNull().default('simpleswap'), // Exchange provider used for both hops (see server/bridges.ts)
+  bridgeRoute: varchar("bridge_route", { length: 30 }).notNull().default('trx'), // Intermediate chain between the hops
+  step1DepositAddress: text("step1_deposit_address"), // Fresh SOL wallet created by the bridge provider for Step 1
+  step1ExchangeId: text("step1_exchange_id"), // Bridge: User SOL → Privacy Relay Node TRX
+  step2ExchangeId: text("step2_exchange_id"), // Bridge: Privacy Relay Node TRX → Liquidity Router Node SOL
   solAmount: decimal("sol_amount", { precision: 18, scale: 9 }), // User deposited SOL
-  trxAmount: decimal("trx_amount", { precision: 18, scale: 6 }), // TRX received from Step 1
+  trxAmount: decimal("trx_amount", { precision: 18, scale: 6 }), // Intermediate amount (TRX on the default route) received from Step 1
   solReceived: decimal("sol_received", { precision: 18, scale: 9 }), // Final SOL credited to user (Step 2 output)
   telegramChatId: text("telegram_chat_id"), // Telegram chat ID for message editing
   telegramMessageId: text("telegram_message_id"), // Telegram message ID for editing during step transitions
-  status: varchar("status", { enum: ['waiting_step1', 'waiting_step2', 'finished', 'failed', 'refunded', 'expired'] }).notNull().default('waiting_step1'),
+  status: varchar("status", { enum: ['waiting_step1', 'waiting_step2', 'finished', 'failed', 'refunded', 'expired', 'dead_letter'] }).notNull().default('waiting_step1'), // Transitions: server/transfer-state-machine.ts
+  attempts: integer("attempts").notNull().default(0), // Consecutive failed processing attempts in the current status
+  nextAttemptAt: timestamp("next_attempt_at"), // Retry backoff: skipped by polling until then
+  lastError: text("last_error"), // Latest processing error (kept when dead-lettered)
   step1CompletedAt: timestamp("step1_completed_at"), // When Step 1 (SOL→TRX) finished
   step2CompletedAt: timestamp("step2_completed_at"), // When Step 2 (TRX→SOL) finished
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -165,16 +182,21 @@ export const withdrawals = pgTable("withdrawals", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
   destinationAddress: text("destination_address").notNull(), // User's SOL wallet address
-  step1ExchangeId: text("step1_exchange_id"), // SimpleSwap: Liquidity Router Node SOL → Privacy Relay Node TRX
+  bridgeProvider: varchar("bridge_provider", { length: 30 }).notNull().default('simpleswap'), // Exchange provider used for both hops (see server/bridges.ts)
+  bridgeRoute: varchar("bridge_route", { length: 30 }).notNull().default('trx'), // Intermediate chain between the hops
+  step1ExchangeId: text("step1_exchange_id"), // Bridge: Liquidity Router Node SOL → Privacy Relay Node TRX
   step1TxId: text("step1_tx_id"), // Our SOL transaction ID for idempotency (prevents duplicate sends)
-  step2ExchangeId: text("step2_exchange_id"), // SimpleSwap: Privacy Relay Node TRX → User SOL
+  step2ExchangeId: text("step2_exchange_id"), // Bridge: Privacy Relay Node TRX → User SOL
   step2TxTo: text("step2_tx_to"), // Solana transaction hash of SOL sent to user (for Solscan verification)
   solDeducted: decimal("sol_deducted", { precision: 18, scale: 9 }), // SOL deducted from user balance
-  trxAmount: decimal("trx_amount", { precision: 18, scale: 6 }), // TRX received from Step 1
+  trxAmount: decimal("trx_amount", { precision: 18, scale: 6 }), // Intermediate amount (TRX on the default route) received from Step 1
   solSent: decimal("sol_sent", { precision: 18, scale: 9 }), // Final SOL sent to user (Step 2 output)
   telegramChatId: text("telegram_chat_id"), // Telegram chat ID for message editing
   telegramMessageId: text("telegram_message_id"), // Telegram message ID for editing during step transitions
-  status: varchar("status", { enum: ['waiting_step1', 'waiting_step2', 'finished', 'failed', 'refunded', 'expired'] }).notNull().default('waiting_step1'),
+  status: varchar("status", { enum: ['waiting_step1', 'waiting_step2', 'finished', 'failed', 'refunded', 'expired', 'dead_letter'] }).notNull().default('waiting_step1'), // Transitions: server/transfer-state-machine.ts
+  attempts: integer("attempts").notNull().default(0), // Consecutive failed processing attempts in the current status
+  nextAttemptAt: timestamp("next_attempt_at"), // Retry backoff: skipped by polling until then
+  lastError: text("last_error"), // Latest processing error (kept when dead-lettered)
   step1CompletedAt: timestamp("step1_completed_at"), // When Step 1 (SOL→TRX) finished
   step2CompletedAt: timestamp("step2_completed_at"), // When Step 2 (TRX→SOL) finished
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -241,8 +263,11 @@ export const insertWithdrawalSchema = createInsertSchema(withdrawals).omit({
 
 export const insertSwapJobSchema = createInsertSchema(swapJobs).omit({
   id: true,
+  workerId: true,
+  leaseExpiresAt: true,
   createdAt: true,
   processedAt: true,
+  submittedAt: true,
   completedAt: true,
 });
 
@@ -333,3 +358,462 @@ export type InsertPanvLinkedWallet = z.infer<typeof insertPanvLinkedWalletSchema
 
 export type PanvRewardsCache = typeof panvRewardsCache.$inferSelect;
 export type InsertPanvRewardsCache = z.infer<typeof insertPanvRewardsCacheSchema>;
+
+// Limit Orders - Resting buy/sell orders converted into swap jobs when the target price is crossed
+export const limitOrders = pgTable("limit_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
+  type: varchar("type", { enum: ['buy', 'sell'] }).notNull(), // BUY fills at/below target, SELL fills at/above target
+  tokenMint: text("token_mint").notNull(), // SPL token address
+  tokenSymbol: varchar("token_symbol", { length: 20 }).notNull(),
+  priceCurrency: varchar("price_currency", { enum: ['usd', 'sol'] }).notNull().default('usd'), // Denomination of targetPrice
+  targetPrice: decimal("target_price", { precision: 30, scale: 12 }).notNull(), // Per-token trigger price (memecoins need high scale)
+  solAmount: decimal("sol_amount", { precision: 18, scale: 9 }), // SOL to spend (BUY only)
+  tokenAmount: decimal("token_amount", { precision: 18, scale: 9 }), // Tokens to sell (SELL only)
+  status: varchar("status", { enum: ['open', 'triggered', 'cancelled', 'expired', 'failed'] }).notNull().default('open'),
+  triggerPrice: decimal("trigger_price", { precision: 30, scale: 12 }), // Observed price that fired the order (same currency as targetPrice)
+  anxHash: varchar("anx_hash"), // Transaction hash of the swap job created on trigger
+  failureReason: text("failure_reason"), // Error message if the swap could not be enqueued
+  expiresAt: timestamp("expires_at"), // Null = good-til-cancelled
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  triggeredAt: timestamp("triggered_at"), // When the price crossed and the swap job was enqueued
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertLimitOrderSchema = createInsertSchema(limitOrders).omit({
+  id: true,
+  status: true,
+  triggerPrice: true,
+  anxHash: true,
+  failureReason: true,
+  createdAt: true,
+  triggeredAt: true,
+  updatedAt: true,
+});
+
+export type LimitOrder = typeof limitOrders.$inferSelect;
+export type InsertLimitOrder = z.infer<typeof insertLimitOrderSchema>;
+
+// TP/SL Rules - Take-profit / stop-loss triggers on token holdings
+export const tpSlRules = pgTable("tp_sl_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
+  mint: text("mint").notNull(), // SPL token mint address (matches tokenHoldings.mint)
+  tokenSymbol: varchar("token_symbol", { length: 20 }).notNull(),
+  kind: varchar("kind", { enum: ['take_profit', 'stop_loss'] }).notNull(), // TP fires at/above threshold, SL fires at/below
+  triggerType: varchar("trigger_type", { enum: ['percent', 'price'] }).notNull(), // 'percent' = move from averageEntryPrice, 'price' = absolute USD
+  triggerValue: decimal("trigger_value", { precision: 30, scale: 12 }).notNull(), // Percent (e.g. 100 = +100% / -100%) or USD price
+  sellPercent: decimal("sell_percent", { precision: 5, scale: 2 }).notNull().default("100"), // Portion of the holding to sell (0-100]
+  status: varchar("status", { enum: ['active', 'triggered', 'cancelled', 'failed'] }).notNull().default('active'),
+  triggerPriceUsd: decimal("trigger_price_usd", { precision: 30, scale: 12 }), // Observed price that fired the rule
+  anxHash: varchar("anx_hash"), // Transaction hash of the sell created on trigger
+  failureReason: text("failure_reason"), // Why the rule failed or was auto-cancelled
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  triggeredAt: timestamp("triggered_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertTpSlRuleSchema = createInsertSchema(tpSlRules).omit({
+  id: true,
+  status: true,
+  triggerPriceUsd: true,
+  anxHash: true,
+  failureReason: true,
+  createdAt: true,
+  triggeredAt: true,
+  updatedAt: true,
+});
+
+export type TpSlRule = typeof tpSlRules.$inferSelect;
+export type InsertTpSlRule = z.infer<typeof insertTpSlRuleSchema>;
+
+// Trading Settings - Per-wallet swap preferences (one row per wallet, defaults apply when missing)
+export const tradingSettings = pgTable("trading_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().unique().references(() => wallets.id, { onDelete: 'cascade' }),
+  slippageBps: integer("slippage_bps").notNull().default(200), // Default slippage tolerance (200 = 2%)
+  maxPriceImpactPct: decimal("max_price_impact_pct", { precision: 5, scale: 2 }).notNull().default("15"), // Quotes above this impact are rejected
+  priorityFeeTier: varchar("priority_fee_tier", { enum: ['auto', 'fast', 'turbo'] }).notNull().default('auto'), // 'auto' = Jupiter decides
+  antiMev: boolean("anti_mev").notNull().default(true), // Restrict to direct routes (fewer hops = smaller sandwich surface)
+  costBasisMethod: varchar("cost_basis_method", { enum: ['fifo', 'lifo', 'average'] }).notNull().default('fifo'), // Lot matching for realized gains and tax export
+  blockHighRiskBuys: boolean("block_high_risk_buys").notNull().default(false), // Reject buys of tokens the risk scanner rates high
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertTradingSettingsSchema = createInsertSchema(tradingSettings).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type TradingSettings = typeof tradingSettings.$inferSelect;
+export type InsertTradingSettings = z.infer<typeof insertTradingSettingsSchema>;
+
+// SOL Ledger - Append-only double-entry journal behind balances.solBalance
+// Every movement is a journal of two legs that sum to zero: the user's 'wallet' leg and a system counter-account leg.
+// balances.solBalance is a projection of SUM(amount) over the wallet's 'wallet' legs (checked by reconciliation)
+export const solLedgerEntries = pgTable("sol_ledger_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  journalId: varchar("journal_id").notNull(), // Groups the legs of one movement (legs sum to zero)
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }), // Wallet the movement belongs to (set on both legs)
+  account: varchar("account", { enum: ['wallet', 'deposits', 'withdrawals', 'swaps', 'adjustments'] }).notNull(), // 'wallet' = user balance, others = system counter-accounts
+  amount: decimal("amount", { precision: 18, scale: 9 }).notNull(), // Signed: positive increases the account, negative decreases it
+  reason: varchar("reason", { enum: ['deposit', 'withdrawal', 'withdrawal_refund', 'swap_buy', 'swap_buy_refund', 'swap_sell', 'opening_balance'] }).notNull(),
+  transactionId: varchar("transaction_id").references(() => transactions.id, { onDelete: 'set null' }),
+  depositId: varchar("deposit_id").references(() => deposits.id, { onDelete: 'set null' }),
+  withdrawalId: varchar("withdrawal_id").references(() => withdrawals.id, { onDelete: 'set null' }),
+  swapJobId: varchar("swap_job_id").references(() => swapJobs.id, { onDelete: 'set null' }),
+  memo: text("memo"), // Free-form context (e.g. chain tx hash)
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertSolLedgerEntrySchema = createInsertSchema(solLedgerEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type SolLedgerEntry = typeof solLedgerEntries.$inferSelect;
+export type InsertSolLedgerEntry = z.infer<typeof insertSolLedgerEntrySchema>;
+
+// Transfer Transitions - Status history of deposits and withdrawals (one row per status change)
+export const transferTransitions = pgTable("transfer_transitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  depositId: varchar("deposit_id").references(() => deposits.id, { onDelete: 'cascade' }), // Exactly one of depositId / withdrawalId is set
+  withdrawalId: varchar("withdrawal_id").references(() => withdrawals.id, { onDelete: 'cascade' }),
+  fromStatus: varchar("from_status", { length: 20 }).notNull(),
+  toStatus: varchar("to_status", { length: 20 }).notNull(),
+  reason: text("reason").notNull(), // Why the transition happened (bridge status, error, operator requeue)
+  attempts: integer("attempts").notNull().default(0), // Failed attempts before the transition
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertTransferTransitionSchema = createInsertSchema(transferTransitions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type TransferTransition = typeof transferTransitions.$inferSelect;
+export type InsertTransferTransition = z.infer<typeof insertTransferTransitionSchema>;
+
+// Telegram Conversations - Active multi-step bot flow per Telegram user (persisted across bot restarts)
+// Flows and steps: server/telegram/conversations.ts
+export const telegramConversations = pgTable("telegram_conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  telegramUserId: text("telegram_user_id").notNull().unique(), // One active conversation per user - starting a flow replaces it
+  flow: varchar("flow", { length: 30 }).notNull(), // e.g. 'withdraw'
+  step: varchar("step", { length: 30 }).notNull(), // e.g. 'address'
+  payload: text("payload").notNull().default("{}"), // Serialized step payload JSON (e.g. the withdraw amount)
+  expiresAt: timestamp("expires_at").notNull(), // Input after this is rejected as timed out
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertTelegramConversationSchema = createInsertSchema(telegramConversations).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type TelegramConversation = typeof telegramConversations.$inferSelect;
+export type InsertTelegramConversation = z.infer<typeof insertTelegramConversationSchema>;
+
+
+// Copy Follows - A follower wallet mirroring the buys/sells of a leader wallet (leader must opt in via wallets.allowCopyTrading)
+export const copyFollows = pgTable("copy_follows", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  followerWalletId: varchar("follower_wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
+  leaderWalletId: varchar("leader_wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }), // Unique with followerWalletId (server/db-migrations.ts)
+  maxSolPerTrade: decimal("max_sol_per_trade", { precision: 18, scale: 9 }).notNull(), // Upper bound for a single mirrored buy
+  totalCapSol: decimal("total_cap_sol", { precision: 18, scale: 9 }), // Total SOL mirrored buys may spend (null = no cap)
+  spentSol: decimal("spent_sol", { precision: 18, scale: 9 }).notNull().default("0"), // SOL committed to mirrored buys so far (counts against totalCapSol)
+  blacklist: text("blacklist").notNull().default("[]"), // Serialized JSON array of token mints that are never mirrored
+  paused: boolean("paused").notNull().default(false),
+  mirrorFrom: timestamp("mirror_from").notNull().defaultNow(), // Only leader trades completed after this are mirrored (reset on resume - no backfill)
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertCopyFollowSchema = createInsertSchema(copyFollows).omit({
+  id: true,
+  spentSol: true,
+  mirrorFrom: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type CopyFollow = typeof copyFollows.$inferSelect;
+export type InsertCopyFollow = z.infer<typeof insertCopyFollowSchema>;
+
+// Copy Trades - One row per (follow, leader trade) the copy-trading job has handled
+export const copyTrades = pgTable("copy_trades", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  followId: varchar("follow_id").notNull().references(() => copyFollows.id, { onDelete: 'cascade' }),
+  followerWalletId: varchar("follower_wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
+  leaderTransactionId: varchar("leader_transaction_id").notNull().references(() => transactions.id, { onDelete: 'cascade' }), // Unique with followId - a leader trade is mirrored at most once per follow
+  type: varchar("type", { enum: ['buy', 'sell'] }).notNull(),
+  tokenMint: text("token_mint").notNull(),
+  tokenSymbol: varchar("token_symbol", { length: 20 }),
+  solAmount: decimal("sol_amount", { precision: 18, scale: 9 }), // SOL spent by the mirrored buy
+  tokenAmount: decimal("token_amount", { precision: 18, scale: 9 }), // Tokens sold by the mirrored sell
+  status: varchar("status", { enum: ['pending', 'placed', 'skipped', 'failed'] }).notNull().default('pending'), // 'pending' = claimed, order not placed yet
+  anxHash: varchar("anx_hash"), // Follower's order hash (trades with this hash are never mirrored again)
+  reason: text("reason"), // Why the trade was skipped or failed
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCopyTradeSchema = createInsertSchema(copyTrades).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type CopyTrade = typeof copyTrades.$inferSelect;
+export type InsertCopyTrade = z.infer<typeof insertCopyTradeSchema>;
+
+// Alerts - Price, position PnL and portfolio value alerts delivered via Telegram
+// Evaluation rules: server/alert-evaluator.ts
+export const alerts = pgTable("alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
+  kind: varchar("kind", { enum: ['price_above', 'price_below', 'position_pnl', 'portfolio_below'] }).notNull(),
+  mint: text("mint"), // SPL token mint (price and position alerts, null for portfolio alerts)
+  tokenSymbol: varchar("token_symbol", { length: 20 }),
+  threshold: decimal("threshold", { precision: 30, scale: 12 }).notNull(), // USD price, signed PnL percent or USD portfolio value
+  cooldownMinutes: integer("cooldown_minutes").notNull().default(60), // Minimum time between two firings
+  status: varchar("status", { enum: ['active', 'cancelled'] }).notNull().default('active'),
+  armed: boolean("armed").notNull().default(true), // Cleared when the alert fires, set again once the condition clears
+  lastValue: decimal("last_value", { precision: 30, scale: 12 }), // Observed price / percent / value when the alert last fired or re-armed
+  lastTriggeredAt: timestamp("last_triggered_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertAlertSchema = createInsertSchema(alerts).omit({
+  id: true,
+  status: true,
+  armed: true,
+  lastValue: true,
+  lastTriggeredAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type Alert = typeof alerts.$inferSelect;
+export type InsertAlert = z.infer<typeof insertAlertSchema>;
+
+// Alert Deliveries - Log of every alert firing and whether the notification reached the user
+export const alertDeliveries = pgTable("alert_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  alertId: varchar("alert_id").notNull().references(() => alerts.id, { onDelete: 'cascade' }),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
+  observedValue: decimal("observed_value", { precision: 30, scale: 12 }).notNull(), // Value that fired the alert
+  message: text("message").notNull(), // Notification text
+  status: varchar("status", { enum: ['sent', 'failed', 'undelivered'] }).notNull(), // 'undelivered' = no Telegram account linked
+  error: text("error"), // Telegram error for failed deliveries
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAlertDeliverySchema = createInsertSchema(alertDeliveries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type AlertDelivery = typeof alertDeliveries.$inferSelect;
+export type InsertAlertDelivery = z.infer<typeof insertAlertDeliverySchema>;
+
+// DCA Schedules - Recurring buys: spend solAmount on tokenMint every intervalHours (rules: server/dca-schedule.ts)
+export const dcaSchedules = pgTable("dca_schedules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
+  tokenMint: text("token_mint").notNull(), // SPL token address
+  tokenSymbol: varchar("token_symbol", { length: 20 }).notNull(),
+  solAmount: decimal("sol_amount", { precision: 18, scale: 9 }).notNull(), // SOL spent per buy
+  intervalHours: integer("interval_hours").notNull(),
+  totalIterations: integer("total_iterations"), // Buys to execute (null = until cancelled)
+  completedIterations: integer("completed_iterations").notNull().default(0), // Buys placed so far
+  skippedIterations: integer("skipped_iterations").notNull().default(0), // Runs skipped (insufficient balance or order error)
+  status: varchar("status", { enum: ['active', 'paused', 'completed'] }).notNull().default('active'),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lastRunAt: timestamp("last_run_at"),
+  lastAnxHash: varchar("last_anx_hash"), // Transaction hash of the most recent buy
+  lastError: text("last_error"), // Why the most recent run was skipped
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertDcaScheduleSchema = createInsertSchema(dcaSchedules).omit({
+  id: true,
+  completedIterations: true,
+  skippedIterations: true,
+  status: true,
+  lastRunAt: true,
+  lastAnxHash: true,
+  lastError: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type DcaSchedule = typeof dcaSchedules.$inferSelect;
+export type InsertDcaSchedule = z.infer<typeof insertDcaScheduleSchema>;
+
+// Cost Lots - One lot per completed buy, rebuilt by replaying transactions (rules: server/cost-lots.ts)
+// remainingAmount/remainingCostUsd depend on the wallet's cost basis method at rebuild time
+export const costLots = pgTable("cost_lots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
+  transactionId: varchar("transaction_id").notNull().unique().references(() => transactions.id, { onDelete: 'cascade' }), // The buy that opened this lot
+  mint: text("mint").notNull(), // SPL token address
+  tokenSymbol: varchar("token_symbol", { length: 20 }).notNull(),
+  acquiredAt: timestamp("acquired_at").notNull(),
+  amount: decimal("amount", { precision: 18, scale: 9 }).notNull(), // Tokens bought
+  costUsd: decimal("cost_usd", { precision: 18, scale: 6 }).notNull(), // USD spent on the lot
+  remainingAmount: decimal("remaining_amount", { precision: 18, scale: 9 }).notNull(), // Tokens not yet matched to a sell
+  remainingCostUsd: decimal("remaining_cost_usd", { precision: 18, scale: 6 }).notNull(), // Cost basis of the remaining tokens
+  method: varchar("method", { enum: ['fifo', 'lifo', 'average'] }).notNull(), // Method the lot was matched with
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCostLotSchema = createInsertSchema(costLots).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type CostLot = typeof costLots.$inferSelect;
+export type InsertCostLot = z.infer<typeof insertCostLotSchema>;
+
+// Lot Disposals - The part of a sell matched to one lot (a sell spanning three lots has three rows)
+export const lotDisposals = pgTable("lot_disposals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
+  transactionId: varchar("transaction_id").notNull().references(() => transactions.id, { onDelete: 'cascade' }), // The sell
+  lotId: varchar("lot_id").references(() => costLots.id, { onDelete: 'cascade' }), // null = sold more than any recorded buy (unknown basis)
+  mint: text("mint").notNull(),
+  tokenSymbol: varchar("token_symbol", { length: 20 }).notNull(),
+  acquiredAt: timestamp("acquired_at"), // null when lotId is null
+  disposedAt: timestamp("disposed_at").notNull(),
+  amount: decimal("amount", { precision: 18, scale: 9 }).notNull(), // Tokens sold from the lot
+  proceedsUsd: decimal("proceeds_usd", { precision: 18, scale: 6 }).notNull(),
+  costBasisUsd: decimal("cost_basis_usd", { precision: 18, scale: 6 }).notNull(),
+  gainUsd: decimal("gain_usd", { precision: 18, scale: 6 }).notNull(), // proceeds - cost basis
+  term: varchar("term", { enum: ['short', 'long', 'unknown'] }).notNull(), // 'long' = held more than one year
+  method: varchar("method", { enum: ['fifo', 'lifo', 'average'] }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertLotDisposalSchema = createInsertSchema(lotDisposals).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type LotDisposal = typeof lotDisposals.$inferSelect;
+export type InsertLotDisposal = z.infer<typeof insertLotDisposalSchema>;
+
+// Portfolio Snapshots - Periodic portfolio valuation per wallet (equity curve, PnL card sparkline)
+export const portfolioSnapshots = pgTable("portfolio_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
+  solBalance: decimal("sol_balance", { precision: 18, scale: 9 }).notNull(),
+  solPriceUsd: decimal("sol_price_usd", { precision: 18, scale: 6 }).notNull(),
+  tokenValueUsd: decimal("token_value_usd", { precision: 18, scale: 2 }).notNull(), // Sum of holdings valueUsd
+  totalValueUsd: decimal("total_value_usd", { precision: 18, scale: 2 }).notNull(), // SOL value + token value
+  holdings: text("holdings").notNull().default('[]'), // JSON array of { mint, symbol, amount, priceUsd, valueUsd }
+  takenAt: timestamp("taken_at").notNull().defaultNow(),
+});
+
+export const insertPortfolioSnapshotSchema = createInsertSchema(portfolioSnapshots).omit({
+  id: true,
+  takenAt: true,
+});
+
+export type PortfolioSnapshot = typeof portfolioSnapshots.$inferSelect;
+export type InsertPortfolioSnapshot = z.infer<typeof insertPortfolioSnapshotSchema>;
+
+// Price Candles - Persisted OHLC history per mint (intervals and retention: server/ohlc.ts)
+// Fed by polling samples of held/traded tokens and by executed swap prices
+export const priceCandles = pgTable("price_candles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  mint: text("mint").notNull(), // SPL token address
+  interval: varchar("interval", { enum: ['1m', '5m', '1h', '1d'] }).notNull(),
+  openTime: timestamp("open_time").notNull(), // Start of the candle (aligned to the interval, UTC)
+  open: decimal("open", { precision: 30, scale: 15 }).notNull(), // USD prices (memecoins need the extra scale)
+  high: decimal("high", { precision: 30, scale: 15 }).notNull(),
+  low: decimal("low", { precision: 30, scale: 15 }).notNull(),
+  close: decimal("close", { precision: 30, scale: 15 }).notNull(),
+  samples: integer("samples").notNull().default(1), // Price observations merged into this candle
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertPriceCandleSchema = createInsertSchema(priceCandles).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export type PriceCandle = typeof priceCandles.$inferSelect;
+export type InsertPriceCandle = z.infer<typeof insertPriceCandleSchema>;
+
+// API Keys - Developer API credentials per wallet (signing scheme and scopes: server/api-signing.ts)
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
+  name: varchar("name", { length: 50 }).notNull(),
+  keyPrefix: varchar("key_prefix", { length: 20 }).notNull(), // Non-secret start of the key (e.g. anv_1a2b3c4d), shown in key lists
+  keyHash: varchar("key_hash", { length: 64 }).notNull().unique(), // SHA-256 of the full key - the key itself is never stored
+  signingSecret: text("signing_secret").notNull(), // HMAC secret (encrypted with ENCRYPTION_KEY)
+  scopes: text("scopes").notNull().default('["read"]'), // JSON array of 'read' | 'trade' | 'withdraw'
+  rateLimitPerMinute: integer("rate_limit_per_minute").notNull().default(60),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"), // Revoked keys are kept for the audit trail but rejected
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertApiKeySchema = createInsertSchema(apiKeys).omit({
+  id: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+
+// API Request Nonces - Nonces seen per key within the signature window (replay protection, pruned by polling)
+export const apiRequestNonces = pgTable("api_request_nonces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  apiKeyId: varchar("api_key_id").notNull().references(() => apiKeys.id, { onDelete: 'cascade' }),
+  nonce: varchar("nonce", { length: 64 }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type ApiRequestNonce = typeof apiRequestNonces.$inferSelect;
+
+// Webhook Subscriptions - Wallet events POSTed to an integrator's URL (event types and signing: server/webhook-delivery.ts)
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
+  url: text("url").notNull(),
+  events: text("events").notNull(), // JSON array of subscribed event types
+  signingSecret: text("signing_secret").notNull(), // HMAC secret (encrypted with ENCRYPTION_KEY)
+  disabledAt: timestamp("disabled_at"), // Disabled subscriptions get no new events, their delivery log is kept
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+
+// Webhook Deliveries - One row per event and subscription (replays add a row), retried with backoff until delivered or failed
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subscriptionId: varchar("subscription_id").notNull().references(() => webhookSubscriptions.id, { onDelete: 'cascade' }),
+  walletId: varchar("wallet_id").notNull().references(() => wallets.id, { onDelete: 'cascade' }),
+  eventId: varchar("event_id").notNull(), // Shared by every subscription and replay of the event (receivers dedupe on it)
+  eventType: varchar("event_type", { enum: ['deposit.status_changed', 'withdrawal.status_changed', 'swap.completed', 'swap.failed'] }).notNull(),
+  payload: text("payload").notNull(), // Event JSON exactly as sent (signed byte for byte)
+  status: varchar("status", { enum: ['pending', 'delivered', 'failed'] }).notNull().default('pending'), // 'failed' = retries exhausted
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").defaultNow(), // Null once delivered or failed
+  lastStatusCode: integer("last_status_code"), // HTTP status of the last attempt (null = no answer)
+  lastError: text("last_error"),
+  replayOf: varchar("replay_of"), // Delivery this row replays
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
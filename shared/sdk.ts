@@ -0,0 +1,518 @@
+import {
+  ApiError,
+  apiV1Operations,
+  createApiClient,
+  type ApiClient,
+  type EstimateDepositQuery,
+  type EstimateWithdrawalQuery,
+  type ExecuteSwapBody,
+  type GetDepositStatusResponse,
+  type GetExplorerWalletQuery,
+  type GetPortfolioHistoryQuery,
+  type GetPortfolioQuery,
+  type GetSolLedgerQuery,
+  type GetSwapQuoteBody,
+  type GetSwapStatusResponse,
+  type GetWithdrawalStatusResponse,
+  type InitiateDepositBody,
+  type InitiateWithdrawalBody,
+  type ListExplorerTransactionsQuery,
+} from "./api-client";
+
+/**
+ * Anovex SDK - typed access to the Anovex API from the browser and Node
+ *
+ * Built on the generated client (shared/api-client.ts), adding:
+ *   - methods grouped by area: wallet, portfolio, swap, deposit, withdraw, explorer
+ *     (every other operation is on sdk.api, with the same error mapping)
+ *   - an error class per failure kind, mapped from the { success: false, error } envelope
+ *   - retries with exponential backoff and full jitter for network errors, 429 and 502/503/504
+ *   - polling helpers that wait for a swap job, deposit or withdrawal to settle
+ *
+ * Authentication:
+ *   session (default)  session cookie - the browser's, or a cookie jar kept by the SDK in Node
+ *   apiKey             signed developer API requests (/api/v1) - only the operations it serves
+ */
+
+// ======================
+// Errors
+// ======================
+
+export type AnovexErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'conflict'
+  | 'rate_limited'
+  | 'internal_error'
+  | 'request_failed'
+  | 'network_error'
+  | 'timeout';
+
+/**
+ * Base class of every SDK error (extends ApiError, so existing ApiError checks keep working)
+ */
+export class AnovexError extends ApiError {
+  constructor(status: number, message: string, body: unknown, public code: AnovexErrorCode) {
+    super(status, message, body);
+    this.name = 'AnovexError';
+  }
+}
+
+export class AnovexValidationError extends AnovexError {
+  constructor(message: string, body: unknown, public issues: Array<{ path: string; message: string }>) {
+    super(400, message, body, 'invalid_request');
+    this.name = 'AnovexValidationError';
+  }
+}
+
+export class AnovexAuthError extends AnovexError {
+  constructor(message: string, body: unknown) {
+    super(401, message, body, 'unauthorized');
+    this.name = 'AnovexAuthError';
+  }
+}
+
+export class AnovexForbiddenError extends AnovexError {
+  constructor(message: string, body: unknown) {
+    super(403, message, body, 'forbidden');
+    this.name = 'AnovexForbiddenError';
+  }
+}
+
+export class AnovexNotFoundError extends AnovexError {
+  constructor(message: string, body: unknown) {
+    super(404, message, body, 'not_found');
+    this.name = 'AnovexNotFoundError';
+  }
+}
+
+export class AnovexRateLimitError extends AnovexError {
+  constructor(message: string, body: unknown, public retryAfterMs: number | null) {
+    super(429, message, body, 'rate_limited');
+    this.name = 'AnovexRateLimitError';
+  }
+}
+
+export class AnovexServerError extends AnovexError {
+  constructor(status: number, message: string, body: unknown) {
+    super(status, message, body, 'internal_error');
+    this.name = 'AnovexServerError';
+  }
+}
+
+/**
+ * The request never got a response (status 0)
+ */
+export class AnovexNetworkError extends AnovexError {
+  constructor(message: string, public cause: unknown) {
+    super(0, message, null, 'network_error');
+    this.name = 'AnovexNetworkError';
+  }
+}
+
+/**
+ * A polling helper gave up before the operation settled (status 0)
+ */
+export class AnovexTimeoutError extends AnovexError {
+  constructor(message: string) {
+    super(0, message, null, 'timeout');
+    this.name = 'AnovexTimeoutError';
+  }
+}
+
+/**
+ * Map a generated-client error to its SDK error class (anything else is returned unchanged)
+ */
+export function toAnovexError(error: unknown): unknown {
+  if (!(error instanceof ApiError) || error instanceof AnovexError) {
+    return error;
+  }
+
+  const body = (error.body && typeof error.body === 'object' ? error.body : {}) as {
+    issues?: Array<{ path: string; message: string }>;
+    retryAfterMs?: number;
+  };
+
+  switch (error.status) {
+    case 400: return new AnovexValidationError(error.message, error.body, body.issues ?? []);
+    case 401: return new AnovexAuthError(error.message, error.body);
+    case 403: return new AnovexForbiddenError(error.message, error.body);
+    case 404: return new AnovexNotFoundError(error.message, error.body);
+    case 409: return new AnovexError(409, error.message, error.body, 'conflict');
+    case 429: return new AnovexRateLimitError(error.message, error.body, body.retryAfterMs ?? null);
+  }
+
+  return error.status >= 500
+    ? new AnovexServerError(error.status, error.message, error.body)
+    : new AnovexError(error.status, error.message, error.body, 'request_failed');
+}
+
+// ======================
+// Transport
+// ======================
+
+export interface RetryOptions {
+  retries: number; // Attempts after the first one
+  baseDelayMs: number;
+  maxDelayMs: number; // Backoff cap - a longer Retry-After is not waited for
+}
+
+export interface AnovexSdkOptions {
+  baseUrl?: string; // Defaults to the current origin (required in Node)
+  fetch?: typeof fetch;
+  apiKey?: { key: string; secret: string }; // Developer API credentials (Settings > API keys)
+  retry?: Partial<RetryOptions>;
+}
+
+export const DEFAULT_RETRY: RetryOptions = { retries: 2, baseDelayMs: 300, maxDelayMs: 5000 };
+
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Exponential backoff with full jitter: random in [0, min(max, base * 2^attempt))
+ */
+export function backoffDelay(attempt: number, retry: RetryOptions, random: () => number = Math.random): number {
+  return Math.floor(random() * Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attempt));
+}
+
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * X-Api-* headers for a developer API request (see server/api-signing.ts for the canonical request)
+ */
+export async function signApiRequest(
+  credentials: { key: string; secret: string },
+  method: string,
+  pathWithQuery: string,
+  body: string,
+  timestamp: number = Date.now()
+): Promise<Record<string, string>> {
+  const encoder = new TextEncoder();
+  const nonce = toHex(crypto.getRandomValues(new Uint8Array(16)).buffer);
+  const bodyHash = toHex(await crypto.subtle.digest('SHA-256', encoder.encode(body)));
+  const canonical = [timestamp, nonce, method.toUpperCase(), pathWithQuery, bodyHash].join('\n');
+
+  const key = await crypto.subtle.importKey('raw', encoder.encode(credentials.secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(canonical)));
+
+  return {
+    'X-Api-Key': credentials.key,
+    'X-Api-Timestamp': String(timestamp),
+    'X-Api-Nonce': nonce,
+    'X-Api-Signature': signature,
+  };
+}
+
+const v1Routes = apiV1Operations.map(operation => {
+  const names: string[] = [];
+  const pattern = operation.path.replace(/\{(\w+)\}/g, (_match, name: string) => {
+    names.push(name);
+    return '([^/]+)';
+  });
+  return { ...operation, pattern: new RegExp(`^${pattern}$`), names };
+});
+
+/**
+ * Developer API path of a web request path, or null if the developer API does not serve it
+ */
+export function toV1Path(method: string, path: string): string | null {
+  for (const route of v1Routes) {
+    const match = route.method === method.toUpperCase() ? route.pattern.exec(path) : null;
+    if (match) {
+      return route.names.reduce((v1Path, name, index) => v1Path.replace(`{${name}}`, match[index + 1]), route.v1Path);
+    }
+  }
+  return null;
+}
+
+/**
+ * v1 envelope back to the web response shape, so the generated client reads both the same way
+ */
+function unwrapEnvelope(envelope: any): unknown {
+  if (envelope?.apiVersion !== 'v1') {
+    return envelope;
+  }
+  return envelope.success
+    ? { success: true, ...envelope.data }
+    : { success: false, error: envelope.error?.message ?? 'Request failed', code: envelope.error?.code };
+}
+
+/**
+ * fetch for the generated client: retries, cookie jar, and developer API signing
+ */
+function createTransport(options: AnovexSdkOptions): typeof fetch {
+  const fetchFn = options.fetch ?? ((input, init) => fetch(input, init));
+  const retry = { ...DEFAULT_RETRY, ...options.retry };
+  const cookies = new Map<string, string>();
+
+  const storeCookies = (res: Response) => {
+    // Browsers hide Set-Cookie (and manage the session cookie themselves) - this only fills up in Node
+    for (const cookie of res.headers.getSetCookie?.() ?? []) {
+      const [pair, ...attributes] = cookie.split(';');
+      const separator = pair.indexOf('=');
+      const name = pair.slice(0, separator).trim();
+      const value = pair.slice(separator + 1).trim();
+      const expired = attributes.some(attribute => /^\s*max-age=0\s*$/i.test(attribute));
+
+      if (!value || expired) cookies.delete(name);
+      else cookies.set(name, value);
+    }
+  };
+
+  return async (input, init = {}) => {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const body = typeof init.body === 'string' ? init.body : '';
+    let url = String(input);
+
+    if (options.apiKey) {
+      const parsed = new URL(url, 'http://localhost');
+      const prefix = url.slice(0, url.length - (parsed.pathname + parsed.search).length);
+      const v1Path = toV1Path(method, parsed.pathname);
+      if (!v1Path) {
+        throw new Error(`${method} ${parsed.pathname} is not available with an API key`);
+      }
+      url = prefix + v1Path + parsed.search;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const headers: Record<string, string> = { ...(init.headers as Record<string, string> | undefined) };
+      if (options.apiKey) {
+        const parsed = new URL(url, 'http://localhost');
+        Object.assign(headers, await signApiRequest(options.apiKey, method, parsed.pathname + parsed.search, body));
+      } else if (cookies.size > 0) {
+        headers.Cookie = Array.from(cookies, ([name, value]) => `${name}=${value}`).join('; ');
+      }
+
+      let res: Response;
+      try {
+        res = await fetchFn(url, { ...init, headers });
+      } catch (error) {
+        // A write that may have reached the server is not repeated
+        if (method === 'GET' && attempt < retry.retries) {
+          await sleep(backoffDelay(attempt, retry));
+          continue;
+        }
+        throw new AnovexNetworkError(`${method} ${url} failed: ${error instanceof Error ? error.message : String(error)}`, error);
+      }
+
+      storeCookies(res);
+
+      const retryable = method === 'GET' ? RETRYABLE_STATUSES.includes(res.status) : res.status === 429;
+      const retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+      if (retryable && attempt < retry.retries && (retryAfterMs ?? 0) <= retry.maxDelayMs) {
+        await sleep(retryAfterMs ?? backoffDelay(attempt, retry));
+        continue;
+      }
+
+      if (!options.apiKey && res.status !== 429) {
+        return res;
+      }
+
+      // Rewrite the body: unwrap the v1 envelope, pass Retry-After on to the error
+      const text = await res.text();
+      let json: unknown;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        return new Response(text, { status: res.status, statusText: res.statusText, headers: res.headers });
+      }
+
+      const unwrapped = unwrapEnvelope(json);
+      const rewritten = res.status === 429 && unwrapped && typeof unwrapped === 'object'
+        ? { ...unwrapped, retryAfterMs }
+        : unwrapped;
+      const responseHeaders = new Headers(res.headers);
+      responseHeaders.delete('content-length');
+      return new Response(JSON.stringify(rewritten), { status: res.status, statusText: res.statusText, headers: responseHeaders });
+    }
+  };
+}
+
+// ======================
+// Polling
+// ======================
+
+export interface WaitOptions<T> {
+  intervalMs?: number;
+  timeoutMs?: number; // Infinity to wait until settled or aborted
+  signal?: AbortSignal;
+  onUpdate?: (status: T) => void; // Every poll, including the final one
+}
+
+function isTransient(error: unknown): boolean {
+  return error instanceof AnovexNetworkError || error instanceof AnovexServerError || error instanceof AnovexRateLimitError;
+}
+
+/**
+ * Poll until settled - transient failures (network, 429, 5xx) are polled through, others are thrown
+ */
+export async function pollUntil<T>(
+  load: () => Promise<T>,
+  isSettled: (value: T) => boolean,
+  what: string,
+  defaults: { intervalMs: number; timeoutMs: number },
+  options: WaitOptions<T> = {}
+): Promise<T> {
+  const intervalMs = options.intervalMs ?? defaults.intervalMs;
+  const deadline = Date.now() + (options.timeoutMs ?? defaults.timeoutMs);
+
+  for (;;) {
+    options.signal?.throwIfAborted();
+
+    try {
+      const value = await load();
+      options.onUpdate?.(value);
+      if (isSettled(value)) {
+        return value;
+      }
+    } catch (error) {
+      if (!isTransient(error)) {
+        throw error;
+      }
+    }
+
+    if (Date.now() + intervalMs > deadline) {
+      throw new AnovexTimeoutError(`Timed out waiting for ${what}`);
+    }
+    await sleep(intervalMs, options.signal);
+  }
+}
+
+export const TRANSFER_TERMINAL_STATUSES = ['finished', 'failed', 'refunded', 'expired', 'dead_letter'] as const;
+
+const SWAP_POLL = { intervalMs: 2000, timeoutMs: 2 * 60 * 1000 };
+const TRANSFER_POLL = { intervalMs: 5000, timeoutMs: 60 * 60 * 1000 }; // Bridge exchanges take minutes to an hour
+
+function isTransferSettled(status: string): boolean {
+  return (TRANSFER_TERMINAL_STATUSES as readonly string[]).includes(status);
+}
+
+// ======================
+// SDK
+// ======================
+
+type Operation = (...args: any[]) => Promise<unknown>;
+
+function withErrorMapping<T extends Record<string, Operation>>(client: T): T {
+  return Object.fromEntries(Object.entries(client).map(([name, operation]) => [
+    name,
+    (...args: unknown[]) => operation(...args).catch((error: unknown) => {
+      throw toAnovexError(error);
+    }),
+  ])) as T;
+}
+
+export function createAnovexSdk(options: AnovexSdkOptions = {}) {
+  const api: ApiClient = withErrorMapping(createApiClient({
+    baseUrl: options.baseUrl,
+    fetch: createTransport(options),
+  }));
+
+  return {
+    /** Every operation of the generated client, with SDK errors */
+    api,
+
+    wallet: {
+      create: () => api.createWallet(),
+      /** Log in with a secret key (64 bytes) - starts the session */
+      login: (privateKey: number[]) => api.loginWallet({ body: { privateKey } }),
+      logout: () => api.logoutWallet(),
+      balance: () => api.getWalletBalance(),
+      address: () => api.getWalletAddress(),
+      list: () => api.listWallets(),
+      switch: (walletId: string) => api.switchWallet({ body: { walletId } }),
+      exportKey: () => api.exportWalletKey(),
+      /** Import a secret key given as a JSON array of 64 bytes */
+      import: (privateKey: string) => api.importWallet({ body: { privateKey } }),
+      ledger: (query?: GetSolLedgerQuery) => api.getSolLedger({ query }),
+    },
+
+    portfolio: {
+      get: (query?: GetPortfolioQuery) => api.getPortfolio({ query }),
+      history: (query?: GetPortfolioHistoryQuery) => api.getPortfolioHistory({ query }),
+    },
+
+    swap: {
+      quote: (body: GetSwapQuoteBody) => api.getSwapQuote({ body }),
+      execute: (body: ExecuteSwapBody) => api.executeSwap({ body }),
+      status: (txhash: string) => api.getSwapStatus({ params: { txhash } }),
+      /** Resolves once the swap job is completed or failed */
+      waitForCompletion: (txhash: string, waitOptions?: WaitOptions<GetSwapStatusResponse>) => pollUntil(
+        () => api.getSwapStatus({ params: { txhash } }),
+        response => response.swap.status === 'completed' || response.swap.status === 'failed',
+        `swap ${txhash}`,
+        SWAP_POLL,
+        waitOptions
+      ),
+    },
+
+    deposit: {
+      estimate: (amount: EstimateDepositQuery['amount']) => api.estimateDeposit({ query: { amount } }),
+      initiate: (solAmount: InitiateDepositBody['solAmount']) => api.initiateDeposit({ body: { solAmount } }),
+      status: (depositId: string) => api.getDepositStatus({ params: { depositId } }),
+      history: () => api.getDepositHistory(),
+      /** Resolves once the deposit is finished, failed, refunded, expired or dead-lettered */
+      waitForCompletion: (depositId: string, waitOptions?: WaitOptions<GetDepositStatusResponse>) => pollUntil(
+        () => api.getDepositStatus({ params: { depositId } }),
+        response => isTransferSettled(response.status),
+        `deposit ${depositId}`,
+        TRANSFER_POLL,
+        waitOptions
+      ),
+    },
+
+    withdraw: {
+      estimate: (amount: EstimateWithdrawalQuery['amount']) => api.estimateWithdrawal({ query: { amount } }),
+      initiate: (body: InitiateWithdrawalBody) => api.initiateWithdrawal({ body }),
+      status: (withdrawId: string) => api.getWithdrawalStatus({ params: { withdrawId } }),
+      history: () => api.getWithdrawalHistory(),
+      /** Resolves once the withdrawal is finished, failed, refunded, expired or dead-lettered */
+      waitForCompletion: (withdrawId: string, waitOptions?: WaitOptions<GetWithdrawalStatusResponse>) => pollUntil(
+        () => api.getWithdrawalStatus({ params: { withdrawId } }),
+        response => isTransferSettled(response.withdrawal.status),
+        `withdrawal ${withdrawId}`,
+        TRANSFER_POLL,
+        waitOptions
+      ),
+    },
+
+    explorer: {
+      transactions: (query?: ListExplorerTransactionsQuery) => api.listExplorerTransactions({ query }),
+      stats: () => api.getExplorerStats(),
+      transaction: (hash: string) => api.getExplorerTransaction({ params: { hash } }),
+      wallet: (anvAddress: string, query?: GetExplorerWalletQuery) => api.getExplorerWallet({ params: { anvAddress }, query }),
+    },
+  };
+}
+
+export type AnovexSdk = ReturnType<typeof createAnovexSdk>;
+
+// Same-origin SDK with the session cookie (React pages)
+export const sdk = createAnovexSdk();
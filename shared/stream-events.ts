@@ -0,0 +1,99 @@
+import type { GetSwapStatusResponse, GetWalletBalanceResponse } from "./api-client";
+
+/**
+ * Wallet stream - events pushed to the web dashboard over Server-Sent Events (GET /api/stream)
+ *
+ * The stream is authenticated by the session cookie and carries the active wallet's events only.
+ * Events are notifications: pages refresh the affected queries, except price ticks which are
+ * applied to the cached balance directly. A reconnect sends `ready` again - refetch on it to
+ * catch anything missed while disconnected.
+ *
+ * Shared by server/wallet-stream.ts (publisher) and client/src/lib/wallet-stream.ts (subscriber).
+ */
+
+export const WALLET_STREAM_PATH = '/api/stream';
+
+export interface WalletStreamEventMap {
+  ready: { connectedAt: string };
+  balance: {
+    solBalance: string;
+    tokens: Array<{ mint: string; symbol: string; amount: string }>;
+  };
+  swap: { swap: GetSwapStatusResponse['swap'] };
+  deposit: { depositId: string; previousStatus: string; status: string };
+  withdrawal: { withdrawalId: string; previousStatus: string; status: string };
+  prices: {
+    solPriceUsd: number | null; // null when unchanged
+    prices: Record<string, number>; // Held mints whose price moved
+  };
+  dca: { scheduleId: string; status: string };
+  portfolio: { takenAt: string };
+}
+
+export type WalletStreamEventType = keyof WalletStreamEventMap;
+
+export const WALLET_STREAM_EVENT_TYPES: WalletStreamEventType[] = [
+  'ready', 'balance', 'swap', 'deposit', 'withdrawal', 'prices', 'dca', 'portfolio'
+];
+
+export type WalletStreamEvent = {
+  [Type in WalletStreamEventType]: { type: Type; data: WalletStreamEventMap[Type] };
+}[WalletStreamEventType];
+
+// Price moves smaller than this (relative) are not pushed
+export const PRICE_TICK_MIN_CHANGE = 0.0005;
+
+/**
+ * SSE frame for an event (one `data:` line - JSON never contains a raw newline)
+ */
+export function formatStreamEvent(event: WalletStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * Prices that moved since the last tick (new mints always count)
+ */
+export function getChangedPrices(
+  previous: ReadonlyMap<string, number>,
+  next: ReadonlyMap<string, number>,
+  minChange: number = PRICE_TICK_MIN_CHANGE
+): Record<string, number> {
+  const changed: Record<string, number> = {};
+  for (const [mint, price] of Array.from(next.entries())) {
+    const before = previous.get(mint);
+    if (before === undefined || before === 0 || Math.abs(price - before) / before >= minChange) {
+      changed[mint] = price;
+    }
+  }
+  return changed;
+}
+
+/**
+ * Cached balance response repriced with a price tick (USD values and total recomputed)
+ */
+export function applyPriceTicks(
+  balance: GetWalletBalanceResponse,
+  tick: WalletStreamEventMap['prices']
+): GetWalletBalanceResponse {
+  const solPrice = tick.solPriceUsd ?? parseFloat(balance.sol.priceUsd);
+  const sol = {
+    ...balance.sol,
+    priceUsd: solPrice.toFixed(2),
+    totalUsd: (parseFloat(balance.sol.amount) * solPrice).toFixed(2),
+  };
+
+  const tokens = balance.tokens.map(token => {
+    const price = tick.prices[token.mint];
+    if (price === undefined) {
+      return token;
+    }
+    return {
+      ...token,
+      priceUsd: price.toFixed(6),
+      totalUsd: (parseFloat(token.amount) * price).toFixed(2),
+    };
+  });
+
+  const totalUsd = parseFloat(sol.totalUsd) + tokens.reduce((sum, token) => sum + parseFloat(token.totalUsd), 0);
+  return { ...balance, sol, tokens, totalUsd: totalUsd.toFixed(2) };
+}